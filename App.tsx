@@ -1,9 +1,10 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { Bill, Person, RecurringBill, Payment, Mortgage, MortgagePayment, MortgagePaymentBreakdown, FinancedExpense } from './types';
-import { useMembers, useBills, useRecurringBills, usePayments, useMortgages, useMortgagePayments, useMortgagePaymentBreakdowns, apiOperations } from './hooks/useApiData';
+import { Bill, Person, RecurringBill, Payment, Mortgage, MortgagePayment, MortgagePaymentBreakdown, MortgageRateEvent, FinancedExpense, AuthSession, Household, MemberRole } from './types';
+import { useMembers, useBills, useRecurringBills, usePayments, useMortgages, useMortgagePayments, useMortgagePaymentBreakdowns, apiOperations, EscrowAdjustmentParams } from './hooks/useApiData';
 import { useFinancedExpenses, financedExpenseOperations } from './hooks/useFinancedExpenses';
+import { useSession } from './hooks/useSession';
 import { Header } from './components/Header';
 import { Summary } from './components/Summary';
 import { BillManager } from './components/BillManager';
@@ -12,14 +13,30 @@ import { RecurringBillManager } from './components/RecurringBillManager';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
 import { WarningBanner } from './components/WarningBanner';
-import { calculateSplitAmounts, calculatePaymentBreakdown, resolveItemCycle } from './utils/calculations';
+import { calculateSplitAmounts, resolveItemCycle } from './utils/calculations';
 import { FamilyView } from './components/FamilyView';
 import { MortgageManager } from './components/MortgageManager';
 import { FinancedExpenseManager } from './components/FinancedExpenseManager';
 import { PasswordModal } from './components/PasswordModal';
+import { LoginScreen } from './components/LoginScreen';
+import { AccountManager } from './components/AccountManager';
+import { HouseholdManager } from './components/HouseholdManager';
+import { BackupManager } from './components/BackupManager';
+import { BankImportManager } from './components/BankImportManager';
+import { CalendarFeedManager } from './components/CalendarFeedManager';
+import { NotificationSettings } from './components/NotificationSettings';
+import { InviteScreen } from './components/InviteScreen';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { ToastProvider } from './components/ToastContainer';
+import { TrashManager } from './components/TrashManager';
+import { useToastHelpers } from './hooks/useToast';
 import { SwipeablePages } from './components/SwipeablePages';
 import { InsightsPage } from './components/InsightsPage';
+import { TaxSummaryReport } from './components/TaxSummaryReport';
+import { IncomeManager } from './components/IncomeManager';
+import { apiClient, ApiIncomeSource, ApiSavingsGoal, ApiTrashItemKind } from './utils/api';
+import { getMonthlyIncomeCents } from './utils/income';
+import { formatPeriod, isRecurringBillDueIn } from './utils/recurrence';
 
 // Create QueryClient instance
 const queryClient = new QueryClient({
@@ -36,15 +53,23 @@ const queryClient = new QueryClient({
   },
 });
 
-const AppContent: React.FC = () => {
-  const [people, setPeople, peopleLoading, peopleWarning] = useMembers();
-  const [bills, setBills, billsLoading, billsWarning] = useBills();
-  const [recurringBills, setRecurringBills, recurringBillsLoading, recurringBillsWarning] = useRecurringBills();
-  const [payments, setPayments, paymentsLoading, paymentsWarning] = usePayments();
-  const [mortgages, setMortgages, mortgagesLoading, mortgagesWarning] = useMortgages();
-  const [mortgagePayments, setMortgagePayments, mortgagePaymentsLoading, mortgagePaymentsWarning] = useMortgagePayments();
-  const [mortgagePaymentBreakdowns, setMortgagePaymentBreakdowns, breakdownsLoading, breakdownsWarning] = useMortgagePaymentBreakdowns();
-  const [financedExpenses, setFinancedExpenses, financedExpensesLoading, financedExpensesWarning] = useFinancedExpenses();
+interface AppContentProps {
+  session: AuthSession;
+  onSignIn: (username: string, password: string) => Promise<AuthSession>;
+  onSwitchHousehold: (householdId: string) => Promise<AuthSession>;
+  onSignOut: () => void;
+}
+
+const AppContent: React.FC<AppContentProps> = ({ session, onSignIn, onSwitchHousehold, onSignOut }) => {
+  const [people, setPeople, peopleLoading, peopleWarning, reloadPeople] = useMembers();
+  const [bills, setBills, billsLoading, billsWarning, reloadBills] = useBills();
+  const [recurringBills, setRecurringBills, recurringBillsLoading, recurringBillsWarning, reloadRecurringBills] = useRecurringBills();
+  const [payments, setPayments, paymentsLoading, paymentsWarning, reloadPayments] = usePayments();
+  const [mortgages, setMortgages, mortgagesLoading, mortgagesWarning, reloadMortgages] = useMortgages();
+  const [mortgagePayments, setMortgagePayments, mortgagePaymentsLoading, mortgagePaymentsWarning, reloadMortgagePayments] = useMortgagePayments();
+  const [mortgagePaymentBreakdowns, setMortgagePaymentBreakdowns, breakdownsLoading, breakdownsWarning, reloadBreakdowns] = useMortgagePaymentBreakdowns();
+  const [financedExpenses, setFinancedExpenses, financedExpensesLoading, financedExpensesWarning, reloadFinancedExpenses] = useFinancedExpenses();
+  const { showUndo, showError } = useToastHelpers();
 
   // Compute loading state (no blocking errors anymore)
   const isLoading = peopleLoading || billsLoading || recurringBillsLoading || paymentsLoading || mortgagesLoading || mortgagePaymentsLoading || breakdownsLoading || financedExpensesLoading;
@@ -52,15 +77,72 @@ const AppContent: React.FC = () => {
   // Collect warnings for non-blocking notification
   const warnings = [peopleWarning, billsWarning, recurringBillsWarning, paymentsWarning, mortgagesWarning, mortgagePaymentsWarning, breakdownsWarning, financedExpensesWarning].filter(Boolean);
   
-  // Default view is 'family'. 'manage' is a protected state.
+  // Default view is 'family'. 'manage' is only available to a manager session.
   const [view, setView] = useState<'manage' | 'family'>('family');
-  const [isManagerModeUnlocked, setIsManagerModeUnlocked] = useState(false);
+  const isManagerModeUnlocked = session.role === 'manager';
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
 
+  // Households this login belongs to, for the header switcher
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const loadHouseholds = useCallback(() => {
+    apiClient.getHouseholds()
+      .then(apiHouseholds => setHouseholds(apiHouseholds.map(h => ({ id: h.id, name: h.name, role: h.role as MemberRole }))))
+      .catch(err => console.warn('Households fetch failed:', err));
+  }, []);
+  useEffect(loadHouseholds, [loadHouseholds]);
+
+  const [incomeSources, setIncomeSources] = useState<ApiIncomeSource[]>([]);
+  const loadIncomeSources = useCallback(() => {
+    apiClient.getIncomeSources()
+      .then(setIncomeSources)
+      .catch(err => console.warn('Income sources fetch failed:', err));
+  }, []);
+  useEffect(loadIncomeSources, [loadIncomeSources]);
+
+  const [savingsGoals, setSavingsGoals] = useState<ApiSavingsGoal[]>([]);
+  const loadSavingsGoals = useCallback(() => {
+    apiClient.getSavingsGoals()
+      .then(setSavingsGoals)
+      .catch(err => console.warn('Savings goals fetch failed:', err));
+  }, []);
+  useEffect(loadSavingsGoals, [loadSavingsGoals]);
+
+  // Lists to re-read once an item of each kind comes back from the trash
+  const reloadForTrashKind = (kind: ApiTrashItemKind) => {
+    const reloads: Record<ApiTrashItemKind, (() => Promise<void>)[]> = {
+      'member': [reloadPeople],
+      'bill': [reloadBills, reloadPayments],
+      'payment': [reloadBills, reloadPayments],
+      'recurring-bill': [reloadRecurringBills],
+      'mortgage': [reloadMortgages, reloadMortgagePayments, reloadBreakdowns],
+      'mortgage-payment': [reloadMortgages, reloadMortgagePayments, reloadBreakdowns],
+      'financed-expense': [reloadFinancedExpenses],
+    };
+    return Promise.all(reloads[kind].map(reload => reload()));
+  };
+
+  // Deleting moves an item to the trash; the toast offers to take it straight back out
+  const offerUndo = (kind: ApiTrashItemKind, id: string, title: string) => {
+    showUndo(title, async () => {
+      try {
+        await apiClient.restoreTrashItem(kind, id);
+        await reloadForTrashKind(kind);
+      } catch (error) {
+        showError('Could not undo', error instanceof Error ? error.message : undefined);
+      }
+    });
+  };
+
+  const handleHouseholdRenamed = async () => {
+    // Re-reading the session picks up the new name for the header
+    await onSwitchHousehold(session.householdId);
+    loadHouseholds();
+  };
+
   // Note: Data migration effects removed since we're now using API persistence
 
 
-  // Note: Recurring bill generation logic should be handled server-side or moved to API hooks
+  // Note: Recurring bills are turned into bills server-side (POST /api/recurring-bills/generate and an hourly job)
 
   const totals = useMemo(() => {
     // Helper function to safely get numeric values
@@ -77,21 +159,32 @@ const AppContent: React.FC = () => {
       .filter(m => m.active)
       .reduce((sum, m) => sum + safeNumber(m.scheduled_payment), 0);
 
-    // Calculate the total planned monthly amount from recurring bills with a 'monthly' frequency.
-    const monthlyRecurringBillsTotal = recurringBills
-      .filter(rb => rb.frequency === 'monthly')
+    // Calculate the total planned monthly amount from recurring bills with a 'monthly' frequency,
+    // leaving out ones archived, paused, ended or skipped this month.
+    const currentPeriod = formatPeriod(new Date());
+    const monthlyRecurringBills = recurringBills.filter(rb => rb.frequency === 'monthly' && isRecurringBillDueIn(rb, currentPeriod));
+    const monthlyRecurringBillsTotal = monthlyRecurringBills
       .reduce((sum, rb) => sum + safeNumber(rb.amount), 0);
 
     // Calculate the total from regular bills (one-time bills)
     const regularBillsTotal = bills.reduce((sum, bill) => sum + safeNumber(bill.amount), 0);
 
+    // The part of the bills above that is still an estimate of a variable bill
+    const estimatedMonthly = monthlyRecurringBills
+      .filter(rb => rb.amountMode === 'variable')
+      .reduce((sum, rb) => sum + safeNumber(rb.amount), 0)
+      + bills.filter(bill => bill.isEstimated).reduce((sum, bill) => sum + safeNumber(bill.amount), 0);
+
     // Calculate the total planned monthly amount from active financed expenses.
     const financedExpensesTotal = financedExpenses
       .filter(fe => fe.isActive)
       .reduce((sum, fe) => sum + safeNumber(fe.monthlyPayment), 0);
 
+    // Calculate the monthly pace still needed to reach unfinished savings goals by their target dates.
+    const savingsGoalsTotal = savingsGoals.reduce((sum, goal) => sum + goal.progress.requiredMonthlyCents / 100, 0);
+
     // The main total is the sum of these planned amounts.
-    const totalMonthly = mortgagesTotal + monthlyRecurringBillsTotal + regularBillsTotal + financedExpensesTotal;
+    const totalMonthly = mortgagesTotal + monthlyRecurringBillsTotal + regularBillsTotal + financedExpensesTotal + savingsGoalsTotal;
 
     // The "Split Totals" are calculated separately based on the same set of items.
     const perPersonTotals: { [key: string]: number } = {};
@@ -113,8 +206,7 @@ const AppContent: React.FC = () => {
     });
 
     // Process splits for 'monthly' recurring bills.
-    recurringBills
-      .filter(rb => rb.frequency === 'monthly')
+    monthlyRecurringBills
       .forEach(bill => {
         const calculatedSplits = calculateSplitAmounts(bill, people);
 
@@ -149,18 +241,41 @@ const AppContent: React.FC = () => {
         });
     });
 
+    // Process splits for savings goals, as each contributor's part of the required monthly pace.
+    savingsGoals.forEach(goal => {
+        const splittable = { amount: goal.progress.requiredMonthlyCents / 100, splitMode: goal.splitMode, splits: goal.splits };
+        const calculatedSplits = calculateSplitAmounts(splittable, people);
+
+        calculatedSplits.forEach(split => {
+            if (perPersonTotals[split.personId] !== undefined) {
+                perPersonTotals[split.personId] += split.amount;
+            }
+        });
+    });
+
     const finalPerPersonTotals = people.map(person => ({
         ...person,
         total: perPersonTotals[person.id] || 0,
     }));
 
-    return { totalMonthly, perPersonTotals: finalPerPersonTotals };
-  }, [people, mortgages, recurringBills, bills, financedExpenses]);
+    return { totalMonthly, estimatedMonthly, perPersonTotals: finalPerPersonTotals };
+  }, [people, mortgages, recurringBills, bills, financedExpenses, savingsGoals]);
+
+  // Average monthly income from active sources, in dollars like the totals above
+  const income = useMemo(() => {
+    const perPersonIncome: Record<string, number> = {};
+    incomeSources
+      .filter(source => source.active)
+      .forEach(source => {
+        perPersonIncome[source.memberId] = (perPersonIncome[source.memberId] || 0) + getMonthlyIncomeCents(source.amountCents, source.frequency) / 100;
+      });
+    const totalMonthlyIncome = Object.values(perPersonIncome).reduce((sum, amount) => sum + amount, 0);
+    return { totalMonthlyIncome, perPersonIncome };
+  }, [incomeSources]);
 
   const handleViewChangeRequest = (newView: 'manage' | 'family') => {
     if (newView === 'family') {
       setView('family');
-      setIsManagerModeUnlocked(false); // Relock the manager view
     } else if (newView === 'manage') {
       if (isManagerModeUnlocked) {
         setView('manage');
@@ -171,7 +286,6 @@ const AppContent: React.FC = () => {
   };
 
   const handlePasswordSuccess = () => {
-    setIsManagerModeUnlocked(true);
     setView('manage');
     setIsPasswordModalOpen(false);
   };
@@ -194,21 +308,11 @@ const AppContent: React.FC = () => {
   const handleDeletePerson = async (personId: string) => {
     try {
       await apiOperations.deleteMember(personId);
-      // The API should handle cascading deletes, but we'll update local state
-      const updatedBills = bills.map(bill => ({
-          ...bill,
-          splits: bill.splits.filter(split => split.personId !== personId)
-      }));
-      const updatedMortgages = mortgages.map(m => ({
-          ...m,
-          splits: m.splits.filter(s => s.personId !== personId)
-      }));
-
-      setBills(updatedBills.filter(bill => bill.splits.length > 0 || bill.amount === 0));
-      setMortgages(updatedMortgages.filter(m => m.splits.length > 0 || m.scheduled_payment === 0));
-      setPayments(payments.filter(p => p.payerPersonId !== personId));
-      setMortgagePayments(mortgagePayments.filter(p => p.payerPersonId !== personId));
+      // Their splits and payments stay put while they are in the trash; splits for people who
+      // are no longer listed are left out of the shares
+      const person = people.find(p => p.id === personId);
       setPeople(people.filter(p => p.id !== personId));
+      offerUndo('member', personId, `Removed ${person?.name ?? 'member'}`);
     } catch (error) {
       console.error('Failed to delete person:', error);
     }
@@ -242,8 +346,10 @@ const AppContent: React.FC = () => {
   const handleDeleteBill = async (billId: string) => {
     try {
       await apiOperations.deleteBill(billId);
+      const bill = bills.find(b => b.id === billId);
       setBills(bills.filter(b => b.id !== billId));
       setPayments(payments.filter(p => p.billId !== billId));
+      offerUndo('bill', billId, `Deleted ${bill?.name ?? 'bill'}`);
     } catch (error) {
       console.error('Failed to delete bill:', error);
     }
@@ -261,7 +367,9 @@ const AppContent: React.FC = () => {
   const handleDeleteFinancedExpense = async (expenseId: string) => {
     try {
       await financedExpenseOperations.deleteFinancedExpense(expenseId);
+      const expense = financedExpenses.find(e => e.id === expenseId);
       setFinancedExpenses(financedExpenses.filter(e => e.id !== expenseId));
+      offerUndo('financed-expense', expenseId, `Deleted ${expense?.title ?? 'financed expense'}`);
     } catch (error) {
       console.error('Failed to delete financed expense:', error);
     }
@@ -288,10 +396,20 @@ const AppContent: React.FC = () => {
     try {
       await apiOperations.deletePayment(paymentId);
       setPayments(payments.filter(p => p.id !== paymentId));
+      offerUndo('payment', paymentId, 'Deleted payment');
     } catch (error) {
       console.error('Failed to delete payment:', error);
     }
   };
+
+  const handleConfirmBillAmount = async (billId: string, amount: number) => {
+    try {
+      const confirmedBill = await apiOperations.confirmBillAmount(billId, amount);
+      setBills(bills.map(b => b.id === billId ? confirmedBill : b));
+    } catch (error) {
+      console.error('Failed to confirm bill amount:', error);
+    }
+  };
   
   // --- Mortgage Handlers ---
   const handleSaveMortgage = async (mortgage: Mortgage) => {
@@ -324,9 +442,11 @@ const AppContent: React.FC = () => {
   const handleDeleteMortgage = async (mortgageId: string) => {
       try {
         await apiOperations.deleteMortgage(mortgageId);
+        const mortgage = mortgages.find(m => m.id === mortgageId);
         setMortgages(mortgages.filter(m => m.id !== mortgageId));
         setMortgagePayments(mortgagePayments.filter(p => p.mortgageId !== mortgageId));
         setMortgagePaymentBreakdowns(mortgagePaymentBreakdowns.filter(bd => bd.mortgageId !== mortgageId));
+        offerUndo('mortgage', mortgageId, `Deleted ${mortgage?.name ?? 'mortgage'}`);
       } catch (error) {
         console.error('Failed to delete mortgage:', error);
       }
@@ -334,38 +454,23 @@ const AppContent: React.FC = () => {
   
   const handleSaveMortgagePayment = async (payment: MortgagePayment) => {
       try {
-        const mortgage = mortgages.find(m => m.id === payment.mortgageId);
-        if (!mortgage) return;
-
         const existingPayment = mortgagePayments.find(p => p.id === payment.id);
-        const existingBreakdown = mortgagePaymentBreakdowns.find(bd => bd.id === payment.id);
 
-        let principalChange = 0;
-        if (existingBreakdown) {
-            principalChange += existingBreakdown.principal;
-        }
-
-        // Add new payment and breakdown
-        const newBreakdown = calculatePaymentBreakdown(payment, mortgage, mortgagePayments);
-        principalChange -= newBreakdown.principal;
+        // The server records the breakdown and reduces the mortgage principal in one transaction
+        const saved = existingPayment
+          ? await apiOperations.updateMortgagePayment(payment)
+          : await apiOperations.createMortgagePayment(payment);
 
         if (existingPayment) {
-          const updatedPayment = await apiOperations.updateMortgagePayment(payment);
-          setMortgagePayments(mortgagePayments.map(p => p.id === payment.id ? updatedPayment : p));
+          setMortgagePayments(mortgagePayments.map(p => p.id === payment.id ? saved.payment : p));
         } else {
-          const createdPayment = await apiOperations.createMortgagePayment(payment);
-          setMortgagePayments([...mortgagePayments, createdPayment]);
+          setMortgagePayments([...mortgagePayments, saved.payment]);
         }
 
-        // Update mortgage principal (this should ideally be handled by the API)
-        setMortgages(mortgages.map(m => m.id === mortgage.id ? { ...m, current_principal: m.current_principal + principalChange } : m));
+        setMortgages(mortgages.map(m => m.id === saved.payment.mortgageId ? { ...m, current_principal: saved.currentPrincipal } : m));
 
-        const existingBreakdownIndex = mortgagePaymentBreakdowns.findIndex(bd => bd.id === newBreakdown.id);
-        if (existingBreakdownIndex > -1) {
-            setMortgagePaymentBreakdowns(mortgagePaymentBreakdowns.map(bd => bd.id === newBreakdown.id ? newBreakdown : bd));
-        } else {
-            setMortgagePaymentBreakdowns([...mortgagePaymentBreakdowns, newBreakdown]);
-        }
+        const otherBreakdowns = mortgagePaymentBreakdowns.filter(bd => bd.id !== saved.payment.id);
+        setMortgagePaymentBreakdowns(saved.breakdown ? [...otherBreakdowns, saved.breakdown] : otherBreakdowns);
       } catch (error) {
         console.error('Failed to save mortgage payment:', error);
       }
@@ -373,21 +478,48 @@ const AppContent: React.FC = () => {
   
   const handleDeleteMortgagePayment = async (payment: MortgagePayment) => {
       try {
-        const mortgage = mortgages.find(m => m.id === payment.mortgageId);
-        const breakdown = mortgagePaymentBreakdowns.find(bd => bd.id === payment.id);
-
-        await apiOperations.deleteMortgagePayment(payment.id);
+        const { currentPrincipal } = await apiOperations.deleteMortgagePayment(payment.id);
 
-        if (mortgage && breakdown) {
-            setMortgages(mortgages.map(m => m.id === mortgage.id ? { ...m, current_principal: m.current_principal + breakdown.principal } : m));
-        }
+        setMortgages(mortgages.map(m => m.id === payment.mortgageId ? { ...m, current_principal: currentPrincipal } : m));
         setMortgagePayments(mortgagePayments.filter(p => p.id !== payment.id));
         setMortgagePaymentBreakdowns(mortgagePaymentBreakdowns.filter(bd => bd.id !== payment.id));
+        offerUndo('mortgage-payment', payment.id, 'Deleted mortgage payment');
       } catch (error) {
         console.error('Failed to delete mortgage payment:', error);
       }
   };
 
+  const handleSaveMortgageRateEvent = async (event: MortgageRateEvent) => {
+      try {
+        const saved = await apiOperations.createMortgageRateEvent(event);
+        setMortgages(mortgages.map(m => m.id === event.mortgageId ? {
+          ...m,
+          rateEvents: [...(m.rateEvents ?? []), saved.event],
+          current_principal: saved.currentPrincipal ?? m.current_principal
+        } : m));
+      } catch (error) {
+        console.error('Failed to save mortgage rate change:', error);
+      }
+  };
+
+  const handleDeleteMortgageRateEvent = async (event: MortgageRateEvent) => {
+      try {
+        await apiOperations.deleteMortgageRateEvent(event);
+        setMortgages(mortgages.map(m => m.id === event.mortgageId ? { ...m, rateEvents: (m.rateEvents ?? []).filter(e => e.id !== event.id) } : m));
+      } catch (error) {
+        console.error('Failed to delete mortgage rate change:', error);
+      }
+  };
+
+  const handleApplyEscrowAdjustment = async (params: EscrowAdjustmentParams) => {
+      try {
+        const changes = await apiOperations.applyEscrowAdjustment(params);
+        setMortgages(mortgages.map(m => m.id === params.mortgageId ? { ...m, ...changes } : m));
+      } catch (error) {
+        console.error('Failed to apply escrow adjustment:', error);
+      }
+  };
+
   // --- Modal States ---
   const [isBillModalOpen, setIsBillModalOpen] = useState(false);
   const [editingBill, setEditingBill] = useState<Bill | null>(null);
@@ -402,26 +534,45 @@ const AppContent: React.FC = () => {
     setIsBillModalOpen(false);
   };
 
+  const saveRecurringBill = async (recurringBill: RecurringBill, isNew: boolean) => {
+    if (isNew) {
+        const createdRB = await apiOperations.createRecurringBill(recurringBill);
+        setRecurringBills([...recurringBills, createdRB]);
+    } else {
+        const updatedRB = await apiOperations.updateRecurringBill(recurringBill);
+        setRecurringBills(recurringBills.map(rb => rb.id === recurringBill.id ? updatedRB : rb));
+    }
+    // Pick up any periods that are now due without waiting for the server's hourly job. Saving may
+    // also have removed upcoming bills the schedule now leaves out, so the list is read again.
+    await apiOperations.generateRecurringBills();
+    await reloadBills();
+  };
+
   const handleSaveRecurringBill = async (recurringBill: RecurringBill) => {
     try {
-      if (editingRecurringBill) {
-          const updatedRB = await apiOperations.updateRecurringBill(recurringBill);
-          setRecurringBills(recurringBills.map(rb => rb.id === recurringBill.id ? updatedRB : rb));
-      } else {
-          const createdRB = await apiOperations.createRecurringBill(recurringBill);
-          setRecurringBills([...recurringBills, createdRB]);
-      }
+      await saveRecurringBill(recurringBill, !editingRecurringBill);
       closeRecurringBillModal();
     } catch (error) {
       console.error('Failed to save recurring bill:', error);
     }
   };
 
+  // Archiving and restoring from the list
+  const handleChangeRecurringBill = async (recurringBill: RecurringBill) => {
+    try {
+      await saveRecurringBill(recurringBill, false);
+    } catch (error) {
+      console.error('Failed to update recurring bill:', error);
+    }
+  };
+
+  // Bills the recurring bill already generated stay, along with their payments
   const handleDeleteRecurringBill = async (recurringBillId: string) => {
     try {
       await apiOperations.deleteRecurringBill(recurringBillId);
+      const recurringBill = recurringBills.find(rb => rb.id === recurringBillId);
       setRecurringBills(recurringBills.filter(rb => rb.id !== recurringBillId));
-      setBills(bills.filter(b => b.recurringBillId !== recurringBillId));
+      offerUndo('recurring-bill', recurringBillId, `Deleted ${recurringBill?.name ?? 'recurring bill'}`);
     } catch (error) {
       console.error('Failed to delete recurring bill:', error);
     }
@@ -447,6 +598,11 @@ const AppContent: React.FC = () => {
         currentView={view}
         isManagerModeUnlocked={isManagerModeUnlocked}
         onViewChange={handleViewChangeRequest}
+        signedInAs={session.memberName}
+        onSignOut={onSignOut}
+        householdId={session.householdId}
+        households={households}
+        onSwitchHousehold={onSwitchHousehold}
       />
       <main className="container mx-auto p-4 md:p-8">
         {/* Loading State */}
@@ -465,12 +621,18 @@ const AppContent: React.FC = () => {
         {/* Main Content - Always show when not loading */}
         {!isLoading && (
           <ErrorBoundary>
-            {view === 'manage' ? (
+            {view === 'manage' && isManagerModeUnlocked ? (
               <SwipeablePages
                 pages={[
                   // Page 1: Admin Dashboard
                   <>
-                    <Summary totalMonthly={totals.totalMonthly} perPersonTotals={totals.perPersonTotals} />
+                    <Summary
+                      totalMonthly={totals.totalMonthly}
+                      estimatedMonthly={totals.estimatedMonthly}
+                      perPersonTotals={totals.perPersonTotals}
+                      totalMonthlyIncome={income.totalMonthlyIncome}
+                      perPersonIncome={income.perPersonIncome}
+                    />
                     <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
                       <div className="lg:col-span-2 space-y-8">
                         <BillManager
@@ -484,6 +646,7 @@ const AppContent: React.FC = () => {
                           onSaveFinanced={handleSaveFinancedExpense}
                           onSavePayment={handleSavePayment}
                           onDeletePayment={handleDeletePayment}
+                          onConfirmBillAmount={handleConfirmBillAmount}
                           isModalOpen={isBillModalOpen}
                           closeModal={closeBillModal}
                           editingBill={editingBill}
@@ -496,6 +659,9 @@ const AppContent: React.FC = () => {
                           onDeleteMortgage={handleDeleteMortgage}
                           onSavePayment={handleSaveMortgagePayment}
                           onDeletePayment={handleDeleteMortgagePayment}
+                          onSaveRateEvent={handleSaveMortgageRateEvent}
+                          onDeleteRateEvent={handleDeleteMortgageRateEvent}
+                          onApplyEscrowAdjustment={handleApplyEscrowAdjustment}
                         />
                         <RecurringBillManager
                             recurringBills={recurringBills}
@@ -503,6 +669,7 @@ const AppContent: React.FC = () => {
                             onAddRecurring={() => openRecurringBillModal()}
                             onEditRecurring={openRecurringBillModal}
                             onDeleteRecurring={handleDeleteRecurringBill}
+                            onChangeRecurring={handleChangeRecurringBill}
                             onSaveRecurring={handleSaveRecurringBill}
                             isModalOpen={isRecurringBillModalOpen}
                             // FIX: Pass `closeRecurringBillModal` to the `closeModal` prop instead of the undefined `closeModal`.
@@ -517,17 +684,27 @@ const AppContent: React.FC = () => {
                           onUpdateFinancedExpense={handleUpdateFinancedExpense}
                         />
                       </div>
-                      <div className="lg:col-span-1">
+                      <div className="lg:col-span-1 space-y-8">
                         <PeopleManager people={people} onAddPerson={handleAddPerson} onDeletePerson={handleDeletePerson}/>
+                        <IncomeManager people={people} incomeSources={incomeSources} onIncomeSourcesChanged={loadIncomeSources} />
+                        <AccountManager people={people} currentAccountId={session.accountId} />
+                        <HouseholdManager session={session} onHouseholdRenamed={handleHouseholdRenamed} onHouseholdCreated={onSwitchHousehold} />
+                        <BankImportManager people={people} />
+                        <TrashManager onRestored={reloadForTrashKind} />
+                        <BackupManager />
                       </div>
                     </div>
                   </>,
                   // Page 2: Spending Insights
-                  <InsightsPage />
+                  <InsightsPage />,
+                  // Page 3: Year-end Tax Summary
+                  <TaxSummaryReport />
                 ]}
               />
           ) : (
+            <>
             <FamilyView
+                session={session}
                 bills={bills}
                 people={people}
                 payments={payments}
@@ -537,8 +714,15 @@ const AppContent: React.FC = () => {
                 financedExpenses={financedExpenses}
                 onUpdateFinancedExpense={handleUpdateFinancedExpense}
                 onDeleteFinancedExpense={handleDeleteFinancedExpense}
+                savingsGoals={savingsGoals}
+                onSavingsGoalsChanged={loadSavingsGoals}
                 isManagerModeUnlocked={isManagerModeUnlocked}
             />
+            <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <CalendarFeedManager session={session} people={people} />
+              <NotificationSettings session={session} />
+            </div>
+            </>
           )}
           </ErrorBoundary>
         )}
@@ -546,16 +730,66 @@ const AppContent: React.FC = () => {
       <PasswordModal
         isOpen={isPasswordModalOpen}
         onClose={() => setIsPasswordModalOpen(false)}
+        onSignIn={onSignIn}
         onSuccess={handlePasswordSuccess}
       />
     </div>
   );
 };
 
+// Invite links look like /?invite=<token>
+const readInviteToken = () => new URLSearchParams(window.location.search).get('invite');
+
 const App: React.FC = () => {
+  const { session, loading, needsSetup, setupMembers, signIn, completeSetup, acceptInvite, switchHousehold, signOut } = useSession();
+  const [inviteToken, setInviteToken] = useState(readInviteToken);
+  // Set when someone with an existing login chooses to sign in before accepting
+  const [isInviteDeferred, setIsInviteDeferred] = useState(false);
+
+  const clearInvite = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setInviteToken(null);
+  };
+
+  const handleSwitchHousehold = async (householdId: string) => {
+    const newSession = await switchHousehold(householdId);
+    // Cached queries belong to the previous household
+    queryClient.clear();
+    return newSession;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex justify-center items-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (inviteToken && (session || !isInviteDeferred)) {
+    return (
+      <InviteScreen
+        inviteToken={inviteToken}
+        session={session}
+        onAccept={async (token, newAccount) => {
+          await acceptInvite(token, newAccount);
+          clearInvite();
+        }}
+        onDismiss={session ? clearInvite : () => setIsInviteDeferred(true)}
+      />
+    );
+  }
+
+  if (!session) {
+    return <LoginScreen needsSetup={needsSetup} members={setupMembers} onSignIn={signIn} onSetup={completeSetup} />;
+  }
+
   return (
     <QueryClientProvider client={queryClient}>
-      <AppContent />
+      <ToastProvider>
+        {/* Keyed by household so switching reloads every list for the new household */}
+        <AppContent key={session.householdId} session={session} onSignIn={signIn} onSwitchHousehold={handleSwitchHousehold} onSignOut={signOut} />
+      </ToastProvider>
     </QueryClientProvider>
   );
 };
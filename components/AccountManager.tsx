@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Person, MemberAccount, MemberRole } from '../types';
+import { apiClient, ApiAccount } from '../utils/api';
+import { Avatar } from './Avatar';
+import { TrashIcon } from './Icons';
+
+interface AccountManagerProps {
+  people: Person[];
+  currentAccountId: string;
+}
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  manager: 'Manager',
+  adult: 'Adult',
+  child: 'Child',
+};
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+const apiAccountToAccount = (apiAccount: ApiAccount): MemberAccount => ({
+  id: apiAccount.id,
+  memberId: apiAccount.memberId,
+  username: apiAccount.username,
+  role: apiAccount.role as MemberRole,
+});
+
+export const AccountManager: React.FC<AccountManagerProps> = ({ people, currentAccountId }) => {
+  const [accounts, setAccounts] = useState<MemberAccount[]>([]);
+  const [invitingPersonId, setInvitingPersonId] = useState<string | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<MemberRole>('adult');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient.getAccounts()
+      .then(apiAccounts => setAccounts(apiAccounts.map(apiAccountToAccount)))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load accounts'));
+  }, []);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const startInvite = (personId: string) => {
+    setInvitingPersonId(personId);
+    setUsername(people.find(p => p.id === personId)?.name.toLowerCase() ?? '');
+    setPassword('');
+    setRole('adult');
+    setError('');
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitingPersonId) return;
+    runAction(async () => {
+      const created = await apiClient.createAccount({ memberId: invitingPersonId, username, password, role });
+      setAccounts([...accounts, apiAccountToAccount(created)]);
+      setInvitingPersonId(null);
+    });
+  };
+
+  const handleRoleChange = (account: MemberAccount, newRole: MemberRole) => runAction(async () => {
+    const updated = await apiClient.updateAccount(account.id, { role: newRole });
+    setAccounts(accounts.map(a => a.id === account.id ? apiAccountToAccount(updated) : a));
+  });
+
+  const handleResetPassword = (account: MemberAccount) => {
+    const newPassword = window.prompt(`New password for ${account.username}`);
+    if (!newPassword) return;
+    runAction(async () => {
+      await apiClient.updateAccount(account.id, { password: newPassword });
+    });
+  };
+
+  const handleDelete = (account: MemberAccount) => runAction(async () => {
+    await apiClient.deleteAccount(account.id);
+    setAccounts(accounts.filter(a => a.id !== account.id));
+  });
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-6">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Logins &amp; Roles</h2>
+      <div className="space-y-3">
+        {people.map(person => {
+          const account = accounts.find(a => a.memberId === person.id);
+          return (
+            <div key={person.id} className="bg-slate-50 dark:bg-slate-700/50 p-3 rounded-md space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Avatar person={person} size="sm" />
+                  <div className="min-w-0">
+                    <p className="font-semibold text-slate-800 dark:text-slate-100 truncate">{person.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{account ? `@${account.username}` : 'No login'}</p>
+                  </div>
+                </div>
+                {account ? (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={account.role}
+                      onChange={e => handleRoleChange(account, e.target.value as MemberRole)}
+                      className="px-2 py-1 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"
+                    >
+                      {(Object.keys(ROLE_LABELS) as MemberRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                    <button onClick={() => handleResetPassword(account)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">Reset</button>
+                    {account.id !== currentAccountId && (
+                      <button onClick={() => handleDelete(account)} className="text-slate-400 hover:text-red-500 dark:hover:text-red-400 transition-colors">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ) : invitingPersonId !== person.id && (
+                  <button onClick={() => startInvite(person.id)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">Create login</button>
+                )}
+              </div>
+              {!account && invitingPersonId === person.id && (
+                <form onSubmit={handleCreate} className="space-y-2">
+                  <input type="text" value={username} onChange={e => setUsername(e.target.value)} placeholder="Username" required autoComplete="off" className={inputClassName} />
+                  <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Password (8+ characters)" required minLength={8} autoComplete="new-password" className={inputClassName} />
+                  <div className="flex gap-2">
+                    <select value={role} onChange={e => setRole(e.target.value as MemberRole)} className={inputClassName}>
+                      {(Object.keys(ROLE_LABELS) as MemberRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                    <button type="button" onClick={() => setInvitingPersonId(null)} className="px-3 py-2 bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">Cancel</button>
+                    <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">Save</button>
+                  </div>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
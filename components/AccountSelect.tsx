@@ -0,0 +1,34 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient, ApiFinancialAccount } from '../utils/api';
+
+interface AccountSelectProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (accountId: string) => void;
+}
+
+// Picks one of the household's financial accounts, or none. Closed accounts are only listed when
+// already selected, so older payments keep showing where they were paid from.
+export const AccountSelect: React.FC<AccountSelectProps> = ({ id, label, value, onChange }) => {
+  const [accounts, setAccounts] = useState<ApiFinancialAccount[]>([]);
+
+  useEffect(() => {
+    apiClient.getFinancialAccounts()
+      .then(setAccounts)
+      .catch(err => console.error('Failed to load accounts:', err));
+  }, []);
+
+  const options = accounts.filter(account => !account.closed || account.id === value);
+  if (options.length === 0) return null;
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-slate-700 dark:text-slate-300">{label}</label>
+      <select id={id} value={value} onChange={e => onChange(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+        <option value="">None</option>
+        {options.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+      </select>
+    </div>
+  );
+};
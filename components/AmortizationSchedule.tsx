@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient, ApiAmortization } from '../utils/api';
+import { PayoffScenario } from '../utils/amortization';
+
+interface AmortizationScheduleProps {
+  mortgageId: string;
+}
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+
+const formatMonth = (date: string | null) =>
+  date ? new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) : 'N/A';
+
+const toCents = (dollars: string) => Math.round((parseFloat(dollars) || 0) * 100);
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+export const AmortizationSchedule: React.FC<AmortizationScheduleProps> = ({ mortgageId }) => {
+  const [amortization, setAmortization] = useState<ApiAmortization | null>(null);
+  const [extraMonthly, setExtraMonthly] = useState('');
+  const [lumpSum, setLumpSum] = useState('');
+  const [lumpSumPeriod, setLumpSumPeriod] = useState('');
+  const [biweekly, setBiweekly] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = async (scenario: PayoffScenario = {}) => {
+    setError('');
+    try {
+      setAmortization(await apiClient.getMortgageAmortization(mortgageId, scenario));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the amortization schedule');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [mortgageId]);
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    load({
+      extraMonthlyCents: toCents(extraMonthly),
+      lumpSumCents: toCents(lumpSum),
+      lumpSumPeriod: lumpSumPeriod || undefined,
+      biweekly,
+    });
+  };
+
+  if (!amortization) {
+    return error ? <p className="text-sm text-red-500 dark:text-red-400">{error}</p> : null;
+  }
+
+  const { baseline, whatIf } = amortization;
+  const schedule = whatIf ?? baseline;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCompare} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <div>
+          <label htmlFor={`extra-${mortgageId}`} className="block text-xs font-medium text-slate-600 dark:text-slate-400">Extra each month ($)</label>
+          <input type="number" id={`extra-${mortgageId}`} min="0" step="0.01" value={extraMonthly} onChange={e => setExtraMonthly(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </div>
+        <div>
+          <label htmlFor={`lump-${mortgageId}`} className="block text-xs font-medium text-slate-600 dark:text-slate-400">One-time lump sum ($)</label>
+          <input type="number" id={`lump-${mortgageId}`} min="0" step="0.01" value={lumpSum} onChange={e => setLumpSum(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </div>
+        <div>
+          <label htmlFor={`lump-month-${mortgageId}`} className="block text-xs font-medium text-slate-600 dark:text-slate-400">Lump sum month</label>
+          <input type="month" id={`lump-month-${mortgageId}`} value={lumpSumPeriod} onChange={e => setLumpSumPeriod(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input type="checkbox" checked={biweekly} onChange={e => setBiweekly(e.target.checked)} />
+            Biweekly
+          </label>
+          <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">Compare</button>
+        </div>
+      </form>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div className="bg-slate-100 dark:bg-slate-600/50 p-3 rounded-md">
+          <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase">Baseline</p>
+          <p className="text-slate-700 dark:text-slate-200">Payoff {formatMonth(baseline.summary.payoffDate)}</p>
+          <p className="text-slate-700 dark:text-slate-200">Interest {formatCents(baseline.summary.totalInterestCents)}</p>
+        </div>
+        {whatIf && (
+          <div className="bg-indigo-50 dark:bg-indigo-900/40 p-3 rounded-md">
+            <p className="text-xs font-semibold text-indigo-600 dark:text-indigo-300 uppercase">What if</p>
+            <p className="text-slate-700 dark:text-slate-200">Payoff {formatMonth(whatIf.summary.payoffDate)} ({whatIf.monthsSaved} months sooner)</p>
+            <p className="text-slate-700 dark:text-slate-200">Interest saved {formatCents(whatIf.interestSavedCents)}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto">
+        <table className="w-full text-xs text-right">
+          <thead className="sticky top-0 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+            <tr>
+              <th className="p-2 text-left">#</th>
+              <th className="p-2 text-left">Due</th>
+              <th className="p-2">Payment</th>
+              <th className="p-2">Principal</th>
+              <th className="p-2">Interest</th>
+              <th className="p-2">Escrow</th>
+              <th className="p-2">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-700 dark:text-slate-300">
+            {schedule.schedule.map(row => (
+              <tr key={row.number} className="border-t border-slate-200 dark:border-slate-600">
+                <td className="p-2 text-left">{row.number}</td>
+                <td className="p-2 text-left">{row.dueDate}</td>
+                <td className="p-2">{formatCents(row.paymentCents)}</td>
+                <td className="p-2">{formatCents(row.principalCents)}</td>
+                <td className="p-2">{formatCents(row.interestCents)}</td>
+                <td className="p-2">{formatCents(row.escrowCents)}</td>
+                <td className="p-2">{formatCents(row.balanceCents)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
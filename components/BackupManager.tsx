@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { apiClient, ApiBackupArchive, ApiBackupImportReport } from '../utils/api';
+
+// How many conflicting ids to list before summarizing the rest
+const MAX_LISTED_CONFLICTS = 5;
+
+const downloadJson = (data: unknown, filename: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const sumSections = (report: ApiBackupImportReport, field: 'imported' | 'skipped') =>
+  Object.values(report.sections).reduce((sum, section) => sum + section[field], 0);
+
+export const BackupManager: React.FC = () => {
+  const [archive, setArchive] = useState<ApiBackupArchive | null>(null);
+  const [preview, setPreview] = useState<ApiBackupImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDownload = () => runAction(async () => {
+    const backup = await apiClient.exportBackup();
+    downloadJson(backup, `household-backup-${backup.exportedAt.slice(0, 10)}.json`);
+  });
+
+  const handleFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setArchive(null);
+    setPreview(null);
+    runAction(async () => {
+      let parsed: ApiBackupArchive;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        throw new Error('That file is not valid JSON');
+      }
+      // Existing rows are always kept, so the preview matches what the restore will do
+      setPreview(await apiClient.importBackup(parsed, { dryRun: true, onConflict: 'skip' }));
+      setArchive(parsed);
+    });
+  };
+
+  const handleRestore = () => {
+    if (!archive) return;
+    runAction(async () => {
+      await apiClient.importBackup(archive, { onConflict: 'skip' });
+      // Every list may have changed, so start over with fresh data
+      window.location.reload();
+    });
+  };
+
+  const conflicts = preview?.conflicts ?? [];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Backup</h2>
+      <p className="text-xs text-slate-500 dark:text-slate-400">Download everything in this household as one file, or restore a file you downloaded earlier. Logins are not included.</p>
+      <div className="flex gap-2">
+        <button type="button" onClick={handleDownload} disabled={isWorking} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50">Download backup</button>
+        <label className={`px-3 py-2 bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors cursor-pointer ${isWorking ? 'opacity-50 pointer-events-none' : ''}`}>
+          Restore from file
+          <input type="file" accept="application/json,.json" onChange={handleFileChosen} className="hidden" />
+        </label>
+      </div>
+      {preview && archive && (
+        <div className="bg-slate-50 dark:bg-slate-700/50 p-3 rounded-md space-y-2 text-sm">
+          <p className="text-slate-700 dark:text-slate-200">
+            Backup of <span className="font-semibold">{archive.household.name || 'a household'}</span> from {new Date(archive.exportedAt).toLocaleDateString()}:
+            {' '}{sumSections(preview, 'imported')} records will be restored.
+          </p>
+          {conflicts.length > 0 && (
+            <div className="text-xs text-amber-700 dark:text-amber-400 space-y-1">
+              <p>{sumSections(preview, 'skipped')} records already exist and will be kept as they are:</p>
+              <ul className="list-disc list-inside">
+                {conflicts.slice(0, MAX_LISTED_CONFLICTS).map(conflict => (
+                  <li key={`${conflict.section}-${conflict.id}`}>
+                    {conflict.section} {conflict.id}{conflict.existsIn === 'other-household' && ' (belongs to another household)'}
+                  </li>
+                ))}
+              </ul>
+              {conflicts.length > MAX_LISTED_CONFLICTS && <p>and {conflicts.length - MAX_LISTED_CONFLICTS} more</p>}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button type="button" onClick={() => { setArchive(null); setPreview(null); }} className="px-3 py-2 bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">Cancel</button>
+            <button type="button" onClick={handleRestore} disabled={isWorking || sumSections(preview, 'imported') === 0} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50">Restore</button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
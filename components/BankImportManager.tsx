@@ -0,0 +1,339 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Person, PaymentMethod } from '../types';
+import {
+  apiClient, ApiBankProfile, ApiBankProfileInput, ApiCategory, ApiImportAction, ApiImportPreviewTransaction,
+} from '../utils/api';
+import { detectStatementFormat, parseCsv, StatementDateFormat, STATEMENT_DATE_FORMATS } from '../utils/bankStatement';
+
+interface BankImportManagerProps {
+  people: Person[];
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ['ach', 'card', 'check', 'zelle', 'venmo', 'cash', 'other'];
+const NEW_PROFILE = 'new';
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const smallSelectClassName = "w-full px-2 py-1 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md";
+
+const emptyMapping = (name: string): ApiBankProfileInput => ({
+  name,
+  dateColumn: '',
+  descriptionColumn: '',
+  amountColumn: '',
+  debitColumn: '',
+  creditColumn: '',
+  dateFormat: 'MM/DD/YYYY',
+  negateAmounts: false,
+  paymentMethod: 'ach',
+});
+
+const formatCents = (cents: number) => `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+// Select values encode the action, e.g. 'bill:<id>', 'new-bill' or 'skip'
+const actionToValue = (action: ApiImportAction) => ('id' in action ? `${action.type}:${action.id}` : action.type);
+
+const defaultAction = (transaction: ApiImportPreviewTransaction): ApiImportAction => {
+  if (transaction.duplicate || transaction.amountCents >= 0) return { type: 'skip' };
+  if (transaction.suggestedMatch) return { type: transaction.suggestedMatch.type, id: transaction.suggestedMatch.id };
+  return { type: 'new-bill' };
+};
+
+export const BankImportManager: React.FC<BankImportManagerProps> = ({ people }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [profiles, setProfiles] = useState<ApiBankProfile[]>([]);
+  const [categories, setCategories] = useState<ApiCategory[]>([]);
+  const [profileId, setProfileId] = useState(NEW_PROFILE);
+  const [mapping, setMapping] = useState<ApiBankProfileInput>(emptyMapping(''));
+  const [isEditingMapping, setIsEditingMapping] = useState(true);
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ApiImportPreviewTransaction[] | null>(null);
+  const [parseErrors, setParseErrors] = useState<{ line: number; message: string }[]>([]);
+  const [actions, setActions] = useState<ApiImportAction[]>([]);
+  const [qifDateFormat, setQifDateFormat] = useState<StatementDateFormat>('MM/DD/YYYY');
+  const [payerMemberId, setPayerMemberId] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    apiClient.getBankProfiles()
+      .then(loaded => {
+        setProfiles(loaded);
+        if (loaded.length > 0) {
+          setProfileId(loaded[0].id);
+          setIsEditingMapping(false);
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load bank profiles'));
+    apiClient.getCategories()
+      .then(setCategories)
+      .catch(err => console.warn('Categories fetch failed:', err));
+  }, [isOpen]);
+
+  const format = useMemo(() => (content ? detectStatementFormat(content) : 'csv'), [content]);
+  const isCsv = format === 'csv';
+  const headers = useMemo(() => (content && isCsv ? (parseCsv(content)[0] ?? []).map(h => h.trim()) : []), [content, isCsv]);
+
+  const close = () => {
+    setIsOpen(false);
+    setContent('');
+    setFileName('');
+    setRows(null);
+    setError('');
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    setRows(null);
+    const profile = profiles.find(p => p.id === id);
+    setMapping(profile ? { ...profile } : emptyMapping(''));
+    setIsEditingMapping(!profile);
+    if (profile) setQifDateFormat(profile.dateFormat as StatementDateFormat);
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setContent(await file.text());
+    setFileName(file.name);
+    setRows(null);
+  };
+
+  const updateMapping = (changes: Partial<ApiBankProfileInput>) => setMapping(current => ({ ...current, ...changes }));
+
+  const handlePreview = () => runAction(async () => {
+    let id = profileId;
+    // OFX and QIF files need no column mapping, so an unsaved profile is simply left out
+    if (isCsv && isEditingMapping) {
+      const data = {
+        ...mapping,
+        amountColumn: mapping.amountColumn || null,
+        debitColumn: mapping.debitColumn || null,
+        creditColumn: mapping.creditColumn || null,
+      };
+      const saved = id === NEW_PROFILE ? await apiClient.createBankProfile(data) : await apiClient.updateBankProfile(id, data);
+      setProfiles(current => [...current.filter(p => p.id !== saved.id), saved]);
+      setProfileId(saved.id);
+      setIsEditingMapping(false);
+      id = saved.id;
+    }
+    const preview = await apiClient.previewBankImport({
+      content,
+      format,
+      profileId: id !== NEW_PROFILE ? id : undefined,
+      dateFormat: format === 'qif' ? qifDateFormat : undefined,
+    });
+    setRows(preview.transactions);
+    setParseErrors(preview.errors);
+    setActions(preview.transactions.map(defaultAction));
+  });
+
+  const setRowAction = (index: number, action: ApiImportAction) => setActions(current => current.map((a, i) => (i === index ? action : a)));
+
+  const handleActionChange = (index: number, value: string) => {
+    if (value === 'skip' || value === 'new-bill') {
+      setRowAction(index, { type: value });
+      return;
+    }
+    const candidate = rows?.[index].candidates.find(c => `${c.type}:${c.id}` === value);
+    if (candidate) setRowAction(index, { type: candidate.type, id: candidate.id });
+  };
+
+  const handleImport = () => {
+    if (!rows) return;
+    runAction(async () => {
+      const result = await apiClient.importBankTransactions({
+        profileId: profileId !== NEW_PROFILE ? profileId : undefined,
+        payerMemberId: payerMemberId || undefined,
+        transactions: rows.map(({ date, description, amountCents, externalId }, index) => ({ date, description, amountCents, externalId, action: actions[index] })),
+      });
+      window.alert(`Imported ${result.imported} transaction(s). ${result.duplicates} were already imported and ${result.skipped} were skipped.`);
+      // Bills and payments changed in many places, so start over with fresh data
+      window.location.reload();
+    });
+  };
+
+  const recordCount = actions.filter(a => a.type !== 'skip').length;
+  const canPreview = !!content && (!isCsv || !isEditingMapping || (!!mapping.name && !!mapping.dateColumn && !!mapping.descriptionColumn && (!!mapping.amountColumn || !!mapping.debitColumn)));
+
+  const columnSelect = (label: string, value: string | null | undefined, onChange: (value: string) => void, optional = false) => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">{label}</label>
+      <select value={value ?? ''} onChange={e => onChange(e.target.value)} className={`mt-1 ${inputClassName}`}>
+        <option value="">{optional ? 'None' : 'Choose a column'}</option>
+        {headers.map(h => <option key={h} value={h}>{h}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Bank Statements</h2>
+      <p className="text-xs text-slate-500 dark:text-slate-400">Upload a CSV, OFX/QFX or QIF export from your bank and record its rows as bill, mortgage and financing payments. Rows imported before are skipped.</p>
+      <button type="button" onClick={() => setIsOpen(true)} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">Import statement</button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50" onClick={close}>
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 md:p-8 w-full max-w-4xl m-4 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+            <h2 className="text-2xl font-bold mb-6">Import Bank Statement</h2>
+
+            {!rows ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="import-profile" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Bank</label>
+                    <select id="import-profile" value={profileId} onChange={e => selectProfile(e.target.value)} className={`mt-1 ${inputClassName}`}>
+                      {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      <option value={NEW_PROFILE}>{isCsv ? 'New bank...' : 'None'}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="import-file" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Statement (CSV, OFX, QFX or QIF)</label>
+                    <input type="file" id="import-file" accept=".csv,.ofx,.qfx,.qif,text/csv" onChange={handleFileChosen} className="mt-1 block w-full text-sm text-slate-600 dark:text-slate-300" />
+                    {fileName && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{fileName}</p>}
+                  </div>
+                </div>
+
+                {format === 'qif' && (
+                  <div>
+                    <label htmlFor="import-qif-date-format" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Date format</label>
+                    <select id="import-qif-date-format" value={qifDateFormat} onChange={e => setQifDateFormat(e.target.value as StatementDateFormat)} className={`mt-1 ${inputClassName}`}>
+                      {STATEMENT_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                  </div>
+                )}
+
+                {isCsv && !isEditingMapping && profileId !== NEW_PROFILE && (
+                  <button type="button" onClick={() => setIsEditingMapping(true)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">Edit column mapping</button>
+                )}
+
+                {isCsv && isEditingMapping && (
+                  <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-md space-y-4">
+                    {!content && <p className="text-sm text-slate-500 dark:text-slate-400">Choose a statement to pick its columns.</p>}
+                    <div>
+                      <label htmlFor="import-profile-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Bank name</label>
+                      <input type="text" id="import-profile-name" value={mapping.name} onChange={e => updateMapping({ name: e.target.value })} placeholder="e.g. Chase Checking" className={`mt-1 ${inputClassName}`} />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {columnSelect('Date column', mapping.dateColumn, value => updateMapping({ dateColumn: value }))}
+                      {columnSelect('Description column', mapping.descriptionColumn, value => updateMapping({ descriptionColumn: value }))}
+                      <div>
+                        <label htmlFor="import-date-format" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Date format</label>
+                        <select id="import-date-format" value={mapping.dateFormat} onChange={e => updateMapping({ dateFormat: e.target.value as StatementDateFormat })} className={`mt-1 ${inputClassName}`}>
+                          {STATEMENT_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {columnSelect('Amount column', mapping.amountColumn, value => updateMapping({ amountColumn: value, ...(value && { debitColumn: '', creditColumn: '' }) }), true)}
+                      {columnSelect('Or debit column', mapping.debitColumn, value => updateMapping({ debitColumn: value, ...(value && { amountColumn: '' }) }), true)}
+                      {columnSelect('Credit column', mapping.creditColumn, value => updateMapping({ creditColumn: value }), true)}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                      <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        <input type="checkbox" checked={mapping.negateAmounts} onChange={e => updateMapping({ negateAmounts: e.target.checked })} />
+                        Money going out is shown as a positive amount
+                      </label>
+                      <div>
+                        <label htmlFor="import-method" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Record payments as</label>
+                        <select id="import-method" value={mapping.paymentMethod} onChange={e => updateMapping({ paymentMethod: e.target.value })} className={`mt-1 ${inputClassName}`}>
+                          {PAYMENT_METHODS.map(m => <option key={m} value={m}>{m.toUpperCase()}</option>)}
+                        </select>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {parseErrors.length > 0 && (
+                  <div className="text-xs text-amber-700 dark:text-amber-400">
+                    {parseErrors.map(e => <p key={e.line}>Line {e.line}: {e.message}</p>)}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <label htmlFor="import-payer" className="text-sm font-medium text-slate-700 dark:text-slate-300 whitespace-nowrap">Paid by</label>
+                  <select id="import-payer" value={payerMemberId} onChange={e => setPayerMemberId(e.target.value)} className={inputClassName}>
+                    <option value="">Not recorded</option>
+                    {people.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500 dark:text-slate-400">
+                        <th className="py-2 pr-2">Date</th>
+                        <th className="py-2 pr-2">Description</th>
+                        <th className="py-2 pr-2 text-right">Amount</th>
+                        <th className="py-2">Record as</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row, index) => {
+                        const action = actions[index];
+                        return (
+                          <tr key={index} className={`border-t border-slate-200 dark:border-slate-700 ${row.duplicate ? 'opacity-50' : ''}`}>
+                            <td className="py-2 pr-2 whitespace-nowrap">{row.date}</td>
+                            <td className="py-2 pr-2">{row.description}</td>
+                            <td className="py-2 pr-2 text-right whitespace-nowrap">{formatCents(row.amountCents)}</td>
+                            <td className="py-2 min-w-[14rem]">
+                              {row.duplicate ? (
+                                <span className="text-xs text-slate-500 dark:text-slate-400">Already imported</span>
+                              ) : row.amountCents >= 0 ? (
+                                <span className="text-xs text-slate-500 dark:text-slate-400">Money in, skipped</span>
+                              ) : (
+                                <div className="space-y-1">
+                                  <select value={actionToValue(action)} onChange={e => handleActionChange(index, e.target.value)} className={smallSelectClassName}>
+                                    {row.candidates.map(c => (
+                                      <option key={`${c.type}:${c.id}`} value={`${c.type}:${c.id}`}>Pay {c.name} (due {c.dueDate})</option>
+                                    ))}
+                                    <option value="new-bill">New bill</option>
+                                    <option value="skip">Skip</option>
+                                  </select>
+                                  {action.type === 'new-bill' && (
+                                    <select value={action.categoryId ?? ''} onChange={e => setRowAction(index, { type: 'new-bill', categoryId: e.target.value || undefined })} className={smallSelectClassName}>
+                                      <option value="">No category</option>
+                                      {categories.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+                                    </select>
+                                  )}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="mt-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+            <div className="mt-8 flex justify-end space-x-3">
+              <button type="button" onClick={rows ? () => setRows(null) : close} className="px-4 py-2 bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg font-semibold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">{rows ? 'Back' : 'Cancel'}</button>
+              {rows ? (
+                <button type="button" onClick={handleImport} disabled={isWorking || recordCount === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-indigo-300 dark:disabled:bg-indigo-800 disabled:cursor-not-allowed">Record {recordCount} transaction(s)</button>
+              ) : (
+                <button type="button" onClick={handlePreview} disabled={isWorking || !canPreview} className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-indigo-300 dark:disabled:bg-indigo-800 disabled:cursor-not-allowed">Preview</button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -16,6 +16,7 @@ interface BillItemProps {
   onAddPayment: (bill: Bill) => void;
   onEditPayment: (bill: Bill, payment: Payment) => void;
   onDeletePayment: (paymentId: string) => void;
+  onConfirmAmount: (billId: string, amount: number) => void;
 }
 
 const formatCurrency = (amount: number) => {
@@ -40,9 +41,18 @@ const PaymentRow: React.FC<{payment: Payment, onEdit: () => void, onDelete: () =
 );
 
 
-export const BillItem: React.FC<BillItemProps> = ({ bill, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment }) => {
+export const BillItem: React.FC<BillItemProps> = ({ bill, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment, onConfirmAmount }) => {
   const getPerson = (personId: string) => people.find(p => p.id === personId);
   const [showPayments, setShowPayments] = useState(false);
+  const [actualAmount, setActualAmount] = useState('');
+
+  const handleConfirmAmount = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(actualAmount);
+    if (!(amount > 0)) return;
+    onConfirmAmount(bill.id, amount);
+    setActualAmount('');
+  };
   
   const billStatus: BillStatusDetails | null = useMemo(() => resolveItemCycle(bill, payments, people, new Date()), [bill, payments, people]);
   const calculatedSplits = useMemo(() => calculateSplitAmounts(bill, people), [bill, people]);
@@ -70,6 +80,22 @@ export const BillItem: React.FC<BillItemProps> = ({ bill, people, payments, onEd
             <h3 className={`font-bold text-lg text-slate-800 dark:text-slate-100 ${isFullyPaid ? 'line-through' : ''}`}>{bill.name}</h3>
           </div>
           <p className="text-sm text-slate-500 dark:text-slate-400">Due on {formatBillDate(bill.dueDate, { month: 'long', day: 'numeric', year: 'numeric' })}</p>
+          {bill.isEstimated && (
+            <form onSubmit={handleConfirmAmount} className="flex flex-wrap items-center gap-2 mt-2">
+              <span className="px-2 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-xs font-semibold text-amber-700 dark:text-amber-300">Estimated</span>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={actualAmount}
+                onChange={e => setActualAmount(e.target.value)}
+                placeholder="Statement amount"
+                aria-label="Statement amount"
+                className="w-36 px-2 py-1 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm"
+              />
+              <button type="submit" className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">Confirm</button>
+            </form>
+          )}
         </div>
         <div className="text-right">
           <p className="text-xl font-extrabold text-slate-900 dark:text-white">{formatCurrency(bill.amount)}</p>
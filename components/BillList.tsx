@@ -11,9 +11,10 @@ interface BillListProps {
   onAddPayment: (bill: Bill) => void;
   onEditPayment: (bill: Bill, payment: Payment) => void;
   onDeletePayment: (paymentId: string) => void;
+  onConfirmAmount: (billId: string, amount: number) => void;
 }
 
-export const BillList: React.FC<BillListProps> = ({ bills, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment }) => {
+export const BillList: React.FC<BillListProps> = ({ bills, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment, onConfirmAmount }) => {
   if (bills.length === 0) {
     return (
         <div className="text-center py-12 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-lg">
@@ -35,6 +36,7 @@ export const BillList: React.FC<BillListProps> = ({ bills, people, payments, onE
             onAddPayment={onAddPayment}
             onEditPayment={onEditPayment}
             onDeletePayment={onDeletePayment}
+            onConfirmAmount={onConfirmAmount}
         />
       ))}
     </div>
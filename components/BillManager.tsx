@@ -17,6 +17,7 @@ interface BillManagerProps {
   onSaveFinanced?: (expense: FinancedExpense) => void;
   onSavePayment: (payment: Payment) => void;
   onDeletePayment: (paymentId: string) => void;
+  onConfirmBillAmount: (billId: string, amount: number) => void;
   isModalOpen: boolean;
   closeModal: () => void;
   editingBill: Bill | null;
@@ -33,6 +34,7 @@ export const BillManager: React.FC<BillManagerProps> = ({
   onSaveFinanced,
   onSavePayment,
   onDeletePayment,
+  onConfirmBillAmount,
   isModalOpen,
   closeModal,
   editingBill,
@@ -78,6 +80,7 @@ export const BillManager: React.FC<BillManagerProps> = ({
         onAddPayment={openPaymentModal}
         onEditPayment={openPaymentModal}
         onDeletePayment={onDeletePayment}
+        onConfirmAmount={onConfirmBillAmount}
       />
       {isModalOpen && (
         <BillModal
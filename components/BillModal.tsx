@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
+import { AccountSelect } from './AccountSelect';
 import { Bill, Person, Split, SplitMode, FinancedExpense } from '../types';
 
 interface BillModalProps {
@@ -25,6 +26,7 @@ export const BillModal: React.FC<BillModalProps> = ({ isOpen, onClose, onSave, o
   const [financingTerm, setFinancingTerm] = useState<number | ''>('');
   const [purchaseDate, setPurchaseDate] = useState('');
   const [firstPaymentDate, setFirstPaymentDate] = useState('');
+  const [autopayAccountId, setAutopayAccountId] = useState('');
   
   const totalAmount = typeof amount === 'number' ? amount : 0;
   
@@ -35,6 +37,7 @@ export const BillModal: React.FC<BillModalProps> = ({ isOpen, onClose, onSave, o
       setDueDate(existingBill.dueDate);
       setSplitMode(existingBill.splitMode);
       setSplits(existingBill.splits);
+      setAutopayAccountId(existingBill.autopayAccountId || '');
       // Reset financing fields for existing bills
       setIsFinanced(false);
       setDescription('');
@@ -48,6 +51,7 @@ export const BillModal: React.FC<BillModalProps> = ({ isOpen, onClose, onSave, o
       setDueDate(new Date().toISOString().split('T')[0]);
       setSplitMode('shares');
       setSplits(people.map(p => ({ personId: p.id, value: 1 })));
+      setAutopayAccountId('');
       // Reset financing fields for new items
       setIsFinanced(false);
       setDescription('');
@@ -192,6 +196,7 @@ export const BillModal: React.FC<BillModalProps> = ({ isOpen, onClose, onSave, o
         purchaseDate,
         firstPaymentDate,
         isActive: true,
+        autopayAccountId: autopayAccountId || undefined,
         amount: monthlyPayment, // For Splittable interface
         splitMode,
         splits: splits.filter(s => s.value > 0),
@@ -204,6 +209,7 @@ export const BillModal: React.FC<BillModalProps> = ({ isOpen, onClose, onSave, o
         name,
         amount: totalAmount,
         dueDate: dueDate,
+        autopayAccountId: autopayAccountId || undefined,
         splitMode,
         splits: splits.filter(s => s.value > 0),
       };
@@ -312,6 +318,7 @@ export const BillModal: React.FC<BillModalProps> = ({ isOpen, onClose, onSave, o
                 </div>
               </div>
             )}
+            <AccountSelect id="autopayAccount" label="Autopay from (Optional)" value={autopayAccountId} onChange={setAutopayAccountId} />
             <div>
               <div className="flex justify-between items-center mb-2">
                 <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">Split {isFinanced ? 'Monthly Payment' : 'Bill'}</h3>
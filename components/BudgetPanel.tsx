@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiClient, ApiBudgetStatus, ApiCategory, ApiMember } from '../utils/api';
+import { addMonthsToPeriod, formatPeriod } from '../utils/recurrence';
+import { BudgetHealth } from '../utils/budgets';
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+const barClassNames: Record<BudgetHealth, string> = {
+  under: 'bg-green-500',
+  near: 'bg-amber-500',
+  over: 'bg-red-500',
+};
+
+const budgetLabel = (budget: ApiBudgetStatus) =>
+  [budget.categoryName, budget.memberName].filter(Boolean).join(' · ');
+
+const inputClassName = "px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm";
+
+export const BudgetPanel: React.FC = () => {
+  const [month, setMonth] = useState(formatPeriod(new Date()));
+  const [budgets, setBudgets] = useState<ApiBudgetStatus[]>([]);
+  const [categories, setCategories] = useState<ApiCategory[]>([]);
+  const [members, setMembers] = useState<ApiMember[]>([]);
+  const [categoryId, setCategoryId] = useState('');
+  const [memberId, setMemberId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [rollover, setRollover] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    const report = await apiClient.getBudgetStatus(month);
+    setBudgets(report.budgets);
+  }, [month]);
+
+  useEffect(() => {
+    load().catch(err => setError(err instanceof Error ? err.message : 'Failed to load budgets'));
+  }, [load]);
+
+  useEffect(() => {
+    Promise.all([apiClient.getCategories(), apiClient.getMembers()])
+      .then(([categoryResult, memberResult]) => {
+        setCategories(categoryResult);
+        setMembers(memberResult);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load categories'));
+  }, []);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountCents = Math.round(parseFloat(amount) * 100);
+    if (!Number.isFinite(amountCents) || amountCents < 0) {
+      setError('Enter a monthly amount');
+      return;
+    }
+    runAction(async () => {
+      await apiClient.createBudget({
+        categoryId: categoryId || null,
+        memberId: memberId || null,
+        amountCents,
+        rollover,
+        startMonth: month,
+      });
+      setCategoryId('');
+      setMemberId('');
+      setAmount('');
+      setRollover(false);
+    });
+  };
+
+  const handleDelete = (budget: ApiBudgetStatus) => {
+    if (window.confirm(`Delete the ${budgetLabel(budget)} budget?`)) {
+      runAction(() => apiClient.deleteBudget(budget.budgetId));
+    }
+  };
+
+  const overBudget = budgets.filter(budget => budget.status === 'over');
+
+  return (
+    <section className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">Budgets</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            type="button"
+            onClick={() => setMonth(addMonthsToPeriod(month, -1))}
+            className="px-2 py-1 rounded-md bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600"
+            aria-label="Previous month"
+          >
+            ‹
+          </button>
+          <span className="w-36 text-center font-medium text-slate-700 dark:text-slate-200">{formatMonth(month)}</span>
+          <button
+            type="button"
+            onClick={() => setMonth(addMonthsToPeriod(month, 1))}
+            className="px-2 py-1 rounded-md bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600"
+            aria-label="Next month"
+          >
+            ›
+          </button>
+        </div>
+      </div>
+
+      {overBudget.length > 0 && (
+        <p className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
+          Over budget: {overBudget.map(budget => `${budgetLabel(budget)} by ${formatCurrency(-budget.remainingCents)}`).join(', ')}
+        </p>
+      )}
+
+      {budgets.length > 0 ? (
+        <ul className="space-y-3">
+          {budgets.map(budget => (
+            <li key={budget.budgetId} className="text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-slate-700 dark:text-slate-200">{budgetLabel(budget)}</span>
+                <span className="flex items-center gap-3">
+                  <span className={budget.status === 'over' ? 'text-red-600 dark:text-red-400' : 'text-slate-600 dark:text-slate-400'}>
+                    {formatCurrency(budget.spentCents)} of {formatCurrency(budget.availableCents)}
+                  </span>
+                  <button type="button" onClick={() => handleDelete(budget)} className="text-xs text-slate-400 hover:text-red-500">
+                    Delete
+                  </button>
+                </span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                <div
+                  className={`h-full ${barClassNames[budget.status]}`}
+                  style={{ width: `${Math.min(100, budget.percentUsed)}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                {budget.remainingCents >= 0
+                  ? `${formatCurrency(budget.remainingCents)} left`
+                  : `${formatCurrency(-budget.remainingCents)} over`}
+                {budget.rolloverCents > 0 && ` · includes ${formatCurrency(budget.rolloverCents)} rolled over`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No budgets for {formatMonth(month)} yet.</p>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+        <select value={categoryId} onChange={e => setCategoryId(e.target.value)} className={inputClassName}>
+          <option value="">Any category</option>
+          {categories.map(category => <option key={category.id} value={category.id}>{category.name}</option>)}
+        </select>
+        <select value={memberId} onChange={e => setMemberId(e.target.value)} className={inputClassName}>
+          <option value="">Everyone</option>
+          {members.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          placeholder="Monthly limit"
+          className={`${inputClassName} w-32`}
+        />
+        <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-400">
+          <input type="checkbox" checked={rollover} onChange={e => setRollover(e.target.checked)} />
+          Roll over unused
+        </label>
+        <button
+          type="submit"
+          disabled={!amount || (!categoryId && !memberId)}
+          className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          Add Budget
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </section>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { AuthSession, Person } from '../types';
+import { apiClient, ApiCalendarFeed } from '../utils/api';
+
+interface CalendarFeedManagerProps {
+  session: AuthSession;
+  people: Person[];
+}
+
+const HOUSEHOLD_FEED = '';
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+export const CalendarFeedManager: React.FC<CalendarFeedManagerProps> = ({ session, people }) => {
+  const isManager = session.role === 'manager';
+  const [feeds, setFeeds] = useState<ApiCalendarFeed[]>([]);
+  const [memberId, setMemberId] = useState(session.memberId);
+  const [feedUrl, setFeedUrl] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient.getCalendarFeeds()
+      .then(setFeeds)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load calendar feeds'));
+  }, []);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    const { token, path, ...feed } = await apiClient.createCalendarFeed({ memberId: memberId || null });
+    setFeeds(current => [...current, feed]);
+    setFeedUrl(apiClient.getCalendarFeedUrl(path));
+  });
+
+  const handleRevoke = (id: string) => runAction(async () => {
+    await apiClient.deleteCalendarFeed(id);
+    setFeeds(current => current.filter(feed => feed.id !== id));
+  });
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Calendar</h2>
+      <p className="text-xs text-slate-500 dark:text-slate-400">Subscribe to due dates from your phone or computer calendar. Anyone with the link can see the amounts, so revoke links you no longer use.</p>
+      <div className="flex gap-2">
+        {isManager && (
+          <select value={memberId} onChange={e => setMemberId(e.target.value)} className={inputClassName}>
+            <option value={HOUSEHOLD_FEED}>Everyone's due dates</option>
+            {people.map(p => <option key={p.id} value={p.id}>{p.name}'s shares</option>)}
+          </select>
+        )}
+        <button type="button" onClick={handleCreate} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors whitespace-nowrap">Create link</button>
+      </div>
+      {feedUrl && (
+        <div className="space-y-1">
+          <input type="text" readOnly value={feedUrl} onFocus={e => e.target.select()} className={inputClassName} />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Add this link as a subscribed calendar, or <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200 font-semibold">open it in your calendar app</a>. It is only shown once.
+          </p>
+        </div>
+      )}
+      {feeds.length > 0 && (
+        <ul className="space-y-2">
+          {feeds.map(feed => (
+            <li key={feed.id} className="flex items-center justify-between text-sm">
+              <div>
+                <p className="text-slate-700 dark:text-slate-200">{feed.memberName ? `${feed.memberName}'s shares` : "Everyone's due dates"}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {feed.lastAccessedAt ? `Last synced ${new Date(feed.lastAccessedAt).toLocaleDateString()}` : 'Not synced yet'}
+                </p>
+              </div>
+              <button type="button" onClick={() => handleRevoke(feed.id)} className="text-sm font-semibold text-red-500 hover:text-red-700">Revoke</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
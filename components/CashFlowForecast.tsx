@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { apiClient, ApiForecast } from '../utils/api';
+import { LoadingSpinner } from './LoadingSpinner';
+
+const formatCurrency = (cents: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+};
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+};
+
+// Chart value for the whole household, or one member's share
+const HOUSEHOLD = '';
+
+export const CashFlowForecast: React.FC = () => {
+  const [forecast, setForecast] = useState<ApiForecast | null>(null);
+  const [memberId, setMemberId] = useState(HOUSEHOLD);
+  const [startingBalance, setStartingBalance] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const startingBalanceCents = Math.round((parseFloat(startingBalance) || 0) * 100);
+    apiClient.getForecast({ startingBalanceCents })
+      .then(setForecast)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the forecast'));
+  }, [startingBalance]);
+
+  if (!forecast) {
+    return (
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+        <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300 mb-4">12-Month Forecast</h3>
+        {error ? <p className="text-sm text-red-500">{error}</p> : <div className="flex justify-center h-64 items-center"><LoadingSpinner /></div>}
+      </div>
+    );
+  }
+
+  // A member's line is their running net from today; the household's is the running balance
+  let memberBalance = 0;
+  const chartData = forecast.months.map(month => {
+    const member = month.members.find(m => m.memberId === memberId);
+    const inflowCents = memberId === HOUSEHOLD ? month.inflowCents : member?.inflowCents ?? 0;
+    const outflowCents = memberId === HOUSEHOLD ? month.outflowCents : member?.outflowCents ?? 0;
+    const estimatedCents = memberId === HOUSEHOLD ? month.estimatedOutflowCents : member?.estimatedOutflowCents ?? 0;
+    memberBalance += inflowCents - outflowCents;
+    return {
+      month: formatMonth(month.month),
+      inflow: inflowCents / 100,
+      outflow: (outflowCents - estimatedCents) / 100,
+      estimated: estimatedCents / 100,
+      balance: (memberId === HOUSEHOLD ? month.endingBalanceCents : memberBalance) / 100,
+    };
+  });
+
+  const tightest = forecast.months.find(month => month.month === forecast.tightestMonth);
+  const lowestPoint = forecast.days.reduce<ApiForecast['days'][number] | null>(
+    (lowest, day) => (!lowest || day.balanceCents < lowest.balanceCents ? day : lowest),
+    null
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">12-Month Forecast</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={memberId}
+            onChange={e => setMemberId(e.target.value)}
+            className="px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"
+          >
+            <option value={HOUSEHOLD}>Household</option>
+            {forecast.members.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+          </select>
+          {memberId === HOUSEHOLD && (
+            <input
+              type="number"
+              step="0.01"
+              value={startingBalance}
+              onChange={e => setStartingBalance(e.target.value)}
+              placeholder="Balance today"
+              className="w-32 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="month" stroke="#64748b" style={{ fontSize: '12px' }} />
+            <YAxis stroke="#64748b" style={{ fontSize: '14px' }} tickFormatter={(value) => `$${value}`} />
+            <Tooltip formatter={(value: number) => formatCurrency(Math.round(value * 100))} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            <Bar dataKey="inflow" fill="#22c55e" name="Income" />
+            <Bar dataKey="outflow" stackId="outflow" fill="#f97316" name="Obligations" />
+            <Bar dataKey="estimated" stackId="outflow" fill="#fdba74" name="Estimated" />
+            <Line type="monotone" dataKey="balance" stroke="#6366f1" strokeWidth={2} name={memberId === HOUSEHOLD ? 'Balance' : 'Running net'} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div className="bg-slate-100 dark:bg-slate-700 p-3 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400 uppercase">Tightest month</p>
+          <p className="text-lg font-bold text-slate-800 dark:text-slate-100">
+            {tightest ? `${formatMonth(tightest.month)} (${formatCurrency(tightest.netCents)})` : 'None short'}
+          </p>
+        </div>
+        <div className="bg-slate-100 dark:bg-slate-700 p-3 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400 uppercase">Lowest balance</p>
+          <p className={`text-lg font-bold ${lowestPoint && lowestPoint.balanceCents < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-100'}`}>
+            {lowestPoint ? `${formatCurrency(lowestPoint.balanceCents)} on ${lowestPoint.date}` : formatCurrency(forecast.startingBalanceCents)}
+          </p>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
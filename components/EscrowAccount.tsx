@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { Mortgage } from '../types';
+import { apiClient, ApiEscrowAccount } from '../utils/api';
+import { EscrowCategory, ESCROW_CATEGORIES } from '../utils/escrow';
+import { EscrowAdjustmentParams } from '../hooks/useApiData';
+import { TrashIcon } from './Icons';
+
+interface EscrowAccountProps {
+  mortgage: Mortgage;
+  onApplyAdjustment: (params: EscrowAdjustmentParams) => Promise<void>;
+}
+
+const CATEGORY_LABELS: Record<EscrowCategory, string> = {
+  taxes: 'Property tax',
+  insurance: 'Insurance',
+  mip: 'Mortgage insurance',
+  hoa: 'HOA',
+};
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+
+const toCents = (dollars: string) => Math.round((parseFloat(dollars) || 0) * 100);
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const labelClassName = "block text-xs font-medium text-slate-600 dark:text-slate-400";
+const buttonClassName = "px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors";
+
+export const EscrowAccount: React.FC<EscrowAccountProps> = ({ mortgage, onApplyAdjustment }) => {
+  const [account, setAccount] = useState<ApiEscrowAccount | null>(null);
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [category, setCategory] = useState<EscrowCategory>('taxes');
+  const [amount, setAmount] = useState('');
+  const [disbursedDate, setDisbursedDate] = useState(today());
+  const [note, setNote] = useState('');
+  const [adjustment, setAdjustment] = useState<Record<EscrowCategory, string>>({ taxes: '', insurance: '', mip: '', hoa: '' });
+  const [scheduledPayment, setScheduledPayment] = useState('');
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    setError('');
+    try {
+      const loaded = await apiClient.getEscrowAccount(mortgage.id);
+      setAccount(loaded);
+      setOpeningBalance((loaded.openingBalanceCents / 100).toFixed(2));
+      // Start the adjustment form from what the analysis suggests
+      const { suggestedCategoryCents, suggestedMonthlyCents } = loaded.analysis;
+      setAdjustment(Object.fromEntries(ESCROW_CATEGORIES.map(c => [c, (suggestedCategoryCents[c] / 100).toFixed(2)])) as Record<EscrowCategory, string>);
+      setScheduledPayment(((toCents(String(mortgage.scheduled_payment)) - loaded.monthlyEscrowCents + suggestedMonthlyCents) / 100).toFixed(2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the escrow account');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [mortgage.id, mortgage.scheduled_payment]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleOpeningBalance = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(() => apiClient.updateEscrowOpeningBalance(mortgage.id, toCents(openingBalance)));
+  };
+
+  const handleAddDisbursement = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await apiClient.createEscrowDisbursement(mortgage.id, { category, amountCents: toCents(amount), disbursedDate, note: note || undefined });
+      setAmount('');
+      setNote('');
+    });
+  };
+
+  const handleApplyAdjustment = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(() => onApplyAdjustment({
+      mortgageId: mortgage.id,
+      effectiveDate: account?.nextAnalysisDate ?? today(),
+      escrowTaxes: parseFloat(adjustment.taxes) || 0,
+      escrowInsurance: parseFloat(adjustment.insurance) || 0,
+      escrowMip: parseFloat(adjustment.mip) || 0,
+      escrowHoa: parseFloat(adjustment.hoa) || 0,
+      scheduledPayment: scheduledPayment ? parseFloat(scheduledPayment) : undefined,
+    }));
+  };
+
+  if (!account) {
+    return error ? <p className="text-sm text-red-500 dark:text-red-400">{error}</p> : null;
+  }
+
+  const { analysis } = account;
+  const statusText = analysis.status === 'shortage'
+    ? `Shortage of ${formatCents(analysis.shortageCents)}`
+    : analysis.status === 'surplus'
+      ? `Surplus of ${formatCents(analysis.surplusCents)}`
+      : 'On track';
+  const statusClassName = analysis.status === 'shortage'
+    ? 'text-red-500 dark:text-red-400'
+    : analysis.status === 'surplus' ? 'text-green-600 dark:text-green-400' : 'text-slate-700 dark:text-slate-200';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Balance</p>
+          <p className="font-semibold text-slate-700 dark:text-slate-200">{formatCents(account.balanceCents)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Monthly escrow</p>
+          <p className="font-semibold text-slate-700 dark:text-slate-200">{formatCents(account.monthlyEscrowCents)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Next analysis</p>
+          <p className="font-semibold text-slate-700 dark:text-slate-200">{account.nextAnalysisDate}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Projection</p>
+          <p className={`font-semibold ${statusClassName}`}>{statusText}</p>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Lowest projected balance {formatCents(analysis.lowPointCents)} on {analysis.lowPointDate}, against a cushion of {formatCents(analysis.cushionCents)}.
+        Expected bills over the next year: {formatCents(analysis.annualDisbursementCents)}.
+      </p>
+
+      <form onSubmit={handleOpeningBalance} className="flex items-end gap-3">
+        <div>
+          <label className={labelClassName}>Opening balance ($)</label>
+          <input type="number" step="0.01" value={openingBalance} onChange={e => setOpeningBalance(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </div>
+        <button type="submit" className={buttonClassName}>Save</button>
+      </form>
+
+      <div className="pt-4 border-t border-slate-200 dark:border-slate-600 space-y-3">
+        <p className="text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase">Disbursements</p>
+        {account.disbursements.length > 0 ? (
+          <ul className="space-y-1 text-sm">
+            {[...account.disbursements].reverse().map(disbursement => (
+              <li key={disbursement.id} className="flex items-center justify-between">
+                <span className="text-slate-700 dark:text-slate-300">
+                  {disbursement.disbursedDate}: {CATEGORY_LABELS[disbursement.category]} {formatCents(disbursement.amountCents)}
+                  {disbursement.note ? ` (${disbursement.note})` : ''}
+                </span>
+                <button onClick={() => runAction(() => apiClient.deleteEscrowDisbursement(mortgage.id, disbursement.id))} className="text-slate-500 hover:text-red-500 dark:hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No disbursements recorded. Add the tax and insurance bills your lender paid to project the coming year.</p>
+        )}
+        <form onSubmit={handleAddDisbursement} className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className={labelClassName}>Paid for</label>
+            <select value={category} onChange={e => setCategory(e.target.value as EscrowCategory)} className={`mt-1 ${inputClassName}`}>
+              {ESCROW_CATEGORIES.map(c => <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClassName}>Amount ($)</label>
+            <input type="number" required min="0.01" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className={`mt-1 ${inputClassName}`} />
+          </div>
+          <div>
+            <label className={labelClassName}>Paid on</label>
+            <input type="date" required max={today()} value={disbursedDate} onChange={e => setDisbursedDate(e.target.value)} className={`mt-1 ${inputClassName}`} />
+          </div>
+          <div>
+            <label className={labelClassName}>Note</label>
+            <input type="text" value={note} onChange={e => setNote(e.target.value)} className={`mt-1 ${inputClassName}`} />
+          </div>
+          <button type="submit" className={buttonClassName}>Record</button>
+        </form>
+      </div>
+
+      <div className="pt-4 border-t border-slate-200 dark:border-slate-600 max-h-64 overflow-y-auto">
+        <table className="w-full text-xs text-right">
+          <thead className="sticky top-0 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+            <tr>
+              <th className="p-2 text-left">Month</th>
+              <th className="p-2">Deposit</th>
+              <th className="p-2">Disbursements</th>
+              <th className="p-2">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-700 dark:text-slate-300">
+            {analysis.rows.map(row => (
+              <tr key={row.period} className="border-t border-slate-200 dark:border-slate-600">
+                <td className="p-2 text-left">{row.period}</td>
+                <td className="p-2">{formatCents(row.depositCents)}</td>
+                <td className="p-2">{row.disbursementCents > 0 ? formatCents(row.disbursementCents) : ''}</td>
+                <td className={`p-2 ${row.balanceCents < 0 ? 'text-red-500 dark:text-red-400' : ''}`}>{formatCents(row.balanceCents)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleApplyAdjustment} className="pt-4 border-t border-slate-200 dark:border-slate-600 space-y-3">
+        <p className="text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase">Escrow adjustment</p>
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+          {ESCROW_CATEGORIES.map(c => (
+            <div key={c}>
+              <label className={labelClassName}>{CATEGORY_LABELS[c]} ($/mo)</label>
+              <input type="number" min="0" step="0.01" value={adjustment[c]} onChange={e => setAdjustment({ ...adjustment, [c]: e.target.value })} className={`mt-1 ${inputClassName}`} />
+            </div>
+          ))}
+          <div>
+            <label className={labelClassName}>New payment ($)</label>
+            <input type="number" min="0.01" step="0.01" value={scheduledPayment} onChange={e => setScheduledPayment(e.target.value)} className={`mt-1 ${inputClassName}`} />
+          </div>
+        </div>
+        <button type="submit" className={buttonClassName}>Apply on {account.nextAnalysisDate}</button>
+        {account.adjustments.length > 0 && (
+          <ul className="space-y-1 text-xs text-slate-500 dark:text-slate-400">
+            {account.adjustments.map(adj => (
+              <li key={adj.id}>
+                {adj.effectiveDate}: escrow {formatCents(adj.previousEscrowCents)} → {formatCents(adj.escrowTaxesCents + adj.escrowInsuranceCents + adj.escrowMipCents + adj.escrowHoaCents)},
+                payment {formatCents(adj.previousScheduledPaymentCents)} → {formatCents(adj.scheduledPaymentCents)}
+                {adj.shortageCents > 0 ? ` (shortage ${formatCents(adj.shortageCents)})` : adj.surplusCents > 0 ? ` (surplus ${formatCents(adj.surplusCents)})` : ''}
+              </li>
+            ))}
+          </ul>
+        )}
+      </form>
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -1,21 +1,26 @@
 
 import React, { useMemo, useState } from 'react';
-import { Bill, Person, Payment, Mortgage, MortgagePayment, MortgagePaymentBreakdown, FinancedExpense, FinancedExpensePayment } from '../types';
+import { AuthSession, Bill, Person, Payment, Mortgage, MortgagePayment, MortgagePaymentBreakdown, FinancedExpense, FinancedExpensePayment } from '../types';
 import { FamilyBillRow, DueItem } from './FamilyBillRow';
 import { resolveItemCycle, ItemCycle, computeMortgageStats } from '../utils/calculations';
 import { MortgageSnapshot } from './MortgageSnapshot';
 import { FinancedExpenseCard } from './FinancedExpenseCard';
 import { FinancedExpenseModal } from './FinancedExpenseModal';
+import { SettleUpCard } from './SettleUpCard';
+import { SavingsGoalsCard } from './SavingsGoalsCard';
 import { useFinancedExpenseCompleteQuery, useFinancedExpenseMutations } from '../hooks/useFinancedExpensesQuery';
 import { startOfDay, endOfDay, getMonthEnd } from '../utils/dateUtils';
+import { ApiSavingsGoal } from '../utils/api';
 
 // React Query-based component for financed expense cards
 const FinancedExpenseCardWrapper: React.FC<{
   expense: FinancedExpense;
   people: Person[];
   isAdminMode: boolean;
+  // Recorded as the payer of installments marked paid here
+  currentMemberId: string;
   onExpenseClick: (expense: FinancedExpense) => void;
-}> = ({ expense, people, isAdminMode, onExpenseClick }) => {
+}> = ({ expense, people, isAdminMode, currentMemberId, onExpenseClick }) => {
   const { data: expenseData, isLoading, error, refetch } = useFinancedExpenseCompleteQuery(expense.id);
   const { markPaymentPaid } = useFinancedExpenseMutations();
 
@@ -26,7 +31,8 @@ const FinancedExpenseCardWrapper: React.FC<{
       await markPaymentPaid.mutateAsync({
         expenseId: expense.id,
         paymentId: payment.id,
-        paidDate: new Date().toISOString().split('T')[0]
+        paidDate: new Date().toISOString().split('T')[0],
+        payerMemberId: currentMemberId
       });
     } catch (error) {
       console.error('Failed to mark payment as paid:', error);
@@ -104,6 +110,7 @@ const FinancedExpenseCardWrapper: React.FC<{
 };
 
 interface FamilyViewProps {
+  session: AuthSession;
   bills: Bill[];
   people: Person[];
   payments: Payment[];
@@ -113,10 +120,13 @@ interface FamilyViewProps {
   financedExpenses: FinancedExpense[];
   onUpdateFinancedExpense: (expense: FinancedExpense) => void;
   onDeleteFinancedExpense: (expenseId: string) => void;
+  savingsGoals: ApiSavingsGoal[];
+  onSavingsGoalsChanged: () => void;
   isManagerModeUnlocked: boolean;
 }
 
 export const FamilyView: React.FC<FamilyViewProps> = ({
+  session,
   bills,
   people,
   payments,
@@ -126,6 +136,8 @@ export const FamilyView: React.FC<FamilyViewProps> = ({
   financedExpenses,
   onUpdateFinancedExpense,
   onDeleteFinancedExpense,
+  savingsGoals,
+  onSavingsGoalsChanged,
   isManagerModeUnlocked
 }) => {
   // State for financed expense modal
@@ -235,6 +247,7 @@ export const FamilyView: React.FC<FamilyViewProps> = ({
                 expense={expense}
                 people={people}
                 isAdminMode={isManagerModeUnlocked}
+                currentMemberId={session.memberId}
                 onExpenseClick={setSelectedExpense}
               />
             ))}
@@ -272,6 +285,10 @@ export const FamilyView: React.FC<FamilyViewProps> = ({
         )}
       </section>
 
+      <SettleUpCard session={session} />
+
+      <SavingsGoalsCard session={session} people={people} goals={savingsGoals} onGoalsChanged={onSavingsGoalsChanged} />
+
       {/* Financed Expense Modal */}
       {selectedExpense && (
         <FinancedExpenseModal
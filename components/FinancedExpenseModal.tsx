@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { FinancedExpense, FinancedExpensePayment, Person, Split, SplitMode } from '../types';
 import { useFinancedExpenseCompleteQuery, useFinancedExpenseMutations } from '../hooks/useFinancedExpensesQuery';
 import { calculateSplitAmounts } from '../utils/calculations';
+import { AccountSelect } from './AccountSelect';
 import { Avatar } from './Avatar';
 import { CheckCircleIcon, ClockIcon } from './Icons';
 import { LoadingSpinner } from './LoadingSpinner';
@@ -281,6 +282,15 @@ export const FinancedExpenseModal: React.FC<FinancedExpenseModalProps> = ({
                 })}
               </div>
 
+              <div className="mt-4 max-w-xs">
+                <AccountSelect
+                  id="financedAutopayAccount"
+                  label="Autopay from"
+                  value={editingExpense.autopayAccountId || ''}
+                  onChange={autopayAccountId => setEditingExpense({ ...editingExpense, autopayAccountId: autopayAccountId || undefined })}
+                />
+              </div>
+
               <div className="flex gap-3 mt-4">
                 <button
                   onClick={handleSaveChanges}
@@ -1,14 +1,20 @@
 
 import React from 'react';
+import { Household } from '../types';
 import { EyeIcon, LockClosedIcon } from './Icons';
 
 interface HeaderProps {
     currentView: 'manage' | 'family';
     isManagerModeUnlocked: boolean;
     onViewChange: (view: 'manage' | 'family') => void;
+    signedInAs?: string;
+    onSignOut?: () => void;
+    householdId?: string;
+    households?: Household[];
+    onSwitchHousehold?: (householdId: string) => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ currentView, isManagerModeUnlocked, onViewChange }) => {
+export const Header: React.FC<HeaderProps> = ({ currentView, isManagerModeUnlocked, onViewChange, signedInAs, onSignOut, householdId, households = [], onSwitchHousehold }) => {
   return (
     <header className="bg-white dark:bg-slate-800 shadow-md">
       <div className="container mx-auto px-4 md:px-8 py-4 flex justify-between items-center">
@@ -16,6 +22,26 @@ export const Header: React.FC<HeaderProps> = ({ currentView, isManagerModeUnlock
           Family Budget Tracker
         </h1>
         <div className="flex items-center gap-2">
+            {households.length > 1 && onSwitchHousehold && (
+                <select
+                    value={householdId}
+                    onChange={e => onSwitchHousehold(e.target.value)}
+                    className="hidden sm:block mr-2 px-2 py-1 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md"
+                    aria-label="Switch household"
+                >
+                    {households.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+                </select>
+            )}
+            {signedInAs && (
+                <div className="hidden sm:flex items-center gap-2 mr-4 text-sm text-slate-600 dark:text-slate-400">
+                    <span>{signedInAs}</span>
+                    {onSignOut && (
+                        <button onClick={onSignOut} className="font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">
+                            Sign out
+                        </button>
+                    )}
+                </div>
+            )}
             <span className="text-sm font-medium text-slate-600 dark:text-slate-400 flex items-center gap-1">
                 {!isManagerModeUnlocked && <LockClosedIcon className="w-4 h-4 text-slate-500" />}
                 Manage
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { AuthSession, MemberRole } from '../types';
+import { apiClient } from '../utils/api';
+
+interface HouseholdManagerProps {
+  session: AuthSession;
+  onHouseholdRenamed: (name: string) => void;
+  onHouseholdCreated: (householdId: string) => void;
+}
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  manager: 'Manager',
+  adult: 'Adult',
+  child: 'Child',
+};
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+// Builds the link a new member opens to join; the app picks up the ?invite= parameter on load
+const buildInviteLink = (token: string) => `${window.location.origin}${window.location.pathname}?invite=${token}`;
+
+export const HouseholdManager: React.FC<HouseholdManagerProps> = ({ session, onHouseholdRenamed, onHouseholdCreated }) => {
+  const [name, setName] = useState(session.householdName);
+  const [inviteRole, setInviteRole] = useState<MemberRole>('adult');
+  const [inviteLink, setInviteLink] = useState('');
+  const [inviteExpiresAt, setInviteExpiresAt] = useState('');
+  const [newHouseholdName, setNewHouseholdName] = useState('');
+  const [error, setError] = useState('');
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === session.householdName) return;
+    runAction(async () => {
+      const household = await apiClient.renameHousehold({ name: name.trim() });
+      onHouseholdRenamed(household.name);
+    });
+  };
+
+  const handleCreateInvite = () => runAction(async () => {
+    const invite = await apiClient.createInvite({ role: inviteRole });
+    setInviteLink(buildInviteLink(invite.token));
+    setInviteExpiresAt(invite.expiresAt);
+  });
+
+  const handleCreateHousehold = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newHouseholdName.trim()) return;
+    runAction(async () => {
+      const household = await apiClient.createHousehold({ name: newHouseholdName.trim() });
+      setNewHouseholdName('');
+      onHouseholdCreated(household.id);
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-6">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Sharing</h2>
+      <form onSubmit={handleRename} className="space-y-2">
+        <label htmlFor="household-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Household name</label>
+        <div className="flex gap-2">
+          <input type="text" id="household-name" value={name} onChange={e => setName(e.target.value)} className={inputClassName} />
+          <button type="submit" disabled={!name.trim() || name.trim() === session.householdName} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50">Save</button>
+        </div>
+      </form>
+      <div className="space-y-2">
+        <p className="block text-sm font-medium text-slate-700 dark:text-slate-300">Invite someone</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">Anyone with the link can join this household once. They only see this household's people and costs.</p>
+        <div className="flex gap-2">
+          <select value={inviteRole} onChange={e => setInviteRole(e.target.value as MemberRole)} className={inputClassName}>
+            {(Object.keys(ROLE_LABELS) as MemberRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+          <button type="button" onClick={handleCreateInvite} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors whitespace-nowrap">Create link</button>
+        </div>
+        {inviteLink && (
+          <div className="space-y-1">
+            <input type="text" readOnly value={inviteLink} onFocus={e => e.target.select()} className={inputClassName} />
+            <p className="text-xs text-slate-500 dark:text-slate-400">Expires {new Date(inviteExpiresAt).toLocaleDateString()}</p>
+          </div>
+        )}
+      </div>
+      <form onSubmit={handleCreateHousehold} className="space-y-2">
+        <label htmlFor="new-household-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Start another household</label>
+        <p className="text-xs text-slate-500 dark:text-slate-400">For costs shared with another family, e.g. grandparents. You will manage it and can invite them.</p>
+        <div className="flex gap-2">
+          <input type="text" id="new-household-name" value={newHouseholdName} onChange={e => setNewHouseholdName(e.target.value)} placeholder="Household name" className={inputClassName} />
+          <button type="submit" disabled={!newHouseholdName.trim()} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50">Create</button>
+        </div>
+      </form>
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
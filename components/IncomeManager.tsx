@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Person } from '../types';
+import { apiClient, ApiIncomeDeposit, ApiIncomeSource } from '../utils/api';
+import { getMonthlyIncomeCents, INCOME_KINDS, IncomeKind, PAY_FREQUENCIES, PayFrequency } from '../utils/income';
+import { TrashIcon } from './Icons';
+
+interface IncomeManagerProps {
+  people: Person[];
+  incomeSources: ApiIncomeSource[];
+  onIncomeSourcesChanged: () => void;
+}
+
+const RECENT_DEPOSITS = 5;
+
+const KIND_LABELS: Record<IncomeKind, string> = {
+  salary: 'Salary',
+  'side-gig': 'Side gig',
+  'child-support': 'Child support',
+  other: 'Other',
+};
+
+const FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  semimonthly: 'Twice a month',
+  monthly: 'Monthly',
+};
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+export const IncomeManager: React.FC<IncomeManagerProps> = ({ people, incomeSources, onIncomeSourcesChanged }) => {
+  const [deposits, setDeposits] = useState<ApiIncomeDeposit[]>([]);
+  const [memberId, setMemberId] = useState('');
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<IncomeKind>('salary');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<PayFrequency>('biweekly');
+  const [error, setError] = useState('');
+
+  const loadDeposits = useCallback(async () => {
+    setDeposits(await apiClient.getIncomeDeposits());
+  }, []);
+
+  useEffect(() => {
+    loadDeposits().catch(err => setError(err instanceof Error ? err.message : 'Failed to load deposits'));
+  }, [loadDeposits]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await loadDeposits();
+      onIncomeSourcesChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountCents = Math.round(parseFloat(amount) * 100);
+    if (!memberId || !name.trim() || !(amountCents > 0)) {
+      setError('Choose a person, a name and a paycheck amount');
+      return;
+    }
+    runAction(async () => {
+      await apiClient.createIncomeSource({ memberId, name: name.trim(), kind, amountCents, frequency, active: true });
+      setName('');
+      setAmount('');
+    });
+  };
+
+  const handleToggleActive = (source: ApiIncomeSource) => runAction(() => apiClient.updateIncomeSource(source.id, {
+    memberId: source.memberId,
+    name: source.name,
+    kind: source.kind,
+    amountCents: source.amountCents,
+    frequency: source.frequency,
+    active: !source.active,
+  }));
+
+  const handleDeleteSource = (source: ApiIncomeSource) => {
+    if (window.confirm(`Delete ${source.name}? Deposits already recorded are kept.`)) {
+      runAction(() => apiClient.deleteIncomeSource(source.id));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-6">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Income</h2>
+
+      <div className="space-y-3">
+        {incomeSources.map(source => (
+          <div key={source.id} className={`bg-slate-50 dark:bg-slate-700/50 p-3 rounded-md text-sm ${source.active ? '' : 'opacity-60'}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-800 dark:text-slate-100">{source.name}</span>
+              <button onClick={() => handleDeleteSource(source)} className="text-slate-400 hover:text-red-500 dark:hover:text-red-400 transition-colors">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-slate-500 dark:text-slate-400">
+              {source.memberName} · {KIND_LABELS[source.kind]} · {formatCents(source.amountCents)} {FREQUENCY_LABELS[source.frequency].toLowerCase()}
+              {' '}(about {formatCents(getMonthlyIncomeCents(source.amountCents, source.frequency))}/month)
+            </p>
+            <div className="flex gap-3 mt-2 text-xs font-semibold">
+              {source.active && (
+                <button onClick={() => runAction(() => apiClient.createIncomeDeposit({ incomeSourceId: source.id }))} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                  Record paycheck
+                </button>
+              )}
+              <button onClick={() => handleToggleActive(source)} className="text-slate-500 dark:text-slate-400 hover:underline">
+                {source.active ? 'Stop' : 'Resume'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-2 gap-2">
+        <select value={memberId} onChange={e => setMemberId(e.target.value)} className={inputClassName}>
+          <option value="">Person…</option>
+          {people.map(person => <option key={person.id} value={person.id}>{person.name}</option>)}
+        </select>
+        <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Source, e.g. Acme payroll" className={inputClassName} />
+        <select value={kind} onChange={e => setKind(e.target.value as IncomeKind)} className={inputClassName}>
+          {INCOME_KINDS.map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+        </select>
+        <select value={frequency} onChange={e => setFrequency(e.target.value as PayFrequency)} className={inputClassName}>
+          {PAY_FREQUENCIES.map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+        </select>
+        <input type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} placeholder="Paycheck amount" className={inputClassName} />
+        <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">
+          Add Income
+        </button>
+      </form>
+
+      {deposits.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-600 dark:text-slate-400">Recent deposits</h3>
+          <ul className="space-y-1 text-sm">
+            {deposits.slice(0, RECENT_DEPOSITS).map(deposit => (
+              <li key={deposit.id} className="flex items-center justify-between text-slate-600 dark:text-slate-300">
+                <span>{deposit.depositedDate} · {deposit.memberName} · {deposit.incomeSourceName ?? deposit.note ?? 'Deposit'}</span>
+                <span className="flex items-center gap-2">
+                  {formatCents(deposit.amountCents)}
+                  <button onClick={() => runAction(() => apiClient.deleteIncomeDeposit(deposit.id))} className="text-xs text-slate-400 hover:text-red-500">
+                    Undo
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
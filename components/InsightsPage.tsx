@@ -3,8 +3,13 @@ import { SpendingByCategory } from './SpendingByCategory';
 import { SpendingByMember } from './SpendingByMember';
 import { SpendingTrends } from './SpendingTrends';
 import { TimeRangeSelector, TimeRange } from './TimeRangeSelector';
+import { BudgetPanel } from './BudgetPanel';
+import { CashFlowForecast } from './CashFlowForecast';
+import { NetWorthChart } from './NetWorthChart';
+import { UpcomingDebitsCard } from './UpcomingDebitsCard';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ErrorMessage } from './ErrorMessage';
+import { ApiCashFlow, getAuthHeaders } from '../utils/api';
 
 interface CategoryData {
   categoryId: string;
@@ -53,6 +58,7 @@ export const InsightsPage: React.FC = () => {
   const [trends, setTrends] = useState<TrendData[]>([]);
   const [paymentStatus, setPaymentStatus] = useState<PaymentStatusData | null>(null);
   const [mortgageVsExpenses, setMortgageVsExpenses] = useState<MortgageVsExpensesData | null>(null);
+  const [cashFlow, setCashFlow] = useState<ApiCashFlow | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -63,28 +69,31 @@ export const InsightsPage: React.FC = () => {
 
       try {
         // Fetch all analytics data in parallel
-        const [summaryRes, trendsRes, statusRes, comparisonRes] = await Promise.all([
-          fetch(`${API_BASE}/api/analytics/spending-summary?timeRange=${timeRange}`),
-          fetch(`${API_BASE}/api/analytics/spending-trends?timeRange=${timeRange}`),
-          fetch(`${API_BASE}/api/analytics/payment-status?timeRange=${timeRange}`),
-          fetch(`${API_BASE}/api/analytics/mortgage-vs-expenses?timeRange=${timeRange}`),
+        const [summaryRes, trendsRes, statusRes, comparisonRes, cashFlowRes] = await Promise.all([
+          fetch(`${API_BASE}/api/analytics/spending-summary?timeRange=${timeRange}`, { headers: getAuthHeaders() }),
+          fetch(`${API_BASE}/api/analytics/spending-trends?timeRange=${timeRange}`, { headers: getAuthHeaders() }),
+          fetch(`${API_BASE}/api/analytics/payment-status?timeRange=${timeRange}`, { headers: getAuthHeaders() }),
+          fetch(`${API_BASE}/api/analytics/mortgage-vs-expenses?timeRange=${timeRange}`, { headers: getAuthHeaders() }),
+          fetch(`${API_BASE}/api/analytics/cash-flow?timeRange=${timeRange}`, { headers: getAuthHeaders() }),
         ]);
 
-        if (!summaryRes.ok || !trendsRes.ok || !statusRes.ok || !comparisonRes.ok) {
+        if (!summaryRes.ok || !trendsRes.ok || !statusRes.ok || !comparisonRes.ok || !cashFlowRes.ok) {
           throw new Error('Failed to fetch analytics data');
         }
 
-        const [summaryData, trendsData, statusData, comparisonData] = await Promise.all([
+        const [summaryData, trendsData, statusData, comparisonData, cashFlowData] = await Promise.all([
           summaryRes.json(),
           trendsRes.json(),
           statusRes.json(),
           comparisonRes.json(),
+          cashFlowRes.json(),
         ]);
 
         setSpendingSummary(summaryData);
         setTrends(trendsData);
         setPaymentStatus(statusData);
         setMortgageVsExpenses(comparisonData);
+        setCashFlow(cashFlowData);
       } catch (err) {
         console.error('Error fetching analytics:', err);
         setError(err instanceof Error ? err.message : 'Failed to load analytics data');
@@ -179,6 +188,40 @@ export const InsightsPage: React.FC = () => {
         )}
       </div>
 
+      {/* Cash Flow: income deposits against each member's share of spending */}
+      {cashFlow && cashFlow.incomeCents > 0 && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+          <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300 mb-4">Cash Flow</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase">Income</p>
+              <p className="text-2xl font-bold text-slate-800 dark:text-slate-100 mt-1">{formatCurrency(cashFlow.incomeCents)}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase">Net</p>
+              <p className={`text-2xl font-bold mt-1 ${cashFlow.netCents >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatCurrency(cashFlow.netCents)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase">Savings Rate</p>
+              <p className="text-2xl font-bold text-slate-800 dark:text-slate-100 mt-1">{cashFlow.savingsRatePercent ?? 0}%</p>
+            </div>
+          </div>
+          <div className="mt-4 space-y-2">
+            {cashFlow.members.map(member => (
+              <div key={member.memberId} className="flex items-center justify-between text-sm">
+                <span className="font-semibold text-slate-700 dark:text-slate-200">{member.memberName}</span>
+                <span className="text-slate-600 dark:text-slate-400">
+                  {formatCurrency(member.spendingCents)} of {formatCurrency(member.incomeCents)}
+                  {member.contributionPercent !== null && ` (${member.contributionPercent}% of income)`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Mortgage vs Other Expenses */}
       {mortgageVsExpenses && (mortgageVsExpenses.mortgageCents > 0 || mortgageVsExpenses.otherExpensesCents > 0) && (
         <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
@@ -200,13 +243,21 @@ export const InsightsPage: React.FC = () => {
         </div>
       )}
 
+      <BudgetPanel />
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <SpendingByCategory data={categoryData} />
         <SpendingByMember data={spendingSummary} />
       </div>
 
-      <SpendingTrends data={trends} timeRange={timeRange} />
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <SpendingTrends data={trends} timeRange={timeRange} />
+        <CashFlowForecast />
+      </div>
+
+      <NetWorthChart />
+      <UpcomingDebitsCard />
     </div>
   );
 };
\ No newline at end of file
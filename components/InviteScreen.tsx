@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { AuthSession } from '../types';
+import { apiClient, ApiInvitePreview } from '../utils/api';
+
+interface InviteScreenProps {
+  inviteToken: string;
+  // The signed-in session, if any; that login joins the household instead of creating a new one
+  session: AuthSession | null;
+  onAccept: (inviteToken: string, newAccount?: { name: string; username: string; password: string }) => Promise<unknown>;
+  onDismiss: () => void;
+}
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+export const InviteScreen: React.FC<InviteScreenProps> = ({ inviteToken, session, onAccept, onDismiss }) => {
+  const [invite, setInvite] = useState<ApiInvitePreview | null>(null);
+  const [isLoadingInvite, setIsLoadingInvite] = useState(true);
+  const [name, setName] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    apiClient.getInvite(inviteToken)
+      .then(setInvite)
+      .catch(() => setError('This invite link is invalid, expired or has already been used.'))
+      .finally(() => setIsLoadingInvite(false));
+  }, [inviteToken]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onAccept(inviteToken, session ? undefined : { name, username, password });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to join. Please try again.');
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-200 font-sans flex justify-center items-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 md:p-8 w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-500 to-teal-400 mb-2">
+          Family Budget Tracker
+        </h1>
+        {isLoadingInvite ? (
+          <p className="text-sm text-slate-600 dark:text-slate-400">Checking your invite...</p>
+        ) : invite ? (
+          <form onSubmit={handleSubmit}>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+              You have been invited to join <span className="font-semibold text-slate-800 dark:text-slate-100">{invite.householdName}</span> as {invite.role === 'adult' ? 'an' : 'a'} {invite.role}.
+              {session && ` You will join as ${session.memberName}.`}
+            </p>
+            {!session && (
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="invite-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Your name</label>
+                  <input type="text" id="invite-name" value={name} onChange={e => setName(e.target.value)} required autoFocus className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="invite-username" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Username</label>
+                  <input type="text" id="invite-username" value={username} onChange={e => setUsername(e.target.value)} required autoComplete="username" className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="invite-password" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Password</label>
+                  <input type="password" id="invite-password" value={password} onChange={e => setPassword(e.target.value)} required minLength={8} autoComplete="new-password" className={inputClassName} />
+                </div>
+              </div>
+            )}
+            {error && <p className="mt-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="mt-6 w-full px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Join Household
+            </button>
+          </form>
+        ) : (
+          error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>
+        )}
+        <button onClick={onDismiss} className="mt-4 w-full text-sm font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">
+          {session ? 'Back to my household' : 'I already have a login'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Person } from '../types';
+import { Avatar } from './Avatar';
+
+interface LoginScreenProps {
+  needsSetup: boolean;
+  members: Person[];
+  onSignIn: (username: string, password: string) => Promise<unknown>;
+  onSetup: (memberId: string, username: string, password: string) => Promise<unknown>;
+}
+
+const inputClassName = "mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ needsSetup, members, onSignIn, onSetup }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [memberId, setMemberId] = useState(members[0]?.id ?? '');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsSetup && password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      if (needsSetup) {
+        await onSetup(memberId, username, password);
+      } else {
+        await onSignIn(username, password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to sign in. Please try again.');
+      setPassword('');
+      setConfirmPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-200 font-sans flex justify-center items-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 md:p-8 w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-500 to-teal-400 mb-2">
+          Family Budget Tracker
+        </h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+          {needsSetup
+            ? 'Create the first manager login. Managers can invite the rest of the family afterwards.'
+            : 'Sign in to see your household budget.'}
+        </p>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            {needsSetup && (
+              <div>
+                <p className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Who are you?</p>
+                <div className="space-y-2">
+                  {members.map(member => (
+                    <label key={member.id} className={`flex items-center gap-3 p-2 rounded-md cursor-pointer ${memberId === member.id ? 'bg-indigo-50 dark:bg-indigo-900/40 ring-1 ring-indigo-500' : 'bg-slate-50 dark:bg-slate-700/50'}`}>
+                      <input type="radio" name="member" value={member.id} checked={memberId === member.id} onChange={() => setMemberId(member.id)} className="sr-only" />
+                      <Avatar person={member} size="xs" />
+                      <span className="font-semibold text-slate-800 dark:text-slate-100">{member.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div>
+              <label htmlFor="login-username" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Username</label>
+              <input type="text" id="login-username" value={username} onChange={e => setUsername(e.target.value)} required autoComplete="username" autoFocus className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="login-password" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Password</label>
+              <input type="password" id="login-password" value={password} onChange={e => setPassword(e.target.value)} required autoComplete={needsSetup ? 'new-password' : 'current-password'} className={inputClassName} />
+            </div>
+            {needsSetup && (
+              <div>
+                <label htmlFor="login-confirm-password" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Confirm Password</label>
+                <input type="password" id="login-confirm-password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required autoComplete="new-password" className={inputClassName} />
+              </div>
+            )}
+            {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || (needsSetup && !memberId)}
+            className="mt-6 w-full px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            {needsSetup ? 'Create Manager Login' : 'Sign In'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
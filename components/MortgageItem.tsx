@@ -1,7 +1,11 @@
 import React, { useMemo, useState } from 'react';
-import { Mortgage, Person, MortgagePayment } from '../types';
+import { Mortgage, Person, MortgagePayment, MortgageRateEvent } from '../types';
 import { PencilIcon, TrashIcon, CreditCardIcon, PaperclipIcon, HomeIcon } from './Icons';
 import { Avatar } from './Avatar';
+import { AmortizationSchedule } from './AmortizationSchedule';
+import { MortgageRateEvents } from './MortgageRateEvents';
+import { EscrowAccount } from './EscrowAccount';
+import { EscrowAdjustmentParams } from '../hooks/useApiData';
 import { calculateSplitAmounts, resolveItemCycle, ItemCycle, BillStatus } from '../utils/calculations';
 import { formatOrdinal } from '../utils/formatUtils';
 
@@ -14,6 +18,9 @@ interface MortgageItemProps {
   onAddPayment: (mortgage: Mortgage) => void;
   onEditPayment: (mortgage: Mortgage, payment: MortgagePayment) => void;
   onDeletePayment: (payment: MortgagePayment) => void;
+  onSaveRateEvent: (event: MortgageRateEvent) => void;
+  onDeleteRateEvent: (event: MortgageRateEvent) => void;
+  onApplyEscrowAdjustment: (params: EscrowAdjustmentParams) => Promise<void>;
 }
 
 const formatCurrency = (amount: number) => {
@@ -42,9 +49,12 @@ const PaymentRow: React.FC<{payment: MortgagePayment, onEdit: () => void, onDele
 );
 
 
-export const MortgageItem: React.FC<MortgageItemProps> = ({ mortgage, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment }) => {
+export const MortgageItem: React.FC<MortgageItemProps> = ({ mortgage, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment, onSaveRateEvent, onDeleteRateEvent, onApplyEscrowAdjustment }) => {
   const getPerson = (personId: string) => people.find(p => p.id === personId);
   const [showPayments, setShowPayments] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showRateEvents, setShowRateEvents] = useState(false);
+  const [showEscrow, setShowEscrow] = useState(false);
   
   const statusDetails: ItemCycle | null = useMemo(() => resolveItemCycle(mortgage, payments, people, new Date()), [mortgage, payments, people]);
   const calculatedSplits = useMemo(() => calculateSplitAmounts({...mortgage, amount: mortgage.scheduled_payment}, people), [mortgage, people]);
@@ -146,6 +156,36 @@ export const MortgageItem: React.FC<MortgageItemProps> = ({ mortgage, people, pa
               )}
           </div>
       )}
+      <div className="mt-4">
+          <button onClick={() => setShowRateEvents(!showRateEvents)} className="text-sm font-semibold text-indigo-600 dark:text-indigo-400 w-full text-left">
+              {showRateEvents ? 'Hide' : 'Show'} Refinances & Rate Changes
+          </button>
+          {showRateEvents && (
+              <div className="mt-2 bg-slate-100 dark:bg-slate-900/40 p-3 rounded-md">
+                  <MortgageRateEvents mortgage={mortgage} onSaveRateEvent={onSaveRateEvent} onDeleteRateEvent={onDeleteRateEvent} />
+              </div>
+          )}
+      </div>
+      <div className="mt-4">
+          <button onClick={() => setShowEscrow(!showEscrow)} className="text-sm font-semibold text-indigo-600 dark:text-indigo-400 w-full text-left">
+              {showEscrow ? 'Hide' : 'Show'} Escrow Account
+          </button>
+          {showEscrow && (
+              <div className="mt-2 bg-slate-100 dark:bg-slate-900/40 p-3 rounded-md">
+                  <EscrowAccount mortgage={mortgage} onApplyAdjustment={onApplyEscrowAdjustment} />
+              </div>
+          )}
+      </div>
+      <div className="mt-4">
+          <button onClick={() => setShowSchedule(!showSchedule)} className="text-sm font-semibold text-indigo-600 dark:text-indigo-400 w-full text-left">
+              {showSchedule ? 'Hide' : 'Show'} Amortization Schedule
+          </button>
+          {showSchedule && (
+              <div className="mt-2 bg-slate-100 dark:bg-slate-900/40 p-3 rounded-md">
+                  <AmortizationSchedule mortgageId={mortgage.id} />
+              </div>
+          )}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Mortgage, Person, MortgagePayment } from '../types';
+import { Mortgage, Person, MortgagePayment, MortgageRateEvent } from '../types';
+import { EscrowAdjustmentParams } from '../hooks/useApiData';
 import { MortgageItem } from './MortgageItem';
 
 interface MortgageListProps {
@@ -11,9 +12,12 @@ interface MortgageListProps {
   onAddPayment: (mortgage: Mortgage) => void;
   onEditPayment: (mortgage: Mortgage, payment: MortgagePayment) => void;
   onDeletePayment: (payment: MortgagePayment) => void;
+  onSaveRateEvent: (event: MortgageRateEvent) => void;
+  onDeleteRateEvent: (event: MortgageRateEvent) => void;
+  onApplyEscrowAdjustment: (params: EscrowAdjustmentParams) => Promise<void>;
 }
 
-export const MortgageList: React.FC<MortgageListProps> = ({ mortgages, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment }) => {
+export const MortgageList: React.FC<MortgageListProps> = ({ mortgages, people, payments, onEdit, onDelete, onAddPayment, onEditPayment, onDeletePayment, onSaveRateEvent, onDeleteRateEvent, onApplyEscrowAdjustment }) => {
   if (mortgages.length === 0) {
     return (
         <div className="text-center py-12 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-lg">
@@ -35,6 +39,9 @@ export const MortgageList: React.FC<MortgageListProps> = ({ mortgages, people, p
             onAddPayment={onAddPayment}
             onEditPayment={onEditPayment}
             onDeletePayment={onDeletePayment}
+            onSaveRateEvent={onSaveRateEvent}
+            onDeleteRateEvent={onDeleteRateEvent}
+            onApplyEscrowAdjustment={onApplyEscrowAdjustment}
         />
       ))}
     </div>
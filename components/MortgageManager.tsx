@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Mortgage, Person, MortgagePayment } from '../types';
+import { Mortgage, Person, MortgagePayment, MortgageRateEvent } from '../types';
+import { EscrowAdjustmentParams } from '../hooks/useApiData';
 import { HomeIcon } from './Icons';
 import { MortgageList } from './MortgageList';
 import { MortgageModal } from './MortgageModal';
@@ -13,6 +14,9 @@ interface MortgageManagerProps {
   onDeleteMortgage: (mortgageId: string) => void;
   onSavePayment: (payment: MortgagePayment) => void;
   onDeletePayment: (payment: MortgagePayment) => void;
+  onSaveRateEvent: (event: MortgageRateEvent) => void;
+  onDeleteRateEvent: (event: MortgageRateEvent) => void;
+  onApplyEscrowAdjustment: (params: EscrowAdjustmentParams) => Promise<void>;
 }
 
 export const MortgageManager: React.FC<MortgageManagerProps> = ({
@@ -23,6 +27,9 @@ export const MortgageManager: React.FC<MortgageManagerProps> = ({
   onDeleteMortgage,
   onSavePayment,
   onDeletePayment,
+  onSaveRateEvent,
+  onDeleteRateEvent,
+  onApplyEscrowAdjustment,
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingMortgage, setEditingMortgage] = useState<Mortgage | null>(null);
@@ -79,6 +86,9 @@ export const MortgageManager: React.FC<MortgageManagerProps> = ({
         onAddPayment={openPaymentModal}
         onEditPayment={openPaymentModal}
         onDeletePayment={onDeletePayment}
+        onSaveRateEvent={onSaveRateEvent}
+        onDeleteRateEvent={onDeleteRateEvent}
+        onApplyEscrowAdjustment={onApplyEscrowAdjustment}
       />
       {isModalOpen && (
         <MortgageModal
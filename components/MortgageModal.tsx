@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Mortgage, Person, Split, SplitMode } from '../types';
 import { computeFirstDueDate } from '../utils/calculations';
+import { AccountSelect } from './AccountSelect';
 
 interface MortgageModalProps {
   isOpen: boolean;
@@ -27,6 +28,7 @@ export const MortgageModal: React.FC<MortgageModalProps> = ({ isOpen, onClose, o
   const [escrow_hoa, setEscrowHoa] = useState<number|''>('');
   const [splitMode, setSplitMode] = useState<SplitMode>('shares');
   const [splits, setSplits] = useState<Split[]>([]);
+  const [autopayAccountId, setAutopayAccountId] = useState('');
   
   const totalAmount = typeof scheduled_payment === 'number' ? scheduled_payment : 0;
   
@@ -51,6 +53,7 @@ export const MortgageModal: React.FC<MortgageModalProps> = ({ isOpen, onClose, o
         setEscrowHoa(existingMortgage.escrow_hoa || '');
         setSplitMode(existingMortgage.splitMode);
         setSplits(existingMortgage.splits);
+        setAutopayAccountId(existingMortgage.autopayAccountId || '');
     } else {
       // Reset to defaults
       const today = new Date();
@@ -70,6 +73,7 @@ export const MortgageModal: React.FC<MortgageModalProps> = ({ isOpen, onClose, o
       setEscrowHoa('');
       setSplitMode('shares');
       setSplits(people.map(p => ({ personId: p.id, value: 1 })));
+      setAutopayAccountId('');
     }
   }, [existingMortgage, people, isOpen]);
 
@@ -156,6 +160,7 @@ export const MortgageModal: React.FC<MortgageModalProps> = ({ isOpen, onClose, o
       splitMode,
       splits: splits.filter(s => s.value > 0),
       active: true,
+      autopayAccountId: autopayAccountId || undefined,
     };
     onSave(newMortgage);
   };
@@ -215,6 +220,9 @@ export const MortgageModal: React.FC<MortgageModalProps> = ({ isOpen, onClose, o
                         )}
                     </div>
                 </div>
+                <div className="mt-4">
+                    <AccountSelect id="mortgageAutopayAccount" label="Autopay from (Optional)" value={autopayAccountId} onChange={setAutopayAccountId} />
+                </div>
             </fieldset>
             {/* Escrow */}
             <fieldset className="border dark:border-slate-600 p-4 rounded-md">
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Mortgage, Person, MortgagePayment, PaymentMethod, PaymentAllocation } from '../types';
 import { resolveItemCycle } from '../utils/calculations';
+import { AccountSelect } from './AccountSelect';
 import { PaperclipIcon } from './Icons';
 
 interface MortgagePaymentModalProps {
@@ -35,6 +36,7 @@ export const MortgagePaymentModal: React.FC<MortgagePaymentModalProps> = ({ isOp
   const [amount, setAmount] = useState<number | ''>('');
   const [paidDate, setPaidDate] = useState(new Date().toISOString().split('T')[0]);
   const [method, setMethod] = useState<PaymentMethod>('ach');
+  const [accountId, setAccountId] = useState('');
   const [note, setNote] = useState('');
   const [receipt, setReceipt] = useState<{fileName: string, dataUrl: string} | null>(null);
   const [useManualAllocations, setUseManualAllocations] = useState(false);
@@ -45,6 +47,7 @@ export const MortgagePaymentModal: React.FC<MortgagePaymentModalProps> = ({ isOp
       setAmount(existingPayment.amount);
       setPaidDate(existingPayment.paidDate);
       setMethod(existingPayment.method);
+      setAccountId(existingPayment.accountId || '');
       setNote(existingPayment.note || '');
       setReceipt(existingPayment.receipt || null);
       setUseManualAllocations(!!existingPayment.allocations);
@@ -53,12 +56,13 @@ export const MortgagePaymentModal: React.FC<MortgagePaymentModalProps> = ({ isOp
       setAmount(totalRemaining > 0.01 ? parseFloat(totalRemaining.toFixed(2)) : '');
       setPaidDate(new Date().toISOString().split('T')[0]);
       setMethod('ach');
+      setAccountId(mortgage.autopayAccountId || '');
       setNote('');
       setReceipt(null);
       setUseManualAllocations(false);
       setAllocations(people.map(p => ({ personId: p.id, amount: 0 })));
     }
-  }, [existingPayment, isOpen, totalRemaining, people]);
+  }, [existingPayment, isOpen, totalRemaining, people, mortgage.autopayAccountId]);
 
   const handleAllocationChange = (personId: string, value: string) => {
     const newAmount = parseFloat(value) || 0;
@@ -100,6 +104,7 @@ export const MortgagePaymentModal: React.FC<MortgagePaymentModalProps> = ({ isOp
         amount: Number(amount),
         paidDate,
         method,
+        accountId: accountId || undefined,
         note: note || undefined,
         receipt: receipt || undefined,
         allocations: useManualAllocations ? allocations.filter(a => a.amount > 0) : undefined,
@@ -136,6 +141,8 @@ export const MortgagePaymentModal: React.FC<MortgagePaymentModalProps> = ({ isOp
             </div>
           </div>
           
+          <AccountSelect id="mortgagePaymentAccount" label="Paid from (Optional)" value={accountId} onChange={setAccountId} />
+
           <div className="relative flex items-start">
             <div className="flex h-6 items-center"><input id="manual-allocations" type="checkbox" checked={useManualAllocations} onChange={e => setUseManualAllocations(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-600" /></div>
             <div className="ml-3 text-sm"><label htmlFor="manual-allocations" className="font-medium">Allocate payment to specific members</label></div>
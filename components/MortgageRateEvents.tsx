@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Mortgage, MortgageRateEvent, MortgageRateEventKind } from '../types';
+import { apiClient, ApiRefinanceBreakEven } from '../utils/api';
+import { TrashIcon } from './Icons';
+
+interface MortgageRateEventsProps {
+  mortgage: Mortgage;
+  onSaveRateEvent: (event: MortgageRateEvent) => void;
+  onDeleteRateEvent: (event: MortgageRateEvent) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const labelClassName = "block text-xs font-medium text-slate-600 dark:text-slate-400";
+
+export const MortgageRateEvents: React.FC<MortgageRateEventsProps> = ({ mortgage, onSaveRateEvent, onDeleteRateEvent }) => {
+  const [kind, setKind] = useState<MortgageRateEventKind>('rate-reset');
+  const [effectiveDate, setEffectiveDate] = useState(new Date().toISOString().split('T')[0]);
+  const [rate, setRate] = useState('');
+  const [termMonths, setTermMonths] = useState('');
+  const [principal, setPrincipal] = useState('');
+  const [closingCosts, setClosingCosts] = useState('');
+  const [scheduledPayment, setScheduledPayment] = useState('');
+
+  const [proposedRate, setProposedRate] = useState('');
+  const [proposedTerm, setProposedTerm] = useState('360');
+  const [proposedClosingCosts, setProposedClosingCosts] = useState('');
+  const [breakEven, setBreakEven] = useState<ApiRefinanceBreakEven | null>(null);
+  const [error, setError] = useState('');
+
+  const events = [...(mortgage.rateEvents ?? [])].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSaveRateEvent({
+      id: '',
+      mortgageId: mortgage.id,
+      kind,
+      effectiveDate,
+      interestRateApy: parseFloat(rate) || 0,
+      termMonths: kind === 'refinance' ? parseInt(termMonths, 10) || undefined : undefined,
+      principal: kind === 'refinance' ? optionalNumber(principal) : undefined,
+      closingCosts: parseFloat(closingCosts) || 0,
+      scheduledPayment: optionalNumber(scheduledPayment),
+    });
+    setRate('');
+    setTermMonths('');
+    setPrincipal('');
+    setClosingCosts('');
+    setScheduledPayment('');
+  };
+
+  const handleBreakEven = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setBreakEven(await apiClient.getRefinanceBreakEven(mortgage.id, {
+        interestRateApy: parseFloat(proposedRate) || 0,
+        termMonths: parseInt(proposedTerm, 10) || 0,
+        closingCostsCents: Math.round((parseFloat(proposedClosingCosts) || 0) * 100),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to calculate the break-even point');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {events.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {events.map(event => (
+            <li key={event.id} className="flex items-center justify-between">
+              <span className="text-slate-700 dark:text-slate-300">
+                {event.effectiveDate}: {event.kind === 'refinance' ? 'Refinanced' : 'Rate reset'} to {event.interestRateApy.toFixed(3)}%
+                {event.termMonths ? `, ${event.termMonths} mo` : ''}
+                {event.principal !== undefined ? `, ${formatCurrency(event.principal)}` : ''}
+                {event.closingCosts > 0 ? ` (${formatCurrency(event.closingCosts)} closing costs)` : ''}
+              </span>
+              <button onClick={() => onDeleteRateEvent(event)} className="text-slate-500 hover:text-red-500 dark:hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No refinances or rate resets recorded.</p>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className={labelClassName}>Change</label>
+          <select value={kind} onChange={e => setKind(e.target.value as MortgageRateEventKind)} className={`mt-1 ${inputClassName}`}>
+            <option value="rate-reset">Rate reset</option>
+            <option value="refinance">Refinance</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Effective</label>
+          <input type="date" required value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </div>
+        <div>
+          <label className={labelClassName}>Rate (%)</label>
+          <input type="number" required min="0" step="0.001" value={rate} onChange={e => setRate(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </div>
+        <div>
+          <label className={labelClassName}>New payment ($)</label>
+          <input type="number" min="0" step="0.01" value={scheduledPayment} onChange={e => setScheduledPayment(e.target.value)} className={`mt-1 ${inputClassName}`} />
+        </div>
+        {kind === 'refinance' && (
+          <>
+            <div>
+              <label className={labelClassName}>Term (months)</label>
+              <input type="number" required min="1" value={termMonths} onChange={e => setTermMonths(e.target.value)} className={`mt-1 ${inputClassName}`} />
+            </div>
+            <div>
+              <label className={labelClassName}>New principal ($)</label>
+              <input type="number" min="0" step="0.01" value={principal} onChange={e => setPrincipal(e.target.value)} className={`mt-1 ${inputClassName}`} />
+            </div>
+            <div>
+              <label className={labelClassName}>Closing costs ($)</label>
+              <input type="number" min="0" step="0.01" value={closingCosts} onChange={e => setClosingCosts(e.target.value)} className={`mt-1 ${inputClassName}`} />
+            </div>
+          </>
+        )}
+        <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">Record</button>
+      </form>
+
+      <form onSubmit={handleBreakEven} className="pt-4 border-t border-slate-200 dark:border-slate-600 space-y-3">
+        <p className="text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase">Refinance break-even</p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className={labelClassName}>New rate (%)</label>
+            <input type="number" required min="0" step="0.001" value={proposedRate} onChange={e => setProposedRate(e.target.value)} className={`mt-1 ${inputClassName}`} />
+          </div>
+          <div>
+            <label className={labelClassName}>Term (months)</label>
+            <input type="number" required min="1" value={proposedTerm} onChange={e => setProposedTerm(e.target.value)} className={`mt-1 ${inputClassName}`} />
+          </div>
+          <div>
+            <label className={labelClassName}>Closing costs ($)</label>
+            <input type="number" min="0" step="0.01" value={proposedClosingCosts} onChange={e => setProposedClosingCosts(e.target.value)} className={`mt-1 ${inputClassName}`} />
+          </div>
+          <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">Calculate</button>
+        </div>
+        {breakEven && (
+          <div className="text-sm text-slate-700 dark:text-slate-300 space-y-1">
+            <p>
+              Principal and interest {formatCurrency(breakEven.currentMonthlyCents / 100)} → {formatCurrency(breakEven.proposedMonthlyCents / 100)} a month
+            </p>
+            <p className="font-semibold">
+              {breakEven.breakEvenMonths !== null
+                ? `Pays for itself after ${breakEven.breakEvenMonths} months (${breakEven.breakEvenDate})`
+                : 'The monthly payment would not go down, so the closing costs are never recovered'}
+            </p>
+            <p>
+              {breakEven.lifetimeSavingsCents >= 0 ? 'Saves' : 'Costs'} {formatCurrency(Math.abs(breakEven.lifetimeSavingsCents) / 100)} in interest and closing costs over the life of the loan
+            </p>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { apiClient, ApiFinancialAccount, ApiNetWorth } from '../utils/api';
+import { FINANCIAL_ACCOUNT_KINDS, FinancialAccountKind, LIABILITY_ACCOUNT_KINDS } from '../utils/netWorth';
+import { LoadingSpinner } from './LoadingSpinner';
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+const kindLabel = (kind: FinancialAccountKind) =>
+  kind.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const inputClassName = "px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm";
+
+export const NetWorthChart: React.FC = () => {
+  const [netWorth, setNetWorth] = useState<ApiNetWorth | null>(null);
+  const [accounts, setAccounts] = useState<ApiFinancialAccount[]>([]);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<FinancialAccountKind>('checking');
+  const [institution, setInstitution] = useState('');
+  const [balanceInputs, setBalanceInputs] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    const [netWorthResult, accountResult] = await Promise.all([apiClient.getNetWorth(), apiClient.getFinancialAccounts()]);
+    setNetWorth(netWorthResult);
+    setAccounts(accountResult);
+  }, []);
+
+  useEffect(() => {
+    load().catch(err => setError(err instanceof Error ? err.message : 'Failed to load net worth'));
+  }, [load]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleAddAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Enter an account name');
+      return;
+    }
+    runAction(async () => {
+      await apiClient.createFinancialAccount({ name: name.trim(), kind, institution: institution.trim() || null });
+      setName('');
+      setInstitution('');
+    });
+  };
+
+  // Balances are entered as shown on the statement; credit card balances are what is owed
+  const handleRecordBalance = (e: React.FormEvent, account: ApiFinancialAccount) => {
+    e.preventDefault();
+    const balanceCents = Math.round(parseFloat(balanceInputs[account.id] ?? '') * 100);
+    if (!Number.isFinite(balanceCents)) {
+      setError('Enter a balance');
+      return;
+    }
+    runAction(async () => {
+      await apiClient.recordAccountBalance(account.id, { balanceCents });
+      setBalanceInputs(inputs => ({ ...inputs, [account.id]: '' }));
+    });
+  };
+
+  const handleDeleteAccount = (account: ApiFinancialAccount) => {
+    if (window.confirm(`Delete ${account.name} and its balance history?`)) {
+      runAction(() => apiClient.deleteFinancialAccount(account.id));
+    }
+  };
+
+  if (!netWorth) {
+    return (
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+        <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300 mb-4">Net Worth</h3>
+        {error ? <p className="text-sm text-red-500">{error}</p> : <div className="flex justify-center h-64 items-center"><LoadingSpinner /></div>}
+      </div>
+    );
+  }
+
+  const chartData = netWorth.history.map(point => ({
+    date: formatDate(point.date),
+    assets: point.assetsCents / 100,
+    liabilities: point.liabilitiesCents / 100,
+    netWorth: point.netWorthCents / 100,
+  }));
+  const first = netWorth.history[0];
+  const changeCents = netWorth.current.netWorthCents - (first?.netWorthCents ?? 0);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">Net Worth</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+        <div className="bg-green-50 dark:bg-green-900/20 p-3 rounded-lg">
+          <p className="text-xs text-green-700 dark:text-green-400 uppercase">Assets</p>
+          <p className="text-lg font-bold text-green-600 dark:text-green-500">{formatCurrency(netWorth.current.assetsCents)}</p>
+        </div>
+        <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
+          <p className="text-xs text-red-700 dark:text-red-400 uppercase">Liabilities</p>
+          <p className="text-lg font-bold text-red-600 dark:text-red-500">{formatCurrency(netWorth.current.liabilitiesCents)}</p>
+        </div>
+        <div className="bg-slate-100 dark:bg-slate-700 p-3 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400 uppercase">Net Worth</p>
+          <p className="text-lg font-bold text-slate-800 dark:text-slate-100">{formatCurrency(netWorth.current.netWorthCents)}</p>
+          {first && (
+            <p className={`text-xs ${changeCents >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {changeCents >= 0 ? '+' : ''}{formatCurrency(changeCents)} since {formatDate(first.date)}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="date" stroke="#64748b" style={{ fontSize: '12px' }} />
+            <YAxis stroke="#64748b" style={{ fontSize: '14px' }} tickFormatter={(value) => `$${value}`} />
+            <Tooltip formatter={(value: number) => formatCurrency(Math.round(value * 100))} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            <Line type="monotone" dataKey="assets" stroke="#22c55e" strokeWidth={2} name="Assets" />
+            <Line type="monotone" dataKey="liabilities" stroke="#ef4444" strokeWidth={2} name="Liabilities" />
+            <Line type="monotone" dataKey="netWorth" stroke="#6366f1" strokeWidth={3} name="Net Worth" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {accounts.map(account => {
+          const latest = account.balances[0];
+          const isLiability = LIABILITY_ACCOUNT_KINDS.includes(account.kind);
+          return (
+            <div key={account.id} className="flex flex-wrap items-center gap-2 py-2 border-b border-slate-200 dark:border-slate-700">
+              <div className="flex-grow">
+                <p className="font-semibold text-slate-800 dark:text-slate-100">
+                  {account.name}
+                  {account.closed && <span className="ml-2 text-xs text-slate-400">Closed</span>}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {[kindLabel(account.kind), account.institution, account.memberName].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <span className={`font-semibold ${isLiability ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-200'}`}>
+                {latest ? `${formatCurrency(latest.balanceCents)} on ${latest.asOfDate}` : 'No balance yet'}
+              </span>
+              {!account.closed && (
+                <form onSubmit={e => handleRecordBalance(e, account)} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={balanceInputs[account.id] ?? ''}
+                    onChange={e => setBalanceInputs(inputs => ({ ...inputs, [account.id]: e.target.value }))}
+                    placeholder="Balance today"
+                    className={`${inputClassName} w-32`}
+                  />
+                  <button type="submit" className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+                    Update
+                  </button>
+                </form>
+              )}
+              <button onClick={() => handleDeleteAccount(account)} className="text-xs text-slate-400 hover:text-red-500">
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleAddAccount} className="flex flex-wrap gap-2">
+        <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Account, e.g. Joint checking" className={`${inputClassName} flex-grow`} />
+        <select value={kind} onChange={e => setKind(e.target.value as FinancialAccountKind)} className={inputClassName}>
+          {FINANCIAL_ACCOUNT_KINDS.map(k => <option key={k} value={k}>{kindLabel(k)}</option>)}
+        </select>
+        <input type="text" value={institution} onChange={e => setInstitution(e.target.value)} placeholder="Institution" className={`${inputClassName} w-36`} />
+        <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">
+          Add Account
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
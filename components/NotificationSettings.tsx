@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { AuthSession } from '../types';
+import { apiClient, ApiMemberNotificationPreferences, ApiNotificationPreferences } from '../utils/api';
+
+interface NotificationSettingsProps {
+  session: AuthSession;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  email: 'Email',
+};
+
+const inputClassName = "block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ session }) => {
+  const [members, setMembers] = useState<ApiMemberNotificationPreferences[]>([]);
+  const [availableChannels, setAvailableChannels] = useState<string[]>([]);
+  const [memberId, setMemberId] = useState(session.memberId);
+  const [form, setForm] = useState<ApiNotificationPreferences | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient.getNotificationPreferences()
+      .then(result => {
+        setMembers(result.members);
+        setAvailableChannels(result.availableChannels);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load notification settings'));
+  }, []);
+
+  useEffect(() => {
+    setForm(members.find(m => m.memberId === memberId)?.preferences ?? null);
+    setMessage('');
+  }, [members, memberId]);
+
+  if (!form) {
+    return null;
+  }
+
+  const update = (changes: Partial<ApiNotificationPreferences>) => setForm({ ...form, ...changes });
+
+  const toggleChannel = (channel: string, checked: boolean) =>
+    update({ channels: checked ? [...form.channels, channel] : form.channels.filter(c => c !== channel) });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    try {
+      const saved = await apiClient.updateNotificationPreferences(memberId, form);
+      setMembers(current => current.map(m => (m.memberId === memberId ? { ...m, preferences: saved.preferences } : m)));
+      setMessage('Saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Reminders</h2>
+      <p className="text-xs text-slate-500 dark:text-slate-400">Get a reminder before your share of a bill is due, and a notice if it goes overdue.</p>
+      {members.length > 1 && (
+        <select value={memberId} onChange={e => setMemberId(e.target.value)} className={inputClassName}>
+          {members.map(m => <option key={m.memberId} value={m.memberId}>{m.memberName}</option>)}
+        </select>
+      )}
+      {availableChannels.length === 0 && (
+        <p className="text-xs text-amber-700 dark:text-amber-400">No delivery channels are set up on the server yet, so nothing will be sent.</p>
+      )}
+      <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+        <input type="checkbox" checked={form.enabled} onChange={e => update({ enabled: e.target.checked })} />
+        Send me reminders
+      </label>
+      {form.enabled && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            {availableChannels.map(channel => (
+              <label key={channel} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input type="checkbox" checked={form.channels.includes(channel)} onChange={e => toggleChannel(channel, e.target.checked)} />
+                {CHANNEL_LABELS[channel] ?? channel}
+              </label>
+            ))}
+          </div>
+          {form.channels.includes('email') && (
+            <div>
+              <label htmlFor="notification-email" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Email address</label>
+              <input type="email" id="notification-email" value={form.email} onChange={e => update({ email: e.target.value })} className={`mt-1 ${inputClassName}`} />
+            </div>
+          )}
+          <div>
+            <label htmlFor="notification-days" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Days before the due date</label>
+            <input type="number" id="notification-days" min="0" max="30" value={form.reminderDaysBefore} onChange={e => update({ reminderDaysBefore: parseInt(e.target.value, 10) || 0 })} className={`mt-1 ${inputClassName}`} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input type="checkbox" checked={form.notifyOverdue} onChange={e => update({ notifyOverdue: e.target.checked })} />
+            Tell me when something is overdue
+          </label>
+        </div>
+      )}
+      <div className="flex items-center gap-3">
+        <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">Save</button>
+        {message && <span className="text-sm text-green-600 dark:text-green-400">{message}</span>}
+      </div>
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </form>
+  );
+};
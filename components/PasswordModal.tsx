@@ -1,31 +1,45 @@
 
 import React, { useState } from 'react';
+import { AuthSession } from '../types';
 
 interface PasswordModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Signs in with the given credentials, replacing the current session
+  onSignIn: (username: string, password: string) => Promise<AuthSession>;
   onSuccess: () => void;
 }
 
-const CORRECT_PASSWORD = 'admin';
-
-export const PasswordModal: React.FC<PasswordModalProps> = ({ isOpen, onClose, onSuccess }) => {
+export const PasswordModal: React.FC<PasswordModalProps> = ({ isOpen, onClose, onSignIn, onSuccess }) => {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === CORRECT_PASSWORD) {
-      setError('');
+    setIsSubmitting(true);
+    try {
+      const session = await onSignIn(username, password);
+      setPassword('');
+      if (session.role === 'manager') {
+        setError('');
+        setUsername('');
+        onSuccess();
+      } else {
+        setError(`${session.memberName} is signed in but is not a manager.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to sign in. Please try again.');
       setPassword('');
-      onSuccess();
-    } else {
-      setError('Incorrect password. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   const handleClose = () => {
     setError('');
+    setUsername('');
     setPassword('');
     onClose();
   };
@@ -37,10 +51,24 @@ export const PasswordModal: React.FC<PasswordModalProps> = ({ isOpen, onClose, o
       <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 md:p-8 w-full max-w-sm m-4" onClick={e => e.stopPropagation()}>
         <h2 className="text-xl font-bold mb-4 text-slate-800 dark:text-slate-200">Manager Access Required</h2>
         <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
-          Please enter the password to access the management view.
+          Sign in with a manager account to access the management view.
         </p>
         <form onSubmit={handleSubmit}>
           <div className="space-y-4">
+            <div>
+              <label htmlFor="manager-username" className="block text-sm font-medium text-slate-700 dark:text-slate-300 sr-only">Username</label>
+              <input
+                type="text"
+                id="manager-username"
+                value={username}
+                onChange={e => setUsername(e.target.value)}
+                required
+                placeholder="Manager username"
+                autoComplete="username"
+                className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                autoFocus
+              />
+            </div>
             <div>
               <label htmlFor="password" className="block text-sm font-medium text-slate-700 dark:text-slate-300 sr-only">Password</label>
               <input 
@@ -50,15 +78,15 @@ export const PasswordModal: React.FC<PasswordModalProps> = ({ isOpen, onClose, o
                 onChange={e => setPassword(e.target.value)} 
                 required 
                 placeholder="Enter password"
+                autoComplete="current-password"
                 className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm" 
-                autoFocus
               />
             </div>
             {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
           </div>
           <div className="mt-6 flex justify-end gap-3">
             <button type="button" onClick={handleClose} className="px-4 py-2 bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg font-semibold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">Cancel</button>
-            <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors">Unlock</button>
+            <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50">Unlock</button>
           </div>
         </form>
       </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Bill, Person, Payment, PaymentMethod, PaymentAllocation } from '../types';
 import { resolveItemCycle } from '../utils/calculations';
+import { AccountSelect } from './AccountSelect';
 import { PaperclipIcon } from './Icons';
 
 interface PaymentModalProps {
@@ -32,6 +33,7 @@ export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, onS
   const [paidDate, setPaidDate] = useState(new Date().toISOString().split('T')[0]);
   const [method, setMethod] = useState<PaymentMethod>('venmo');
   const [payerPersonId, setPayerPersonId] = useState<string>('');
+  const [accountId, setAccountId] = useState('');
   const [note, setNote] = useState('');
   const [receipt, setReceipt] = useState<{fileName: string, dataUrl: string} | null>(null);
   const [useManualAllocations, setUseManualAllocations] = useState(false);
@@ -43,6 +45,7 @@ export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, onS
       setPaidDate(existingPayment.paidDate);
       setMethod(existingPayment.method);
       setPayerPersonId(existingPayment.payerPersonId || '');
+      setAccountId(existingPayment.accountId || '');
       setNote(existingPayment.note || '');
       setReceipt(existingPayment.receipt || null);
       if (existingPayment.allocations) {
@@ -57,13 +60,14 @@ export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, onS
       setPaidDate(new Date().toISOString().split('T')[0]);
       setMethod('venmo');
       setPayerPersonId('');
+      setAccountId(bill.autopayAccountId || '');
       setNote('');
       setReceipt(null);
       setUseManualAllocations(false);
       // Initialize allocations for manual entry
       setAllocations(people.map(p => ({ personId: p.id, amount: 0 })))
     }
-  }, [existingPayment, isOpen, totalRemaining, people]);
+  }, [existingPayment, isOpen, totalRemaining, people, bill.autopayAccountId]);
 
   const handleAllocationChange = (personId: string, value: string) => {
     const newAmount = parseFloat(value) || 0;
@@ -109,6 +113,7 @@ export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, onS
         paidDate,
         method,
         payerPersonId: payerPersonId || undefined,
+        accountId: accountId || undefined,
         note: note || undefined,
         receipt: receipt || undefined,
         allocations: useManualAllocations ? allocations.filter(a => a.amount > 0) : undefined,
@@ -152,6 +157,7 @@ export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, onS
                 {people.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
             </select>
           </div>
+          <AccountSelect id="paymentAccount" label="Paid from (Optional)" value={accountId} onChange={setAccountId} />
           
           <div className="relative flex items-start">
             <div className="flex h-6 items-center">
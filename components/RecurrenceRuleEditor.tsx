@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { RecurrenceRule, RecurrenceRuleFrequency, Weekday } from '../types';
+import { getRecurrenceRuleOccurrences } from '../utils/recurrence';
+import { formatRecurrenceRule } from '../utils/formatUtils';
+
+interface RecurrenceRuleEditorProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+const UNIT_LABELS: Record<RecurrenceRuleFrequency, string> = { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' };
+const WEEK: { day: Weekday; label: string }[] = [
+  { day: 'MO', label: 'Mon' }, { day: 'TU', label: 'Tue' }, { day: 'WE', label: 'Wed' }, { day: 'TH', label: 'Thu' },
+  { day: 'FR', label: 'Fri' }, { day: 'SA', label: 'Sat' }, { day: 'SU', label: 'Sun' },
+];
+const BUSINESS_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const POSITIONS = [{ value: 1, label: 'First' }, { value: 2, label: 'Second' }, { value: 3, label: 'Third' }, { value: 4, label: 'Fourth' }, { value: -1, label: 'Last' }];
+
+// The weekday choice of a monthly "second Tuesday" style rule; 'weekday' means Monday to Friday
+const monthlyWeekdayOf = (rule: RecurrenceRule) =>
+  rule.byWeekday?.length === 5 ? 'weekday' : rule.byWeekday?.[0] ?? 'MO';
+
+const inputClasses = "mt-1 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+// Edits the parts of a custom recurrence other than its start date, which is the bill's first due date
+export const RecurrenceRuleEditor: React.FC<RecurrenceRuleEditorProps> = ({ rule, onChange }) => {
+  const [endMode, setEndMode] = useState<'never' | 'until' | 'count'>(rule.until ? 'until' : rule.count ? 'count' : 'never');
+  const [exDateInput, setExDateInput] = useState('');
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...rule, ...changes });
+
+  // Switching frequency starts the day choices over
+  const handleFreqChange = (freq: RecurrenceRuleFrequency) =>
+    onChange({ ...rule, freq, byWeekday: undefined, byMonthDay: undefined, byMonth: undefined, bySetPos: undefined });
+
+  const toggleWeekday = (day: Weekday) => {
+    const weekdays = rule.byWeekday ?? [];
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day];
+    update({ byWeekday: next.length > 0 ? next : undefined });
+  };
+
+  const handleMonthlyModeChange = (mode: string) =>
+    update(mode === 'weekday' ? { byWeekday: ['MO'], bySetPos: [1] } : { byWeekday: undefined, bySetPos: undefined });
+
+  const handleEndModeChange = (mode: 'never' | 'until' | 'count') => {
+    setEndMode(mode);
+    update({ until: undefined, count: undefined });
+  };
+
+  const handleAddExDate = () => {
+    if (!exDateInput || rule.exDates?.includes(exDateInput)) return;
+    update({ exDates: [...(rule.exDates ?? []), exDateInput].sort() });
+    setExDateInput('');
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const nextYear = `${Number(today.slice(0, 4)) + 1}${today.slice(4)}`;
+  const upcoming = rule.startDate ? getRecurrenceRuleOccurrences(rule, nextYear).filter(date => date >= today).slice(0, 4) : [];
+
+  return (
+    <div className="space-y-3 p-3 border border-slate-200 dark:border-slate-700 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-700 dark:text-slate-300">Repeat every</span>
+        <input type="number" min="1" step="1" value={rule.interval} onChange={e => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })} className={`${inputClasses} w-20`} />
+        <select value={rule.freq} onChange={e => handleFreqChange(e.target.value as RecurrenceRuleFrequency)} className={inputClasses}>
+          {(Object.keys(UNIT_LABELS) as RecurrenceRuleFrequency[]).map(freq => <option key={freq} value={freq}>{UNIT_LABELS[freq]}</option>)}
+        </select>
+      </div>
+
+      {rule.freq === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEK.map(({ day, label }) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`px-2 py-1 rounded-md text-xs font-semibold ${rule.byWeekday?.includes(day) ? 'bg-indigo-600 text-white' : 'bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {rule.freq === 'monthly' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={rule.bySetPos?.length ? 'weekday' : 'day'} onChange={e => handleMonthlyModeChange(e.target.value)} className={inputClasses}>
+            <option value="day">On the first due date's day</option>
+            <option value="weekday">On a weekday of the month</option>
+          </select>
+          {rule.bySetPos?.length ? (
+            <>
+              <select value={rule.bySetPos[0]} onChange={e => update({ bySetPos: [Number(e.target.value)] })} className={inputClasses}>
+                {POSITIONS.map(position => <option key={position.value} value={position.value}>{position.label}</option>)}
+              </select>
+              <select
+                value={monthlyWeekdayOf(rule)}
+                onChange={e => update({ byWeekday: e.target.value === 'weekday' ? BUSINESS_DAYS : [e.target.value as Weekday] })}
+                className={inputClasses}
+              >
+                <option value="weekday">Business day</option>
+                {WEEK.map(({ day, label }) => <option key={day} value={day}>{label}</option>)}
+              </select>
+            </>
+          ) : null}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-700 dark:text-slate-300">Ends</span>
+        <select value={endMode} onChange={e => handleEndModeChange(e.target.value as 'never' | 'until' | 'count')} className={inputClasses}>
+          <option value="never">Never</option>
+          <option value="until">On date</option>
+          <option value="count">After</option>
+        </select>
+        {endMode === 'until' && (
+          <input type="date" value={rule.until ?? ''} min={rule.startDate} onChange={e => update({ until: e.target.value || undefined })} className={inputClasses} />
+        )}
+        {endMode === 'count' && (
+          <>
+            <input type="number" min="1" step="1" value={rule.count ?? ''} onChange={e => update({ count: parseInt(e.target.value) || undefined })} className={`${inputClasses} w-20`} />
+            <span className="text-slate-700 dark:text-slate-300">times</span>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-700 dark:text-slate-300">Skip</span>
+          <input type="date" value={exDateInput} onChange={e => setExDateInput(e.target.value)} className={inputClasses} />
+          <button type="button" onClick={handleAddExDate} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">Add</button>
+        </div>
+        {rule.exDates?.map(date => (
+          <span key={date} className="inline-flex items-center gap-1 mr-2 px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-xs">
+            {date}
+            <button type="button" onClick={() => update({ exDates: rule.exDates!.filter(d => d !== date) })} className="text-slate-400 hover:text-red-500">×</button>
+          </span>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Due {formatRecurrenceRule(rule)}
+        {upcoming.length > 0 && ` · next ${upcoming.join(', ')}`}
+      </p>
+    </div>
+  );
+};
@@ -3,38 +3,57 @@ import { RecurringBill, Person } from '../types';
 import { PencilIcon, TrashIcon, RepeatIcon } from './Icons';
 import { calculateSplitAmounts } from '../utils/calculations';
 import { Avatar } from './Avatar';
-import { formatRecurrenceText } from '../utils/formatUtils';
+import { formatRecurrenceText, formatRecurringBillStatus } from '../utils/formatUtils';
 
 interface RecurringBillItemProps {
   bill: RecurringBill;
   people: Person[];
   onEdit: (bill: RecurringBill) => void;
   onDelete: (billId: string) => void;
+  onChange: (bill: RecurringBill) => void;
 }
 
 const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
 };
 
-export const RecurringBillItem: React.FC<RecurringBillItemProps> = ({ bill, people, onEdit, onDelete }) => {
+export const RecurringBillItem: React.FC<RecurringBillItemProps> = ({ bill, people, onEdit, onDelete, onChange }) => {
   const getPerson = (personId: string) => people.find(p => p.id === personId);
   const calculatedSplits = useMemo(() => calculateSplitAmounts(bill, people), [bill, people]);
+  const status = formatRecurringBillStatus(bill, new Date().toISOString().split('T')[0]);
+
+  const handleToggleArchived = () =>
+    onChange({ ...bill, archivedAt: bill.archivedAt ? undefined : new Date().toISOString() });
+
+  // Deleting removes the template only; the bills it generated and their payments stay
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${bill.name}? Bills it already generated are kept.`)) {
+      onDelete(bill.id);
+    }
+  };
 
   return (
-    <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg transition-shadow hover:shadow-md">
+    <div className={`bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg transition-shadow hover:shadow-md ${bill.archivedAt ? 'opacity-70' : ''}`}>
       <div className="flex justify-between items-start">
         <div>
           <h3 className="font-bold text-lg text-slate-800 dark:text-slate-100">{bill.name}</h3>
           <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400 mt-1">
             <RepeatIcon className="w-4 h-4" />
-            <span>{formatRecurrenceText(bill.dayOfMonth, bill.frequency)}</span>
+            <span>{formatRecurrenceText(bill.dayOfMonth, bill.frequency, bill.recurrenceRule)}</span>
           </div>
+          {status && (
+            <span className="inline-block mt-1 px-2 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-xs font-semibold text-amber-700 dark:text-amber-300">{status}</span>
+          )}
         </div>
         <div className="text-right">
           <p className="text-xl font-extrabold text-slate-900 dark:text-white">{formatCurrency(bill.amount)}</p>
+          {bill.amountMode === 'variable' && <p className="text-xs text-slate-500 dark:text-slate-400">Varies, typical amount</p>}
           <div className="flex items-center justify-end gap-3 mt-1">
             <button onClick={() => onEdit(bill)} className="text-slate-500 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors"><PencilIcon /></button>
-            <button onClick={() => onDelete(bill.id)} className="text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors"><TrashIcon /></button>
+            <button onClick={handleToggleArchived} className="text-xs font-semibold text-slate-500 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors">
+              {bill.archivedAt ? 'Restore' : 'Archive'}
+            </button>
+            <button onClick={handleDelete} className="text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors"><TrashIcon /></button>
           </div>
         </div>
       </div>
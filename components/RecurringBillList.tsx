@@ -7,9 +7,10 @@ interface RecurringBillListProps {
   people: Person[];
   onEdit: (bill: RecurringBill) => void;
   onDelete: (billId: string) => void;
+  onChange: (bill: RecurringBill) => void;
 }
 
-export const RecurringBillList: React.FC<RecurringBillListProps> = ({ recurringBills, people, onEdit, onDelete }) => {
+export const RecurringBillList: React.FC<RecurringBillListProps> = ({ recurringBills, people, onEdit, onDelete, onChange }) => {
   if (recurringBills.length === 0) {
     return (
         <div className="text-center py-12 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-lg">
@@ -21,7 +22,7 @@ export const RecurringBillList: React.FC<RecurringBillListProps> = ({ recurringB
   return (
     <div className="space-y-4">
       {recurringBills.map(bill => (
-        <RecurringBillItem key={bill.id} bill={bill} people={people} onEdit={onEdit} onDelete={onDelete} />
+        <RecurringBillItem key={bill.id} bill={bill} people={people} onEdit={onEdit} onDelete={onDelete} onChange={onChange} />
       ))}
     </div>
   );
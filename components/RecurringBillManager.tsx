@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { RecurringBill, Person } from '../types';
 import { PlusIcon } from './Icons';
 import { RecurringBillList } from './RecurringBillList';
@@ -10,6 +10,7 @@ interface RecurringBillManagerProps {
   onAddRecurring: () => void;
   onEditRecurring: (bill: RecurringBill) => void;
   onDeleteRecurring: (billId: string) => void;
+  onChangeRecurring: (bill: RecurringBill) => void;
   onSaveRecurring: (bill: RecurringBill) => void;
   isModalOpen: boolean;
   closeModal: () => void;
@@ -22,12 +23,16 @@ export const RecurringBillManager: React.FC<RecurringBillManagerProps> = ({
   onAddRecurring,
   onEditRecurring,
   onDeleteRecurring,
+  onChangeRecurring,
   onSaveRecurring,
   isModalOpen,
   closeModal,
   editingRecurringBill,
 }) => {
+  const [showArchived, setShowArchived] = useState(false);
   const sortedBills = [...recurringBills].sort((a, b) => a.dayOfMonth - b.dayOfMonth);
+  const activeBills = sortedBills.filter(bill => !bill.archivedAt);
+  const archivedBills = sortedBills.filter(bill => bill.archivedAt);
 
   return (
     <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
@@ -42,11 +47,27 @@ export const RecurringBillManager: React.FC<RecurringBillManagerProps> = ({
         </button>
       </div>
       <RecurringBillList 
-        recurringBills={sortedBills} 
+        recurringBills={activeBills} 
         people={people} 
         onEdit={onEditRecurring} 
         onDelete={onDeleteRecurring} 
+        onChange={onChangeRecurring}
       />
+      {archivedBills.length > 0 && (
+        <div className="mt-6">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-sm font-semibold text-slate-500 dark:text-slate-400 hover:text-indigo-500 dark:hover:text-indigo-400"
+          >
+            {showArchived ? 'Hide' : 'Show'} archived ({archivedBills.length})
+          </button>
+          {showArchived && (
+            <div className="mt-4">
+              <RecurringBillList recurringBills={archivedBills} people={people} onEdit={onEditRecurring} onDelete={onDeleteRecurring} onChange={onChangeRecurring} />
+            </div>
+          )}
+        </div>
+      )}
        {isModalOpen && (
         <RecurringBillModal
           isOpen={isModalOpen}
@@ -1,7 +1,17 @@
 
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { RecurringBill, Person, Split, RecurrenceFrequency, SplitMode } from '../types';
+import { RecurringBill, Person, Split, RecurrenceFrequency, RecurrenceRule, SplitMode, RecurringAmountMode, EstimateMethod } from '../types';
+import { AccountSelect } from './AccountSelect';
+import { RecurrenceRuleEditor } from './RecurrenceRuleEditor';
+
+const ESTIMATE_METHOD_LABELS: Record<EstimateMethod, string> = {
+  last: 'Last amount',
+  average: '3-month average',
+  'last-year': 'Same month last year',
+};
+
+const scheduleInputClasses = "px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
 
 interface RecurringBillModalProps {
   isOpen: boolean;
@@ -14,10 +24,19 @@ interface RecurringBillModalProps {
 export const RecurringBillModal: React.FC<RecurringBillModalProps> = ({ isOpen, onClose, onSave, people, existingBill }) => {
   const [name, setName] = useState('');
   const [amount, setAmount] = useState<number | ''>('');
+  const [amountMode, setAmountMode] = useState<RecurringAmountMode>('fixed');
+  const [estimateMethod, setEstimateMethod] = useState<EstimateMethod>('last');
   const [startDate, setStartDate] = useState('');
   const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
   const [splitMode, setSplitMode] = useState<SplitMode>('shares');
   const [splits, setSplits] = useState<Split[]>([]);
+  const [autopayAccountId, setAutopayAccountId] = useState('');
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>({ freq: 'weekly', interval: 1, startDate: '' });
+  const [pausedFrom, setPausedFrom] = useState('');
+  const [pausedUntil, setPausedUntil] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [skippedPeriods, setSkippedPeriods] = useState<string[]>([]);
+  const [skipInput, setSkipInput] = useState('');
   
   const totalAmount = typeof amount === 'number' ? amount : 0;
   
@@ -25,20 +44,37 @@ export const RecurringBillModal: React.FC<RecurringBillModalProps> = ({ isOpen,
     if (existingBill) {
       setName(existingBill.name);
       setAmount(existingBill.amount);
+      setAmountMode(existingBill.amountMode ?? 'fixed');
+      setEstimateMethod(existingBill.estimateMethod ?? 'last');
       const today = new Date();
       const dateForPicker = new Date(today.getFullYear(), today.getMonth(), existingBill.dayOfMonth);
-      setStartDate(dateForPicker.toISOString().split('T')[0]);
+      setStartDate(existingBill.recurrenceRule?.startDate ?? dateForPicker.toISOString().split('T')[0]);
       setFrequency(existingBill.frequency);
+      setRecurrenceRule(existingBill.recurrenceRule ?? { freq: 'weekly', interval: 1, startDate: '' });
       setSplitMode(existingBill.splitMode);
       setSplits(existingBill.splits);
+      setAutopayAccountId(existingBill.autopayAccountId || '');
+      setPausedFrom(existingBill.pausedFrom || '');
+      setPausedUntil(existingBill.pausedUntil || '');
+      setEndDate(existingBill.endDate || '');
+      setSkippedPeriods(existingBill.skippedPeriods ?? []);
     } else {
       setName('');
       setAmount('');
+      setAmountMode('fixed');
+      setEstimateMethod('last');
       setStartDate(new Date().toISOString().split('T')[0]);
       setFrequency('monthly');
+      setRecurrenceRule({ freq: 'weekly', interval: 1, startDate: '' });
       setSplitMode('shares');
       setSplits(people.map(p => ({ personId: p.id, value: 1 })));
+      setAutopayAccountId('');
+      setPausedFrom('');
+      setPausedUntil('');
+      setEndDate('');
+      setSkippedPeriods([]);
     }
+    setSkipInput('');
   }, [existingBill, people, isOpen]);
 
   useEffect(() => {
@@ -119,7 +155,18 @@ export const RecurringBillModal: React.FC<RecurringBillModalProps> = ({ isOpen,
     }
   }, [splits, splitMode, totalAmount]);
 
-  const isSaveDisabled = name === '' || totalAmount <= 0 || startDate === '' || !isValid || people.length === 0;
+  // The rule's start date is the first due date picked above
+  const rule: RecurrenceRule = { ...recurrenceRule, startDate };
+  const endsBeforeStart = frequency === 'custom' && rule.until !== undefined && rule.until < startDate;
+  const isPauseInvalid = pausedUntil !== '' && (pausedFrom === '' || pausedUntil < pausedFrom);
+  const isSaveDisabled = name === '' || totalAmount <= 0 || startDate === '' || !isValid || people.length === 0 || endsBeforeStart || isPauseInvalid;
+
+  // Monthly-style bills are skipped by month; custom rules skip single dates in the rule editor
+  const handleAddSkip = () => {
+    if (!skipInput || skippedPeriods.includes(skipInput)) return;
+    setSkippedPeriods([...skippedPeriods, skipInput].sort());
+    setSkipInput('');
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -136,11 +183,20 @@ export const RecurringBillModal: React.FC<RecurringBillModalProps> = ({ isOpen,
       id: existingBill ? existingBill.id : `rec-${Date.now().toString()}`,
       name,
       amount: totalAmount,
+      amountMode,
+      estimateMethod,
       dayOfMonth: dayOfMonth,
       frequency,
+      recurrenceRule: frequency === 'custom' ? rule : undefined,
       splitMode,
       splits: splits.filter(s => s.value > 0),
       lastGeneratedPeriod: existingBill ? existingBill.lastGeneratedPeriod : lastGeneratedPeriod,
+      autopayAccountId: autopayAccountId || undefined,
+      pausedFrom: pausedFrom || undefined,
+      pausedUntil: pausedUntil || undefined,
+      endDate: endDate || undefined,
+      skippedPeriods,
+      archivedAt: existingBill?.archivedAt,
     };
     onSave(finalBill);
   };
@@ -165,7 +221,7 @@ export const RecurringBillModal: React.FC<RecurringBillModalProps> = ({ isOpen,
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <label htmlFor="rec-amount" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Total Amount ($)</label>
+                <label htmlFor="rec-amount" className="block text-sm font-medium text-slate-700 dark:text-slate-300">{amountMode === 'variable' ? 'Typical Amount ($)' : 'Total Amount ($)'}</label>
                 <input type="number" id="rec-amount" value={amount} onChange={e => setAmount(parseFloat(e.target.value) || '')} required min="0.01" step="0.01" className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm" />
               </div>
               <div>
@@ -173,6 +229,31 @@ export const RecurringBillModal: React.FC<RecurringBillModalProps> = ({ isOpen,
                 <input type="date" id="rec-startDate" value={startDate} onChange={e => setStartDate(e.target.value)} required className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm" />
               </div>
             </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <div className="flex rounded-lg bg-slate-200 dark:bg-slate-700 p-1">
+                {(['fixed', 'variable'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setAmountMode(mode)}
+                    className={`px-3 py-1 rounded-md text-xs font-semibold ${amountMode === mode ? 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 shadow' : 'text-slate-600 dark:text-slate-300'}`}
+                  >
+                    {mode === 'fixed' ? 'Same every time' : 'Varies'}
+                  </button>
+                ))}
+              </div>
+              {amountMode === 'variable' && (
+                <>
+                  <label htmlFor="rec-estimateMethod" className="text-slate-700 dark:text-slate-300">Estimate from</label>
+                  <select id="rec-estimateMethod" value={estimateMethod} onChange={e => setEstimateMethod(e.target.value as EstimateMethod)} className={scheduleInputClasses}>
+                    {(Object.keys(ESTIMATE_METHOD_LABELS) as EstimateMethod[]).map(method => <option key={method} value={method}>{ESTIMATE_METHOD_LABELS[method]}</option>)}
+                  </select>
+                </>
+              )}
+            </div>
+            {amountMode === 'variable' && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">Each bill starts as an estimate from confirmed statement amounts, or the typical amount until there are some.</p>
+            )}
              <div>
                 <label htmlFor="rec-frequency" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Frequency</label>
                 <select id="rec-frequency" value={frequency} onChange={e => setFrequency(e.target.value as RecurrenceFrequency)} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm">
@@ -181,8 +262,43 @@ export const RecurringBillModal: React.FC<RecurringBillModalProps> = ({ isOpen,
                     <option value="quarterly">Quarterly (every 3 months)</option>
                     <option value="semi-annually">Semi-annually (every 6 months)</option>
                     <option value="yearly">Yearly</option>
+                    <option value="custom">Custom…</option>
                 </select>
             </div>
+            {frequency === 'custom' && <RecurrenceRuleEditor rule={rule} onChange={setRecurrenceRule} />}
+            <div className="space-y-3 p-3 border border-slate-200 dark:border-slate-700 rounded-lg text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-slate-700 dark:text-slate-300">Pause from</span>
+                <input type="date" aria-label="Pause from" value={pausedFrom} onChange={e => setPausedFrom(e.target.value)} className={scheduleInputClasses} />
+                <span className="text-slate-700 dark:text-slate-300">to</span>
+                <input type="date" aria-label="Pause until" value={pausedUntil} min={pausedFrom} onChange={e => setPausedUntil(e.target.value)} className={scheduleInputClasses} />
+                {(pausedFrom || pausedUntil) && (
+                  <button type="button" onClick={() => { setPausedFrom(''); setPausedUntil(''); }} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">Resume</button>
+                )}
+              </div>
+              {isPauseInvalid && <p className="text-xs text-red-600 dark:text-red-400">A pause needs a start date on or before its end.</p>}
+              <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor="rec-endDate" className="text-slate-700 dark:text-slate-300">Ends on</label>
+                <input type="date" id="rec-endDate" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} className={scheduleInputClasses} />
+              </div>
+              {frequency !== 'custom' && (
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-slate-700 dark:text-slate-300">Skip month</span>
+                    <input type="month" aria-label="Skip month" value={skipInput} onChange={e => setSkipInput(e.target.value)} className={scheduleInputClasses} />
+                    <button type="button" onClick={handleAddSkip} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">Add</button>
+                  </div>
+                  {skippedPeriods.map(period => (
+                    <span key={period} className="inline-flex items-center gap-1 mr-2 px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-xs">
+                      {period}
+                      <button type="button" onClick={() => setSkippedPeriods(skippedPeriods.filter(p => p !== period))} className="text-slate-400 hover:text-red-500">×</button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-slate-500 dark:text-slate-400">No bills are generated while paused, for skipped months or after the end date. Bills already paid are kept.</p>
+            </div>
+            <AccountSelect id="rec-autopayAccount" label="Autopay from (Optional)" value={autopayAccountId} onChange={setAutopayAccountId} />
             <div>
               <div className="flex justify-between items-center mb-2">
                 <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">Split Bill</h3>
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { AuthSession, PaymentMethod, Person } from '../types';
+import { apiClient, ApiSavingsGoal } from '../utils/api';
+import { SavingsGoalStatus } from '../utils/savingsGoals';
+
+interface SavingsGoalsCardProps {
+  session: AuthSession;
+  people: Person[];
+  goals: ApiSavingsGoal[];
+  onGoalsChanged: () => void;
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ['card', 'cash', 'check', 'venmo', 'zelle', 'ach', 'other'];
+
+const STATUS_STYLES: Record<SavingsGoalStatus, { label: string; bar: string; text: string }> = {
+  complete: { label: 'Reached', bar: 'bg-green-500', text: 'text-green-600 dark:text-green-400' },
+  'on-track': { label: 'On track', bar: 'bg-indigo-500', text: 'text-indigo-600 dark:text-indigo-400' },
+  behind: { label: 'Behind', bar: 'bg-amber-500', text: 'text-amber-600 dark:text-amber-400' },
+};
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+const inputClassName = "px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm";
+
+export const SavingsGoalsCard: React.FC<SavingsGoalsCardProps> = ({ session, people, goals, onGoalsChanged }) => {
+  const isManager = session.role === 'manager';
+  const canContribute = session.role !== 'child';
+  const [contributingTo, setContributingTo] = useState<string | null>(null);
+  const [contributionMemberId, setContributionMemberId] = useState(session.memberId);
+  const [contributionAmount, setContributionAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('ach');
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [contributorIds, setContributorIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      onGoalsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleContribute = (e: React.FormEvent, goal: ApiSavingsGoal) => {
+    e.preventDefault();
+    const amountCents = Math.round(parseFloat(contributionAmount) * 100);
+    if (!(amountCents > 0)) {
+      setError('Enter an amount');
+      return;
+    }
+    runAction(async () => {
+      await apiClient.createSavingsContribution(goal.id, { memberId: contributionMemberId, amountCents, method });
+      setContributingTo(null);
+      setContributionAmount('');
+    });
+  };
+
+  // New goals are shared equally between the chosen contributors; edit the splits' shares later as needed
+  const handleAddGoal = (e: React.FormEvent) => {
+    e.preventDefault();
+    const targetCents = Math.round(parseFloat(target) * 100);
+    if (!name.trim() || !(targetCents > 0) || !targetDate || contributorIds.length === 0) {
+      setError('Enter a name, target amount, target date and who contributes');
+      return;
+    }
+    runAction(async () => {
+      await apiClient.createSavingsGoal({
+        name: name.trim(),
+        targetCents,
+        targetDate,
+        splitMode: 'shares',
+        splits: contributorIds.map(memberId => ({ memberId, value: 1 })),
+      });
+      setName('');
+      setTarget('');
+      setTargetDate('');
+      setContributorIds([]);
+    });
+  };
+
+  const handleDeleteGoal = (goal: ApiSavingsGoal) => {
+    if (window.confirm(`Delete ${goal.name} and its contributions?`)) {
+      runAction(() => apiClient.deleteSavingsGoal(goal.id));
+    }
+  };
+
+  if (goals.length === 0 && !isManager) {
+    return null;
+  }
+
+  return (
+    <section className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Savings Goals</h2>
+
+      {goals.map(goal => {
+        const { progress } = goal;
+        const style = STATUS_STYLES[progress.status];
+        const contributors = goal.splits
+          .filter(split => split.value > 0)
+          .map(split => people.find(person => person.id === split.personId)?.name)
+          .filter(Boolean)
+          .join(', ');
+        return (
+          <div key={goal.id} className="space-y-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-800 dark:text-slate-100">{goal.name}</span>
+              <span className={`text-xs font-semibold ${style.text}`}>{style.label}</span>
+            </div>
+            <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+              <div className={`h-full ${style.bar}`} style={{ width: `${progress.percentComplete}%` }} />
+            </div>
+            <p className="text-slate-600 dark:text-slate-400">
+              {formatCents(progress.savedCents)} of {formatCents(goal.targetCents)} by {formatDate(goal.targetDate)}
+              {contributors && ` · ${contributors}`}
+            </p>
+            {progress.status !== 'complete' && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Needs {formatCents(progress.requiredMonthlyCents)}/month, saving {formatCents(progress.actualMonthlyCents)}/month
+                {progress.projectedCompletionDate ? ` · on pace for ${formatDate(progress.projectedCompletionDate)}` : ' · no recent contributions'}
+              </p>
+            )}
+
+            {contributingTo === goal.id ? (
+              <form onSubmit={e => handleContribute(e, goal)} className="flex flex-wrap items-center gap-2">
+                {isManager && (
+                  <select value={contributionMemberId} onChange={e => setContributionMemberId(e.target.value)} className={inputClassName}>
+                    {people.map(person => <option key={person.id} value={person.id}>{person.name}</option>)}
+                  </select>
+                )}
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={contributionAmount}
+                  onChange={e => setContributionAmount(e.target.value)}
+                  placeholder="Amount"
+                  className={`${inputClassName} w-28`}
+                />
+                <select value={method} onChange={e => setMethod(e.target.value as PaymentMethod)} className={inputClassName}>
+                  {PAYMENT_METHODS.map(m => <option key={m} value={m}>{capitalize(m)}</option>)}
+                </select>
+                <button type="submit" className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">
+                  Save
+                </button>
+                <button type="button" onClick={() => setContributingTo(null)} className="text-xs text-slate-500 hover:underline">
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <div className="flex gap-3 text-xs font-semibold">
+                {canContribute && (
+                  <button onClick={() => setContributingTo(goal.id)} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                    Add contribution
+                  </button>
+                )}
+                {isManager && (
+                  <button onClick={() => handleDeleteGoal(goal)} className="text-slate-400 hover:text-red-500">
+                    Delete goal
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {isManager && (
+        <form onSubmit={handleAddGoal} className="space-y-2 pt-3 border-t border-slate-200 dark:border-slate-700">
+          <div className="flex flex-wrap gap-2">
+            <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Goal, e.g. Summer vacation" className={`${inputClassName} flex-grow`} />
+            <input type="number" min="0" step="0.01" value={target} onChange={e => setTarget(e.target.value)} placeholder="Target" className={`${inputClassName} w-28`} />
+            <input type="date" value={targetDate} onChange={e => setTargetDate(e.target.value)} className={inputClassName} />
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-400">
+            {people.map(person => (
+              <label key={person.id} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={contributorIds.includes(person.id)}
+                  onChange={e => setContributorIds(ids => e.target.checked ? [...ids, person.id] : ids.filter(id => id !== person.id))}
+                />
+                {person.name}
+              </label>
+            ))}
+            <button type="submit" className="ml-auto px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 transition-colors">
+              Add Goal
+            </button>
+          </div>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </section>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuthSession } from '../types';
+import { apiClient, ApiMemberBalance, ApiSettlement, ApiSettleUpTransfer } from '../utils/api';
+
+interface SettleUpCardProps {
+  session: AuthSession;
+}
+
+const RECENT_SETTLEMENTS = 5;
+
+const formatCents = (cents: number) => `$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+export const SettleUpCard: React.FC<SettleUpCardProps> = ({ session }) => {
+  const isManager = session.role === 'manager';
+  const [balances, setBalances] = useState<ApiMemberBalance[]>([]);
+  const [transfers, setTransfers] = useState<ApiSettleUpTransfer[]>([]);
+  const [settlements, setSettlements] = useState<ApiSettlement[]>([]);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    const [balanceResult, settlementResult] = await Promise.all([apiClient.getBalances(), apiClient.getSettlements()]);
+    setBalances(balanceResult.balances);
+    setTransfers(balanceResult.transfers);
+    setSettlements(settlementResult);
+  }, []);
+
+  useEffect(() => {
+    load().catch(err => setError(err instanceof Error ? err.message : 'Failed to load balances'));
+  }, [load]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleSettle = (transfer: ApiSettleUpTransfer) => runAction(() => apiClient.createSettlement({
+    fromMemberId: transfer.fromMemberId,
+    toMemberId: transfer.toMemberId,
+    amountCents: transfer.amountCents,
+  }));
+
+  const handleUndo = (id: string) => runAction(() => apiClient.deleteSettlement(id));
+
+  // Children can see balances but not settle them
+  const canRecord = (fromMemberId: string) => isManager || (session.role === 'adult' && fromMemberId === session.memberId);
+
+  return (
+    <section className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Settle Up</h2>
+      <p className="text-xs text-slate-500 dark:text-slate-400">Counts every payment with a payer against each member's share of it.</p>
+      {balances.length > 0 && (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {balances.map(balance => (
+            <li key={balance.memberId} className="text-sm">
+              <p className="font-semibold text-slate-700 dark:text-slate-200">{balance.memberName}</p>
+              <p className={balance.netCents > 0 ? 'text-green-600 dark:text-green-400' : balance.netCents < 0 ? 'text-red-500 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}>
+                {balance.netCents > 0 ? `is owed ${formatCents(balance.netCents)}` : balance.netCents < 0 ? `owes ${formatCents(balance.netCents)}` : 'all square'}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {transfers.length > 0 ? (
+        <ul className="space-y-2">
+          {transfers.map(transfer => (
+            <li key={`${transfer.fromMemberId}-${transfer.toMemberId}`} className="flex items-center justify-between text-sm">
+              <span className="text-slate-700 dark:text-slate-200">
+                {transfer.fromMemberName} owes {transfer.toMemberName} <span className="font-semibold">{formatCents(transfer.amountCents)}</span>
+              </span>
+              {canRecord(transfer.fromMemberId) && (
+                <button type="button" onClick={() => handleSettle(transfer)} className="px-3 py-1 bg-indigo-600 text-white rounded-lg text-xs font-semibold hover:bg-indigo-700 transition-colors whitespace-nowrap">Mark as paid</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Everyone is settled up.</p>
+      )}
+      {settlements.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-600 dark:text-slate-400">Recent settlements</h3>
+          <ul className="space-y-1">
+            {settlements.slice(0, RECENT_SETTLEMENTS).map(settlement => (
+              <li key={settlement.id} className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                <span>{settlement.settledDate}: {settlement.fromMemberName} paid {settlement.toMemberName} {formatCents(settlement.amountCents)}</span>
+                {canRecord(settlement.fromMemberId) && (
+                  <button type="button" onClick={() => handleUndo(settlement.id)} className="font-semibold text-red-500 hover:text-red-700">Undo</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </section>
+  );
+};
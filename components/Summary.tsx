@@ -5,21 +5,33 @@ import { Avatar } from './Avatar';
 
 interface SummaryProps {
   totalMonthly: number;
+  // Part of totalMonthly that is estimated from variable recurring bills
+  estimatedMonthly?: number;
   perPersonTotals: (Person & { total: number })[];
+  // Average monthly take-home pay from active income sources, in total and by person id
+  totalMonthlyIncome?: number;
+  perPersonIncome?: Record<string, number>;
 }
 
 const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
 };
 
-export const Summary: React.FC<SummaryProps> = ({ totalMonthly, perPersonTotals }) => {
+export const Summary: React.FC<SummaryProps> = ({ totalMonthly, estimatedMonthly = 0, perPersonTotals, totalMonthlyIncome = 0, perPersonIncome = {} }) => {
+  const netCashFlow = totalMonthlyIncome - totalMonthly;
+
   return (
     <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
       <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300 mb-4">Monthly Overview</h2>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-slate-100 dark:bg-slate-700 p-6 rounded-lg text-center">
-          <p className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Total Monthly Bills & Mortgages</p>
+          <p className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Total Monthly Bills, Mortgages & Savings</p>
           <p className="text-4xl font-extrabold text-indigo-600 dark:text-indigo-400 mt-2">{formatCurrency(totalMonthly)}</p>
+          {estimatedMonthly > 0 && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              {formatCurrency(totalMonthly - estimatedMonthly)} confirmed · {formatCurrency(estimatedMonthly)} estimated
+            </p>
+          )}
         </div>
         <div className="bg-slate-100 dark:bg-slate-700 p-6 rounded-lg">
           <p className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-4 text-center md:text-left">Split Totals</p>
@@ -30,12 +42,37 @@ export const Summary: React.FC<SummaryProps> = ({ totalMonthly, perPersonTotals
                    <Avatar person={person} size="sm" />
                    <span className="font-semibold text-slate-700 dark:text-slate-200">{person.name}</span>
                 </div>
-                <span className="font-bold text-slate-800 dark:text-slate-100">{formatCurrency(person.total)}</span>
+                <div className="text-right">
+                  <span className="font-bold text-slate-800 dark:text-slate-100">{formatCurrency(person.total)}</span>
+                  {perPersonIncome[person.id] > 0 && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {Math.round((person.total / perPersonIncome[person.id]) * 100)}% of {formatCurrency(perPersonIncome[person.id])} income
+                    </p>
+                  )}
+                </div>
               </div>
             ))}
           </div>
         </div>
       </div>
+      {totalMonthlyIncome > 0 && (
+        <div className="grid grid-cols-3 gap-6 mt-6">
+          <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg text-center">
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Monthly Income</p>
+            <p className="text-2xl font-bold text-slate-800 dark:text-slate-100 mt-1">{formatCurrency(totalMonthlyIncome)}</p>
+          </div>
+          <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg text-center">
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Net Cash Flow</p>
+            <p className={`text-2xl font-bold mt-1 ${netCashFlow >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {formatCurrency(netCashFlow)}
+            </p>
+          </div>
+          <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg text-center">
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Savings Rate</p>
+            <p className="text-2xl font-bold text-slate-800 dark:text-slate-100 mt-1">{Math.round((netCashFlow / totalMonthlyIncome) * 100)}%</p>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '../utils/api';
+import { buildTaxSummaryCsv, TaxSummary } from '../utils/taxSummary';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+
+// Years offered in the picker, counting back from the current one
+const YEARS_SHOWN = 6;
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+
+const downloadCsv = (csv: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const sectionClassName = "bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg print:shadow-none print:p-0 space-y-3";
+const tableClassName = "w-full text-sm text-right";
+const headClassName = "text-xs text-slate-500 dark:text-slate-400 uppercase";
+const rowClassName = "border-t border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300";
+
+export const TaxSummaryReport: React.FC = () => {
+  const currentYear = new Date().getFullYear();
+  // Taxes are usually done for the year that just ended
+  const [year, setYear] = useState(currentYear - 1);
+  const [summary, setSummary] = useState<TaxSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    apiClient.getTaxSummary(year)
+      .then(setSummary)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the tax summary'))
+      .finally(() => setLoading(false));
+  }, [year]);
+
+  return (
+    <div className="space-y-6">
+      <div className={`${sectionClassName} flex flex-wrap items-center justify-between gap-4`}>
+        <h2 className="text-2xl font-bold text-slate-700 dark:text-slate-300">Tax Summary {year}</h2>
+        <div className="flex items-center gap-3 print:hidden">
+          <select
+            value={year}
+            onChange={e => setYear(Number(e.target.value))}
+            className="px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-sm"
+          >
+            {Array.from({ length: YEARS_SHOWN }, (_, i) => currentYear - i).map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <button
+            type="button"
+            disabled={!summary}
+            onClick={() => summary && downloadCsv(buildTaxSummaryCsv(summary), `tax-summary-${summary.year}.csv`)}
+            className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Download CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="px-3 py-2 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+      {error && <ErrorMessage message={error} />}
+
+      {!loading && summary && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              ['Mortgage interest', summary.totals.mortgageInterestCents],
+              ['Property tax', summary.totals.propertyTaxCents],
+              ['Mortgage insurance', summary.totals.mortgageInsuranceCents],
+              ['Financing interest', summary.totals.financedInterestCents],
+            ].map(([label, cents]) => (
+              <div key={label} className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-lg print:shadow-none print:border print:border-slate-300">
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">{label}</p>
+                <p className="text-xl font-bold text-slate-800 dark:text-slate-100 mt-1">{formatCurrency(cents as number)}</p>
+              </div>
+            ))}
+          </div>
+
+          <section className={sectionClassName}>
+            <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">Mortgages</h3>
+            {summary.mortgages.length > 0 ? (
+              <table className={tableClassName}>
+                <thead className={headClassName}>
+                  <tr>
+                    <th className="py-2 text-left">Loan</th>
+                    <th className="py-2">Payments</th>
+                    <th className="py-2">Interest</th>
+                    <th className="py-2">Principal</th>
+                    <th className="py-2">Escrow</th>
+                    <th className="py-2">Property tax</th>
+                    <th className="py-2">Mortgage ins.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.mortgages.map(m => (
+                    <tr key={m.mortgageId} className={rowClassName}>
+                      <td className="py-2 text-left">{m.name}{m.lender ? ` (${m.lender})` : ''}</td>
+                      <td className="py-2">{m.paymentCount}</td>
+                      <td className="py-2">{formatCurrency(m.interestCents)}</td>
+                      <td className="py-2">{formatCurrency(m.principalCents)}</td>
+                      <td className="py-2">{formatCurrency(m.escrowCents)}</td>
+                      <td className="py-2">{formatCurrency(m.escrowDisbursementCents.taxes)}</td>
+                      <td className="py-2">{formatCurrency(m.escrowDisbursementCents.mip)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No mortgage payments in {summary.year}.</p>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">Property tax and mortgage insurance are what the lender paid from escrow, as recorded on the mortgage's escrow account.</p>
+          </section>
+
+          {summary.financedExpenses.length > 0 && (
+            <section className={sectionClassName}>
+              <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">Financed Expenses</h3>
+              <table className={tableClassName}>
+                <thead className={headClassName}>
+                  <tr>
+                    <th className="py-2 text-left">Expense</th>
+                    <th className="py-2 text-left">Category</th>
+                    <th className="py-2">Payments</th>
+                    <th className="py-2">Interest</th>
+                    <th className="py-2">Principal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.financedExpenses.map(fe => (
+                    <tr key={fe.financedExpenseId} className={rowClassName}>
+                      <td className="py-2 text-left">{fe.title}</td>
+                      <td className="py-2 text-left">{fe.categoryName}</td>
+                      <td className="py-2">{fe.paymentCount}</td>
+                      <td className="py-2">{formatCurrency(fe.interestCents)}</td>
+                      <td className="py-2">{formatCurrency(fe.principalCents)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          <section className={sectionClassName}>
+            <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">By Member</h3>
+            <table className={tableClassName}>
+              <thead className={headClassName}>
+                <tr>
+                  <th className="py-2 text-left">Member</th>
+                  <th className="py-2">Mortgage interest</th>
+                  <th className="py-2">Property tax</th>
+                  <th className="py-2">Mortgage ins.</th>
+                  <th className="py-2">Financing interest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.members.map(member => (
+                  <tr key={member.memberId} className={rowClassName}>
+                    <td className="py-2 text-left">{member.memberName}</td>
+                    <td className="py-2">{formatCurrency(member.mortgageInterestCents)}</td>
+                    <td className="py-2">{formatCurrency(member.propertyTaxCents)}</td>
+                    <td className="py-2">{formatCurrency(member.mortgageInsuranceCents)}</td>
+                    <td className="py-2">{formatCurrency(member.financedInterestCents)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Shares follow each loan's splits.</p>
+          </section>
+
+          <section className={sectionClassName}>
+            <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">Bills by Category</h3>
+            {summary.billCategories.length > 0 ? (
+              <table className={tableClassName}>
+                <thead className={headClassName}>
+                  <tr>
+                    <th className="py-2 text-left">Category</th>
+                    <th className="py-2">Payments</th>
+                    <th className="py-2">Paid</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.billCategories.map(category => (
+                    <tr key={category.categoryId} className={rowClassName}>
+                      <td className="py-2 text-left">{category.categoryName}</td>
+                      <td className="py-2">{category.paymentCount}</td>
+                      <td className="py-2">{formatCurrency(category.paidCents)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No bill payments in {summary.year}.</p>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
-import React from 'react'
-import { useToast, Toast } from '../hooks/useToast'
+import React, { ReactNode } from 'react'
+import { useToast, useToastProvider, ToastContext, Toast } from '../hooks/useToast'
 
 const ToastItem: React.FC<{ toast: Toast; onClose: (id: string) => void }> = ({ toast, onClose }) => {
   const iconMap = {
@@ -27,6 +27,17 @@ const ToastItem: React.FC<{ toast: Toast; onClose: (id: string) => void }> = ({
           {toast.message && (
             <p className="mt-1 text-sm opacity-90">{toast.message}</p>
           )}
+          {toast.action && (
+            <button
+              className="mt-2 text-sm font-semibold underline hover:opacity-80"
+              onClick={() => {
+                toast.action!.onClick()
+                onClose(toast.id)
+              }}
+            >
+              {toast.action.label}
+            </button>
+          )}
         </div>
         <div className="ml-4 flex-shrink-0">
           <button
@@ -65,4 +76,15 @@ export const ToastContainer: React.FC = () => {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const toastState = useToastProvider()
+
+  return (
+    <ToastContext.Provider value={toastState}>
+      {children}
+      <ToastContainer />
+    </ToastContext.Provider>
+  )
+}
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { apiClient, ApiTrashItem, ApiTrashItemKind } from '../utils/api';
+
+interface TrashManagerProps {
+  onRestored: (kind: ApiTrashItemKind) => Promise<unknown>;
+}
+
+const KIND_LABELS: Record<ApiTrashItemKind, string> = {
+  'payment': 'Payment',
+  'mortgage-payment': 'Mortgage payment',
+  'bill': 'Bill',
+  'recurring-bill': 'Recurring bill',
+  'mortgage': 'Mortgage',
+  'financed-expense': 'Financed expense',
+  'member': 'Member',
+};
+
+// Deleted items wait here until they are restored or deleted for good
+export const TrashManager: React.FC<TrashManagerProps> = ({ onRestored }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [items, setItems] = useState<ApiTrashItem[]>([]);
+  const [error, setError] = useState('');
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  // Read the trash each time it is opened, since deletes elsewhere add to it
+  const handleToggle = () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    runAction(async () => setItems(await apiClient.getTrash()));
+  };
+
+  const removeItem = (item: ApiTrashItem) =>
+    setItems(current => current.filter(i => i.kind !== item.kind || i.id !== item.id));
+
+  const handleRestore = (item: ApiTrashItem) => runAction(async () => {
+    await apiClient.restoreTrashItem(item.kind, item.id);
+    removeItem(item);
+    await onRestored(item.kind);
+  });
+
+  const handlePurge = (item: ApiTrashItem) => {
+    if (!window.confirm(`Delete ${item.name} forever? This cannot be undone.`)) return;
+    runAction(async () => {
+      await apiClient.purgeTrashItem(item.kind, item.id);
+      removeItem(item);
+    });
+  };
+
+  const handleEmpty = () => {
+    if (!window.confirm(`Delete all ${items.length} items in the trash forever? This cannot be undone.`)) return;
+    runAction(async () => {
+      await apiClient.emptyTrash();
+      setItems([]);
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-700 dark:text-slate-300">Trash</h2>
+        <button type="button" onClick={handleToggle} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">
+          {isOpen ? 'Hide' : 'Show trash'}
+        </button>
+      </div>
+      {isOpen && (
+        <>
+          {items.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">The trash is empty.</p>
+          ) : (
+            <ul className="space-y-2">
+              {items.map(item => (
+                <li key={`${item.kind}-${item.id}`} className="flex items-center justify-between gap-2 text-sm">
+                  <div>
+                    <p className="text-slate-700 dark:text-slate-200">{item.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {KIND_LABELS[item.kind]} · deleted {new Date(item.deletedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-3 whitespace-nowrap">
+                    <button type="button" onClick={() => handleRestore(item)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">Restore</button>
+                    <button type="button" onClick={() => handlePurge(item)} className="text-sm font-semibold text-red-500 hover:text-red-700">Delete forever</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {items.length > 0 && (
+            <button type="button" onClick={handleEmpty} className="px-3 py-2 bg-red-600 text-white rounded-lg text-sm font-semibold hover:bg-red-700 transition-colors">
+              Empty trash
+            </button>
+          )}
+        </>
+      )}
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
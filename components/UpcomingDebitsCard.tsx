@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient, ApiUpcomingDebits } from '../utils/api';
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Autopay debits due in the next 30 days, by the account they come out of
+export const UpcomingDebitsCard: React.FC = () => {
+  const [upcoming, setUpcoming] = useState<ApiUpcomingDebits | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient.getUpcomingDebits()
+      .then(setUpcoming)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load upcoming debits'));
+  }, []);
+
+  if (!upcoming && !error) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg space-y-4">
+      <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">Upcoming Autopay Debits</h3>
+      {upcoming && upcoming.accounts.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Nothing set to autopay before {formatDate(upcoming.through)}.</p>
+      )}
+      {upcoming?.accounts.map(account => (
+        <div key={account.accountId} className="space-y-1 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-slate-800 dark:text-slate-100">
+              {account.accountName}
+              {account.closed && <span className="ml-2 text-xs text-red-500">Closed, autopay skipped</span>}
+            </span>
+            <span className="font-semibold text-slate-700 dark:text-slate-200">{formatCurrency(account.totalCents)}</span>
+          </div>
+          {account.balanceCents !== null && (
+            <p className={`text-xs ${account.shortfallCents ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+              Balance {formatCurrency(account.balanceCents)} on {formatDate(account.balanceDate!)}
+              {account.shortfallCents ? ` · ${formatCurrency(account.shortfallCents)} short` : ''}
+            </p>
+          )}
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {account.debits.map(debit => (
+              <li key={`${debit.itemId}-${debit.dueDate}`} className="flex justify-between py-1 text-slate-600 dark:text-slate-400">
+                <span>{formatDate(debit.dueDate)} · {debit.itemName}</span>
+                <span>{formatCurrency(debit.amountCents)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,517 @@
+import { PoolClient } from 'pg'
+
+// Household backups.
+// An archive holds every row a household owns, table by table, with the column names used in
+// the database. Rows keep their ids so a restore can tell which ones already exist. Logins,
+// sessions and invites are not part of a backup; members come back without a login attached.
+
+export const BACKUP_FORMAT = 'family-growth-tracker-backup'
+// Bump when a change to BACKUP_TABLES means older code could not restore the archive
+export const BACKUP_VERSION = 14
+
+interface BackupTable {
+  // Section name in the archive
+  key: string
+  table: string
+  columns: string[]
+  // Column that identifies a row; conflicts are reported by its value
+  idColumn?: string
+  // Tables without a parent carry household_id themselves
+  parent?: { column: string; key: string }
+  // Other columns pointing at household data, checked after the rows are written
+  references?: { column: string; key: string }[]
+  // Rows with no household (the built-in categories) are usable by every household but never exported
+  hasSharedRows?: boolean
+}
+
+// Parents come before the tables that point at them, which is also the order rows are restored in
+const BACKUP_TABLES: BackupTable[] = [
+  {
+    key: 'members',
+    table: 'members',
+    columns: ['id', 'name', 'color', 'deleted_at', 'created_at', 'updated_at']
+  },
+  {
+    key: 'financialAccounts',
+    table: 'financial_accounts',
+    columns: ['id', 'name', 'kind', 'institution', 'member_id', 'closed', 'created_at', 'updated_at'],
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'financialAccountBalances',
+    table: 'financial_account_balances',
+    columns: ['id', 'financial_account_id', 'balance_cents', 'as_of_date', 'created_at'],
+    parent: { column: 'financial_account_id', key: 'financialAccounts' }
+  },
+  {
+    key: 'categories',
+    table: 'expense_categories',
+    columns: ['id', 'name', 'icon', 'color', 'created_at', 'updated_at'],
+    hasSharedRows: true
+  },
+  {
+    key: 'recurringBills',
+    table: 'recurring_bills',
+    columns: [
+      'id', 'name', 'amount_cents', 'day_of_month', 'frequency', 'recurrence_rule', 'last_generated_period', 'split_mode',
+      'autopay_account_id', 'paused_from', 'paused_until', 'end_date', 'skipped_periods', 'archived_at', 'amount_mode', 'estimate_method',
+      'deleted_at', 'created_at', 'updated_at'
+    ],
+    references: [{ column: 'autopay_account_id', key: 'financialAccounts' }]
+  },
+  {
+    key: 'recurringBillSplits',
+    table: 'recurring_bill_splits',
+    columns: ['id', 'recurring_bill_id', 'member_id', 'value', 'created_at'],
+    parent: { column: 'recurring_bill_id', key: 'recurringBills' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'bills',
+    table: 'bills',
+    columns: [
+      'id', 'name', 'amount_cents', 'due_date', 'recurring_bill_id', 'period', 'split_mode', 'category_id', 'autopay_account_id',
+      'is_estimated', 'deleted_at', 'created_at', 'updated_at'
+    ],
+    references: [
+      { column: 'recurring_bill_id', key: 'recurringBills' },
+      { column: 'category_id', key: 'categories' },
+      { column: 'autopay_account_id', key: 'financialAccounts' }
+    ]
+  },
+  {
+    key: 'billSplits',
+    table: 'bill_splits',
+    columns: ['id', 'bill_id', 'member_id', 'value', 'created_at'],
+    parent: { column: 'bill_id', key: 'bills' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'payments',
+    table: 'payments',
+    columns: [
+      'id', 'bill_id', 'paid_date', 'amount_cents', 'method', 'account_id', 'payer_member_id', 'note', 'receipt_filename',
+      'receipt_data', 'deleted_at', 'created_at'
+    ],
+    parent: { column: 'bill_id', key: 'bills' },
+    references: [
+      { column: 'payer_member_id', key: 'members' },
+      { column: 'account_id', key: 'financialAccounts' }
+    ]
+  },
+  {
+    key: 'paymentAllocations',
+    table: 'payment_allocations',
+    columns: ['id', 'payment_id', 'member_id', 'amount_cents', 'created_at'],
+    parent: { column: 'payment_id', key: 'payments' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'mortgages',
+    table: 'mortgages',
+    columns: [
+      'id', 'name', 'lender', 'is_primary', 'original_principal_cents', 'current_principal_cents', 'interest_rate_apy',
+      'term_months', 'start_date', 'scheduled_payment_cents', 'payment_day', 'escrow_enabled', 'escrow_taxes_cents',
+      'escrow_insurance_cents', 'escrow_mip_cents', 'escrow_hoa_cents', 'escrow_opening_balance_cents', 'notes', 'active', 'split_mode',
+      'autopay_account_id', 'deleted_at', 'created_at', 'updated_at'
+    ],
+    references: [{ column: 'autopay_account_id', key: 'financialAccounts' }]
+  },
+  {
+    key: 'mortgageSplits',
+    table: 'mortgage_splits',
+    columns: ['id', 'mortgage_id', 'member_id', 'value', 'created_at'],
+    parent: { column: 'mortgage_id', key: 'mortgages' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'mortgagePayments',
+    table: 'mortgage_payments',
+    columns: [
+      'id', 'mortgage_id', 'paid_date', 'amount_cents', 'method', 'account_id', 'payer_member_id', 'note', 'receipt_filename',
+      'receipt_data', 'created_at', 'deleted_at'
+    ],
+    parent: { column: 'mortgage_id', key: 'mortgages' },
+    references: [
+      { column: 'payer_member_id', key: 'members' },
+      { column: 'account_id', key: 'financialAccounts' }
+    ]
+  },
+  {
+    key: 'mortgagePaymentAllocations',
+    table: 'mortgage_payment_allocations',
+    columns: ['id', 'payment_id', 'member_id', 'amount_cents', 'created_at'],
+    parent: { column: 'payment_id', key: 'mortgagePayments' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'mortgagePaymentBreakdowns',
+    table: 'mortgage_payment_breakdowns',
+    columns: ['id', 'payment_id', 'mortgage_id', 'principal_cents', 'interest_cents', 'escrow_cents', 'created_at'],
+    parent: { column: 'payment_id', key: 'mortgagePayments' },
+    references: [{ column: 'mortgage_id', key: 'mortgages' }]
+  },
+  {
+    key: 'mortgageRateEvents',
+    table: 'mortgage_rate_events',
+    columns: [
+      'id', 'mortgage_id', 'kind', 'effective_date', 'interest_rate_apy', 'term_months', 'principal_cents',
+      'closing_costs_cents', 'scheduled_payment_cents', 'note', 'created_at'
+    ],
+    parent: { column: 'mortgage_id', key: 'mortgages' }
+  },
+  {
+    key: 'escrowDisbursements',
+    table: 'escrow_disbursements',
+    columns: ['id', 'mortgage_id', 'category', 'amount_cents', 'disbursed_date', 'note', 'created_at'],
+    parent: { column: 'mortgage_id', key: 'mortgages' }
+  },
+  {
+    key: 'escrowAdjustments',
+    table: 'escrow_adjustments',
+    columns: [
+      'id', 'mortgage_id', 'effective_date', 'escrow_taxes_cents', 'escrow_insurance_cents', 'escrow_mip_cents',
+      'escrow_hoa_cents', 'scheduled_payment_cents', 'previous_escrow_cents', 'previous_scheduled_payment_cents',
+      'shortage_cents', 'surplus_cents', 'note', 'created_at'
+    ],
+    parent: { column: 'mortgage_id', key: 'mortgages' }
+  },
+  {
+    key: 'financedExpenses',
+    table: 'financed_expenses',
+    columns: [
+      'id', 'title', 'description', 'total_amount_cents', 'monthly_payment_cents', 'interest_rate_percent',
+      'financing_term_months', 'purchase_date', 'first_payment_date', 'is_active', 'split_mode', 'category_id',
+      'autopay_account_id', 'deleted_at', 'created_at', 'updated_at'
+    ],
+    references: [
+      { column: 'category_id', key: 'categories' },
+      { column: 'autopay_account_id', key: 'financialAccounts' }
+    ]
+  },
+  {
+    key: 'financedExpenseSplits',
+    table: 'financed_expense_splits',
+    columns: ['id', 'financed_expense_id', 'member_id', 'value', 'created_at'],
+    parent: { column: 'financed_expense_id', key: 'financedExpenses' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'financedExpensePayments',
+    table: 'financed_expense_payments',
+    columns: [
+      'id', 'financed_expense_id', 'payment_number', 'due_date', 'amount_cents', 'principal_cents', 'interest_cents',
+      'is_paid', 'paid_date', 'bill_id', 'payer_member_id', 'account_id', 'created_at'
+    ],
+    parent: { column: 'financed_expense_id', key: 'financedExpenses' },
+    references: [
+      { column: 'bill_id', key: 'bills' },
+      { column: 'payer_member_id', key: 'members' },
+      { column: 'account_id', key: 'financialAccounts' }
+    ]
+  },
+  {
+    key: 'settlements',
+    table: 'settlements',
+    columns: ['id', 'from_member_id', 'to_member_id', 'amount_cents', 'settled_date', 'note', 'created_at'],
+    references: [
+      { column: 'from_member_id', key: 'members' },
+      { column: 'to_member_id', key: 'members' }
+    ]
+  },
+  {
+    key: 'budgets',
+    table: 'budgets',
+    columns: ['id', 'category_id', 'member_id', 'amount_cents', 'rollover', 'start_month', 'created_at', 'updated_at'],
+    references: [
+      { column: 'category_id', key: 'categories' },
+      { column: 'member_id', key: 'members' }
+    ]
+  },
+  {
+    key: 'budgetMonthAmounts',
+    table: 'budget_month_amounts',
+    columns: ['id', 'budget_id', 'month', 'amount_cents', 'created_at'],
+    parent: { column: 'budget_id', key: 'budgets' }
+  },
+  {
+    key: 'incomeSources',
+    table: 'income_sources',
+    columns: ['id', 'member_id', 'name', 'kind', 'amount_cents', 'frequency', 'active', 'created_at', 'updated_at'],
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'incomeDeposits',
+    table: 'income_deposits',
+    columns: ['id', 'income_source_id', 'member_id', 'amount_cents', 'deposited_date', 'note', 'created_at'],
+    references: [
+      { column: 'income_source_id', key: 'incomeSources' },
+      { column: 'member_id', key: 'members' }
+    ]
+  },
+  {
+    key: 'savingsGoals',
+    table: 'savings_goals',
+    columns: ['id', 'name', 'target_cents', 'target_date', 'split_mode', 'created_at', 'updated_at']
+  },
+  {
+    key: 'savingsGoalSplits',
+    table: 'savings_goal_splits',
+    columns: ['id', 'savings_goal_id', 'member_id', 'value', 'created_at'],
+    parent: { column: 'savings_goal_id', key: 'savingsGoals' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'savingsContributions',
+    table: 'savings_contributions',
+    columns: ['id', 'savings_goal_id', 'member_id', 'amount_cents', 'contributed_date', 'method', 'note', 'created_at'],
+    parent: { column: 'savings_goal_id', key: 'savingsGoals' },
+    references: [{ column: 'member_id', key: 'members' }]
+  },
+  {
+    key: 'settings',
+    table: 'settings',
+    columns: ['key', 'value', 'created_at', 'updated_at'],
+    // Setting keys are only unique within a household
+    idColumn: 'key'
+  },
+  {
+    key: 'bankProfiles',
+    table: 'bank_profiles',
+    columns: [
+      'id', 'name', 'date_column', 'description_column', 'amount_column', 'debit_column', 'credit_column',
+      'date_format', 'negate_amounts', 'payment_method', 'created_at', 'updated_at'
+    ]
+  },
+  {
+    key: 'bankTransactions',
+    table: 'bank_transactions',
+    columns: [
+      'id', 'profile_id', 'fingerprint', 'posted_date', 'description', 'amount_cents', 'external_id', 'bill_id', 'payment_id',
+      'mortgage_payment_id', 'financed_expense_payment_id', 'created_at'
+    ],
+    references: [
+      { column: 'profile_id', key: 'bankProfiles' },
+      { column: 'bill_id', key: 'bills' },
+      { column: 'payment_id', key: 'payments' },
+      { column: 'mortgage_payment_id', key: 'mortgagePayments' },
+      { column: 'financed_expense_payment_id', key: 'financedExpensePayments' }
+    ]
+  }
+]
+
+const TABLES_BY_KEY = new Map(BACKUP_TABLES.map(spec => [spec.key, spec]))
+
+type BackupRow = Record<string, unknown>
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: string
+  household: { name: string }
+  data: Record<string, BackupRow[]>
+}
+
+export interface BackupConflict {
+  section: string
+  id: string
+  // 'household' when the row already exists here, 'other-household' when another household owns that id
+  existsIn: 'household' | 'other-household'
+}
+
+export interface BackupImportReport {
+  dryRun: boolean
+  conflicts: BackupConflict[]
+  sections: Record<string, { total: number; imported: number; skipped: number }>
+}
+
+export type BackupConflictMode = 'abort' | 'skip'
+
+// Raised for archives that cannot be restored into the household; the message is safe to show
+export class BackupImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupImportError'
+  }
+}
+
+function idColumnOf(spec: BackupTable) {
+  return spec.idColumn ?? 'id'
+}
+
+// SQL condition (on the unaliased table) matching the rows owned by household $1
+function ownershipCondition(spec: BackupTable, includeShared = false): string {
+  if (!spec.parent) {
+    return includeShared && spec.hasSharedRows
+      ? '(household_id = $1 OR household_id IS NULL)'
+      : 'household_id = $1'
+  }
+  const parent = TABLES_BY_KEY.get(spec.parent.key)!
+  return `${spec.parent.column} IN (SELECT id FROM ${parent.table} WHERE ${ownershipCondition(parent)})`
+}
+
+export async function exportHousehold(client: PoolClient, householdId: string): Promise<BackupArchive> {
+  const household = await client.query('SELECT name FROM households WHERE id = $1', [householdId])
+  const data: Record<string, BackupRow[]> = {}
+
+  for (const spec of BACKUP_TABLES) {
+    // row_to_json keeps DATE columns as plain YYYY-MM-DD strings instead of local-time Date objects
+    const result = await client.query(`
+      SELECT row_to_json(r) AS row FROM (
+        SELECT ${spec.columns.join(', ')}
+        FROM ${spec.table}
+        WHERE ${ownershipCondition(spec)}
+        ORDER BY created_at ASC, ${idColumnOf(spec)} ASC
+      ) r
+    `, [householdId])
+    data[spec.key] = result.rows.map(row => row.row)
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    household: { name: household.rows[0]?.name ?? '' },
+    data
+  }
+}
+
+// Returns why the value is not a restorable archive, or null when it is
+export function getBackupArchiveError(archive: Partial<BackupArchive> | null | undefined): string | null {
+  if (!archive || typeof archive !== 'object' || archive.format !== BACKUP_FORMAT) {
+    return 'File is not a household backup'
+  }
+  if (!Number.isInteger(archive.version) || archive.version < 1 || archive.version > BACKUP_VERSION) {
+    return `Backup version ${archive.version} is not supported (expected 1 to ${BACKUP_VERSION})`
+  }
+  if (!archive.data || typeof archive.data !== 'object' || Array.isArray(archive.data)) {
+    return 'Backup has no data'
+  }
+
+  for (const [key, rows] of Object.entries(archive.data)) {
+    const spec = TABLES_BY_KEY.get(key)
+    if (!spec) {
+      return `Unknown backup section "${key}"`
+    }
+    if (!Array.isArray(rows)) {
+      return `Backup section "${key}" must be a list`
+    }
+    const idColumn = idColumnOf(spec)
+    const invalidIndex = rows.findIndex(row =>
+      !row || typeof row !== 'object' || typeof row[idColumn] !== 'string' || !row[idColumn]
+    )
+    if (invalidIndex !== -1) {
+      return `Row ${invalidIndex + 1} of "${key}" has no ${idColumn}`
+    }
+  }
+
+  return null
+}
+
+async function findConflicts(client: PoolClient, householdId: string, spec: BackupTable, rows: BackupRow[]): Promise<BackupConflict[]> {
+  if (rows.length === 0) return []
+
+  const idColumn = idColumnOf(spec)
+  const ids = rows.map(row => row[idColumn] as string)
+  const result = await client.query(`
+    SELECT ${idColumn} AS id, (${ownershipCondition(spec)}) AS "inHousehold"
+    FROM ${spec.table}
+    WHERE ${idColumn} = ANY($2)${spec.idColumn ? ' AND household_id = $1' : ''}
+  `, [householdId, ids])
+
+  return result.rows.map(row => ({
+    section: spec.key,
+    id: row.id,
+    existsIn: row.inHousehold ? 'household' : 'other-household'
+  }))
+}
+
+// Fails when a restored row points at a row another household owns. Missing rows are left to the
+// foreign keys, since some references (a bill's recurring_bill_id) may outlive what they point at
+async function checkReferences(client: PoolClient, householdId: string, spec: BackupTable, ids: string[]) {
+  const references = [...(spec.parent ? [spec.parent] : []), ...(spec.references ?? [])]
+
+  for (const reference of references) {
+    const target = TABLES_BY_KEY.get(reference.key)!
+    const result = await client.query(`
+      SELECT ${idColumnOf(spec)} AS id, ${reference.column} AS "referencedId"
+      FROM ${spec.table}
+      WHERE ${idColumnOf(spec)} = ANY($2)
+        AND ${reference.column} IN (SELECT id FROM ${target.table})
+        AND ${reference.column} NOT IN (SELECT id FROM ${target.table} WHERE ${ownershipCondition(target, true)})
+      LIMIT 1
+    `, [householdId, ids])
+
+    if (result.rows.length > 0) {
+      const { id, referencedId } = result.rows[0]
+      throw new BackupImportError(`${spec.key} ${id} refers to ${reference.key} ${referencedId}, which is not part of this household`)
+    }
+  }
+}
+
+/**
+ * Restores an archive into a household using the caller's transaction; the caller commits,
+ * or rolls back for a dry run. Rows whose id already exists are conflicts: with 'abort'
+ * nothing is written when there are any, with 'skip' those rows and everything beneath
+ * them (splits, payments, allocations, ...) are left as they are in the database.
+ */
+export async function importHousehold(
+  client: PoolClient,
+  householdId: string,
+  archive: BackupArchive,
+  { dryRun = false, onConflict = 'abort' }: { dryRun?: boolean; onConflict?: BackupConflictMode } = {}
+): Promise<BackupImportReport> {
+  const conflicts: BackupConflict[] = []
+  for (const spec of BACKUP_TABLES) {
+    conflicts.push(...await findConflicts(client, householdId, spec, archive.data[spec.key] ?? []))
+  }
+
+  const report: BackupImportReport = { dryRun, conflicts, sections: {} }
+  for (const spec of BACKUP_TABLES) {
+    report.sections[spec.key] = { total: (archive.data[spec.key] ?? []).length, imported: 0, skipped: 0 }
+  }
+  if (conflicts.length > 0 && onConflict === 'abort') {
+    return report
+  }
+
+  const skippedIds = new Map<string, Set<string>>()
+  for (const spec of BACKUP_TABLES) {
+    const idColumn = idColumnOf(spec)
+    const conflicting = new Set(conflicts.filter(c => c.section === spec.key).map(c => c.id))
+    const skippedParents = spec.parent ? skippedIds.get(spec.parent.key)! : new Set<string>()
+    const rows = archive.data[spec.key] ?? []
+
+    const skipped = new Set<string>()
+    const toInsert: BackupRow[] = []
+    for (const row of rows) {
+      if (conflicting.has(row[idColumn] as string) || (spec.parent && skippedParents.has(row[spec.parent.column] as string))) {
+        skipped.add(row[idColumn] as string)
+      } else {
+        toInsert.push(row)
+      }
+    }
+    skippedIds.set(spec.key, skipped)
+    report.sections[spec.key].skipped = skipped.size
+    if (toInsert.length === 0) continue
+
+    // Only columns present in the archive are written, so columns added after it was made get their defaults
+    const columns = spec.columns.filter(column => toInsert.some(row => column in row))
+    const rowsJson = JSON.stringify(toInsert)
+    if (spec.parent) {
+      await client.query(`
+        INSERT INTO ${spec.table} (${columns.join(', ')})
+        SELECT ${columns.join(', ')} FROM json_populate_recordset(NULL::${spec.table}, $1::json)
+      `, [rowsJson])
+    } else {
+      await client.query(`
+        INSERT INTO ${spec.table} (${columns.join(', ')}, household_id)
+        SELECT ${columns.join(', ')}, $2 FROM json_populate_recordset(NULL::${spec.table}, $1::json)
+      `, [rowsJson, householdId])
+    }
+
+    await checkReferences(client, householdId, spec, toInsert.map(row => row[idColumn] as string))
+    report.sections[spec.key].imported = toInsert.length
+  }
+
+  return report
+}
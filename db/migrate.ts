@@ -0,0 +1,194 @@
+import { readFileSync, readdirSync } from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { createHash } from 'crypto'
+import { PoolClient } from 'pg'
+
+// Versioned schema migrations.
+// Each migration is a pair of files in db/migrations named NNN_description.up.sql and
+// NNN_description.down.sql. Applied versions are recorded in schema_migrations, and every
+// migration runs in its own transaction together with its bookkeeping row.
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations')
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/
+
+// Arbitrary key for pg_advisory_lock so two processes never migrate at the same time
+const MIGRATION_LOCK_KEY = 727311
+
+export interface Migration {
+  version: number
+  name: string
+  upSql: string
+  downSql?: string
+  checksum: string
+}
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  appliedAt: Date | null
+  // True when the up file changed after the migration was applied
+  modified: boolean
+}
+
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const migrations = new Map<number, Partial<Migration>>()
+
+  for (const file of readdirSync(dir)) {
+    const match = MIGRATION_FILE_PATTERN.exec(file)
+    if (!match) continue
+
+    const version = parseInt(match[1])
+    const name = match[2]
+    const existing = migrations.get(version) ?? { version, name }
+    if (existing.name !== name) {
+      throw new Error(`Migration ${match[1]} has conflicting names: ${existing.name} and ${name}`)
+    }
+
+    const sql = readFileSync(path.join(dir, file), 'utf8')
+    if (match[3] === 'up') {
+      existing.upSql = sql
+      existing.checksum = createHash('sha256').update(sql).digest('hex')
+    } else {
+      existing.downSql = sql
+    }
+    migrations.set(version, existing)
+  }
+
+  return [...migrations.values()]
+    .map(migration => {
+      if (!migration.upSql) {
+        throw new Error(`Migration ${migration.version}_${migration.name} has no .up.sql file`)
+      }
+      return migration as Migration
+    })
+    .sort((a, b) => a.version - b.version)
+}
+
+async function ensureMigrationsTable(client: PoolClient) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `)
+}
+
+async function fetchAppliedMigrations(client: PoolClient) {
+  const result = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC')
+  return new Map<number, { name: string; checksum: string; applied_at: Date }>(
+    result.rows.map(row => [row.version, row])
+  )
+}
+
+async function withMigrationLock<T>(client: PoolClient, run: () => Promise<T>): Promise<T> {
+  await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY])
+  try {
+    await ensureMigrationsTable(client)
+    return await run()
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY])
+  }
+}
+
+function formatMigration(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`
+}
+
+export async function getMigrationStatus(client: PoolClient, migrations = loadMigrations()): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(client)
+  const applied = await fetchAppliedMigrations(client)
+
+  return migrations.map(migration => {
+    const row = applied.get(migration.version)
+    return {
+      version: migration.version,
+      name: migration.name,
+      appliedAt: row ? row.applied_at : null,
+      modified: !!row && row.checksum !== migration.checksum
+    }
+  })
+}
+
+/**
+ * Applies every pending migration in version order and returns the ones applied.
+ * Stops at the first failure; that migration is rolled back and earlier ones stay applied.
+ */
+export async function migrateUp(client: PoolClient, migrations = loadMigrations()): Promise<Migration[]> {
+  return withMigrationLock(client, async () => {
+    const applied = await fetchAppliedMigrations(client)
+    const newlyApplied: Migration[] = []
+
+    for (const migration of migrations) {
+      if (applied.has(migration.version)) continue
+
+      try {
+        await client.query('BEGIN')
+        await client.query(migration.upSql)
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        )
+        await client.query('COMMIT')
+      } catch (error) {
+        await client.query('ROLLBACK')
+        throw new Error(`Migration ${formatMigration(migration)} failed: ${error instanceof Error ? error.message : error}`)
+      }
+
+      console.log(`⬆️  Applied ${formatMigration(migration)}`)
+      newlyApplied.push(migration)
+    }
+
+    return newlyApplied
+  })
+}
+
+/**
+ * Reverts the most recently applied migrations (one by default) and returns the ones reverted.
+ */
+export async function migrateDown(client: PoolClient, steps = 1, migrations = loadMigrations()): Promise<Migration[]> {
+  return withMigrationLock(client, async () => {
+    const applied = await fetchAppliedMigrations(client)
+    const byVersion = new Map(migrations.map(migration => [migration.version, migration]))
+    const toRevert = [...applied.keys()].sort((a, b) => b - a).slice(0, steps)
+    const reverted: Migration[] = []
+
+    for (const version of toRevert) {
+      const migration = byVersion.get(version)
+      if (!migration) {
+        throw new Error(`Migration ${version} is applied but its files are missing`)
+      }
+      if (!migration.downSql) {
+        throw new Error(`Migration ${formatMigration(migration)} has no .down.sql file`)
+      }
+
+      try {
+        await client.query('BEGIN')
+        await client.query(migration.downSql)
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [version])
+        await client.query('COMMIT')
+      } catch (error) {
+        await client.query('ROLLBACK')
+        throw new Error(`Rollback of ${formatMigration(migration)} failed: ${error instanceof Error ? error.message : error}`)
+      }
+
+      console.log(`⬇️  Reverted ${formatMigration(migration)}`)
+      reverted.push(migration)
+    }
+
+    return reverted
+  })
+}
+
+export function printMigrationReport(statuses: MigrationStatus[]) {
+  console.log('📋 Schema migrations:')
+  for (const status of statuses) {
+    const state = status.appliedAt ? `applied ${status.appliedAt.toISOString()}` : 'pending'
+    const warning = status.modified ? ' ⚠️  file changed since it was applied' : ''
+    console.log(`   ${status.appliedAt ? '✅' : '⏳'} ${formatMigration(status)} (${state})${warning}`)
+  }
+  const pending = statuses.filter(status => !status.appliedAt).length
+  console.log(`   ${statuses.length - pending} applied, ${pending} pending`)
+}
@@ -0,0 +1,19 @@
+-- Drops every table from the initial schema (all data is lost)
+
+DROP TABLE IF EXISTS financed_expense_payments;
+DROP TABLE IF EXISTS financed_expense_splits;
+DROP TABLE IF EXISTS financed_expenses;
+DROP TABLE IF EXISTS settings;
+DROP TABLE IF EXISTS mortgage_payment_breakdowns;
+DROP TABLE IF EXISTS mortgage_payment_allocations;
+DROP TABLE IF EXISTS mortgage_payments;
+DROP TABLE IF EXISTS mortgage_splits;
+DROP TABLE IF EXISTS mortgages;
+DROP TABLE IF EXISTS recurring_bill_splits;
+DROP TABLE IF EXISTS recurring_bills;
+DROP TABLE IF EXISTS payment_allocations;
+DROP TABLE IF EXISTS payments;
+DROP TABLE IF EXISTS bill_splits;
+DROP TABLE IF EXISTS bills;
+DROP TABLE IF EXISTS expense_categories;
+DROP TABLE IF EXISTS members;
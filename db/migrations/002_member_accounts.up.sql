@@ -0,0 +1,24 @@
+-- Member logins and sessions.
+-- Idempotent because databases created by the old boot script may already have these tables.
+
+-- Member accounts table (login credentials and role for a member)
+CREATE TABLE IF NOT EXISTS member_accounts (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  member_id VARCHAR(255) NOT NULL UNIQUE REFERENCES members(id) ON DELETE CASCADE,
+  username VARCHAR(255) NOT NULL UNIQUE,
+  password_hash VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL DEFAULT 'adult' CHECK (role IN ('manager', 'adult', 'child')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Sessions table (only a hash of each session token is stored)
+CREATE TABLE IF NOT EXISTS sessions (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  account_id VARCHAR(255) NOT NULL REFERENCES member_accounts(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_account_id ON sessions(account_id);
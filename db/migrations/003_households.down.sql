@@ -0,0 +1,37 @@
+-- Collapses back to a single household. Data in households other than the default one is deleted.
+
+DROP TABLE IF EXISTS household_invites;
+
+DELETE FROM households WHERE id <> 'household-default';
+
+-- Logins go back to one member each, using the account's default-household membership
+DELETE FROM sessions;
+ALTER TABLE sessions DROP COLUMN household_id;
+
+ALTER TABLE member_accounts ADD COLUMN member_id VARCHAR(255) REFERENCES members(id) ON DELETE CASCADE;
+ALTER TABLE member_accounts ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'adult' CHECK (role IN ('manager', 'adult', 'child'));
+UPDATE member_accounts a SET member_id = m.id, role = m.role
+FROM members m WHERE m.account_id = a.id;
+DELETE FROM member_accounts WHERE member_id IS NULL;
+ALTER TABLE member_accounts ALTER COLUMN member_id SET NOT NULL;
+ALTER TABLE member_accounts ADD CONSTRAINT member_accounts_member_id_key UNIQUE (member_id);
+
+DROP INDEX IF EXISTS idx_members_household_account;
+ALTER TABLE members DROP COLUMN account_id;
+ALTER TABLE members DROP COLUMN role;
+
+ALTER TABLE settings DROP CONSTRAINT settings_pkey;
+ALTER TABLE settings ADD PRIMARY KEY (key);
+
+DROP INDEX IF EXISTS idx_expense_categories_household_name;
+ALTER TABLE expense_categories DROP COLUMN household_id;
+ALTER TABLE expense_categories ADD CONSTRAINT expense_categories_name_key UNIQUE (name);
+
+ALTER TABLE members DROP COLUMN household_id;
+ALTER TABLE bills DROP COLUMN household_id;
+ALTER TABLE recurring_bills DROP COLUMN household_id;
+ALTER TABLE mortgages DROP COLUMN household_id;
+ALTER TABLE financed_expenses DROP COLUMN household_id;
+ALTER TABLE settings DROP COLUMN household_id;
+
+DROP TABLE households;
@@ -0,0 +1,103 @@
+-- Households: members, bills, recurring bills, mortgages, financed expenses, custom categories
+-- and settings belong to a household. Existing data moves into a default household.
+-- Idempotent because databases created by the old boot script may already have these changes.
+
+CREATE TABLE IF NOT EXISTS households (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+INSERT INTO households (id, name) VALUES ('household-default', 'My Household')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE members ADD COLUMN IF NOT EXISTS household_id VARCHAR(255) REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS household_id VARCHAR(255) REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE recurring_bills ADD COLUMN IF NOT EXISTS household_id VARCHAR(255) REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE mortgages ADD COLUMN IF NOT EXISTS household_id VARCHAR(255) REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE financed_expenses ADD COLUMN IF NOT EXISTS household_id VARCHAR(255) REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS household_id VARCHAR(255) REFERENCES households(id) ON DELETE CASCADE;
+
+UPDATE members SET household_id = 'household-default' WHERE household_id IS NULL;
+UPDATE bills SET household_id = 'household-default' WHERE household_id IS NULL;
+UPDATE recurring_bills SET household_id = 'household-default' WHERE household_id IS NULL;
+UPDATE mortgages SET household_id = 'household-default' WHERE household_id IS NULL;
+UPDATE financed_expenses SET household_id = 'household-default' WHERE household_id IS NULL;
+UPDATE settings SET household_id = 'household-default' WHERE household_id IS NULL;
+
+ALTER TABLE members ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE bills ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE recurring_bills ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE mortgages ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE financed_expenses ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE settings ALTER COLUMN household_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_members_household_id ON members(household_id);
+CREATE INDEX IF NOT EXISTS idx_bills_household_id ON bills(household_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_bills_household_id ON recurring_bills(household_id);
+CREATE INDEX IF NOT EXISTS idx_mortgages_household_id ON mortgages(household_id);
+CREATE INDEX IF NOT EXISTS idx_financed_expenses_household_id ON financed_expenses(household_id);
+CREATE INDEX IF NOT EXISTS idx_settings_household_id ON settings(household_id);
+
+-- Categories without a household are the built-in defaults shared by every household
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'expense_categories' AND column_name = 'household_id'
+  ) THEN
+    ALTER TABLE expense_categories ADD COLUMN household_id VARCHAR(255) REFERENCES households(id) ON DELETE CASCADE;
+    UPDATE expense_categories SET household_id = 'household-default' WHERE is_default = FALSE;
+  END IF;
+END $$;
+ALTER TABLE expense_categories DROP CONSTRAINT IF EXISTS expense_categories_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expense_categories_household_name
+ON expense_categories (COALESCE(household_id, ''), name);
+
+-- Settings keys are unique per household rather than globally
+ALTER TABLE settings DROP CONSTRAINT IF EXISTS settings_pkey;
+ALTER TABLE settings ADD PRIMARY KEY (household_id, key);
+
+-- A member row is a person in one household; its optional account and role make it a membership
+ALTER TABLE members ADD COLUMN IF NOT EXISTS account_id VARCHAR(255) REFERENCES member_accounts(id) ON DELETE SET NULL;
+ALTER TABLE members ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'adult' CHECK (role IN ('manager', 'adult', 'child'));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_members_household_account ON members(household_id, account_id);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'member_accounts' AND column_name = 'member_id'
+  ) THEN
+    UPDATE members m SET account_id = a.id, role = a.role
+    FROM member_accounts a WHERE a.member_id = m.id;
+    ALTER TABLE member_accounts DROP COLUMN member_id;
+    ALTER TABLE member_accounts DROP COLUMN role;
+  END IF;
+END $$;
+
+-- Sessions remember which of the account's households is active
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sessions' AND column_name = 'household_id'
+  ) THEN
+    DELETE FROM sessions;
+    ALTER TABLE sessions ADD COLUMN household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Household invites table (single-use links for joining a household)
+CREATE TABLE IF NOT EXISTS household_invites (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  role VARCHAR(20) NOT NULL DEFAULT 'adult' CHECK (role IN ('manager', 'adult', 'child')),
+  created_by_account_id VARCHAR(255) REFERENCES member_accounts(id) ON DELETE SET NULL,
+  accepted_by_account_id VARCHAR(255) REFERENCES member_accounts(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,44 @@
+-- Bank statement imports: per-household column mappings for each bank's CSV export, and a
+-- record of every imported transaction so uploading an overlapping statement again is safe.
+
+CREATE TABLE bank_profiles (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  -- CSV header names; a statement has either one signed amount column or separate debit/credit columns
+  date_column VARCHAR(255) NOT NULL,
+  description_column VARCHAR(255) NOT NULL,
+  amount_column VARCHAR(255),
+  debit_column VARCHAR(255),
+  credit_column VARCHAR(255),
+  date_format VARCHAR(20) NOT NULL DEFAULT 'YYYY-MM-DD' CHECK (date_format IN ('YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY')),
+  -- Some banks show money going out as a positive amount
+  negate_amounts BOOLEAN NOT NULL DEFAULT FALSE,
+  payment_method VARCHAR(50) NOT NULL DEFAULT 'ach',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (household_id, name),
+  CHECK (amount_column IS NOT NULL OR debit_column IS NOT NULL)
+);
+
+CREATE TABLE bank_transactions (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  profile_id VARCHAR(255) REFERENCES bank_profiles(id) ON DELETE SET NULL,
+  -- Hash of date, amount, description and position among identical rows of the statement
+  fingerprint VARCHAR(64) NOT NULL,
+  posted_date DATE NOT NULL,
+  description TEXT NOT NULL,
+  -- Negative for money leaving the account
+  amount_cents INTEGER NOT NULL,
+  -- What the transaction was recorded as
+  bill_id VARCHAR(255) REFERENCES bills(id) ON DELETE SET NULL,
+  payment_id VARCHAR(255) REFERENCES payments(id) ON DELETE SET NULL,
+  mortgage_payment_id VARCHAR(255) REFERENCES mortgage_payments(id) ON DELETE SET NULL,
+  financed_expense_payment_id VARCHAR(255) REFERENCES financed_expense_payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (household_id, fingerprint)
+);
+
+CREATE INDEX idx_bank_profiles_household_id ON bank_profiles(household_id);
+CREATE INDEX idx_bank_transactions_household_id ON bank_transactions(household_id);
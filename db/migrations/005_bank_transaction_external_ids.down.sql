@@ -0,0 +1 @@
+ALTER TABLE bank_transactions DROP COLUMN IF EXISTS external_id;
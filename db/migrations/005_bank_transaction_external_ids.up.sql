@@ -0,0 +1,4 @@
+-- OFX and QFX statements identify each transaction with a FITID. Keep it on the imported row so a
+-- transaction can be traced back to the bank's record of it.
+
+ALTER TABLE bank_transactions ADD COLUMN external_id VARCHAR(255);
@@ -0,0 +1,15 @@
+-- Subscribable iCalendar feeds of upcoming due dates. Calendar apps cannot sign in, so each feed is
+-- reached by a secret token (only its hash is stored). A feed with a member only lists what that
+-- member owes a share of.
+
+CREATE TABLE calendar_feeds (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member_id VARCHAR(255) REFERENCES members(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  created_by_account_id VARCHAR(255) REFERENCES member_accounts(id) ON DELETE SET NULL,
+  last_accessed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_calendar_feeds_household_id ON calendar_feeds(household_id);
@@ -0,0 +1,16 @@
+-- Due date reminders and overdue notices that have been sent, one row per member, channel and due
+-- item occurrence, so the hourly job never sends the same notice twice.
+
+CREATE TABLE notification_log (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member_id VARCHAR(255) NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  channel VARCHAR(50) NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('reminder', 'overdue')),
+  item_key VARCHAR(255) NOT NULL,
+  due_date DATE NOT NULL,
+  sent_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (member_id, channel, kind, item_key, due_date)
+);
+
+CREATE INDEX idx_notification_log_household_id ON notification_log(household_id);
@@ -0,0 +1,2 @@
+ALTER TABLE financed_expense_payments DROP COLUMN IF EXISTS payer_member_id;
+DROP TABLE IF EXISTS settlements;
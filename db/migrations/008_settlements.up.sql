@@ -0,0 +1,18 @@
+-- Settle-up: money one member hands another to even out what they paid for shared bills, plus who
+-- paid each financed expense installment so those count towards the balances too.
+
+CREATE TABLE settlements (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  from_member_id VARCHAR(255) NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  to_member_id VARCHAR(255) NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  settled_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK (from_member_id <> to_member_id)
+);
+
+CREATE INDEX idx_settlements_household_id ON settlements(household_id);
+
+ALTER TABLE financed_expense_payments ADD COLUMN payer_member_id VARCHAR(255) REFERENCES members(id);
@@ -0,0 +1 @@
+DROP TABLE IF EXISTS mortgage_rate_events;
@@ -0,0 +1,19 @@
+-- Refinances and adjustable-rate resets, each taking effect on a date. A refinance starts a new term
+-- from its effective date; a rate reset only changes the rate (and the payment, when given).
+
+CREATE TABLE mortgage_rate_events (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  mortgage_id VARCHAR(255) NOT NULL REFERENCES mortgages(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('refinance', 'rate-reset')),
+  effective_date DATE NOT NULL,
+  interest_rate_apy DECIMAL(5,2) NOT NULL,
+  term_months INTEGER,
+  principal_cents INTEGER,
+  closing_costs_cents INTEGER NOT NULL DEFAULT 0,
+  scheduled_payment_cents INTEGER,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK (kind = 'refinance' OR (term_months IS NULL AND principal_cents IS NULL))
+);
+
+CREATE INDEX idx_mortgage_rate_events_mortgage_id ON mortgage_rate_events(mortgage_id);
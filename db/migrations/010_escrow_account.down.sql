@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS escrow_adjustments;
+DROP TABLE IF EXISTS escrow_disbursements;
+ALTER TABLE mortgages DROP COLUMN IF EXISTS escrow_opening_balance_cents;
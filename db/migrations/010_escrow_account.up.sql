@@ -0,0 +1,36 @@
+-- Escrow account tracking. Deposits are the escrow part of each mortgage payment breakdown; this adds
+-- what the lender paid out of the account and the history of its annual escrow adjustments.
+
+ALTER TABLE mortgages ADD COLUMN escrow_opening_balance_cents INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE escrow_disbursements (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  mortgage_id VARCHAR(255) NOT NULL REFERENCES mortgages(id) ON DELETE CASCADE,
+  category VARCHAR(20) NOT NULL CHECK (category IN ('taxes', 'insurance', 'mip', 'hoa')),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  disbursed_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_escrow_disbursements_mortgage_id ON escrow_disbursements(mortgage_id);
+
+-- Each row keeps the monthly escrow amounts and scheduled payment before and after the adjustment
+CREATE TABLE escrow_adjustments (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  mortgage_id VARCHAR(255) NOT NULL REFERENCES mortgages(id) ON DELETE CASCADE,
+  effective_date DATE NOT NULL,
+  escrow_taxes_cents INTEGER NOT NULL DEFAULT 0,
+  escrow_insurance_cents INTEGER NOT NULL DEFAULT 0,
+  escrow_mip_cents INTEGER NOT NULL DEFAULT 0,
+  escrow_hoa_cents INTEGER NOT NULL DEFAULT 0,
+  scheduled_payment_cents INTEGER NOT NULL,
+  previous_escrow_cents INTEGER NOT NULL,
+  previous_scheduled_payment_cents INTEGER NOT NULL,
+  shortage_cents INTEGER NOT NULL DEFAULT 0,
+  surplus_cents INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_escrow_adjustments_mortgage_id ON escrow_adjustments(mortgage_id);
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS budget_month_amounts;
+DROP TABLE IF EXISTS budgets;
@@ -0,0 +1,28 @@
+-- Monthly budgets. A budget limits one category, one member's share of spending, or one member's
+-- share within a category; month overrides replace the usual amount for single months.
+
+CREATE TABLE budgets (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  category_id VARCHAR(255) REFERENCES expense_categories(id) ON DELETE CASCADE,
+  member_id VARCHAR(255) REFERENCES members(id) ON DELETE CASCADE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  -- Unused amounts carry over into the following months
+  rollover BOOLEAN NOT NULL DEFAULT FALSE,
+  -- 'YYYY-MM' of the first month the budget applies to
+  start_month VARCHAR(7) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CHECK (category_id IS NOT NULL OR member_id IS NOT NULL)
+);
+
+CREATE INDEX idx_budgets_household_id ON budgets(household_id);
+
+CREATE TABLE budget_month_amounts (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  budget_id VARCHAR(255) NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  month VARCHAR(7) NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (budget_id, month)
+);
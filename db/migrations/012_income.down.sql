@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS income_deposits;
+DROP TABLE IF EXISTS income_sources;
@@ -0,0 +1,31 @@
+-- Household income: each member's regular income sources and the deposits actually received.
+-- A deposit may belong to a source or be a one-off (a bonus, a tax refund).
+
+CREATE TABLE income_sources (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member_id VARCHAR(255) NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  kind VARCHAR(20) NOT NULL DEFAULT 'salary' CHECK (kind IN ('salary', 'side-gig', 'child-support', 'other')),
+  -- Take-home amount of one paycheck
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'semimonthly', 'monthly')),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_income_sources_household_id ON income_sources(household_id);
+
+CREATE TABLE income_deposits (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  income_source_id VARCHAR(255) REFERENCES income_sources(id) ON DELETE SET NULL,
+  member_id VARCHAR(255) NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  deposited_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_income_deposits_household_date ON income_deposits(household_id, deposited_date);
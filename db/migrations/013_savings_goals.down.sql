@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS savings_contributions;
+DROP TABLE IF EXISTS savings_goal_splits;
+DROP TABLE IF EXISTS savings_goals;
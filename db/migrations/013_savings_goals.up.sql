@@ -0,0 +1,37 @@
+-- Savings goals: a target amount to reach by a target date, shared between members in the
+-- proportions of the goal's splits, and the contributions members record towards it.
+
+CREATE TABLE savings_goals (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  target_cents INTEGER NOT NULL CHECK (target_cents > 0),
+  target_date DATE NOT NULL,
+  -- Splits are proportions of each month's contribution, so only percent and shares apply
+  split_mode VARCHAR(50) NOT NULL DEFAULT 'shares' CHECK (split_mode IN ('percent', 'shares')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_savings_goals_household_id ON savings_goals(household_id);
+
+CREATE TABLE savings_goal_splits (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  savings_goal_id VARCHAR(255) NOT NULL REFERENCES savings_goals(id) ON DELETE CASCADE,
+  member_id VARCHAR(255) NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  value INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE savings_contributions (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  savings_goal_id VARCHAR(255) NOT NULL REFERENCES savings_goals(id) ON DELETE CASCADE,
+  member_id VARCHAR(255) NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  contributed_date DATE NOT NULL,
+  method VARCHAR(50) NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_savings_contributions_goal_id ON savings_contributions(savings_goal_id);
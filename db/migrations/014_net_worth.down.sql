@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS financial_account_balances;
+DROP TABLE IF EXISTS financial_accounts;
@@ -0,0 +1,28 @@
+-- Net worth: the household's bank, investment and credit accounts with dated balance snapshots.
+-- Mortgages and financed expenses count as liabilities from their own balances.
+
+CREATE TABLE financial_accounts (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('checking', 'savings', 'brokerage', 'retirement', 'credit-card', 'other-asset', 'other-liability')),
+  institution VARCHAR(255),
+  -- Whose account it is; NULL for joint accounts
+  member_id VARCHAR(255) REFERENCES members(id) ON DELETE SET NULL,
+  -- Closed accounts keep their history but take no new balances
+  closed BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_financial_accounts_household_id ON financial_accounts(household_id);
+
+-- Balances are what the statement shows: money held for assets, the amount owed for liabilities
+CREATE TABLE financial_account_balances (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  financial_account_id VARCHAR(255) NOT NULL REFERENCES financial_accounts(id) ON DELETE CASCADE,
+  balance_cents INTEGER NOT NULL,
+  as_of_date DATE NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (financial_account_id, as_of_date)
+);
@@ -0,0 +1,10 @@
+DROP TABLE IF EXISTS autopay_log;
+
+ALTER TABLE financed_expenses DROP COLUMN IF EXISTS autopay_account_id;
+ALTER TABLE mortgages DROP COLUMN IF EXISTS autopay_account_id;
+ALTER TABLE recurring_bills DROP COLUMN IF EXISTS autopay_account_id;
+ALTER TABLE bills DROP COLUMN IF EXISTS autopay_account_id;
+
+ALTER TABLE financed_expense_payments DROP COLUMN IF EXISTS account_id;
+ALTER TABLE mortgage_payments DROP COLUMN IF EXISTS account_id;
+ALTER TABLE payments DROP COLUMN IF EXISTS account_id;
@@ -0,0 +1,26 @@
+-- Payment source accounts and autopay. Payments can name the financial account the money came
+-- from, and bills, recurring bills, mortgages and financed expenses can be set to autopay from one.
+-- The autopay job records a payment for each autopay item on its due date and logs the occurrence
+-- so it is never paid twice, even if that payment is later deleted.
+
+ALTER TABLE payments ADD COLUMN account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL;
+ALTER TABLE mortgage_payments ADD COLUMN account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL;
+ALTER TABLE financed_expense_payments ADD COLUMN account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE bills ADD COLUMN autopay_account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL;
+ALTER TABLE recurring_bills ADD COLUMN autopay_account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL;
+ALTER TABLE mortgages ADD COLUMN autopay_account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL;
+ALTER TABLE financed_expenses ADD COLUMN autopay_account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL;
+
+CREATE TABLE autopay_log (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  household_id VARCHAR(255) NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id VARCHAR(255) REFERENCES financial_accounts(id) ON DELETE SET NULL,
+  item_key VARCHAR(255) NOT NULL,
+  due_date DATE NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  paid_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (item_key, due_date)
+);
+
+CREATE INDEX idx_autopay_log_household_id ON autopay_log(household_id);
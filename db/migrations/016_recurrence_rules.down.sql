@@ -0,0 +1 @@
+ALTER TABLE recurring_bills DROP COLUMN IF EXISTS recurrence_rule;
@@ -0,0 +1,6 @@
+-- Custom recurrence for recurring bills. A recurring bill with frequency 'custom' follows an
+-- RRULE-style rule (interval, weekdays, set positions, end date or count, excluded dates) instead of
+-- a day of the month; its bills use their due date as the period, since one can fall several times
+-- a month.
+
+ALTER TABLE recurring_bills ADD COLUMN recurrence_rule JSONB;
@@ -0,0 +1,6 @@
+ALTER TABLE recurring_bills
+  DROP COLUMN IF EXISTS paused_from,
+  DROP COLUMN IF EXISTS paused_until,
+  DROP COLUMN IF EXISTS end_date,
+  DROP COLUMN IF EXISTS skipped_periods,
+  DROP COLUMN IF EXISTS archived_at;
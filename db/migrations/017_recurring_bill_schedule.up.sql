@@ -0,0 +1,11 @@
+-- Pausing, skipping, ending and archiving recurring bills. No bills are generated for occurrences
+-- due from paused_from through paused_until (open-ended without it), after end_date, or whose period
+-- is listed in skipped_periods. Archived recurring bills stop generating altogether but keep the
+-- bills and payments they already produced.
+
+ALTER TABLE recurring_bills
+  ADD COLUMN paused_from DATE,
+  ADD COLUMN paused_until DATE,
+  ADD COLUMN end_date DATE,
+  ADD COLUMN skipped_periods JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN archived_at TIMESTAMP;
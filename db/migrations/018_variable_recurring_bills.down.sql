@@ -0,0 +1,5 @@
+ALTER TABLE bills DROP COLUMN IF EXISTS is_estimated;
+
+ALTER TABLE recurring_bills
+  DROP COLUMN IF EXISTS amount_mode,
+  DROP COLUMN IF EXISTS estimate_method;
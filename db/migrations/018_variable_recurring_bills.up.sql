@@ -0,0 +1,9 @@
+-- Variable-amount recurring bills (utilities, phone). Their bills start at an estimate from earlier
+-- confirmed amounts and stay flagged as estimated until the statement amount is entered.
+
+ALTER TABLE recurring_bills
+  ADD COLUMN amount_mode VARCHAR(20) NOT NULL DEFAULT 'fixed' CHECK (amount_mode IN ('fixed', 'variable')),
+  -- Only used by variable bills: the last amount, a rolling 3-month average or the same month last year
+  ADD COLUMN estimate_method VARCHAR(20) NOT NULL DEFAULT 'last' CHECK (estimate_method IN ('last', 'average', 'last-year'));
+
+ALTER TABLE bills ADD COLUMN is_estimated BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,24 @@
+-- Rows still in the trash are removed for good before the columns go
+DELETE FROM payments WHERE deleted_at IS NOT NULL;
+DELETE FROM mortgage_payments WHERE deleted_at IS NOT NULL;
+DELETE FROM bills WHERE deleted_at IS NOT NULL;
+DELETE FROM recurring_bills WHERE deleted_at IS NOT NULL;
+DELETE FROM mortgages WHERE deleted_at IS NOT NULL;
+DELETE FROM financed_expenses WHERE deleted_at IS NOT NULL;
+DELETE FROM members WHERE deleted_at IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_members_deleted_at;
+DROP INDEX IF EXISTS idx_bills_deleted_at;
+DROP INDEX IF EXISTS idx_payments_deleted_at;
+DROP INDEX IF EXISTS idx_recurring_bills_deleted_at;
+DROP INDEX IF EXISTS idx_mortgages_deleted_at;
+DROP INDEX IF EXISTS idx_mortgage_payments_deleted_at;
+DROP INDEX IF EXISTS idx_financed_expenses_deleted_at;
+
+ALTER TABLE members DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE bills DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE payments DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE mortgage_payments DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE recurring_bills DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE mortgages DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE financed_expenses DROP COLUMN IF EXISTS deleted_at;
@@ -0,0 +1,23 @@
+-- Soft delete. Deleting a member, bill, payment, recurring bill, mortgage, mortgage payment or financed expense sets
+-- deleted_at instead of removing the row, so everything that hangs off it (splits, payments,
+-- allocations) survives and comes back on restore. Rows only go for good, with ON DELETE CASCADE
+-- as before, when they are purged from the trash.
+
+ALTER TABLE members ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE bills ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE payments ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE mortgage_payments ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE recurring_bills ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE mortgages ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE financed_expenses ADD COLUMN deleted_at TIMESTAMP;
+
+-- The trash lists each household's deleted rows. Payments belong to a household through their
+-- bill or mortgage, so theirs are indexed by that; reading a bill's live payments still goes
+-- through idx_payments_bill_id.
+CREATE INDEX idx_members_deleted_at ON members(household_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_bills_deleted_at ON bills(household_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_payments_deleted_at ON payments(bill_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_recurring_bills_deleted_at ON recurring_bills(household_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_mortgages_deleted_at ON mortgages(household_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_mortgage_payments_deleted_at ON mortgage_payments(mortgage_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_financed_expenses_deleted_at ON financed_expenses(household_id) WHERE deleted_at IS NOT NULL;
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
-import { apiClient, ApiMember, ApiBill, ApiRecurringBill, ApiPayment, ApiMortgage, ApiMortgagePayment } from '../utils/api'
-import { Person, Bill, RecurringBill, Payment, Mortgage, MortgagePayment, MortgagePaymentBreakdown } from '../types'
+import { apiClient, ApiMember, ApiBill, ApiRecurringBill, ApiPayment, ApiMortgage, ApiMortgagePayment, ApiMortgagePaymentBreakdown, ApiMortgageRateEvent } from '../utils/api'
+import { Person, Bill, RecurringBill, Payment, Mortgage, MortgagePayment, MortgagePaymentBreakdown, MortgageRateEvent, RecurringAmountMode, EstimateMethod } from '../types'
 
 // Default data for empty database or offline scenarios
 const DEFAULT_PEOPLE: Person[] = [
@@ -34,6 +34,7 @@ function billToApiBill(bill: Bill): any {
     dueDate: bill.dueDate,
     recurringBillId: bill.recurringBillId,
     period: bill.period,
+    autopayAccountId: bill.autopayAccountId || null,
     splitMode: bill.splitMode,
     splits: bill.splits.map(split => ({
       memberId: split.personId,
@@ -62,6 +63,8 @@ function apiBillToBill(apiBill: ApiBill): Bill {
     dueDate: normalizedDueDate,
     recurringBillId: apiBill.recurringBillId,
     period: apiBill.period,
+    autopayAccountId: apiBill.autopayAccountId ?? undefined,
+    isEstimated: apiBill.isEstimated ?? false,
     splitMode: apiBill.splitMode as any,
     splits: apiBill.splits.map(split => ({
       personId: split.memberId,
@@ -77,7 +80,16 @@ function recurringBillToApiRecurringBill(bill: RecurringBill): any {
     amountCents: Math.round(bill.amount * 100),
     dayOfMonth: bill.dayOfMonth,
     frequency: bill.frequency,
+    recurrenceRule: bill.recurrenceRule,
     lastGeneratedPeriod: bill.lastGeneratedPeriod,
+    autopayAccountId: bill.autopayAccountId || null,
+    pausedFrom: bill.pausedFrom || null,
+    pausedUntil: bill.pausedUntil || null,
+    endDate: bill.endDate || null,
+    skippedPeriods: bill.skippedPeriods ?? [],
+    archived: Boolean(bill.archivedAt),
+    amountMode: bill.amountMode ?? 'fixed',
+    estimateMethod: bill.estimateMethod ?? 'last',
     splitMode: bill.splitMode,
     splits: bill.splits.map(split => ({
       memberId: split.personId,
@@ -93,7 +105,16 @@ function apiRecurringBillToRecurringBill(apiRB: ApiRecurringBill): RecurringBill
     amount: apiRB.amountCents / 100,
     dayOfMonth: apiRB.dayOfMonth,
     frequency: apiRB.frequency as any,
+    recurrenceRule: apiRB.recurrenceRule ?? undefined,
     lastGeneratedPeriod: apiRB.lastGeneratedPeriod,
+    autopayAccountId: apiRB.autopayAccountId ?? undefined,
+    pausedFrom: apiRB.pausedFrom ?? undefined,
+    pausedUntil: apiRB.pausedUntil ?? undefined,
+    endDate: apiRB.endDate ?? undefined,
+    skippedPeriods: apiRB.skippedPeriods ?? [],
+    archivedAt: apiRB.archivedAt ?? undefined,
+    amountMode: (apiRB.amountMode ?? 'fixed') as RecurringAmountMode,
+    estimateMethod: (apiRB.estimateMethod ?? 'last') as EstimateMethod,
     splitMode: apiRB.splitMode as any,
     splits: apiRB.splits.map(split => ({
       personId: split.memberId,
@@ -109,6 +130,7 @@ function paymentToApiPayment(payment: Payment): any {
     paidDate: payment.paidDate,
     amountCents: Math.round(payment.amount * 100),
     method: payment.method,
+    accountId: payment.accountId || null,
     payerMemberId: payment.payerPersonId,
     note: payment.note,
     receiptFilename: payment.receipt?.fileName,
@@ -127,6 +149,7 @@ function apiPaymentToPayment(apiPayment: ApiPayment): Payment {
     paidDate: apiPayment.paidDate,
     amount: apiPayment.amountCents / 100,
     method: apiPayment.method as any,
+    accountId: apiPayment.accountId ?? undefined,
     payerPersonId: apiPayment.payerMemberId,
     note: apiPayment.note,
     receipt: apiPayment.receiptFilename && apiPayment.receiptData ? {
@@ -160,6 +183,7 @@ function mortgageToApiMortgage(mortgage: Mortgage): any {
     escrowHoaCents: mortgage.escrow_hoa !== undefined ? Math.round(mortgage.escrow_hoa * 100) : undefined,
     notes: mortgage.notes,
     active: mortgage.active,
+    autopayAccountId: mortgage.autopayAccountId || null,
     splitMode: mortgage.splitMode,
     splits: mortgage.splits.map(split => ({
       memberId: split.personId,
@@ -204,11 +228,42 @@ function apiMortgageToMortgage(apiMortgage: ApiMortgage): Mortgage {
     escrow_hoa: apiMortgage.escrowHoaCents ? safeCentsTodollars(apiMortgage.escrowHoaCents) : undefined,
     notes: apiMortgage.notes,
     active: Boolean(apiMortgage.active),
+    autopayAccountId: apiMortgage.autopayAccountId ?? undefined,
     splitMode: apiMortgage.splitMode as any,
     splits: (apiMortgage.splits || []).map(split => ({
       personId: split.memberId || '',
       value: safeNumber(split.value, 0)
-    }))
+    })),
+    rateEvents: (apiMortgage.rateEvents || []).map(apiMortgageRateEventToMortgageRateEvent)
+  }
+}
+
+// MortgageRateEvent <-> ApiMortgageRateEvent mapping
+function mortgageRateEventToApiMortgageRateEvent(event: MortgageRateEvent): any {
+  return {
+    kind: event.kind,
+    effectiveDate: event.effectiveDate,
+    interestRateApy: event.interestRateApy,
+    termMonths: event.kind === 'refinance' ? event.termMonths : undefined,
+    principalCents: event.kind === 'refinance' && event.principal !== undefined ? Math.round(event.principal * 100) : undefined,
+    closingCostsCents: Math.round((event.closingCosts || 0) * 100),
+    scheduledPaymentCents: event.scheduledPayment !== undefined ? Math.round(event.scheduledPayment * 100) : undefined,
+    note: event.note
+  }
+}
+
+function apiMortgageRateEventToMortgageRateEvent(apiEvent: ApiMortgageRateEvent): MortgageRateEvent {
+  return {
+    id: apiEvent.id,
+    mortgageId: apiEvent.mortgageId,
+    kind: apiEvent.kind,
+    effectiveDate: apiEvent.effectiveDate,
+    interestRateApy: Number(apiEvent.interestRateApy),
+    termMonths: apiEvent.termMonths ?? undefined,
+    principal: apiEvent.principalCents !== null ? apiEvent.principalCents / 100 : undefined,
+    closingCosts: apiEvent.closingCostsCents / 100,
+    scheduledPayment: apiEvent.scheduledPaymentCents !== null ? apiEvent.scheduledPaymentCents / 100 : undefined,
+    note: apiEvent.note ?? undefined
   }
 }
 
@@ -219,6 +274,7 @@ function mortgagePaymentToApiMortgagePayment(payment: MortgagePayment): any {
     paidDate: payment.paidDate,
     amountCents: Math.round(payment.amount * 100),
     method: payment.method,
+    accountId: payment.accountId || null,
     payerMemberId: payment.payerPersonId,
     note: payment.note,
     receiptFilename: payment.receipt?.fileName,
@@ -237,6 +293,7 @@ function apiMortgagePaymentToMortgagePayment(apiPayment: ApiMortgagePayment): Mo
     paidDate: apiPayment.paidDate,
     amount: apiPayment.amountCents / 100,
     method: apiPayment.method as any,
+    accountId: apiPayment.accountId ?? undefined,
     payerPersonId: apiPayment.payerMemberId,
     note: apiPayment.note,
     receipt: apiPayment.receiptFilename && apiPayment.receiptData ? {
@@ -250,8 +307,52 @@ function apiMortgagePaymentToMortgagePayment(apiPayment: ApiMortgagePayment): Mo
   }
 }
 
-// Generic hook type - changed error to warning to indicate non-blocking
-type ApiHookResult<T> = [T[], (data: T[]) => void, boolean, string | null]
+function apiMortgagePaymentBreakdownToBreakdown(apiBreakdown: ApiMortgagePaymentBreakdown): MortgagePaymentBreakdown {
+  return {
+    id: apiBreakdown.id,
+    paymentId: apiBreakdown.paymentId,
+    mortgageId: apiBreakdown.mortgageId,
+    principal: apiBreakdown.principalCents / 100,
+    interest: apiBreakdown.interestCents / 100,
+    escrow: apiBreakdown.escrowCents / 100
+  }
+}
+
+// Result of a mortgage payment write: the server computes the breakdown and the new balance
+export interface MortgagePaymentSaveResult {
+  payment: MortgagePayment
+  breakdown: MortgagePaymentBreakdown | null
+  currentPrincipal: number
+}
+
+function apiMortgagePaymentToSaveResult(apiPayment: ApiMortgagePayment): MortgagePaymentSaveResult {
+  return {
+    payment: apiMortgagePaymentToMortgagePayment(apiPayment),
+    breakdown: apiPayment.breakdown ? apiMortgagePaymentBreakdownToBreakdown(apiPayment.breakdown) : null,
+    currentPrincipal: (apiPayment.mortgageCurrentPrincipalCents ?? 0) / 100
+  }
+}
+
+// A new set of monthly escrow amounts, in dollars; the scheduled payment follows the escrow change unless given
+export interface EscrowAdjustmentParams {
+  mortgageId: string
+  effectiveDate: string
+  escrowTaxes: number
+  escrowInsurance: number
+  escrowMip: number
+  escrowHoa: number
+  scheduledPayment?: number
+  note?: string
+}
+
+export type EscrowAdjustmentChanges = Pick<
+  Mortgage,
+  'escrow_enabled' | 'escrow_taxes' | 'escrow_insurance' | 'escrow_mip' | 'escrow_hoa' | 'scheduled_payment'
+>
+
+// Generic hook type - changed error to warning to indicate non-blocking. The last element reloads the
+// list from the server, e.g. after an item is restored from the trash; only the first load shows as loading.
+type ApiHookResult<T> = [T[], (data: T[]) => void, boolean, string | null, () => Promise<void>]
 
 // Members hook with fault tolerance
 export function useMembers(): ApiHookResult<Person> {
@@ -261,7 +362,6 @@ export function useMembers(): ApiHookResult<Person> {
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       const apiMembers = await apiClient.getMembers()
 
       // If API returns data, use it; otherwise keep defaults
@@ -289,7 +389,7 @@ export function useMembers(): ApiHookResult<Person> {
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Bills hook with fault tolerance
@@ -300,7 +400,6 @@ export function useBills(): ApiHookResult<Bill> {
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       const apiBills = await apiClient.getBills()
       setData(apiBills.map(apiBillToBill))
       setWarning(null)
@@ -320,7 +419,7 @@ export function useBills(): ApiHookResult<Bill> {
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Recurring Bills hook with fault tolerance
@@ -331,7 +430,6 @@ export function useRecurringBills(): ApiHookResult<RecurringBill> {
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       const apiRBs = await apiClient.getRecurringBills()
       setData(apiRBs.map(apiRecurringBillToRecurringBill))
       setWarning(null)
@@ -351,7 +449,7 @@ export function useRecurringBills(): ApiHookResult<RecurringBill> {
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Payments hook with fault tolerance
@@ -362,7 +460,6 @@ export function usePayments(): ApiHookResult<Payment> {
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       // Get payments from bills endpoint since payments are nested
       const apiBills = await apiClient.getBills()
       const allPayments: Payment[] = []
@@ -389,7 +486,7 @@ export function usePayments(): ApiHookResult<Payment> {
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Mortgages hook with fault tolerance
@@ -400,7 +497,6 @@ export function useMortgages(): ApiHookResult<Mortgage> {
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       const apiMortgages = await apiClient.getMortgages()
 
       // Validate and safely convert API response
@@ -457,7 +553,7 @@ export function useMortgages(): ApiHookResult<Mortgage> {
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Mortgage Payments hook with fault tolerance
@@ -468,7 +564,6 @@ export function useMortgagePayments(): ApiHookResult<MortgagePayment> {
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       // Get mortgage payments from mortgages endpoint since payments are nested
       const apiMortgages = await apiClient.getMortgages()
       const allPayments: MortgagePayment[] = []
@@ -495,7 +590,7 @@ export function useMortgagePayments(): ApiHookResult<MortgagePayment> {
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Mortgage Payment Breakdowns hook with fault tolerance
@@ -506,7 +601,6 @@ export function useMortgagePaymentBreakdowns(): ApiHookResult<MortgagePaymentBre
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       // Get breakdowns from mortgages endpoint since they're nested in payments
       const apiMortgages = await apiClient.getMortgages()
       const allBreakdowns: MortgagePaymentBreakdown[] = []
@@ -514,14 +608,7 @@ export function useMortgagePaymentBreakdowns(): ApiHookResult<MortgagePaymentBre
         if (mortgage.payments) {
           mortgage.payments.forEach(payment => {
             if (payment.breakdown) {
-              allBreakdowns.push({
-                id: payment.breakdown.id,
-                paymentId: payment.breakdown.paymentId,
-                mortgageId: payment.breakdown.mortgageId,
-                principal: payment.breakdown.principalCents / 100,
-                interest: payment.breakdown.interestCents / 100,
-                escrow: payment.breakdown.escrowCents / 100
-              })
+              allBreakdowns.push(apiMortgagePaymentBreakdownToBreakdown(payment.breakdown))
             }
           })
         }
@@ -544,7 +631,7 @@ export function useMortgagePaymentBreakdowns(): ApiHookResult<MortgagePaymentBre
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Utility functions for individual operations
@@ -574,6 +661,11 @@ export const apiOperations = {
     await apiClient.deleteBill(id)
   },
 
+  async confirmBillAmount(id: string, amount: number): Promise<Bill> {
+    const apiBill = await apiClient.confirmBillAmount(id, Math.round(amount * 100))
+    return apiBillToBill(apiBill)
+  },
+
   // Payments
   async createPayment(payment: Payment): Promise<Payment> {
     const apiPayment = await apiClient.createPayment(paymentToApiPayment(payment))
@@ -604,6 +696,11 @@ export const apiOperations = {
     await apiClient.deleteRecurringBill(id)
   },
 
+  async generateRecurringBills(): Promise<Bill[]> {
+    const { bills } = await apiClient.generateRecurringBills()
+    return bills.map(apiBillToBill)
+  },
+
   // Mortgages
   async createMortgage(mortgage: Mortgage): Promise<Mortgage> {
     const apiMortgage = await apiClient.createMortgage(mortgageToApiMortgage(mortgage))
@@ -620,17 +717,52 @@ export const apiOperations = {
   },
 
   // Mortgage Payments
-  async createMortgagePayment(payment: MortgagePayment): Promise<MortgagePayment> {
+  async createMortgagePayment(payment: MortgagePayment): Promise<MortgagePaymentSaveResult> {
     const apiPayment = await apiClient.createMortgagePayment(mortgagePaymentToApiMortgagePayment(payment))
-    return apiMortgagePaymentToMortgagePayment(apiPayment)
+    return apiMortgagePaymentToSaveResult(apiPayment)
   },
 
-  async updateMortgagePayment(payment: MortgagePayment): Promise<MortgagePayment> {
+  async updateMortgagePayment(payment: MortgagePayment): Promise<MortgagePaymentSaveResult> {
     const apiPayment = await apiClient.updateMortgagePayment(payment.id, mortgagePaymentToApiMortgagePayment(payment))
-    return apiMortgagePaymentToMortgagePayment(apiPayment)
+    return apiMortgagePaymentToSaveResult(apiPayment)
   },
 
-  async deleteMortgagePayment(id: string): Promise<void> {
-    await apiClient.deleteMortgagePayment(id)
+  async deleteMortgagePayment(id: string): Promise<{ currentPrincipal: number }> {
+    const result = await apiClient.deleteMortgagePayment(id)
+    return { currentPrincipal: result.mortgageCurrentPrincipalCents / 100 }
+  },
+
+  // Mortgage rate events; a past refinance also returns the mortgage's new balance
+  async createMortgageRateEvent(event: MortgageRateEvent): Promise<{ event: MortgageRateEvent; currentPrincipal?: number }> {
+    const apiEvent = await apiClient.createMortgageRateEvent(event.mortgageId, mortgageRateEventToApiMortgageRateEvent(event))
+    return {
+      event: apiMortgageRateEventToMortgageRateEvent(apiEvent),
+      currentPrincipal: apiEvent.mortgageCurrentPrincipalCents !== undefined ? apiEvent.mortgageCurrentPrincipalCents / 100 : undefined
+    }
+  },
+
+  async deleteMortgageRateEvent(event: MortgageRateEvent): Promise<void> {
+    await apiClient.deleteMortgageRateEvent(event.mortgageId, event.id)
+  },
+
+  // Escrow adjustments; returns the mortgage fields the adjustment changed
+  async applyEscrowAdjustment(params: EscrowAdjustmentParams): Promise<EscrowAdjustmentChanges> {
+    const adjustment = await apiClient.applyEscrowAdjustment(params.mortgageId, {
+      effectiveDate: params.effectiveDate,
+      escrowTaxesCents: Math.round(params.escrowTaxes * 100),
+      escrowInsuranceCents: Math.round(params.escrowInsurance * 100),
+      escrowMipCents: Math.round(params.escrowMip * 100),
+      escrowHoaCents: Math.round(params.escrowHoa * 100),
+      scheduledPaymentCents: params.scheduledPayment !== undefined ? Math.round(params.scheduledPayment * 100) : undefined,
+      note: params.note
+    })
+    return {
+      escrow_enabled: adjustment.escrowTaxesCents + adjustment.escrowInsuranceCents + adjustment.escrowMipCents + adjustment.escrowHoaCents > 0,
+      escrow_taxes: adjustment.escrowTaxesCents / 100,
+      escrow_insurance: adjustment.escrowInsuranceCents / 100,
+      escrow_mip: adjustment.escrowMipCents / 100,
+      escrow_hoa: adjustment.escrowHoaCents / 100,
+      scheduled_payment: adjustment.scheduledPaymentCents / 100
+    }
   }
 }
\ No newline at end of file
@@ -15,6 +15,7 @@ function financedExpenseToApiFinancedExpense(expense: FinancedExpense): any {
     purchaseDate: expense.purchaseDate,
     firstPaymentDate: expense.firstPaymentDate,
     isActive: expense.isActive,
+    autopayAccountId: expense.autopayAccountId ?? null,
     splitMode: expense.splitMode,
     splits: expense.splits.map(split => ({
       memberId: split.personId,
@@ -35,6 +36,7 @@ function apiFinancedExpenseToFinancedExpense(apiExpense: ApiFinancedExpense): Fi
     purchaseDate: apiExpense.purchaseDate,
     firstPaymentDate: apiExpense.firstPaymentDate,
     isActive: apiExpense.isActive,
+    autopayAccountId: apiExpense.autopayAccountId ?? undefined,
     amount: apiExpense.monthlyPaymentCents / 100, // For Splittable interface
     splitMode: apiExpense.splitMode as any,
     splits: apiExpense.splits.map(split => ({
@@ -60,7 +62,7 @@ function apiFinancedExpensePaymentToFinancedExpensePayment(apiPayment: ApiFinanc
 }
 
 // Generic hook type for financed expenses
-type FinancedExpenseHookResult<T> = [T[], (data: T[]) => void, boolean, string | null]
+type FinancedExpenseHookResult<T> = [T[], (data: T[]) => void, boolean, string | null, () => Promise<void>]
 
 // Financed Expenses hook with fault tolerance
 export function useFinancedExpenses(): FinancedExpenseHookResult<FinancedExpense> {
@@ -70,7 +72,6 @@ export function useFinancedExpenses(): FinancedExpenseHookResult<FinancedExpense
 
   const fetchData = useCallback(async () => {
     try {
-      setLoading(true)
       const apiExpenses = await apiClient.getFinancedExpenses()
       setData(apiExpenses.map(apiFinancedExpenseToFinancedExpense))
       setWarning(null)
@@ -90,7 +91,7 @@ export function useFinancedExpenses(): FinancedExpenseHookResult<FinancedExpense
     fetchData()
   }, [fetchData])
 
-  return [data, updateData, loading, warning]
+  return [data, updateData, loading, warning, fetchData]
 }
 
 // Individual financed expense hook
@@ -15,6 +15,7 @@ function apiFinancedExpenseToFinancedExpense(apiExpense: ApiFinancedExpense): Fi
     purchaseDate: apiExpense.purchaseDate,
     firstPaymentDate: apiExpense.firstPaymentDate,
     isActive: apiExpense.isActive,
+    autopayAccountId: apiExpense.autopayAccountId ?? undefined,
     amount: apiExpense.monthlyPaymentCents / 100, // For Splittable interface
     splitMode: apiExpense.splitMode as any,
     splits: apiExpense.splits.map(split => ({
@@ -49,6 +50,7 @@ function financedExpenseToApiFinancedExpense(expense: FinancedExpense): any {
     purchaseDate: expense.purchaseDate,
     firstPaymentDate: expense.firstPaymentDate,
     isActive: expense.isActive,
+    autopayAccountId: expense.autopayAccountId ?? null,
     splitMode: expense.splitMode,
     splits: expense.splits.map(split => ({
       memberId: split.personId,
@@ -156,6 +158,7 @@ export function useFinancedExpenseCompleteQuery(id: string) {
           purchaseDate: apiData.purchaseDate,
           firstPaymentDate: apiData.firstPaymentDate,
           isActive: apiData.isActive,
+          autopayAccountId: apiData.autopayAccountId,
           splitMode: apiData.splitMode,
           createdAt: apiData.createdAt,
           updatedAt: apiData.updatedAt,
@@ -215,6 +218,8 @@ interface MarkPaymentParams {
   expenseId: string
   paymentId: string
   paidDate: string
+  // Who paid the installment, so it counts towards the settle-up balances
+  payerMemberId?: string
 }
 
 interface UnmarkPaymentParams {
@@ -299,8 +304,8 @@ export function useFinancedExpenseMutations() {
   })
 
   const markPaymentPaid = useMutation({
-    mutationFn: async ({ expenseId, paymentId, paidDate }: MarkPaymentParams): Promise<FinancedExpensePayment> => {
-      const apiPayment = await apiClient.markFinancedExpensePaymentPaid(expenseId, paymentId, { paidDate })
+    mutationFn: async ({ expenseId, paymentId, paidDate, payerMemberId }: MarkPaymentParams): Promise<FinancedExpensePayment> => {
+      const apiPayment = await apiClient.markFinancedExpensePaymentPaid(expenseId, paymentId, { paidDate, payerMemberId })
       return apiFinancedExpensePaymentToFinancedExpensePayment(apiPayment)
     },
     onMutate: async ({ expenseId, paymentId, paidDate }) => {
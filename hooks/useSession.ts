@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react'
+import { apiClient, ApiAuthSession, getSessionToken, setSessionToken, onSessionExpired } from '../utils/api'
+import { AuthSession, MemberRole, Person } from '../types'
+
+function apiSessionToSession(apiSession: ApiAuthSession): AuthSession {
+  return {
+    accountId: apiSession.accountId,
+    householdId: apiSession.householdId,
+    householdName: apiSession.householdName,
+    memberId: apiSession.memberId,
+    memberName: apiSession.memberName,
+    username: apiSession.username,
+    role: apiSession.role as MemberRole
+  }
+}
+
+export interface SessionState {
+  session: AuthSession | null
+  loading: boolean
+  // True until the first (manager) account has been created
+  needsSetup: boolean
+  setupMembers: Person[]
+  signIn: (username: string, password: string) => Promise<AuthSession>
+  completeSetup: (memberId: string, username: string, password: string) => Promise<AuthSession>
+  // Joins the invite's household, creating a login first when nobody is signed in
+  acceptInvite: (inviteToken: string, newAccount?: { name: string; username: string; password: string }) => Promise<AuthSession>
+  switchHousehold: (householdId: string) => Promise<AuthSession>
+  signOut: () => Promise<void>
+}
+
+// Restores the server session from the stored token and exposes sign-in/sign-out
+export function useSession(): SessionState {
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [needsSetup, setNeedsSetup] = useState(false)
+  const [setupMembers, setSetupMembers] = useState<Person[]>([])
+
+  const restoreSession = useCallback(async () => {
+    try {
+      setLoading(true)
+      if (getSessionToken()) {
+        try {
+          setSession(apiSessionToSession(await apiClient.getSession()))
+          return
+        } catch (err) {
+          console.warn('Stored session is no longer valid:', err)
+        }
+      }
+
+      const status = await apiClient.getAuthStatus()
+      setNeedsSetup(status.needsSetup)
+      setSetupMembers(status.members)
+    } catch (err) {
+      console.warn('Auth status fetch failed:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    restoreSession()
+    return onSessionExpired(() => setSession(null))
+  }, [restoreSession])
+
+  const signIn = useCallback(async (username: string, password: string) => {
+    const { token, session: apiSession } = await apiClient.login({ username, password })
+    setSessionToken(token)
+    const newSession = apiSessionToSession(apiSession)
+    setSession(newSession)
+    return newSession
+  }, [])
+
+  const completeSetup = useCallback(async (memberId: string, username: string, password: string) => {
+    const { token, session: apiSession } = await apiClient.setupManager({ memberId, username, password })
+    setSessionToken(token)
+    const newSession = apiSessionToSession(apiSession)
+    setNeedsSetup(false)
+    setSession(newSession)
+    return newSession
+  }, [])
+
+  const acceptInvite = useCallback(async (inviteToken: string, newAccount?: { name: string; username: string; password: string }) => {
+    const { token, session: apiSession } = await apiClient.acceptInvite(inviteToken, newAccount)
+    setSessionToken(token)
+    const newSession = apiSessionToSession(apiSession)
+    setNeedsSetup(false)
+    setSession(newSession)
+    return newSession
+  }, [])
+
+  const switchHousehold = useCallback(async (householdId: string) => {
+    const newSession = apiSessionToSession(await apiClient.switchHousehold(householdId))
+    setSession(newSession)
+    return newSession
+  }, [])
+
+  const signOut = useCallback(async () => {
+    try {
+      await apiClient.logout()
+    } catch (err) {
+      console.warn('Logout request failed:', err)
+    }
+    setSessionToken(null)
+    setSession(null)
+  }, [])
+
+  return { session, loading, needsSetup, setupMembers, signIn, completeSetup, acceptInvite, switchHousehold, signOut }
+}
@@ -6,6 +6,8 @@ export interface Toast {
   title: string
   message?: string
   duration?: number
+  // A button shown on the toast; clicking it also dismisses the toast
+  action?: { label: string; onClick: () => void }
 }
 
 interface ToastContextType {
@@ -78,5 +80,9 @@ export function useToastHelpers() {
 
     showInfo: (title: string, message?: string) =>
       addToast({ type: 'info', title, message }),
+
+    // Deleted items sit in the trash, so undo only has to restore them
+    showUndo: (title: string, onUndo: () => void) =>
+      addToast({ type: 'info', title, duration: 6000, action: { label: 'Undo', onClick: onUndo } }),
   }
 }
\ No newline at end of file
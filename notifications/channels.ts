@@ -0,0 +1,111 @@
+import nodemailer from 'nodemailer'
+
+// Delivery channels for due date reminders.
+// A channel turns a message into something a member receives (an email, a chat message, ...).
+// Members pick channels by name in their notification preferences; a channel only appears once
+// it is configured, so preferences naming an unavailable channel are skipped rather than failing.
+
+export interface NotificationPreferences {
+  enabled: boolean
+  // Channel names, e.g. ['email']
+  channels: string[]
+  email: string
+  // Send a reminder this many days before the due date (0 = on the day)
+  reminderDaysBefore: number
+  notifyOverdue: boolean
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: false,
+  channels: ['email'],
+  email: '',
+  reminderDaysBefore: 3,
+  notifyOverdue: true
+}
+
+export const MAX_REMINDER_DAYS_BEFORE = 30
+
+export interface NotificationRecipient {
+  memberId: string
+  name: string
+  preferences: NotificationPreferences
+}
+
+export interface NotificationMessage {
+  subject: string
+  text: string
+}
+
+export interface NotificationChannel {
+  name: string
+  // Whether the recipient has what this channel needs, e.g. an email address
+  canDeliverTo(recipient: NotificationRecipient): boolean
+  send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void>
+}
+
+const channels = new Map<string, NotificationChannel>()
+
+export function registerNotificationChannel(channel: NotificationChannel) {
+  channels.set(channel.name, channel)
+}
+
+export function getNotificationChannel(name: string): NotificationChannel | undefined {
+  return channels.get(name)
+}
+
+export function getNotificationChannelNames(): string[] {
+  return [...channels.keys()]
+}
+
+/**
+ * Email over SMTP, configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and
+ * NOTIFICATION_FROM. Returns null without SMTP_HOST. Any SMTP server works, including a local sink
+ * such as MailHog or Mailpit for development.
+ */
+export function createSmtpChannel(env: NodeJS.ProcessEnv = process.env): NotificationChannel | null {
+  if (!env.SMTP_HOST) return null
+
+  const transport = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || 587,
+    secure: env.SMTP_SECURE === 'true',
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined
+  })
+  const from = env.NOTIFICATION_FROM || 'Family Growth Tracker <no-reply@localhost>'
+
+  return {
+    name: 'email',
+    canDeliverTo: recipient => /^[^\s@]+@[^\s@]+$/.test(recipient.preferences.email),
+    async send(recipient, message) {
+      await transport.sendMail({
+        from,
+        to: { name: recipient.name, address: recipient.preferences.email },
+        subject: message.subject,
+        text: message.text
+      })
+    }
+  }
+}
+
+/**
+ * Parses stored preferences, filling in defaults for anything missing or invalid.
+ */
+export function parseNotificationPreferences(value: string | null | undefined): NotificationPreferences {
+  let stored: Partial<NotificationPreferences> = {}
+  try {
+    stored = value ? JSON.parse(value) : {}
+  } catch {
+    stored = {}
+  }
+
+  const reminderDaysBefore = Number(stored.reminderDaysBefore)
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_NOTIFICATION_PREFERENCES.enabled,
+    channels: Array.isArray(stored.channels) ? stored.channels.filter(name => typeof name === 'string') : DEFAULT_NOTIFICATION_PREFERENCES.channels,
+    email: typeof stored.email === 'string' ? stored.email.trim() : '',
+    reminderDaysBefore: Number.isInteger(reminderDaysBefore) && reminderDaysBefore >= 0 && reminderDaysBefore <= MAX_REMINDER_DAYS_BEFORE
+      ? reminderDaysBefore
+      : DEFAULT_NOTIFICATION_PREFERENCES.reminderDaysBefore,
+    notifyOverdue: typeof stored.notifyOverdue === 'boolean' ? stored.notifyOverdue : DEFAULT_NOTIFICATION_PREFERENCES.notifyOverdue
+  }
+}
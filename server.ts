@@ -2,18 +2,68 @@ import express from 'express'
 import cors from 'cors'
 import dotenv from 'dotenv'
 import rateLimit from 'express-rate-limit'
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { Pool, PoolClient } from 'pg'
 import { query, pool } from './db/connection'
-import { initializeDatabase } from './db/init'
+import { initializeDatabase, DEFAULT_HOUSEHOLD_ID } from './db/init'
+import { BackupImportError, exportHousehold, getBackupArchiveError, importHousehold } from './db/backup'
+import {
+  addMonthsToPeriod,
+  formatPeriod,
+  getFrequencyIntervalMonths,
+  getLastPassedOverOccurrence,
+  getPendingRecurringOccurrences,
+  getRecurringDueDate,
+  isRecurringOccurrenceScheduled,
+  RECURRENCE_RULE_FREQUENCIES,
+  RecurringBillSchedule,
+  WEEKDAYS
+} from './utils/recurrence'
+import {
+  BankColumnMapping, detectStatementFormat, parseOfx, parseQif, parseStatementCsv, parseStatementDate, StatementParseResult,
+  StatementTransaction, STATEMENT_DATE_FORMATS
+} from './utils/bankStatement'
+import { CalculatedSplit, calculateSplitAmounts, computeFirstDueDate, getMortgageTermsOn, resolveItemCycle } from './utils/calculations'
+import { buildICalendar, CalendarEvent, describeSplits } from './utils/calendarFeed'
+import { AmortizationInput, buildAmortizationSchedule, calculateRefinanceBreakEven, monthsBetweenPeriods, PayoffScenario } from './utils/amortization'
+import { computeMemberBalances, computeSettleUpTransfers, getPaymentShares, LedgerPayment } from './utils/settleUp'
+import { addYearsToDate, analyzeEscrowAccount, ESCROW_CATEGORIES } from './utils/escrow'
+import { BudgetDefinition, BudgetMonthAmount, computeBudgetStatus, getBudgetMonthsNeeded, SpendingShare } from './utils/budgets'
+import { getIncomePayDates, INCOME_KINDS, IncomeKind, PAY_FREQUENCIES, PayFrequency, summarizeCashFlow } from './utils/income'
+import { buildForecast, ForecastEntry } from './utils/forecast'
+import { computeSavingsGoalProgress, SavingsContributionEntry, SavingsGoalProgress } from './utils/savingsGoals'
+import { ESTIMATE_METHODS, estimateBillAmount, splitForAmount } from './utils/billEstimates'
+import {
+  BalanceSnapshot, computeNetWorthOn, FINANCIAL_ACCOUNT_KINDS, LIABILITY_ACCOUNT_KINDS, NetWorthAccount, NetWorthInput
+} from './utils/netWorth'
+import {
+  buildTaxSummaryCsv, sumTaxSummaryTotals, TaxSummary, TaxSummaryBillCategory, TaxSummaryFinancedExpense, TaxSummaryMember,
+  TaxSummaryMortgage
+} from './utils/taxSummary'
+import { Mortgage, MortgagePayment, MortgageRateEvent, MortgageRateEventKind, PaymentMethod, Person, RecurrenceRule, RecurringBill, Split, Splittable, SplitMode } from './types'
+import {
+  createSmtpChannel, getNotificationChannel, getNotificationChannelNames, MAX_REMINDER_DAYS_BEFORE, NotificationMessage,
+  NotificationRecipient, parseNotificationPreferences, registerNotificationChannel
+} from './notifications/channels'
 
 dotenv.config()
 
 const app = express()
 const PORT = process.env.PORT || 8080
+const RECURRING_BILL_JOB_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+const NOTIFICATION_JOB_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+const AUTOPAY_JOB_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+const SESSION_TTL_DAYS = 30
+const MIN_PASSWORD_LENGTH = 8
+const INVITE_TTL_DAYS = 7
+
+const scryptAsync = promisify(scrypt)
 
 // Rate limiting - configured for Railway reverse proxy
 const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // Limit each IP to 100 requests per windowMs
+  max: Number(process.env.API_RATE_LIMIT_MAX) || 100, // Limit each IP to 100 requests per windowMs by default
   message: 'Too many API requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
@@ -106,173 +156,235 @@ app.get('/api/debug', async (req, res) => {
   }
 })
 
-// Members API
-app.get('/api/members', async (req, res) => {
-  try {
-    const result = await query(`
-      SELECT id, name, color, created_at as "createdAt", updated_at as "updatedAt"
-      FROM members
-      ORDER BY created_at ASC
-    `)
-    res.json(result.rows)
-  } catch (error) {
-    console.error('Members fetch error:', error)
-    res.status(500).json({ error: 'Failed to fetch members' })
-  }
-})
+// Authentication
+// An account is a login; it joins a household through a member row that carries its role there.
+// A session token is issued on login and sent back as a Bearer token; the session remembers which
+// household is active, and every query below is scoped to that household.
+// Roles: managers can change everything, adults can record their own payments, children are read-only.
+type MemberRole = 'manager' | 'adult' | 'child'
+
+const MEMBER_ROLES: MemberRole[] = ['manager', 'adult', 'child']
+
+interface AuthContext {
+  sessionId: string
+  accountId: string
+  username: string
+  householdId: string
+  householdName: string
+  memberId: string
+  memberName: string
+  role: MemberRole
+}
 
-app.post('/api/members', async (req, res) => {
-  try {
-    const { name, color } = req.body
-    const result = await query(`
-      INSERT INTO members (name, color)
-      VALUES ($1, $2)
-      RETURNING id, name, color, created_at as "createdAt", updated_at as "updatedAt"
-    `, [name, color])
-    res.json(result.rows[0])
-  } catch (error) {
-    console.error('Member creation error:', error)
-    res.status(500).json({ error: 'Failed to create member' })
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext
+    }
   }
-})
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, 64) as Buffer
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$')
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false
+  const expected = Buffer.from(hashHex, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length) as Buffer
+  return timingSafeEqual(actual, expected)
+}
+
+// Session and invite tokens are only stored as hashes
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
 
-app.put('/api/members/:id', async (req, res) => {
+const SESSION_SELECT = `
+  SELECT s.id as "sessionId", a.id as "accountId", a.username,
+         h.id as "householdId", h.name as "householdName",
+         m.id as "memberId", m.name as "memberName", m.role
+  FROM sessions s
+  JOIN member_accounts a ON a.id = s.account_id
+  JOIN households h ON h.id = s.household_id
+  JOIN members m ON m.account_id = a.id AND m.household_id = s.household_id AND m.deleted_at IS NULL
+`
+
+async function findSession(client: Pool | PoolClient, token: string): Promise<AuthContext | undefined> {
+  const result = await client.query<AuthContext>(`${SESSION_SELECT} WHERE s.token_hash = $1 AND s.expires_at > NOW()`, [hashToken(token)])
+  return result.rows[0]
+}
+
+function getBearerToken(req: express.Request): string {
+  const header = req.headers.authorization || ''
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : ''
+}
+
+// Creates a session in the given household and returns the token with its session payload
+async function createSession(client: Pool | PoolClient, accountId: string, householdId: string) {
+  const token = randomBytes(32).toString('hex')
+  await client.query(`
+    INSERT INTO sessions (account_id, household_id, token_hash, expires_at)
+    VALUES ($1, $2, $3, NOW() + $4 * INTERVAL '1 day')
+  `, [accountId, householdId, hashToken(token), SESSION_TTL_DAYS])
+  const { sessionId, ...session } = (await findSession(client, token))!
+  return { token, session }
+}
+
+const requireAuth: express.RequestHandler = async (req, res, next) => {
   try {
-    const { name, color } = req.body
-    const result = await query(`
-      UPDATE members SET name = $1, color = $2, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $3
-      RETURNING id, name, color, created_at as "createdAt", updated_at as "updatedAt"
-    `, [name, color, req.params.id])
+    const token = getBearerToken(req)
+    if (!token) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Member not found' })
+    const auth = await findSession(pool, token)
+    if (!auth) {
+      return res.status(401).json({ error: 'Session expired or invalid' })
     }
 
-    res.json(result.rows[0])
+    req.auth = auth
+    next()
   } catch (error) {
-    console.error('Member update error:', error)
-    res.status(500).json({ error: 'Failed to update member' })
+    console.error('Authentication error:', error)
+    res.status(500).json({ error: 'Failed to authenticate request' })
   }
-})
+}
 
-app.delete('/api/members/:id', async (req, res) => {
-  try {
-    await query('DELETE FROM members WHERE id = $1', [req.params.id])
-    res.json({ success: true })
-  } catch (error) {
-    console.error('Member deletion error:', error)
-    res.status(500).json({ error: 'Failed to delete member' })
+function requireRole(...roles: MemberRole[]): express.RequestHandler {
+  return (req, res, next) => {
+    if (!req.auth || !roles.includes(req.auth.role)) {
+      return res.status(403).json({ error: 'You do not have permission to perform this action' })
+    }
+    next()
   }
-})
+}
 
-// Bills API
-app.get('/api/bills', async (req, res) => {
-  try {
-    // First, get basic bill information
-    const billsResult = await query(`
-      SELECT
-        id, name, amount_cents as "amountCents", due_date as "dueDate",
-        recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
-        created_at as "createdAt", updated_at as "updatedAt"
-      FROM bills
-      ORDER BY due_date DESC
-    `)
+// Managers may record payments for anyone; everyone else only for themselves
+function canRecordPaymentFor(auth: AuthContext, payerMemberId: string | null | undefined): boolean {
+  return auth.role === 'manager' || payerMemberId === auth.memberId
+}
 
-    const bills = billsResult.rows
+const OWN_PAYMENTS_ONLY_ERROR = { error: 'You can only record payments you made yourself' }
 
-    // For each bill, get splits and payments separately
-    for (const bill of bills) {
-      // Get splits
-      const splitsResult = await query(`
-        SELECT id, member_id as "memberId", value
-        FROM bill_splits
-        WHERE bill_id = $1
-      `, [bill.id])
-      bill.splits = splitsResult.rows
+// Payments belong to a household through the bill or mortgage they pay
+const PAYMENT_PARENT_JOINS = {
+  payments: 'JOIN bills parent ON parent.id = p.bill_id',
+  mortgage_payments: 'JOIN mortgages parent ON parent.id = p.mortgage_id'
+}
 
-      // Get payments with basic info
-      const paymentsResult = await query(`
-        SELECT
-          p.id, p.amount_cents as "amountCents", p.payer_member_id as "payerId",
-          p.note, p.created_at as "createdAt",
-          m.id as "payerMemberId", m.name as "payerMemberName", m.color as "payerMemberColor"
-        FROM payments p
-        LEFT JOIN members m ON p.payer_member_id = m.id
-        WHERE p.bill_id = $1
-        ORDER BY p.created_at DESC
-      `, [bill.id])
+// Lets a non-manager edit or delete a payment only if they were its payer (missing payments fall through to a 404)
+async function canModifyPayment(auth: AuthContext, table: 'payments' | 'mortgage_payments', paymentId: string): Promise<boolean> {
+  if (auth.role === 'manager') return true
+  const result = await query(`
+    SELECT p.payer_member_id FROM ${table} p ${PAYMENT_PARENT_JOINS[table]}
+    WHERE p.id = $1 AND parent.household_id = $2
+  `, [paymentId, auth.householdId])
+  return result.rows.length === 0 || result.rows[0].payer_member_id === auth.memberId
+}
 
-      // Process payments and get allocations
-      bill.payments = []
-      for (const payment of paymentsResult.rows) {
-        const allocationsResult = await query(`
-          SELECT id, member_id as "memberId", amount_cents as "amountCents"
-          FROM payment_allocations
-          WHERE payment_id = $1
-        `, [payment.id])
+// Returns the ids (splits, payers, allocations) that are not members of the household
+async function findForeignMemberIds(client: Pool | PoolClient, householdId: string, memberIds: (string | null | undefined)[]): Promise<string[]> {
+  const ids = [...new Set(memberIds.filter((id): id is string => !!id))]
+  if (ids.length === 0) return []
+  const result = await client.query<{ id: string }>(
+    'SELECT id FROM members WHERE household_id = $1 AND id = ANY($2) AND deleted_at IS NULL',
+    [householdId, ids]
+  )
+  const known = new Set(result.rows.map(row => row.id))
+  return ids.filter(id => !known.has(id))
+}
 
-        bill.payments.push({
-          id: payment.id,
-          amountCents: payment.amountCents,
-          payerId: payment.payerId,
-          note: payment.note,
-          createdAt: payment.createdAt,
-          updatedAt: payment.updatedAt,
-          payerMember: payment.payerMemberId ? {
-            id: payment.payerMemberId,
-            name: payment.payerMemberName,
-            color: payment.payerMemberColor
-          } : null,
-          allocations: allocationsResult.rows
-        })
-      }
+const FOREIGN_MEMBER_ERROR = { error: 'Splits, payers and allocations must reference members of this household' }
+
+// Whether a payment's source account or an autopay account is one of the household's financial accounts (none is fine)
+async function isHouseholdAccount(client: Pool | PoolClient, householdId: string, accountId: string | null | undefined): Promise<boolean> {
+  if (!accountId) return true
+  const result = await client.query('SELECT 1 FROM financial_accounts WHERE id = $1 AND household_id = $2', [accountId, householdId])
+  return result.rows.length > 0
+}
+
+const FOREIGN_ACCOUNT_ERROR = { error: 'Payment and autopay accounts must be accounts of this household' }
+
+// Refuses changes that would leave the household without any manager login
+async function wouldRemoveLastManager(client: Pool | PoolClient, householdId: string, memberId: string): Promise<boolean> {
+  const result = await client.query<{ count: string }>(`
+    SELECT COUNT(*) as count FROM members
+    WHERE household_id = $1 AND role = 'manager' AND account_id IS NOT NULL AND id <> $2 AND deleted_at IS NULL
+  `, [householdId, memberId])
+  return parseInt(result.rows[0].count) === 0
+}
+
+app.get('/api/auth/status', async (req, res) => {
+  try {
+    const accountsResult = await query('SELECT COUNT(*) as count FROM member_accounts')
+    const needsSetup = parseInt(accountsResult.rows[0].count) === 0
+
+    // Before the first account exists, expose member names so a manager can be chosen
+    let members = []
+    if (needsSetup) {
+      const membersResult = await query(
+        'SELECT id, name, color FROM members WHERE household_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC',
+        [DEFAULT_HOUSEHOLD_ID]
+      )
+      members = membersResult.rows
     }
 
-    res.json(bills)
+    res.json({ needsSetup, members })
   } catch (error) {
-    console.error('Bills fetch error:', error)
-    res.status(500).json({ error: 'Failed to fetch bills' })
+    console.error('Auth status error:', error)
+    res.status(500).json({ error: 'Failed to fetch auth status' })
   }
 })
 
-app.post('/api/bills', async (req, res) => {
+app.post('/api/auth/setup', async (req, res) => {
   try {
-    const { name, amount, amountCents, dueDate, recurringBillId, period, splitMode, splits } = req.body
-    // Handle both frontend (amount in dollars) and API (amountCents) formats
-    const finalAmountCents = amountCents || (amount ? Math.round(amount * 100) : 0)
+    const { memberId, username, password } = req.body
+
+    if (!memberId || !username || !password) {
+      return res.status(400).json({ error: 'Missing required fields: memberId, username, password' })
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+    }
+
     const client = await pool.connect()
     try {
       await client.query('BEGIN')
+      // Serialize setup so two first-time visitors cannot both become manager
+      await client.query('LOCK TABLE member_accounts IN EXCLUSIVE MODE')
 
-      const billResult = await client.query(`
-        INSERT INTO bills (name, amount_cents, due_date, recurring_bill_id, period, split_mode)
-        VALUES ($1, $2, $3, $4, $5, $6)
-        RETURNING id, name, amount_cents as "amountCents", due_date as "dueDate",
-                 recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
-                 created_at as "createdAt", updated_at as "updatedAt"
-      `, [name, finalAmountCents, new Date(dueDate), recurringBillId, period, splitMode])
-
-      const bill = billResult.rows[0]
+      const accountsResult = await client.query('SELECT COUNT(*) as count FROM member_accounts')
+      if (parseInt(accountsResult.rows[0].count) > 0) {
+        await client.query('ROLLBACK')
+        return res.status(409).json({ error: 'Setup has already been completed' })
+      }
 
-      if (splits && splits.length > 0) {
-        // Insert splits one by one to avoid parameter binding issues
-        const insertedSplits = []
-        for (const split of splits) {
-          const splitResult = await client.query(`
-            INSERT INTO bill_splits (bill_id, member_id, value)
-            VALUES ($1, $2, $3)
-            RETURNING id, member_id as "memberId", value
-          `, [bill.id, split.memberId || split.personId, split.value])
-          insertedSplits.push(splitResult.rows[0])
-        }
-        bill.splits = insertedSplits
-      } else {
-        bill.splits = []
+      const memberResult = await client.query(
+        'SELECT id FROM members WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+        [memberId, DEFAULT_HOUSEHOLD_ID]
+      )
+      if (memberResult.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Member not found' })
       }
 
+      const accountResult = await client.query(`
+        INSERT INTO member_accounts (username, password_hash)
+        VALUES ($1, $2)
+        RETURNING id
+      `, [username.trim().toLowerCase(), await hashPassword(password)])
+      const accountId = accountResult.rows[0].id
+
+      await client.query(`UPDATE members SET account_id = $2, role = 'manager' WHERE id = $1`, [memberId, accountId])
+      const result = await createSession(client, accountId, DEFAULT_HOUSEHOLD_ID)
+
       await client.query('COMMIT')
-      res.json(bill)
+      res.json(result)
     } catch (error) {
       await client.query('ROLLBACK')
       throw error
@@ -280,125 +392,155 @@ app.post('/api/bills', async (req, res) => {
       client.release()
     }
   } catch (error) {
-    console.error('Bill creation error:', error)
-    res.status(500).json({ error: 'Failed to create bill' })
+    console.error('Auth setup error:', error)
+    res.status(500).json({ error: 'Failed to complete setup' })
   }
 })
 
-app.put('/api/bills/:id', async (req, res) => {
+app.post('/api/auth/login', async (req, res) => {
   try {
-    const { name, amountCents, dueDate, splitMode, splits } = req.body
-    const client = await pool.connect()
-    try {
-      await client.query('BEGIN')
-
-      // Update the bill
-      const billResult = await client.query(`
-        UPDATE bills SET
-          name = $2,
-          amount_cents = $3,
-          due_date = $4,
-          split_mode = $5,
-          updated_at = NOW()
-        WHERE id = $1
-        RETURNING id, name, amount_cents as "amountCents", due_date as "dueDate",
-                 recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
-                 created_at as "createdAt", updated_at as "updatedAt"
-      `, [req.params.id, name, amountCents, new Date(dueDate), splitMode])
+    const { username, password } = req.body
 
-      const bill = billResult.rows[0]
+    if (!username || !password) {
+      return res.status(400).json({ error: 'Missing required fields: username, password' })
+    }
 
-      // Delete existing splits
-      await client.query('DELETE FROM bill_splits WHERE bill_id = $1', [req.params.id])
+    const accountResult = await query(
+      'SELECT id, password_hash FROM member_accounts WHERE username = $1',
+      [String(username).trim().toLowerCase()]
+    )
+    const account = accountResult.rows[0]
 
-      // Insert new splits
-      if (splits && splits.length > 0) {
-        // Insert splits one by one to avoid parameter binding issues
-        const insertedSplits = []
-        for (const split of splits) {
-          const splitResult = await client.query(`
-            INSERT INTO bill_splits (bill_id, member_id, value)
-            VALUES ($1, $2, $3)
-            RETURNING id, member_id as "memberId", value
-          `, [bill.id, split.memberId || split.personId, split.value])
-          insertedSplits.push(splitResult.rows[0])
-        }
-        bill.splits = insertedSplits
-      } else {
-        bill.splits = []
-      }
+    if (!account || !(await verifyPassword(password, account.password_hash))) {
+      return res.status(401).json({ error: 'Invalid username or password' })
+    }
 
-      await client.query('COMMIT')
-      res.json(bill)
-    } catch (error) {
-      await client.query('ROLLBACK')
-      throw error
-    } finally {
-      client.release()
+    // Start in the household the account joined first
+    const membershipResult = await query(
+      'SELECT household_id FROM members WHERE account_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC LIMIT 1',
+      [account.id]
+    )
+    if (membershipResult.rows.length === 0) {
+      return res.status(403).json({ error: 'This login is not a member of any household' })
     }
+
+    await query('DELETE FROM sessions WHERE account_id = $1 AND expires_at <= NOW()', [account.id])
+    res.json(await createSession(pool, account.id, membershipResult.rows[0].household_id))
   } catch (error) {
-    console.error('Bill update error:', error)
-    res.status(500).json({ error: 'Failed to update bill' })
+    console.error('Login error:', error)
+    res.status(500).json({ error: 'Failed to log in' })
   }
 })
 
-app.delete('/api/bills/:id', async (req, res) => {
+interface PendingInvite {
+  id: string
+  household_id: string
+  role: MemberRole
+  expiresAt: Date
+  householdName: string
+}
+
+// Invite links: anyone holding the token can see which household it is for and join it
+async function findPendingInvite(client: Pool | PoolClient, token: string): Promise<PendingInvite | undefined> {
+  const result = await client.query<PendingInvite>(`
+    SELECT i.id, i.household_id, i.role, i.expires_at as "expiresAt", h.name as "householdName"
+    FROM household_invites i
+    JOIN households h ON h.id = i.household_id
+    WHERE i.token_hash = $1 AND i.accepted_at IS NULL AND i.expires_at > NOW()
+  `, [hashToken(token)])
+  return result.rows[0]
+}
+
+app.get('/api/invites/:token', async (req, res) => {
   try {
-    await query('DELETE FROM bills WHERE id = $1', [req.params.id])
-    res.json({ success: true })
+    const invite = await findPendingInvite(pool, req.params.token)
+    if (!invite) {
+      return res.status(404).json({ error: 'Invite not found or expired' })
+    }
+    res.json({ householdName: invite.householdName, role: invite.role, expiresAt: invite.expiresAt })
   } catch (error) {
-    console.error('Bill deletion error:', error)
-    res.status(500).json({ error: 'Failed to delete bill' })
+    console.error('Invite fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch invite' })
   }
 })
 
-// Payments API
-app.post('/api/payments', async (req, res) => {
+// Signed-in callers join with their existing login; everyone else creates one with name/username/password
+app.post('/api/invites/:token/accept', async (req, res) => {
   try {
-    const { billId, paidDate, amountCents, method, payerMemberId, note, receiptFilename, receiptData, allocations } = req.body
+    const { name, color, username, password } = req.body || {}
+    const bearerToken = getBearerToken(req)
+    const currentSession = bearerToken ? await findSession(pool, bearerToken) : undefined
+
+    if (!currentSession) {
+      if (!name || !username || !password) {
+        return res.status(400).json({ error: 'Missing required fields: name, username, password' })
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+      }
+    }
+
     const client = await pool.connect()
     try {
       await client.query('BEGIN')
 
-      const paymentResult = await client.query(`
-        INSERT INTO payments (bill_id, paid_date, amount_cents, method, payer_member_id, note, receipt_filename, receipt_data)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        RETURNING id, bill_id as "billId", paid_date as "paidDate", amount_cents as "amountCents",
-                 method, payer_member_id as "payerMemberId", note, receipt_filename as "receiptFilename",
-                 receipt_data as "receiptData", created_at as "createdAt"
-      `, [billId, new Date(paidDate), amountCents, method, payerMemberId, note, receiptFilename, receiptData])
-
-      const payment = paymentResult.rows[0]
-
-      // Insert allocations
-      if (allocations && allocations.length > 0) {
-        // Insert allocations one by one to avoid parameter binding issues
-        const insertedAllocations = []
-        for (const allocation of allocations) {
-          const allocResult = await client.query(`
-            INSERT INTO payment_allocations (payment_id, member_id, amount_cents)
-            VALUES ($1, $2, $3)
-            RETURNING id, member_id as "memberId", amount_cents as "amountCents"
-          `, [payment.id, allocation.memberId, allocation.amountCents])
-          insertedAllocations.push(allocResult.rows[0])
-        }
-        payment.allocations = insertedAllocations
-      } else {
-        payment.allocations = []
+      const invite = await findPendingInvite(client, req.params.token)
+      if (!invite) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Invite not found or expired' })
       }
+      // Lock the invite so it can only be accepted once
+      await client.query('SELECT id FROM household_invites WHERE id = $1 FOR UPDATE', [invite.id])
+
+      let accountId: string
+      let memberName: string
+      let memberColor: string
+      if (currentSession) {
+        const existingResult = await client.query(
+          'SELECT id FROM members WHERE household_id = $1 AND account_id = $2',
+          [invite.household_id, currentSession.accountId]
+        )
+        if (existingResult.rows.length > 0) {
+          await client.query('ROLLBACK')
+          return res.status(409).json({ error: 'You are already a member of this household' })
+        }
 
-      // Fetch payer member info
-      if (payerMemberId) {
-        const memberResult = await client.query(`
-          SELECT id, name, color FROM members WHERE id = $1
-        `, [payerMemberId])
-        payment.payerMember = memberResult.rows[0] || null
+        const memberResult = await client.query('SELECT name, color FROM members WHERE id = $1', [currentSession.memberId])
+        accountId = currentSession.accountId
+        memberName = memberResult.rows[0].name
+        memberColor = memberResult.rows[0].color
       } else {
-        payment.payerMember = null
+        const normalizedUsername = username.trim().toLowerCase()
+        const takenResult = await client.query('SELECT id FROM member_accounts WHERE username = $1', [normalizedUsername])
+        if (takenResult.rows.length > 0) {
+          await client.query('ROLLBACK')
+          return res.status(409).json({ error: 'Username is already taken' })
+        }
+
+        const accountResult = await client.query(`
+          INSERT INTO member_accounts (username, password_hash)
+          VALUES ($1, $2)
+          RETURNING id
+        `, [normalizedUsername, await hashPassword(password)])
+        accountId = accountResult.rows[0].id
+        memberName = name
+        memberColor = color || 'bg-emerald-500'
       }
 
-      await client.query('COMMIT')
-      res.json(payment)
+      await client.query(`
+        INSERT INTO members (household_id, name, color, account_id, role)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [invite.household_id, memberName, memberColor, accountId, invite.role])
+
+      await client.query(`
+        UPDATE household_invites SET accepted_at = NOW(), accepted_by_account_id = $2
+        WHERE id = $1
+      `, [invite.id, accountId])
+
+      const result = await createSession(client, accountId, invite.household_id)
+
+      await client.query('COMMIT')
+      res.json(result)
     } catch (error) {
       await client.query('ROLLBACK')
       throw error
@@ -406,155 +548,316 @@ app.post('/api/payments', async (req, res) => {
       client.release()
     }
   } catch (error) {
-    console.error('Payment creation error:', error)
-    res.status(500).json({ error: 'Failed to create payment' })
+    console.error('Invite acceptance error:', error)
+    res.status(500).json({ error: 'Failed to accept invite' })
   }
 })
 
-app.put('/api/payments/:id', async (req, res) => {
-  try {
-    const { paidDate, amountCents, method, payerMemberId, note, allocations } = req.body
-    const client = await pool.connect()
-    try {
-      await client.query('BEGIN')
-
-      // Update the payment
-      const paymentResult = await client.query(`
-        UPDATE payments SET
-          paid_date = $2,
-          amount_cents = $3,
-          method = $4,
-          payer_member_id = $5,
-          note = $6
-        WHERE id = $1
-        RETURNING id, bill_id as "billId", paid_date as "paidDate", amount_cents as "amountCents",
-                 method, payer_member_id as "payerMemberId", note, receipt_filename as "receiptFilename",
-                 receipt_data as "receiptData", created_at as "createdAt"
-      `, [req.params.id, new Date(paidDate), amountCents, method, payerMemberId, note])
+// Due items: everything the household still has to pay, with each member's share. Shared by the
+// calendar feeds and the reminder notifications.
+interface DueItem {
+  // Stable per occurrence, e.g. 'mortgage-<id>-2025-03'
+  key: string
+  type: 'bill' | 'mortgage' | 'financed-expense-payment' | 'recurring-bill'
+  id: string
+  name: string
+  // 'YYYY-MM-DD'
+  dueDate: string
+  amount: number
+  splits: CalculatedSplit[]
+  isOverdue: boolean
+  // Bills of variable recurring bills until their statement amount is entered
+  isEstimated: boolean
+  // Financial account the item is paid from automatically, if any
+  autopayAccountId: string | null
+}
 
-      const payment = paymentResult.rows[0]
+// Money columns are in cents; splits keep their stored values, as the bill screens do
+const SPLITS_JSON = (table: string, column: string, id: string) => `
+  COALESCE((SELECT json_agg(json_build_object('personId', s.member_id, 'value', s.value))
+            FROM ${table} s WHERE s.${column} = ${id}), '[]') as splits
+`
+
+// Amounts of a recurring bill's confirmed bills, which variable recurring bills are estimated from
+const CONFIRMED_AMOUNTS_JSON = (recurringBillId: string) => `
+  COALESCE((SELECT json_agg(json_build_object('dueDate', to_char(b.due_date, 'YYYY-MM-DD'), 'amountCents', b.amount_cents))
+            FROM bills b WHERE b.recurring_bill_id = ${recurringBillId} AND NOT b.is_estimated AND b.deleted_at IS NULL), '[]') as "confirmedAmounts"
+`
+
+// Unpaid bills and financed expense payments (overdue once their due date has passed, as in the
+// payment-status analytics), mortgage cycles from the current one (overdue per resolveItemCycle) and
+// recurring bill occurrences that have not been generated yet, through `throughPeriod`
+async function loadDueItems(householdId: string, throughPeriod: string): Promise<{ people: Person[]; items: DueItem[] }> {
+  const today = new Date()
+  const people: Person[] = (await query(
+    'SELECT id, name, color FROM members WHERE household_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC',
+    [householdId]
+  )).rows
+
+  const items: DueItem[] = []
+  const addItem = (item: Omit<DueItem, 'amount' | 'splits'>, splittable: Splittable) => {
+    items.push({ ...item, amount: splittable.amount, splits: calculateSplitAmounts(splittable, people) })
+  }
 
-      // Delete existing allocations
-      await client.query('DELETE FROM payment_allocations WHERE payment_id = $1', [req.params.id])
+  const billsResult = await query(`
+    SELECT b.id, b.name, to_char(b.due_date, 'YYYY-MM-DD') as "dueDate", b.amount_cents as "amountCents",
+           b.due_date < CURRENT_DATE as "isOverdue", b.is_estimated as "isEstimated", b.split_mode as "splitMode", b.autopay_account_id as "autopayAccountId",
+           ${SPLITS_JSON('bill_splits', 'bill_id', 'b.id')}
+    FROM bills b
+    WHERE b.household_id = $1 AND b.deleted_at IS NULL
+      AND b.amount_cents > COALESCE((SELECT SUM(p.amount_cents) FROM payments p WHERE p.bill_id = b.id AND p.deleted_at IS NULL), 0)
+  `, [householdId])
+  for (const bill of billsResult.rows) {
+    addItem(
+      {
+        key: `bill-${bill.id}`, type: 'bill', id: bill.id, name: bill.name, dueDate: bill.dueDate, isOverdue: bill.isOverdue,
+        isEstimated: bill.isEstimated, autopayAccountId: bill.autopayAccountId
+      },
+      { amount: bill.amountCents / 100, splitMode: bill.splitMode, splits: bill.splits }
+    )
+  }
 
-      // Insert new allocations
-      if (allocations && allocations.length > 0) {
-        // Insert allocations one by one to avoid parameter binding issues
-        const insertedAllocations = []
-        for (const allocation of allocations) {
-          const allocResult = await client.query(`
-            INSERT INTO payment_allocations (payment_id, member_id, amount_cents)
-            VALUES ($1, $2, $3)
-            RETURNING id, member_id as "memberId", amount_cents as "amountCents"
-          `, [payment.id, allocation.memberId, allocation.amountCents])
-          insertedAllocations.push(allocResult.rows[0])
-        }
-        payment.allocations = insertedAllocations
-      } else {
-        payment.allocations = []
-      }
+  const mortgagesResult = await query(`
+    SELECT m.id, m.name, to_char(m.start_date, 'YYYY-MM-DD') as "startDate", m.payment_day as "paymentDay",
+           m.term_months as "termMonths", m.scheduled_payment_cents as "scheduledPaymentCents",
+           m.split_mode as "splitMode", m.autopay_account_id as "autopayAccountId",
+           ${SPLITS_JSON('mortgage_splits', 'mortgage_id', 'm.id')}
+    FROM mortgages m
+    WHERE m.household_id = $1 AND m.active = true AND m.deleted_at IS NULL
+  `, [householdId])
+  const mortgagePaymentsResult = await query(`
+    SELECT mp.id, mp.mortgage_id as "mortgageId", to_char(mp.paid_date, 'YYYY-MM-DD') as "paidDate", mp.amount_cents as "amountCents"
+    FROM mortgage_payments mp
+    JOIN mortgages m ON mp.mortgage_id = m.id
+    WHERE m.household_id = $1 AND mp.deleted_at IS NULL
+  `, [householdId])
+  for (const row of mortgagesResult.rows) {
+    const mortgage = {
+      id: row.id,
+      name: row.name,
+      start_date: row.startDate,
+      payment_day: row.paymentDay,
+      term_months: row.termMonths,
+      scheduled_payment: row.scheduledPaymentCents / 100,
+      splitMode: row.splitMode,
+      splits: row.splits
+    } as Mortgage
+    const payments: MortgagePayment[] = mortgagePaymentsResult.rows
+      .filter(payment => payment.mortgageId === row.id)
+      .map(payment => ({ id: payment.id, mortgageId: payment.mortgageId, paidDate: payment.paidDate, amount: payment.amountCents / 100, method: 'other' }))
+
+    // Start from the current cycle unless it is already paid, and stop at the last payment of the term
+    const firstDueDate = computeFirstDueDate(new Date(`${row.startDate}T00:00:00`), row.paymentDay)
+    const cycle = resolveItemCycle(mortgage, payments, people, today)
+    const currentPeriod = formatPeriod(cycle?.dueDate ?? firstDueDate)
+    let period = cycle?.status === 'Paid' ? addMonthsToPeriod(currentPeriod, 1) : currentPeriod
+    const lastPeriod = addMonthsToPeriod(formatPeriod(firstDueDate), row.termMonths - 1)
+
+    for (; period <= throughPeriod && period <= lastPeriod; period = addMonthsToPeriod(period, 1)) {
+      addItem({
+        key: `mortgage-${row.id}-${period}`,
+        type: 'mortgage',
+        id: row.id,
+        name: row.name,
+        dueDate: getRecurringDueDate(period, row.paymentDay),
+        isOverdue: period === currentPeriod && cycle?.status === 'Overdue',
+        isEstimated: false,
+        autopayAccountId: row.autopayAccountId
+      }, { ...mortgage, amount: mortgage.scheduled_payment })
+    }
+  }
 
-      // Fetch payer member info
-      if (payerMemberId) {
-        const memberResult = await client.query(`
-          SELECT id, name, color FROM members WHERE id = $1
-        `, [payerMemberId])
-        payment.payerMember = memberResult.rows[0] || null
-      } else {
-        payment.payerMember = null
-      }
+  const financedResult = await query(`
+    SELECT p.id, fe.title, p.payment_number as "paymentNumber", to_char(p.due_date, 'YYYY-MM-DD') as "dueDate",
+           p.due_date < CURRENT_DATE as "isOverdue", p.amount_cents as "amountCents", fe.split_mode as "splitMode",
+           fe.autopay_account_id as "autopayAccountId", ${SPLITS_JSON('financed_expense_splits', 'financed_expense_id', 'fe.id')}
+    FROM financed_expense_payments p
+    JOIN financed_expenses fe ON p.financed_expense_id = fe.id
+    WHERE fe.household_id = $1 AND p.is_paid = false AND fe.deleted_at IS NULL
+  `, [householdId])
+  for (const payment of financedResult.rows) {
+    // Amount splits are of the whole purchase, so each installment is shared in the same proportions
+    const splitMode = payment.splitMode === 'amount' ? 'shares' : payment.splitMode
+    addItem({
+      key: `financed-payment-${payment.id}`,
+      type: 'financed-expense-payment',
+      id: payment.id,
+      name: `${payment.title} - Payment #${payment.paymentNumber}`,
+      dueDate: payment.dueDate,
+      isOverdue: payment.isOverdue,
+      isEstimated: false,
+      autopayAccountId: payment.autopayAccountId
+    }, { amount: payment.amountCents / 100, splitMode, splits: payment.splits })
+  }
 
-      await client.query('COMMIT')
-      res.json(payment)
+  const recurringResult = await query(`
+    SELECT rb.id, rb.name, rb.amount_cents as "amountCents", rb.day_of_month as "dayOfMonth", rb.frequency,
+           rb.recurrence_rule as "recurrenceRule", rb.last_generated_period as "lastGeneratedPeriod", rb.split_mode as "splitMode", rb.autopay_account_id as "autopayAccountId",
+           ${RECURRING_BILL_SCHEDULE_COLUMNS}, rb.amount_mode as "amountMode", rb.estimate_method as "estimateMethod",
+           ${CONFIRMED_AMOUNTS_JSON('rb.id')},
+           EXISTS (SELECT 1 FROM bills b WHERE b.recurring_bill_id = rb.id) as "hasGeneratedBills",
+           ${SPLITS_JSON('recurring_bill_splits', 'recurring_bill_id', 'rb.id')}
+    FROM recurring_bills rb
+    WHERE rb.household_id = $1 AND rb.archived_at IS NULL AND rb.deleted_at IS NULL
+  `, [householdId])
+  for (const recurringBill of recurringResult.rows) {
+    let occurrences: { period: string; dueDate: string }[]
+    try {
+      occurrences = getPendingRecurringOccurrences(recurringBill, throughPeriod, recurringBill.hasGeneratedBills)
     } catch (error) {
-      await client.query('ROLLBACK')
-      throw error
-    } finally {
-      client.release()
+      console.warn(`Skipping recurring bill ${recurringBill.id}:`, error instanceof Error ? error.message : error)
+      continue
+    }
+    const splittable = { amount: recurringBill.amountCents / 100, splitMode: recurringBill.splitMode, splits: recurringBill.splits }
+    const isEstimated = recurringBill.amountMode === 'variable'
+    for (const { period, dueDate } of occurrences) {
+      const amountCents = isEstimated
+        ? estimateBillAmount(recurringBill.estimateMethod, recurringBill.confirmedAmounts, dueDate, recurringBill.amountCents)
+        : recurringBill.amountCents
+      addItem({
+        key: `recurring-${recurringBill.id}-${period}`,
+        type: 'recurring-bill',
+        id: recurringBill.id,
+        name: recurringBill.name,
+        dueDate,
+        isOverdue: false,
+        isEstimated,
+        autopayAccountId: recurringBill.autopayAccountId
+      }, splitForAmount(splittable, amountCents / 100))
+    }
+  }
+
+  return { people, items }
+}
+
+// Whether a member owes part of a due item
+const owesShareOf = (item: DueItem, memberId: string) => item.splits.some(split => split.personId === memberId && split.amount > 0)
+
+// Calendar feeds: calendar apps subscribe to a secret URL instead of signing in, so the feed itself
+// is public and the token decides the household (and, for a member's feed, whose shares are listed)
+const CALENDAR_HORIZON_MONTHS = 12
+
+async function buildCalendarEvents(householdId: string, memberId: string | null): Promise<CalendarEvent[]> {
+  const throughPeriod = addMonthsToPeriod(formatPeriod(new Date()), CALENDAR_HORIZON_MONTHS)
+  const { people, items } = await loadDueItems(householdId, throughPeriod)
+  return items
+    .filter(item => !memberId || owesShareOf(item, memberId))
+    .map(item => ({
+      uid: `${item.key}@family-growth-tracker`,
+      date: item.dueDate,
+      summary: `${item.name} due ($${item.amount.toFixed(2)})`,
+      description: describeSplits(item.amount, item.splits, people)
+    }))
+}
+
+app.get('/api/calendar/:token.ics', async (req, res) => {
+  try {
+    const result = await query(`
+      UPDATE calendar_feeds f SET last_accessed_at = NOW()
+      FROM households h
+      WHERE f.token_hash = $1 AND h.id = f.household_id
+      RETURNING f.household_id as "householdId", f.member_id as "memberId", h.name as "householdName",
+                (SELECT name FROM members WHERE id = f.member_id) as "memberName"
+    `, [hashToken(req.params.token)])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Calendar feed not found' })
     }
+
+    const feed = result.rows[0]
+    const events = await buildCalendarEvents(feed.householdId, feed.memberId)
+    const calendarName = feed.memberName ? `${feed.householdName} - ${feed.memberName}` : feed.householdName
+    res.set('Content-Type', 'text/calendar; charset=utf-8')
+    res.send(buildICalendar(`${calendarName} bills`, events))
   } catch (error) {
-    console.error('Payment update error:', error)
-    res.status(500).json({ error: 'Failed to update payment' })
+    console.error('Calendar feed error:', error)
+    res.status(500).json({ error: 'Failed to build calendar feed' })
   }
 })
 
-app.delete('/api/payments/:id', async (req, res) => {
+// Every API route registered below requires a valid session
+app.use('/api/', requireAuth)
+
+app.get('/api/auth/session', (req, res) => {
+  const { sessionId, ...session } = req.auth!
+  res.json(session)
+})
+
+app.post('/api/auth/logout', async (req, res) => {
   try {
-    await query('DELETE FROM payments WHERE id = $1', [req.params.id])
+    await query('DELETE FROM sessions WHERE id = $1', [req.auth!.sessionId])
     res.json({ success: true })
   } catch (error) {
-    console.error('Payment deletion error:', error)
-    res.status(500).json({ error: 'Failed to delete payment' })
+    console.error('Logout error:', error)
+    res.status(500).json({ error: 'Failed to log out' })
   }
 })
 
-// Recurring Bills API
-app.get('/api/recurring-bills', async (req, res) => {
+app.post('/api/auth/switch-household', async (req, res) => {
+  try {
+    const { householdId } = req.body
+
+    const membershipResult = await query(
+      'SELECT id FROM members WHERE household_id = $1 AND account_id = $2 AND deleted_at IS NULL',
+      [householdId, req.auth!.accountId]
+    )
+    if (membershipResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Household not found' })
+    }
+
+    await query('UPDATE sessions SET household_id = $2 WHERE id = $1', [req.auth!.sessionId, householdId])
+    const result = await query(`${SESSION_SELECT} WHERE s.id = $1`, [req.auth!.sessionId])
+    const { sessionId, ...session } = result.rows[0]
+    res.json(session)
+  } catch (error) {
+    console.error('Household switch error:', error)
+    res.status(500).json({ error: 'Failed to switch household' })
+  }
+})
+
+// Households API
+app.get('/api/households', async (req, res) => {
   try {
     const result = await query(`
-      SELECT
-        rb.id, rb.name, rb.amount_cents as "amountCents", rb.day_of_month as "dayOfMonth",
-        rb.frequency, rb.last_generated_period as "lastGeneratedPeriod", rb.split_mode as "splitMode",
-        rb.created_at as "createdAt", rb.updated_at as "updatedAt",
-        COALESCE(
-          json_agg(
-            DISTINCT jsonb_build_object(
-              'id', rbs.id,
-              'memberId', rbs.member_id,
-              'value', rbs.value
-            )
-          ) FILTER (WHERE rbs.id IS NOT NULL),
-          '[]'
-        ) as splits
-      FROM recurring_bills rb
-      LEFT JOIN recurring_bill_splits rbs ON rb.id = rbs.recurring_bill_id
-      GROUP BY rb.id
-      ORDER BY rb.created_at ASC
-    `)
+      SELECT h.id, h.name, m.id as "memberId", m.role, h.created_at as "createdAt"
+      FROM members m
+      JOIN households h ON h.id = m.household_id
+      WHERE m.account_id = $1 AND m.deleted_at IS NULL
+      ORDER BY m.created_at ASC
+    `, [req.auth!.accountId])
     res.json(result.rows)
   } catch (error) {
-    console.error('Recurring bills fetch error:', error)
-    res.status(500).json({ error: 'Failed to fetch recurring bills' })
+    console.error('Households fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch households' })
   }
 })
 
-app.post('/api/recurring-bills', async (req, res) => {
+// Creates a new household (e.g. one for costs shared with another family) managed by the caller
+app.post('/api/households', async (req, res) => {
   try {
-    const { name, amount, amountCents, dayOfMonth, frequency, lastGeneratedPeriod, splitMode, splits } = req.body
-    // Handle both frontend (amount in dollars) and API (amountCents) formats
-    const finalAmountCents = amountCents || (amount ? Math.round(amount * 100) : 0)
+    const { name } = req.body
+
+    if (!name) {
+      return res.status(400).json({ error: 'Missing required fields: name' })
+    }
+
     const client = await pool.connect()
     try {
       await client.query('BEGIN')
 
-      const billResult = await client.query(`
-        INSERT INTO recurring_bills (name, amount_cents, day_of_month, frequency, last_generated_period, split_mode)
-        VALUES ($1, $2, $3, $4, $5, $6)
-        RETURNING id, name, amount_cents as "amountCents", day_of_month as "dayOfMonth",
-                 frequency, last_generated_period as "lastGeneratedPeriod", split_mode as "splitMode",
-                 created_at as "createdAt", updated_at as "updatedAt"
-      `, [name, finalAmountCents, dayOfMonth, frequency, lastGeneratedPeriod, splitMode])
-
-      const recurringBill = billResult.rows[0]
+      const householdResult = await client.query(`
+        INSERT INTO households (name) VALUES ($1)
+        RETURNING id, name, created_at as "createdAt"
+      `, [name])
+      const household = householdResult.rows[0]
 
-      if (splits && splits.length > 0) {
-        // Insert splits one by one to avoid parameter binding issues
-        const insertedSplits = []
-        for (const split of splits) {
-          const splitResult = await client.query(`
-            INSERT INTO recurring_bill_splits (recurring_bill_id, member_id, value)
-            VALUES ($1, $2, $3)
-            RETURNING id, member_id as "memberId", value
-          `, [recurringBill.id, split.memberId, split.value])
-          insertedSplits.push(splitResult.rows[0])
-        }
-        recurringBill.splits = insertedSplits
-      } else {
-        recurringBill.splits = []
-      }
+      const memberResult = await client.query(`
+        INSERT INTO members (household_id, name, color, account_id, role)
+        SELECT $1, name, color, $2, 'manager' FROM members WHERE id = $3
+        RETURNING id
+      `, [household.id, req.auth!.accountId, req.auth!.memberId])
 
       await client.query('COMMIT')
-      res.json(recurringBill)
+      res.json({ ...household, memberId: memberResult.rows[0].id, role: 'manager' })
     } catch (error) {
       await client.query('ROLLBACK')
       throw error
@@ -562,54 +865,161 @@ app.post('/api/recurring-bills', async (req, res) => {
       client.release()
     }
   } catch (error) {
-    console.error('Recurring bill creation error:', error)
-    res.status(500).json({ error: 'Failed to create recurring bill' })
+    console.error('Household creation error:', error)
+    res.status(500).json({ error: 'Failed to create household' })
+  }
+})
+
+app.put('/api/households/current', requireRole('manager'), async (req, res) => {
+  try {
+    const { name } = req.body
+
+    if (!name) {
+      return res.status(400).json({ error: 'Missing required fields: name' })
+    }
+
+    const result = await query(`
+      UPDATE households SET name = $2, updated_at = NOW()
+      WHERE id = $1
+      RETURNING id, name, created_at as "createdAt"
+    `, [req.auth!.householdId, name])
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Household update error:', error)
+    res.status(500).json({ error: 'Failed to update household' })
   }
 })
 
-app.put('/api/recurring-bills/:id', async (req, res) => {
+// Deletes the current household and everything in it; logins left without a household are removed too
+app.delete('/api/households/current', requireRole('manager'), async (req, res) => {
   try {
-    const { name, amountCents, dayOfMonth, frequency, splitMode, splits } = req.body
+    const membershipsResult = await query('SELECT COUNT(*) as count FROM members WHERE account_id = $1 AND deleted_at IS NULL', [req.auth!.accountId])
+    if (parseInt(membershipsResult.rows[0].count) <= 1) {
+      return res.status(400).json({ error: 'You cannot delete your only household' })
+    }
+
     const client = await pool.connect()
     try {
       await client.query('BEGIN')
 
-      const billResult = await client.query(`
-        UPDATE recurring_bills SET
-          name = $2,
-          amount_cents = $3,
-          day_of_month = $4,
-          frequency = $5,
-          split_mode = $6,
-          updated_at = NOW()
-        WHERE id = $1
-        RETURNING id, name, amount_cents as "amountCents", day_of_month as "dayOfMonth",
-                 frequency, last_generated_period as "lastGeneratedPeriod", split_mode as "splitMode",
-                 created_at as "createdAt", updated_at as "updatedAt"
-      `, [req.params.id, name, amountCents, dayOfMonth, frequency, splitMode])
+      const accountsResult = await client.query(
+        'SELECT account_id FROM members WHERE household_id = $1 AND account_id IS NOT NULL',
+        [req.auth!.householdId]
+      )
+      await client.query('DELETE FROM households WHERE id = $1', [req.auth!.householdId])
+      await client.query(`
+        DELETE FROM member_accounts a
+        WHERE a.id = ANY($1) AND NOT EXISTS (SELECT 1 FROM members m WHERE m.account_id = a.id)
+      `, [accountsResult.rows.map(row => row.account_id)])
 
-      const recurringBill = billResult.rows[0]
+      await client.query('COMMIT')
+      res.json({ success: true })
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Household deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete household' })
+  }
+})
 
-      await client.query('DELETE FROM recurring_bill_splits WHERE recurring_bill_id = $1', [req.params.id])
+app.post('/api/households/current/invites', requireRole('manager'), async (req, res) => {
+  try {
+    const { role = 'adult' } = req.body || {}
 
-      if (splits && splits.length > 0) {
-        // Insert splits one by one to avoid parameter binding issues
-        const insertedSplits = []
-        for (const split of splits) {
-          const splitResult = await client.query(`
-            INSERT INTO recurring_bill_splits (recurring_bill_id, member_id, value)
-            VALUES ($1, $2, $3)
-            RETURNING id, member_id as "memberId", value
-          `, [recurringBill.id, split.memberId, split.value])
-          insertedSplits.push(splitResult.rows[0])
-        }
-        recurringBill.splits = insertedSplits
-      } else {
-        recurringBill.splits = []
-      }
+    if (!MEMBER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${MEMBER_ROLES.join(', ')}` })
+    }
+
+    const token = randomBytes(24).toString('hex')
+    const result = await query(`
+      INSERT INTO household_invites (household_id, token_hash, role, created_by_account_id, expires_at)
+      VALUES ($1, $2, $3, $4, NOW() + $5 * INTERVAL '1 day')
+      RETURNING id, role, expires_at as "expiresAt", created_at as "createdAt"
+    `, [req.auth!.householdId, hashToken(token), role, req.auth!.accountId, INVITE_TTL_DAYS])
+
+    // The raw token is only returned here; the database keeps its hash
+    res.json({ ...result.rows[0], token })
+  } catch (error) {
+    console.error('Invite creation error:', error)
+    res.status(500).json({ error: 'Failed to create invite' })
+  }
+})
+
+// Accounts API (manager only, limited to logins that belong to the caller's household)
+const ACCOUNT_SELECT = `
+  SELECT a.id, m.id as "memberId", m.name as "memberName", a.username, m.role,
+         a.created_at as "createdAt", a.updated_at as "updatedAt"
+  FROM members m
+  JOIN member_accounts a ON a.id = m.account_id
+`
+
+app.get('/api/accounts', requireRole('manager'), async (req, res) => {
+  try {
+    const result = await query(`
+      ${ACCOUNT_SELECT}
+      WHERE m.household_id = $1 AND m.deleted_at IS NULL
+      ORDER BY m.created_at ASC
+    `, [req.auth!.householdId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Accounts fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch accounts' })
+  }
+})
+
+app.post('/api/accounts', requireRole('manager'), async (req, res) => {
+  try {
+    const { memberId, username, password, role = 'adult' } = req.body
+
+    if (!memberId || !username || !password) {
+      return res.status(400).json({ error: 'Missing required fields: memberId, username, password' })
+    }
+
+    if (!MEMBER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${MEMBER_ROLES.join(', ')}` })
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+    }
+
+    const memberResult = await query(
+      'SELECT account_id FROM members WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [memberId, req.auth!.householdId]
+    )
+    if (memberResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Member not found' })
+    }
+    if (memberResult.rows[0].account_id) {
+      return res.status(409).json({ error: 'Member already has an account' })
+    }
+
+    const normalizedUsername = username.trim().toLowerCase()
+    const takenResult = await query('SELECT id FROM member_accounts WHERE username = $1', [normalizedUsername])
+    if (takenResult.rows.length > 0) {
+      return res.status(409).json({ error: 'Username is already taken' })
+    }
+
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+
+      const accountResult = await client.query(`
+        INSERT INTO member_accounts (username, password_hash)
+        VALUES ($1, $2)
+        RETURNING id
+      `, [normalizedUsername, await hashPassword(password)])
+      const accountId = accountResult.rows[0].id
+
+      await client.query('UPDATE members SET account_id = $2, role = $3 WHERE id = $1', [memberId, accountId, role])
+      const result = await client.query(`${ACCOUNT_SELECT} WHERE m.id = $1`, [memberId])
 
       await client.query('COMMIT')
-      res.json(recurringBill)
+      res.json(result.rows[0])
     } catch (error) {
       await client.query('ROLLBACK')
       throw error
@@ -617,1969 +1027,6536 @@ app.put('/api/recurring-bills/:id', async (req, res) => {
       client.release()
     }
   } catch (error) {
-    console.error('Recurring bill update error:', error)
-    res.status(500).json({ error: 'Failed to update recurring bill' })
+    console.error('Account creation error:', error)
+    res.status(500).json({ error: 'Failed to create account' })
   }
 })
 
-app.delete('/api/recurring-bills/:id', async (req, res) => {
+app.put('/api/accounts/:id', requireRole('manager'), async (req, res) => {
   try {
-    await query('DELETE FROM recurring_bills WHERE id = $1', [req.params.id])
-    res.json({ success: true })
+    const { role, password } = req.body
+
+    if (role !== undefined && !MEMBER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${MEMBER_ROLES.join(', ')}` })
+    }
+
+    if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+    }
+
+    const existingResult = await query(
+      'SELECT id, role FROM members WHERE account_id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [req.params.id, req.auth!.householdId]
+    )
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Account not found' })
+    }
+    const member = existingResult.rows[0]
+
+    if (member.role === 'manager' && role && role !== 'manager' &&
+        await wouldRemoveLastManager(pool, req.auth!.householdId, member.id)) {
+      return res.status(400).json({ error: 'The household must keep at least one manager' })
+    }
+
+    if (password) {
+      // A login shared with other households belongs to its owner, not to this household's managers
+      const otherResult = await query(
+        'SELECT COUNT(*) as count FROM members WHERE account_id = $1 AND household_id <> $2',
+        [req.params.id, req.auth!.householdId]
+      )
+      if (parseInt(otherResult.rows[0].count) > 0) {
+        return res.status(403).json({ error: 'This login also belongs to another household; only its owner can change the password' })
+      }
+
+      await query('UPDATE member_accounts SET password_hash = $2, updated_at = NOW() WHERE id = $1', [req.params.id, await hashPassword(password)])
+      // A password reset signs the account out everywhere
+      await query('DELETE FROM sessions WHERE account_id = $1', [req.params.id])
+    }
+
+    if (role) {
+      await query('UPDATE members SET role = $2, updated_at = NOW() WHERE id = $1', [member.id, role])
+    }
+
+    const result = await query(`${ACCOUNT_SELECT} WHERE m.id = $1`, [member.id])
+    res.json(result.rows[0])
   } catch (error) {
-    console.error('Recurring bill deletion error:', error)
-    res.status(500).json({ error: 'Failed to delete recurring bill' })
+    console.error('Account update error:', error)
+    res.status(500).json({ error: 'Failed to update account' })
   }
 })
 
-// Mortgages API
-app.get('/api/mortgages', async (req, res) => {
+// Removes the login from this household; the account itself is deleted once it belongs nowhere
+app.delete('/api/accounts/:id', requireRole('manager'), async (req, res) => {
   try {
-    console.log('=== MORTGAGE GET DEBUG ===')
-    // Get all mortgages with splits
-    const mortgagesResult = await query(`
-      SELECT
-        id, name, lender, is_primary,
-        original_principal_cents, current_principal_cents,
-        interest_rate_apy, term_months,
-        start_date, scheduled_payment_cents,
-        payment_day, escrow_enabled,
-        escrow_taxes_cents, escrow_insurance_cents,
-        escrow_mip_cents, escrow_hoa_cents,
-        notes, active, split_mode,
-        created_at, updated_at
-      FROM mortgages
-      ORDER BY created_at DESC
-    `)
+    const existingResult = await query(
+      'SELECT id, role FROM members WHERE account_id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [req.params.id, req.auth!.householdId]
+    )
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Account not found' })
+    }
+    const member = existingResult.rows[0]
 
-    // Get splits for each mortgage and convert cents to dollars as numbers
-    const mortgages = []
-    for (const mortgage of mortgagesResult.rows) {
-      const splitsResult = await query(`
-        SELECT id, member_id as "memberId", value
-        FROM mortgage_splits
-        WHERE mortgage_id = $1
-      `, [mortgage.id])
+    if (member.role === 'manager' && await wouldRemoveLastManager(pool, req.auth!.householdId, member.id)) {
+      return res.status(400).json({ error: 'The household must keep at least one manager' })
+    }
 
-      // Convert to API format: camelCase field names with cent amounts
-      const formattedMortgage = {
-        id: mortgage.id,
-        name: mortgage.name,
-        lender: mortgage.lender,
-        isPrimary: mortgage.is_primary,
-        originalPrincipalCents: mortgage.original_principal_cents,
-        currentPrincipalCents: mortgage.current_principal_cents,
-        interestRateApy: mortgage.interest_rate_apy,
-        termMonths: mortgage.term_months,
-        startDate: mortgage.start_date,
-        scheduledPaymentCents: mortgage.scheduled_payment_cents,
-        paymentDay: mortgage.payment_day,
-        escrowEnabled: mortgage.escrow_enabled,
-        escrowTaxesCents: mortgage.escrow_taxes_cents,
-        escrowInsuranceCents: mortgage.escrow_insurance_cents,
-        escrowMipCents: mortgage.escrow_mip_cents,
-        escrowHoaCents: mortgage.escrow_hoa_cents,
-        notes: mortgage.notes,
-        active: mortgage.active,
-        splitMode: mortgage.split_mode,
-        createdAt: mortgage.created_at,
-        updatedAt: mortgage.updated_at,
-        splits: splitsResult.rows.map(split => ({
-          id: split.id,
-          mortgageId: mortgage.id,
-          memberId: split.memberId,
-          value: split.value,
-          createdAt: split.created_at
-        }))
-      }
+    await query(`UPDATE members SET account_id = NULL, role = 'adult', updated_at = NOW() WHERE id = $1`, [member.id])
+    await query('DELETE FROM sessions WHERE account_id = $1 AND household_id = $2', [req.params.id, req.auth!.householdId])
+    await query(`
+      DELETE FROM member_accounts a
+      WHERE a.id = $1 AND NOT EXISTS (SELECT 1 FROM members m WHERE m.account_id = a.id)
+    `, [req.params.id])
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Account deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete account' })
+  }
+})
 
-      mortgages.push(formattedMortgage)
+// Members API
+app.get('/api/members', async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT id, name, color, created_at as "createdAt", updated_at as "updatedAt"
+      FROM members
+      WHERE household_id = $1 AND deleted_at IS NULL
+      ORDER BY created_at ASC
+    `, [req.auth!.householdId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Members fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch members' })
+  }
+})
+
+app.post('/api/members', requireRole('manager'), async (req, res) => {
+  try {
+    const { name, color } = req.body
+    const result = await query(`
+      INSERT INTO members (household_id, name, color)
+      VALUES ($1, $2, $3)
+      RETURNING id, name, color, created_at as "createdAt", updated_at as "updatedAt"
+    `, [req.auth!.householdId, name, color])
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Member creation error:', error)
+    res.status(500).json({ error: 'Failed to create member' })
+  }
+})
+
+app.put('/api/members/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const { name, color } = req.body
+    const result = await query(`
+      UPDATE members SET name = $1, color = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3 AND household_id = $4 AND deleted_at IS NULL
+      RETURNING id, name, color, created_at as "createdAt", updated_at as "updatedAt"
+    `, [name, color, req.params.id, req.auth!.householdId])
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Member not found' })
     }
 
-    console.log('Returning mortgages:', JSON.stringify(mortgages, null, 2))
-    console.log('========================')
-    res.json(mortgages)
+    res.json(result.rows[0])
   } catch (error) {
-    console.error('Error fetching mortgages:', error)
-    res.status(500).json({ error: 'Failed to fetch mortgages' })
+    console.error('Member update error:', error)
+    res.status(500).json({ error: 'Failed to update member' })
   }
 })
 
-app.post('/api/mortgages', async (req, res) => {
-  const client = await pool.connect()
+app.delete('/api/members/:id', requireRole('manager'), async (req, res) => {
   try {
-    await client.query('BEGIN')
+    // Deleting a member signs their login out of the household, so the last manager cannot be removed.
+    // The member goes to the trash with their splits and allocations; the login is only removed on purge
+    const memberResult = await query(
+      'SELECT id, role, account_id FROM members WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [req.params.id, req.auth!.householdId]
+    )
+    const member = memberResult.rows[0]
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' })
+    }
+    if (member.account_id && member.role === 'manager' &&
+        await wouldRemoveLastManager(pool, req.auth!.householdId, member.id)) {
+      return res.status(400).json({ error: 'The household must keep at least one manager' })
+    }
 
-    // Debug logging to see what we're receiving
-    console.log('=== MORTGAGE CREATE DEBUG ===')
-    console.log('Full request body:', JSON.stringify(req.body, null, 2))
-    console.log('=============================')
+    await query('UPDATE members SET deleted_at = NOW() WHERE id = $1', [member.id])
+    if (member.account_id) {
+      await query('DELETE FROM sessions WHERE account_id = $1 AND household_id = $2', [member.account_id, req.auth!.householdId])
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Member deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete member' })
+  }
+})
 
-    const {
-      name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
-      interestRateApy, termMonths, startDate, scheduledPaymentCents,
-      paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
-      escrowMipCents, escrowHoaCents, notes, active, splitMode, splits
-    } = req.body
+// Bills API
+app.get('/api/bills', async (req, res) => {
+  try {
+    // First, get basic bill information
+    const billsResult = await query(`
+      SELECT
+        id, name, amount_cents as "amountCents", due_date as "dueDate",
+        recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
+        autopay_account_id as "autopayAccountId", is_estimated as "isEstimated", created_at as "createdAt", updated_at as "updatedAt"
+      FROM bills
+      WHERE household_id = $1 AND deleted_at IS NULL
+      ORDER BY due_date DESC
+    `, [req.auth!.householdId])
 
-    // Debug the extracted values
-    console.log('Extracted values:')
-    console.log('name:', name)
-    console.log('originalPrincipalCents:', originalPrincipalCents)
-    console.log('currentPrincipalCents:', currentPrincipalCents)
-    console.log('scheduledPaymentCents:', scheduledPaymentCents)
-    console.log('active:', active)
+    const bills = billsResult.rows
 
-    // Insert mortgage
-    const mortgageResult = await client.query(`
-      INSERT INTO mortgages (
-        name, lender, is_primary, original_principal_cents, current_principal_cents,
-        interest_rate_apy, term_months, start_date, scheduled_payment_cents,
-        payment_day, escrow_enabled, escrow_taxes_cents, escrow_insurance_cents,
-        escrow_mip_cents, escrow_hoa_cents, notes, active, split_mode
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
-      RETURNING id, name, lender, is_primary,
-               original_principal_cents / 100.0 as "original_principal",
-               current_principal_cents / 100.0 as "current_principal",
-               interest_rate_apy, term_months,
-               start_date, scheduled_payment_cents / 100.0 as "scheduled_payment",
-               payment_day, escrow_enabled,
-               escrow_taxes_cents / 100.0 as "escrow_taxes",
-               escrow_insurance_cents / 100.0 as "escrow_insurance",
-               escrow_mip_cents / 100.0 as "escrow_mip",
-               escrow_hoa_cents / 100.0 as "escrow_hoa",
-               notes, active, split_mode,
-               created_at, updated_at
-    `, [name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
-        interestRateApy, termMonths, startDate, scheduledPaymentCents,
-        paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
-        escrowMipCents, escrowHoaCents, notes, active, splitMode])
+    // For each bill, get splits and payments separately
+    for (const bill of bills) {
+      // Get splits
+      const splitsResult = await query(`
+        SELECT id, member_id as "memberId", value
+        FROM bill_splits
+        WHERE bill_id = $1
+      `, [bill.id])
+      bill.splits = splitsResult.rows
 
-    const mortgage = mortgageResult.rows[0]
+      // Get payments with basic info
+      const paymentsResult = await query(`
+        SELECT
+          p.id, p.amount_cents as "amountCents", p.payer_member_id as "payerId",
+          p.account_id as "accountId", p.note, p.created_at as "createdAt",
+          m.id as "payerMemberId", m.name as "payerMemberName", m.color as "payerMemberColor"
+        FROM payments p
+        LEFT JOIN members m ON p.payer_member_id = m.id
+        WHERE p.bill_id = $1 AND p.deleted_at IS NULL
+        ORDER BY p.created_at DESC
+      `, [bill.id])
 
-    // Insert splits
-    if (splits && splits.length > 0) {
-      const insertedSplits = []
-      for (const split of splits) {
-        const splitResult = await client.query(`
-          INSERT INTO mortgage_splits (mortgage_id, member_id, value)
-          VALUES ($1, $2, $3)
-          RETURNING id, member_id as "memberId", value
-        `, [mortgage.id, split.memberId, split.value])
-        insertedSplits.push({
-          personId: split.memberId,
-          value: split.value
+      // Process payments and get allocations
+      bill.payments = []
+      for (const payment of paymentsResult.rows) {
+        const allocationsResult = await query(`
+          SELECT id, member_id as "memberId", amount_cents as "amountCents"
+          FROM payment_allocations
+          WHERE payment_id = $1
+        `, [payment.id])
+
+        bill.payments.push({
+          id: payment.id,
+          amountCents: payment.amountCents,
+          payerId: payment.payerId,
+          accountId: payment.accountId,
+          note: payment.note,
+          createdAt: payment.createdAt,
+          updatedAt: payment.updatedAt,
+          payerMember: payment.payerMemberId ? {
+            id: payment.payerMemberId,
+            name: payment.payerMemberName,
+            color: payment.payerMemberColor
+          } : null,
+          allocations: allocationsResult.rows
         })
       }
-      mortgage.splits = insertedSplits
-    } else {
-      mortgage.splits = []
-    }
-
-    // Convert to API format: camelCase field names with cent amounts
-    const formattedMortgage = {
-      id: mortgage.id,
-      name: mortgage.name,
-      lender: mortgage.lender,
-      isPrimary: mortgage.is_primary,
-      originalPrincipalCents: Math.round((mortgage.original_principal || 0) * 100),
-      currentPrincipalCents: Math.round((mortgage.current_principal || 0) * 100),
-      interestRateApy: mortgage.interest_rate_apy,
-      termMonths: mortgage.term_months,
-      startDate: mortgage.start_date,
-      scheduledPaymentCents: Math.round((mortgage.scheduled_payment || 0) * 100),
-      paymentDay: mortgage.payment_day,
-      escrowEnabled: mortgage.escrow_enabled,
-      escrowTaxesCents: mortgage.escrow_taxes ? Math.round(mortgage.escrow_taxes * 100) : undefined,
-      escrowInsuranceCents: mortgage.escrow_insurance ? Math.round(mortgage.escrow_insurance * 100) : undefined,
-      escrowMipCents: mortgage.escrow_mip ? Math.round(mortgage.escrow_mip * 100) : undefined,
-      escrowHoaCents: mortgage.escrow_hoa ? Math.round(mortgage.escrow_hoa * 100) : undefined,
-      notes: mortgage.notes,
-      active: mortgage.active,
-      splitMode: mortgage.split_mode,
-      createdAt: mortgage.created_at,
-      updatedAt: mortgage.updated_at,
-      splits: mortgage.splits
     }
 
-    await client.query('COMMIT')
-    res.json(formattedMortgage)
+    res.json(bills)
   } catch (error) {
-    await client.query('ROLLBACK')
-    console.error('Error creating mortgage:', error)
-    res.status(500).json({ error: 'Failed to create mortgage' })
-  } finally {
-    client.release()
+    console.error('Bills fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch bills' })
   }
 })
 
-app.put('/api/mortgages/:id', async (req, res) => {
-  const client = await pool.connect()
+app.post('/api/bills', requireRole('manager'), async (req, res) => {
   try {
-    await client.query('BEGIN')
+    const { name, amount, amountCents, dueDate, recurringBillId, period, splitMode, splits, autopayAccountId } = req.body
+    // Handle both frontend (amount in dollars) and API (amountCents) formats
+    const finalAmountCents = amountCents || (amount ? Math.round(amount * 100) : 0)
 
-    const {
-      name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
-      interestRateApy, termMonths, startDate, scheduledPaymentCents,
-      paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
-      escrowMipCents, escrowHoaCents, notes, active, splitMode, splits
-    } = req.body
+    const splitMemberIds = (splits || []).map(split => split.memberId || split.personId)
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, splitMemberIds)).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, autopayAccountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
 
-    // Update mortgage
-    const mortgageResult = await client.query(`
-      UPDATE mortgages SET
-        name = $2, lender = $3, is_primary = $4, original_principal_cents = $5,
-        current_principal_cents = $6, interest_rate_apy = $7, term_months = $8,
-        start_date = $9, scheduled_payment_cents = $10, payment_day = $11,
-        escrow_enabled = $12, escrow_taxes_cents = $13, escrow_insurance_cents = $14,
-        escrow_mip_cents = $15, escrow_hoa_cents = $16, notes = $17,
-        active = $18, split_mode = $19, updated_at = NOW()
-      WHERE id = $1
-      RETURNING id, name, lender, is_primary,
-               original_principal_cents, current_principal_cents,
-               interest_rate_apy, term_months,
-               start_date, scheduled_payment_cents,
-               payment_day, escrow_enabled,
-               escrow_taxes_cents, escrow_insurance_cents,
-               escrow_mip_cents, escrow_hoa_cents,
-               notes, active, split_mode,
-               created_at, updated_at
-    `, [req.params.id, name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
-        interestRateApy, termMonths, startDate, scheduledPaymentCents,
-        paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
-        escrowMipCents, escrowHoaCents, notes, active, splitMode])
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
 
-    const mortgage = mortgageResult.rows[0]
+      const billResult = await client.query(`
+        INSERT INTO bills (household_id, name, amount_cents, due_date, recurring_bill_id, period, split_mode, autopay_account_id)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id, name, amount_cents as "amountCents", due_date as "dueDate",
+                 recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
+                 autopay_account_id as "autopayAccountId", is_estimated as "isEstimated", created_at as "createdAt", updated_at as "updatedAt"
+      `, [req.auth!.householdId, name, finalAmountCents, new Date(dueDate), recurringBillId, period, splitMode, autopayAccountId || null])
 
-    // Delete existing splits
-    await client.query('DELETE FROM mortgage_splits WHERE mortgage_id = $1', [req.params.id])
+      const bill = billResult.rows[0]
 
-    // Insert new splits
-    if (splits && splits.length > 0) {
-      const insertedSplits = []
-      for (const split of splits) {
-        const splitResult = await client.query(`
-          INSERT INTO mortgage_splits (mortgage_id, member_id, value)
-          VALUES ($1, $2, $3)
-          RETURNING id, member_id as "memberId", value
-        `, [mortgage.id, split.memberId, split.value])
-        insertedSplits.push({
-          personId: split.memberId,
-          value: split.value
-        })
+      if (splits && splits.length > 0) {
+        // Insert splits one by one to avoid parameter binding issues
+        const insertedSplits = []
+        for (const split of splits) {
+          const splitResult = await client.query(`
+            INSERT INTO bill_splits (bill_id, member_id, value)
+            VALUES ($1, $2, $3)
+            RETURNING id, member_id as "memberId", value
+          `, [bill.id, split.memberId || split.personId, split.value])
+          insertedSplits.push(splitResult.rows[0])
+        }
+        bill.splits = insertedSplits
+      } else {
+        bill.splits = []
       }
-      mortgage.splits = insertedSplits
-    } else {
-      mortgage.splits = []
-    }
 
-    // Convert to API format: camelCase field names with cent amounts
-    const formattedMortgage = {
-      id: mortgage.id,
-      name: mortgage.name,
-      lender: mortgage.lender,
-      isPrimary: mortgage.is_primary,
-      originalPrincipalCents: mortgage.original_principal_cents,
-      currentPrincipalCents: mortgage.current_principal_cents,
-      interestRateApy: mortgage.interest_rate_apy,
-      termMonths: mortgage.term_months,
-      startDate: mortgage.start_date,
-      scheduledPaymentCents: mortgage.scheduled_payment_cents,
-      paymentDay: mortgage.payment_day,
-      escrowEnabled: mortgage.escrow_enabled,
-      escrowTaxesCents: mortgage.escrow_taxes_cents,
-      escrowInsuranceCents: mortgage.escrow_insurance_cents,
-      escrowMipCents: mortgage.escrow_mip_cents,
-      escrowHoaCents: mortgage.escrow_hoa_cents,
-      notes: mortgage.notes,
-      active: mortgage.active,
-      splitMode: mortgage.split_mode,
-      createdAt: mortgage.created_at,
-      updatedAt: mortgage.updated_at,
-      splits: mortgage.splits
+      await client.query('COMMIT')
+      res.json(bill)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
     }
-
-    await client.query('COMMIT')
-    res.json(formattedMortgage)
   } catch (error) {
-    await client.query('ROLLBACK')
-    console.error('Error updating mortgage:', error)
-    res.status(500).json({ error: 'Failed to update mortgage' })
-  } finally {
-    client.release()
+    console.error('Bill creation error:', error)
+    res.status(500).json({ error: 'Failed to create bill' })
   }
 })
 
-app.delete('/api/mortgages/:id', async (req, res) => {
+app.put('/api/bills/:id', requireRole('manager'), async (req, res) => {
   try {
-    // Delete mortgage (cascade will handle splits and payments)
-    const result = await query('DELETE FROM mortgages WHERE id = $1', [req.params.id])
+    const { name, amountCents, dueDate, splitMode, splits, autopayAccountId } = req.body
 
-    if (result.rowCount === 0) {
-      return res.status(404).json({ error: 'Mortgage not found' })
+    const splitMemberIds = (splits || []).map(split => split.memberId || split.personId)
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, splitMemberIds)).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, autopayAccountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
     }
 
-    res.json({ success: true })
-  } catch (error) {
-    console.error('Error deleting mortgage:', error)
-    res.status(500).json({ error: 'Failed to delete mortgage' })
-  }
-})
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
 
-// Mortgage Payments API (TODO: Convert to direct SQL)
-app.post('/api/mortgage-payments', async (req, res) => {
-  try {
-    // TODO: Implement direct SQL query for mortgage payment creation
-    const payment = { id: 'temp-id', ...req.body, allocations: [], payerMember: null }
-    res.json(payment)
+      // Update the bill
+      const billResult = await client.query(`
+        UPDATE bills SET
+          name = $2,
+          amount_cents = $3,
+          due_date = $4,
+          split_mode = $5,
+          autopay_account_id = $7,
+          is_estimated = is_estimated AND amount_cents = $3,
+          updated_at = NOW()
+        WHERE id = $1 AND household_id = $6 AND deleted_at IS NULL
+        RETURNING id, name, amount_cents as "amountCents", due_date as "dueDate",
+                 recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
+                 autopay_account_id as "autopayAccountId", is_estimated as "isEstimated", created_at as "createdAt", updated_at as "updatedAt"
+      `, [req.params.id, name, amountCents, new Date(dueDate), splitMode, req.auth!.householdId, autopayAccountId || null])
+
+      const bill = billResult.rows[0]
+      if (!bill) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Bill not found' })
+      }
+
+      // Delete existing splits
+      await client.query('DELETE FROM bill_splits WHERE bill_id = $1', [req.params.id])
+
+      // Insert new splits
+      if (splits && splits.length > 0) {
+        // Insert splits one by one to avoid parameter binding issues
+        const insertedSplits = []
+        for (const split of splits) {
+          const splitResult = await client.query(`
+            INSERT INTO bill_splits (bill_id, member_id, value)
+            VALUES ($1, $2, $3)
+            RETURNING id, member_id as "memberId", value
+          `, [bill.id, split.memberId || split.personId, split.value])
+          insertedSplits.push(splitResult.rows[0])
+        }
+        bill.splits = insertedSplits
+      } else {
+        bill.splits = []
+      }
+
+      await client.query('COMMIT')
+      res.json(bill)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create mortgage payment' })
+    console.error('Bill update error:', error)
+    res.status(500).json({ error: 'Failed to update bill' })
   }
 })
 
-app.put('/api/mortgage-payments/:id', async (req, res) => {
+// Enters the statement amount of a bill generated at an estimate. Fixed-amount splits of the estimate
+// are kept as shares so the confirmed amount is split in the same proportions.
+app.post('/api/bills/:id/confirm-amount', requireRole('manager'), async (req, res) => {
   try {
-    // TODO: Implement direct SQL query for mortgage payment update
-    const payment = { id: req.params.id, ...req.body, allocations: [], payerMember: null }
-    res.json(payment)
+    const { amountCents } = req.body || {}
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      return res.status(400).json({ error: 'amountCents must be a positive whole number of cents' })
+    }
+
+    const existingResult = await query(`
+      SELECT b.amount_cents as "amountCents", b.split_mode as "splitMode", ${SPLITS_JSON('bill_splits', 'bill_id', 'b.id')}
+      FROM bills b
+      WHERE b.id = $1 AND b.household_id = $2 AND b.deleted_at IS NULL
+    `, [req.params.id, req.auth!.householdId])
+    const existing = existingResult.rows[0]
+    if (!existing) {
+      return res.status(404).json({ error: 'Bill not found' })
+    }
+    const { splitMode } = splitForAmount({ amount: existing.amountCents / 100, splitMode: existing.splitMode, splits: existing.splits }, amountCents / 100)
+
+    const billResult = await query(`
+      UPDATE bills SET amount_cents = $2, split_mode = $3, is_estimated = false, updated_at = NOW()
+      WHERE id = $1
+      RETURNING id, name, amount_cents as "amountCents", due_date as "dueDate",
+               recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
+               autopay_account_id as "autopayAccountId", is_estimated as "isEstimated", created_at as "createdAt", updated_at as "updatedAt"
+    `, [req.params.id, amountCents, splitMode])
+    const bill = billResult.rows[0]
+    bill.splits = (await query('SELECT id, member_id as "memberId", value FROM bill_splits WHERE bill_id = $1', [bill.id])).rows
+    res.json(bill)
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update mortgage payment' })
+    console.error('Bill amount confirmation error:', error)
+    res.status(500).json({ error: 'Failed to confirm bill amount' })
   }
 })
 
-app.delete('/api/mortgage-payments/:id', async (req, res) => {
+// Moves the bill to the trash; its payments are hidden with it and come back when it is restored
+app.delete('/api/bills/:id', requireRole('manager'), async (req, res) => {
   try {
-    // TODO: Implement direct SQL query for mortgage payment deletion
+    await query(
+      'UPDATE bills SET deleted_at = NOW() WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [req.params.id, req.auth!.householdId]
+    )
     res.json({ success: true })
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete mortgage payment' })
+    console.error('Bill deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete bill' })
   }
 })
 
-// Financial calculation utilities for financed expenses
-function calculateMonthlyPayment(principal: number, annualRate: number, termMonths: number): number {
-  if (annualRate === 0) {
-    return principal / termMonths;
-  }
+// Payments API
 
-  const monthlyRate = annualRate / 100 / 12;
-  const numerator = principal * monthlyRate * Math.pow(1 + monthlyRate, termMonths);
-  const denominator = Math.pow(1 + monthlyRate, termMonths) - 1;
-  return numerator / denominator;
-}
+// Records a payment against a bill with its allocations, returning it in the API shape.
+// Shared by POST /api/payments and bank statement imports; the caller checks access and runs the transaction.
+async function insertBillPayment(
+  client: PoolClient,
+  { billId, paidDate, amountCents, method, accountId, payerMemberId, note, receiptFilename, receiptData, allocations }: PaymentInput & { billId: string }
+) {
+  const paymentResult = await client.query(`
+    INSERT INTO payments (bill_id, paid_date, amount_cents, method, account_id, payer_member_id, note, receipt_filename, receipt_data)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING id, bill_id as "billId", paid_date as "paidDate", amount_cents as "amountCents",
+             method, account_id as "accountId", payer_member_id as "payerMemberId", note, receipt_filename as "receiptFilename",
+             receipt_data as "receiptData", created_at as "createdAt"
+  `, [billId, new Date(paidDate), amountCents, method, accountId || null, payerMemberId, note, receiptFilename, receiptData])
+
+  const payment = paymentResult.rows[0]
+
+  // Insert allocations
+  if (allocations && allocations.length > 0) {
+    // Insert allocations one by one to avoid parameter binding issues
+    const insertedAllocations = []
+    for (const allocation of allocations) {
+      const allocResult = await client.query(`
+        INSERT INTO payment_allocations (payment_id, member_id, amount_cents)
+        VALUES ($1, $2, $3)
+        RETURNING id, member_id as "memberId", amount_cents as "amountCents"
+      `, [payment.id, allocation.memberId, allocation.amountCents])
+      insertedAllocations.push(allocResult.rows[0])
+    }
+    payment.allocations = insertedAllocations
+  } else {
+    payment.allocations = []
+  }
 
-function generatePaymentSchedule(
-  totalAmountCents: number,
-  interestRatePercent: number,
-  termMonths: number,
-  firstPaymentDate: string
-): Array<{
-  paymentNumber: number;
-  dueDate: string;
-  amountCents: number;
-  principalCents: number;
-  interestCents: number;
-}> {
-  const schedule: Array<{
-    paymentNumber: number;
-    dueDate: string;
-    amountCents: number;
-    principalCents: number;
-    interestCents: number;
-  }> = [];
+  // Fetch payer member info
+  if (payerMemberId) {
+    const memberResult = await client.query(`
+      SELECT id, name, color FROM members WHERE id = $1
+    `, [payerMemberId])
+    payment.payerMember = memberResult.rows[0] || null
+  } else {
+    payment.payerMember = null
+  }
 
-  const monthlyPaymentCents = Math.round(calculateMonthlyPayment(totalAmountCents, interestRatePercent, termMonths));
-  let remainingPrincipalCents = totalAmountCents;
-  const monthlyRate = interestRatePercent / 100 / 12;
+  return payment
+}
 
-  const startDate = new Date(firstPaymentDate);
+app.post('/api/payments', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    const { billId, payerMemberId, accountId, allocations } = req.body
 
-  for (let i = 1; i <= termMonths; i++) {
-    // Calculate due date
-    const dueDate = new Date(startDate);
-    dueDate.setMonth(dueDate.getMonth() + (i - 1));
+    if (!canRecordPaymentFor(req.auth!, payerMemberId)) {
+      return res.status(403).json(OWN_PAYMENTS_ONLY_ERROR)
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, accountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
 
-    // Calculate interest and principal for this payment
-    const interestCents = Math.round(remainingPrincipalCents * monthlyRate);
-    let principalCents = monthlyPaymentCents - interestCents;
+    const billResult = await query('SELECT id FROM bills WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL', [billId, req.auth!.householdId])
+    if (billResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Bill not found' })
+    }
 
-    // For final payment, ensure we pay off exactly the remaining principal
-    if (i === termMonths) {
-      principalCents = remainingPrincipalCents;
+    const allocationMemberIds = (allocations || []).map(allocation => allocation.memberId)
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [payerMemberId, ...allocationMemberIds])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
     }
 
-    const actualPaymentCents = principalCents + interestCents;
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
 
-    schedule.push({
-      paymentNumber: i,
-      dueDate: dueDate.toISOString().split('T')[0],
-      amountCents: actualPaymentCents,
-      principalCents,
-      interestCents
-    });
+      const payment = await insertBillPayment(client, req.body)
 
-    remainingPrincipalCents -= principalCents;
+      await client.query('COMMIT')
+      res.json(payment)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Payment creation error:', error)
+    res.status(500).json({ error: 'Failed to create payment' })
   }
+})
 
-  return schedule;
-}
+app.put('/api/payments/:id', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    const { paidDate, amountCents, method, accountId, payerMemberId, note, allocations } = req.body
 
-// Financed Expenses API
-app.get('/api/financed-expenses', async (req, res) => {
-  try {
-    // Get all financed expenses
-    const expensesResult = await query(`
-      SELECT
-        id, title, description, total_amount_cents, monthly_payment_cents,
-        interest_rate_percent, financing_term_months, purchase_date,
-        first_payment_date, is_active, split_mode,
-        created_at, updated_at
-      FROM financed_expenses
-      ORDER BY created_at DESC
-    `);
+    if (!canRecordPaymentFor(req.auth!, payerMemberId) || !(await canModifyPayment(req.auth!, 'payments', req.params.id))) {
+      return res.status(403).json(OWN_PAYMENTS_ONLY_ERROR)
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, accountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
 
-    const expenses = [];
-    for (const expense of expensesResult.rows) {
-      // Get splits for this expense
-      const splitsResult = await query(`
-        SELECT id, member_id as "memberId", value
-        FROM financed_expense_splits
-        WHERE financed_expense_id = $1
-      `, [expense.id]);
+    const allocationMemberIds = (allocations || []).map(allocation => allocation.memberId)
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [payerMemberId, ...allocationMemberIds])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
 
-      // Get payment summary
-      const paymentSummaryResult = await query(`
-        SELECT
-          COUNT(*) as total_payments,
-          COUNT(*) FILTER (WHERE is_paid = true) as paid_payments,
-          SUM(amount_cents) FILTER (WHERE is_paid = true) as total_paid_cents,
-          MIN(due_date) FILTER (WHERE is_paid = false) as next_due_date
-        FROM financed_expense_payments
-        WHERE financed_expense_id = $1
-      `, [expense.id]);
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
 
-      const paymentSummary = paymentSummaryResult.rows[0];
-      const totalPaidCents = parseInt(paymentSummary.total_paid_cents || '0');
-      const remainingBalanceCents = expense.total_amount_cents - totalPaidCents;
+      // Update the payment
+      const paymentResult = await client.query(`
+        UPDATE payments SET
+          paid_date = $2,
+          amount_cents = $3,
+          method = $4,
+          payer_member_id = $5,
+          note = $6,
+          account_id = $8
+        WHERE id = $1 AND deleted_at IS NULL AND bill_id IN (SELECT id FROM bills WHERE household_id = $7 AND deleted_at IS NULL)
+        RETURNING id, bill_id as "billId", paid_date as "paidDate", amount_cents as "amountCents",
+                 method, account_id as "accountId", payer_member_id as "payerMemberId", note, receipt_filename as "receiptFilename",
+                 receipt_data as "receiptData", created_at as "createdAt"
+      `, [req.params.id, new Date(paidDate), amountCents, method, payerMemberId, note, req.auth!.householdId, accountId || null])
 
-      expenses.push({
-        id: expense.id,
-        title: expense.title,
-        description: expense.description,
-        totalAmountCents: expense.total_amount_cents,
-        monthlyPaymentCents: expense.monthly_payment_cents,
-        interestRatePercent: parseFloat(expense.interest_rate_percent),
-        financingTermMonths: expense.financing_term_months,
-        purchaseDate: expense.purchase_date,
-        firstPaymentDate: expense.first_payment_date,
-        isActive: expense.is_active,
-        splitMode: expense.split_mode,
-        createdAt: expense.created_at,
-        updatedAt: expense.updated_at,
-        splits: splitsResult.rows.map(split => ({
-          ...split,
-          value: expense.split_mode === 'amount' ? split.value / 100 : split.value
-        })),
-        paymentSummary: {
-          totalPayments: parseInt(paymentSummary.total_payments),
-          paidPayments: parseInt(paymentSummary.paid_payments),
-          totalPaidCents,
-          remainingBalanceCents,
-          nextDueDate: paymentSummary.next_due_date
+      const payment = paymentResult.rows[0]
+      if (!payment) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Payment not found' })
+      }
+
+      // Delete existing allocations
+      await client.query('DELETE FROM payment_allocations WHERE payment_id = $1', [req.params.id])
+
+      // Insert new allocations
+      if (allocations && allocations.length > 0) {
+        // Insert allocations one by one to avoid parameter binding issues
+        const insertedAllocations = []
+        for (const allocation of allocations) {
+          const allocResult = await client.query(`
+            INSERT INTO payment_allocations (payment_id, member_id, amount_cents)
+            VALUES ($1, $2, $3)
+            RETURNING id, member_id as "memberId", amount_cents as "amountCents"
+          `, [payment.id, allocation.memberId, allocation.amountCents])
+          insertedAllocations.push(allocResult.rows[0])
         }
-      });
-    }
+        payment.allocations = insertedAllocations
+      } else {
+        payment.allocations = []
+      }
 
-    res.json(expenses);
+      // Fetch payer member info
+      if (payerMemberId) {
+        const memberResult = await client.query(`
+          SELECT id, name, color FROM members WHERE id = $1
+        `, [payerMemberId])
+        payment.payerMember = memberResult.rows[0] || null
+      } else {
+        payment.payerMember = null
+      }
+
+      await client.query('COMMIT')
+      res.json(payment)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
   } catch (error) {
-    console.error('Financed expenses fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch financed expenses' });
+    console.error('Payment update error:', error)
+    res.status(500).json({ error: 'Failed to update payment' })
   }
-});
+})
 
-app.post('/api/financed-expenses', async (req, res) => {
+app.delete('/api/payments/:id', requireRole('manager', 'adult'), async (req, res) => {
   try {
-    const {
-      title, description, totalAmountCents, interestRatePercent,
-      financingTermMonths, purchaseDate, firstPaymentDate,
-      isActive = true, splitMode, splits
-    } = req.body;
-
-    // Validation
-    if (!title || !totalAmountCents || !financingTermMonths || !purchaseDate || !firstPaymentDate) {
-      return res.status(400).json({ error: 'Missing required fields: title, totalAmountCents, financingTermMonths, purchaseDate, firstPaymentDate' });
+    if (!(await canModifyPayment(req.auth!, 'payments', req.params.id))) {
+      return res.status(403).json(OWN_PAYMENTS_ONLY_ERROR)
     }
 
-    if (totalAmountCents <= 0) {
-      return res.status(400).json({ error: 'Total amount must be greater than 0' });
-    }
+    await query(`
+      UPDATE payments SET deleted_at = NOW()
+      WHERE id = $1 AND deleted_at IS NULL AND bill_id IN (SELECT id FROM bills WHERE household_id = $2 AND deleted_at IS NULL)
+    `, [req.params.id, req.auth!.householdId])
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Payment deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete payment' })
+  }
+})
 
-    if (financingTermMonths <= 0) {
-      return res.status(400).json({ error: 'Financing term must be greater than 0' });
-    }
+// Recurring Bills API
 
-    if (interestRatePercent < 0) {
-      return res.status(400).json({ error: 'Interest rate cannot be negative' });
-    }
+// Pause, skips, end date and archiving of a recurring bill; see 017_recurring_bill_schedule.up.sql
+const RECURRING_BILL_SCHEDULE_COLUMNS = `
+  to_char(paused_from, 'YYYY-MM-DD') as "pausedFrom", to_char(paused_until, 'YYYY-MM-DD') as "pausedUntil",
+  to_char(end_date, 'YYYY-MM-DD') as "endDate", skipped_periods as "skippedPeriods", archived_at as "archivedAt"
+`
 
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+app.get('/api/recurring-bills', async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT
+        rb.id, rb.name, rb.amount_cents as "amountCents", rb.day_of_month as "dayOfMonth",
+        rb.frequency, rb.recurrence_rule as "recurrenceRule", rb.last_generated_period as "lastGeneratedPeriod",
+        rb.split_mode as "splitMode", rb.autopay_account_id as "autopayAccountId", ${RECURRING_BILL_SCHEDULE_COLUMNS},
+        rb.amount_mode as "amountMode", rb.estimate_method as "estimateMethod", rb.created_at as "createdAt", rb.updated_at as "updatedAt",
+        COALESCE(
+          json_agg(
+            DISTINCT jsonb_build_object(
+              'id', rbs.id,
+              'memberId', rbs.member_id,
+              'value', rbs.value
+            )
+          ) FILTER (WHERE rbs.id IS NOT NULL),
+          '[]'
+        ) as splits
+      FROM recurring_bills rb
+      LEFT JOIN recurring_bill_splits rbs ON rb.id = rbs.recurring_bill_id
+      WHERE rb.household_id = $1 AND rb.deleted_at IS NULL
+      GROUP BY rb.id
+      ORDER BY rb.created_at ASC
+    `, [req.auth!.householdId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Recurring bills fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch recurring bills' })
+  }
+})
 
-      // Calculate monthly payment
-      const monthlyPaymentCents = Math.round(calculateMonthlyPayment(
-        totalAmountCents,
-        interestRatePercent,
-        financingTermMonths
-      ));
+// Turns recurring_bills into concrete bills for every period up to `throughPeriod`.
+// All recurring rows are locked for the duration so concurrent runs cannot create the
+// same period twice; periods that already have a bill are skipped, as are occurrences
+// left out by their schedule or while the recurring bill is archived. Left-out occurrences
+// that have fallen due still move last_generated_period on. Without a household every
+// household's recurring bills are generated (used by the background job).
+async function generateRecurringBills(throughPeriod = formatPeriod(new Date()), householdId?: string) {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
 
-      // Insert financed expense
-      const expenseResult = await client.query(`
-        INSERT INTO financed_expenses (
-          title, description, total_amount_cents, monthly_payment_cents,
-          interest_rate_percent, financing_term_months, purchase_date,
-          first_payment_date, is_active, split_mode
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-        RETURNING id, title, description, total_amount_cents as "totalAmountCents",
-                 monthly_payment_cents as "monthlyPaymentCents",
-                 interest_rate_percent as "interestRatePercent",
-                 financing_term_months as "financingTermMonths",
-                 purchase_date as "purchaseDate", first_payment_date as "firstPaymentDate",
-                 is_active as "isActive", split_mode as "splitMode",
-                 created_at as "createdAt", updated_at as "updatedAt"
-      `, [title, description, totalAmountCents, monthlyPaymentCents,
-          interestRatePercent, financingTermMonths, purchaseDate,
-          firstPaymentDate, isActive, splitMode]);
+    const recurringResult = await client.query(`
+      SELECT id, household_id, name, amount_cents, day_of_month, frequency, recurrence_rule, last_generated_period, split_mode, autopay_account_id,
+             amount_mode, estimate_method, ${RECURRING_BILL_SCHEDULE_COLUMNS}, ${CONFIRMED_AMOUNTS_JSON('recurring_bills.id')},
+             to_char(CURRENT_DATE, 'YYYY-MM-DD') as today
+      FROM recurring_bills
+      WHERE ($1::varchar IS NULL OR household_id = $1) AND deleted_at IS NULL
+      ORDER BY created_at ASC
+      FOR UPDATE
+    `, [householdId ?? null])
+
+    const generatedBills = []
+    for (const recurringBill of recurringResult.rows) {
+      // Bills in the trash still count, so deleting a generated bill does not bring it back
+      const existingResult = await client.query(
+        'SELECT period FROM bills WHERE recurring_bill_id = $1',
+        [recurringBill.id]
+      )
+      const existingPeriods = new Set(existingResult.rows.map(row => row.period))
+      const hadGeneratedBills = existingPeriods.size > 0
+
+      const schedule = {
+        lastGeneratedPeriod: recurringBill.last_generated_period,
+        frequency: recurringBill.frequency,
+        dayOfMonth: recurringBill.day_of_month,
+        recurrenceRule: recurringBill.recurrence_rule,
+        pausedFrom: recurringBill.pausedFrom,
+        pausedUntil: recurringBill.pausedUntil,
+        endDate: recurringBill.endDate,
+        skippedPeriods: recurringBill.skippedPeriods,
+        archivedAt: recurringBill.archivedAt
+      }
+      let occurrences: { period: string; dueDate: string }[]
+      let passedOver: { period: string; dueDate: string } | null
+      try {
+        occurrences = recurringBill.archivedAt ? [] : getPendingRecurringOccurrences(schedule, throughPeriod, hadGeneratedBills)
+        passedOver = getLastPassedOverOccurrence(schedule, throughPeriod, hadGeneratedBills, recurringBill.today)
+      } catch (error) {
+        console.warn(`Skipping recurring bill ${recurringBill.id}:`, error instanceof Error ? error.message : error)
+        continue
+      }
+      if (occurrences.length === 0 && !passedOver) continue
 
-      const expense = expenseResult.rows[0];
+      const splitsResult = await client.query(
+        'SELECT member_id as "personId", value FROM recurring_bill_splits WHERE recurring_bill_id = $1',
+        [recurringBill.id]
+      )
+      const splittable = { amount: recurringBill.amount_cents / 100, splitMode: recurringBill.split_mode, splits: splitsResult.rows }
+      const isEstimated = recurringBill.amount_mode === 'variable'
 
-      // Insert splits
-      const insertedSplits = [];
-      if (splits && splits.length > 0) {
-        for (const split of splits) {
-          // Convert split value based on split mode
-          let splitValue = split.value;
-          if (splitMode === 'amount') {
-            // For amount splits, convert dollars to cents
-            splitValue = Math.round(split.value * 100);
-          }
-          // For percent and shares, use the value as-is (whole numbers)
+      for (const { period, dueDate } of occurrences) {
+        if (existingPeriods.has(period)) continue
+
+        // Variable bills start at an estimate
+        const amountCents = isEstimated
+          ? estimateBillAmount(recurringBill.estimate_method, recurringBill.confirmedAmounts, dueDate, recurringBill.amount_cents)
+          : recurringBill.amount_cents
+        const { splitMode, splits } = splitForAmount(splittable, amountCents / 100)
+
+        const billResult = await client.query(`
+          INSERT INTO bills (household_id, name, amount_cents, due_date, recurring_bill_id, period, split_mode, autopay_account_id, is_estimated)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          RETURNING id, name, amount_cents as "amountCents", due_date as "dueDate",
+                   recurring_bill_id as "recurringBillId", period, split_mode as "splitMode",
+                   autopay_account_id as "autopayAccountId", is_estimated as "isEstimated", created_at as "createdAt", updated_at as "updatedAt"
+        `, [
+          recurringBill.household_id,
+          recurringBill.name,
+          amountCents,
+          dueDate,
+          recurringBill.id,
+          period,
+          splitMode,
+          recurringBill.autopay_account_id,
+          isEstimated
+        ])
+        const bill = billResult.rows[0]
 
+        bill.splits = []
+        for (const split of splits) {
           const splitResult = await client.query(`
-            INSERT INTO financed_expense_splits (financed_expense_id, member_id, value)
+            INSERT INTO bill_splits (bill_id, member_id, value)
             VALUES ($1, $2, $3)
             RETURNING id, member_id as "memberId", value
-          `, [expense.id, split.memberId, splitValue]);
-          insertedSplits.push(splitResult.rows[0]);
+          `, [bill.id, split.personId, split.value])
+          bill.splits.push(splitResult.rows[0])
         }
-      }
-      expense.splits = insertedSplits.map(split => ({
-        ...split,
-        value: splitMode === 'amount' ? split.value / 100 : split.value
-      }));
 
-      // Generate payment schedule
-      const paymentSchedule = generatePaymentSchedule(
-        totalAmountCents,
-        interestRatePercent,
-        financingTermMonths,
-        firstPaymentDate
-      );
-
-      // Insert payment schedule
-      for (const payment of paymentSchedule) {
-        await client.query(`
-          INSERT INTO financed_expense_payments (
-            financed_expense_id, payment_number, due_date,
-            amount_cents, principal_cents, interest_cents
-          ) VALUES ($1, $2, $3, $4, $5, $6)
-        `, [expense.id, payment.paymentNumber, payment.dueDate,
-            payment.amountCents, payment.principalCents, payment.interestCents]);
+        existingPeriods.add(period)
+        generatedBills.push(bill)
       }
 
-      await client.query('COMMIT');
-      res.status(201).json(expense);
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+      const lastScheduled = occurrences[occurrences.length - 1]
+      const lastOccurrence = passedOver && (!lastScheduled || passedOver.dueDate > lastScheduled.dueDate) ? passedOver : lastScheduled
+      // Until a bill exists, a monthly-style bill stores the month before its next occurrence
+      const lastGeneratedPeriod = existingPeriods.size > 0 || recurringBill.frequency === 'custom'
+        ? lastOccurrence.period
+        : addMonthsToPeriod(lastOccurrence.period, getFrequencyIntervalMonths(recurringBill.frequency) - 1)
+
+      await client.query(`
+        UPDATE recurring_bills SET last_generated_period = $2, updated_at = NOW()
+        WHERE id = $1
+      `, [recurringBill.id, lastGeneratedPeriod])
     }
-  } catch (error) {
-    console.error('Financed expense creation error:', error);
-    res.status(500).json({ error: 'Failed to create financed expense' });
-  }
-});
 
-app.get('/api/financed-expenses/:id', async (req, res) => {
+    await client.query('COMMIT')
+    return { throughPeriod, bills: generatedBills }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+app.post('/api/recurring-bills/generate', requireRole('manager'), async (req, res) => {
   try {
-    const { id } = req.params;
+    const { throughPeriod } = req.body || {}
+    if (throughPeriod !== undefined && !/^\d{4}-\d{2}$/.test(throughPeriod)) {
+      return res.status(400).json({ error: 'throughPeriod must be in YYYY-MM format' })
+    }
 
-    // Get financed expense details
-    const expenseResult = await query(`
-      SELECT
-        id, title, description, total_amount_cents, monthly_payment_cents,
-        interest_rate_percent, financing_term_months, purchase_date,
-        first_payment_date, is_active, split_mode,
-        created_at, updated_at
-      FROM financed_expenses
-      WHERE id = $1
-    `, [id]);
+    const result = await generateRecurringBills(throughPeriod, req.auth!.householdId)
+    res.json(result)
+  } catch (error) {
+    console.error('Recurring bill generation error:', error)
+    res.status(500).json({ error: 'Failed to generate recurring bills' })
+  }
+})
 
-    if (expenseResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Financed expense not found' });
-    }
+// Date.parse rolls days past the end of a month over (2026-02-31 is March 3rd), so the parsed date
+// has to read back the same
+const isDateString = (value: unknown) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) &&
+  new Date(Date.parse(value)).toISOString().slice(0, 10) === value
 
-    const expense = expenseResult.rows[0];
+const isIntegerList = (value: unknown, isAllowed: (n: number) => boolean) =>
+  value === undefined || (Array.isArray(value) && value.every(n => Number.isInteger(n) && isAllowed(n)))
 
-    // Get splits
-    const splitsResult = await query(`
-      SELECT id, member_id as "memberId", value
-      FROM financed_expense_splits
-      WHERE financed_expense_id = $1
-    `, [id]);
+// Custom recurrence rules are a subset of RRULE; see RecurrenceRule in types.ts
+function getRecurrenceRuleError(rule: RecurrenceRule | undefined): string | null {
+  if (!rule || typeof rule !== 'object') {
+    return 'Custom recurring bills need a recurrenceRule'
+  }
+  if (!RECURRENCE_RULE_FREQUENCIES.includes(rule.freq)) {
+    return `recurrenceRule.freq must be one of ${RECURRENCE_RULE_FREQUENCIES.join(', ')}`
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 366) {
+    return 'recurrenceRule.interval must be a whole number from 1 to 366'
+  }
+  if (!isDateString(rule.startDate)) {
+    return 'recurrenceRule.startDate must be YYYY-MM-DD'
+  }
+  if (rule.byWeekday !== undefined && (!Array.isArray(rule.byWeekday) || rule.byWeekday.some(day => !WEEKDAYS.includes(day)))) {
+    return `recurrenceRule.byWeekday must list days among ${WEEKDAYS.join(', ')}`
+  }
+  if (!isIntegerList(rule.byMonthDay, n => n !== 0 && n >= -31 && n <= 31)) {
+    return 'recurrenceRule.byMonthDay must list days from 1 to 31, or -1 to -31 counting from the end of the month'
+  }
+  if (!isIntegerList(rule.byMonth, n => n >= 1 && n <= 12)) {
+    return 'recurrenceRule.byMonth must list months from 1 to 12'
+  }
+  if (!isIntegerList(rule.bySetPos, n => n !== 0 && n >= -366 && n <= 366)) {
+    return 'recurrenceRule.bySetPos must list non-zero positions'
+  }
+  if (rule.until !== undefined && rule.count !== undefined) {
+    return 'recurrenceRule can end on a date or after a count, not both'
+  }
+  if (rule.until !== undefined && (!isDateString(rule.until) || rule.until < rule.startDate)) {
+    return 'recurrenceRule.until must be a YYYY-MM-DD date on or after startDate'
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    return 'recurrenceRule.count must be a positive whole number'
+  }
+  if (rule.exDates !== undefined && (!Array.isArray(rule.exDates) || !rule.exDates.every(isDateString))) {
+    return 'recurrenceRule.exDates must list YYYY-MM-DD dates'
+  }
+  return null
+}
 
-    // Get all payments with status
-    const paymentsResult = await query(`
-      SELECT
-        id, payment_number, due_date, amount_cents,
-        principal_cents, interest_cents, is_paid,
-        paid_date, bill_id
-      FROM financed_expense_payments
-      WHERE financed_expense_id = $1
-      ORDER BY payment_number ASC
-    `, [id]);
+// The rule to store for a recurring bill (null unless it is custom, and only the known parts), with
+// the day of the month kept on custom bills set from the rule's start date
+function getRecurrenceSettings(frequency: string, dayOfMonth: number, rule: RecurrenceRule): { dayOfMonth: number; recurrenceRule: RecurrenceRule | null } {
+  if (frequency !== 'custom') {
+    return { dayOfMonth, recurrenceRule: null }
+  }
+  const { freq, interval, startDate, byWeekday, byMonthDay, byMonth, bySetPos, until, count, exDates } = rule
+  return {
+    dayOfMonth: Number(startDate.slice(8, 10)),
+    recurrenceRule: { freq, interval, startDate, byWeekday, byMonthDay, byMonth, bySetPos, until, count, exDates }
+  }
+}
 
-    // Calculate summary statistics
-    const totalPaidCents = paymentsResult.rows
-      .filter(p => p.is_paid)
-      .reduce((sum, p) => sum + p.amount_cents, 0);
+// Pause dates, end date and skipped periods are all optional
+function getRecurringBillScheduleError(body: RecurringBillSchedule): string | null {
+  const { pausedFrom, pausedUntil, endDate, skippedPeriods } = body
+  for (const [field, value] of Object.entries({ pausedFrom, pausedUntil, endDate })) {
+    if (value && !isDateString(value)) {
+      return `${field} must be YYYY-MM-DD`
+    }
+  }
+  if (pausedUntil && !pausedFrom) {
+    return 'pausedUntil needs a pausedFrom date'
+  }
+  if (pausedFrom && pausedUntil && pausedUntil < pausedFrom) {
+    return 'pausedUntil must be on or after pausedFrom'
+  }
+  if (skippedPeriods != null && (!Array.isArray(skippedPeriods) || !skippedPeriods.every(period => typeof period === 'string' && /^\d{4}-\d{2}(-\d{2})?$/.test(period)))) {
+    return 'skippedPeriods must list YYYY-MM periods or YYYY-MM-DD due dates'
+  }
+  return null
+}
 
-    const remainingBalanceCents = expense.total_amount_cents - totalPaidCents;
-    const nextUnpaidPayment = paymentsResult.rows.find(p => !p.is_paid);
+function getRecurringAmountError(body: Pick<RecurringBill, 'amountMode' | 'estimateMethod'>): string | null {
+  const { amountMode, estimateMethod } = body
+  if (amountMode !== undefined && !['fixed', 'variable'].includes(amountMode)) {
+    return 'amountMode must be fixed or variable'
+  }
+  if (estimateMethod !== undefined && !ESTIMATE_METHODS.includes(estimateMethod)) {
+    return `estimateMethod must be one of ${ESTIMATE_METHODS.join(', ')}`
+  }
+  return null
+}
 
-    res.json({
-      id: expense.id,
-      title: expense.title,
-      description: expense.description,
-      totalAmountCents: expense.total_amount_cents,
-      monthlyPaymentCents: expense.monthly_payment_cents,
-      interestRatePercent: parseFloat(expense.interest_rate_percent),
-      financingTermMonths: expense.financing_term_months,
-      purchaseDate: expense.purchase_date,
-      firstPaymentDate: expense.first_payment_date,
-      isActive: expense.is_active,
-      splitMode: expense.split_mode,
-      createdAt: expense.created_at,
-      updatedAt: expense.updated_at,
-      splits: splitsResult.rows.map(split => ({
-        ...split,
-        value: expense.split_mode === 'amount' ? split.value / 100 : split.value
-      })),
-      payments: paymentsResult.rows.map(payment => ({
-        id: payment.id,
-        paymentNumber: payment.payment_number,
-        dueDate: payment.due_date,
-        amountCents: payment.amount_cents,
-        principalCents: payment.principal_cents,
-        interestCents: payment.interest_cents,
-        isPaid: payment.is_paid,
-        paidDate: payment.paid_date,
-        billId: payment.bill_id
-      })),
-      summary: {
-        totalPaidCents,
-        remainingBalanceCents,
-        nextDueDate: nextUnpaidPayment?.due_date,
-        paymentsRemaining: paymentsResult.rows.filter(p => !p.is_paid).length
-      }
-    });
-  } catch (error) {
-    console.error('Financed expense fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch financed expense' });
+// Bills a recurring bill generated for upcoming occurrences before it was paused, skipped, ended or
+// archived are removed, unless something was paid on them. Past bills stay as history.
+// They are deleted for good rather than moved to the trash: bills in the trash count as generated,
+// so a trashed one would keep its occurrence from coming back once the pause or skip is lifted.
+async function removeUnscheduledRecurringBills(client: PoolClient, recurringBill: RecurringBillSchedule & { id: string; archivedAt?: string | null }) {
+  const upcomingResult = await client.query(`
+    SELECT b.id, b.period, to_char(b.due_date, 'YYYY-MM-DD') as "dueDate"
+    FROM bills b
+    WHERE b.recurring_bill_id = $1 AND b.due_date >= CURRENT_DATE AND b.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.bill_id = b.id)
+  `, [recurringBill.id])
+  const removedIds = upcomingResult.rows
+    .filter(bill => recurringBill.archivedAt || !isRecurringOccurrenceScheduled(recurringBill, bill))
+    .map(bill => bill.id)
+  if (removedIds.length > 0) {
+    await client.query('DELETE FROM bills WHERE id = ANY($1)', [removedIds])
   }
-});
+}
 
-app.put('/api/financed-expenses/:id', async (req, res) => {
-  const { id } = req.params;
+app.post('/api/recurring-bills', requireRole('manager'), async (req, res) => {
   try {
-    const {
-      title, description, totalAmountCents, interestRatePercent,
-      financingTermMonths, purchaseDate, firstPaymentDate,
-      isActive, splitMode, splits
-    } = req.body;
-
-    console.log('PUT /api/financed-expenses/:id called with:', {
-      id,
-      body: req.body,
-      bodyKeys: Object.keys(req.body),
-      splitMode,
-      splitsLength: splits?.length
-    });
+    const { name, amount, amountCents, frequency, lastGeneratedPeriod, splitMode, splits, autopayAccountId } = req.body
+    const { pausedFrom, pausedUntil, endDate, skippedPeriods, amountMode = 'fixed', estimateMethod = 'last' } = req.body
+    // Handle both frontend (amount in dollars) and API (amountCents) formats
+    const finalAmountCents = amountCents || (amount ? Math.round(amount * 100) : 0)
 
-    // Enhanced validation
-    if (totalAmountCents !== undefined) {
-      if (typeof totalAmountCents !== 'number' || isNaN(totalAmountCents)) {
-        return res.status(400).json({ error: 'Total amount must be a valid number' });
-      }
-      if (totalAmountCents <= 0) {
-        return res.status(400).json({ error: 'Total amount must be greater than 0' });
-      }
+    const settingsError = (frequency === 'custom' ? getRecurrenceRuleError(req.body.recurrenceRule) : null) ||
+      getRecurringBillScheduleError(req.body) || getRecurringAmountError(req.body)
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError })
     }
+    const { dayOfMonth, recurrenceRule } = getRecurrenceSettings(frequency, req.body.dayOfMonth, req.body.recurrenceRule)
 
-    if (financingTermMonths !== undefined) {
-      if (typeof financingTermMonths !== 'number' || isNaN(financingTermMonths)) {
-        return res.status(400).json({ error: 'Financing term must be a valid number' });
-      }
-      if (financingTermMonths <= 0 || !Number.isInteger(financingTermMonths)) {
-        return res.status(400).json({ error: 'Financing term must be a positive integer' });
-      }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, (splits || []).map(split => split.memberId))).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
     }
-
-    if (interestRatePercent !== undefined) {
-      if (typeof interestRatePercent !== 'number' || isNaN(interestRatePercent)) {
-        return res.status(400).json({ error: 'Interest rate must be a valid number' });
-      }
-      if (interestRatePercent < 0) {
-        return res.status(400).json({ error: 'Interest rate cannot be negative' });
-      }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, autopayAccountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
     }
 
-    // Validate date formats if provided
-    if (purchaseDate !== undefined) {
-      const purchaseDateObj = new Date(purchaseDate);
-      if (isNaN(purchaseDateObj.getTime())) {
-        return res.status(400).json({ error: 'Purchase date must be a valid date' });
-      }
-    }
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
 
-    if (firstPaymentDate !== undefined) {
-      const firstPaymentDateObj = new Date(firstPaymentDate);
-      if (isNaN(firstPaymentDateObj.getTime())) {
-        return res.status(400).json({ error: 'First payment date must be a valid date' });
-      }
-    }
+      const billResult = await client.query(`
+        INSERT INTO recurring_bills (
+          household_id, name, amount_cents, day_of_month, frequency, recurrence_rule, last_generated_period, split_mode, autopay_account_id,
+          paused_from, paused_until, end_date, skipped_periods, amount_mode, estimate_method
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING id, name, amount_cents as "amountCents", day_of_month as "dayOfMonth",
+                 frequency, recurrence_rule as "recurrenceRule", last_generated_period as "lastGeneratedPeriod", split_mode as "splitMode",
+                 autopay_account_id as "autopayAccountId", ${RECURRING_BILL_SCHEDULE_COLUMNS},
+                 amount_mode as "amountMode", estimate_method as "estimateMethod", created_at as "createdAt", updated_at as "updatedAt"
+      `, [
+        req.auth!.householdId, name, finalAmountCents, dayOfMonth, frequency, recurrenceRule, lastGeneratedPeriod, splitMode, autopayAccountId || null,
+        pausedFrom || null, pausedUntil || null, endDate || null, JSON.stringify(skippedPeriods ?? []), amountMode, estimateMethod
+      ])
 
-    // Validate splits if provided
-    if (splits !== undefined) {
-      if (!Array.isArray(splits)) {
-        return res.status(400).json({ error: 'Splits must be an array' });
-      }
+      const recurringBill = billResult.rows[0]
 
-      if (splitMode === undefined) {
-        return res.status(400).json({ error: 'Split mode is required when updating splits' });
+      if (splits && splits.length > 0) {
+        // Insert splits one by one to avoid parameter binding issues
+        const insertedSplits = []
+        for (const split of splits) {
+          const splitResult = await client.query(`
+            INSERT INTO recurring_bill_splits (recurring_bill_id, member_id, value)
+            VALUES ($1, $2, $3)
+            RETURNING id, member_id as "memberId", value
+          `, [recurringBill.id, split.memberId, split.value])
+          insertedSplits.push(splitResult.rows[0])
+        }
+        recurringBill.splits = insertedSplits
+      } else {
+        recurringBill.splits = []
       }
 
-      if (!['amount', 'percent', 'shares'].includes(splitMode)) {
-        return res.status(400).json({ error: 'Split mode must be amount, percent, or shares' });
-      }
+      await client.query('COMMIT')
+      res.json(recurringBill)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Recurring bill creation error:', error)
+    res.status(500).json({ error: 'Failed to create recurring bill' })
+  }
+})
 
-      for (const split of splits) {
-        if (!split.memberId || typeof split.value !== 'number' || isNaN(split.value)) {
-          return res.status(400).json({ error: 'Each split must have a valid memberId and numeric value' });
-        }
-        if (split.value <= 0) {
-          return res.status(400).json({ error: 'Split values must be greater than 0' });
-        }
-      }
+app.put('/api/recurring-bills/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const { name, amountCents, frequency, splitMode, splits, autopayAccountId } = req.body
+    const { pausedFrom, pausedUntil, endDate, skippedPeriods, archived = false, amountMode = 'fixed', estimateMethod = 'last' } = req.body
+
+    const settingsError = (frequency === 'custom' ? getRecurrenceRuleError(req.body.recurrenceRule) : null) ||
+      getRecurringBillScheduleError(req.body) || getRecurringAmountError(req.body)
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError })
     }
+    const { dayOfMonth, recurrenceRule } = getRecurrenceSettings(frequency, req.body.dayOfMonth, req.body.recurrenceRule)
 
-    const client = await pool.connect();
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, (splits || []).map(split => split.memberId))).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, autopayAccountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
+
+    const client = await pool.connect()
     try {
-      await client.query('BEGIN');
+      await client.query('BEGIN')
 
-      // Check if expense exists
-      const existingExpense = await client.query(
-        'SELECT * FROM financed_expenses WHERE id = $1',
-        [id]
-      );
+      const billResult = await client.query(`
+        UPDATE recurring_bills SET
+          name = $2,
+          amount_cents = $3,
+          day_of_month = $4,
+          frequency = $5,
+          split_mode = $6,
+          autopay_account_id = $8,
+          recurrence_rule = $9,
+          paused_from = $10,
+          paused_until = $11,
+          end_date = $12,
+          skipped_periods = $13,
+          archived_at = CASE WHEN $14 THEN COALESCE(archived_at, NOW()) END,
+          amount_mode = $15,
+          estimate_method = $16,
+          updated_at = NOW()
+        WHERE id = $1 AND household_id = $7 AND deleted_at IS NULL
+        RETURNING id, name, amount_cents as "amountCents", day_of_month as "dayOfMonth",
+                 frequency, recurrence_rule as "recurrenceRule", last_generated_period as "lastGeneratedPeriod", split_mode as "splitMode",
+                 autopay_account_id as "autopayAccountId", ${RECURRING_BILL_SCHEDULE_COLUMNS},
+                 amount_mode as "amountMode", estimate_method as "estimateMethod", created_at as "createdAt", updated_at as "updatedAt"
+      `, [
+        req.params.id, name, amountCents, dayOfMonth, frequency, splitMode, req.auth!.householdId, autopayAccountId || null, recurrenceRule,
+        pausedFrom || null, pausedUntil || null, endDate || null, JSON.stringify(skippedPeriods ?? []), Boolean(archived), amountMode, estimateMethod
+      ])
 
-      if (existingExpense.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return res.status(404).json({ error: 'Financed expense not found' });
+      const recurringBill = billResult.rows[0]
+      if (!recurringBill) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Recurring bill not found' })
       }
 
-      const currentExpense = existingExpense.rows[0];
-
-      // Determine if we need to recalculate payment schedule
-      const needsRecalculation =
-        (totalAmountCents !== undefined && totalAmountCents !== currentExpense.total_amount_cents) ||
-        (interestRatePercent !== undefined && interestRatePercent !== parseFloat(currentExpense.interest_rate_percent)) ||
-        (financingTermMonths !== undefined && financingTermMonths !== currentExpense.financing_term_months) ||
-        (firstPaymentDate !== undefined && firstPaymentDate !== currentExpense.first_payment_date);
+      // Bills already generated for upcoming periods follow the new autopay setting
+      await client.query(
+        'UPDATE bills SET autopay_account_id = $2 WHERE recurring_bill_id = $1 AND due_date >= CURRENT_DATE',
+        [req.params.id, autopayAccountId || null]
+      )
+      await removeUnscheduledRecurringBills(client, recurringBill)
 
-      // Use current values if not provided in update
-      const finalTotalAmountCents = totalAmountCents ?? currentExpense.total_amount_cents;
-      const finalInterestRatePercent = interestRatePercent ?? parseFloat(currentExpense.interest_rate_percent);
-      const finalFinancingTermMonths = financingTermMonths ?? currentExpense.financing_term_months;
-      const finalFirstPaymentDate = firstPaymentDate ?? currentExpense.first_payment_date;
+      await client.query('DELETE FROM recurring_bill_splits WHERE recurring_bill_id = $1', [req.params.id])
+
+      if (splits && splits.length > 0) {
+        // Insert splits one by one to avoid parameter binding issues
+        const insertedSplits = []
+        for (const split of splits) {
+          const splitResult = await client.query(`
+            INSERT INTO recurring_bill_splits (recurring_bill_id, member_id, value)
+            VALUES ($1, $2, $3)
+            RETURNING id, member_id as "memberId", value
+          `, [recurringBill.id, split.memberId, split.value])
+          insertedSplits.push(splitResult.rows[0])
+        }
+        recurringBill.splits = insertedSplits
+      } else {
+        recurringBill.splits = []
+      }
+
+      await client.query('COMMIT')
+      res.json(recurringBill)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Recurring bill update error:', error)
+    res.status(500).json({ error: 'Failed to update recurring bill' })
+  }
+})
+
+app.delete('/api/recurring-bills/:id', requireRole('manager'), async (req, res) => {
+  try {
+    await query(
+      'UPDATE recurring_bills SET deleted_at = NOW() WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [req.params.id, req.auth!.householdId]
+    )
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Recurring bill deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete recurring bill' })
+  }
+})
+
+// Mortgages API
+app.get('/api/mortgages', async (req, res) => {
+  try {
+    console.log('=== MORTGAGE GET DEBUG ===')
+    // Get all mortgages with splits
+    const mortgagesResult = await query(`
+      SELECT
+        id, name, lender, is_primary,
+        original_principal_cents, current_principal_cents,
+        interest_rate_apy, term_months,
+        start_date, scheduled_payment_cents,
+        payment_day, escrow_enabled,
+        escrow_taxes_cents, escrow_insurance_cents,
+        escrow_mip_cents, escrow_hoa_cents,
+        notes, active, split_mode, autopay_account_id,
+        created_at, updated_at
+      FROM mortgages
+      WHERE household_id = $1 AND deleted_at IS NULL
+      ORDER BY created_at DESC
+    `, [req.auth!.householdId])
+
+    // Get splits for each mortgage and convert cents to dollars as numbers
+    const mortgages = []
+    for (const mortgage of mortgagesResult.rows) {
+      const splitsResult = await query(`
+        SELECT id, member_id as "memberId", value
+        FROM mortgage_splits
+        WHERE mortgage_id = $1
+      `, [mortgage.id])
+
+      // Convert to API format: camelCase field names with cent amounts
+      const formattedMortgage = {
+        id: mortgage.id,
+        name: mortgage.name,
+        lender: mortgage.lender,
+        isPrimary: mortgage.is_primary,
+        originalPrincipalCents: mortgage.original_principal_cents,
+        currentPrincipalCents: mortgage.current_principal_cents,
+        interestRateApy: mortgage.interest_rate_apy,
+        termMonths: mortgage.term_months,
+        startDate: mortgage.start_date,
+        scheduledPaymentCents: mortgage.scheduled_payment_cents,
+        paymentDay: mortgage.payment_day,
+        escrowEnabled: mortgage.escrow_enabled,
+        escrowTaxesCents: mortgage.escrow_taxes_cents,
+        escrowInsuranceCents: mortgage.escrow_insurance_cents,
+        escrowMipCents: mortgage.escrow_mip_cents,
+        escrowHoaCents: mortgage.escrow_hoa_cents,
+        notes: mortgage.notes,
+        active: mortgage.active,
+        splitMode: mortgage.split_mode,
+        autopayAccountId: mortgage.autopay_account_id,
+        createdAt: mortgage.created_at,
+        updatedAt: mortgage.updated_at,
+        splits: splitsResult.rows.map(split => ({
+          id: split.id,
+          mortgageId: mortgage.id,
+          memberId: split.memberId,
+          value: split.value,
+          createdAt: split.created_at
+        })),
+        payments: await fetchMortgagePayments(pool, 'WHERE mp.mortgage_id = $1 AND mp.deleted_at IS NULL', [mortgage.id]),
+        rateEvents: await fetchMortgageRateEvents(pool, mortgage.id)
+      }
+
+      mortgages.push(formattedMortgage)
+    }
+
+    console.log('Returning mortgages:', JSON.stringify(mortgages, null, 2))
+    console.log('========================')
+    res.json(mortgages)
+  } catch (error) {
+    console.error('Error fetching mortgages:', error)
+    res.status(500).json({ error: 'Failed to fetch mortgages' })
+  }
+})
+
+app.post('/api/mortgages', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    // Debug logging to see what we're receiving
+    console.log('=== MORTGAGE CREATE DEBUG ===')
+    console.log('Full request body:', JSON.stringify(req.body, null, 2))
+    console.log('=============================')
+
+    const {
+      name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
+      interestRateApy, termMonths, startDate, scheduledPaymentCents,
+      paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
+      escrowMipCents, escrowHoaCents, notes, active, splitMode, splits, autopayAccountId
+    } = req.body
+
+    // Debug the extracted values
+    console.log('Extracted values:')
+    console.log('name:', name)
+    console.log('originalPrincipalCents:', originalPrincipalCents)
+    console.log('currentPrincipalCents:', currentPrincipalCents)
+    console.log('scheduledPaymentCents:', scheduledPaymentCents)
+    console.log('active:', active)
+
+    if ((await findForeignMemberIds(client, req.auth!.householdId, (splits || []).map(split => split.memberId))).length > 0) {
+      await client.query('ROLLBACK')
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+    if (!(await isHouseholdAccount(client, req.auth!.householdId, autopayAccountId))) {
+      await client.query('ROLLBACK')
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
+
+    // Insert mortgage
+    const mortgageResult = await client.query(`
+      INSERT INTO mortgages (
+        name, lender, is_primary, original_principal_cents, current_principal_cents,
+        interest_rate_apy, term_months, start_date, scheduled_payment_cents,
+        payment_day, escrow_enabled, escrow_taxes_cents, escrow_insurance_cents,
+        escrow_mip_cents, escrow_hoa_cents, notes, active, split_mode, household_id, autopay_account_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      RETURNING id, name, lender, is_primary,
+               original_principal_cents / 100.0 as "original_principal",
+               current_principal_cents / 100.0 as "current_principal",
+               interest_rate_apy, term_months,
+               start_date, scheduled_payment_cents / 100.0 as "scheduled_payment",
+               payment_day, escrow_enabled,
+               escrow_taxes_cents / 100.0 as "escrow_taxes",
+               escrow_insurance_cents / 100.0 as "escrow_insurance",
+               escrow_mip_cents / 100.0 as "escrow_mip",
+               escrow_hoa_cents / 100.0 as "escrow_hoa",
+               notes, active, split_mode, autopay_account_id,
+               created_at, updated_at
+    `, [name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
+        interestRateApy, termMonths, startDate, scheduledPaymentCents,
+        paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
+        escrowMipCents, escrowHoaCents, notes, active, splitMode, req.auth!.householdId, autopayAccountId || null])
+
+    const mortgage = mortgageResult.rows[0]
+
+    // Insert splits
+    if (splits && splits.length > 0) {
+      const insertedSplits = []
+      for (const split of splits) {
+        const splitResult = await client.query(`
+          INSERT INTO mortgage_splits (mortgage_id, member_id, value)
+          VALUES ($1, $2, $3)
+          RETURNING id, member_id as "memberId", value
+        `, [mortgage.id, split.memberId, split.value])
+        insertedSplits.push({
+          personId: split.memberId,
+          value: split.value
+        })
+      }
+      mortgage.splits = insertedSplits
+    } else {
+      mortgage.splits = []
+    }
+
+    // Convert to API format: camelCase field names with cent amounts
+    const formattedMortgage = {
+      id: mortgage.id,
+      name: mortgage.name,
+      lender: mortgage.lender,
+      isPrimary: mortgage.is_primary,
+      originalPrincipalCents: Math.round((mortgage.original_principal || 0) * 100),
+      currentPrincipalCents: Math.round((mortgage.current_principal || 0) * 100),
+      interestRateApy: mortgage.interest_rate_apy,
+      termMonths: mortgage.term_months,
+      startDate: mortgage.start_date,
+      scheduledPaymentCents: Math.round((mortgage.scheduled_payment || 0) * 100),
+      paymentDay: mortgage.payment_day,
+      escrowEnabled: mortgage.escrow_enabled,
+      escrowTaxesCents: mortgage.escrow_taxes ? Math.round(mortgage.escrow_taxes * 100) : undefined,
+      escrowInsuranceCents: mortgage.escrow_insurance ? Math.round(mortgage.escrow_insurance * 100) : undefined,
+      escrowMipCents: mortgage.escrow_mip ? Math.round(mortgage.escrow_mip * 100) : undefined,
+      escrowHoaCents: mortgage.escrow_hoa ? Math.round(mortgage.escrow_hoa * 100) : undefined,
+      notes: mortgage.notes,
+      active: mortgage.active,
+      splitMode: mortgage.split_mode,
+      autopayAccountId: mortgage.autopay_account_id,
+      createdAt: mortgage.created_at,
+      updatedAt: mortgage.updated_at,
+      splits: mortgage.splits,
+      rateEvents: []
+    }
+
+    await client.query('COMMIT')
+    res.json(formattedMortgage)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Error creating mortgage:', error)
+    res.status(500).json({ error: 'Failed to create mortgage' })
+  } finally {
+    client.release()
+  }
+})
+
+app.put('/api/mortgages/:id', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const {
+      name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
+      interestRateApy, termMonths, startDate, scheduledPaymentCents,
+      paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
+      escrowMipCents, escrowHoaCents, notes, active, splitMode, splits, autopayAccountId
+    } = req.body
+
+    if ((await findForeignMemberIds(client, req.auth!.householdId, (splits || []).map(split => split.memberId))).length > 0) {
+      await client.query('ROLLBACK')
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+    if (!(await isHouseholdAccount(client, req.auth!.householdId, autopayAccountId))) {
+      await client.query('ROLLBACK')
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
+
+    // Update mortgage
+    const mortgageResult = await client.query(`
+      UPDATE mortgages SET
+        name = $2, lender = $3, is_primary = $4, original_principal_cents = $5,
+        current_principal_cents = $6, interest_rate_apy = $7, term_months = $8,
+        start_date = $9, scheduled_payment_cents = $10, payment_day = $11,
+        escrow_enabled = $12, escrow_taxes_cents = $13, escrow_insurance_cents = $14,
+        escrow_mip_cents = $15, escrow_hoa_cents = $16, notes = $17,
+        active = $18, split_mode = $19, autopay_account_id = $21, updated_at = NOW()
+      WHERE id = $1 AND household_id = $20 AND deleted_at IS NULL
+      RETURNING id, name, lender, is_primary,
+               original_principal_cents, current_principal_cents,
+               interest_rate_apy, term_months,
+               start_date, scheduled_payment_cents,
+               payment_day, escrow_enabled,
+               escrow_taxes_cents, escrow_insurance_cents,
+               escrow_mip_cents, escrow_hoa_cents,
+               notes, active, split_mode, autopay_account_id,
+               created_at, updated_at
+    `, [req.params.id, name, lender, isPrimary, originalPrincipalCents, currentPrincipalCents,
+        interestRateApy, termMonths, startDate, scheduledPaymentCents,
+        paymentDay, escrowEnabled, escrowTaxesCents, escrowInsuranceCents,
+        escrowMipCents, escrowHoaCents, notes, active, splitMode, req.auth!.householdId, autopayAccountId || null])
+
+    const mortgage = mortgageResult.rows[0]
+    if (!mortgage) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+
+    // Delete existing splits
+    await client.query('DELETE FROM mortgage_splits WHERE mortgage_id = $1', [req.params.id])
+
+    // Insert new splits
+    if (splits && splits.length > 0) {
+      const insertedSplits = []
+      for (const split of splits) {
+        const splitResult = await client.query(`
+          INSERT INTO mortgage_splits (mortgage_id, member_id, value)
+          VALUES ($1, $2, $3)
+          RETURNING id, member_id as "memberId", value
+        `, [mortgage.id, split.memberId, split.value])
+        insertedSplits.push({
+          personId: split.memberId,
+          value: split.value
+        })
+      }
+      mortgage.splits = insertedSplits
+    } else {
+      mortgage.splits = []
+    }
+
+    // Convert to API format: camelCase field names with cent amounts
+    const formattedMortgage = {
+      id: mortgage.id,
+      name: mortgage.name,
+      lender: mortgage.lender,
+      isPrimary: mortgage.is_primary,
+      originalPrincipalCents: mortgage.original_principal_cents,
+      currentPrincipalCents: mortgage.current_principal_cents,
+      interestRateApy: mortgage.interest_rate_apy,
+      termMonths: mortgage.term_months,
+      startDate: mortgage.start_date,
+      scheduledPaymentCents: mortgage.scheduled_payment_cents,
+      paymentDay: mortgage.payment_day,
+      escrowEnabled: mortgage.escrow_enabled,
+      escrowTaxesCents: mortgage.escrow_taxes_cents,
+      escrowInsuranceCents: mortgage.escrow_insurance_cents,
+      escrowMipCents: mortgage.escrow_mip_cents,
+      escrowHoaCents: mortgage.escrow_hoa_cents,
+      notes: mortgage.notes,
+      active: mortgage.active,
+      splitMode: mortgage.split_mode,
+      autopayAccountId: mortgage.autopay_account_id,
+      createdAt: mortgage.created_at,
+      updatedAt: mortgage.updated_at,
+      splits: mortgage.splits,
+      rateEvents: await fetchMortgageRateEvents(client, mortgage.id)
+    }
+
+    await client.query('COMMIT')
+    res.json(formattedMortgage)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Error updating mortgage:', error)
+    res.status(500).json({ error: 'Failed to update mortgage' })
+  } finally {
+    client.release()
+  }
+})
+
+app.delete('/api/mortgages/:id', requireRole('manager'), async (req, res) => {
+  try {
+    // Moves the mortgage to the trash; splits, payments and escrow history stay with it until it is purged
+    const result = await query(
+      'UPDATE mortgages SET deleted_at = NOW() WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [req.params.id, req.auth!.householdId]
+    )
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting mortgage:', error)
+    res.status(500).json({ error: 'Failed to delete mortgage' })
+  }
+})
+
+// Mortgage rate events: refinances and ARM rate resets, returned with each mortgage
+const RATE_EVENT_COLUMNS = `
+  id, mortgage_id as "mortgageId", kind, to_char(effective_date, 'YYYY-MM-DD') as "effectiveDate",
+  interest_rate_apy::float as "interestRateApy", term_months as "termMonths", principal_cents as "principalCents",
+  closing_costs_cents as "closingCostsCents", scheduled_payment_cents as "scheduledPaymentCents", note,
+  created_at as "createdAt"
+`
+
+interface MortgageRateEventRow {
+  id: string
+  mortgageId: string
+  kind: MortgageRateEventKind
+  effectiveDate: string
+  interestRateApy: number
+  termMonths: number | null
+  principalCents: number | null
+  closingCostsCents: number
+  scheduledPaymentCents: number | null
+  note: string | null
+  createdAt: Date
+}
+
+async function fetchMortgageRateEvents(client: Pool | PoolClient, mortgageId: string) {
+  const result = await client.query<MortgageRateEventRow>(`
+    SELECT ${RATE_EVENT_COLUMNS}
+    FROM mortgage_rate_events
+    WHERE mortgage_id = $1
+    ORDER BY effective_date ASC, created_at ASC
+  `, [mortgageId])
+  return result.rows
+}
+
+// Rate events in the shape getMortgageTermsOn reads; amounts stay in cents
+const toRateEvents = (events: MortgageRateEventRow[]): MortgageRateEvent[] => events.map(event => ({
+  id: event.id,
+  mortgageId: event.mortgageId,
+  kind: event.kind,
+  effectiveDate: event.effectiveDate,
+  interestRateApy: event.interestRateApy,
+  termMonths: event.termMonths ?? undefined,
+  principal: event.principalCents ?? undefined,
+  closingCosts: event.closingCostsCents,
+  scheduledPayment: event.scheduledPaymentCents ?? undefined
+}))
+
+const formatLocalDate = (date: Date) => `${formatPeriod(date)}-${String(date.getDate()).padStart(2, '0')}`
+
+// 'YYYY-MM' of the next payment due today or later, and never one before the mortgage's first
+function getNextMortgageDuePeriod(startDate: string, paymentDay: number, today = new Date()): string {
+  let nextPeriod = formatPeriod(today)
+  if (getRecurringDueDate(nextPeriod, paymentDay) < formatLocalDate(today)) nextPeriod = addMonthsToPeriod(nextPeriod, 1)
+  const firstDuePeriod = formatPeriod(computeFirstDueDate(new Date(`${startDate}T00:00:00`), paymentDay))
+  return nextPeriod < firstDuePeriod ? firstDuePeriod : nextPeriod
+}
+
+// What the amortization schedule starts from: the current balance at the next due date, with the
+// rate and term in effect then. Rate events after that date are applied as the schedule reaches them.
+async function loadAmortizationInput(householdId: string, mortgageId: string): Promise<AmortizationInput | null> {
+  const result = await query(`
+    SELECT current_principal_cents, interest_rate_apy::float as interest_rate_apy, term_months,
+           to_char(start_date, 'YYYY-MM-DD') as start_date, payment_day, scheduled_payment_cents,
+           CASE WHEN escrow_enabled THEN COALESCE(escrow_taxes_cents, 0) + COALESCE(escrow_insurance_cents, 0)
+                + COALESCE(escrow_mip_cents, 0) + COALESCE(escrow_hoa_cents, 0) ELSE 0 END as escrow_cents
+    FROM mortgages
+    WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL
+  `, [mortgageId, householdId])
+  if (result.rows.length === 0) return null
+
+  const mortgage = result.rows[0]
+  const rateEvents = toRateEvents(await fetchMortgageRateEvents(pool, mortgageId))
+  const firstDuePeriodOf = (date: string) => formatPeriod(computeFirstDueDate(new Date(`${date}T00:00:00`), mortgage.payment_day))
+
+  const nextPeriod = getNextMortgageDuePeriod(mortgage.start_date, mortgage.payment_day)
+  const nextDueDate = getRecurringDueDate(nextPeriod, mortgage.payment_day)
+
+  const terms = getMortgageTermsOn({
+    interest_rate_apy: mortgage.interest_rate_apy,
+    term_months: mortgage.term_months,
+    start_date: mortgage.start_date,
+    scheduled_payment: mortgage.scheduled_payment_cents,
+    rateEvents
+  }, nextDueDate)
+
+  return {
+    principalCents: mortgage.current_principal_cents,
+    interestRateApy: terms.interest_rate_apy,
+    remainingMonths: terms.term_months - monthsBetweenPeriods(firstDuePeriodOf(terms.start_date), nextPeriod),
+    escrowCents: Number(mortgage.escrow_cents),
+    firstPeriod: nextPeriod,
+    paymentDay: mortgage.payment_day,
+    rateChanges: rateEvents
+      .filter(event => event.effectiveDate > nextDueDate)
+      .map(event => ({
+        period: firstDuePeriodOf(event.effectiveDate),
+        interestRateApy: event.interestRateApy,
+        termMonths: event.kind === 'refinance' ? event.termMonths : undefined,
+        principalCents: event.kind === 'refinance' ? event.principal : undefined
+      }))
+  }
+}
+
+app.post('/api/mortgages/:id/rate-events', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    const { kind, effectiveDate, interestRateApy, termMonths, principalCents, closingCostsCents = 0, scheduledPaymentCents, note } = req.body || {}
+    const isRefinance = kind === 'refinance'
+    const optionalCents = (value: unknown) => value === undefined || value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0)
+    if (kind !== 'refinance' && kind !== 'rate-reset') {
+      return res.status(400).json({ error: "kind must be 'refinance' or 'rate-reset'" })
+    }
+    if (!isDateString(effectiveDate)) {
+      return res.status(400).json({ error: 'effectiveDate must be YYYY-MM-DD' })
+    }
+    if (typeof interestRateApy !== 'number' || interestRateApy < 0 || interestRateApy >= 100) {
+      return res.status(400).json({ error: 'interestRateApy must be a percentage below 100' })
+    }
+    if (isRefinance && (!Number.isInteger(termMonths) || termMonths <= 0)) {
+      return res.status(400).json({ error: 'A refinance needs termMonths' })
+    }
+    if (!isRefinance && (termMonths != null || principalCents != null)) {
+      return res.status(400).json({ error: 'Only a refinance can change the term or principal' })
+    }
+    if (!optionalCents(principalCents) || !optionalCents(closingCostsCents) || !optionalCents(scheduledPaymentCents)) {
+      return res.status(400).json({ error: 'Amounts must be whole numbers of cents' })
+    }
+
+    await client.query('BEGIN')
+    const mortgageResult = await client.query(
+      'SELECT id FROM mortgages WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL FOR UPDATE',
+      [req.params.id, req.auth!.householdId]
+    )
+    if (mortgageResult.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+
+    const inserted = await client.query(`
+      INSERT INTO mortgage_rate_events (mortgage_id, kind, effective_date, interest_rate_apy, term_months, principal_cents,
+                                        closing_costs_cents, scheduled_payment_cents, note)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING ${RATE_EVENT_COLUMNS}
+    `, [req.params.id, kind, effectiveDate, interestRateApy, isRefinance ? termMonths : null, isRefinance ? principalCents ?? null : null,
+        closingCostsCents ?? 0, scheduledPaymentCents ?? null, note || null])
+
+    // A refinance that has already happened replaces the balance; payments recorded after it reduce the new one
+    let currentPrincipalCents: number | undefined
+    if (isRefinance && principalCents != null && effectiveDate <= new Date().toISOString().slice(0, 10)) {
+      const updated = await client.query(`
+        UPDATE mortgages SET current_principal_cents = $2 - COALESCE((
+          SELECT SUM(bd.principal_cents) FROM mortgage_payment_breakdowns bd
+          JOIN mortgage_payments mp ON bd.payment_id = mp.id
+          WHERE mp.mortgage_id = $1 AND mp.paid_date >= $3 AND mp.deleted_at IS NULL
+        ), 0), updated_at = NOW()
+        WHERE id = $1
+        RETURNING current_principal_cents
+      `, [req.params.id, principalCents, effectiveDate])
+      currentPrincipalCents = updated.rows[0].current_principal_cents
+    }
+
+    await client.query('COMMIT')
+    res.status(201).json({ ...inserted.rows[0], ...(currentPrincipalCents !== undefined && { mortgageCurrentPrincipalCents: currentPrincipalCents }) })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Mortgage rate event create error:', error)
+    res.status(500).json({ error: 'Failed to record rate change' })
+  } finally {
+    client.release()
+  }
+})
+
+app.delete('/api/mortgages/:id/rate-events/:eventId', requireRole('manager'), async (req, res) => {
+  try {
+    const result = await query(`
+      DELETE FROM mortgage_rate_events e
+      USING mortgages m
+      WHERE e.id = $1 AND e.mortgage_id = $2 AND m.id = e.mortgage_id AND m.household_id = $3
+      RETURNING e.id
+    `, [req.params.eventId, req.params.id, req.auth!.householdId])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Rate change not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Mortgage rate event delete error:', error)
+    res.status(500).json({ error: 'Failed to delete rate change' })
+  }
+})
+
+// Month-by-month schedule from the current balance, starting at the next due date. Pass
+// extraMonthlyCents, lumpSumCents (with lumpSumPeriod 'YYYY-MM') or biweekly=true to compare a
+// payoff scenario with the baseline.
+app.get('/api/mortgages/:id/amortization', async (req, res) => {
+  try {
+    const input = await loadAmortizationInput(req.auth!.householdId, req.params.id)
+    if (!input) {
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+
+    const scenario: PayoffScenario = {}
+    for (const key of ['extraMonthlyCents', 'lumpSumCents'] as const) {
+      if (req.query[key] === undefined) continue
+      const cents = Number(req.query[key])
+      if (!Number.isInteger(cents) || cents < 0) {
+        return res.status(400).json({ error: `${key} must be a whole number of cents` })
+      }
+      scenario[key] = cents
+    }
+    if (req.query.lumpSumPeriod !== undefined) {
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(String(req.query.lumpSumPeriod))) {
+        return res.status(400).json({ error: 'lumpSumPeriod must be YYYY-MM' })
+      }
+      scenario.lumpSumPeriod = String(req.query.lumpSumPeriod)
+    }
+    scenario.biweekly = req.query.biweekly === 'true'
+
+    const baseline = buildAmortizationSchedule(input)
+    const hasScenario = !!(scenario.extraMonthlyCents || scenario.lumpSumCents || scenario.biweekly)
+    const whatIf = hasScenario ? buildAmortizationSchedule(input, scenario) : null
+
+    res.json({
+      mortgageId: req.params.id,
+      monthlyPrincipalAndInterestCents: baseline.monthlyPrincipalAndInterestCents,
+      escrowCents: input.escrowCents,
+      baseline: { summary: baseline.summary, schedule: baseline.rows },
+      whatIf: whatIf && {
+        scenario,
+        summary: whatIf.summary,
+        schedule: whatIf.rows,
+        interestSavedCents: baseline.summary.totalInterestCents - whatIf.summary.totalInterestCents,
+        monthsSaved: baseline.summary.months - whatIf.summary.months
+      }
+    })
+  } catch (error) {
+    console.error('Amortization schedule error:', error)
+    res.status(500).json({ error: 'Failed to build amortization schedule' })
+  }
+})
+
+// Compares the current loan with a proposed refinance: interestRateApy, termMonths, closingCostsCents
+// and optionally principalCents (the current balance by default)
+app.get('/api/mortgages/:id/refinance-break-even', async (req, res) => {
+  try {
+    const interestRateApy = Number(req.query.interestRateApy)
+    const termMonths = Number(req.query.termMonths)
+    const closingCostsCents = Number(req.query.closingCostsCents ?? 0)
+    const principalCents = req.query.principalCents === undefined ? undefined : Number(req.query.principalCents)
+    if (req.query.interestRateApy === undefined || !Number.isFinite(interestRateApy) || interestRateApy < 0 || interestRateApy >= 100) {
+      return res.status(400).json({ error: 'interestRateApy must be a percentage below 100' })
+    }
+    if (!Number.isInteger(termMonths) || termMonths <= 0) {
+      return res.status(400).json({ error: 'termMonths must be a positive whole number' })
+    }
+    if (!Number.isInteger(closingCostsCents) || closingCostsCents < 0 || (principalCents !== undefined && (!Number.isInteger(principalCents) || principalCents < 0))) {
+      return res.status(400).json({ error: 'Amounts must be whole numbers of cents' })
+    }
+
+    const input = await loadAmortizationInput(req.auth!.householdId, req.params.id)
+    if (!input) {
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+    res.json(calculateRefinanceBreakEven(input, { interestRateApy, termMonths, closingCostsCents, principalCents }))
+  } catch (error) {
+    console.error('Refinance break-even error:', error)
+    res.status(500).json({ error: 'Failed to calculate refinance break-even' })
+  }
+})
+
+// Escrow account: deposits are the escrow part of each payment breakdown, disbursements are the bills
+// the lender paid from the account, and adjustments record each change to the monthly escrow amounts
+const ESCROW_DISBURSEMENT_COLUMNS = `
+  id, mortgage_id as "mortgageId", category, amount_cents as "amountCents",
+  to_char(disbursed_date, 'YYYY-MM-DD') as "disbursedDate", note, created_at as "createdAt"
+`
+
+const ESCROW_ADJUSTMENT_COLUMNS = `
+  id, mortgage_id as "mortgageId", to_char(effective_date, 'YYYY-MM-DD') as "effectiveDate",
+  escrow_taxes_cents as "escrowTaxesCents", escrow_insurance_cents as "escrowInsuranceCents",
+  escrow_mip_cents as "escrowMipCents", escrow_hoa_cents as "escrowHoaCents",
+  scheduled_payment_cents as "scheduledPaymentCents", previous_escrow_cents as "previousEscrowCents",
+  previous_scheduled_payment_cents as "previousScheduledPaymentCents", shortage_cents as "shortageCents",
+  surplus_cents as "surplusCents", note, created_at as "createdAt"
+`
+
+// The account's balance and history, and the analysis of the coming year. The lender's next analysis
+// falls on the anniversary of the last adjustment, or of the first payment when there has been none.
+async function loadEscrowAccount(client: Pool | PoolClient, householdId: string, mortgageId: string) {
+  const result = await client.query(`
+    SELECT id, to_char(start_date, 'YYYY-MM-DD') as start_date, payment_day, scheduled_payment_cents, escrow_enabled,
+           escrow_taxes_cents, escrow_insurance_cents, escrow_mip_cents, escrow_hoa_cents, escrow_opening_balance_cents
+    FROM mortgages
+    WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL
+  `, [mortgageId, householdId])
+  if (result.rows.length === 0) return null
+  const mortgage = result.rows[0]
+
+  const deposits = (await client.query(`
+    SELECT mp.id as "paymentId", to_char(mp.paid_date, 'YYYY-MM-DD') as "paidDate", bd.escrow_cents as "amountCents"
+    FROM mortgage_payment_breakdowns bd
+    JOIN mortgage_payments mp ON bd.payment_id = mp.id
+    WHERE bd.mortgage_id = $1 AND bd.escrow_cents > 0 AND mp.deleted_at IS NULL
+    ORDER BY mp.paid_date ASC, mp.created_at ASC
+  `, [mortgageId])).rows
+  const disbursements = (await client.query(`
+    SELECT ${ESCROW_DISBURSEMENT_COLUMNS}
+    FROM escrow_disbursements
+    WHERE mortgage_id = $1
+    ORDER BY disbursed_date ASC, created_at ASC
+  `, [mortgageId])).rows
+  const adjustments = (await client.query(`
+    SELECT ${ESCROW_ADJUSTMENT_COLUMNS}
+    FROM escrow_adjustments
+    WHERE mortgage_id = $1
+    ORDER BY effective_date DESC, created_at DESC
+  `, [mortgageId])).rows
+
+  const today = formatLocalDate(new Date())
+  const balanceCents = mortgage.escrow_opening_balance_cents +
+    deposits.filter(deposit => deposit.paidDate <= today).reduce((sum, deposit) => sum + deposit.amountCents, 0) -
+    disbursements.reduce((sum, disbursement) => sum + disbursement.amountCents, 0)
+
+  let nextAnalysisDate = adjustments[0]?.effectiveDate ??
+    formatLocalDate(computeFirstDueDate(new Date(`${mortgage.start_date}T00:00:00`), mortgage.payment_day))
+  while (nextAnalysisDate <= today) nextAnalysisDate = addYearsToDate(nextAnalysisDate, 1)
+
+  const monthlyEscrowCents = getMortgageEscrowMonthlyCents(mortgage)
+  return {
+    mortgage,
+    account: {
+      mortgageId,
+      openingBalanceCents: mortgage.escrow_opening_balance_cents,
+      balanceCents,
+      monthlyEscrowCents,
+      nextAnalysisDate,
+      deposits,
+      disbursements,
+      adjustments,
+      analysis: analyzeEscrowAccount({
+        balanceCents,
+        asOfDate: today,
+        monthlyDepositCents: monthlyEscrowCents,
+        firstPeriod: getNextMortgageDuePeriod(mortgage.start_date, mortgage.payment_day),
+        paymentDay: mortgage.payment_day,
+        disbursements: disbursements.map(disbursement => ({
+          category: disbursement.category,
+          amountCents: disbursement.amountCents,
+          date: disbursement.disbursedDate
+        }))
+      })
+    }
+  }
+}
+
+app.get('/api/mortgages/:id/escrow', async (req, res) => {
+  try {
+    const escrow = await loadEscrowAccount(pool, req.auth!.householdId, req.params.id)
+    if (!escrow) {
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+    res.json(escrow.account)
+  } catch (error) {
+    console.error('Escrow account error:', error)
+    res.status(500).json({ error: 'Failed to load escrow account' })
+  }
+})
+
+// Sets the balance the account started with, before any recorded deposit or disbursement
+app.put('/api/mortgages/:id/escrow', requireRole('manager'), async (req, res) => {
+  try {
+    const { openingBalanceCents } = req.body || {}
+    if (!Number.isInteger(openingBalanceCents)) {
+      return res.status(400).json({ error: 'openingBalanceCents must be a whole number of cents' })
+    }
+
+    const result = await query(`
+      UPDATE mortgages SET escrow_opening_balance_cents = $3, updated_at = NOW()
+      WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, openingBalanceCents])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+
+    const escrow = await loadEscrowAccount(pool, req.auth!.householdId, req.params.id)
+    res.json(escrow!.account)
+  } catch (error) {
+    console.error('Escrow opening balance error:', error)
+    res.status(500).json({ error: 'Failed to update escrow account' })
+  }
+})
+
+app.post('/api/mortgages/:id/escrow/disbursements', requireRole('manager'), async (req, res) => {
+  try {
+    const { category, amountCents, disbursedDate, note } = req.body || {}
+    if (!ESCROW_CATEGORIES.includes(category)) {
+      return res.status(400).json({ error: `category must be one of ${ESCROW_CATEGORIES.join(', ')}` })
+    }
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      return res.status(400).json({ error: 'amountCents must be a positive whole number of cents' })
+    }
+    if (!isDateString(disbursedDate)) {
+      return res.status(400).json({ error: 'disbursedDate must be YYYY-MM-DD' })
+    }
+    if (disbursedDate > formatLocalDate(new Date())) {
+      return res.status(400).json({ error: 'Record a disbursement once the lender has paid it' })
+    }
+
+    const result = await query(`
+      INSERT INTO escrow_disbursements (mortgage_id, category, amount_cents, disbursed_date, note)
+      SELECT id, $3, $4, $5, $6 FROM mortgages WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL
+      RETURNING ${ESCROW_DISBURSEMENT_COLUMNS}
+    `, [req.params.id, req.auth!.householdId, category, amountCents, disbursedDate, note || null])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+    res.status(201).json(result.rows[0])
+  } catch (error) {
+    console.error('Escrow disbursement create error:', error)
+    res.status(500).json({ error: 'Failed to record escrow disbursement' })
+  }
+})
+
+app.delete('/api/mortgages/:id/escrow/disbursements/:disbursementId', requireRole('manager'), async (req, res) => {
+  try {
+    const result = await query(`
+      DELETE FROM escrow_disbursements d
+      USING mortgages m
+      WHERE d.id = $1 AND d.mortgage_id = $2 AND m.id = d.mortgage_id AND m.household_id = $3
+      RETURNING d.id
+    `, [req.params.disbursementId, req.params.id, req.auth!.householdId])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Escrow disbursement not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Escrow disbursement delete error:', error)
+    res.status(500).json({ error: 'Failed to delete escrow disbursement' })
+  }
+})
+
+// Applies an escrow analysis: sets the monthly escrow amounts and the scheduled payment (by default the
+// old one with the escrow difference) and records the change with the shortage or surplus found then
+app.post('/api/mortgages/:id/escrow/adjustments', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    const {
+      effectiveDate, escrowTaxesCents = 0, escrowInsuranceCents = 0, escrowMipCents = 0, escrowHoaCents = 0,
+      scheduledPaymentCents, note
+    } = req.body || {}
+    const amounts = [escrowTaxesCents, escrowInsuranceCents, escrowMipCents, escrowHoaCents]
+    if (!isDateString(effectiveDate)) {
+      return res.status(400).json({ error: 'effectiveDate must be YYYY-MM-DD' })
+    }
+    if (amounts.some(cents => !Number.isInteger(cents) || cents < 0) ||
+        (scheduledPaymentCents !== undefined && (!Number.isInteger(scheduledPaymentCents) || scheduledPaymentCents <= 0))) {
+      return res.status(400).json({ error: 'Amounts must be whole numbers of cents' })
+    }
+
+    await client.query('BEGIN')
+    await client.query('SELECT id FROM mortgages WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL FOR UPDATE', [req.params.id, req.auth!.householdId])
+    const escrow = await loadEscrowAccount(client, req.auth!.householdId, req.params.id)
+    if (!escrow) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Mortgage not found' })
+    }
+
+    const escrowCents = amounts.reduce((sum, cents) => sum + cents, 0)
+    const previousScheduledCents = escrow.mortgage.scheduled_payment_cents
+    const newScheduledCents = scheduledPaymentCents ?? previousScheduledCents - escrow.account.monthlyEscrowCents + escrowCents
+    if (newScheduledCents <= 0) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: 'The scheduled payment must stay above zero' })
+    }
+
+    await client.query(`
+      UPDATE mortgages SET
+        escrow_enabled = $2, escrow_taxes_cents = $3, escrow_insurance_cents = $4, escrow_mip_cents = $5,
+        escrow_hoa_cents = $6, scheduled_payment_cents = $7, updated_at = NOW()
+      WHERE id = $1
+    `, [req.params.id, escrowCents > 0, ...amounts, newScheduledCents])
+    const inserted = await client.query(`
+      INSERT INTO escrow_adjustments (mortgage_id, effective_date, escrow_taxes_cents, escrow_insurance_cents, escrow_mip_cents,
+                                      escrow_hoa_cents, scheduled_payment_cents, previous_escrow_cents,
+                                      previous_scheduled_payment_cents, shortage_cents, surplus_cents, note)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING ${ESCROW_ADJUSTMENT_COLUMNS}
+    `, [req.params.id, effectiveDate, ...amounts, newScheduledCents, escrow.account.monthlyEscrowCents, previousScheduledCents,
+        escrow.account.analysis.shortageCents, escrow.account.analysis.surplusCents, note || null])
+
+    await client.query('COMMIT')
+    res.status(201).json(inserted.rows[0])
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Escrow adjustment error:', error)
+    res.status(500).json({ error: 'Failed to apply escrow adjustment' })
+  } finally {
+    client.release()
+  }
+})
+
+// Mortgage Payments API
+
+// Splits a mortgage payment into interest, escrow and principal (all in cents).
+// Interest is charged on the balance before this payment, escrow is funded next,
+// and whatever remains reduces principal, never below zero.
+function calculateMortgagePaymentBreakdownCents(
+  amountCents: number,
+  principalBeforeCents: number,
+  interestRateApy: number,
+  escrowMonthlyCents: number
+): { principalCents: number; interestCents: number; escrowCents: number } {
+  const monthlyRate = interestRateApy / 100 / 12
+  const interestForCycle = Math.floor(principalBeforeCents * monthlyRate)
+
+  let remainingCents = amountCents
+
+  const interestCents = Math.min(remainingCents, interestForCycle)
+  remainingCents -= interestCents
+
+  const escrowCents = Math.min(remainingCents, escrowMonthlyCents)
+  remainingCents -= escrowCents
+
+  const principalCents = Math.min(remainingCents, Math.max(0, principalBeforeCents))
+
+  return { principalCents, interestCents, escrowCents }
+}
+
+// The mortgages columns a payment's breakdown is worked out from
+interface MortgageBreakdownRow {
+  id: string
+  current_principal_cents: number
+  interest_rate_apy: string
+  escrow_enabled: boolean
+  escrow_taxes_cents: number | null
+  escrow_insurance_cents: number | null
+  escrow_mip_cents: number | null
+  escrow_hoa_cents: number | null
+}
+
+interface PaymentAllocationInput {
+  memberId: string
+  amountCents: number
+}
+
+// A payment as the routes, bank imports and autopay record it
+interface PaymentInput {
+  paidDate: string
+  amountCents: number
+  method: PaymentMethod
+  accountId?: string | null
+  payerMemberId: string | null
+  note?: string | null
+  receiptFilename?: string | null
+  receiptData?: string | null
+  allocations?: PaymentAllocationInput[]
+}
+
+function getMortgageEscrowMonthlyCents(mortgage: MortgageBreakdownRow): number {
+  if (!mortgage.escrow_enabled) return 0
+  return (mortgage.escrow_taxes_cents || 0) + (mortgage.escrow_insurance_cents || 0) +
+    (mortgage.escrow_mip_cents || 0) + (mortgage.escrow_hoa_cents || 0)
+}
+
+// Writes the breakdown for a payment charged interest on `principalBeforeCents`, and returns the
+// principal it paid down
+async function writeMortgagePaymentBreakdown(
+  client: PoolClient,
+  mortgage: MortgageBreakdownRow,
+  paymentId: string,
+  paidDate: string,
+  amountCents: number,
+  principalBeforeCents: number
+): Promise<number> {
+  // Interest is charged at the rate in effect when the payment was made
+  const rateResult = await client.query<{ interest_rate_apy: string }>(`
+    SELECT interest_rate_apy FROM mortgage_rate_events
+    WHERE mortgage_id = $1 AND effective_date <= $2
+    ORDER BY effective_date DESC, created_at DESC
+    LIMIT 1
+  `, [mortgage.id, paidDate])
+
+  const breakdown = calculateMortgagePaymentBreakdownCents(
+    amountCents,
+    principalBeforeCents,
+    parseFloat(rateResult.rows[0]?.interest_rate_apy ?? mortgage.interest_rate_apy),
+    getMortgageEscrowMonthlyCents(mortgage)
+  )
+
+  await client.query(`
+    INSERT INTO mortgage_payment_breakdowns (id, payment_id, mortgage_id, principal_cents, interest_cents, escrow_cents)
+    VALUES ($1, $1, $2, $3, $4, $5)
+    ON CONFLICT (payment_id) DO UPDATE SET
+      principal_cents = EXCLUDED.principal_cents,
+      interest_cents = EXCLUDED.interest_cents,
+      escrow_cents = EXCLUDED.escrow_cents
+  `, [paymentId, mortgage.id, breakdown.principalCents, breakdown.interestCents, breakdown.escrowCents])
+
+  return breakdown.principalCents
+}
+
+// Works out again, in date order, the breakdowns of the payments made on or after `fromDate`
+// (`paymentId`'s too when it has none yet), each from the balance the one before it left, and
+// sets the mortgage balance they leave. Every later payment's interest depends on a payment
+// recorded, edited, deleted or restored before it. The caller holds the mortgage row's lock.
+async function recalculateMortgagePaymentBreakdowns(client: PoolClient, mortgage: MortgageBreakdownRow, fromDate: string, paymentId: string | null = null): Promise<number> {
+  const balanceResult = await client.query<{ current_principal_cents: number }>(
+    'SELECT current_principal_cents FROM mortgages WHERE id = $1',
+    [mortgage.id]
+  )
+  const paymentsResult = await client.query<{ id: string; paidDate: string; amountCents: number; principalCents: number }>(`
+    SELECT mp.id, to_char(mp.paid_date, 'YYYY-MM-DD') as "paidDate", mp.amount_cents as "amountCents",
+           COALESCE(bd.principal_cents, 0) as "principalCents"
+    FROM mortgage_payments mp
+    LEFT JOIN mortgage_payment_breakdowns bd ON bd.payment_id = mp.id
+    WHERE mp.mortgage_id = $1 AND mp.paid_date >= $2 AND mp.deleted_at IS NULL AND (bd.id IS NOT NULL OR mp.id = $3)
+    ORDER BY mp.paid_date ASC, mp.created_at ASC
+  `, [mortgage.id, fromDate, paymentId])
+
+  // The balance before the first of them, with the principal they paid down given back
+  let principalCents = paymentsResult.rows.reduce((balance, payment) => balance + payment.principalCents, balanceResult.rows[0].current_principal_cents)
+  for (const payment of paymentsResult.rows) {
+    principalCents -= await writeMortgagePaymentBreakdown(client, mortgage, payment.id, payment.paidDate, payment.amountCents, principalCents)
+  }
+
+  await client.query(
+    'UPDATE mortgages SET current_principal_cents = $2, updated_at = NOW() WHERE id = $1',
+    [mortgage.id, principalCents]
+  )
+  return principalCents
+}
+
+async function insertMortgagePaymentAllocations(client: PoolClient, paymentId: string, allocations: PaymentAllocationInput[] | undefined) {
+  // Insert allocations one by one to avoid parameter binding issues
+  for (const allocation of allocations || []) {
+    await client.query(`
+      INSERT INTO mortgage_payment_allocations (payment_id, member_id, amount_cents)
+      VALUES ($1, $2, $3)
+    `, [paymentId, allocation.memberId, allocation.amountCents])
+  }
+}
+
+// Records a payment against a mortgage locked by the caller, with its allocations and breakdown,
+// and works out the breakdowns of any payments made after it again.
+// Shared by POST /api/mortgage-payments and bank statement imports.
+async function insertMortgagePayment(
+  client: PoolClient,
+  mortgage: MortgageBreakdownRow,
+  { paidDate, amountCents, method, accountId, payerMemberId, note, receiptFilename, receiptData, allocations }: PaymentInput
+) {
+  const paymentResult = await client.query<{ id: string }>(`
+    INSERT INTO mortgage_payments (mortgage_id, paid_date, amount_cents, method, account_id, payer_member_id, note, receipt_filename, receipt_data)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING id
+  `, [mortgage.id, paidDate, amountCents, method, accountId || null, payerMemberId, note, receiptFilename, receiptData])
+  const paymentId = paymentResult.rows[0].id
+
+  await insertMortgagePaymentAllocations(client, paymentId, allocations)
+  const currentPrincipalCents = await recalculateMortgagePaymentBreakdowns(client, mortgage, paidDate, paymentId)
+
+  return { paymentId, currentPrincipalCents }
+}
+
+async function fetchMortgagePayments(client: Pool | PoolClient, whereClause: string, params: string[]) {
+  const paymentsResult = await client.query(`
+    SELECT
+      mp.id, mp.mortgage_id as "mortgageId", to_char(mp.paid_date, 'YYYY-MM-DD') as "paidDate",
+      mp.amount_cents as "amountCents", mp.method, mp.account_id as "accountId", mp.payer_member_id as "payerMemberId",
+      mp.note, mp.receipt_filename as "receiptFilename", mp.receipt_data as "receiptData",
+      mp.created_at as "createdAt",
+      m.name as "payerMemberName", m.color as "payerMemberColor",
+      bd.id as "breakdownId", bd.principal_cents as "principalCents",
+      bd.interest_cents as "interestCents", bd.escrow_cents as "escrowCents",
+      bd.created_at as "breakdownCreatedAt"
+    FROM mortgage_payments mp
+    LEFT JOIN members m ON mp.payer_member_id = m.id
+    LEFT JOIN mortgage_payment_breakdowns bd ON bd.payment_id = mp.id
+    ${whereClause}
+    ORDER BY mp.paid_date DESC, mp.created_at DESC
+  `, params)
+
+  const payments = []
+  for (const row of paymentsResult.rows) {
+    const allocationsResult = await client.query(`
+      SELECT id, payment_id as "paymentId", member_id as "memberId", amount_cents as "amountCents",
+             created_at as "createdAt"
+      FROM mortgage_payment_allocations
+      WHERE payment_id = $1
+    `, [row.id])
+
+    payments.push({
+      id: row.id,
+      mortgageId: row.mortgageId,
+      paidDate: row.paidDate,
+      amountCents: row.amountCents,
+      method: row.method,
+      accountId: row.accountId,
+      payerMemberId: row.payerMemberId,
+      note: row.note,
+      receiptFilename: row.receiptFilename,
+      receiptData: row.receiptData,
+      createdAt: row.createdAt,
+      allocations: allocationsResult.rows,
+      payerMember: row.payerMemberId ? {
+        id: row.payerMemberId,
+        name: row.payerMemberName,
+        color: row.payerMemberColor
+      } : null,
+      breakdown: row.breakdownId ? {
+        id: row.breakdownId,
+        paymentId: row.id,
+        mortgageId: row.mortgageId,
+        principalCents: row.principalCents,
+        interestCents: row.interestCents,
+        escrowCents: row.escrowCents,
+        createdAt: row.breakdownCreatedAt
+      } : undefined
+    })
+  }
+
+  return payments
+}
+
+app.post('/api/mortgage-payments', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    const { mortgageId, paidDate, amountCents, payerMemberId, accountId, allocations } = req.body
+
+    if (!canRecordPaymentFor(req.auth!, payerMemberId)) {
+      return res.status(403).json(OWN_PAYMENTS_ONLY_ERROR)
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, accountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
+
+    if (!mortgageId || !paidDate || !amountCents) {
+      return res.status(400).json({ error: 'Missing required fields: mortgageId, paidDate, amountCents' })
+    }
+
+    if (amountCents <= 0) {
+      return res.status(400).json({ error: 'Payment amount must be greater than 0' })
+    }
+
+    const allocationMemberIds = (allocations || []).map(allocation => allocation.memberId)
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [payerMemberId, ...allocationMemberIds])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+
+      // Lock the mortgage row so concurrent payments see a consistent balance
+      const mortgageResult = await client.query(
+        'SELECT * FROM mortgages WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL FOR UPDATE',
+        [mortgageId, req.auth!.householdId]
+      )
+      if (mortgageResult.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Mortgage not found' })
+      }
+      const mortgage = mortgageResult.rows[0]
+
+      const { paymentId, currentPrincipalCents } = await insertMortgagePayment(client, mortgage, req.body)
+
+      const [payment] = await fetchMortgagePayments(client, 'WHERE mp.id = $1', [paymentId])
+
+      await client.query('COMMIT')
+      res.json({ ...payment, mortgageCurrentPrincipalCents: currentPrincipalCents })
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Mortgage payment creation error:', error)
+    res.status(500).json({ error: 'Failed to create mortgage payment' })
+  }
+})
+
+app.put('/api/mortgage-payments/:id', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    const { paidDate, amountCents, method, accountId, payerMemberId, note, receiptFilename, receiptData, allocations } = req.body
+
+    if (!canRecordPaymentFor(req.auth!, payerMemberId) || !(await canModifyPayment(req.auth!, 'mortgage_payments', req.params.id))) {
+      return res.status(403).json(OWN_PAYMENTS_ONLY_ERROR)
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, accountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR)
+    }
+
+    if (!paidDate || !amountCents) {
+      return res.status(400).json({ error: 'Missing required fields: paidDate, amountCents' })
+    }
+
+    if (amountCents <= 0) {
+      return res.status(400).json({ error: 'Payment amount must be greater than 0' })
+    }
+
+    const allocationMemberIds = (allocations || []).map(allocation => allocation.memberId)
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [payerMemberId, ...allocationMemberIds])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+
+      // Lock the mortgage row so concurrent payments see a consistent balance
+      const mortgageResult = await client.query(`
+        SELECT m.*
+        FROM mortgages m
+        JOIN mortgage_payments mp ON mp.mortgage_id = m.id
+        WHERE mp.id = $1 AND m.household_id = $2 AND m.deleted_at IS NULL AND mp.deleted_at IS NULL
+        FOR UPDATE OF m
+      `, [req.params.id, req.auth!.householdId])
+
+      if (mortgageResult.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Mortgage payment not found' })
+      }
+      const mortgage = mortgageResult.rows[0]
+
+      // Read once the lock is held, so an edit that just committed is seen
+      const existingResult = await client.query<{ paidDate: string }>(
+        `SELECT to_char(paid_date, 'YYYY-MM-DD') as "paidDate" FROM mortgage_payments WHERE id = $1`,
+        [req.params.id]
+      )
+      const fromDate = existingResult.rows[0].paidDate < paidDate ? existingResult.rows[0].paidDate : paidDate
+
+      await client.query(`
+        UPDATE mortgage_payments SET
+          paid_date = $2,
+          amount_cents = $3,
+          method = $4,
+          payer_member_id = $5,
+          note = $6,
+          receipt_filename = COALESCE($7, receipt_filename),
+          receipt_data = COALESCE($8, receipt_data),
+          account_id = $9
+        WHERE id = $1
+      `, [req.params.id, paidDate, amountCents, method, payerMemberId, note, receiptFilename, receiptData, accountId || null])
+
+      await client.query('DELETE FROM mortgage_payment_allocations WHERE payment_id = $1', [req.params.id])
+      await insertMortgagePaymentAllocations(client, req.params.id, allocations)
+      const currentPrincipalCents = await recalculateMortgagePaymentBreakdowns(client, mortgage, fromDate, req.params.id)
+
+      const [payment] = await fetchMortgagePayments(client, 'WHERE mp.id = $1', [req.params.id])
+
+      await client.query('COMMIT')
+      res.json({ ...payment, mortgageCurrentPrincipalCents: currentPrincipalCents })
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Mortgage payment update error:', error)
+    res.status(500).json({ error: 'Failed to update mortgage payment' })
+  }
+})
+
+app.delete('/api/mortgage-payments/:id', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    if (!(await canModifyPayment(req.auth!, 'mortgage_payments', req.params.id))) {
+      return res.status(403).json(OWN_PAYMENTS_ONLY_ERROR)
+    }
+
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+
+      // Lock the mortgage row so concurrent payments see a consistent balance
+      const mortgageResult = await client.query(`
+        SELECT m.*
+        FROM mortgages m
+        JOIN mortgage_payments mp ON mp.mortgage_id = m.id
+        WHERE mp.id = $1 AND m.household_id = $2 AND m.deleted_at IS NULL AND mp.deleted_at IS NULL
+        FOR UPDATE OF m
+      `, [req.params.id, req.auth!.householdId])
+      const existingResult = await client.query<{ paidDate: string; principalCents: number }>(`
+        SELECT to_char(mp.paid_date, 'YYYY-MM-DD') as "paidDate", COALESCE(bd.principal_cents, 0) as "principalCents"
+        FROM mortgage_payments mp
+        LEFT JOIN mortgage_payment_breakdowns bd ON bd.payment_id = mp.id
+        WHERE mp.id = $1 AND mp.deleted_at IS NULL
+      `, [req.params.id])
+
+      if (mortgageResult.rows.length === 0 || existingResult.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Mortgage payment not found' })
+      }
+      const mortgage = mortgageResult.rows[0]
+      const existing = existingResult.rows[0]
+
+      // Moves the payment to the trash; its allocations and breakdown stay with it until it is purged
+      await client.query('UPDATE mortgage_payments SET deleted_at = NOW() WHERE id = $1', [req.params.id])
+
+      // Give back the principal this payment had paid down, then work out the payments after it again
+      await client.query(
+        'UPDATE mortgages SET current_principal_cents = current_principal_cents + $2 WHERE id = $1',
+        [mortgage.id, existing.principalCents]
+      )
+      const currentPrincipalCents = await recalculateMortgagePaymentBreakdowns(client, mortgage, existing.paidDate)
+
+      await client.query('COMMIT')
+      res.json({
+        success: true,
+        mortgageId: mortgage.id,
+        mortgageCurrentPrincipalCents: currentPrincipalCents
+      })
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Mortgage payment deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete mortgage payment' })
+  }
+})
+
+// Financial calculation utilities for financed expenses
+function calculateMonthlyPayment(principal: number, annualRate: number, termMonths: number): number {
+  if (annualRate === 0) {
+    return principal / termMonths;
+  }
+
+  const monthlyRate = annualRate / 100 / 12;
+  const numerator = principal * monthlyRate * Math.pow(1 + monthlyRate, termMonths);
+  const denominator = Math.pow(1 + monthlyRate, termMonths) - 1;
+  return numerator / denominator;
+}
+
+function generatePaymentSchedule(
+  totalAmountCents: number,
+  interestRatePercent: number,
+  termMonths: number,
+  firstPaymentDate: string
+): Array<{
+  paymentNumber: number;
+  dueDate: string;
+  amountCents: number;
+  principalCents: number;
+  interestCents: number;
+}> {
+  const schedule: Array<{
+    paymentNumber: number;
+    dueDate: string;
+    amountCents: number;
+    principalCents: number;
+    interestCents: number;
+  }> = [];
+
+  const monthlyPaymentCents = Math.round(calculateMonthlyPayment(totalAmountCents, interestRatePercent, termMonths));
+  let remainingPrincipalCents = totalAmountCents;
+  const monthlyRate = interestRatePercent / 100 / 12;
+
+  const startDate = new Date(firstPaymentDate);
+
+  for (let i = 1; i <= termMonths; i++) {
+    // Calculate due date
+    const dueDate = new Date(startDate);
+    dueDate.setMonth(dueDate.getMonth() + (i - 1));
+
+    // Calculate interest and principal for this payment
+    const interestCents = Math.round(remainingPrincipalCents * monthlyRate);
+    let principalCents = monthlyPaymentCents - interestCents;
+
+    // For final payment, ensure we pay off exactly the remaining principal
+    if (i === termMonths) {
+      principalCents = remainingPrincipalCents;
+    }
+
+    const actualPaymentCents = principalCents + interestCents;
+
+    schedule.push({
+      paymentNumber: i,
+      dueDate: dueDate.toISOString().split('T')[0],
+      amountCents: actualPaymentCents,
+      principalCents,
+      interestCents
+    });
+
+    remainingPrincipalCents -= principalCents;
+  }
+
+  return schedule;
+}
+
+// Financed Expenses API
+app.get('/api/financed-expenses', async (req, res) => {
+  try {
+    // Get all financed expenses
+    const expensesResult = await query(`
+      SELECT
+        id, title, description, total_amount_cents, monthly_payment_cents,
+        interest_rate_percent, financing_term_months, purchase_date,
+        first_payment_date, is_active, split_mode, autopay_account_id,
+        created_at, updated_at
+      FROM financed_expenses
+      WHERE household_id = $1 AND deleted_at IS NULL
+      ORDER BY created_at DESC
+    `, [req.auth!.householdId]);
+
+    const expenses = [];
+    for (const expense of expensesResult.rows) {
+      // Get splits for this expense
+      const splitsResult = await query(`
+        SELECT id, member_id as "memberId", value
+        FROM financed_expense_splits
+        WHERE financed_expense_id = $1
+      `, [expense.id]);
+
+      // Get payment summary
+      const paymentSummaryResult = await query(`
+        SELECT
+          COUNT(*) as total_payments,
+          COUNT(*) FILTER (WHERE is_paid = true) as paid_payments,
+          SUM(amount_cents) FILTER (WHERE is_paid = true) as total_paid_cents,
+          MIN(due_date) FILTER (WHERE is_paid = false) as next_due_date
+        FROM financed_expense_payments
+        WHERE financed_expense_id = $1
+      `, [expense.id]);
+
+      const paymentSummary = paymentSummaryResult.rows[0];
+      const totalPaidCents = parseInt(paymentSummary.total_paid_cents || '0');
+      const remainingBalanceCents = expense.total_amount_cents - totalPaidCents;
+
+      expenses.push({
+        id: expense.id,
+        title: expense.title,
+        description: expense.description,
+        totalAmountCents: expense.total_amount_cents,
+        monthlyPaymentCents: expense.monthly_payment_cents,
+        interestRatePercent: parseFloat(expense.interest_rate_percent),
+        financingTermMonths: expense.financing_term_months,
+        purchaseDate: expense.purchase_date,
+        firstPaymentDate: expense.first_payment_date,
+        isActive: expense.is_active,
+        splitMode: expense.split_mode,
+        autopayAccountId: expense.autopay_account_id,
+        createdAt: expense.created_at,
+        updatedAt: expense.updated_at,
+        splits: splitsResult.rows.map(split => ({
+          ...split,
+          value: expense.split_mode === 'amount' ? split.value / 100 : split.value
+        })),
+        paymentSummary: {
+          totalPayments: parseInt(paymentSummary.total_payments),
+          paidPayments: parseInt(paymentSummary.paid_payments),
+          totalPaidCents,
+          remainingBalanceCents,
+          nextDueDate: paymentSummary.next_due_date
+        }
+      });
+    }
+
+    res.json(expenses);
+  } catch (error) {
+    console.error('Financed expenses fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch financed expenses' });
+  }
+});
+
+app.post('/api/financed-expenses', requireRole('manager'), async (req, res) => {
+  try {
+    const {
+      title, description, totalAmountCents, interestRatePercent,
+      financingTermMonths, purchaseDate, firstPaymentDate,
+      isActive = true, splitMode, splits, autopayAccountId
+    } = req.body;
+
+    // Validation
+    if (!title || !totalAmountCents || !financingTermMonths || !purchaseDate || !firstPaymentDate) {
+      return res.status(400).json({ error: 'Missing required fields: title, totalAmountCents, financingTermMonths, purchaseDate, firstPaymentDate' });
+    }
+
+    if (totalAmountCents <= 0) {
+      return res.status(400).json({ error: 'Total amount must be greater than 0' });
+    }
+
+    if (financingTermMonths <= 0) {
+      return res.status(400).json({ error: 'Financing term must be greater than 0' });
+    }
+
+    if (interestRatePercent < 0) {
+      return res.status(400).json({ error: 'Interest rate cannot be negative' });
+    }
+
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, (splits || []).map(split => split.memberId))).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR);
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, autopayAccountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Calculate monthly payment
+      const monthlyPaymentCents = Math.round(calculateMonthlyPayment(
+        totalAmountCents,
+        interestRatePercent,
+        financingTermMonths
+      ));
+
+      // Insert financed expense
+      const expenseResult = await client.query(`
+        INSERT INTO financed_expenses (
+          title, description, total_amount_cents, monthly_payment_cents,
+          interest_rate_percent, financing_term_months, purchase_date,
+          first_payment_date, is_active, split_mode, household_id, autopay_account_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING id, title, description, total_amount_cents as "totalAmountCents",
+                 monthly_payment_cents as "monthlyPaymentCents",
+                 interest_rate_percent as "interestRatePercent",
+                 financing_term_months as "financingTermMonths",
+                 purchase_date as "purchaseDate", first_payment_date as "firstPaymentDate",
+                 is_active as "isActive", split_mode as "splitMode", autopay_account_id as "autopayAccountId",
+                 created_at as "createdAt", updated_at as "updatedAt"
+      `, [title, description, totalAmountCents, monthlyPaymentCents,
+          interestRatePercent, financingTermMonths, purchaseDate,
+          firstPaymentDate, isActive, splitMode, req.auth!.householdId, autopayAccountId || null]);
+
+      const expense = expenseResult.rows[0];
+
+      // Insert splits
+      const insertedSplits = [];
+      if (splits && splits.length > 0) {
+        for (const split of splits) {
+          // Convert split value based on split mode
+          let splitValue = split.value;
+          if (splitMode === 'amount') {
+            // For amount splits, convert dollars to cents
+            splitValue = Math.round(split.value * 100);
+          }
+          // For percent and shares, use the value as-is (whole numbers)
+
+          const splitResult = await client.query(`
+            INSERT INTO financed_expense_splits (financed_expense_id, member_id, value)
+            VALUES ($1, $2, $3)
+            RETURNING id, member_id as "memberId", value
+          `, [expense.id, split.memberId, splitValue]);
+          insertedSplits.push(splitResult.rows[0]);
+        }
+      }
+      expense.splits = insertedSplits.map(split => ({
+        ...split,
+        value: splitMode === 'amount' ? split.value / 100 : split.value
+      }));
+
+      // Generate payment schedule
+      const paymentSchedule = generatePaymentSchedule(
+        totalAmountCents,
+        interestRatePercent,
+        financingTermMonths,
+        firstPaymentDate
+      );
+
+      // Insert payment schedule
+      for (const payment of paymentSchedule) {
+        await client.query(`
+          INSERT INTO financed_expense_payments (
+            financed_expense_id, payment_number, due_date,
+            amount_cents, principal_cents, interest_cents
+          ) VALUES ($1, $2, $3, $4, $5, $6)
+        `, [expense.id, payment.paymentNumber, payment.dueDate,
+            payment.amountCents, payment.principalCents, payment.interestCents]);
+      }
+
+      await client.query('COMMIT');
+      res.status(201).json(expense);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Financed expense creation error:', error);
+    res.status(500).json({ error: 'Failed to create financed expense' });
+  }
+});
+
+app.get('/api/financed-expenses/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Get financed expense details
+    const expenseResult = await query(`
+      SELECT
+        id, title, description, total_amount_cents, monthly_payment_cents,
+        interest_rate_percent, financing_term_months, purchase_date,
+        first_payment_date, is_active, split_mode, autopay_account_id,
+        created_at, updated_at
+      FROM financed_expenses
+      WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL
+    `, [id, req.auth!.householdId]);
+
+    if (expenseResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Financed expense not found' });
+    }
+
+    const expense = expenseResult.rows[0];
+
+    // Get splits
+    const splitsResult = await query(`
+      SELECT id, member_id as "memberId", value
+      FROM financed_expense_splits
+      WHERE financed_expense_id = $1
+    `, [id]);
+
+    // Get all payments with status
+    const paymentsResult = await query(`
+      SELECT
+        id, payment_number, due_date, amount_cents,
+        principal_cents, interest_cents, is_paid,
+        paid_date, bill_id, account_id
+      FROM financed_expense_payments
+      WHERE financed_expense_id = $1
+      ORDER BY payment_number ASC
+    `, [id]);
+
+    // Calculate summary statistics
+    const totalPaidCents = paymentsResult.rows
+      .filter(p => p.is_paid)
+      .reduce((sum, p) => sum + p.amount_cents, 0);
+
+    const remainingBalanceCents = expense.total_amount_cents - totalPaidCents;
+    const nextUnpaidPayment = paymentsResult.rows.find(p => !p.is_paid);
+
+    res.json({
+      id: expense.id,
+      title: expense.title,
+      description: expense.description,
+      totalAmountCents: expense.total_amount_cents,
+      monthlyPaymentCents: expense.monthly_payment_cents,
+      interestRatePercent: parseFloat(expense.interest_rate_percent),
+      financingTermMonths: expense.financing_term_months,
+      purchaseDate: expense.purchase_date,
+      firstPaymentDate: expense.first_payment_date,
+      isActive: expense.is_active,
+      splitMode: expense.split_mode,
+      autopayAccountId: expense.autopay_account_id,
+      createdAt: expense.created_at,
+      updatedAt: expense.updated_at,
+      splits: splitsResult.rows.map(split => ({
+        ...split,
+        value: expense.split_mode === 'amount' ? split.value / 100 : split.value
+      })),
+      payments: paymentsResult.rows.map(payment => ({
+        id: payment.id,
+        paymentNumber: payment.payment_number,
+        dueDate: payment.due_date,
+        amountCents: payment.amount_cents,
+        principalCents: payment.principal_cents,
+        interestCents: payment.interest_cents,
+        isPaid: payment.is_paid,
+        paidDate: payment.paid_date,
+        billId: payment.bill_id,
+        accountId: payment.account_id
+      })),
+      summary: {
+        totalPaidCents,
+        remainingBalanceCents,
+        nextDueDate: nextUnpaidPayment?.due_date,
+        paymentsRemaining: paymentsResult.rows.filter(p => !p.is_paid).length
+      }
+    });
+  } catch (error) {
+    console.error('Financed expense fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch financed expense' });
+  }
+});
+
+app.put('/api/financed-expenses/:id', requireRole('manager'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const {
+      title, description, totalAmountCents, interestRatePercent,
+      financingTermMonths, purchaseDate, firstPaymentDate,
+      isActive, splitMode, splits, autopayAccountId
+    } = req.body;
+
+    console.log('PUT /api/financed-expenses/:id called with:', {
+      id,
+      body: req.body,
+      bodyKeys: Object.keys(req.body),
+      splitMode,
+      splitsLength: splits?.length
+    });
+
+    // Enhanced validation
+    if (totalAmountCents !== undefined) {
+      if (typeof totalAmountCents !== 'number' || isNaN(totalAmountCents)) {
+        return res.status(400).json({ error: 'Total amount must be a valid number' });
+      }
+      if (totalAmountCents <= 0) {
+        return res.status(400).json({ error: 'Total amount must be greater than 0' });
+      }
+    }
+
+    if (financingTermMonths !== undefined) {
+      if (typeof financingTermMonths !== 'number' || isNaN(financingTermMonths)) {
+        return res.status(400).json({ error: 'Financing term must be a valid number' });
+      }
+      if (financingTermMonths <= 0 || !Number.isInteger(financingTermMonths)) {
+        return res.status(400).json({ error: 'Financing term must be a positive integer' });
+      }
+    }
+
+    if (interestRatePercent !== undefined) {
+      if (typeof interestRatePercent !== 'number' || isNaN(interestRatePercent)) {
+        return res.status(400).json({ error: 'Interest rate must be a valid number' });
+      }
+      if (interestRatePercent < 0) {
+        return res.status(400).json({ error: 'Interest rate cannot be negative' });
+      }
+    }
+
+    // Validate date formats if provided
+    if (purchaseDate !== undefined) {
+      const purchaseDateObj = new Date(purchaseDate);
+      if (isNaN(purchaseDateObj.getTime())) {
+        return res.status(400).json({ error: 'Purchase date must be a valid date' });
+      }
+    }
+
+    if (firstPaymentDate !== undefined) {
+      const firstPaymentDateObj = new Date(firstPaymentDate);
+      if (isNaN(firstPaymentDateObj.getTime())) {
+        return res.status(400).json({ error: 'First payment date must be a valid date' });
+      }
+    }
+
+    // Validate splits if provided
+    if (splits !== undefined) {
+      if (!Array.isArray(splits)) {
+        return res.status(400).json({ error: 'Splits must be an array' });
+      }
+
+      if (splitMode === undefined) {
+        return res.status(400).json({ error: 'Split mode is required when updating splits' });
+      }
+
+      if (!['amount', 'percent', 'shares'].includes(splitMode)) {
+        return res.status(400).json({ error: 'Split mode must be amount, percent, or shares' });
+      }
+
+      for (const split of splits) {
+        if (!split.memberId || typeof split.value !== 'number' || isNaN(split.value)) {
+          return res.status(400).json({ error: 'Each split must have a valid memberId and numeric value' });
+        }
+        if (split.value <= 0) {
+          return res.status(400).json({ error: 'Split values must be greater than 0' });
+        }
+      }
+
+      if ((await findForeignMemberIds(pool, req.auth!.householdId, splits.map(split => split.memberId))).length > 0) {
+        return res.status(400).json(FOREIGN_MEMBER_ERROR);
+      }
+    }
+
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, autopayAccountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Check if expense exists
+      const existingExpense = await client.query(
+        'SELECT * FROM financed_expenses WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+        [id, req.auth!.householdId]
+      );
+
+      if (existingExpense.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Financed expense not found' });
+      }
+
+      const currentExpense = existingExpense.rows[0];
+
+      // Determine if we need to recalculate payment schedule
+      const needsRecalculation =
+        (totalAmountCents !== undefined && totalAmountCents !== currentExpense.total_amount_cents) ||
+        (interestRatePercent !== undefined && interestRatePercent !== parseFloat(currentExpense.interest_rate_percent)) ||
+        (financingTermMonths !== undefined && financingTermMonths !== currentExpense.financing_term_months) ||
+        (firstPaymentDate !== undefined && firstPaymentDate !== currentExpense.first_payment_date);
+
+      // Use current values if not provided in update
+      const finalTotalAmountCents = totalAmountCents ?? currentExpense.total_amount_cents;
+      const finalInterestRatePercent = interestRatePercent ?? parseFloat(currentExpense.interest_rate_percent);
+      const finalFinancingTermMonths = financingTermMonths ?? currentExpense.financing_term_months;
+      const finalFirstPaymentDate = firstPaymentDate ?? currentExpense.first_payment_date;
 
       // Calculate new monthly payment if needed
       const monthlyPaymentCents = needsRecalculation
         ? Math.round(calculateMonthlyPayment(finalTotalAmountCents, finalInterestRatePercent, finalFinancingTermMonths))
         : currentExpense.monthly_payment_cents;
 
-      // Update financed expense
-      const expenseResult = await client.query(`
-        UPDATE financed_expenses SET
-          title = $2, description = $3, total_amount_cents = $4,
-          monthly_payment_cents = $5, interest_rate_percent = $6,
-          financing_term_months = $7, purchase_date = $8,
-          first_payment_date = $9, is_active = $10, split_mode = $11,
-          updated_at = NOW()
-        WHERE id = $1
-        RETURNING id, title, description, total_amount_cents as "totalAmountCents",
-                 monthly_payment_cents as "monthlyPaymentCents",
-                 interest_rate_percent as "interestRatePercent",
-                 financing_term_months as "financingTermMonths",
-                 purchase_date as "purchaseDate", first_payment_date as "firstPaymentDate",
-                 is_active as "isActive", split_mode as "splitMode",
-                 created_at as "createdAt", updated_at as "updatedAt"
-      `, [id, title ?? currentExpense.title, description ?? currentExpense.description,
-          finalTotalAmountCents, monthlyPaymentCents, finalInterestRatePercent,
-          finalFinancingTermMonths, purchaseDate ?? currentExpense.purchase_date,
-          finalFirstPaymentDate, isActive ?? currentExpense.is_active,
-          splitMode ?? currentExpense.split_mode]);
+      // Update financed expense
+      const expenseResult = await client.query(`
+        UPDATE financed_expenses SET
+          title = $2, description = $3, total_amount_cents = $4,
+          monthly_payment_cents = $5, interest_rate_percent = $6,
+          financing_term_months = $7, purchase_date = $8,
+          first_payment_date = $9, is_active = $10, split_mode = $11,
+          autopay_account_id = $12, updated_at = NOW()
+        WHERE id = $1
+        RETURNING id, title, description, total_amount_cents as "totalAmountCents",
+                 monthly_payment_cents as "monthlyPaymentCents",
+                 interest_rate_percent as "interestRatePercent",
+                 financing_term_months as "financingTermMonths",
+                 purchase_date as "purchaseDate", first_payment_date as "firstPaymentDate",
+                 is_active as "isActive", split_mode as "splitMode", autopay_account_id as "autopayAccountId",
+                 created_at as "createdAt", updated_at as "updatedAt"
+      `, [id, title ?? currentExpense.title, description ?? currentExpense.description,
+          finalTotalAmountCents, monthlyPaymentCents, finalInterestRatePercent,
+          finalFinancingTermMonths, purchaseDate ?? currentExpense.purchase_date,
+          finalFirstPaymentDate, isActive ?? currentExpense.is_active,
+          splitMode ?? currentExpense.split_mode,
+          autopayAccountId === undefined ? currentExpense.autopay_account_id : autopayAccountId || null]);
+
+      const expense = expenseResult.rows[0];
+
+      // Update splits if provided
+      if (splits !== undefined) {
+        console.log('Updating splits:', { splits, splitMode: expense.splitMode });
+
+        await client.query('DELETE FROM financed_expense_splits WHERE financed_expense_id = $1', [id]);
+
+        const insertedSplits = [];
+        for (const split of splits) {
+          // Convert split value based on split mode
+          let splitValue = split.value;
+          if (expense.splitMode === 'amount') {
+            // For amount splits, convert dollars to cents
+            splitValue = Math.round(split.value * 100);
+          }
+          // For percent and shares, use the value as-is (whole numbers)
+
+          console.log('Inserting split:', { memberId: split.memberId, originalValue: split.value, convertedValue: splitValue });
+
+          const splitResult = await client.query(`
+            INSERT INTO financed_expense_splits (financed_expense_id, member_id, value)
+            VALUES ($1, $2, $3)
+            RETURNING id, member_id as "memberId", value
+          `, [id, split.memberId, splitValue]);
+          insertedSplits.push(splitResult.rows[0]);
+        }
+        expense.splits = insertedSplits.map(split => ({
+          ...split,
+          value: expense.splitMode === 'amount' ? split.value / 100 : split.value
+        }));
+      } else {
+        // Get existing splits
+        const splitsResult = await client.query(`
+          SELECT id, member_id as "memberId", value
+          FROM financed_expense_splits
+          WHERE financed_expense_id = $1
+        `, [id]);
+        expense.splits = splitsResult.rows.map(split => ({
+          ...split,
+          value: expense.splitMode === 'amount' ? split.value / 100 : split.value
+        }));
+      }
+
+      // Recalculate payment schedule if needed
+      if (needsRecalculation) {
+        console.log('Recalculating payment schedule due to changes in:', {
+          totalAmountChanged: totalAmountCents !== undefined && totalAmountCents !== currentExpense.total_amount_cents,
+          interestRateChanged: interestRatePercent !== undefined && interestRatePercent !== parseFloat(currentExpense.interest_rate_percent),
+          termChanged: financingTermMonths !== undefined && financingTermMonths !== currentExpense.financing_term_months,
+          firstPaymentDateChanged: firstPaymentDate !== undefined && firstPaymentDate !== currentExpense.first_payment_date
+        });
+
+        // Delete existing unpaid payments
+        const deleteResult = await client.query(
+          'DELETE FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = false',
+          [id]
+        );
+        console.log('Deleted unpaid payments:', deleteResult.rowCount);
+
+        // Get the number of paid payments to determine starting payment number
+        const paidPaymentsResult = await client.query(
+          'SELECT COUNT(*) as count FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = true',
+          [id]
+        );
+        const paidPaymentsCount = parseInt(paidPaymentsResult.rows[0].count);
+        const remainingTermMonths = finalFinancingTermMonths - paidPaymentsCount;
+
+        console.log('Payment schedule calculation:', {
+          paidPaymentsCount,
+          finalFinancingTermMonths,
+          remainingTermMonths,
+          finalTotalAmountCents,
+          finalInterestRatePercent,
+          finalFirstPaymentDate
+        });
+
+        if (remainingTermMonths > 0) {
+          // Calculate remaining principal
+          const totalPaidResult = await client.query(
+            'SELECT COALESCE(SUM(principal_cents), 0) as total_paid FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = true',
+            [id]
+          );
+          const totalPaidPrincipal = parseInt(totalPaidResult.rows[0].total_paid || '0');
+          const remainingPrincipal = finalTotalAmountCents - totalPaidPrincipal;
+
+          console.log('Principal calculation:', {
+            totalPaidPrincipal,
+            remainingPrincipal
+          });
+
+          if (remainingPrincipal <= 0) {
+            console.log('Warning: Remaining principal is zero or negative, skipping payment schedule generation');
+          } else {
+            // Generate new payment schedule for remaining payments
+            const nextPaymentDate = new Date(finalFirstPaymentDate);
+            nextPaymentDate.setMonth(nextPaymentDate.getMonth() + paidPaymentsCount);
+
+            console.log('Generating payment schedule starting from:', nextPaymentDate.toISOString().split('T')[0]);
+
+            const newPaymentSchedule = generatePaymentSchedule(
+              remainingPrincipal,
+              finalInterestRatePercent,
+              remainingTermMonths,
+              nextPaymentDate.toISOString().split('T')[0]
+            );
+
+            console.log('Generated payment schedule:', { paymentCount: newPaymentSchedule.length });
+
+            // Insert new payment schedule
+            for (const payment of newPaymentSchedule) {
+              await client.query(`
+                INSERT INTO financed_expense_payments (
+                  financed_expense_id, payment_number, due_date,
+                  amount_cents, principal_cents, interest_cents
+                ) VALUES ($1, $2, $3, $4, $5, $6)
+              `, [id, paidPaymentsCount + payment.paymentNumber, payment.dueDate,
+                  payment.amountCents, payment.principalCents, payment.interestCents]);
+            }
+            console.log('Inserted', newPaymentSchedule.length, 'new payments');
+          }
+        } else {
+          console.log('No remaining payments needed - loan is fully paid or overpaid');
+        }
+      }
+
+      await client.query('COMMIT');
+      console.log('Successfully updated financed expense:', { id, title: expense.title });
+      res.json(expense);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Database transaction error in PUT /api/financed-expenses/:id:', {
+        id: id,
+        error: error.message,
+        code: error.code,
+        detail: error.detail,
+        stack: error.stack
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Financed expense update error:', {
+      id: id,
+      error: error.message,
+      code: error.code,
+      detail: error.detail,
+      stack: error.stack?.split('\n').slice(0, 5).join('\n') // First 5 lines of stack trace
+    });
+
+    // Provide more specific error messages based on error type
+    if (error.code === '23503') {
+      return res.status(400).json({
+        error: 'Invalid member ID in splits or expense references non-existent record',
+        details: error.detail
+      });
+    }
+
+    if (error.code === '23505') {
+      return res.status(400).json({
+        error: 'Duplicate constraint violation',
+        details: error.detail
+      });
+    }
+
+    if (error.code === '22P02') {
+      return res.status(400).json({
+        error: 'Invalid data format provided',
+        details: 'Check that all numeric values are valid numbers and dates are in correct format'
+      });
+    }
+
+    if (error.code === '23514') {
+      return res.status(400).json({
+        error: 'Check constraint violation',
+        details: error.detail
+      });
+    }
+
+    // Generic error for unexpected issues
+    res.status(500).json({
+      error: 'Failed to update financed expense',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+app.get('/api/financed-expenses/:id/complete', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Get financed expense details
+      const expenseResult = await client.query(`
+        SELECT
+          id, title, description, total_amount_cents, monthly_payment_cents,
+          interest_rate_percent, financing_term_months, purchase_date,
+          first_payment_date, is_active, split_mode, autopay_account_id,
+          created_at, updated_at
+        FROM financed_expenses
+        WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL
+      `, [id, req.auth!.householdId]);
+
+      if (expenseResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Financed expense not found' });
+      }
+
+      const expense = expenseResult.rows[0];
+
+      // Get splits for this expense
+      const splitsResult = await client.query(`
+        SELECT id, member_id as "memberId", value
+        FROM financed_expense_splits
+        WHERE financed_expense_id = $1
+      `, [id]);
+
+      // Get all payments with status
+      const paymentsResult = await client.query(`
+        SELECT
+          id, payment_number, due_date, amount_cents,
+          principal_cents, interest_cents, is_paid,
+          paid_date, bill_id, account_id
+        FROM financed_expense_payments
+        WHERE financed_expense_id = $1
+        ORDER BY payment_number ASC
+      `, [id]);
+
+      // Calculate summary statistics
+      const payments = paymentsResult.rows;
+      const totalPayments = payments.length;
+      const paidPayments = payments.filter(p => p.is_paid).length;
+      const totalPaidCents = payments
+        .filter(p => p.is_paid)
+        .reduce((sum, p) => sum + p.amount_cents, 0);
+      const remainingBalanceCents = expense.total_amount_cents - totalPaidCents;
+      const nextUnpaidPayment = payments.find(p => !p.is_paid);
+      const paymentsRemaining = payments.filter(p => !p.is_paid).length;
+      const progressPercent = totalPayments > 0 ? Math.round((paidPayments / totalPayments) * 100) : 0;
+
+      // Check if any payment is overdue
+      const today = new Date();
+      const isOverdue = payments.some(p =>
+        !p.is_paid && new Date(p.due_date) < today
+      );
+
+      await client.query('COMMIT');
+
+      // Format response
+      res.json({
+        id: expense.id,
+        title: expense.title,
+        description: expense.description,
+        totalAmountCents: expense.total_amount_cents,
+        monthlyPaymentCents: expense.monthly_payment_cents,
+        interestRatePercent: parseFloat(expense.interest_rate_percent),
+        financingTermMonths: expense.financing_term_months,
+        purchaseDate: expense.purchase_date,
+        firstPaymentDate: expense.first_payment_date,
+        isActive: expense.is_active,
+        splitMode: expense.split_mode,
+        autopayAccountId: expense.autopay_account_id,
+        createdAt: expense.created_at,
+        updatedAt: expense.updated_at,
+
+        // Embedded splits data with proper value conversion
+        splits: splitsResult.rows.map(split => ({
+          id: split.id,
+          memberId: split.memberId,
+          value: expense.split_mode === 'amount' ? split.value / 100 : split.value
+        })),
+
+        // Embedded payments data
+        payments: payments.map(payment => ({
+          id: payment.id,
+          paymentNumber: payment.payment_number,
+          dueDate: payment.due_date,
+          amountCents: payment.amount_cents,
+          principalCents: payment.principal_cents,
+          interestCents: payment.interest_cents,
+          isPaid: payment.is_paid,
+          paidDate: payment.paid_date,
+          billId: payment.bill_id,
+          accountId: payment.account_id
+        })),
+
+        // Calculated summary
+        summary: {
+          totalPayments,
+          paidPayments,
+          totalPaidCents,
+          remainingBalanceCents,
+          nextDueDate: nextUnpaidPayment?.due_date,
+          paymentsRemaining,
+          progressPercent,
+          isOverdue,
+          nextPaymentAmount: nextUnpaidPayment?.amount_cents
+        }
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Financed expense complete fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch complete financed expense data' });
+  }
+});
+
+app.get('/api/financed-expenses/:id/payments', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Verify expense exists
+    const expenseCheck = await query(
+      'SELECT id FROM financed_expenses WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+      [id, req.auth!.householdId]
+    );
+
+    if (expenseCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Financed expense not found' });
+    }
+
+    // Get all payments for this expense
+    const paymentsResult = await query(`
+      SELECT
+        id, payment_number, due_date, amount_cents,
+        principal_cents, interest_cents, is_paid,
+        paid_date, bill_id, account_id, created_at
+      FROM financed_expense_payments
+      WHERE financed_expense_id = $1
+      ORDER BY payment_number ASC
+    `, [id]);
+
+    const payments = paymentsResult.rows.map(payment => ({
+      id: payment.id,
+      financedExpenseId: id,
+      paymentNumber: payment.payment_number,
+      dueDate: payment.due_date,
+      amountCents: payment.amount_cents,
+      principalCents: payment.principal_cents,
+      interestCents: payment.interest_cents,
+      isPaid: payment.is_paid,
+      paidDate: payment.paid_date,
+      billId: payment.bill_id,
+      accountId: payment.account_id,
+      createdAt: payment.created_at
+    }));
+
+    res.json(payments);
+  } catch (error) {
+    console.error('Financed expense payments fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch financed expense payments' });
+  }
+});
+
+interface FinancedPaymentRow {
+  id: string
+  financed_expense_id: string
+  payment_number: number
+  due_date: Date
+  amount_cents: number
+  title: string
+  split_mode: SplitMode
+  household_id: string
+}
+
+// Marks a scheduled payment as paid, optionally creating a matching bill, and closes the expense
+// once nothing is left to pay. `payment` is the schedule row joined with its expense's title,
+// split_mode and household_id. Shared by the mark-paid route and bank statement imports.
+// `payerMemberId` is who paid the installment, for the settle-up balances, and `accountId` the
+// financial account it was paid from.
+async function markFinancedPaymentPaid(client: PoolClient, payment: FinancedPaymentRow, paidDate: string, createBill: boolean, payerMemberId: string | null = null, accountId: string | null = null) {
+  // Mark payment as paid
+  const updatedPaymentResult = await client.query(`
+    UPDATE financed_expense_payments
+    SET is_paid = true, paid_date = $2, payer_member_id = $3, account_id = $4
+    WHERE id = $1
+    RETURNING id, payment_number, due_date, amount_cents,
+             principal_cents, interest_cents, is_paid,
+             paid_date, bill_id, payer_member_id, account_id
+  `, [payment.id, paidDate, payerMemberId, accountId]);
+
+  const updatedPayment = updatedPaymentResult.rows[0];
+
+  // Optionally create a corresponding bill
+  let billId = null;
+  if (createBill) {
+    // Get expense splits to create bill splits
+    const splitsResult = await client.query(`
+      SELECT member_id, value
+      FROM financed_expense_splits
+      WHERE financed_expense_id = $1
+    `, [payment.financed_expense_id]);
+
+    // Create bill
+    const billResult = await client.query(`
+      INSERT INTO bills (household_id, name, amount_cents, due_date, split_mode)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
+    `, [
+      payment.household_id,
+      `${payment.title} - Payment #${payment.payment_number}`,
+      payment.amount_cents,
+      payment.due_date,
+      payment.split_mode
+    ]);
+
+    billId = billResult.rows[0].id;
+
+    // Create bill splits
+    for (const split of splitsResult.rows) {
+      await client.query(`
+        INSERT INTO bill_splits (bill_id, member_id, value)
+        VALUES ($1, $2, $3)
+      `, [billId, split.member_id, split.value]);
+    }
+
+    // Link payment to bill
+    await client.query(
+      'UPDATE financed_expense_payments SET bill_id = $1 WHERE id = $2',
+      [billId, payment.id]
+    );
+  }
+
+  // Check if this was the final payment and update expense status
+  const remainingPaymentsResult = await client.query(
+    'SELECT COUNT(*) as count FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = false',
+    [payment.financed_expense_id]
+  );
+
+  const remainingPayments = parseInt(remainingPaymentsResult.rows[0].count);
+  if (remainingPayments === 0) {
+    await client.query(
+      'UPDATE financed_expenses SET is_active = false WHERE id = $1',
+      [payment.financed_expense_id]
+    );
+  }
+
+  return { updatedPayment, billId };
+}
+
+app.post('/api/financed-expenses/:id/payments/:paymentId/mark-paid', requireRole('manager'), async (req, res) => {
+  try {
+    const { id, paymentId } = req.params;
+    const { paidDate, createBill = false, payerMemberId = null, accountId = null } = req.body;
+
+    // Validation
+    if (!paidDate) {
+      return res.status(400).json({ error: 'Paid date is required' });
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [payerMemberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR);
+    }
+    if (!(await isHouseholdAccount(pool, req.auth!.householdId, accountId))) {
+      return res.status(400).json(FOREIGN_ACCOUNT_ERROR);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Verify payment exists and belongs to the expense
+      const paymentResult = await client.query(`
+        SELECT p.*, fe.title, fe.split_mode, fe.household_id
+        FROM financed_expense_payments p
+        JOIN financed_expenses fe ON p.financed_expense_id = fe.id
+        WHERE p.id = $1 AND p.financed_expense_id = $2 AND fe.household_id = $3 AND fe.deleted_at IS NULL
+      `, [paymentId, id, req.auth!.householdId]);
+
+      if (paymentResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Payment not found' });
+      }
+
+      const payment = paymentResult.rows[0];
+
+      if (payment.is_paid) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'Payment is already marked as paid' });
+      }
+
+      const { updatedPayment, billId } = await markFinancedPaymentPaid(client, payment, paidDate, createBill, payerMemberId, accountId);
+
+      await client.query('COMMIT');
+
+      res.json({
+        id: updatedPayment.id,
+        paymentNumber: updatedPayment.payment_number,
+        dueDate: updatedPayment.due_date,
+        amountCents: updatedPayment.amount_cents,
+        principalCents: updatedPayment.principal_cents,
+        interestCents: updatedPayment.interest_cents,
+        isPaid: updatedPayment.is_paid,
+        paidDate: updatedPayment.paid_date,
+        payerMemberId: updatedPayment.payer_member_id,
+        accountId: updatedPayment.account_id,
+        billId: billId || updatedPayment.bill_id,
+        ...(billId && { createdBillId: billId })
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Mark payment as paid error:', error);
+    res.status(500).json({ error: 'Failed to mark payment as paid' });
+  }
+});
+
+app.post('/api/financed-expenses/:id/payments/:paymentId/unmark-paid', requireRole('manager'), async (req, res) => {
+  try {
+    const { id, paymentId } = req.params;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Verify payment exists and belongs to the expense
+      const paymentResult = await client.query(`
+        SELECT p.*, fe.title
+        FROM financed_expense_payments p
+        JOIN financed_expenses fe ON p.financed_expense_id = fe.id
+        WHERE p.id = $1 AND p.financed_expense_id = $2 AND fe.household_id = $3 AND fe.deleted_at IS NULL
+      `, [paymentId, id, req.auth!.householdId]);
+
+      if (paymentResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Payment not found' });
+      }
+
+      const payment = paymentResult.rows[0];
+
+      if (!payment.is_paid) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'Payment is already unpaid' });
+      }
+
+      // Unmark payment as paid and remove bill link
+      const updatedPaymentResult = await client.query(`
+        UPDATE financed_expense_payments
+        SET is_paid = false, paid_date = NULL, bill_id = NULL, payer_member_id = NULL, account_id = NULL
+        WHERE id = $1
+        RETURNING id, payment_number, due_date, amount_cents,
+                 principal_cents, interest_cents, is_paid,
+                 paid_date, bill_id
+      `, [paymentId]);
+
+      const updatedPayment = updatedPaymentResult.rows[0];
+
+      // If this payment was previously linked to a bill, we removed that link
+      // The bill itself remains (might have other payments associated)
+      // but this payment is no longer connected to it
+
+      // Since we unmarked a payment, ensure the expense is marked as active
+      await client.query(
+        'UPDATE financed_expenses SET is_active = true WHERE id = $1',
+        [id]
+      );
+
+      await client.query('COMMIT');
+
+      res.json({
+        id: updatedPayment.id,
+        paymentNumber: updatedPayment.payment_number,
+        dueDate: updatedPayment.due_date,
+        amountCents: updatedPayment.amount_cents,
+        principalCents: updatedPayment.principal_cents,
+        interestCents: updatedPayment.interest_cents,
+        isPaid: updatedPayment.is_paid,
+        paidDate: updatedPayment.paid_date,
+        billId: updatedPayment.bill_id
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Unmark payment as paid error:', error);
+    res.status(500).json({ error: 'Failed to unmark payment as paid' });
+  }
+});
+
+app.delete('/api/financed-expenses/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Check if the financed expense exists
+      const existsResult = await client.query(
+        'SELECT id FROM financed_expenses WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL',
+        [id, req.auth!.householdId]
+      );
+
+      if (existsResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Financed expense not found' });
+      }
+
+      // Move the financed expense to the trash; its splits and payments are kept until it is purged
+      await client.query('UPDATE financed_expenses SET deleted_at = NOW() WHERE id = $1', [id]);
+
+      await client.query('COMMIT');
+      res.json({ success: true });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Financed expense deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete financed expense' });
+  }
+});
+
+// Trash API
+// Deleted rows of each kind (see 019_soft_delete.up.sql): how a row is named in the trash and how it
+// belongs to the household ($1). Payments belong to it through the bill or mortgage they were made
+// on, their `parent`, which has to be restored before them. Members come last so emptying the trash
+// removes what points at them first.
+const TRASH_KINDS: Record<string, { table: string; name: string; household: string; parent?: { table: string; column: string; label: string } }> = {
+  payment: {
+    table: 'payments',
+    name: `'Payment on ' || (SELECT name FROM bills WHERE id = t.bill_id)`,
+    household: 't.bill_id IN (SELECT id FROM bills WHERE household_id = $1)',
+    parent: { table: 'bills', column: 'bill_id', label: 'bill' }
+  },
+  'mortgage-payment': {
+    table: 'mortgage_payments',
+    name: `'Payment on ' || (SELECT name FROM mortgages WHERE id = t.mortgage_id)`,
+    household: 't.mortgage_id IN (SELECT id FROM mortgages WHERE household_id = $1)',
+    parent: { table: 'mortgages', column: 'mortgage_id', label: 'mortgage' }
+  },
+  bill: { table: 'bills', name: 't.name', household: 't.household_id = $1' },
+  'recurring-bill': { table: 'recurring_bills', name: 't.name', household: 't.household_id = $1' },
+  mortgage: { table: 'mortgages', name: 't.name', household: 't.household_id = $1' },
+  'financed-expense': { table: 'financed_expenses', name: 't.title', household: 't.household_id = $1' },
+  member: { table: 'members', name: 't.name', household: 't.household_id = $1' }
+}
+const TRASH_KIND_NAMES = Object.keys(TRASH_KINDS)
+
+// Removes trashed rows of a kind for good (just `id` when given), cascading as deletes did before
+// the trash. Logins left without a household once their member is purged are removed too.
+async function purgeTrash(client: Pool | PoolClient, householdId: string, kind: string, id?: string): Promise<number> {
+  const { table, household } = TRASH_KINDS[kind]
+  const result = await client.query(`
+    DELETE FROM ${table} t
+    WHERE ${household} AND t.deleted_at IS NOT NULL AND ($2::varchar IS NULL OR t.id = $2)
+    RETURNING ${kind === 'member' ? 't.account_id' : 't.id'}
+  `, [householdId, id ?? null])
+  if (kind === 'member') {
+    await client.query(`
+      DELETE FROM member_accounts a
+      WHERE a.id = ANY($1) AND NOT EXISTS (SELECT 1 FROM members m WHERE m.account_id = a.id)
+    `, [result.rows.map(row => row.account_id).filter(Boolean)])
+  }
+  return result.rowCount
+}
+
+app.get('/api/trash', requireRole('manager'), async (req, res) => {
+  try {
+    const result = await query(`
+      ${TRASH_KIND_NAMES.map(kind => `
+        SELECT '${kind}' as kind, t.id, ${TRASH_KINDS[kind].name} as name, t.deleted_at as "deletedAt"
+        FROM ${TRASH_KINDS[kind].table} t
+        WHERE ${TRASH_KINDS[kind].household} AND t.deleted_at IS NOT NULL
+      `).join(' UNION ALL ')}
+      ORDER BY "deletedAt" DESC
+    `, [req.auth!.householdId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Trash fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch trash' })
+  }
+})
+
+app.post('/api/trash/:kind/:id/restore', requireRole('manager'), async (req, res) => {
+  try {
+    const { kind, id } = req.params
+    if (!TRASH_KIND_NAMES.includes(kind)) {
+      return res.status(404).json({ error: 'Item not found in the trash' })
+    }
+
+    const { table, household, parent } = TRASH_KINDS[kind]
+    // A payment would stay hidden behind its deleted bill or mortgage
+    if (parent) {
+      const parentResult = await query(`
+        SELECT p.deleted_at IS NOT NULL as "isParentDeleted"
+        FROM ${table} t JOIN ${parent.table} p ON p.id = t.${parent.column}
+        WHERE t.id = $1 AND p.household_id = $2
+      `, [id, req.auth!.householdId])
+      if (parentResult.rows[0]?.isParentDeleted) {
+        return res.status(409).json({ error: `Restore the ${parent.label} this payment was made on first` })
+      }
+    }
+
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+      // Lock the mortgage row so concurrent payments see a consistent balance
+      const mortgage = kind === 'mortgage-payment' ? (await client.query(`
+        SELECT m.*
+        FROM mortgages m
+        JOIN mortgage_payments mp ON mp.mortgage_id = m.id
+        WHERE mp.id = $1 AND m.household_id = $2
+        FOR UPDATE OF m
+      `, [id, req.auth!.householdId])).rows[0] : null
+
+      const result = await client.query(`
+        UPDATE ${table} t SET deleted_at = NULL
+        WHERE ${household} AND t.id = $2 AND t.deleted_at IS NOT NULL
+      `, [req.auth!.householdId, id])
+      if (result.rowCount === 0) {
+        await client.query('ROLLBACK')
+        return res.status(404).json({ error: 'Item not found in the trash' })
+      }
+
+      // Deleting a mortgage payment gave its principal back, so restoring it pays that down again,
+      // and the payments from its date on are worked out again with it
+      if (mortgage) {
+        const restoredResult = await client.query<{ paidDate: string; principalCents: number }>(`
+          SELECT to_char(mp.paid_date, 'YYYY-MM-DD') as "paidDate", COALESCE(bd.principal_cents, 0) as "principalCents"
+          FROM mortgage_payments mp
+          LEFT JOIN mortgage_payment_breakdowns bd ON bd.payment_id = mp.id
+          WHERE mp.id = $1
+        `, [id])
+        const restored = restoredResult.rows[0]
+        await client.query(
+          'UPDATE mortgages SET current_principal_cents = current_principal_cents - $2 WHERE id = $1',
+          [mortgage.id, restored.principalCents]
+        )
+        await recalculateMortgagePaymentBreakdowns(client, mortgage, restored.paidDate)
+      }
+
+      await client.query('COMMIT')
+      res.json({ success: true })
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Trash restore error:', error)
+    res.status(500).json({ error: 'Failed to restore item' })
+  }
+})
+
+app.delete('/api/trash/:kind/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const { kind, id } = req.params
+    if (!TRASH_KIND_NAMES.includes(kind)) {
+      return res.status(404).json({ error: 'Item not found in the trash' })
+    }
+
+    if ((await purgeTrash(pool, req.auth!.householdId, kind, id)) === 0) {
+      return res.status(404).json({ error: 'Item not found in the trash' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Trash purge error:', error)
+    res.status(500).json({ error: 'Failed to purge item' })
+  }
+})
+
+// Empties the trash
+app.delete('/api/trash', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    let purged = 0
+    for (const kind of TRASH_KIND_NAMES) {
+      purged += await purgeTrash(client, req.auth!.householdId, kind)
+    }
+    await client.query('COMMIT')
+    res.json({ purged })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Trash empty error:', error)
+    res.status(500).json({ error: 'Failed to empty trash' })
+  } finally {
+    client.release()
+  }
+})
+
+// Categories API
+// Built-in categories (household_id NULL) are shared by every household; custom ones belong to one household
+app.get('/api/categories', async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT id, name, icon, color, is_default as "isDefault",
+             created_at as "createdAt", updated_at as "updatedAt"
+      FROM expense_categories
+      WHERE household_id = $1 OR household_id IS NULL
+      ORDER BY is_default DESC, name ASC
+    `, [req.auth!.householdId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Categories fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch categories' })
+  }
+})
+
+app.post('/api/categories', requireRole('manager'), async (req, res) => {
+  try {
+    const { name, icon, color } = req.body
+
+    // Validate required fields
+    if (!name) {
+      return res.status(400).json({ error: 'Category name is required' })
+    }
+
+    const result = await query(`
+      INSERT INTO expense_categories (household_id, name, icon, color, is_default)
+      VALUES ($1, $2, $3, $4, false)
+      RETURNING id, name, icon, color, is_default as "isDefault",
+                created_at as "createdAt", updated_at as "updatedAt"
+    `, [req.auth!.householdId, name, icon || null, color || '#6B7280'])
+
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Category creation error:', error)
+
+    // Check for unique constraint violation
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'Category with this name already exists' })
+    }
+
+    res.status(500).json({ error: 'Failed to create category' })
+  }
+})
+
+app.put('/api/categories/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const { name, icon, color } = req.body
+    const result = await query(`
+      UPDATE expense_categories
+      SET name = $1, icon = $2, color = $3, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $4 AND household_id = $5
+      RETURNING id, name, icon, color, is_default as "isDefault",
+                created_at as "createdAt", updated_at as "updatedAt"
+    `, [name, icon, color, req.params.id, req.auth!.householdId])
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Category not found' })
+    }
+
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Category update error:', error)
+
+    // Check for unique constraint violation
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'Category with this name already exists' })
+    }
+
+    res.status(500).json({ error: 'Failed to update category' })
+  }
+})
+
+app.delete('/api/categories/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM expense_categories WHERE id = $1 AND household_id = $2 RETURNING id',
+      [req.params.id, req.auth!.householdId]
+    )
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Category not found' })
+    }
+
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Category deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete category' })
+  }
+})
+
+// Bank Imports API
+// Statements (CSV, OFX/QFX or QIF) are parsed, previewed with suggested matches, then recorded. CSV
+// files are read with a bank profile (the column mapping for one bank's export). Each recorded row is
+// remembered by a fingerprint so uploading an overlapping statement again skips what was already imported.
+
+const BANK_PROFILE_SELECT = `
+  SELECT id, name, date_column as "dateColumn", description_column as "descriptionColumn",
+         amount_column as "amountColumn", debit_column as "debitColumn", credit_column as "creditColumn",
+         date_format as "dateFormat", negate_amounts as "negateAmounts", payment_method as "paymentMethod",
+         created_at as "createdAt", updated_at as "updatedAt"
+  FROM bank_profiles
+`
+
+// How far a statement date may be from a due date for the row to be suggested as that payment
+const IMPORT_MATCH_WINDOW_DAYS = 10
+
+function getBankProfileError({ name, dateColumn, descriptionColumn, amountColumn, debitColumn, dateFormat }: Partial<BankColumnMapping> & { name?: string }): string | null {
+  if (!name || !dateColumn || !descriptionColumn) {
+    return 'Name, date column and description column are required'
+  }
+  if (!amountColumn && !debitColumn) {
+    return 'Map either an amount column or a debit column'
+  }
+  if (!dateFormat || !STATEMENT_DATE_FORMATS.includes(dateFormat)) {
+    return `Date format must be one of ${STATEMENT_DATE_FORMATS.join(', ')}`
+  }
+  return null
+}
+
+app.get('/api/bank-profiles', async (req, res) => {
+  try {
+    const result = await query(`${BANK_PROFILE_SELECT} WHERE household_id = $1 ORDER BY name ASC`, [req.auth!.householdId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Bank profiles fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch bank profiles' })
+  }
+})
+
+app.post('/api/bank-profiles', requireRole('manager'), async (req, res) => {
+  try {
+    const profileError = getBankProfileError(req.body)
+    if (profileError) {
+      return res.status(400).json({ error: profileError })
+    }
+
+    const { name, dateColumn, descriptionColumn, amountColumn, debitColumn, creditColumn, dateFormat, negateAmounts, paymentMethod } = req.body
+    const result = await query(`
+      INSERT INTO bank_profiles (household_id, name, date_column, description_column, amount_column, debit_column,
+                                 credit_column, date_format, negate_amounts, payment_method)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id
+    `, [req.auth!.householdId, name, dateColumn, descriptionColumn, amountColumn || null, debitColumn || null,
+        creditColumn || null, dateFormat, !!negateAmounts, paymentMethod || 'ach'])
+
+    const profile = await query(`${BANK_PROFILE_SELECT} WHERE id = $1`, [result.rows[0].id])
+    res.json(profile.rows[0])
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A bank profile with this name already exists' })
+    }
+    console.error('Bank profile creation error:', error)
+    res.status(500).json({ error: 'Failed to create bank profile' })
+  }
+})
+
+app.put('/api/bank-profiles/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const profileError = getBankProfileError(req.body)
+    if (profileError) {
+      return res.status(400).json({ error: profileError })
+    }
+
+    const { name, dateColumn, descriptionColumn, amountColumn, debitColumn, creditColumn, dateFormat, negateAmounts, paymentMethod } = req.body
+    const result = await query(`
+      UPDATE bank_profiles SET
+        name = $3, date_column = $4, description_column = $5, amount_column = $6, debit_column = $7,
+        credit_column = $8, date_format = $9, negate_amounts = $10, payment_method = $11, updated_at = NOW()
+      WHERE id = $1 AND household_id = $2
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, name, dateColumn, descriptionColumn, amountColumn || null,
+        debitColumn || null, creditColumn || null, dateFormat, !!negateAmounts, paymentMethod || 'ach'])
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Bank profile not found' })
+    }
+
+    const profile = await query(`${BANK_PROFILE_SELECT} WHERE id = $1`, [req.params.id])
+    res.json(profile.rows[0])
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A bank profile with this name already exists' })
+    }
+    console.error('Bank profile update error:', error)
+    res.status(500).json({ error: 'Failed to update bank profile' })
+  }
+})
+
+app.delete('/api/bank-profiles/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM bank_profiles WHERE id = $1 AND household_id = $2 RETURNING id',
+      [req.params.id, req.auth!.householdId]
+    )
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Bank profile not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Bank profile deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete bank profile' })
+  }
+})
+
+// Identifies each row by the bank's own id when the format has one (OFX FITID), otherwise by date,
+// amount and description. Identical rows (two coffees on the same day) are told apart by their
+// position among themselves, so they stay distinct across uploads.
+function fingerprintStatementTransactions(transactions: StatementTransaction[]): string[] {
+  const occurrences = new Map<string, number>()
+  return transactions.map(transaction => {
+    if (transaction.externalId) {
+      return createHash('sha256').update(`id|${transaction.externalId}`).digest('hex')
+    }
+    const key = [transaction.date, transaction.amountCents, transaction.description.trim().toLowerCase().replace(/\s+/g, ' ')].join('|')
+    const occurrence = occurrences.get(key) ?? 0
+    occurrences.set(key, occurrence + 1)
+    return createHash('sha256').update(`${key}|${occurrence}`).digest('hex')
+  })
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / (24 * 60 * 60 * 1000)
+}
+
+interface ImportMatchCandidate {
+  type: 'bill' | 'mortgage' | 'financed-expense-payment'
+  id: string
+  name: string
+  dueDate: string
+  amountCents: number
+}
+
+// Lists, for each money-out row, the unpaid bills, mortgage cycles and financed expense payments of
+// the same amount due within IMPORT_MATCH_WINDOW_DAYS. The suggestion pairs rows and candidates
+// closest-date first so two rows are never suggested for the same payment.
+async function findStatementMatches(client: Pool | PoolClient, householdId: string, transactions: StatementTransaction[]) {
+  const billsResult = await client.query(`
+    SELECT b.id, b.name, to_char(b.due_date, 'YYYY-MM-DD') as "dueDate",
+           b.amount_cents - COALESCE(SUM(p.amount_cents), 0) as "remainingCents"
+    FROM bills b
+    LEFT JOIN payments p ON p.bill_id = b.id AND p.deleted_at IS NULL
+    WHERE b.household_id = $1 AND b.deleted_at IS NULL
+    GROUP BY b.id
+    HAVING b.amount_cents > COALESCE(SUM(p.amount_cents), 0)
+  `, [householdId])
+
+  const mortgagesResult = await client.query(`
+    SELECT m.id, m.name, m.scheduled_payment_cents as "scheduledPaymentCents", m.payment_day as "paymentDay",
+           COALESCE(array_agg(to_char(mp.paid_date, 'YYYY-MM-DD')) FILTER (WHERE mp.id IS NOT NULL), '{}') as "paidDates"
+    FROM mortgages m
+    LEFT JOIN mortgage_payments mp ON mp.mortgage_id = m.id AND mp.deleted_at IS NULL
+    WHERE m.household_id = $1 AND m.active = true AND m.deleted_at IS NULL
+    GROUP BY m.id
+  `, [householdId])
+
+  const financedResult = await client.query(`
+    SELECT p.id, fe.title, p.payment_number as "paymentNumber", to_char(p.due_date, 'YYYY-MM-DD') as "dueDate",
+           p.amount_cents as "amountCents"
+    FROM financed_expense_payments p
+    JOIN financed_expenses fe ON p.financed_expense_id = fe.id
+    WHERE fe.household_id = $1 AND p.is_paid = false AND fe.deleted_at IS NULL
+  `, [householdId])
+
+  const candidatesByRow: ImportMatchCandidate[][] = transactions.map(transaction => {
+    if (transaction.amountCents >= 0) return []
+    const amountCents = -transaction.amountCents
+    const candidates: ImportMatchCandidate[] = []
+
+    for (const bill of billsResult.rows) {
+      if (parseInt(bill.remainingCents) === amountCents && daysApart(bill.dueDate, transaction.date) <= IMPORT_MATCH_WINDOW_DAYS) {
+        candidates.push({ type: 'bill', id: bill.id, name: bill.name, dueDate: bill.dueDate, amountCents })
+      }
+    }
+
+    for (const mortgage of mortgagesResult.rows) {
+      if (mortgage.scheduledPaymentCents !== amountCents) continue
+      // The cycle is the due date closest to the statement date; it is open until a payment lands near it
+      const period = transaction.date.slice(0, 7)
+      const dueDate = [addMonthsToPeriod(period, -1), period, addMonthsToPeriod(period, 1)]
+        .map(p => getRecurringDueDate(p, mortgage.paymentDay))
+        .sort((a, b) => daysApart(a, transaction.date) - daysApart(b, transaction.date))[0]
+      const isCyclePaid = mortgage.paidDates.some(paidDate => daysApart(paidDate, dueDate) <= IMPORT_MATCH_WINDOW_DAYS)
+      if (!isCyclePaid && daysApart(dueDate, transaction.date) <= IMPORT_MATCH_WINDOW_DAYS) {
+        candidates.push({ type: 'mortgage', id: mortgage.id, name: mortgage.name, dueDate, amountCents })
+      }
+    }
+
+    for (const payment of financedResult.rows) {
+      if (payment.amountCents === amountCents && daysApart(payment.dueDate, transaction.date) <= IMPORT_MATCH_WINDOW_DAYS) {
+        candidates.push({
+          type: 'financed-expense-payment',
+          id: payment.id,
+          name: `${payment.title} - Payment #${payment.paymentNumber}`,
+          dueDate: payment.dueDate,
+          amountCents
+        })
+      }
+    }
+
+    return candidates.sort((a, b) => daysApart(a.dueDate, transaction.date) - daysApart(b.dueDate, transaction.date))
+  })
+
+  const pairs = candidatesByRow
+    .flatMap((candidates, row) => candidates.map(candidate => ({ row, candidate, distance: daysApart(candidate.dueDate, transactions[row].date) })))
+    .sort((a, b) => a.distance - b.distance)
+  const suggestions: (ImportMatchCandidate | null)[] = transactions.map(() => null)
+  const usedCandidates = new Set<string>()
+  for (const { row, candidate } of pairs) {
+    const key = `${candidate.type}:${candidate.id}`
+    if (suggestions[row] || usedCandidates.has(key)) continue
+    suggestions[row] = candidate
+    usedCandidates.add(key)
+  }
+
+  return { candidatesByRow, suggestions }
+}
+
+// Resolves the column mapping from a saved profile or from one sent with the request
+async function resolveBankMapping(householdId: string, profileId?: string, mapping?: BankColumnMapping) {
+  if (!profileId) {
+    return { mapping, profile: null }
+  }
+  const result = await query(`${BANK_PROFILE_SELECT} WHERE id = $1 AND household_id = $2`, [profileId, householdId])
+  return { mapping: result.rows[0] as BankColumnMapping | undefined, profile: result.rows[0] || null }
+}
+
+// Parses a statement and suggests what each row pays, without writing anything. The format is
+// detected from the content unless given; CSV needs a profileId or mapping, QIF uses the profile's
+// (or the request's) date format.
+app.post('/api/bank-imports/preview', requireRole('manager'), async (req, res) => {
+  try {
+    const { content, profileId, dateFormat } = req.body
+    if (typeof content !== 'string') {
+      return res.status(400).json({ error: 'content is required' })
+    }
+    const format = req.body.format || detectStatementFormat(content)
+    if (!['csv', 'ofx', 'qif'].includes(format)) {
+      return res.status(400).json({ error: 'format must be csv, ofx or qif' })
+    }
+    if (dateFormat && !STATEMENT_DATE_FORMATS.includes(dateFormat)) {
+      return res.status(400).json({ error: `Date format must be one of ${STATEMENT_DATE_FORMATS.join(', ')}` })
+    }
+
+    const { mapping, profile } = await resolveBankMapping(req.auth!.householdId, profileId, req.body.mapping)
+    if (profileId && !profile) {
+      return res.status(404).json({ error: 'Bank profile not found' })
+    }
+    if (format === 'csv' && !mapping) {
+      return res.status(400).json({ error: 'profileId or mapping is required for CSV statements' })
+    }
+
+    let parsed: StatementParseResult
+    if (format === 'ofx') {
+      parsed = parseOfx(content)
+    } else if (format === 'qif') {
+      parsed = parseQif(content, dateFormat || profile?.dateFormat)
+    } else {
+      parsed = parseStatementCsv(content, mapping!)
+    }
+    const { transactions, errors } = parsed
+    const fingerprints = fingerprintStatementTransactions(transactions)
+    const importedResult = await query(
+      'SELECT fingerprint FROM bank_transactions WHERE household_id = $1 AND fingerprint = ANY($2)',
+      [req.auth!.householdId, fingerprints]
+    )
+    const imported = new Set(importedResult.rows.map(row => row.fingerprint))
+    const { candidatesByRow, suggestions } = await findStatementMatches(pool, req.auth!.householdId, transactions)
+
+    res.json({
+      transactions: transactions.map((transaction, index) => ({
+        ...transaction,
+        duplicate: imported.has(fingerprints[index]),
+        candidates: candidatesByRow[index],
+        suggestedMatch: imported.has(fingerprints[index]) ? null : suggestions[index]
+      })),
+      errors
+    })
+  } catch (error) {
+    console.error('Bank import preview error:', error)
+    res.status(500).json({ error: 'Failed to preview bank statement' })
+  }
+})
+
+// Records previewed rows. Each row carries an action: pay a bill, mortgage cycle or financed expense
+// payment ({ type, id }), create a one-off bill ({ type: 'new-bill', name?, categoryId? }) or
+// { type: 'skip' }. Rows imported before are reported as duplicates. All rows succeed or none do.
+app.post('/api/bank-imports', requireRole('manager'), async (req, res) => {
+  try {
+    const { profileId, payerMemberId, transactions } = req.body
+    if (!Array.isArray(transactions) || transactions.length === 0) {
+      return res.status(400).json({ error: 'transactions are required' })
+    }
+
+    for (const [index, transaction] of transactions.entries()) {
+      const isValid = parseStatementDate(String(transaction.date ?? ''), 'YYYY-MM-DD') &&
+        Number.isInteger(transaction.amountCents) && typeof transaction.description === 'string' &&
+        (transaction.externalId === undefined || typeof transaction.externalId === 'string')
+      if (!isValid) {
+        return res.status(400).json({ error: `Row ${index + 1}: date, description and amountCents are required` })
+      }
+      if (transaction.action?.type !== 'skip' && transaction.amountCents >= 0) {
+        return res.status(400).json({ error: `Row ${index + 1}: only money going out can be recorded as a payment` })
+      }
+    }
+
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [payerMemberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+
+    const { profile } = await resolveBankMapping(req.auth!.householdId, profileId)
+    if (profileId && !profile) {
+      return res.status(404).json({ error: 'Bank profile not found' })
+    }
+    const method = profile?.paymentMethod || 'ach'
+    const fingerprints = fingerprintStatementTransactions(transactions)
+
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+
+      const memberIds = (await client.query('SELECT id FROM members WHERE household_id = $1 AND deleted_at IS NULL', [req.auth!.householdId])).rows.map(row => row.id)
+      const results = []
+      const rowError = async (index: number, error: string) => {
+        await client.query('ROLLBACK')
+        return res.status(400).json({ error: `Row ${index + 1}: ${error}` })
+      }
+
+      for (const [index, transaction] of transactions.entries()) {
+        const action = transaction.action ?? { type: 'skip' }
+        if (action.type === 'skip') {
+          results.push({ status: 'skipped' })
+          continue
+        }
+
+        const recorded = await client.query(`
+          INSERT INTO bank_transactions (household_id, profile_id, fingerprint, posted_date, description, amount_cents, external_id)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          ON CONFLICT (household_id, fingerprint) DO NOTHING
+          RETURNING id
+        `, [req.auth!.householdId, profile?.id ?? null, fingerprints[index], transaction.date, transaction.description,
+            transaction.amountCents, transaction.externalId || null])
+        if (recorded.rows.length === 0) {
+          results.push({ status: 'duplicate' })
+          continue
+        }
+
+        const amountCents = -transaction.amountCents
+        const payment = { paidDate: transaction.date, amountCents, method, payerMemberId: payerMemberId || null, note: transaction.description }
+        const links: { billId?: string; paymentId?: string; mortgagePaymentId?: string; financedExpensePaymentId?: string } = {}
+
+        if (action.type === 'bill' || action.type === 'new-bill') {
+          if (action.type === 'bill') {
+            const billResult = await client.query('SELECT id FROM bills WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL', [action.id, req.auth!.householdId])
+            if (billResult.rows.length === 0) return rowError(index, 'Bill not found')
+            links.billId = action.id
+          } else {
+            if (action.categoryId) {
+              const categoryResult = await client.query(
+                'SELECT id FROM expense_categories WHERE id = $1 AND (household_id = $2 OR household_id IS NULL)',
+                [action.categoryId, req.auth!.householdId]
+              )
+              if (categoryResult.rows.length === 0) return rowError(index, 'Category not found')
+            }
+            // One-off bills are shared equally, like a new bill in the bill form
+            const billResult = await client.query(`
+              INSERT INTO bills (household_id, name, amount_cents, due_date, split_mode, category_id)
+              VALUES ($1, $2, $3, $4, 'shares', $5)
+              RETURNING id
+            `, [req.auth!.householdId, action.name || transaction.description || 'Bank transaction', amountCents, transaction.date, action.categoryId || null])
+            links.billId = billResult.rows[0].id
+            for (const memberId of memberIds) {
+              await client.query('INSERT INTO bill_splits (bill_id, member_id, value) VALUES ($1, $2, 1)', [links.billId, memberId])
+            }
+          }
+          links.paymentId = (await insertBillPayment(client, { ...payment, billId: links.billId, allocations: [] })).id
+        } else if (action.type === 'mortgage') {
+          const mortgageResult = await client.query(
+            'SELECT * FROM mortgages WHERE id = $1 AND household_id = $2 AND deleted_at IS NULL FOR UPDATE',
+            [action.id, req.auth!.householdId]
+          )
+          if (mortgageResult.rows.length === 0) return rowError(index, 'Mortgage not found')
+          // Statement rows are often older than payments already recorded; inserting one works out the
+          // breakdowns and balance from its date on again, so they stay in date order
+          links.mortgagePaymentId = (await insertMortgagePayment(client, mortgageResult.rows[0], { ...payment, allocations: [] })).paymentId
+        } else if (action.type === 'financed-expense-payment') {
+          const financedResult = await client.query(`
+            SELECT p.*, fe.title, fe.split_mode, fe.household_id
+            FROM financed_expense_payments p
+            JOIN financed_expenses fe ON p.financed_expense_id = fe.id
+            WHERE p.id = $1 AND fe.household_id = $2 AND fe.deleted_at IS NULL
+            FOR UPDATE OF p
+          `, [action.id, req.auth!.householdId])
+          if (financedResult.rows.length === 0) return rowError(index, 'Financed expense payment not found')
+          if (financedResult.rows[0].is_paid) return rowError(index, 'Financed expense payment is already marked as paid')
+          await markFinancedPaymentPaid(client, financedResult.rows[0], transaction.date, false, payerMemberId || null)
+          links.financedExpensePaymentId = action.id
+        } else {
+          return rowError(index, `Unknown action "${action.type}"`)
+        }
+
+        await client.query(`
+          UPDATE bank_transactions
+          SET bill_id = $2, payment_id = $3, mortgage_payment_id = $4, financed_expense_payment_id = $5
+          WHERE id = $1
+        `, [recorded.rows[0].id, links.billId ?? null, links.paymentId ?? null, links.mortgagePaymentId ?? null, links.financedExpensePaymentId ?? null])
+        results.push({ status: 'imported', ...links })
+      }
+
+      await client.query('COMMIT')
+      res.json({
+        imported: results.filter(result => result.status === 'imported').length,
+        duplicates: results.filter(result => result.status === 'duplicate').length,
+        skipped: results.filter(result => result.status === 'skipped').length,
+        transactions: results
+      })
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Bank import error:', error)
+    res.status(500).json({ error: 'Failed to import bank statement' })
+  }
+})
+
+// Analytics API
+
+// Each member's share of spending per category between two 'YYYY-MM-DD' dates (inclusive), following
+// the item's splits: bills and financed expense installments by due date, mortgage payments by paid date.
+async function loadSpendingSummary(
+  householdId: string,
+  startDate: string,
+  endDate: string,
+  memberIds?: string[],
+  categoryIds?: string[]
+): Promise<{ memberId: string; memberName: string; categoryId: string; categoryName: string; totalCents: number }[]> {
+  // Build WHERE clauses for filters
+  let billsWhere = 'WHERE b.due_date >= $1 AND b.due_date <= $2 AND b.household_id = $3 AND b.deleted_at IS NULL';
+  let financedWhere = 'WHERE fep.due_date >= $1 AND fep.due_date <= $2 AND fe.household_id = $3 AND fe.deleted_at IS NULL';
+  let mortgageWhere = 'WHERE mp.paid_date >= $1 AND mp.paid_date <= $2 AND mort.household_id = $3 AND mort.deleted_at IS NULL AND mp.deleted_at IS NULL';
+  const params: any[] = [startDate, endDate, householdId];
+  let paramCount = 3;
+
+  // Add member filter if provided
+  if (memberIds && memberIds.length > 0) {
+    paramCount++;
+    billsWhere += ` AND bs.member_id = ANY($${paramCount})`;
+    financedWhere += ` AND fes.member_id = ANY($${paramCount})`;
+    mortgageWhere += ` AND ms.member_id = ANY($${paramCount})`;
+    params.push(memberIds);
+  }
+
+  // Add category filter if provided
+  if (categoryIds && categoryIds.length > 0) {
+    paramCount++;
+    billsWhere += ` AND b.category_id = ANY($${paramCount})`;
+    financedWhere += ` AND fe.category_id = ANY($${paramCount})`;
+    params.push(categoryIds);
+  }
+
+  const result = await query(`
+    WITH bill_spending AS (
+      SELECT
+        m.id as member_id,
+        m.name as member_name,
+        COALESCE(ec.id, 'cat-uncategorized') as category_id,
+        COALESCE(ec.name, 'Uncategorized') as category_name,
+        SUM(CASE
+          WHEN b.split_mode = 'amount' THEN bs.value
+          WHEN b.split_mode = 'percent' THEN (b.amount_cents * bs.value / 100)
+          WHEN b.split_mode = 'shares' THEN (
+            b.amount_cents / (SELECT SUM(value) FROM bill_splits WHERE bill_id = b.id) * bs.value
+          )
+        END) as total_cents
+      FROM bills b
+      JOIN bill_splits bs ON b.id = bs.bill_id
+      JOIN members m ON bs.member_id = m.id AND m.deleted_at IS NULL
+      LEFT JOIN expense_categories ec ON b.category_id = ec.id
+      ${billsWhere}
+      GROUP BY m.id, m.name, ec.id, ec.name
+    ),
+    financed_spending AS (
+      SELECT
+        m.id as member_id,
+        m.name as member_name,
+        COALESCE(ec.id, 'cat-uncategorized') as category_id,
+        COALESCE(ec.name, 'Uncategorized') as category_name,
+        SUM(CASE
+          WHEN fe.split_mode = 'amount' THEN fes.value
+          WHEN fe.split_mode = 'percent' THEN (fep.amount_cents * fes.value / 100)
+          WHEN fe.split_mode = 'shares' THEN (
+            fep.amount_cents / (SELECT SUM(value) FROM financed_expense_splits WHERE financed_expense_id = fe.id) * fes.value
+          )
+        END) as total_cents
+      FROM financed_expense_payments fep
+      JOIN financed_expenses fe ON fep.financed_expense_id = fe.id
+      JOIN financed_expense_splits fes ON fe.id = fes.financed_expense_id
+      JOIN members m ON fes.member_id = m.id AND m.deleted_at IS NULL
+      LEFT JOIN expense_categories ec ON fe.category_id = ec.id
+      ${financedWhere}
+      GROUP BY m.id, m.name, ec.id, ec.name
+    ),
+    mortgage_spending AS (
+      SELECT
+        m.id as member_id,
+        m.name as member_name,
+        'cat-housing' as category_id,
+        'Housing' as category_name,
+        SUM(CASE
+          WHEN mort.split_mode = 'amount' THEN ms.value
+          WHEN mort.split_mode = 'percent' THEN (mp.amount_cents * ms.value / 100)
+          WHEN mort.split_mode = 'shares' THEN (
+            mp.amount_cents / (SELECT SUM(value) FROM mortgage_splits WHERE mortgage_id = mort.id) * ms.value
+          )
+        END) as total_cents
+      FROM mortgage_payments mp
+      JOIN mortgages mort ON mp.mortgage_id = mort.id
+      JOIN mortgage_splits ms ON mort.id = ms.mortgage_id
+      JOIN members m ON ms.member_id = m.id AND m.deleted_at IS NULL
+      ${mortgageWhere}
+      GROUP BY m.id, m.name
+    ),
+    combined AS (
+      SELECT * FROM bill_spending
+      UNION ALL
+      SELECT * FROM financed_spending
+      UNION ALL
+      SELECT * FROM mortgage_spending
+    )
+    SELECT
+      member_id as "memberId",
+      member_name as "memberName",
+      category_id as "categoryId",
+      category_name as "categoryName",
+      SUM(total_cents) as "totalCents"
+    FROM combined
+    GROUP BY member_id, member_name, category_id, category_name
+    ORDER BY member_name, category_name
+  `, params);
+
+  return result.rows;
+}
+
+app.get('/api/analytics/spending-summary', async (req, res) => {
+  try {
+    const { timeRange, memberIds, categoryIds } = req.query;
+
+    // Calculate date range based on timeRange parameter
+    let startDate;
+    const endDate = new Date();
+
+    switch (timeRange) {
+      case 'current-month':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+        break;
+      case '3-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
+        break;
+      case '6-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
+        break;
+      case 'ytd':
+        startDate = new Date(endDate.getFullYear(), 0, 1);
+        break;
+      default:
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+    }
+
+    const memberIdList = typeof memberIds === 'string' && memberIds.length > 0 ? memberIds.split(',') : undefined;
+    const categoryIdList = typeof categoryIds === 'string' && categoryIds.length > 0 ? categoryIds.split(',') : undefined;
+    const rows = await loadSpendingSummary(
+      req.auth!.householdId,
+      startDate.toISOString().split('T')[0],
+      endDate.toISOString().split('T')[0],
+      memberIdList,
+      categoryIdList
+    );
 
-      const expense = expenseResult.rows[0];
+    res.json(rows);
+  } catch (error) {
+    console.error('Spending summary fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch spending summary' });
+  }
+});
 
-      // Update splits if provided
-      if (splits !== undefined) {
-        console.log('Updating splits:', { splits, splitMode: expense.splitMode });
+app.get('/api/analytics/spending-trends', async (req, res) => {
+  try {
+    const { timeRange, memberIds, categoryIds } = req.query;
 
-        await client.query('DELETE FROM financed_expense_splits WHERE financed_expense_id = $1', [id]);
+    // Calculate date range
+    let startDate;
+    const endDate = new Date();
+    let groupByFormat = 'YYYY-MM-DD';
 
-        const insertedSplits = [];
-        for (const split of splits) {
-          // Convert split value based on split mode
-          let splitValue = split.value;
-          if (expense.splitMode === 'amount') {
-            // For amount splits, convert dollars to cents
-            splitValue = Math.round(split.value * 100);
-          }
-          // For percent and shares, use the value as-is (whole numbers)
+    switch (timeRange) {
+      case 'current-month':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+        groupByFormat = 'YYYY-MM-DD';
+        break;
+      case '3-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
+        groupByFormat = 'YYYY-WW';
+        break;
+      case '6-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
+        groupByFormat = 'YYYY-WW';
+        break;
+      case 'ytd':
+        startDate = new Date(endDate.getFullYear(), 0, 1);
+        groupByFormat = 'YYYY-MM';
+        break;
+      default:
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+    }
 
-          console.log('Inserting split:', { memberId: split.memberId, originalValue: split.value, convertedValue: splitValue });
+    // Build WHERE clauses
+    let billsWhere = 'WHERE b.due_date >= $1 AND b.due_date <= $2 AND b.household_id = $3 AND b.deleted_at IS NULL';
+    let financedWhere = 'WHERE fep.due_date >= $1 AND fep.due_date <= $2 AND fe.household_id = $3 AND fe.deleted_at IS NULL';
+    let mortgageWhere = 'WHERE mp.paid_date >= $1 AND mp.paid_date <= $2 AND mort.household_id = $3 AND mort.deleted_at IS NULL AND mp.deleted_at IS NULL';
+    const params: any[] = [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0], req.auth!.householdId];
+    let paramCount = 3;
 
-          const splitResult = await client.query(`
-            INSERT INTO financed_expense_splits (financed_expense_id, member_id, value)
-            VALUES ($1, $2, $3)
-            RETURNING id, member_id as "memberId", value
-          `, [id, split.memberId, splitValue]);
-          insertedSplits.push(splitResult.rows[0]);
-        }
-        expense.splits = insertedSplits.map(split => ({
-          ...split,
-          value: expense.splitMode === 'amount' ? split.value / 100 : split.value
-        }));
-      } else {
-        // Get existing splits
-        const splitsResult = await client.query(`
-          SELECT id, member_id as "memberId", value
-          FROM financed_expense_splits
-          WHERE financed_expense_id = $1
-        `, [id]);
-        expense.splits = splitsResult.rows.map(split => ({
-          ...split,
-          value: expense.splitMode === 'amount' ? split.value / 100 : split.value
-        }));
-      }
+    if (memberIds && typeof memberIds === 'string' && memberIds.length > 0) {
+      const memberIdArray = memberIds.split(',');
+      paramCount++;
+      billsWhere += ` AND bs.member_id = ANY($${paramCount})`;
+      financedWhere += ` AND fes.member_id = ANY($${paramCount})`;
+      mortgageWhere += ` AND ms.member_id = ANY($${paramCount})`;
+      params.push(memberIdArray);
+    }
 
-      // Recalculate payment schedule if needed
-      if (needsRecalculation) {
-        console.log('Recalculating payment schedule due to changes in:', {
-          totalAmountChanged: totalAmountCents !== undefined && totalAmountCents !== currentExpense.total_amount_cents,
-          interestRateChanged: interestRatePercent !== undefined && interestRatePercent !== parseFloat(currentExpense.interest_rate_percent),
-          termChanged: financingTermMonths !== undefined && financingTermMonths !== currentExpense.financing_term_months,
-          firstPaymentDateChanged: firstPaymentDate !== undefined && firstPaymentDate !== currentExpense.first_payment_date
-        });
+    if (categoryIds && typeof categoryIds === 'string' && categoryIds.length > 0) {
+      const categoryIdArray = categoryIds.split(',');
+      paramCount++;
+      billsWhere += ` AND b.category_id = ANY($${paramCount})`;
+      financedWhere += ` AND fe.category_id = ANY($${paramCount})`;
+      params.push(categoryIdArray);
+    }
 
-        // Delete existing unpaid payments
-        const deleteResult = await client.query(
-          'DELETE FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = false',
-          [id]
-        );
-        console.log('Deleted unpaid payments:', deleteResult.rowCount);
+    const result = await query(`
+      WITH bill_trends AS (
+        SELECT
+          TO_CHAR(b.due_date, '${groupByFormat}') as period,
+          b.due_date as date,
+          SUM(CASE
+            WHEN b.split_mode = 'amount' THEN bs.value
+            WHEN b.split_mode = 'percent' THEN (b.amount_cents * bs.value / 100)
+            WHEN b.split_mode = 'shares' THEN (
+              b.amount_cents / (SELECT SUM(value) FROM bill_splits WHERE bill_id = b.id) * bs.value
+            )
+          END) as total_cents
+        FROM bills b
+        JOIN bill_splits bs ON b.id = bs.bill_id
+        LEFT JOIN expense_categories ec ON b.category_id = ec.id
+        ${billsWhere}
+        GROUP BY period, b.due_date
+      ),
+      financed_trends AS (
+        SELECT
+          TO_CHAR(fep.due_date, '${groupByFormat}') as period,
+          fep.due_date as date,
+          SUM(CASE
+            WHEN fe.split_mode = 'amount' THEN fes.value
+            WHEN fe.split_mode = 'percent' THEN (fep.amount_cents * fes.value / 100)
+            WHEN fe.split_mode = 'shares' THEN (
+              fep.amount_cents / (SELECT SUM(value) FROM financed_expense_splits WHERE financed_expense_id = fe.id) * fes.value
+            )
+          END) as total_cents
+        FROM financed_expense_payments fep
+        JOIN financed_expenses fe ON fep.financed_expense_id = fe.id
+        JOIN financed_expense_splits fes ON fe.id = fes.financed_expense_id
+        LEFT JOIN expense_categories ec ON fe.category_id = ec.id
+        ${financedWhere}
+        GROUP BY period, fep.due_date
+      ),
+      mortgage_trends AS (
+        SELECT
+          TO_CHAR(mp.paid_date, '${groupByFormat}') as period,
+          mp.paid_date as date,
+          SUM(CASE
+            WHEN mort.split_mode = 'amount' THEN ms.value
+            WHEN mort.split_mode = 'percent' THEN (mp.amount_cents * ms.value / 100)
+            WHEN mort.split_mode = 'shares' THEN (
+              mp.amount_cents / (SELECT SUM(value) FROM mortgage_splits WHERE mortgage_id = mort.id) * ms.value
+            )
+          END) as total_cents
+        FROM mortgage_payments mp
+        JOIN mortgages mort ON mp.mortgage_id = mort.id
+        JOIN mortgage_splits ms ON mort.id = ms.mortgage_id
+        ${mortgageWhere}
+        GROUP BY period, mp.paid_date
+      ),
+      combined AS (
+        SELECT * FROM bill_trends
+        UNION ALL
+        SELECT * FROM financed_trends
+        UNION ALL
+        SELECT * FROM mortgage_trends
+      )
+      SELECT
+        period,
+        MIN(date) as date,
+        SUM(total_cents) as "totalCents"
+      FROM combined
+      GROUP BY period
+      ORDER BY period
+    `, params);
 
-        // Get the number of paid payments to determine starting payment number
-        const paidPaymentsResult = await client.query(
-          'SELECT COUNT(*) as count FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = true',
-          [id]
-        );
-        const paidPaymentsCount = parseInt(paidPaymentsResult.rows[0].count);
-        const remainingTermMonths = finalFinancingTermMonths - paidPaymentsCount;
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Spending trends fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch spending trends' });
+  }
+});
 
-        console.log('Payment schedule calculation:', {
-          paidPaymentsCount,
-          finalFinancingTermMonths,
-          remainingTermMonths,
-          finalTotalAmountCents,
-          finalInterestRatePercent,
-          finalFirstPaymentDate
-        });
+app.get('/api/analytics/payment-status', async (req, res) => {
+  try {
+    const { timeRange } = req.query;
 
-        if (remainingTermMonths > 0) {
-          // Calculate remaining principal
-          const totalPaidResult = await client.query(
-            'SELECT COALESCE(SUM(principal_cents), 0) as total_paid FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = true',
-            [id]
-          );
-          const totalPaidPrincipal = parseInt(totalPaidResult.rows[0].total_paid || '0');
-          const remainingPrincipal = finalTotalAmountCents - totalPaidPrincipal;
+    let startDate;
+    const endDate = new Date();
 
-          console.log('Principal calculation:', {
-            totalPaidPrincipal,
-            remainingPrincipal
-          });
+    switch (timeRange) {
+      case 'current-month':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+        break;
+      case '3-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
+        break;
+      case '6-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
+        break;
+      case 'ytd':
+        startDate = new Date(endDate.getFullYear(), 0, 1);
+        break;
+      default:
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+    }
+
+    const result = await query(`
+      WITH bill_payments AS (
+        SELECT
+          b.id,
+          b.name,
+          b.amount_cents,
+          b.due_date,
+          COALESCE(SUM(p.amount_cents), 0) as paid_cents
+        FROM bills b
+        LEFT JOIN payments p ON b.id = p.bill_id AND p.deleted_at IS NULL
+        WHERE b.due_date >= $1 AND b.due_date <= $2 AND b.household_id = $3 AND b.deleted_at IS NULL
+        GROUP BY b.id, b.name, b.amount_cents, b.due_date
+      ),
+      financed_payments AS (
+        SELECT
+          fe.id,
+          fe.title as name,
+          fep.amount_cents,
+          fep.due_date,
+          CASE WHEN fep.is_paid THEN fep.amount_cents ELSE 0 END as paid_cents
+        FROM financed_expense_payments fep
+        JOIN financed_expenses fe ON fep.financed_expense_id = fe.id
+        WHERE fep.due_date >= $1 AND fep.due_date <= $2 AND fe.household_id = $3 AND fe.deleted_at IS NULL
+      )
+      SELECT
+        COUNT(*) FILTER (WHERE paid_cents >= amount_cents) as "paidCount",
+        COUNT(*) FILTER (WHERE paid_cents < amount_cents AND due_date < CURRENT_DATE) as "overdueCount",
+        COUNT(*) FILTER (WHERE paid_cents < amount_cents AND due_date >= CURRENT_DATE) as "upcomingCount",
+        SUM(amount_cents) as "totalAmountCents",
+        SUM(paid_cents) as "totalPaidCents"
+      FROM (
+        SELECT * FROM bill_payments
+        UNION ALL
+        SELECT * FROM financed_payments
+      ) combined
+    `, [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0], req.auth!.householdId]);
 
-          if (remainingPrincipal <= 0) {
-            console.log('Warning: Remaining principal is zero or negative, skipping payment schedule generation');
-          } else {
-            // Generate new payment schedule for remaining payments
-            const nextPaymentDate = new Date(finalFirstPaymentDate);
-            nextPaymentDate.setMonth(nextPaymentDate.getMonth() + paidPaymentsCount);
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Payment status fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch payment status' });
+  }
+});
 
-            console.log('Generating payment schedule starting from:', nextPaymentDate.toISOString().split('T')[0]);
+app.get('/api/analytics/mortgage-vs-expenses', async (req, res) => {
+  try {
+    const { timeRange } = req.query;
 
-            const newPaymentSchedule = generatePaymentSchedule(
-              remainingPrincipal,
-              finalInterestRatePercent,
-              remainingTermMonths,
-              nextPaymentDate.toISOString().split('T')[0]
-            );
+    let startDate;
+    const endDate = new Date();
 
-            console.log('Generated payment schedule:', { paymentCount: newPaymentSchedule.length });
+    switch (timeRange) {
+      case 'current-month':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+        break;
+      case '3-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
+        break;
+      case '6-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
+        break;
+      case 'ytd':
+        startDate = new Date(endDate.getFullYear(), 0, 1);
+        break;
+      default:
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+    }
 
-            // Insert new payment schedule
-            for (const payment of newPaymentSchedule) {
-              await client.query(`
-                INSERT INTO financed_expense_payments (
-                  financed_expense_id, payment_number, due_date,
-                  amount_cents, principal_cents, interest_cents
-                ) VALUES ($1, $2, $3, $4, $5, $6)
-              `, [id, paidPaymentsCount + payment.paymentNumber, payment.dueDate,
-                  payment.amountCents, payment.principalCents, payment.interestCents]);
-            }
-            console.log('Inserted', newPaymentSchedule.length, 'new payments');
-          }
-        } else {
-          console.log('No remaining payments needed - loan is fully paid or overpaid');
-        }
-      }
+    const result = await query(`
+      WITH mortgage_total AS (
+        SELECT COALESCE(SUM(mp.amount_cents), 0) as total_cents
+        FROM mortgage_payments mp
+        JOIN mortgages mort ON mp.mortgage_id = mort.id
+        WHERE mp.paid_date >= $1 AND mp.paid_date <= $2 AND mort.household_id = $3 AND mort.deleted_at IS NULL AND mp.deleted_at IS NULL
+      ),
+      other_expenses AS (
+        SELECT COALESCE(SUM(b.amount_cents), 0) as total_cents
+        FROM bills b
+        WHERE b.due_date >= $1 AND b.due_date <= $2 AND b.household_id = $3 AND b.deleted_at IS NULL
+      ),
+      financed_expenses AS (
+        SELECT COALESCE(SUM(fep.amount_cents), 0) as total_cents
+        FROM financed_expense_payments fep
+        JOIN financed_expenses fe ON fep.financed_expense_id = fe.id
+        WHERE fep.due_date >= $1 AND fep.due_date <= $2 AND fe.household_id = $3 AND fe.deleted_at IS NULL
+      )
+      SELECT
+        (SELECT total_cents FROM mortgage_total) as "mortgageCents",
+        (SELECT total_cents FROM other_expenses) + (SELECT total_cents FROM financed_expenses) as "otherExpensesCents"
+    `, [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0], req.auth!.householdId]);
 
-      await client.query('COMMIT');
-      console.log('Successfully updated financed expense:', { id, title: expense.title });
-      res.json(expense);
-    } catch (error) {
-      await client.query('ROLLBACK');
-      console.error('Database transaction error in PUT /api/financed-expenses/:id:', {
-        id: id,
-        error: error.message,
-        code: error.code,
-        detail: error.detail,
-        stack: error.stack
-      });
-      throw error;
-    } finally {
-      client.release();
-    }
+    res.json(result.rows[0]);
   } catch (error) {
-    console.error('Financed expense update error:', {
-      id: id,
-      error: error.message,
-      code: error.code,
-      detail: error.detail,
-      stack: error.stack?.split('\n').slice(0, 5).join('\n') // First 5 lines of stack trace
-    });
+    console.error('Mortgage vs expenses fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch mortgage vs expenses comparison' });
+  }
+});
 
-    // Provide more specific error messages based on error type
-    if (error.code === '23503') {
-      return res.status(400).json({
-        error: 'Invalid member ID in splits or expense references non-existent record',
-        details: error.detail
-      });
-    }
+// Income received against each member's share of spending over the time range (see utils/income.ts)
+app.get('/api/analytics/cash-flow', async (req, res) => {
+  try {
+    const { timeRange } = req.query;
 
-    if (error.code === '23505') {
-      return res.status(400).json({
-        error: 'Duplicate constraint violation',
-        details: error.detail
-      });
-    }
+    let startDate;
+    const endDate = new Date();
 
-    if (error.code === '22P02') {
-      return res.status(400).json({
-        error: 'Invalid data format provided',
-        details: 'Check that all numeric values are valid numbers and dates are in correct format'
-      });
+    switch (timeRange) {
+      case 'current-month':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+        break;
+      case '3-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
+        break;
+      case '6-months':
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
+        break;
+      case 'ytd':
+        startDate = new Date(endDate.getFullYear(), 0, 1);
+        break;
+      default:
+        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
     }
 
-    if (error.code === '23514') {
-      return res.status(400).json({
-        error: 'Check constraint violation',
-        details: error.detail
-      });
+    const start = startDate.toISOString().split('T')[0];
+    const end = endDate.toISOString().split('T')[0];
+    const [membersResult, incomeResult, spendingRows] = await Promise.all([
+      query('SELECT id, name FROM members WHERE household_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC', [req.auth!.householdId]),
+      query(`
+        SELECT member_id as "memberId", SUM(amount_cents) as "totalCents"
+        FROM income_deposits
+        WHERE household_id = $1 AND deposited_date >= $2 AND deposited_date <= $3
+        GROUP BY member_id
+      `, [req.auth!.householdId, start, end]),
+      loadSpendingSummary(req.auth!.householdId, start, end)
+    ]);
+
+    const incomeByMember = new Map<string, number>(
+      incomeResult.rows.map(row => [row.memberId, Number(row.totalCents)] as [string, number])
+    );
+    const spendingByMember = new Map<string, number>();
+    for (const row of spendingRows) {
+      spendingByMember.set(row.memberId, (spendingByMember.get(row.memberId) ?? 0) + Number(row.totalCents));
     }
 
-    // Generic error for unexpected issues
-    res.status(500).json({
-      error: 'Failed to update financed expense',
-      details: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    res.json({
+      startDate: start,
+      endDate: end,
+      ...summarizeCashFlow(membersResult.rows, incomeByMember, spendingByMember)
     });
+  } catch (error) {
+    console.error('Cash flow fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch cash flow' });
   }
 });
 
-app.get('/api/financed-expenses/:id/complete', async (req, res) => {
-  try {
-    const { id } = req.params;
-
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+// Forecast API
+// Projects the coming months from what is already known: unpaid and overdue bills, recurring bill
+// occurrences, mortgage payments and financed expense installments (the calendar feeds' due items)
+// plus paydays of active income sources. See utils/forecast.ts.
+const FORECAST_MONTHS = 12
+const FORECAST_MAX_MONTHS = 36
 
-      // Get financed expense details
-      const expenseResult = await client.query(`
-        SELECT
-          id, title, description, total_amount_cents, monthly_payment_cents,
-          interest_rate_percent, financing_term_months, purchase_date,
-          first_payment_date, is_active, split_mode,
-          created_at, updated_at
-        FROM financed_expenses
-        WHERE id = $1
-      `, [id]);
+// ?months= (12 by default) from the current month; ?startingBalanceCents= is the money on hand today
+app.get('/api/forecast', async (req, res) => {
+  try {
+    const months = req.query.months === undefined ? FORECAST_MONTHS : Number(req.query.months)
+    if (!Number.isInteger(months) || months < 1 || months > FORECAST_MAX_MONTHS) {
+      return res.status(400).json({ error: `months must be a whole number from 1 to ${FORECAST_MAX_MONTHS}` })
+    }
+    const startingBalanceCents = req.query.startingBalanceCents === undefined ? 0 : Number(req.query.startingBalanceCents)
+    if (!Number.isInteger(startingBalanceCents)) {
+      return res.status(400).json({ error: 'startingBalanceCents must be a whole number of cents' })
+    }
 
-      if (expenseResult.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return res.status(404).json({ error: 'Financed expense not found' });
+    const today = formatLocalDate(new Date())
+    const monthList = Array.from({ length: months }, (_, i) => addMonthsToPeriod(today.slice(0, 7), i))
+    const lastMonth = monthList[monthList.length - 1]
+    const { people, items } = await loadDueItems(req.auth!.householdId, lastMonth)
+
+    const entries: ForecastEntry[] = items.map(item => ({
+      type: item.type,
+      id: item.id,
+      name: item.name,
+      date: item.dueDate,
+      amountCents: -Math.round(item.amount * 100),
+      shares: item.splits
+        .filter(split => split.amount > 0)
+        .map(split => ({ memberId: split.personId, amountCents: Math.round(split.amount * 100) })),
+      isEstimated: item.isEstimated
+    }))
+
+    // Paydays continue from the last deposit recorded for the source, or from when it was added
+    const sourcesResult = await query(`
+      SELECT i.id, i.name, i.member_id as "memberId", i.amount_cents as "amountCents", i.frequency,
+             to_char(MAX(d.deposited_date), 'YYYY-MM-DD') as "lastDepositDate",
+             to_char(i.created_at, 'YYYY-MM-DD') as "createdDate"
+      FROM income_sources i
+      LEFT JOIN income_deposits d ON d.income_source_id = i.id
+      WHERE i.household_id = $1 AND i.active = true
+      GROUP BY i.id
+    `, [req.auth!.householdId])
+    for (const source of sourcesResult.rows) {
+      const anchorDate = source.lastDepositDate ?? source.createdDate
+      const payDates = getIncomePayDates(source.frequency, anchorDate, today, getRecurringDueDate(lastMonth, 31))
+      for (const date of payDates.filter(payDate => !source.lastDepositDate || payDate > source.lastDepositDate)) {
+        entries.push({
+          type: 'income',
+          id: source.id,
+          name: source.name,
+          date,
+          amountCents: source.amountCents,
+          shares: [{ memberId: source.memberId, amountCents: source.amountCents }]
+        })
       }
+    }
 
-      const expense = expenseResult.rows[0];
-
-      // Get splits for this expense
-      const splitsResult = await client.query(`
-        SELECT id, member_id as "memberId", value
-        FROM financed_expense_splits
-        WHERE financed_expense_id = $1
-      `, [id]);
-
-      // Get all payments with status
-      const paymentsResult = await client.query(`
-        SELECT
-          id, payment_number, due_date, amount_cents,
-          principal_cents, interest_cents, is_paid,
-          paid_date, bill_id
-        FROM financed_expense_payments
-        WHERE financed_expense_id = $1
-        ORDER BY payment_number ASC
-      `, [id]);
-
-      // Calculate summary statistics
-      const payments = paymentsResult.rows;
-      const totalPayments = payments.length;
-      const paidPayments = payments.filter(p => p.is_paid).length;
-      const totalPaidCents = payments
-        .filter(p => p.is_paid)
-        .reduce((sum, p) => sum + p.amount_cents, 0);
-      const remainingBalanceCents = expense.total_amount_cents - totalPaidCents;
-      const nextUnpaidPayment = payments.find(p => !p.is_paid);
-      const paymentsRemaining = payments.filter(p => !p.is_paid).length;
-      const progressPercent = totalPayments > 0 ? Math.round((paidPayments / totalPayments) * 100) : 0;
-
-      // Check if any payment is overdue
-      const today = new Date();
-      const isOverdue = payments.some(p =>
-        !p.is_paid && new Date(p.due_date) < today
-      );
-
-      await client.query('COMMIT');
+    res.json({
+      ...buildForecast(entries, today, monthList, startingBalanceCents),
+      members: people.map(person => ({ id: person.id, name: person.name, color: person.color }))
+    })
+  } catch (error) {
+    console.error('Forecast error:', error)
+    res.status(500).json({ error: 'Failed to build forecast' })
+  }
+})
 
-      // Format response
-      res.json({
-        id: expense.id,
-        title: expense.title,
-        description: expense.description,
-        totalAmountCents: expense.total_amount_cents,
-        monthlyPaymentCents: expense.monthly_payment_cents,
-        interestRatePercent: parseFloat(expense.interest_rate_percent),
-        financingTermMonths: expense.financing_term_months,
-        purchaseDate: expense.purchase_date,
-        firstPaymentDate: expense.first_payment_date,
-        isActive: expense.is_active,
-        splitMode: expense.split_mode,
-        createdAt: expense.created_at,
-        updatedAt: expense.updated_at,
+// Budgets API
+// Monthly limits per category, per member or per member within a category, checked against the same
+// split-aware spending as the spending summary (see utils/budgets.ts)
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
 
-        // Embedded splits data with proper value conversion
-        splits: splitsResult.rows.map(split => ({
-          id: split.id,
-          memberId: split.memberId,
-          value: expense.split_mode === 'amount' ? split.value / 100 : split.value
-        })),
+interface BudgetRow extends BudgetDefinition {
+  categoryName: string | null
+  memberName: string | null
+  createdAt: Date
+  updatedAt: Date
+}
 
-        // Embedded payments data
-        payments: payments.map(payment => ({
-          id: payment.id,
-          paymentNumber: payment.payment_number,
-          dueDate: payment.due_date,
-          amountCents: payment.amount_cents,
-          principalCents: payment.principal_cents,
-          interestCents: payment.interest_cents,
-          isPaid: payment.is_paid,
-          paidDate: payment.paid_date,
-          billId: payment.bill_id
-        })),
+async function fetchBudgets(householdId: string, budgetId?: string): Promise<BudgetRow[]> {
+  const result = await query(`
+    SELECT b.id, b.category_id as "categoryId", ec.name as "categoryName", b.member_id as "memberId",
+           m.name as "memberName", b.amount_cents as "amountCents", b.rollover, b.start_month as "startMonth",
+           COALESCE((SELECT json_agg(json_build_object('month', a.month, 'amountCents', a.amount_cents) ORDER BY a.month)
+                     FROM budget_month_amounts a WHERE a.budget_id = b.id), '[]') as "monthAmounts",
+           b.created_at as "createdAt", b.updated_at as "updatedAt"
+    FROM budgets b
+    LEFT JOIN expense_categories ec ON b.category_id = ec.id
+    LEFT JOIN members m ON b.member_id = m.id
+    WHERE b.household_id = $1 AND ($2::text IS NULL OR b.id = $2)
+    ORDER BY ec.name ASC NULLS LAST, m.name ASC NULLS FIRST
+  `, [householdId, budgetId ?? null])
+  return result.rows
+}
 
-        // Calculated summary
-        summary: {
-          totalPayments,
-          paidPayments,
-          totalPaidCents,
-          remainingBalanceCents,
-          nextDueDate: nextUnpaidPayment?.due_date,
-          paymentsRemaining,
-          progressPercent,
-          isOverdue,
-          nextPaymentAmount: nextUnpaidPayment?.amount_cents
-        }
-      });
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+function getBudgetError({ categoryId, memberId, amountCents, startMonth, rollover, monthAmounts }: Partial<BudgetDefinition>): string | null {
+  if (!categoryId && !memberId) {
+    return 'A budget needs a category, a member or both'
+  }
+  if (!Number.isInteger(amountCents) || amountCents < 0) {
+    return 'amountCents must be a whole number of cents'
+  }
+  if (startMonth !== undefined && !MONTH_PATTERN.test(startMonth)) {
+    return 'startMonth must be YYYY-MM'
+  }
+  if (rollover !== undefined && typeof rollover !== 'boolean') {
+    return 'rollover must be true or false'
+  }
+  if (monthAmounts !== undefined) {
+    if (!Array.isArray(monthAmounts) || monthAmounts.some(a => !a || !MONTH_PATTERN.test(a.month) || !Number.isInteger(a.amountCents) || a.amountCents < 0)) {
+      return 'monthAmounts must be a list of { month: YYYY-MM, amountCents }'
+    }
+    if (new Set(monthAmounts.map(a => a.month)).size !== monthAmounts.length) {
+      return 'monthAmounts lists a month more than once'
     }
+  }
+  return null
+}
+
+// Checks the budget's category and member belong to the household (or the category is built in)
+async function getBudgetReferenceError(householdId: string, { categoryId, memberId }: Partial<BudgetDefinition>): Promise<string | null> {
+  if (categoryId) {
+    const category = await query(
+      'SELECT id FROM expense_categories WHERE id = $1 AND (household_id = $2 OR household_id IS NULL)',
+      [categoryId, householdId]
+    )
+    if (category.rows.length === 0) return 'Category not found'
+  }
+  if (memberId && (await findForeignMemberIds(pool, householdId, [memberId])).length > 0) {
+    return FOREIGN_MEMBER_ERROR.error
+  }
+  return null
+}
+
+async function replaceBudgetMonthAmounts(client: PoolClient, budgetId: string, monthAmounts: BudgetMonthAmount[]) {
+  await client.query('DELETE FROM budget_month_amounts WHERE budget_id = $1', [budgetId])
+  for (const { month, amountCents } of monthAmounts) {
+    await client.query(
+      'INSERT INTO budget_month_amounts (budget_id, month, amount_cents) VALUES ($1, $2, $3)',
+      [budgetId, month, amountCents]
+    )
+  }
+}
+
+app.get('/api/budgets', async (req, res) => {
+  try {
+    res.json(await fetchBudgets(req.auth!.householdId))
   } catch (error) {
-    console.error('Financed expense complete fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch complete financed expense data' });
+    console.error('Budgets fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch budgets' })
   }
-});
+})
 
-app.get('/api/financed-expenses/:id/payments', async (req, res) => {
+// Budget against actual for ?month=YYYY-MM (the current month by default), for every budget that has started
+app.get('/api/budgets/status', async (req, res) => {
   try {
-    const { id } = req.params;
+    const month = req.query.month === undefined ? formatPeriod(new Date()) : String(req.query.month)
+    if (!MONTH_PATTERN.test(month)) {
+      return res.status(400).json({ error: 'month must be YYYY-MM' })
+    }
 
-    // Verify expense exists
-    const expenseCheck = await query(
-      'SELECT id FROM financed_expenses WHERE id = $1',
-      [id]
-    );
+    const budgets = (await fetchBudgets(req.auth!.householdId)).filter(budget => budget.startMonth <= month)
+    const months = [...new Set(budgets.flatMap(budget => getBudgetMonthsNeeded(budget, month)))]
+    const spendingByMonth = new Map<string, SpendingShare[]>()
+    for (const spendingMonth of months) {
+      const rows = await loadSpendingSummary(
+        req.auth!.householdId,
+        `${spendingMonth}-01`,
+        getRecurringDueDate(spendingMonth, 31)
+      )
+      spendingByMonth.set(spendingMonth, rows.map(row => ({
+        memberId: row.memberId,
+        categoryId: row.categoryId,
+        totalCents: Number(row.totalCents)
+      })))
+    }
 
-    if (expenseCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Financed expense not found' });
+    const statuses = budgets.map(budget => ({
+      categoryId: budget.categoryId,
+      categoryName: budget.categoryName,
+      memberId: budget.memberId,
+      memberName: budget.memberName,
+      rollover: budget.rollover,
+      ...computeBudgetStatus(budget, month, spendingByMonth)
+    }))
+    res.json({
+      month,
+      budgets: statuses,
+      overBudgetCount: statuses.filter(status => status.status === 'over').length
+    })
+  } catch (error) {
+    console.error('Budget status error:', error)
+    res.status(500).json({ error: 'Failed to compute budget status' })
+  }
+})
+
+app.post('/api/budgets', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    const { categoryId, memberId, amountCents, startMonth, rollover = false, monthAmounts = [] } = req.body || {}
+    const budgetError = getBudgetError(req.body || {}) ?? await getBudgetReferenceError(req.auth!.householdId, req.body)
+    if (budgetError) {
+      return res.status(400).json({ error: budgetError })
     }
 
-    // Get all payments for this expense
-    const paymentsResult = await query(`
-      SELECT
-        id, payment_number, due_date, amount_cents,
-        principal_cents, interest_cents, is_paid,
-        paid_date, bill_id, created_at
-      FROM financed_expense_payments
-      WHERE financed_expense_id = $1
-      ORDER BY payment_number ASC
-    `, [id]);
+    await client.query('BEGIN')
+    const inserted = await client.query(`
+      INSERT INTO budgets (household_id, category_id, member_id, amount_cents, rollover, start_month)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, [req.auth!.householdId, categoryId || null, memberId || null, amountCents, rollover, startMonth || formatPeriod(new Date())])
+    await replaceBudgetMonthAmounts(client, inserted.rows[0].id, monthAmounts)
+    await client.query('COMMIT')
 
-    const payments = paymentsResult.rows.map(payment => ({
-      id: payment.id,
-      financedExpenseId: id,
-      paymentNumber: payment.payment_number,
-      dueDate: payment.due_date,
-      amountCents: payment.amount_cents,
-      principalCents: payment.principal_cents,
-      interestCents: payment.interest_cents,
-      isPaid: payment.is_paid,
-      paidDate: payment.paid_date,
-      billId: payment.bill_id,
-      createdAt: payment.created_at
-    }));
+    const [budget] = await fetchBudgets(req.auth!.householdId, inserted.rows[0].id)
+    res.status(201).json(budget)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Budget create error:', error)
+    res.status(500).json({ error: 'Failed to create budget' })
+  } finally {
+    client.release()
+  }
+})
 
-    res.json(payments);
+app.put('/api/budgets/:id', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    const { categoryId, memberId, amountCents, startMonth, rollover = false, monthAmounts = [] } = req.body || {}
+    const budgetError = getBudgetError(req.body || {}) ?? await getBudgetReferenceError(req.auth!.householdId, req.body)
+    if (budgetError) {
+      return res.status(400).json({ error: budgetError })
+    }
+
+    await client.query('BEGIN')
+    const updated = await client.query(`
+      UPDATE budgets SET category_id = $3, member_id = $4, amount_cents = $5, rollover = $6,
+        start_month = COALESCE($7, start_month), updated_at = NOW()
+      WHERE id = $1 AND household_id = $2
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, categoryId || null, memberId || null, amountCents, rollover, startMonth || null])
+    if (updated.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Budget not found' })
+    }
+    await replaceBudgetMonthAmounts(client, req.params.id, monthAmounts)
+    await client.query('COMMIT')
+
+    const [budget] = await fetchBudgets(req.auth!.householdId, req.params.id)
+    res.json(budget)
   } catch (error) {
-    console.error('Financed expense payments fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch financed expense payments' });
+    await client.query('ROLLBACK')
+    console.error('Budget update error:', error)
+    res.status(500).json({ error: 'Failed to update budget' })
+  } finally {
+    client.release()
   }
-});
+})
 
-app.post('/api/financed-expenses/:id/payments/:paymentId/mark-paid', async (req, res) => {
+app.delete('/api/budgets/:id', requireRole('manager'), async (req, res) => {
   try {
-    const { id, paymentId } = req.params;
-    const { paidDate, createBill = false } = req.body;
+    const result = await query('DELETE FROM budgets WHERE id = $1 AND household_id = $2', [req.params.id, req.auth!.householdId])
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Budget not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Budget delete error:', error)
+    res.status(500).json({ error: 'Failed to delete budget' })
+  }
+})
 
-    // Validation
-    if (!paidDate) {
-      return res.status(400).json({ error: 'Paid date is required' });
+// Reports API
+// Year-end tax summary (see utils/taxSummary.ts). ?year= defaults to the current year; ?format=csv
+// downloads the same figures as a spreadsheet.
+async function loadTaxSummary(householdId: string, year: number): Promise<TaxSummary> {
+  const params = [householdId, `${year}-01-01`, `${year + 1}-01-01`]
+  const people: Person[] = (await query(
+    'SELECT id, name, color FROM members WHERE household_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC',
+    [householdId]
+  )).rows
+
+  const mortgageResult = await query(`
+    SELECT m.id, m.name, m.lender, m.split_mode as "splitMode", m.scheduled_payment_cents as "scheduledPaymentCents",
+           ${SPLITS_JSON('mortgage_splits', 'mortgage_id', 'm.id')},
+           COUNT(mp.id)::int as "paymentCount", COALESCE(SUM(mp.amount_cents), 0)::int as "paidCents",
+           COALESCE(SUM(bd.principal_cents), 0)::int as "principalCents",
+           COALESCE(SUM(bd.interest_cents), 0)::int as "interestCents",
+           COALESCE(SUM(bd.escrow_cents), 0)::int as "escrowCents"
+    FROM mortgages m
+    LEFT JOIN mortgage_payments mp ON mp.mortgage_id = m.id AND mp.paid_date >= $2 AND mp.paid_date < $3 AND mp.deleted_at IS NULL
+    LEFT JOIN mortgage_payment_breakdowns bd ON bd.payment_id = mp.id
+    WHERE m.household_id = $1 AND m.deleted_at IS NULL
+    GROUP BY m.id
+    ORDER BY m.is_primary DESC, m.name ASC
+  `, params)
+  const disbursementResult = await query(`
+    SELECT d.mortgage_id as "mortgageId", d.category, SUM(d.amount_cents)::int as "amountCents"
+    FROM escrow_disbursements d
+    JOIN mortgages m ON d.mortgage_id = m.id
+    WHERE m.household_id = $1 AND m.deleted_at IS NULL AND d.disbursed_date >= $2 AND d.disbursed_date < $3
+    GROUP BY d.mortgage_id, d.category
+  `, params)
+  const financedResult = await query(`
+    SELECT fe.id, fe.title, COALESCE(ec.name, 'Uncategorized') as "categoryName", fe.split_mode as "splitMode",
+           ${SPLITS_JSON('financed_expense_splits', 'financed_expense_id', 'fe.id')},
+           COUNT(p.id)::int as "paymentCount", SUM(p.principal_cents)::int as "principalCents",
+           SUM(p.interest_cents)::int as "interestCents"
+    FROM financed_expenses fe
+    JOIN financed_expense_payments p ON p.financed_expense_id = fe.id
+    LEFT JOIN expense_categories ec ON fe.category_id = ec.id
+    WHERE fe.household_id = $1 AND fe.deleted_at IS NULL AND p.is_paid = true AND p.paid_date >= $2 AND p.paid_date < $3
+    GROUP BY fe.id, ec.name
+    ORDER BY fe.title ASC
+  `, params)
+  const billCategoryResult = await query(`
+    SELECT COALESCE(ec.id, 'cat-uncategorized') as "categoryId", COALESCE(ec.name, 'Uncategorized') as "categoryName",
+           COUNT(p.id)::int as "paymentCount", SUM(p.amount_cents)::int as "paidCents"
+    FROM payments p
+    JOIN bills b ON p.bill_id = b.id
+    LEFT JOIN expense_categories ec ON b.category_id = ec.id
+    WHERE b.household_id = $1 AND b.deleted_at IS NULL AND p.deleted_at IS NULL AND p.paid_date >= $2 AND p.paid_date < $3
+    GROUP BY ec.id, ec.name
+    ORDER BY "categoryName" ASC
+  `, params)
+
+  const members = new Map<string, TaxSummaryMember>(people.map(person => [person.id, {
+    memberId: person.id,
+    memberName: person.name,
+    mortgageInterestCents: 0,
+    propertyTaxCents: 0,
+    mortgageInsuranceCents: 0,
+    financedInterestCents: 0
+  }]))
+  const addShares = (amountCents: number, splittable: Splittable, field: keyof Omit<TaxSummaryMember, 'memberId' | 'memberName'>) => {
+    for (const share of getPaymentShares(amountCents, splittable, people)) {
+      const member = members.get(share.personId)
+      if (member) member[field] += share.amountCents
     }
+  }
 
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+  const mortgages: TaxSummaryMortgage[] = []
+  for (const row of mortgageResult.rows) {
+    const escrowDisbursementCents = Object.fromEntries(ESCROW_CATEGORIES.map(category => [
+      category,
+      disbursementResult.rows.find(d => d.mortgageId === row.id && d.category === category)?.amountCents ?? 0
+    ])) as TaxSummaryMortgage['escrowDisbursementCents']
+    if (row.paymentCount === 0 && Object.values(escrowDisbursementCents).every(cents => cents === 0)) continue
+
+    const splittable: Splittable = { amount: row.scheduledPaymentCents / 100, splitMode: row.splitMode, splits: row.splits }
+    addShares(row.interestCents, splittable, 'mortgageInterestCents')
+    addShares(escrowDisbursementCents.taxes, splittable, 'propertyTaxCents')
+    addShares(escrowDisbursementCents.mip, splittable, 'mortgageInsuranceCents')
+    mortgages.push({
+      mortgageId: row.id,
+      name: row.name,
+      lender: row.lender,
+      paymentCount: row.paymentCount,
+      paidCents: row.paidCents,
+      principalCents: row.principalCents,
+      interestCents: row.interestCents,
+      escrowCents: row.escrowCents,
+      escrowDisbursementCents
+    })
+  }
 
-      // Verify payment exists and belongs to the expense
-      const paymentResult = await client.query(`
-        SELECT p.*, fe.title, fe.split_mode
-        FROM financed_expense_payments p
-        JOIN financed_expenses fe ON p.financed_expense_id = fe.id
-        WHERE p.id = $1 AND p.financed_expense_id = $2
-      `, [paymentId, id]);
+  const financedExpenses: TaxSummaryFinancedExpense[] = financedResult.rows.map(row => {
+    // Amount splits are of the whole purchase, so its interest is shared in the same proportions
+    const splitMode = row.splitMode === 'amount' ? 'shares' : row.splitMode
+    addShares(row.interestCents, { amount: row.interestCents / 100, splitMode, splits: row.splits }, 'financedInterestCents')
+    return {
+      financedExpenseId: row.id,
+      title: row.title,
+      categoryName: row.categoryName,
+      paymentCount: row.paymentCount,
+      principalCents: row.principalCents,
+      interestCents: row.interestCents
+    }
+  })
+
+  const billCategories: TaxSummaryBillCategory[] = billCategoryResult.rows
+  return {
+    year,
+    mortgages,
+    financedExpenses,
+    members: [...members.values()],
+    billCategories,
+    totals: sumTaxSummaryTotals(mortgages, financedExpenses, billCategories)
+  }
+}
 
-      if (paymentResult.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return res.status(404).json({ error: 'Payment not found' });
-      }
+app.get('/api/reports/tax-summary', async (req, res) => {
+  try {
+    const year = req.query.year === undefined ? new Date().getFullYear() : Number(req.query.year)
+    if (!Number.isInteger(year) || year < 1900 || year > 9999) {
+      return res.status(400).json({ error: 'year must be a four-digit year' })
+    }
+    if (req.query.format !== undefined && req.query.format !== 'csv' && req.query.format !== 'json') {
+      return res.status(400).json({ error: "format must be 'csv' or 'json'" })
+    }
 
-      const payment = paymentResult.rows[0];
+    const summary = await loadTaxSummary(req.auth!.householdId, year)
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Disposition', `attachment; filename="tax-summary-${year}.csv"`)
+      res.type('text/csv; charset=utf-8')
+      return res.send(buildTaxSummaryCsv(summary))
+    }
+    res.json(summary)
+  } catch (error) {
+    console.error('Tax summary error:', error)
+    res.status(500).json({ error: 'Failed to build tax summary' })
+  }
+})
 
-      if (payment.is_paid) {
-        await client.query('ROLLBACK');
-        return res.status(400).json({ error: 'Payment is already marked as paid' });
-      }
+// Settings API
+// Members' notification preferences hold their email address, so they are only read through
+// /api/notification-preferences
+app.get('/api/settings', async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT key, value FROM settings WHERE household_id = $1 AND key NOT LIKE $2 || '%'`,
+      [req.auth!.householdId, NOTIFICATION_SETTING_PREFIX]
+    )
+    const settingsObj = result.rows.reduce((acc, row) => {
+      acc[row.key] = row.value
+      return acc
+    }, {} as Record<string, string>)
+    res.json(settingsObj)
+  } catch (error) {
+    console.error('Settings fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch settings' })
+  }
+})
 
-      // Mark payment as paid
-      const updatedPaymentResult = await client.query(`
-        UPDATE financed_expense_payments
-        SET is_paid = true, paid_date = $2
-        WHERE id = $1
-        RETURNING id, payment_number, due_date, amount_cents,
-                 principal_cents, interest_cents, is_paid,
-                 paid_date, bill_id
-      `, [paymentId, paidDate]);
+app.put('/api/settings/:key', requireRole('manager'), async (req, res) => {
+  try {
+    const { value } = req.body
+    const result = await query(`
+      INSERT INTO settings (household_id, key, value)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (household_id, key) DO UPDATE SET
+        value = EXCLUDED.value,
+        updated_at = NOW()
+      RETURNING key, value, created_at as "createdAt", updated_at as "updatedAt"
+    `, [req.auth!.householdId, req.params.key, value])
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Settings update error:', error)
+    res.status(500).json({ error: 'Failed to update setting' })
+  }
+})
 
-      const updatedPayment = updatedPaymentResult.rows[0];
+app.put('/api/settings', requireRole('manager'), async (req, res) => {
+  try {
+    const settings = req.body
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
 
-      // Optionally create a corresponding bill
-      let billId = null;
-      if (createBill) {
-        // Get expense splits to create bill splits
-        const splitsResult = await client.query(`
-          SELECT member_id, value
-          FROM financed_expense_splits
-          WHERE financed_expense_id = $1
-        `, [id]);
+      const results = {}
+      for (const [key, value] of Object.entries(settings)) {
+        const result = await client.query(`
+          INSERT INTO settings (household_id, key, value)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (household_id, key) DO UPDATE SET
+            value = EXCLUDED.value,
+            updated_at = NOW()
+          RETURNING key, value
+        `, [req.auth!.householdId, key, value])
+        results[key] = result.rows[0].value
+      }
 
-        // Create bill
-        const billResult = await client.query(`
-          INSERT INTO bills (name, amount_cents, due_date, split_mode)
-          VALUES ($1, $2, $3, $4)
-          RETURNING id
-        `, [
-          `${payment.title} - Payment #${payment.payment_number}`,
-          payment.amount_cents,
-          payment.due_date,
-          payment.split_mode
-        ]);
+      await client.query('COMMIT')
+      res.json(results)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Bulk settings update error:', error)
+    res.status(500).json({ error: 'Failed to update settings' })
+  }
+})
 
-        billId = billResult.rows[0].id;
+// Backup API
+// Exports everything the current household owns as one versioned JSON archive (see db/backup.ts)
+app.get('/api/export', requireRole('manager'), async (req, res) => {
+  try {
+    const client = await pool.connect()
+    try {
+      // One snapshot for every table, so rows written mid-export cannot appear half-related
+      await client.query('BEGIN TRANSACTION ISOLATION LEVEL REPEATABLE READ READ ONLY')
+      const archive = await exportHousehold(client, req.auth!.householdId)
+      await client.query('COMMIT')
 
-        // Create bill splits
-        for (const split of splitsResult.rows) {
-          await client.query(`
-            INSERT INTO bill_splits (bill_id, member_id, value)
-            VALUES ($1, $2, $3)
-          `, [billId, split.member_id, split.value]);
-        }
+      const filename = `household-backup-${archive.exportedAt.slice(0, 10)}.json`
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+      res.json(archive)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error) {
+    console.error('Export error:', error)
+    res.status(500).json({ error: 'Failed to export household' })
+  }
+})
 
-        // Link payment to bill
-        await client.query(
-          'UPDATE financed_expense_payments SET bill_id = $1 WHERE id = $2',
-          [billId, paymentId]
-        );
-      }
+// Restores an archive into the current household in a single transaction.
+// ?dryRun=true runs the whole restore and rolls it back, returning the report and any conflicts by id.
+// ?onConflict=skip keeps existing rows (and everything under them); the default refuses to restore over them.
+app.post('/api/import', requireRole('manager'), async (req, res) => {
+  try {
+    const dryRun = req.query.dryRun === 'true'
+    const onConflict = (req.query.onConflict as string | undefined) ?? 'abort'
+    if (onConflict !== 'abort' && onConflict !== 'skip') {
+      return res.status(400).json({ error: 'onConflict must be abort or skip' })
+    }
 
-      // Check if this was the final payment and update expense status
-      const remainingPaymentsResult = await client.query(
-        'SELECT COUNT(*) as count FROM financed_expense_payments WHERE financed_expense_id = $1 AND is_paid = false',
-        [id]
-      );
+    const archiveError = getBackupArchiveError(req.body)
+    if (archiveError) {
+      return res.status(400).json({ error: archiveError })
+    }
 
-      const remainingPayments = parseInt(remainingPaymentsResult.rows[0].count);
-      if (remainingPayments === 0) {
-        await client.query(
-          'UPDATE financed_expenses SET is_active = false WHERE id = $1',
-          [id]
-        );
-      }
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+      const report = await importHousehold(client, req.auth!.householdId, req.body, { dryRun, onConflict })
 
-      await client.query('COMMIT');
+      if (dryRun || report.conflicts.length > 0 && onConflict === 'abort') {
+        await client.query('ROLLBACK')
+      } else {
+        await client.query('COMMIT')
+      }
 
-      res.json({
-        id: updatedPayment.id,
-        paymentNumber: updatedPayment.payment_number,
-        dueDate: updatedPayment.due_date,
-        amountCents: updatedPayment.amount_cents,
-        principalCents: updatedPayment.principal_cents,
-        interestCents: updatedPayment.interest_cents,
-        isPaid: updatedPayment.is_paid,
-        paidDate: updatedPayment.paid_date,
-        billId: billId || updatedPayment.bill_id,
-        ...(billId && { createdBillId: billId })
-      });
+      if (!dryRun && report.conflicts.length > 0 && onConflict === 'abort') {
+        return res.status(409).json({ error: 'Backup conflicts with existing data', ...report })
+      }
+      res.json(report)
     } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
+      await client.query('ROLLBACK')
+      throw error
     } finally {
-      client.release();
+      client.release()
     }
   } catch (error) {
-    console.error('Mark payment as paid error:', error);
-    res.status(500).json({ error: 'Failed to mark payment as paid' });
+    // Invalid rows surface as constraint or data errors (23xxx/22xxx); nothing was written
+    if (error instanceof BackupImportError || /^2[23]/.test(error.code ?? '')) {
+      return res.status(400).json({ error: `Backup could not be restored: ${error.detail || error.message}` })
+    }
+    console.error('Import error:', error)
+    res.status(500).json({ error: 'Failed to import backup' })
   }
-});
+})
 
-app.post('/api/financed-expenses/:id/payments/:paymentId/unmark-paid', async (req, res) => {
+// Calendar Feeds API
+// Anyone can subscribe to their own share of the household's due dates; managers can also create
+// household-wide feeds and feeds for other members. Non-managers only see and revoke their own feeds.
+const CALENDAR_FEED_SELECT = `
+  SELECT f.id, f.member_id as "memberId", m.name as "memberName",
+         f.last_accessed_at as "lastAccessedAt", f.created_at as "createdAt"
+  FROM calendar_feeds f
+  LEFT JOIN members m ON m.id = f.member_id
+`
+
+app.get('/api/calendar-feeds', async (req, res) => {
   try {
-    const { id, paymentId } = req.params;
+    const isManager = req.auth!.role === 'manager'
+    const result = await query(`
+      ${CALENDAR_FEED_SELECT}
+      WHERE f.household_id = $1 AND ($2::boolean OR f.member_id = $3)
+      ORDER BY f.created_at ASC
+    `, [req.auth!.householdId, isManager, req.auth!.memberId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Calendar feeds fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch calendar feeds' })
+  }
+})
 
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+app.post('/api/calendar-feeds', async (req, res) => {
+  try {
+    const memberId = req.body?.memberId || null
+    if (req.auth!.role !== 'manager' && memberId !== req.auth!.memberId) {
+      return res.status(403).json({ error: 'You can only create a calendar feed for yourself' })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(400).json({ error: 'Member must belong to this household' })
+    }
 
-      // Verify payment exists and belongs to the expense
-      const paymentResult = await client.query(`
-        SELECT p.*, fe.title
-        FROM financed_expense_payments p
-        JOIN financed_expenses fe ON p.financed_expense_id = fe.id
-        WHERE p.id = $1 AND p.financed_expense_id = $2
-      `, [paymentId, id]);
+    const token = randomBytes(24).toString('hex')
+    const result = await query(`
+      INSERT INTO calendar_feeds (household_id, member_id, token_hash, created_by_account_id)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id
+    `, [req.auth!.householdId, memberId, hashToken(token), req.auth!.accountId])
+
+    const feed = await query(`${CALENDAR_FEED_SELECT} WHERE f.id = $1`, [result.rows[0].id])
+    // The raw token is only returned here; the database keeps its hash
+    res.json({ ...feed.rows[0], token, path: `/api/calendar/${token}.ics` })
+  } catch (error) {
+    console.error('Calendar feed creation error:', error)
+    res.status(500).json({ error: 'Failed to create calendar feed' })
+  }
+})
 
-      if (paymentResult.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return res.status(404).json({ error: 'Payment not found' });
-      }
+app.delete('/api/calendar-feeds/:id', async (req, res) => {
+  try {
+    const isManager = req.auth!.role === 'manager'
+    const result = await query(`
+      DELETE FROM calendar_feeds
+      WHERE id = $1 AND household_id = $2 AND ($3::boolean OR member_id = $4)
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, isManager, req.auth!.memberId])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Calendar feed not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Calendar feed deletion error:', error)
+    res.status(500).json({ error: 'Failed to delete calendar feed' })
+  }
+})
 
-      const payment = paymentResult.rows[0];
+// Notifications API
+// Members who owe a share of an item get a reminder `reminderDaysBefore` days before it is due and a
+// notice once it is overdue, through the channels they chose (see notifications/channels.ts).
+// Preferences are stored in the household's settings under 'notifications:<memberId>'. Sent notices
+// are logged, so however often the job runs each one goes out once per member and channel.
+const NOTIFICATION_SETTING_PREFIX = 'notifications:'
+
+type NotificationKind = 'reminder' | 'overdue'
+
+interface PendingNotification {
+  recipient: NotificationRecipient
+  channel: string
+  kind: NotificationKind
+  item: DueItem
+  share: number
+  daysUntilDue: number
+}
 
-      if (!payment.is_paid) {
-        await client.query('ROLLBACK');
-        return res.status(400).json({ error: 'Payment is already unpaid' });
+// Whole days from today to a 'YYYY-MM-DD' date, ignoring time zones and daylight saving changes
+function daysFromToday(date: string, today = new Date()): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())) / (24 * 60 * 60 * 1000))
+}
+
+async function loadNotificationRecipients(householdId: string): Promise<NotificationRecipient[]> {
+  const result = await query(`
+    SELECT m.id, m.name, s.value
+    FROM members m
+    LEFT JOIN settings s ON s.household_id = m.household_id AND s.key = $2 || m.id
+    WHERE m.household_id = $1 AND m.deleted_at IS NULL
+    ORDER BY m.created_at ASC
+  `, [householdId, NOTIFICATION_SETTING_PREFIX])
+  return result.rows.map(row => ({ memberId: row.id, name: row.name, preferences: parseNotificationPreferences(row.value) }))
+}
+
+// Lists the notices that are due now and have not been sent yet
+async function findPendingNotifications(householdId: string): Promise<PendingNotification[]> {
+  const recipients = (await loadNotificationRecipients(householdId)).filter(recipient => recipient.preferences.enabled)
+  if (recipients.length === 0) return []
+
+  const today = new Date()
+  const maxDaysBefore = Math.max(...recipients.map(recipient => recipient.preferences.reminderDaysBefore))
+  const throughPeriod = formatPeriod(new Date(today.getFullYear(), today.getMonth(), today.getDate() + maxDaysBefore))
+  const { items } = await loadDueItems(householdId, throughPeriod)
+
+  const sentResult = await query(`
+    SELECT member_id, channel, kind, item_key, to_char(due_date, 'YYYY-MM-DD') as due_date
+    FROM notification_log
+    WHERE household_id = $1 AND item_key = ANY($2)
+  `, [householdId, items.map(item => item.key)])
+  const sent = new Set(sentResult.rows.map(row => [row.member_id, row.channel, row.kind, row.item_key, row.due_date].join('|')))
+
+  const pending: PendingNotification[] = []
+  for (const recipient of recipients) {
+    const { preferences } = recipient
+    for (const item of items) {
+      const share = item.splits.find(split => split.personId === recipient.memberId)?.amount ?? 0
+      if (share <= 0) continue
+
+      const daysUntilDue = daysFromToday(item.dueDate, today)
+      let kind: NotificationKind | null = null
+      if (item.isOverdue) {
+        kind = preferences.notifyOverdue ? 'overdue' : null
+      } else if (daysUntilDue >= 0 && daysUntilDue <= preferences.reminderDaysBefore) {
+        kind = 'reminder'
       }
+      if (!kind) continue
 
-      // Unmark payment as paid and remove bill link
-      const updatedPaymentResult = await client.query(`
-        UPDATE financed_expense_payments
-        SET is_paid = false, paid_date = NULL, bill_id = NULL
-        WHERE id = $1
-        RETURNING id, payment_number, due_date, amount_cents,
-                 principal_cents, interest_cents, is_paid,
-                 paid_date, bill_id
-      `, [paymentId]);
+      for (const channelName of preferences.channels) {
+        const channel = getNotificationChannel(channelName)
+        if (!channel || !channel.canDeliverTo(recipient)) continue
+        if (sent.has([recipient.memberId, channelName, kind, item.key, item.dueDate].join('|'))) continue
+        pending.push({ recipient, channel: channelName, kind, item, share, daysUntilDue })
+      }
+    }
+  }
+  return pending
+}
 
-      const updatedPayment = updatedPaymentResult.rows[0];
+function buildReminderMessage(householdName: string, recipient: NotificationRecipient, notifications: PendingNotification[]): NotificationMessage {
+  const describe = ({ item, share, daysUntilDue }: PendingNotification) => {
+    const when = item.isOverdue
+      ? `was due ${item.dueDate}`
+      : `is due ${item.dueDate} (${daysUntilDue === 0 ? 'today' : daysUntilDue === 1 ? 'tomorrow' : `in ${daysUntilDue} days`})`
+    return `- ${item.name}: your share $${share.toFixed(2)} of $${item.amount.toFixed(2)} ${when}`
+  }
+  const overdue = notifications.filter(notification => notification.kind === 'overdue')
+  const upcoming = notifications.filter(notification => notification.kind === 'reminder')
+
+  const lines = [`Hi ${recipient.name},`, '']
+  if (overdue.length > 0) lines.push('Overdue:', ...overdue.map(describe), '')
+  if (upcoming.length > 0) lines.push('Coming up:', ...upcoming.map(describe), '')
+  lines.push(`Record payments in Family Growth Tracker to stop these reminders for ${householdName}.`)
+
+  const [first] = [...overdue, ...upcoming]
+  const more = notifications.length > 1 ? ` and ${notifications.length - 1} more` : ''
+  return {
+    subject: `${overdue.length > 0 ? 'Overdue' : 'Coming up'}: ${first.item.name}${more}`,
+    text: lines.join('\n')
+  }
+}
 
-      // If this payment was previously linked to a bill, we removed that link
-      // The bill itself remains (might have other payments associated)
-      // but this payment is no longer connected to it
+// Sends one message per member and channel covering all of their pending notices. A failed send is
+// not logged, so it is retried on the next run.
+async function sendDueNotifications(householdId: string, householdName: string, { dryRun = false } = {}) {
+  const pending = await findPendingNotifications(householdId)
+  const groups = new Map<string, PendingNotification[]>()
+  for (const notification of pending) {
+    const key = `${notification.recipient.memberId}|${notification.channel}`
+    groups.set(key, [...(groups.get(key) ?? []), notification])
+  }
 
-      // Since we unmarked a payment, ensure the expense is marked as active
-      await client.query(
-        'UPDATE financed_expenses SET is_active = true WHERE id = $1',
-        [id]
-      );
+  const results = []
+  for (const notifications of groups.values()) {
+    const { recipient, channel } = notifications[0]
+    let status: 'pending' | 'sent' | 'failed' = 'pending'
+    if (!dryRun) {
+      try {
+        await getNotificationChannel(channel)!.send(recipient, buildReminderMessage(householdName, recipient, notifications))
+        for (const { kind, item } of notifications) {
+          await query(`
+            INSERT INTO notification_log (household_id, member_id, channel, kind, item_key, due_date)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            ON CONFLICT (member_id, channel, kind, item_key, due_date) DO NOTHING
+          `, [householdId, recipient.memberId, channel, kind, item.key, item.dueDate])
+        }
+        status = 'sent'
+      } catch (error) {
+        console.error(`Notification to ${recipient.memberId} via ${channel} failed:`, error)
+        status = 'failed'
+      }
+    }
+    results.push(...notifications.map(({ kind, item, share }) => ({
+      memberId: recipient.memberId,
+      memberName: recipient.name,
+      channel,
+      kind,
+      itemType: item.type,
+      itemId: item.id,
+      itemName: item.name,
+      dueDate: item.dueDate,
+      shareCents: Math.round(share * 100),
+      status
+    })))
+  }
+  return results
+}
 
-      await client.query('COMMIT');
+app.get('/api/notification-preferences', async (req, res) => {
+  try {
+    const recipients = await loadNotificationRecipients(req.auth!.householdId)
+    const visible = req.auth!.role === 'manager' ? recipients : recipients.filter(recipient => recipient.memberId === req.auth!.memberId)
+    res.json({
+      availableChannels: getNotificationChannelNames(),
+      members: visible.map(({ memberId, name, preferences }) => ({ memberId, memberName: name, preferences }))
+    })
+  } catch (error) {
+    console.error('Notification preferences fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch notification preferences' })
+  }
+})
 
-      res.json({
-        id: updatedPayment.id,
-        paymentNumber: updatedPayment.payment_number,
-        dueDate: updatedPayment.due_date,
-        amountCents: updatedPayment.amount_cents,
-        principalCents: updatedPayment.principal_cents,
-        interestCents: updatedPayment.interest_cents,
-        isPaid: updatedPayment.is_paid,
-        paidDate: updatedPayment.paid_date,
-        billId: updatedPayment.bill_id
-      });
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+app.put('/api/notification-preferences/:memberId', async (req, res) => {
+  try {
+    const { memberId } = req.params
+    if (req.auth!.role !== 'manager' && memberId !== req.auth!.memberId) {
+      return res.status(403).json({ error: 'You can only change your own notifications' })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(404).json({ error: 'Member not found' })
+    }
+
+    const { enabled, channels, email, reminderDaysBefore, notifyOverdue } = req.body || {}
+    if (!Number.isInteger(reminderDaysBefore) || reminderDaysBefore < 0 || reminderDaysBefore > MAX_REMINDER_DAYS_BEFORE) {
+      return res.status(400).json({ error: `reminderDaysBefore must be a whole number from 0 to ${MAX_REMINDER_DAYS_BEFORE}` })
+    }
+    if (!Array.isArray(channels) || channels.some(channel => typeof channel !== 'string')) {
+      return res.status(400).json({ error: 'channels must be a list of channel names' })
     }
+    if (enabled && channels.includes('email') && !/^[^\s@]+@[^\s@]+$/.test(email || '')) {
+      return res.status(400).json({ error: 'A valid email address is required for email notifications' })
+    }
+
+    const preferences = parseNotificationPreferences(JSON.stringify({ enabled: !!enabled, channels, email, reminderDaysBefore, notifyOverdue: !!notifyOverdue }))
+    await query(`
+      INSERT INTO settings (household_id, key, value)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (household_id, key) DO UPDATE SET
+        value = EXCLUDED.value,
+        updated_at = NOW()
+    `, [req.auth!.householdId, `${NOTIFICATION_SETTING_PREFIX}${memberId}`, JSON.stringify(preferences)])
+    res.json({ memberId, preferences })
   } catch (error) {
-    console.error('Unmark payment as paid error:', error);
-    res.status(500).json({ error: 'Failed to unmark payment as paid' });
+    console.error('Notification preferences update error:', error)
+    res.status(500).json({ error: 'Failed to update notification preferences' })
   }
-});
+})
 
-app.delete('/api/financed-expenses/:id', async (req, res) => {
+// Runs the reminder job for the current household now; with ?dryRun=true it only lists what would be sent
+app.post('/api/notifications/run', requireRole('manager'), async (req, res) => {
   try {
-    const { id } = req.params;
+    const notifications = await sendDueNotifications(req.auth!.householdId, req.auth!.householdName, { dryRun: req.query.dryRun === 'true' })
+    res.json({ notifications })
+  } catch (error) {
+    console.error('Notification run error:', error)
+    res.status(500).json({ error: 'Failed to send notifications' })
+  }
+})
 
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+// Settle-up balances
+// Who paid for what, from bill, mortgage and financed expense payments that have a payer, netted
+// against each member's share (see utils/settleUp.ts). Settlements record money members hand each
+// other to even things out.
+const ALLOCATIONS_JSON = (table: string) => `
+  (SELECT json_agg(json_build_object('personId', a.member_id, 'amountCents', a.amount_cents))
+   FROM ${table} a WHERE a.payment_id = p.id) as allocations
+`
+
+async function loadSettleUp(householdId: string) {
+  const people: Person[] = (await query(
+    'SELECT id, name, color FROM members WHERE household_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC',
+    [householdId]
+  )).rows
+
+  const ledger: LedgerPayment[] = []
+
+  // A bill created for a financed expense installment with a payer would count that installment twice
+  const billPaymentsResult = await query(`
+    SELECT p.payer_member_id as "payerId", p.amount_cents as "amountCents", b.amount_cents as "billAmountCents",
+           b.split_mode as "splitMode", ${SPLITS_JSON('bill_splits', 'bill_id', 'b.id')},
+           ${ALLOCATIONS_JSON('payment_allocations')}
+    FROM payments p
+    JOIN bills b ON p.bill_id = b.id
+    WHERE b.household_id = $1 AND b.deleted_at IS NULL AND p.deleted_at IS NULL AND p.payer_member_id IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM financed_expense_payments fep WHERE fep.bill_id = b.id AND fep.payer_member_id IS NOT NULL
+      )
+  `, [householdId])
+  for (const payment of billPaymentsResult.rows) {
+    ledger.push({
+      payerId: payment.payerId,
+      shares: getPaymentShares(payment.amountCents, { amount: payment.billAmountCents / 100, splitMode: payment.splitMode, splits: payment.splits }, people, payment.allocations)
+    })
+  }
 
-      // Check if the financed expense exists
-      const existsResult = await client.query(
-        'SELECT id FROM financed_expenses WHERE id = $1',
-        [id]
-      );
+  const mortgagePaymentsResult = await query(`
+    SELECT p.payer_member_id as "payerId", p.amount_cents as "amountCents", m.scheduled_payment_cents as "scheduledPaymentCents",
+           m.split_mode as "splitMode", ${SPLITS_JSON('mortgage_splits', 'mortgage_id', 'm.id')},
+           ${ALLOCATIONS_JSON('mortgage_payment_allocations')}
+    FROM mortgage_payments p
+    JOIN mortgages m ON p.mortgage_id = m.id
+    WHERE m.household_id = $1 AND m.deleted_at IS NULL AND p.deleted_at IS NULL AND p.payer_member_id IS NOT NULL
+  `, [householdId])
+  for (const payment of mortgagePaymentsResult.rows) {
+    ledger.push({
+      payerId: payment.payerId,
+      shares: getPaymentShares(payment.amountCents, { amount: payment.scheduledPaymentCents / 100, splitMode: payment.splitMode, splits: payment.splits }, people, payment.allocations)
+    })
+  }
 
-      if (existsResult.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return res.status(404).json({ error: 'Financed expense not found' });
-      }
+  const financedPaymentsResult = await query(`
+    SELECT p.payer_member_id as "payerId", p.amount_cents as "amountCents", fe.split_mode as "splitMode",
+           ${SPLITS_JSON('financed_expense_splits', 'financed_expense_id', 'fe.id')}
+    FROM financed_expense_payments p
+    JOIN financed_expenses fe ON p.financed_expense_id = fe.id
+    WHERE fe.household_id = $1 AND fe.deleted_at IS NULL AND p.is_paid = true AND p.payer_member_id IS NOT NULL
+  `, [householdId])
+  for (const payment of financedPaymentsResult.rows) {
+    // Amount splits are of the whole purchase, so each installment is shared in the same proportions
+    const splitMode = payment.splitMode === 'amount' ? 'shares' : payment.splitMode
+    ledger.push({
+      payerId: payment.payerId,
+      shares: getPaymentShares(payment.amountCents, { amount: payment.amountCents / 100, splitMode, splits: payment.splits }, people)
+    })
+  }
 
-      // Delete the financed expense (CASCADE will handle related records)
-      // This will automatically delete:
-      // - financed_expense_splits (CASCADE DELETE)
-      // - financed_expense_payments (CASCADE DELETE)
-      await client.query('DELETE FROM financed_expenses WHERE id = $1', [id]);
+  const settlementsResult = await query(`
+    SELECT from_member_id as "fromPersonId", to_member_id as "toPersonId", amount_cents as "amountCents"
+    FROM settlements
+    WHERE household_id = $1
+  `, [householdId])
 
-      await client.query('COMMIT');
-      res.json({ success: true });
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+  const balances = computeMemberBalances(people.map(person => person.id), ledger, settlementsResult.rows)
+  return { people, balances, transfers: computeSettleUpTransfers(balances) }
+}
+
+app.get('/api/balances', async (req, res) => {
+  try {
+    const { people, balances, transfers } = await loadSettleUp(req.auth!.householdId)
+    const nameOf = (personId: string) => people.find(person => person.id === personId)?.name ?? ''
+    res.json({
+      balances: balances.map(({ personId, ...balance }) => ({ memberId: personId, memberName: nameOf(personId), ...balance })),
+      transfers: transfers.map(transfer => ({
+        fromMemberId: transfer.fromPersonId,
+        fromMemberName: nameOf(transfer.fromPersonId),
+        toMemberId: transfer.toPersonId,
+        toMemberName: nameOf(transfer.toPersonId),
+        amountCents: transfer.amountCents
+      }))
+    })
   } catch (error) {
-    console.error('Financed expense deletion error:', error);
-    res.status(500).json({ error: 'Failed to delete financed expense' });
+    console.error('Balances fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch balances' })
   }
-});
+})
 
-// Categories API
-app.get('/api/categories', async (req, res) => {
+const SETTLEMENT_COLUMNS = `
+  s.id, s.from_member_id as "fromMemberId", f.name as "fromMemberName", s.to_member_id as "toMemberId",
+  t.name as "toMemberName", s.amount_cents as "amountCents", to_char(s.settled_date, 'YYYY-MM-DD') as "settledDate",
+  s.note, s.created_at as "createdAt"
+`
+
+app.get('/api/settlements', async (req, res) => {
   try {
     const result = await query(`
-      SELECT id, name, icon, color, is_default as "isDefault",
-             created_at as "createdAt", updated_at as "updatedAt"
-      FROM expense_categories
-      ORDER BY is_default DESC, name ASC
-    `)
+      SELECT ${SETTLEMENT_COLUMNS}
+      FROM settlements s
+      JOIN members f ON s.from_member_id = f.id
+      JOIN members t ON s.to_member_id = t.id
+      WHERE s.household_id = $1
+      ORDER BY s.settled_date DESC, s.created_at DESC
+    `, [req.auth!.householdId])
     res.json(result.rows)
   } catch (error) {
-    console.error('Categories fetch error:', error)
-    res.status(500).json({ error: 'Failed to fetch categories' })
+    console.error('Settlements fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch settlements' })
   }
 })
 
-app.post('/api/categories', async (req, res) => {
+// Managers may record any settlement; adults only money they handed over themselves
+app.post('/api/settlements', requireRole('manager', 'adult'), async (req, res) => {
   try {
-    const { name, icon, color } = req.body
+    const { fromMemberId, toMemberId, amountCents, settledDate, note } = req.body || {}
+    if (!fromMemberId || !toMemberId || fromMemberId === toMemberId) {
+      return res.status(400).json({ error: 'A settlement needs two different members' })
+    }
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      return res.status(400).json({ error: 'amountCents must be a positive whole number of cents' })
+    }
+    if (settledDate && !isDateString(settledDate)) {
+      return res.status(400).json({ error: 'settledDate must be YYYY-MM-DD' })
+    }
+    if (!canRecordPaymentFor(req.auth!, fromMemberId)) {
+      return res.status(403).json({ error: 'You can only record settlements you paid yourself' })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [fromMemberId, toMemberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
 
-    // Validate required fields
-    if (!name) {
-      return res.status(400).json({ error: 'Category name is required' })
+    const inserted = await query(`
+      INSERT INTO settlements (household_id, from_member_id, to_member_id, amount_cents, settled_date, note)
+      VALUES ($1, $2, $3, $4, COALESCE($5::date, CURRENT_DATE), $6)
+      RETURNING id
+    `, [req.auth!.householdId, fromMemberId, toMemberId, amountCents, settledDate || null, note || null])
+    const result = await query(`
+      SELECT ${SETTLEMENT_COLUMNS}
+      FROM settlements s
+      JOIN members f ON s.from_member_id = f.id
+      JOIN members t ON s.to_member_id = t.id
+      WHERE s.id = $1
+    `, [inserted.rows[0].id])
+    res.status(201).json(result.rows[0])
+  } catch (error) {
+    console.error('Settlement create error:', error)
+    res.status(500).json({ error: 'Failed to record settlement' })
+  }
+})
+
+app.delete('/api/settlements/:id', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    const result = await query(`
+      DELETE FROM settlements
+      WHERE id = $1 AND household_id = $2 AND ($3::boolean OR from_member_id = $4)
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, req.auth!.role === 'manager', req.auth!.memberId])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Settlement not found' })
     }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Settlement delete error:', error)
+    res.status(500).json({ error: 'Failed to delete settlement' })
+  }
+})
+
+// Income API
+// Income sources are each member's regular pay (a paycheck amount and pay frequency); deposits record
+// what actually arrived, with or without a source. Managers maintain the sources; adults may record
+// their own deposits.
+const INCOME_SOURCE_COLUMNS = `
+  i.id, i.member_id as "memberId", m.name as "memberName", i.name, i.kind, i.amount_cents as "amountCents",
+  i.frequency, i.active, i.created_at as "createdAt", i.updated_at as "updatedAt"
+`
+
+const INCOME_DEPOSIT_COLUMNS = `
+  d.id, d.income_source_id as "incomeSourceId", i.name as "incomeSourceName", d.member_id as "memberId",
+  m.name as "memberName", d.amount_cents as "amountCents", to_char(d.deposited_date, 'YYYY-MM-DD') as "depositedDate",
+  d.note, d.created_at as "createdAt"
+`
+
+// How many deposits GET /api/income-deposits returns by default
+const INCOME_DEPOSITS_LIMIT = 50
+
+interface IncomeSourceInput {
+  memberId?: string
+  name?: string
+  kind?: IncomeKind
+  amountCents?: number
+  frequency?: PayFrequency
+  active?: boolean
+}
+
+function getIncomeSourceError({ memberId, name, kind, amountCents, frequency, active }: IncomeSourceInput): string | null {
+  if (!memberId || typeof name !== 'string' || !name.trim()) {
+    return 'An income source needs a member and a name'
+  }
+  if (kind !== undefined && !INCOME_KINDS.includes(kind)) {
+    return `kind must be one of ${INCOME_KINDS.join(', ')}`
+  }
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    return 'amountCents must be a positive whole number of cents'
+  }
+  if (!frequency || !PAY_FREQUENCIES.includes(frequency)) {
+    return `frequency must be one of ${PAY_FREQUENCIES.join(', ')}`
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    return 'active must be true or false'
+  }
+  return null
+}
 
+async function fetchIncomeSource(householdId: string, id: string) {
+  const result = await query(`
+    SELECT ${INCOME_SOURCE_COLUMNS}
+    FROM income_sources i
+    JOIN members m ON i.member_id = m.id
+    WHERE i.id = $1 AND i.household_id = $2
+  `, [id, householdId])
+  return result.rows[0]
+}
+
+app.get('/api/income-sources', async (req, res) => {
+  try {
     const result = await query(`
-      INSERT INTO expense_categories (name, icon, color, is_default)
-      VALUES ($1, $2, $3, false)
-      RETURNING id, name, icon, color, is_default as "isDefault",
-                created_at as "createdAt", updated_at as "updatedAt"
-    `, [name, icon || null, color || '#6B7280'])
+      SELECT ${INCOME_SOURCE_COLUMNS}
+      FROM income_sources i
+      JOIN members m ON i.member_id = m.id
+      WHERE i.household_id = $1
+      ORDER BY i.active DESC, m.name ASC, i.name ASC
+    `, [req.auth!.householdId])
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Income sources fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch income sources' })
+  }
+})
 
-    res.json(result.rows[0])
+app.post('/api/income-sources', requireRole('manager'), async (req, res) => {
+  try {
+    const { memberId, name, kind = 'salary', amountCents, frequency, active = true } = req.body || {}
+    const sourceError = getIncomeSourceError(req.body || {})
+    if (sourceError) {
+      return res.status(400).json({ error: sourceError })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
+
+    const inserted = await query(`
+      INSERT INTO income_sources (household_id, member_id, name, kind, amount_cents, frequency, active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `, [req.auth!.householdId, memberId, name.trim(), kind, amountCents, frequency, active])
+    res.status(201).json(await fetchIncomeSource(req.auth!.householdId, inserted.rows[0].id))
   } catch (error) {
-    console.error('Category creation error:', error)
+    console.error('Income source create error:', error)
+    res.status(500).json({ error: 'Failed to create income source' })
+  }
+})
 
-    // Check for unique constraint violation
-    if (error.code === '23505') {
-      return res.status(409).json({ error: 'Category with this name already exists' })
+app.put('/api/income-sources/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const { memberId, name, kind = 'salary', amountCents, frequency, active = true } = req.body || {}
+    const sourceError = getIncomeSourceError(req.body || {})
+    if (sourceError) {
+      return res.status(400).json({ error: sourceError })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
     }
 
-    res.status(500).json({ error: 'Failed to create category' })
+    const updated = await query(`
+      UPDATE income_sources
+      SET member_id = $3, name = $4, kind = $5, amount_cents = $6, frequency = $7, active = $8, updated_at = NOW()
+      WHERE id = $1 AND household_id = $2
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, memberId, name.trim(), kind, amountCents, frequency, active])
+    if (updated.rows.length === 0) {
+      return res.status(404).json({ error: 'Income source not found' })
+    }
+    res.json(await fetchIncomeSource(req.auth!.householdId, req.params.id))
+  } catch (error) {
+    console.error('Income source update error:', error)
+    res.status(500).json({ error: 'Failed to update income source' })
   }
 })
 
-app.put('/api/categories/:id', async (req, res) => {
+// Deposits already recorded for the source are kept as one-off deposits
+app.delete('/api/income-sources/:id', requireRole('manager'), async (req, res) => {
   try {
-    const { name, icon, color } = req.body
-    const result = await query(`
-      UPDATE expense_categories
-      SET name = $1, icon = $2, color = $3, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $4
-      RETURNING id, name, icon, color, is_default as "isDefault",
-                created_at as "createdAt", updated_at as "updatedAt"
-    `, [name, icon, color, req.params.id])
+    const result = await query('DELETE FROM income_sources WHERE id = $1 AND household_id = $2', [req.params.id, req.auth!.householdId])
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Income source not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Income source delete error:', error)
+    res.status(500).json({ error: 'Failed to delete income source' })
+  }
+})
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Category not found' })
+// Most recent deposits first; ?startDate= and ?endDate= (YYYY-MM-DD) narrow them to a period
+app.get('/api/income-deposits', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query
+    for (const date of [startDate, endDate]) {
+      if (date !== undefined && !isDateString(String(date))) {
+        return res.status(400).json({ error: 'startDate and endDate must be YYYY-MM-DD' })
+      }
     }
-
-    res.json(result.rows[0])
+    const hasRange = startDate !== undefined || endDate !== undefined
+    const result = await query(`
+      SELECT ${INCOME_DEPOSIT_COLUMNS}
+      FROM income_deposits d
+      JOIN members m ON d.member_id = m.id
+      LEFT JOIN income_sources i ON d.income_source_id = i.id
+      WHERE d.household_id = $1
+        AND ($2::date IS NULL OR d.deposited_date >= $2)
+        AND ($3::date IS NULL OR d.deposited_date <= $3)
+      ORDER BY d.deposited_date DESC, d.created_at DESC
+      LIMIT $4
+    `, [req.auth!.householdId, startDate ?? null, endDate ?? null, hasRange ? null : INCOME_DEPOSITS_LIMIT])
+    res.json(result.rows)
   } catch (error) {
-    console.error('Category update error:', error)
+    console.error('Income deposits fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch income deposits' })
+  }
+})
 
-    // Check for unique constraint violation
-    if (error.code === '23505') {
-      return res.status(409).json({ error: 'Category with this name already exists' })
+// With an incomeSourceId the member and amount default to the source's
+app.post('/api/income-deposits', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    const { incomeSourceId, depositedDate, note } = req.body || {}
+    let { memberId, amountCents } = req.body || {}
+    if (incomeSourceId) {
+      const source = await query(
+        'SELECT member_id, amount_cents FROM income_sources WHERE id = $1 AND household_id = $2',
+        [incomeSourceId, req.auth!.householdId]
+      )
+      if (source.rows.length === 0) {
+        return res.status(404).json({ error: 'Income source not found' })
+      }
+      memberId = memberId ?? source.rows[0].member_id
+      amountCents = amountCents ?? source.rows[0].amount_cents
+    }
+    if (!memberId) {
+      return res.status(400).json({ error: 'A deposit needs a member or an income source' })
+    }
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      return res.status(400).json({ error: 'amountCents must be a positive whole number of cents' })
+    }
+    if (depositedDate && !isDateString(depositedDate)) {
+      return res.status(400).json({ error: 'depositedDate must be YYYY-MM-DD' })
+    }
+    if (!canRecordPaymentFor(req.auth!, memberId)) {
+      return res.status(403).json({ error: 'You can only record your own deposits' })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
     }
 
-    res.status(500).json({ error: 'Failed to update category' })
+    const inserted = await query(`
+      INSERT INTO income_deposits (household_id, income_source_id, member_id, amount_cents, deposited_date, note)
+      VALUES ($1, $2, $3, $4, COALESCE($5::date, CURRENT_DATE), $6)
+      RETURNING id
+    `, [req.auth!.householdId, incomeSourceId || null, memberId, amountCents, depositedDate || null, note || null])
+    const result = await query(`
+      SELECT ${INCOME_DEPOSIT_COLUMNS}
+      FROM income_deposits d
+      JOIN members m ON d.member_id = m.id
+      LEFT JOIN income_sources i ON d.income_source_id = i.id
+      WHERE d.id = $1
+    `, [inserted.rows[0].id])
+    res.status(201).json(result.rows[0])
+  } catch (error) {
+    console.error('Income deposit create error:', error)
+    res.status(500).json({ error: 'Failed to record income deposit' })
   }
 })
 
-app.delete('/api/categories/:id', async (req, res) => {
+app.delete('/api/income-deposits/:id', requireRole('manager', 'adult'), async (req, res) => {
   try {
-    const result = await query('DELETE FROM expense_categories WHERE id = $1 RETURNING id', [req.params.id])
-
+    const result = await query(`
+      DELETE FROM income_deposits
+      WHERE id = $1 AND household_id = $2 AND ($3::boolean OR member_id = $4)
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, req.auth!.role === 'manager', req.auth!.memberId])
     if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Category not found' })
+      return res.status(404).json({ error: 'Income deposit not found' })
     }
-
     res.json({ success: true })
   } catch (error) {
-    console.error('Category deletion error:', error)
-    res.status(500).json({ error: 'Failed to delete category' })
+    console.error('Income deposit delete error:', error)
+    res.status(500).json({ error: 'Failed to delete income deposit' })
   }
 })
 
-// Analytics API
-app.get('/api/analytics/spending-summary', async (req, res) => {
-  try {
-    const { timeRange, memberIds, categoryIds } = req.query;
+// Savings Goals API
+// A goal has a target amount and date and splits saying who contributes in what proportion; members
+// record contributions towards it. Each goal comes with its progress (see utils/savingsGoals.ts).
+const PAYMENT_METHODS: PaymentMethod[] = ['ach', 'card', 'cash', 'check', 'zelle', 'venmo', 'other']
+
+// How many of a goal's latest contributions are listed with it
+const SAVINGS_GOAL_RECENT_CONTRIBUTIONS = 10
+
+interface SavingsGoalRow {
+  id: string
+  name: string
+  targetCents: number
+  targetDate: string
+  splitMode: SplitMode
+  splits: Split[]
+  createdAt: Date
+  updatedAt: Date
+}
 
-    // Calculate date range based on timeRange parameter
-    let startDate;
-    const endDate = new Date();
+interface SavingsContributionRow extends SavingsContributionEntry {
+  id: string
+  savingsGoalId: string
+  memberId: string
+  memberName: string
+  method: PaymentMethod
+  note: string | null
+  createdAt: Date
+}
 
-    switch (timeRange) {
-      case 'current-month':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
-        break;
-      case '3-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
-        break;
-      case '6-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
-        break;
-      case 'ytd':
-        startDate = new Date(endDate.getFullYear(), 0, 1);
-        break;
-      default:
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
-    }
+interface SavingsGoalWithProgress extends SavingsGoalRow {
+  recentContributions: SavingsContributionRow[]
+  progress: SavingsGoalProgress
+}
 
-    // Build WHERE clauses for filters
-    let billsWhere = 'WHERE b.due_date >= $1 AND b.due_date <= $2';
-    let financedWhere = 'WHERE fep.due_date >= $1 AND fep.due_date <= $2';
-    let mortgageWhere = 'WHERE mp.paid_date >= $1 AND mp.paid_date <= $2';
-    const params: any[] = [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0]];
-    let paramCount = 2;
+// A contributor's split as sent with a savings goal
+interface SavingsGoalSplitInput {
+  memberId: string
+  value: number
+}
 
-    // Add member filter if provided
-    if (memberIds && typeof memberIds === 'string' && memberIds.length > 0) {
-      const memberIdArray = memberIds.split(',');
-      paramCount++;
-      billsWhere += ` AND bs.member_id = ANY($${paramCount})`;
-      financedWhere += ` AND fes.member_id = ANY($${paramCount})`;
-      mortgageWhere += ` AND ms.member_id = ANY($${paramCount})`;
-      params.push(memberIdArray);
+async function fetchSavingsGoals(householdId: string, goalId?: string): Promise<SavingsGoalWithProgress[]> {
+  const goalsResult = await query(`
+    SELECT g.id, g.name, g.target_cents as "targetCents", to_char(g.target_date, 'YYYY-MM-DD') as "targetDate",
+           g.split_mode as "splitMode", ${SPLITS_JSON('savings_goal_splits', 'savings_goal_id', 'g.id')},
+           g.created_at as "createdAt", g.updated_at as "updatedAt"
+    FROM savings_goals g
+    WHERE g.household_id = $1 AND ($2::text IS NULL OR g.id = $2)
+    ORDER BY g.target_date ASC, g.name ASC
+  `, [householdId, goalId ?? null])
+  const contributionsResult = await query(`
+    SELECT c.id, c.savings_goal_id as "savingsGoalId", c.member_id as "memberId", m.name as "memberName",
+           c.amount_cents as "amountCents", to_char(c.contributed_date, 'YYYY-MM-DD') as "contributedDate",
+           c.method, c.note, c.created_at as "createdAt"
+    FROM savings_contributions c
+    JOIN savings_goals g ON c.savings_goal_id = g.id
+    JOIN members m ON c.member_id = m.id
+    WHERE g.household_id = $1 AND ($2::text IS NULL OR g.id = $2)
+    ORDER BY c.contributed_date DESC, c.created_at DESC
+  `, [householdId, goalId ?? null])
+
+  const today = formatLocalDate(new Date())
+  const contributionRows: SavingsContributionRow[] = contributionsResult.rows
+  return (goalsResult.rows as SavingsGoalRow[]).map(goal => {
+    const contributions = contributionRows.filter(contribution => contribution.savingsGoalId === goal.id)
+    return {
+      ...goal,
+      recentContributions: contributions.slice(0, SAVINGS_GOAL_RECENT_CONTRIBUTIONS),
+      progress: computeSavingsGoalProgress(goal, contributions, today)
     }
+  })
+}
 
-    // Add category filter if provided
-    if (categoryIds && typeof categoryIds === 'string' && categoryIds.length > 0) {
-      const categoryIdArray = categoryIds.split(',');
-      paramCount++;
-      billsWhere += ` AND b.category_id = ANY($${paramCount})`;
-      financedWhere += ` AND fe.category_id = ANY($${paramCount})`;
-      params.push(categoryIdArray);
-    }
+function getSavingsGoalError({ name, targetCents, targetDate, splitMode, splits }: Partial<Omit<SavingsGoalRow, 'splits'>> & { splits?: SavingsGoalSplitInput[] }): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'A savings goal needs a name'
+  }
+  if (!Number.isInteger(targetCents) || targetCents <= 0) {
+    return 'targetCents must be a positive whole number of cents'
+  }
+  if (!isDateString(targetDate)) {
+    return 'targetDate must be YYYY-MM-DD'
+  }
+  if (splitMode !== undefined && splitMode !== 'percent' && splitMode !== 'shares') {
+    return 'splitMode must be percent or shares'
+  }
+  if (!Array.isArray(splits) || splits.length === 0 ||
+      splits.some(split => !split?.memberId || !Number.isInteger(split.value) || split.value < 0) ||
+      !splits.some(split => split.value > 0)) {
+    return 'splits must list who contributes, as { memberId, value }'
+  }
+  return null
+}
 
-    const result = await query(`
-      WITH bill_spending AS (
-        SELECT
-          m.id as member_id,
-          m.name as member_name,
-          COALESCE(ec.id, 'cat-uncategorized') as category_id,
-          COALESCE(ec.name, 'Uncategorized') as category_name,
-          SUM(CASE
-            WHEN b.split_mode = 'amount' THEN bs.value
-            WHEN b.split_mode = 'percent' THEN (b.amount_cents * bs.value / 100)
-            WHEN b.split_mode = 'shares' THEN (
-              b.amount_cents / (SELECT SUM(value) FROM bill_splits WHERE bill_id = b.id) * bs.value
-            )
-          END) as total_cents
-        FROM bills b
-        JOIN bill_splits bs ON b.id = bs.bill_id
-        JOIN members m ON bs.member_id = m.id
-        LEFT JOIN expense_categories ec ON b.category_id = ec.id
-        ${billsWhere}
-        GROUP BY m.id, m.name, ec.id, ec.name
-      ),
-      financed_spending AS (
-        SELECT
-          m.id as member_id,
-          m.name as member_name,
-          COALESCE(ec.id, 'cat-uncategorized') as category_id,
-          COALESCE(ec.name, 'Uncategorized') as category_name,
-          SUM(CASE
-            WHEN fe.split_mode = 'amount' THEN fes.value
-            WHEN fe.split_mode = 'percent' THEN (fep.amount_cents * fes.value / 100)
-            WHEN fe.split_mode = 'shares' THEN (
-              fep.amount_cents / (SELECT SUM(value) FROM financed_expense_splits WHERE financed_expense_id = fe.id) * fes.value
-            )
-          END) as total_cents
-        FROM financed_expense_payments fep
-        JOIN financed_expenses fe ON fep.financed_expense_id = fe.id
-        JOIN financed_expense_splits fes ON fe.id = fes.financed_expense_id
-        JOIN members m ON fes.member_id = m.id
-        LEFT JOIN expense_categories ec ON fe.category_id = ec.id
-        ${financedWhere}
-        GROUP BY m.id, m.name, ec.id, ec.name
-      ),
-      mortgage_spending AS (
-        SELECT
-          m.id as member_id,
-          m.name as member_name,
-          'cat-housing' as category_id,
-          'Housing' as category_name,
-          SUM(CASE
-            WHEN mort.split_mode = 'amount' THEN ms.value
-            WHEN mort.split_mode = 'percent' THEN (mp.amount_cents * ms.value / 100)
-            WHEN mort.split_mode = 'shares' THEN (
-              mp.amount_cents / (SELECT SUM(value) FROM mortgage_splits WHERE mortgage_id = mort.id) * ms.value
-            )
-          END) as total_cents
-        FROM mortgage_payments mp
-        JOIN mortgages mort ON mp.mortgage_id = mort.id
-        JOIN mortgage_splits ms ON mort.id = ms.mortgage_id
-        JOIN members m ON ms.member_id = m.id
-        ${mortgageWhere}
-        GROUP BY m.id, m.name
-      ),
-      combined AS (
-        SELECT * FROM bill_spending
-        UNION ALL
-        SELECT * FROM financed_spending
-        UNION ALL
-        SELECT * FROM mortgage_spending
-      )
-      SELECT
-        member_id as "memberId",
-        member_name as "memberName",
-        category_id as "categoryId",
-        category_name as "categoryName",
-        SUM(total_cents) as "totalCents"
-      FROM combined
-      GROUP BY member_id, member_name, category_id, category_name
-      ORDER BY member_name, category_name
-    `, params);
+async function replaceSavingsGoalSplits(client: PoolClient, goalId: string, splits: SavingsGoalSplitInput[]) {
+  await client.query('DELETE FROM savings_goal_splits WHERE savings_goal_id = $1', [goalId])
+  for (const split of splits) {
+    await client.query(
+      'INSERT INTO savings_goal_splits (savings_goal_id, member_id, value) VALUES ($1, $2, $3)',
+      [goalId, split.memberId, split.value]
+    )
+  }
+}
 
-    res.json(result.rows);
+app.get('/api/savings-goals', async (req, res) => {
+  try {
+    res.json(await fetchSavingsGoals(req.auth!.householdId))
   } catch (error) {
-    console.error('Spending summary fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch spending summary' });
+    console.error('Savings goals fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch savings goals' })
   }
-});
+})
 
-app.get('/api/analytics/spending-trends', async (req, res) => {
+app.post('/api/savings-goals', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
   try {
-    const { timeRange, memberIds, categoryIds } = req.query;
-
-    // Calculate date range
-    let startDate;
-    const endDate = new Date();
-    let groupByFormat = 'YYYY-MM-DD';
-
-    switch (timeRange) {
-      case 'current-month':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
-        groupByFormat = 'YYYY-MM-DD';
-        break;
-      case '3-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
-        groupByFormat = 'YYYY-WW';
-        break;
-      case '6-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
-        groupByFormat = 'YYYY-WW';
-        break;
-      case 'ytd':
-        startDate = new Date(endDate.getFullYear(), 0, 1);
-        groupByFormat = 'YYYY-MM';
-        break;
-      default:
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+    const { name, targetCents, targetDate, splitMode = 'shares', splits } = req.body || {}
+    const goalError = getSavingsGoalError(req.body || {})
+    if (goalError) {
+      return res.status(400).json({ error: goalError })
     }
-
-    // Build WHERE clauses
-    let billsWhere = 'WHERE b.due_date >= $1 AND b.due_date <= $2';
-    let financedWhere = 'WHERE fep.due_date >= $1 AND fep.due_date <= $2';
-    let mortgageWhere = 'WHERE mp.paid_date >= $1 AND mp.paid_date <= $2';
-    const params: any[] = [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0]];
-    let paramCount = 2;
-
-    if (memberIds && typeof memberIds === 'string' && memberIds.length > 0) {
-      const memberIdArray = memberIds.split(',');
-      paramCount++;
-      billsWhere += ` AND bs.member_id = ANY($${paramCount})`;
-      financedWhere += ` AND fes.member_id = ANY($${paramCount})`;
-      mortgageWhere += ` AND ms.member_id = ANY($${paramCount})`;
-      params.push(memberIdArray);
+    if ((await findForeignMemberIds(client, req.auth!.householdId, splits.map(split => split.memberId))).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
     }
 
-    if (categoryIds && typeof categoryIds === 'string' && categoryIds.length > 0) {
-      const categoryIdArray = categoryIds.split(',');
-      paramCount++;
-      billsWhere += ` AND b.category_id = ANY($${paramCount})`;
-      financedWhere += ` AND fe.category_id = ANY($${paramCount})`;
-      params.push(categoryIdArray);
-    }
+    await client.query('BEGIN')
+    const inserted = await client.query(`
+      INSERT INTO savings_goals (household_id, name, target_cents, target_date, split_mode)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
+    `, [req.auth!.householdId, name.trim(), targetCents, targetDate, splitMode])
+    await replaceSavingsGoalSplits(client, inserted.rows[0].id, splits)
+    await client.query('COMMIT')
 
-    const result = await query(`
-      WITH bill_trends AS (
-        SELECT
-          TO_CHAR(b.due_date, '${groupByFormat}') as period,
-          b.due_date as date,
-          SUM(CASE
-            WHEN b.split_mode = 'amount' THEN bs.value
-            WHEN b.split_mode = 'percent' THEN (b.amount_cents * bs.value / 100)
-            WHEN b.split_mode = 'shares' THEN (
-              b.amount_cents / (SELECT SUM(value) FROM bill_splits WHERE bill_id = b.id) * bs.value
-            )
-          END) as total_cents
-        FROM bills b
-        JOIN bill_splits bs ON b.id = bs.bill_id
-        LEFT JOIN expense_categories ec ON b.category_id = ec.id
-        ${billsWhere}
-        GROUP BY period, b.due_date
-      ),
-      financed_trends AS (
-        SELECT
-          TO_CHAR(fep.due_date, '${groupByFormat}') as period,
-          fep.due_date as date,
-          SUM(CASE
-            WHEN fe.split_mode = 'amount' THEN fes.value
-            WHEN fe.split_mode = 'percent' THEN (fep.amount_cents * fes.value / 100)
-            WHEN fe.split_mode = 'shares' THEN (
-              fep.amount_cents / (SELECT SUM(value) FROM financed_expense_splits WHERE financed_expense_id = fe.id) * fes.value
-            )
-          END) as total_cents
-        FROM financed_expense_payments fep
-        JOIN financed_expenses fe ON fep.financed_expense_id = fe.id
-        JOIN financed_expense_splits fes ON fe.id = fes.financed_expense_id
-        LEFT JOIN expense_categories ec ON fe.category_id = ec.id
-        ${financedWhere}
-        GROUP BY period, fep.due_date
-      ),
-      mortgage_trends AS (
-        SELECT
-          TO_CHAR(mp.paid_date, '${groupByFormat}') as period,
-          mp.paid_date as date,
-          SUM(CASE
-            WHEN mort.split_mode = 'amount' THEN ms.value
-            WHEN mort.split_mode = 'percent' THEN (mp.amount_cents * ms.value / 100)
-            WHEN mort.split_mode = 'shares' THEN (
-              mp.amount_cents / (SELECT SUM(value) FROM mortgage_splits WHERE mortgage_id = mort.id) * ms.value
-            )
-          END) as total_cents
-        FROM mortgage_payments mp
-        JOIN mortgages mort ON mp.mortgage_id = mort.id
-        JOIN mortgage_splits ms ON mort.id = ms.mortgage_id
-        ${mortgageWhere}
-        GROUP BY period, mp.paid_date
-      ),
-      combined AS (
-        SELECT * FROM bill_trends
-        UNION ALL
-        SELECT * FROM financed_trends
-        UNION ALL
-        SELECT * FROM mortgage_trends
-      )
-      SELECT
-        period,
-        MIN(date) as date,
-        SUM(total_cents) as "totalCents"
-      FROM combined
-      GROUP BY period
-      ORDER BY period
-    `, params);
+    const [goal] = await fetchSavingsGoals(req.auth!.householdId, inserted.rows[0].id)
+    res.status(201).json(goal)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Savings goal create error:', error)
+    res.status(500).json({ error: 'Failed to create savings goal' })
+  } finally {
+    client.release()
+  }
+})
+
+app.put('/api/savings-goals/:id', requireRole('manager'), async (req, res) => {
+  const client = await pool.connect()
+  try {
+    const { name, targetCents, targetDate, splitMode = 'shares', splits } = req.body || {}
+    const goalError = getSavingsGoalError(req.body || {})
+    if (goalError) {
+      return res.status(400).json({ error: goalError })
+    }
+    if ((await findForeignMemberIds(client, req.auth!.householdId, splits.map(split => split.memberId))).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
 
-    res.json(result.rows);
+    await client.query('BEGIN')
+    const updated = await client.query(`
+      UPDATE savings_goals
+      SET name = $3, target_cents = $4, target_date = $5, split_mode = $6, updated_at = NOW()
+      WHERE id = $1 AND household_id = $2
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, name.trim(), targetCents, targetDate, splitMode])
+    if (updated.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Savings goal not found' })
+    }
+    await replaceSavingsGoalSplits(client, req.params.id, splits)
+    await client.query('COMMIT')
+
+    const [goal] = await fetchSavingsGoals(req.auth!.householdId, req.params.id)
+    res.json(goal)
   } catch (error) {
-    console.error('Spending trends fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch spending trends' });
+    await client.query('ROLLBACK')
+    console.error('Savings goal update error:', error)
+    res.status(500).json({ error: 'Failed to update savings goal' })
+  } finally {
+    client.release()
   }
-});
+})
 
-app.get('/api/analytics/payment-status', async (req, res) => {
+app.delete('/api/savings-goals/:id', requireRole('manager'), async (req, res) => {
   try {
-    const { timeRange } = req.query;
+    const result = await query('DELETE FROM savings_goals WHERE id = $1 AND household_id = $2', [req.params.id, req.auth!.householdId])
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Savings goal not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Savings goal delete error:', error)
+    res.status(500).json({ error: 'Failed to delete savings goal' })
+  }
+})
 
-    let startDate;
-    const endDate = new Date();
+// Managers may record contributions for anyone; adults only their own. Returns the goal with its new progress.
+app.post('/api/savings-goals/:id/contributions', requireRole('manager', 'adult'), async (req, res) => {
+  try {
+    const { memberId, amountCents, contributedDate, method = 'other', note } = req.body || {}
+    if (!memberId) {
+      return res.status(400).json({ error: 'A contribution needs a member' })
+    }
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      return res.status(400).json({ error: 'amountCents must be a positive whole number of cents' })
+    }
+    if (contributedDate && !isDateString(contributedDate)) {
+      return res.status(400).json({ error: 'contributedDate must be YYYY-MM-DD' })
+    }
+    if (!PAYMENT_METHODS.includes(method)) {
+      return res.status(400).json({ error: `method must be one of ${PAYMENT_METHODS.join(', ')}` })
+    }
+    if (!canRecordPaymentFor(req.auth!, memberId)) {
+      return res.status(403).json({ error: 'You can only record your own contributions' })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
 
-    switch (timeRange) {
-      case 'current-month':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
-        break;
-      case '3-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
-        break;
-      case '6-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
-        break;
-      case 'ytd':
-        startDate = new Date(endDate.getFullYear(), 0, 1);
-        break;
-      default:
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+    const inserted = await query(`
+      INSERT INTO savings_contributions (savings_goal_id, member_id, amount_cents, contributed_date, method, note)
+      SELECT g.id, $3, $4, COALESCE($5::date, CURRENT_DATE), $6, $7
+      FROM savings_goals g
+      WHERE g.id = $1 AND g.household_id = $2
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, memberId, amountCents, contributedDate || null, method, note || null])
+    if (inserted.rows.length === 0) {
+      return res.status(404).json({ error: 'Savings goal not found' })
     }
 
+    const [goal] = await fetchSavingsGoals(req.auth!.householdId, req.params.id)
+    res.status(201).json(goal)
+  } catch (error) {
+    console.error('Savings contribution create error:', error)
+    res.status(500).json({ error: 'Failed to record contribution' })
+  }
+})
+
+app.delete('/api/savings-contributions/:id', requireRole('manager', 'adult'), async (req, res) => {
+  try {
     const result = await query(`
-      WITH bill_payments AS (
-        SELECT
-          b.id,
-          b.name,
-          b.amount_cents,
-          b.due_date,
-          COALESCE(SUM(p.amount_cents), 0) as paid_cents
-        FROM bills b
-        LEFT JOIN payments p ON b.id = p.bill_id
-        WHERE b.due_date >= $1 AND b.due_date <= $2
-        GROUP BY b.id, b.name, b.amount_cents, b.due_date
-      ),
-      financed_payments AS (
-        SELECT
-          fe.id,
-          fe.title as name,
-          fep.amount_cents,
-          fep.due_date,
-          CASE WHEN fep.is_paid THEN fep.amount_cents ELSE 0 END as paid_cents
-        FROM financed_expense_payments fep
-        JOIN financed_expenses fe ON fep.financed_expense_id = fe.id
-        WHERE fep.due_date >= $1 AND fep.due_date <= $2
-      )
-      SELECT
-        COUNT(*) FILTER (WHERE paid_cents >= amount_cents) as "paidCount",
-        COUNT(*) FILTER (WHERE paid_cents < amount_cents AND due_date < CURRENT_DATE) as "overdueCount",
-        COUNT(*) FILTER (WHERE paid_cents < amount_cents AND due_date >= CURRENT_DATE) as "upcomingCount",
-        SUM(amount_cents) as "totalAmountCents",
-        SUM(paid_cents) as "totalPaidCents"
-      FROM (
-        SELECT * FROM bill_payments
-        UNION ALL
-        SELECT * FROM financed_payments
-      ) combined
-    `, [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0]]);
+      DELETE FROM savings_contributions c
+      USING savings_goals g
+      WHERE c.id = $1 AND c.savings_goal_id = g.id AND g.household_id = $2 AND ($3::boolean OR c.member_id = $4)
+      RETURNING c.id
+    `, [req.params.id, req.auth!.householdId, req.auth!.role === 'manager', req.auth!.memberId])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Contribution not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Savings contribution delete error:', error)
+    res.status(500).json({ error: 'Failed to delete contribution' })
+  }
+})
 
-    res.json(result.rows[0]);
+// Net Worth API
+// Financial accounts (checking, savings, brokerage, retirement, credit cards) get dated balance
+// snapshots; net worth subtracts what is owed on them and on mortgages and financed expenses
+// (see utils/netWorth.ts).
+const NET_WORTH_HISTORY_MONTHS = 12
+
+interface FinancialAccountRow extends NetWorthAccount {
+  institution: string | null
+  memberId: string | null
+  memberName: string | null
+  closed: boolean
+  balances: (BalanceSnapshot & { id: string })[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+async function fetchFinancialAccounts(householdId: string, accountId?: string): Promise<FinancialAccountRow[]> {
+  const result = await query(`
+    SELECT a.id, a.name, a.kind, a.institution, a.member_id as "memberId", m.name as "memberName", a.closed,
+           COALESCE((SELECT json_agg(json_build_object('id', b.id, 'balanceCents', b.balance_cents,
+                                                       'asOfDate', to_char(b.as_of_date, 'YYYY-MM-DD')) ORDER BY b.as_of_date DESC)
+                     FROM financial_account_balances b WHERE b.financial_account_id = a.id), '[]') as balances,
+           a.created_at as "createdAt", a.updated_at as "updatedAt"
+    FROM financial_accounts a
+    LEFT JOIN members m ON a.member_id = m.id
+    WHERE a.household_id = $1 AND ($2::text IS NULL OR a.id = $2)
+    ORDER BY a.closed ASC, a.name ASC
+  `, [householdId, accountId ?? null])
+  return result.rows
+}
+
+// Everything computeNetWorthOn needs, for the household's accounts, active mortgages and financed expenses
+async function loadNetWorthInput(householdId: string): Promise<NetWorthInput> {
+  const accounts = await fetchFinancialAccounts(householdId)
+  const mortgagesResult = await query(`
+    SELECT m.id, m.name, to_char(m.start_date, 'YYYY-MM-DD') as "startDate", m.current_principal_cents as "currentPrincipalCents",
+           COALESCE((SELECT json_agg(json_build_object('paidDate', to_char(mp.paid_date, 'YYYY-MM-DD'), 'principalCents', b.principal_cents))
+                     FROM mortgage_payments mp
+                     JOIN mortgage_payment_breakdowns b ON b.payment_id = mp.id
+                     WHERE mp.mortgage_id = m.id AND mp.deleted_at IS NULL), '[]') as "principalPayments"
+    FROM mortgages m
+    WHERE m.household_id = $1 AND m.active = true AND m.deleted_at IS NULL
+  `, [householdId])
+  const financedResult = await query(`
+    SELECT fe.id, fe.title, to_char(fe.purchase_date, 'YYYY-MM-DD') as "purchaseDate", fe.total_amount_cents as "totalAmountCents",
+           COALESCE((SELECT json_agg(json_build_object('paidDate', to_char(COALESCE(p.paid_date, p.due_date), 'YYYY-MM-DD'), 'amountCents', p.amount_cents))
+                     FROM financed_expense_payments p
+                     WHERE p.financed_expense_id = fe.id AND p.is_paid = true), '[]') as "paidPayments"
+    FROM financed_expenses fe
+    WHERE fe.household_id = $1 AND fe.deleted_at IS NULL
+  `, [householdId])
+  return { accounts, mortgages: mortgagesResult.rows, financedExpenses: financedResult.rows }
+}
+
+function getFinancialAccountError({ name, kind, closed }: Partial<FinancialAccountRow>): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'An account needs a name'
+  }
+  if (!kind || !FINANCIAL_ACCOUNT_KINDS.includes(kind)) {
+    return `kind must be one of ${FINANCIAL_ACCOUNT_KINDS.join(', ')}`
+  }
+  if (closed !== undefined && typeof closed !== 'boolean') {
+    return 'closed must be true or false'
+  }
+  return null
+}
+
+app.get('/api/financial-accounts', async (req, res) => {
+  try {
+    res.json(await fetchFinancialAccounts(req.auth!.householdId))
   } catch (error) {
-    console.error('Payment status fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch payment status' });
+    console.error('Financial accounts fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch accounts' })
   }
-});
+})
 
-app.get('/api/analytics/mortgage-vs-expenses', async (req, res) => {
+app.post('/api/financial-accounts', requireRole('manager'), async (req, res) => {
   try {
-    const { timeRange } = req.query;
+    const { name, kind, institution, memberId, closed = false } = req.body || {}
+    const accountError = getFinancialAccountError(req.body || {})
+    if (accountError) {
+      return res.status(400).json({ error: accountError })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
+    }
 
-    let startDate;
-    const endDate = new Date();
+    const inserted = await query(`
+      INSERT INTO financial_accounts (household_id, name, kind, institution, member_id, closed)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, [req.auth!.householdId, name.trim(), kind, institution || null, memberId || null, closed])
+    const [account] = await fetchFinancialAccounts(req.auth!.householdId, inserted.rows[0].id)
+    res.status(201).json(account)
+  } catch (error) {
+    console.error('Financial account create error:', error)
+    res.status(500).json({ error: 'Failed to create account' })
+  }
+})
 
-    switch (timeRange) {
-      case 'current-month':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
-        break;
-      case '3-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 3, 1);
-        break;
-      case '6-months':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 6, 1);
-        break;
-      case 'ytd':
-        startDate = new Date(endDate.getFullYear(), 0, 1);
-        break;
-      default:
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
+app.put('/api/financial-accounts/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const { name, kind, institution, memberId, closed = false } = req.body || {}
+    const accountError = getFinancialAccountError(req.body || {})
+    if (accountError) {
+      return res.status(400).json({ error: accountError })
+    }
+    if ((await findForeignMemberIds(pool, req.auth!.householdId, [memberId])).length > 0) {
+      return res.status(400).json(FOREIGN_MEMBER_ERROR)
     }
 
-    const result = await query(`
-      WITH mortgage_total AS (
-        SELECT COALESCE(SUM(mp.amount_cents), 0) as total_cents
-        FROM mortgage_payments mp
-        WHERE mp.paid_date >= $1 AND mp.paid_date <= $2
-      ),
-      other_expenses AS (
-        SELECT COALESCE(SUM(b.amount_cents), 0) as total_cents
-        FROM bills b
-        WHERE b.due_date >= $1 AND b.due_date <= $2
-      ),
-      financed_expenses AS (
-        SELECT COALESCE(SUM(fep.amount_cents), 0) as total_cents
-        FROM financed_expense_payments fep
-        WHERE fep.due_date >= $1 AND fep.due_date <= $2
-      )
-      SELECT
-        (SELECT total_cents FROM mortgage_total) as "mortgageCents",
-        (SELECT total_cents FROM other_expenses) + (SELECT total_cents FROM financed_expenses) as "otherExpensesCents"
-    `, [startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0]]);
+    const updated = await query(`
+      UPDATE financial_accounts
+      SET name = $3, kind = $4, institution = $5, member_id = $6, closed = $7, updated_at = NOW()
+      WHERE id = $1 AND household_id = $2
+      RETURNING id
+    `, [req.params.id, req.auth!.householdId, name.trim(), kind, institution || null, memberId || null, closed])
+    if (updated.rows.length === 0) {
+      return res.status(404).json({ error: 'Account not found' })
+    }
+    const [account] = await fetchFinancialAccounts(req.auth!.householdId, req.params.id)
+    res.json(account)
+  } catch (error) {
+    console.error('Financial account update error:', error)
+    res.status(500).json({ error: 'Failed to update account' })
+  }
+})
 
-    res.json(result.rows[0]);
+app.delete('/api/financial-accounts/:id', requireRole('manager'), async (req, res) => {
+  try {
+    const result = await query('DELETE FROM financial_accounts WHERE id = $1 AND household_id = $2', [req.params.id, req.auth!.householdId])
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Account not found' })
+    }
+    res.json({ success: true })
   } catch (error) {
-    console.error('Mortgage vs expenses fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch mortgage vs expenses comparison' });
+    console.error('Financial account delete error:', error)
+    res.status(500).json({ error: 'Failed to delete account' })
   }
-});
+})
 
-// Settings API
-app.get('/api/settings', async (req, res) => {
+// Records the balance on asOfDate (today by default), replacing one already recorded for that date
+app.post('/api/financial-accounts/:id/balances', requireRole('manager'), async (req, res) => {
   try {
-    const result = await query('SELECT key, value FROM settings')
-    const settingsObj = result.rows.reduce((acc, row) => {
-      acc[row.key] = row.value
-      return acc
-    }, {} as Record<string, string>)
-    res.json(settingsObj)
+    const { balanceCents, asOfDate } = req.body || {}
+    if (!Number.isInteger(balanceCents)) {
+      return res.status(400).json({ error: 'balanceCents must be a whole number of cents' })
+    }
+    if (asOfDate && !isDateString(asOfDate)) {
+      return res.status(400).json({ error: 'asOfDate must be YYYY-MM-DD' })
+    }
+
+    const account = await query(
+      'SELECT closed FROM financial_accounts WHERE id = $1 AND household_id = $2',
+      [req.params.id, req.auth!.householdId]
+    )
+    if (account.rows.length === 0) {
+      return res.status(404).json({ error: 'Account not found' })
+    }
+    if (account.rows[0].closed) {
+      return res.status(400).json({ error: 'The account is closed' })
+    }
+
+    await query(`
+      INSERT INTO financial_account_balances (financial_account_id, balance_cents, as_of_date)
+      VALUES ($1, $2, COALESCE($3::date, CURRENT_DATE))
+      ON CONFLICT (financial_account_id, as_of_date) DO UPDATE SET balance_cents = EXCLUDED.balance_cents
+    `, [req.params.id, balanceCents, asOfDate || null])
+    const [updated] = await fetchFinancialAccounts(req.auth!.householdId, req.params.id)
+    res.status(201).json(updated)
   } catch (error) {
-    console.error('Settings fetch error:', error)
-    res.status(500).json({ error: 'Failed to fetch settings' })
+    console.error('Account balance create error:', error)
+    res.status(500).json({ error: 'Failed to record balance' })
   }
 })
 
-app.put('/api/settings/:key', async (req, res) => {
+app.delete('/api/financial-account-balances/:id', requireRole('manager'), async (req, res) => {
   try {
-    const { value } = req.body
     const result = await query(`
-      INSERT INTO settings (key, value)
-      VALUES ($1, $2)
-      ON CONFLICT (key) DO UPDATE SET
-        value = EXCLUDED.value,
-        updated_at = NOW()
-      RETURNING key, value, created_at as "createdAt", updated_at as "updatedAt"
-    `, [req.params.key, value])
-    res.json(result.rows[0])
+      DELETE FROM financial_account_balances b
+      USING financial_accounts a
+      WHERE b.id = $1 AND b.financial_account_id = a.id AND a.household_id = $2
+      RETURNING b.id
+    `, [req.params.id, req.auth!.householdId])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Balance not found' })
+    }
+    res.json({ success: true })
   } catch (error) {
-    console.error('Settings update error:', error)
-    res.status(500).json({ error: 'Failed to update setting' })
+    console.error('Account balance delete error:', error)
+    res.status(500).json({ error: 'Failed to delete balance' })
   }
 })
 
-app.put('/api/settings', async (req, res) => {
+// Today's breakdown, and the net worth at the end of each of the last ?months= months (12 by default)
+app.get('/api/net-worth', async (req, res) => {
   try {
-    const settings = req.body
+    const months = req.query.months === undefined ? NET_WORTH_HISTORY_MONTHS : Number(req.query.months)
+    if (!Number.isInteger(months) || months < 1 || months > 120) {
+      return res.status(400).json({ error: 'months must be a whole number from 1 to 120' })
+    }
+
+    const input = await loadNetWorthInput(req.auth!.householdId)
+    const today = formatLocalDate(new Date())
+    const currentMonth = today.slice(0, 7)
+    const history = Array.from({ length: months }, (_, i) => addMonthsToPeriod(currentMonth, i - months + 1))
+      .map(month => (month === currentMonth ? today : getRecurringDueDate(month, 31)))
+      .map(date => {
+        const { assetsCents, liabilitiesCents, netWorthCents } = computeNetWorthOn(input, date)
+        return { date, assetsCents, liabilitiesCents, netWorthCents }
+      })
+
+    res.json({ current: computeNetWorthOn(input, today), history })
+  } catch (error) {
+    console.error('Net worth error:', error)
+    res.status(500).json({ error: 'Failed to compute net worth' })
+  }
+})
+
+// Autopay
+// Bills, recurring bills (through the bills they generate), mortgages and financed expenses can be
+// set to autopay from one of the household's financial accounts. On the due date the job records
+// the payment with the same helpers as the payment routes, paid from that account by its owner, and
+// logs the occurrence in autopay_log so it is never paid twice.
+// Items more than AUTOPAY_CATCH_UP_DAYS overdue are left alone, so turning autopay on does not
+// mark old unpaid bills as paid.
+const AUTOPAY_CATCH_UP_DAYS = 7
+const UPCOMING_DEBITS_DAYS = 30
+
+const addDaysToDate = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return formatLocalDate(new Date(year, month - 1, day + days))
+}
+
+async function runAutopay(householdId: string, { dryRun = false } = {}) {
+  const today = formatLocalDate(new Date())
+  const earliest = addDaysToDate(today, -AUTOPAY_CATCH_UP_DAYS)
+  const { items } = await loadDueItems(householdId, formatPeriod(new Date()))
+  const accountsResult = await query(
+    'SELECT id, name, member_id as "memberId", closed FROM financial_accounts WHERE household_id = $1',
+    [householdId]
+  )
+  const accounts = new Map<string, Pick<FinancialAccountRow, 'id' | 'name' | 'memberId' | 'closed'>>(
+    accountsResult.rows.map(account => [account.id, account])
+  )
+  const loggedResult = await query(
+    `SELECT item_key || '|' || to_char(due_date, 'YYYY-MM-DD') as key FROM autopay_log WHERE household_id = $1`,
+    [householdId]
+  )
+  const logged = new Set(loggedResult.rows.map(row => row.key))
+
+  // Recurring bill occurrences are paid once the recurring bill job has turned them into bills
+  const dueItems = items.filter(item =>
+    item.autopayAccountId && item.type !== 'recurring-bill' && item.dueDate >= earliest && item.dueDate <= today &&
+    !logged.has(`${item.key}|${item.dueDate}`)
+  )
+
+  const results = []
+  for (const item of dueItems) {
+    const account = accounts.get(item.autopayAccountId!)
+    const result = {
+      itemType: item.type,
+      itemId: item.id,
+      itemName: item.name,
+      dueDate: item.dueDate,
+      accountId: account.id,
+      accountName: account.name,
+      amountCents: Math.round(item.amount * 100),
+      status: account.closed ? 'skipped' : 'pending'
+    }
+    if (dryRun || account.closed) {
+      results.push(result)
+      continue
+    }
+
     const client = await pool.connect()
     try {
       await client.query('BEGIN')
 
-      const results = {}
-      for (const [key, value] of Object.entries(settings)) {
-        const result = await client.query(`
-          INSERT INTO settings (key, value)
-          VALUES ($1, $2)
-          ON CONFLICT (key) DO UPDATE SET
-            value = EXCLUDED.value,
-            updated_at = NOW()
-          RETURNING key, value
-        `, [key, value])
-        results[key] = result.rows[0].value
+      // A concurrent run that got here first has already paid it
+      const claimed = await client.query(`
+        INSERT INTO autopay_log (household_id, account_id, item_key, due_date, amount_cents)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (item_key, due_date) DO NOTHING
+        RETURNING id
+      `, [householdId, account.id, item.key, item.dueDate, result.amountCents])
+      if (claimed.rows.length === 0) {
+        await client.query('ROLLBACK')
+        continue
+      }
+
+      const payment = {
+        paidDate: item.dueDate,
+        method: 'ach' as const,
+        accountId: account.id,
+        payerMemberId: account.memberId,
+        note: `Autopay from ${account.name}`,
+        allocations: []
+      }
+      if (item.type === 'bill') {
+        // Only what is still owed, in case part of the bill was paid by hand
+        const billResult = await client.query(`
+          SELECT b.amount_cents - COALESCE((SELECT SUM(p.amount_cents) FROM payments p WHERE p.bill_id = b.id AND p.deleted_at IS NULL), 0) as "remainingCents"
+          FROM bills b WHERE b.id = $1 FOR UPDATE
+        `, [item.id])
+        result.amountCents = Number(billResult.rows[0].remainingCents)
+        if (result.amountCents > 0) {
+          await insertBillPayment(client, { ...payment, billId: item.id, amountCents: result.amountCents })
+        }
+      } else if (item.type === 'mortgage') {
+        const mortgageResult = await client.query('SELECT * FROM mortgages WHERE id = $1 FOR UPDATE', [item.id])
+        await insertMortgagePayment(client, mortgageResult.rows[0], { ...payment, amountCents: result.amountCents })
+      } else {
+        const financedResult = await client.query(`
+          SELECT p.*, fe.title, fe.split_mode, fe.household_id
+          FROM financed_expense_payments p
+          JOIN financed_expenses fe ON p.financed_expense_id = fe.id
+          WHERE p.id = $1
+          FOR UPDATE OF p
+        `, [item.id])
+        if (!financedResult.rows[0].is_paid) {
+          await markFinancedPaymentPaid(client, financedResult.rows[0], item.dueDate, false, account.memberId, account.id)
+        }
       }
 
+      await client.query('UPDATE autopay_log SET amount_cents = $2 WHERE id = $1', [claimed.rows[0].id, result.amountCents])
       await client.query('COMMIT')
-      res.json(results)
+      result.status = 'paid'
     } catch (error) {
       await client.query('ROLLBACK')
-      throw error
+      console.error(`Autopay of ${item.key} failed:`, error)
+      result.status = 'failed'
     } finally {
       client.release()
     }
+    results.push(result)
+  }
+  return results
+}
+
+// Runs the autopay job for the current household now; with ?dryRun=true it only lists what would be paid
+app.post('/api/autopay/run', requireRole('manager'), async (req, res) => {
+  try {
+    const payments = await runAutopay(req.auth!.householdId, { dryRun: req.query.dryRun === 'true' })
+    res.json({ payments })
   } catch (error) {
-    console.error('Bulk settings update error:', error)
-    res.status(500).json({ error: 'Failed to update settings' })
+    console.error('Autopay run error:', error)
+    res.status(500).json({ error: 'Failed to run autopay' })
+  }
+})
+
+// Autopay debits due in the next ?days= days (30 by default), grouped by the account they come out
+// of, with the account's latest balance so each one can be checked for enough money
+app.get('/api/autopay/upcoming', async (req, res) => {
+  try {
+    const days = req.query.days === undefined ? UPCOMING_DEBITS_DAYS : Number(req.query.days)
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return res.status(400).json({ error: 'days must be a whole number from 1 to 365' })
+    }
+
+    const today = formatLocalDate(new Date())
+    const earliest = addDaysToDate(today, -AUTOPAY_CATCH_UP_DAYS)
+    const through = addDaysToDate(today, days)
+    const { items } = await loadDueItems(req.auth!.householdId, through.slice(0, 7))
+    const debits = items
+      .filter(item => item.autopayAccountId && item.dueDate >= earliest && item.dueDate <= through)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+
+    const accounts = (await fetchFinancialAccounts(req.auth!.householdId))
+      .map(account => {
+        const accountDebits = debits
+          .filter(item => item.autopayAccountId === account.id)
+          .map(item => ({ itemType: item.type, itemId: item.id, itemName: item.name, dueDate: item.dueDate, amountCents: Math.round(item.amount * 100) }))
+        const totalCents = accountDebits.reduce((sum, debit) => sum + debit.amountCents, 0)
+        const latest = account.balances[0] ?? null
+        // Debits add to what is owed on credit accounts, so only asset accounts can come up short
+        const isLiability = LIABILITY_ACCOUNT_KINDS.includes(account.kind)
+        return {
+          accountId: account.id,
+          accountName: account.name,
+          kind: account.kind,
+          closed: account.closed,
+          balanceCents: latest?.balanceCents ?? null,
+          balanceDate: latest?.asOfDate ?? null,
+          debits: accountDebits,
+          totalCents,
+          shortfallCents: !isLiability && latest ? Math.max(0, totalCents - latest.balanceCents) : null
+        }
+      })
+      .filter(account => account.debits.length > 0)
+
+    res.json({ from: today, through, accounts })
+  } catch (error) {
+    console.error('Upcoming debits error:', error)
+    res.status(500).json({ error: 'Failed to fetch upcoming debits' })
   }
 })
 
@@ -2603,6 +7580,47 @@ app.use((req, res, next) => {
   }
 })
 
+async function runRecurringBillJob() {
+  try {
+    const { bills } = await generateRecurringBills()
+    if (bills.length > 0) {
+      console.log(`🔁 Generated ${bills.length} recurring bill(s)`)
+    }
+  } catch (error) {
+    console.error('Recurring bill job error:', error)
+  }
+}
+
+async function runAutopayJob() {
+  try {
+    const households = await query('SELECT id FROM households ORDER BY created_at ASC')
+    let paid = 0
+    for (const household of households.rows) {
+      paid += (await runAutopay(household.id)).filter(result => result.status === 'paid').length
+    }
+    if (paid > 0) {
+      console.log(`💳 Recorded ${paid} autopay payment(s)`)
+    }
+  } catch (error) {
+    console.error('Autopay job error:', error)
+  }
+}
+
+async function runNotificationJob() {
+  try {
+    const households = await query('SELECT id, name FROM households ORDER BY created_at ASC')
+    let sent = 0
+    for (const household of households.rows) {
+      sent += (await sendDueNotifications(household.id, household.name)).filter(result => result.status === 'sent').length
+    }
+    if (sent > 0) {
+      console.log(`🔔 Sent ${sent} due date notification(s)`)
+    }
+  } catch (error) {
+    console.error('Notification job error:', error)
+  }
+}
+
 async function startServer() {
   try {
     console.log(`Starting server in ${process.env.NODE_ENV || 'development'} mode...`)
@@ -2619,6 +7637,24 @@ async function startServer() {
     const count = parseInt(result.rows[0].count)
     console.log(`✅ Database connection verified (${count} members found)`)
 
+    // Catch up on recurring bills missed while the server was down, then keep generating hourly
+    await runRecurringBillJob()
+    setInterval(runRecurringBillJob, RECURRING_BILL_JOB_INTERVAL_MS)
+
+    // Autopay items are paid on their due date, after the recurring bill job has generated them
+    await runAutopayJob()
+    setInterval(runAutopayJob, AUTOPAY_JOB_INTERVAL_MS)
+
+    // Reminders go out hourly through every configured channel
+    const smtpChannel = createSmtpChannel()
+    if (smtpChannel) {
+      registerNotificationChannel(smtpChannel)
+    } else {
+      console.log('✉️  SMTP_HOST is not set, email notifications are off')
+    }
+    await runNotificationJob()
+    setInterval(runNotificationJob, NOTIFICATION_JOB_INTERVAL_MS)
+
     // Start server
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`)
@@ -10,6 +10,8 @@ import dotenv from 'dotenv'
 dotenv.config()
 
 const API_BASE = process.env.API_URL || 'http://localhost:8080'
+const TEST_MANAGER_USERNAME = process.env.TEST_MANAGER_USERNAME || 'test-manager'
+const TEST_MANAGER_PASSWORD = process.env.TEST_MANAGER_PASSWORD || 'test-manager-password'
 
 interface TestResult {
   test: string
@@ -21,6 +23,7 @@ interface TestResult {
 class DatabaseTester {
   private results: TestResult[] = []
   private testData: any = {}
+  private sessionToken?: string
 
   private log(test: string, status: 'PASS' | 'FAIL' | 'SKIP', message: string, data?: any) {
     this.results.push({ test, status, message, data })
@@ -31,12 +34,13 @@ class DatabaseTester {
     }
   }
 
-  private async apiCall(method: string, endpoint: string, body?: any): Promise<any> {
+  private async apiCall(method: string, endpoint: string, body?: any, token = this.sessionToken): Promise<any> {
     const url = `${API_BASE}/api${endpoint}`
     const config: RequestInit = {
       method,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
     }
 
@@ -53,17 +57,51 @@ class DatabaseTester {
     return await response.json()
   }
 
+  // Signs in as the test manager, creating it as the first account on a fresh database
+  async authenticate() {
+    const status = await this.apiCall('GET', '/auth/status')
+    const credentials = { username: TEST_MANAGER_USERNAME, password: TEST_MANAGER_PASSWORD }
+    const { token } = status.needsSetup
+      ? await this.apiCall('POST', '/auth/setup', { ...credentials, memberId: status.members[0].id })
+      : await this.apiCall('POST', '/auth/login', credentials)
+    this.sessionToken = token
+  }
+
   async runAllTests() {
     console.log('🧪 Starting Comprehensive Database Test Suite\n')
 
     try {
       await this.testHealthEndpoint()
+      await this.authenticate()
       await this.testMembersAPI()
+      await this.testAuthAPI()
+      await this.testHouseholdsAPI()
       await this.testBillsAPI()
       await this.testPaymentsAPI()
       await this.testRecurringBillsAPI()
+      await this.testRecurringBillGeneration()
+      await this.testCustomRecurrence()
+      await this.testRecurringBillSchedule()
+      await this.testVariableRecurringBills()
       await this.testMortgagesAPI()
+      await this.testMortgagePaymentsAPI()
+      await this.testMortgageAmortization()
+      await this.testMortgageRateEvents()
+      await this.testEscrowAccount()
+      await this.testTaxSummaryReport()
+      await this.testBudgetsAPI()
+      await this.testIncomeAPI()
+      await this.testForecastAPI()
+      await this.testSavingsGoalsAPI()
+      await this.testNetWorthAPI()
+      await this.testAutopayAPI()
       await this.testSettingsAPI()
+      await this.testBackupAPI()
+      await this.testBankImportAPI()
+      await this.testCalendarFeedAPI()
+      await this.testNotificationsAPI()
+      await this.testBalancesAPI()
+      await this.testSoftDelete()
       await this.testDataConsistency()
       await this.testErrorHandling()
     } catch (error) {
@@ -139,6 +177,195 @@ class DatabaseTester {
     }
   }
 
+  async testAuthAPI() {
+    console.log('\n🔐 Testing Auth and Roles')
+
+    let accountId: string | undefined
+    let billId: string | undefined
+    try {
+      try {
+        await this.apiCall('GET', '/members', undefined, '')
+        this.log('Auth Required', 'FAIL', 'Unauthenticated request was allowed')
+      } catch (error) {
+        if (error.message.includes('HTTP 401')) {
+          this.log('Auth Required', 'PASS', 'Unauthenticated request rejected with 401')
+        } else {
+          this.log('Auth Required', 'FAIL', `Unexpected error: ${error.message}`)
+        }
+      }
+
+      if (!this.testData.memberId) {
+        this.log('Auth Roles', 'SKIP', 'No test member available')
+        return
+      }
+
+      const account = await this.apiCall('POST', '/accounts', {
+        memberId: this.testData.memberId,
+        username: `test-adult-${Date.now()}`,
+        password: 'adult-password',
+        role: 'adult'
+      })
+      accountId = account.id
+      const { token: adultToken, session } = await this.apiCall('POST', '/auth/login', {
+        username: account.username,
+        password: 'adult-password'
+      })
+
+      if (session.role === 'adult' && session.memberId === this.testData.memberId) {
+        this.log('Auth Login', 'PASS', 'Adult account signed in')
+      } else {
+        this.log('Auth Login', 'FAIL', 'Login returned the wrong session', session)
+      }
+
+      const expectForbidden = async (test: string, method: string, endpoint: string, body: any, token: string) => {
+        try {
+          await this.apiCall(method, endpoint, body, token)
+          this.log(test, 'FAIL', `${method} ${endpoint} was allowed`)
+        } catch (error) {
+          if (error.message.includes('HTTP 403')) {
+            this.log(test, 'PASS', `${method} ${endpoint} rejected with 403`)
+          } else {
+            this.log(test, 'FAIL', `Unexpected error: ${error.message}`)
+          }
+        }
+      }
+
+      await expectForbidden('Adult Cannot Create Bill', 'POST', '/bills', {
+        name: 'Forbidden Bill', amountCents: 1000, dueDate: '2025-01-15', splitMode: 'shares', splits: []
+      }, adultToken)
+
+      const bill = await this.apiCall('POST', '/bills', {
+        name: 'Test Auth Bill',
+        amountCents: 2000,
+        dueDate: '2025-01-15',
+        splitMode: 'shares',
+        splits: [{ memberId: this.testData.memberId, value: 1 }]
+      })
+      billId = bill.id
+
+      await expectForbidden('Adult Cannot Pay For Others', 'POST', '/payments', {
+        billId, paidDate: '2025-01-15', amountCents: 2000, method: 'cash', payerMemberId: '1', allocations: []
+      }, adultToken)
+
+      const ownPayment = await this.apiCall('POST', '/payments', {
+        billId, paidDate: '2025-01-15', amountCents: 2000, method: 'cash', payerMemberId: this.testData.memberId, allocations: []
+      }, adultToken)
+
+      if (ownPayment.id && ownPayment.payerMemberId === this.testData.memberId) {
+        this.log('Adult Records Own Payment', 'PASS', 'Adult recorded a payment for themselves')
+        await this.apiCall('DELETE', `/payments/${ownPayment.id}`, undefined, adultToken)
+      } else {
+        this.log('Adult Records Own Payment', 'FAIL', 'Own payment was not recorded', ownPayment)
+      }
+
+      await this.apiCall('PUT', `/accounts/${accountId}`, { role: 'child' })
+      await expectForbidden('Child Cannot Record Payments', 'POST', '/payments', {
+        billId, paidDate: '2025-01-15', amountCents: 2000, method: 'cash', payerMemberId: this.testData.memberId, allocations: []
+      }, adultToken)
+      await expectForbidden('Child Cannot Record Settlements', 'POST', '/settlements', {
+        fromMemberId: this.testData.memberId, toMemberId: '1', amountCents: 2000
+      }, adultToken)
+    } catch (error) {
+      this.log('Auth API', 'FAIL', `Auth test failed: ${error.message}`, error)
+    } finally {
+      if (billId) {
+        await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+      }
+      if (accountId) {
+        await this.apiCall('DELETE', `/accounts/${accountId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testHouseholdsAPI() {
+    console.log('\n🏘️ Testing Households and Invites')
+
+    let billId: string | undefined
+    let sharedToken: string | undefined
+    try {
+      const bill = await this.apiCall('POST', '/bills', {
+        name: 'Test Private Bill',
+        amountCents: 1500,
+        dueDate: '2025-01-15',
+        splitMode: 'shares',
+        splits: []
+      })
+      billId = bill.id
+
+      // A second manager session so the main test session stays in the default household
+      const { token: managerToken } = await this.apiCall('POST', '/auth/login', {
+        username: TEST_MANAGER_USERNAME,
+        password: TEST_MANAGER_PASSWORD
+      })
+      const household = await this.apiCall('POST', '/households', { name: 'Test Shared Household' }, managerToken)
+      await this.apiCall('POST', '/auth/switch-household', { householdId: household.id }, managerToken)
+      sharedToken = managerToken
+
+      const invite = await this.apiCall('POST', '/households/current/invites', { role: 'adult' }, sharedToken)
+      const preview = await this.apiCall('GET', `/invites/${invite.token}`, undefined, '')
+      if (preview.householdName === 'Test Shared Household' && preview.role === 'adult') {
+        this.log('Invite Preview', 'PASS', 'Invite shows the household and role')
+      } else {
+        this.log('Invite Preview', 'FAIL', 'Invite preview is wrong', preview)
+      }
+
+      const { token: guestToken, session } = await this.apiCall('POST', `/invites/${invite.token}/accept`, {
+        name: 'Test Grandparent',
+        username: `test-grandparent-${Date.now()}`,
+        password: 'grandparent-password'
+      }, '')
+      if (session.householdId === household.id && session.role === 'adult') {
+        this.log('Invite Accept', 'PASS', 'New login joined the shared household')
+      } else {
+        this.log('Invite Accept', 'FAIL', 'Accepted invite returned the wrong session', session)
+      }
+
+      try {
+        await this.apiCall('POST', `/invites/${invite.token}/accept`, {
+          name: 'Second Guest', username: `test-second-guest-${Date.now()}`, password: 'second-guest-password'
+        }, '')
+        this.log('Invite Single Use', 'FAIL', 'Invite was accepted twice')
+      } catch (error) {
+        if (error.message.includes('HTTP 404')) {
+          this.log('Invite Single Use', 'PASS', 'Used invite rejected with 404')
+        } else {
+          this.log('Invite Single Use', 'FAIL', `Unexpected error: ${error.message}`)
+        }
+      }
+
+      const guestMembers = await this.apiCall('GET', '/members', undefined, guestToken)
+      const guestBills = await this.apiCall('GET', '/bills', undefined, guestToken)
+      if (guestMembers.length === 2 && !guestBills.some(b => b.id === billId)) {
+        this.log('Household Isolation', 'PASS', 'Shared household only sees its own members and bills')
+      } else {
+        this.log('Household Isolation', 'FAIL', 'Data from another household is visible', { guestMembers, guestBills })
+      }
+
+      try {
+        await this.apiCall('DELETE', `/bills/${billId}`, undefined, sharedToken)
+        const bills = await this.apiCall('GET', '/bills')
+        if (bills.some(b => b.id === billId)) {
+          this.log('Cross-Household Writes', 'PASS', 'Manager of another household cannot delete this bill')
+        } else {
+          this.log('Cross-Household Writes', 'FAIL', 'Bill was deleted from another household')
+          billId = undefined
+        }
+      } catch (error) {
+        this.log('Cross-Household Writes', 'FAIL', `Unexpected error: ${error.message}`)
+      }
+    } catch (error) {
+      this.log('Households API', 'FAIL', `Households test failed: ${error.message}`, error)
+    } finally {
+      if (billId) {
+        await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+      }
+      if (sharedToken) {
+        await this.apiCall('DELETE', '/households/current', undefined, sharedToken).catch(() => {})
+        await this.apiCall('POST', '/auth/logout', undefined, sharedToken).catch(() => {})
+      }
+    }
+  }
+
   async testBillsAPI() {
     console.log('\n💰 Testing Bills API')
 
@@ -298,6 +525,308 @@ class DatabaseTester {
     }
   }
 
+  async testRecurringBillGeneration() {
+    console.log('\n🔁 Testing Recurring Bill Generation')
+
+    let recurringBillId: string | undefined
+    try {
+      // Quarterly bill on the 31st: first due Feb 2025, clamped to the end of short months
+      const recurringBill = await this.apiCall('POST', '/recurring-bills', {
+        name: 'Test Quarterly Generation Bill',
+        amountCents: 9000,
+        dayOfMonth: 31,
+        frequency: 'quarterly',
+        lastGeneratedPeriod: '2025-01',
+        splitMode: 'shares',
+        splits: this.testData.memberId ? [
+          { memberId: this.testData.memberId, value: 1 }
+        ] : []
+      })
+      recurringBillId = recurringBill.id
+
+      const firstRun = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-12' })
+      const generated = firstRun.bills.filter(b => b.recurringBillId === recurringBillId)
+      const periods = generated.map(b => b.period).sort()
+      const expectedPeriods = ['2025-02', '2025-05', '2025-08', '2025-11']
+
+      if (JSON.stringify(periods) === JSON.stringify(expectedPeriods)) {
+        this.log('Recurring Generation Periods', 'PASS', `Generated periods ${periods.join(', ')}`)
+      } else {
+        this.log('Recurring Generation Periods', 'FAIL', `Expected ${expectedPeriods.join(', ')}, got ${periods.join(', ')}`, generated)
+      }
+
+      const february = generated.find(b => b.period === '2025-02')
+      if (february && String(february.dueDate).startsWith('2025-02-28') && february.amountCents === 9000) {
+        this.log('Recurring Generation Due Date', 'PASS', 'Due date normalized to the end of February')
+      } else {
+        this.log('Recurring Generation Due Date', 'FAIL', 'Generated bill has wrong due date or amount', february)
+      }
+
+      if (!this.testData.memberId || generated.every(b => b.splits.length === 1 && b.splits[0].memberId === this.testData.memberId)) {
+        this.log('Recurring Generation Splits', 'PASS', 'Splits copied from the recurring bill')
+      } else {
+        this.log('Recurring Generation Splits', 'FAIL', 'Generated bill splits do not match', generated)
+      }
+
+      // A second run must not duplicate any period
+      const secondRun = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-12' })
+      const bills = await this.apiCall('GET', '/bills')
+      const storedPeriods = bills.filter(b => b.recurringBillId === recurringBillId).map(b => b.period)
+
+      if (!secondRun.bills.some(b => b.recurringBillId === recurringBillId) && storedPeriods.length === expectedPeriods.length) {
+        this.log('Recurring Generation Idempotency', 'PASS', 'Second run created no duplicate bills')
+      } else {
+        this.log('Recurring Generation Idempotency', 'FAIL', `Found ${storedPeriods.length} stored bills after second run`, storedPeriods)
+      }
+
+      const recurringBills = await this.apiCall('GET', '/recurring-bills')
+      const advanced = recurringBills.find(rb => rb.id === recurringBillId)
+      if (advanced?.lastGeneratedPeriod === '2025-11') {
+        this.log('Recurring Generation Period Advance', 'PASS', 'lastGeneratedPeriod advanced to 2025-11')
+      } else {
+        this.log('Recurring Generation Period Advance', 'FAIL', 'lastGeneratedPeriod was not advanced', advanced)
+      }
+
+      for (const bill of generated) {
+        await this.apiCall('DELETE', `/bills/${bill.id}`)
+      }
+    } catch (error) {
+      this.log('Recurring Generation', 'FAIL', `Recurring generation test failed: ${error.message}`, error)
+    } finally {
+      if (recurringBillId) {
+        await this.apiCall('DELETE', `/recurring-bills/${recurringBillId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testCustomRecurrence() {
+    console.log('\n🗓️ Testing Custom Recurrence')
+
+    let recurringBillId: string | undefined
+    try {
+      // Second Tuesday of the month, three times, skipping February's
+      const recurringBill = await this.apiCall('POST', '/recurring-bills', {
+        name: 'Test Second Tuesday Bill',
+        amountCents: 4000,
+        dayOfMonth: 1,
+        frequency: 'custom',
+        recurrenceRule: { freq: 'monthly', interval: 1, startDate: '2025-01-01', byWeekday: ['TU'], bySetPos: [2], count: 3, exDates: ['2025-02-11'] },
+        lastGeneratedPeriod: '2024-12',
+        splitMode: 'shares',
+        splits: []
+      })
+      recurringBillId = recurringBill.id
+      this.log('Custom Recurrence CREATE', recurringBill.recurrenceRule?.bySetPos?.[0] === 2 ? 'PASS' : 'FAIL', 'Recurrence rule stored', recurringBill)
+
+      const run = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-06' })
+      const dueDates = run.bills
+        .filter(b => b.recurringBillId === recurringBillId)
+        .map(b => String(b.dueDate).slice(0, 10))
+        .sort()
+      if (JSON.stringify(dueDates) === JSON.stringify(['2025-01-14', '2025-03-11'])) {
+        this.log('Custom Recurrence Generation', 'PASS', `Generated ${dueDates.join(', ')}`)
+      } else {
+        this.log('Custom Recurrence Generation', 'FAIL', `Expected 2025-01-14, 2025-03-11, got ${dueDates.join(', ')}`, run.bills)
+      }
+
+      const rerun = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-12' })
+      const recurringBills = await this.apiCall('GET', '/recurring-bills')
+      const advanced = recurringBills.find(rb => rb.id === recurringBillId)
+      if (!rerun.bills.some(b => b.recurringBillId === recurringBillId) && advanced?.lastGeneratedPeriod === '2025-03-11') {
+        this.log('Custom Recurrence Idempotency', 'PASS', 'Series ended after its count without duplicates')
+      } else {
+        this.log('Custom Recurrence Idempotency', 'FAIL', 'Unexpected bills after the series ended', { rerun, advanced })
+      }
+
+      try {
+        await this.apiCall('POST', '/recurring-bills', {
+          name: 'Invalid Rule Bill', amountCents: 100, dayOfMonth: 1, frequency: 'custom', lastGeneratedPeriod: '2024-12',
+          recurrenceRule: { freq: 'weekly', interval: 1, startDate: '2025-01-01', byWeekday: ['XX'] }, splitMode: 'shares', splits: []
+        })
+        this.log('Custom Recurrence Validation', 'FAIL', 'Unknown weekday was accepted')
+      } catch (error) {
+        this.log('Custom Recurrence Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Unknown weekday rejected')
+      }
+
+      const bills = await this.apiCall('GET', '/bills')
+      for (const bill of bills.filter(b => b.recurringBillId === recurringBillId)) {
+        await this.apiCall('DELETE', `/bills/${bill.id}`)
+      }
+    } catch (error) {
+      this.log('Custom Recurrence', 'FAIL', `Custom recurrence test failed: ${error.message}`, error)
+    } finally {
+      if (recurringBillId) {
+        await this.apiCall('DELETE', `/recurring-bills/${recurringBillId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testRecurringBillSchedule() {
+    console.log('\n⏸️ Testing Recurring Bill Pause, Skip, End and Archive')
+
+    let recurringBillId: string | undefined
+    try {
+      const schedule = { pausedFrom: '2025-03-01', pausedUntil: '2025-04-30', skippedPeriods: ['2025-06'], endDate: '2025-08-31' }
+      const recurringBill = await this.apiCall('POST', '/recurring-bills', {
+        name: 'Test Paused Subscription',
+        amountCents: 1500,
+        dayOfMonth: 5,
+        frequency: 'monthly',
+        lastGeneratedPeriod: '2024-12',
+        splitMode: 'shares',
+        splits: [],
+        ...schedule
+      })
+      recurringBillId = recurringBill.id
+      const stored = recurringBill.pausedFrom === '2025-03-01' && recurringBill.endDate === '2025-08-31' && recurringBill.skippedPeriods?.[0] === '2025-06'
+      this.log('Recurring Schedule CREATE', stored ? 'PASS' : 'FAIL', 'Pause, skip and end date stored', recurringBill)
+
+      const run = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-12' })
+      const periods = run.bills.filter(b => b.recurringBillId === recurringBillId).map(b => b.period).sort()
+      if (JSON.stringify(periods) === JSON.stringify(['2025-01', '2025-02', '2025-05', '2025-07', '2025-08'])) {
+        this.log('Recurring Schedule Generation', 'PASS', `Generated ${periods.join(', ')}`)
+      } else {
+        this.log('Recurring Schedule Generation', 'FAIL', `Expected 2025-01, 02, 05, 07 and 08, got ${periods.join(', ')}`, run.bills)
+      }
+
+      // Archiving stops generation, even once the end date is lifted
+      const archived = await this.apiCall('PUT', `/recurring-bills/${recurringBillId}`, {
+        name: 'Test Paused Subscription', amountCents: 1500, dayOfMonth: 5, frequency: 'monthly', splitMode: 'shares', splits: [],
+        ...schedule, endDate: null, archived: true
+      })
+      const archivedRun = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-12' })
+      if (archived.archivedAt && !archivedRun.bills.some(b => b.recurringBillId === recurringBillId)) {
+        this.log('Recurring Schedule Archive', 'PASS', 'Archived recurring bill generated nothing')
+      } else {
+        this.log('Recurring Schedule Archive', 'FAIL', 'Archived recurring bill still generated bills', { archived, archivedRun })
+      }
+
+      try {
+        await this.apiCall('PUT', `/recurring-bills/${recurringBillId}`, {
+          name: 'Test Paused Subscription', amountCents: 1500, dayOfMonth: 5, frequency: 'monthly', splitMode: 'shares', splits: [],
+          pausedFrom: '2025-05-01', pausedUntil: '2025-04-01'
+        })
+        this.log('Recurring Schedule Validation', 'FAIL', 'Pause ending before it starts was accepted')
+      } catch (error) {
+        this.log('Recurring Schedule Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Pause ending before it starts rejected')
+      }
+
+      await this.apiCall('DELETE', `/recurring-bills/${recurringBillId}`)
+      recurringBillId = undefined
+      const bills = (await this.apiCall('GET', '/bills')).filter(b => b.recurringBillId === recurringBill.id)
+      this.log('Recurring Schedule Delete Keeps History', bills.length === 5 ? 'PASS' : 'FAIL', `${bills.length} generated bills kept`)
+      for (const bill of bills) {
+        await this.apiCall('DELETE', `/bills/${bill.id}`)
+      }
+
+      // Paused since three months ago; resuming must not bill the months that were left out
+      const now = new Date()
+      const periodOf = (monthsAgo: number) => {
+        const date = new Date(now.getFullYear(), now.getMonth() - monthsAgo, 1)
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+      }
+      const today = `${periodOf(0)}-${String(now.getDate()).padStart(2, '0')}`
+      const paused = await this.apiCall('POST', '/recurring-bills', {
+        name: 'Test Resumed Subscription', amountCents: 1500, dayOfMonth: 28, frequency: 'monthly',
+        lastGeneratedPeriod: periodOf(4), splitMode: 'shares', splits: [], pausedFrom: `${periodOf(3)}-01`
+      })
+      recurringBillId = paused.id
+      await this.apiCall('POST', '/recurring-bills/generate', {})
+      await this.apiCall('PUT', `/recurring-bills/${recurringBillId}`, {
+        name: 'Test Resumed Subscription', amountCents: 1500, dayOfMonth: 28, frequency: 'monthly', splitMode: 'shares', splits: []
+      })
+      await this.apiCall('POST', '/recurring-bills/generate', {})
+      const resumedBills = (await this.apiCall('GET', '/bills')).filter(b => b.recurringBillId === paused.id)
+      if (resumedBills.every(b => b.dueDate.slice(0, 10) >= today)) {
+        this.log('Recurring Schedule Resume', 'PASS', 'Resuming did not create back-dated bills')
+      } else {
+        this.log('Recurring Schedule Resume', 'FAIL', 'Bills were created for the paused months', resumedBills)
+      }
+
+      await this.apiCall('DELETE', `/recurring-bills/${recurringBillId}`)
+      recurringBillId = undefined
+      for (const bill of resumedBills) {
+        await this.apiCall('DELETE', `/bills/${bill.id}`)
+      }
+    } catch (error) {
+      this.log('Recurring Schedule', 'FAIL', `Recurring bill schedule test failed: ${error.message}`, error)
+    } finally {
+      if (recurringBillId) {
+        await this.apiCall('DELETE', `/recurring-bills/${recurringBillId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testVariableRecurringBills() {
+    console.log('\n🔌 Testing Variable Recurring Bills')
+
+    let recurringBillId: string | undefined
+    try {
+      const recurringBill = await this.apiCall('POST', '/recurring-bills', {
+        name: 'Test Electric',
+        amountCents: 10000,
+        dayOfMonth: 12,
+        frequency: 'monthly',
+        lastGeneratedPeriod: '2024-12',
+        splitMode: 'shares',
+        splits: [],
+        amountMode: 'variable',
+        estimateMethod: 'average'
+      })
+      recurringBillId = recurringBill.id
+      const stored = recurringBill.amountMode === 'variable' && recurringBill.estimateMethod === 'average'
+      this.log('Variable Recurring CREATE', stored ? 'PASS' : 'FAIL', 'Amount mode and estimate method stored', recurringBill)
+
+      // With nothing confirmed yet the first bill is estimated at the typical amount
+      const firstRun = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-01' })
+      const first = firstRun.bills.find(b => b.recurringBillId === recurringBillId)
+      if (first?.isEstimated && first.amountCents === 10000) {
+        this.log('Variable Recurring Estimate', 'PASS', 'First bill estimated at the typical amount')
+      } else {
+        this.log('Variable Recurring Estimate', 'FAIL', 'Expected an estimated bill of 10000 cents', firstRun.bills)
+      }
+
+      const confirmed = await this.apiCall('POST', `/bills/${first.id}/confirm-amount`, { amountCents: 12000 })
+      if (!confirmed.isEstimated && confirmed.amountCents === 12000) {
+        this.log('Variable Recurring Confirm', 'PASS', 'Statement amount confirmed')
+      } else {
+        this.log('Variable Recurring Confirm', 'FAIL', 'Expected a confirmed bill of 12000 cents', confirmed)
+      }
+
+      // Later bills are estimated from the confirmed amounts, not the typical amount
+      const laterRun = await this.apiCall('POST', '/recurring-bills/generate', { throughPeriod: '2025-03' })
+      const later = laterRun.bills.filter(b => b.recurringBillId === recurringBillId)
+      if (later.length === 2 && later.every(b => b.isEstimated && b.amountCents === 12000)) {
+        this.log('Variable Recurring Average', 'PASS', 'Later bills estimated from the confirmed amount')
+      } else {
+        this.log('Variable Recurring Average', 'FAIL', 'Expected two estimated bills of 12000 cents', later)
+      }
+
+      try {
+        await this.apiCall('PUT', `/recurring-bills/${recurringBillId}`, {
+          name: 'Test Electric', amountCents: 10000, dayOfMonth: 12, frequency: 'monthly', splitMode: 'shares', splits: [],
+          amountMode: 'variable', estimateMethod: 'median'
+        })
+        this.log('Variable Recurring Validation', 'FAIL', 'Unknown estimate method was accepted')
+      } catch (error) {
+        this.log('Variable Recurring Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Unknown estimate method rejected')
+      }
+
+      await this.apiCall('DELETE', `/recurring-bills/${recurringBillId}`)
+      recurringBillId = undefined
+      const bills = (await this.apiCall('GET', '/bills')).filter(b => b.recurringBillId === recurringBill.id)
+      for (const bill of bills) {
+        await this.apiCall('DELETE', `/bills/${bill.id}`)
+      }
+    } catch (error) {
+      this.log('Variable Recurring Bills', 'FAIL', `Variable recurring bill test failed: ${error.message}`, error)
+    } finally {
+      if (recurringBillId) {
+        await this.apiCall('DELETE', `/recurring-bills/${recurringBillId}`).catch(() => {})
+      }
+    }
+  }
+
   async testMortgagesAPI() {
     console.log('\n🏠 Testing Mortgages API')
 
@@ -398,28 +927,1271 @@ class DatabaseTester {
     }
   }
 
-  async testSettingsAPI() {
-    console.log('\n⚙️ Testing Settings API')
+  async testMortgagePaymentsAPI() {
+    console.log('\n🏦 Testing Mortgage Payments API')
+
+    if (!this.testData.mortgageId) {
+      this.log('Mortgage Payments API', 'SKIP', 'Skipping mortgage payments test - no test mortgage available')
+      return
+    }
 
     try {
-      // GET all settings
-      const settings = await this.apiCall('GET', '/settings')
-      this.log('Settings GET', 'PASS', `Retrieved ${Object.keys(settings).length} settings`)
+      const [mortgageBefore] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+
+      // POST new mortgage payment
+      const createdPayment = await this.apiCall('POST', '/mortgage-payments', {
+        mortgageId: this.testData.mortgageId,
+        paidDate: '2025-02-01',
+        amountCents: 200000,
+        method: 'ach',
+        payerMemberId: this.testData.memberId,
+        allocations: this.testData.memberId ? [
+          { memberId: this.testData.memberId, amountCents: 200000 }
+        ] : []
+      })
 
-      // PUT update setting
-      const updatedSettings = await this.apiCall('PUT', '/settings', {
-        testKey: 'testValue',
-        anotherKey: 'anotherValue'
+      if (createdPayment.id && createdPayment.id !== 'temp-id' && createdPayment.breakdown) {
+        this.log('Mortgage Payments POST', 'PASS', 'Mortgage payment persisted with breakdown')
+        this.testData.mortgagePaymentId = createdPayment.id
+      } else {
+        this.log('Mortgage Payments POST', 'FAIL', 'Mortgage payment not persisted', createdPayment)
+        return
+      }
+
+      const { principalCents, interestCents, escrowCents } = createdPayment.breakdown
+      if (principalCents + interestCents + escrowCents === 200000) {
+        this.log('Mortgage Payment Breakdown', 'PASS', 'Principal, interest and escrow sum to payment amount')
+      } else {
+        this.log('Mortgage Payment Breakdown', 'FAIL', 'Breakdown does not sum to payment amount', createdPayment.breakdown)
+      }
+
+      if (createdPayment.mortgageCurrentPrincipalCents === mortgageBefore.currentPrincipalCents - principalCents) {
+        this.log('Mortgage Principal Update', 'PASS', 'Mortgage principal reduced server-side')
+      } else {
+        this.log('Mortgage Principal Update', 'FAIL', 'Mortgage principal not reduced by payment principal', {
+          before: mortgageBefore.currentPrincipalCents,
+          after: createdPayment.mortgageCurrentPrincipalCents,
+          principalCents
+        })
+      }
+
+      // Verify the payment survives a reload
+      const [mortgageAfter] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      if (mortgageAfter.payments?.some(p => p.id === createdPayment.id)) {
+        this.log('Mortgage Payments GET', 'PASS', 'Mortgage payment returned with its mortgage')
+      } else {
+        this.log('Mortgage Payments GET', 'FAIL', 'Mortgage payment missing from mortgage', mortgageAfter)
+      }
+
+      // DELETE restores the principal
+      const deleted = await this.apiCall('DELETE', `/mortgage-payments/${createdPayment.id}`)
+      if (deleted.mortgageCurrentPrincipalCents === mortgageBefore.currentPrincipalCents) {
+        this.log('Mortgage Payments DELETE', 'PASS', 'Mortgage principal restored after deleting payment')
+        this.testData.mortgagePaymentId = undefined
+      } else {
+        this.log('Mortgage Payments DELETE', 'FAIL', 'Mortgage principal not restored', deleted)
+      }
+
+      // Restoring from the trash brings the payment back and pays its principal down again
+      await this.apiCall('POST', `/trash/mortgage-payment/${createdPayment.id}/restore`)
+      const [mortgageRestored] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      if (mortgageRestored.payments?.some(p => p.id === createdPayment.id) &&
+          mortgageRestored.currentPrincipalCents === mortgageBefore.currentPrincipalCents - principalCents) {
+        this.log('Mortgage Payments Restore', 'PASS', 'Restored payment reduces the principal again')
+      } else {
+        this.log('Mortgage Payments Restore', 'FAIL', 'Restored payment missing or principal not reduced', mortgageRestored)
+      }
+
+      // Editing an earlier payment works out the breakdowns of the payments after it again
+      const laterPayment = await this.apiCall('POST', '/mortgage-payments', {
+        mortgageId: this.testData.mortgageId,
+        paidDate: '2025-03-01',
+        amountCents: 200000,
+        method: 'ach',
+        payerMemberId: this.testData.memberId
+      })
+      const updated = await this.apiCall('PUT', `/mortgage-payments/${createdPayment.id}`, {
+        paidDate: '2025-02-01',
+        amountCents: 5000000,
+        method: 'ach',
+        payerMemberId: this.testData.memberId
       })
+      const [mortgageUpdated] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      const laterUpdated = mortgageUpdated.payments?.find(p => p.id === laterPayment.id)
+      if (laterUpdated && laterUpdated.breakdown.interestCents < laterPayment.breakdown.interestCents &&
+          mortgageUpdated.currentPrincipalCents === mortgageBefore.currentPrincipalCents - updated.breakdown.principalCents - laterUpdated.breakdown.principalCents) {
+        this.log('Mortgage Payments PUT Later Breakdowns', 'PASS', 'Later payment charged interest on the lower balance')
+      } else {
+        this.log('Mortgage Payments PUT Later Breakdowns', 'FAIL', 'Later payment breakdown or principal not recalculated', { laterPayment, laterUpdated, mortgageUpdated })
+      }
 
-      if (updatedSettings.testKey === 'testValue') {
-        this.log('Settings PUT', 'PASS', 'Settings updated successfully')
+      // Recording a backdated payment, and deleting it again, works out the payments after it again
+      const backdated = await this.apiCall('POST', '/mortgage-payments', {
+        mortgageId: this.testData.mortgageId,
+        paidDate: '2025-01-01',
+        amountCents: 5000000,
+        method: 'ach',
+        payerMemberId: this.testData.memberId
+      })
+      const [mortgageBackdated] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      const paymentIds = [createdPayment.id, laterPayment.id, backdated.id]
+      const paidDownCents = mortgageBackdated.payments
+        .filter(p => paymentIds.includes(p.id))
+        .reduce((sum, p) => sum + p.breakdown.principalCents, 0)
+      const editedAfterBackdated = mortgageBackdated.payments.find(p => p.id === createdPayment.id)
+      if (editedAfterBackdated.breakdown.interestCents < updated.breakdown.interestCents &&
+          mortgageBackdated.currentPrincipalCents === mortgageBefore.currentPrincipalCents - paidDownCents) {
+        this.log('Mortgage Payments POST Backdated', 'PASS', 'Later payments charged interest on the lower balance')
       } else {
-        this.log('Settings PUT', 'FAIL', 'Settings update failed', updatedSettings)
+        this.log('Mortgage Payments POST Backdated', 'FAIL', 'Later breakdowns or principal not recalculated', mortgageBackdated)
+      }
+
+      await this.apiCall('DELETE', `/mortgage-payments/${backdated.id}`)
+      const [mortgageUndone] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      const editedAfterDelete = mortgageUndone.payments.find(p => p.id === createdPayment.id)
+      if (editedAfterDelete.breakdown.interestCents === updated.breakdown.interestCents &&
+          mortgageUndone.currentPrincipalCents === mortgageUpdated.currentPrincipalCents) {
+        this.log('Mortgage Payments DELETE Backdated', 'PASS', 'Later breakdowns and principal back to what they were')
+      } else {
+        this.log('Mortgage Payments DELETE Backdated', 'FAIL', 'Later breakdowns or principal not recalculated', mortgageUndone)
+      }
+
+      await this.apiCall('POST', `/trash/mortgage-payment/${backdated.id}/restore`)
+      const [mortgageRedone] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      const editedAfterRestore = mortgageRedone.payments.find(p => p.id === createdPayment.id)
+      if (editedAfterRestore.breakdown.interestCents === editedAfterBackdated.breakdown.interestCents &&
+          mortgageRedone.currentPrincipalCents === mortgageBackdated.currentPrincipalCents) {
+        this.log('Mortgage Payments Restore Backdated', 'PASS', 'Later breakdowns and principal worked out with the payment again')
+      } else {
+        this.log('Mortgage Payments Restore Backdated', 'FAIL', 'Later breakdowns or principal not recalculated', mortgageRedone)
+      }
+      await this.apiCall('DELETE', `/mortgage-payments/${backdated.id}`)
+      await this.apiCall('DELETE', `/trash/mortgage-payment/${backdated.id}`)
+
+      for (const paymentId of [createdPayment.id, laterPayment.id]) {
+        await this.apiCall('DELETE', `/mortgage-payments/${paymentId}`)
+        await this.apiCall('DELETE', `/trash/mortgage-payment/${paymentId}`)
       }
 
     } catch (error) {
-      this.log('Settings API', 'FAIL', `Settings API test failed: ${error.message}`, error)
+      this.log('Mortgage Payments API', 'FAIL', `Mortgage Payments API test failed: ${error.message}`, error)
+    }
+  }
+
+  async testMortgageAmortization() {
+    console.log('\n📉 Testing Mortgage Amortization')
+
+    if (!this.testData.mortgageId) {
+      this.log('Mortgage Amortization', 'SKIP', 'Skipping amortization test - no test mortgage available')
+      return
+    }
+
+    try {
+      const [mortgage] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      const { baseline, whatIf } = await this.apiCall('GET', `/mortgages/${this.testData.mortgageId}/amortization`)
+      const rows = baseline.schedule
+      const principalPaid = rows.reduce((sum, row) => sum + row.principalCents, 0)
+      if (!whatIf && rows.length > 0 && rows[rows.length - 1].balanceCents === 0 &&
+          principalPaid === mortgage.currentPrincipalCents && baseline.summary.payoffDate === rows[rows.length - 1].dueDate) {
+        this.log('Amortization Schedule', 'PASS', `${rows.length} payments pay off the balance by ${baseline.summary.payoffDate}`)
+      } else {
+        this.log('Amortization Schedule', 'FAIL', 'Schedule does not pay off the current principal', baseline.summary)
+      }
+
+      const withExtra = await this.apiCall('GET', `/mortgages/${this.testData.mortgageId}/amortization?extraMonthlyCents=50000&biweekly=true`)
+      if (withExtra.whatIf && withExtra.whatIf.interestSavedCents > 0 && withExtra.whatIf.monthsSaved > 0 &&
+          withExtra.whatIf.summary.payoffDate < baseline.summary.payoffDate) {
+        this.log('Amortization What-If', 'PASS', `Extra payments save ${withExtra.whatIf.monthsSaved} months`)
+      } else {
+        this.log('Amortization What-If', 'FAIL', 'Extra payments did not shorten the loan', withExtra.whatIf?.summary)
+      }
+
+      try {
+        await this.apiCall('GET', `/mortgages/${this.testData.mortgageId}/amortization?lumpSumCents=-5`)
+        this.log('Amortization Validation', 'FAIL', 'Negative lump sum was accepted')
+      } catch (error) {
+        this.log('Amortization Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Negative lump sum rejected')
+      }
+    } catch (error) {
+      this.log('Mortgage Amortization', 'FAIL', `Amortization test failed: ${error.message}`, error)
+    }
+  }
+
+  async testMortgageRateEvents() {
+    console.log('\n🔁 Testing Mortgage Refinances and Rate Resets')
+
+    if (!this.testData.mortgageId) {
+      this.log('Mortgage Rate Events', 'SKIP', 'Skipping rate event test - no test mortgage available')
+      return
+    }
+
+    let eventId: string | undefined
+    try {
+      const before = await this.apiCall('GET', `/mortgages/${this.testData.mortgageId}/amortization`)
+      const resetDate = `${new Date().getFullYear() + 2}-01-01`
+      const event = await this.apiCall('POST', `/mortgages/${this.testData.mortgageId}/rate-events`, {
+        kind: 'rate-reset',
+        effectiveDate: resetDate,
+        interestRateApy: 8.25
+      })
+      eventId = event.id
+
+      const after = await this.apiCall('GET', `/mortgages/${this.testData.mortgageId}/amortization`)
+      const [mortgage] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      const resetRow = after.baseline.schedule.find(row => row.dueDate >= resetDate)
+      if (mortgage.rateEvents?.some(e => e.id === eventId) && resetRow &&
+          after.baseline.summary.totalInterestCents > before.baseline.summary.totalInterestCents &&
+          resetRow.paymentCents > after.baseline.schedule[0].paymentCents) {
+        this.log('Rate Reset', 'PASS', `Payment rises to ${resetRow.paymentCents} cents from ${resetDate}`)
+      } else {
+        this.log('Rate Reset', 'FAIL', 'Amortization does not reflect the rate reset', after.baseline.summary)
+      }
+
+      const breakEven = await this.apiCall('GET',
+        `/mortgages/${this.testData.mortgageId}/refinance-break-even?interestRateApy=5&termMonths=360&closingCostsCents=500000`)
+      if (breakEven.monthlySavingsCents > 0 && breakEven.breakEvenMonths === Math.ceil(500000 / breakEven.monthlySavingsCents)) {
+        this.log('Refinance Break-Even', 'PASS', `Closing costs recovered after ${breakEven.breakEvenMonths} months`)
+      } else {
+        this.log('Refinance Break-Even', 'FAIL', 'Unexpected break-even for a lower rate', breakEven)
+      }
+
+      try {
+        await this.apiCall('POST', `/mortgages/${this.testData.mortgageId}/rate-events`, {
+          kind: 'rate-reset',
+          effectiveDate: resetDate,
+          interestRateApy: 7,
+          termMonths: 180
+        })
+        this.log('Rate Event Validation', 'FAIL', 'Rate reset with a new term was accepted')
+      } catch (error) {
+        this.log('Rate Event Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Rate reset with a new term rejected')
+      }
+
+      try {
+        await this.apiCall('POST', `/mortgages/${this.testData.mortgageId}/rate-events`, {
+          kind: 'rate-reset',
+          effectiveDate: '2026-02-31',
+          interestRateApy: 7
+        })
+        this.log('Rate Event Date Validation', 'FAIL', 'Rate reset on an impossible date was accepted')
+      } catch (error) {
+        this.log('Rate Event Date Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Impossible effectiveDate rejected')
+      }
+    } catch (error) {
+      this.log('Mortgage Rate Events', 'FAIL', `Rate event test failed: ${error.message}`, error)
+    } finally {
+      if (eventId) {
+        await this.apiCall('DELETE', `/mortgages/${this.testData.mortgageId}/rate-events/${eventId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testEscrowAccount() {
+    console.log('\n🏦 Testing Escrow Account')
+
+    if (!this.testData.mortgageId) {
+      this.log('Escrow Account', 'SKIP', 'Skipping escrow test - no test mortgage available')
+      return
+    }
+
+    const escrowPath = `/mortgages/${this.testData.mortgageId}/escrow`
+    let disbursementId: string | undefined
+    try {
+      const before = await this.apiCall('PUT', escrowPath, { openingBalanceCents: 100000 })
+      const paidOn = new Date()
+      paidOn.setMonth(paidOn.getMonth() - 2)
+      const disbursedDate = paidOn.toISOString().slice(0, 10)
+      const disbursement = await this.apiCall('POST', `${escrowPath}/disbursements`, {
+        category: 'taxes',
+        amountCents: 600000,
+        disbursedDate
+      })
+      disbursementId = disbursement.id
+
+      const account = await this.apiCall('GET', escrowPath)
+      const expected = account.analysis.expectedDisbursements
+      if (account.balanceCents === before.balanceCents - 600000 && account.analysis.rows.length === 12 &&
+          expected.length === 1 && expected[0].date.slice(5) === disbursedDate.slice(5) &&
+          account.analysis.annualDisbursementCents === 600000 && account.analysis.suggestedCategoryCents.taxes === 50000) {
+        this.log('Escrow Projection', 'PASS', `Projected ${account.analysis.status} with a low point of ${account.analysis.lowPointCents} cents`)
+      } else {
+        this.log('Escrow Projection', 'FAIL', 'Escrow balance or projection is wrong', account)
+      }
+
+      try {
+        await this.apiCall('POST', `${escrowPath}/disbursements`, { category: 'taxes', amountCents: 100, disbursedDate: '2999-01-01' })
+        this.log('Escrow Disbursement Validation', 'FAIL', 'Future disbursement was accepted')
+      } catch (error) {
+        this.log('Escrow Disbursement Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Future disbursement rejected')
+      }
+
+      const adjustment = await this.apiCall('POST', `${escrowPath}/adjustments`, {
+        effectiveDate: account.nextAnalysisDate,
+        escrowTaxesCents: 55000,
+        escrowInsuranceCents: 15000
+      })
+      const [mortgage] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+      const adjusted = await this.apiCall('GET', escrowPath)
+      if (adjustment.previousEscrowCents === 65000 && adjustment.scheduledPaymentCents === adjustment.previousScheduledPaymentCents + 5000 &&
+          mortgage.escrowTaxesCents === 55000 && mortgage.scheduledPaymentCents === adjustment.scheduledPaymentCents &&
+          adjusted.monthlyEscrowCents === 70000 && adjusted.adjustments[0].id === adjustment.id) {
+        this.log('Escrow Adjustment', 'PASS', `Scheduled payment now ${adjustment.scheduledPaymentCents} cents`)
+      } else {
+        this.log('Escrow Adjustment', 'FAIL', 'Adjustment did not update the mortgage', { adjustment, mortgage })
+      }
+
+      await this.apiCall('POST', `${escrowPath}/adjustments`, {
+        effectiveDate: account.nextAnalysisDate,
+        escrowTaxesCents: 50000,
+        escrowInsuranceCents: 15000,
+        scheduledPaymentCents: adjustment.previousScheduledPaymentCents
+      })
+    } catch (error) {
+      this.log('Escrow Account', 'FAIL', `Escrow test failed: ${error.message}`, error)
+    } finally {
+      if (disbursementId) {
+        await this.apiCall('DELETE', `${escrowPath}/disbursements/${disbursementId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testTaxSummaryReport() {
+    console.log('\n🧾 Testing Tax Summary Report')
+
+    if (!this.testData.mortgageId) {
+      this.log('Tax Summary', 'SKIP', 'Skipping tax summary test - no test mortgage available')
+      return
+    }
+
+    const year = new Date().getFullYear() - 1
+    let paymentId: string | undefined
+    let disbursementId: string | undefined
+    try {
+      const payment = await this.apiCall('POST', '/mortgage-payments', {
+        mortgageId: this.testData.mortgageId,
+        paidDate: `${year}-03-01`,
+        amountCents: 200000,
+        method: 'ach',
+        payerMemberId: this.testData.memberId
+      })
+      paymentId = payment.id
+      const disbursement = await this.apiCall('POST', `/mortgages/${this.testData.mortgageId}/escrow/disbursements`, {
+        category: 'taxes',
+        amountCents: 300000,
+        disbursedDate: `${year}-11-15`
+      })
+      disbursementId = disbursement.id
+
+      const summary = await this.apiCall('GET', `/reports/tax-summary?year=${year}`)
+      const mortgage = summary.mortgages.find(m => m.mortgageId === this.testData.mortgageId)
+      const memberShare = summary.members.reduce((sum, member) => sum + member.mortgageInterestCents, 0)
+      if (mortgage && mortgage.interestCents === payment.breakdown.interestCents && mortgage.escrowDisbursementCents.taxes === 300000 &&
+          summary.totals.propertyTaxCents >= 300000 && memberShare === summary.totals.mortgageInterestCents) {
+        this.log('Tax Summary', 'PASS', `${year}: ${summary.totals.mortgageInterestCents} cents of mortgage interest`)
+      } else {
+        this.log('Tax Summary', 'FAIL', 'Tax summary totals are wrong', summary)
+      }
+
+      const response = await fetch(`${API_BASE}/api/reports/tax-summary?year=${year}&format=csv`, {
+        headers: { Authorization: `Bearer ${this.sessionToken}` }
+      })
+      const csv = await response.text()
+      if (response.ok && response.headers.get('content-type')?.startsWith('text/csv') &&
+          csv.startsWith('Section,Item,Detail,Amount') && csv.includes('Property tax paid from escrow,3000.00')) {
+        this.log('Tax Summary CSV', 'PASS', `${csv.trim().split('\r\n').length} rows`)
+      } else {
+        this.log('Tax Summary CSV', 'FAIL', 'CSV download is wrong', csv)
+      }
+
+      try {
+        await this.apiCall('GET', '/reports/tax-summary?year=nineteen')
+        this.log('Tax Summary Validation', 'FAIL', 'Invalid year was accepted')
+      } catch (error) {
+        this.log('Tax Summary Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Invalid year rejected')
+      }
+    } catch (error) {
+      this.log('Tax Summary', 'FAIL', `Tax summary test failed: ${error.message}`, error)
+    } finally {
+      if (paymentId) {
+        await this.apiCall('DELETE', `/mortgage-payments/${paymentId}`).catch(() => {})
+      }
+      if (disbursementId) {
+        await this.apiCall('DELETE', `/mortgages/${this.testData.mortgageId}/escrow/disbursements/${disbursementId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testBudgetsAPI() {
+    console.log('\n🎯 Testing Budgets API')
+
+    if (!this.testData.mortgageId || !this.testData.memberId) {
+      this.log('Budgets', 'SKIP', 'Skipping budgets test - no test mortgage available')
+      return
+    }
+
+    const year = new Date().getFullYear() - 1
+    const paymentIds: string[] = []
+    let budgetId: string | undefined
+    try {
+      for (const paidDate of [`${year}-05-03`, `${year}-06-03`]) {
+        const payment = await this.apiCall('POST', '/mortgage-payments', {
+          mortgageId: this.testData.mortgageId,
+          paidDate,
+          amountCents: 200000,
+          method: 'ach',
+          payerMemberId: this.testData.memberId
+        })
+        paymentIds.push(payment.id)
+      }
+
+      const budget = await this.apiCall('POST', '/budgets', {
+        categoryId: 'cat-housing',
+        memberId: this.testData.memberId,
+        amountCents: 250000,
+        rollover: true,
+        startMonth: `${year}-05`,
+        monthAmounts: [{ month: `${year}-06`, amountCents: 150000 }]
+      })
+      budgetId = budget.id
+      this.log('Budget CREATE', budget.monthAmounts.length === 1 ? 'PASS' : 'FAIL', `Created budget ${budget.id}`)
+
+      const may = (await this.apiCall('GET', `/budgets/status?month=${year}-05`)).budgets.find(b => b.budgetId === budgetId)
+      const june = await this.apiCall('GET', `/budgets/status?month=${year}-06`)
+      const juneStatus = june.budgets.find(b => b.budgetId === budgetId)
+      if (may && juneStatus && may.spentCents > 0 && juneStatus.limitCents === 150000 &&
+          juneStatus.rolloverCents === Math.max(0, 250000 - may.spentCents) &&
+          juneStatus.availableCents === juneStatus.limitCents + juneStatus.rolloverCents &&
+          juneStatus.status === (juneStatus.spentCents > juneStatus.availableCents ? 'over' : juneStatus.percentUsed >= 90 ? 'near' : 'under')) {
+        this.log('Budget Status', 'PASS', `June: ${juneStatus.spentCents} of ${juneStatus.availableCents} cents (${juneStatus.status})`)
+      } else {
+        this.log('Budget Status', 'FAIL', 'Budget status is wrong', { may, june })
+      }
+
+      const april = await this.apiCall('GET', `/budgets/status?month=${year}-04`)
+      this.log('Budget Start Month', april.budgets.some(b => b.budgetId === budgetId) ? 'FAIL' : 'PASS', 'Budget is left out before it starts')
+
+      try {
+        await this.apiCall('POST', '/budgets', { amountCents: 1000 })
+        this.log('Budget Validation', 'FAIL', 'Budget without a category or member was accepted')
+      } catch (error) {
+        this.log('Budget Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Budget without a category or member rejected')
+      }
+
+      await this.apiCall('DELETE', `/budgets/${budgetId}`)
+      budgetId = undefined
+      const remaining = await this.apiCall('GET', '/budgets')
+      this.log('Budget DELETE', remaining.some(b => b.id === budget.id) ? 'FAIL' : 'PASS', 'Deleted budget')
+    } catch (error) {
+      this.log('Budgets', 'FAIL', `Budgets test failed: ${error.message}`, error)
+    } finally {
+      if (budgetId) {
+        await this.apiCall('DELETE', `/budgets/${budgetId}`).catch(() => {})
+      }
+      for (const paymentId of paymentIds) {
+        await this.apiCall('DELETE', `/mortgage-payments/${paymentId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testIncomeAPI() {
+    console.log('\n💵 Testing Income API')
+
+    if (!this.testData.memberId) {
+      this.log('Income', 'SKIP', 'Skipping income test - no test member available')
+      return
+    }
+
+    let sourceId: string | undefined
+    let depositId: string | undefined
+    try {
+      const source = await this.apiCall('POST', '/income-sources', {
+        memberId: this.testData.memberId,
+        name: 'Test Payroll',
+        kind: 'salary',
+        amountCents: 150000,
+        frequency: 'biweekly'
+      })
+      sourceId = source.id
+      this.log('Income Source CREATE', source.active && source.frequency === 'biweekly' ? 'PASS' : 'FAIL', `Created income source ${source.id}`)
+
+      const deposit = await this.apiCall('POST', '/income-deposits', { incomeSourceId: source.id })
+      depositId = deposit.id
+      if (deposit.memberId === this.testData.memberId && deposit.amountCents === 150000 && deposit.incomeSourceName === 'Test Payroll') {
+        this.log('Income Deposit CREATE', 'PASS', `Recorded deposit on ${deposit.depositedDate}`)
+      } else {
+        this.log('Income Deposit CREATE', 'FAIL', 'Deposit did not take the source defaults', deposit)
+      }
+
+      const cashFlow = await this.apiCall('GET', '/analytics/cash-flow?timeRange=current-month')
+      const member = cashFlow.members.find(m => m.memberId === this.testData.memberId)
+      if (member && member.incomeCents >= 150000 && cashFlow.netCents === cashFlow.incomeCents - cashFlow.spendingCents &&
+          cashFlow.savingsRatePercent === Math.round((cashFlow.netCents / cashFlow.incomeCents) * 1000) / 10) {
+        this.log('Cash Flow', 'PASS', `Net ${cashFlow.netCents} cents, savings rate ${cashFlow.savingsRatePercent}%`)
+      } else {
+        this.log('Cash Flow', 'FAIL', 'Cash flow figures are wrong', cashFlow)
+      }
+
+      try {
+        await this.apiCall('POST', '/income-sources', { memberId: this.testData.memberId, name: 'Bad', amountCents: 1000, frequency: 'fortnightly' })
+        this.log('Income Source Validation', 'FAIL', 'Unknown pay frequency was accepted')
+      } catch (error) {
+        this.log('Income Source Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Unknown pay frequency rejected')
+      }
+
+      await this.apiCall('DELETE', `/income-sources/${source.id}`)
+      sourceId = undefined
+      const deposits = await this.apiCall('GET', '/income-deposits')
+      const kept = deposits.find(d => d.id === deposit.id)
+      this.log('Income Source DELETE', kept && kept.incomeSourceId === null ? 'PASS' : 'FAIL', 'Deleting a source keeps its deposits')
+    } catch (error) {
+      this.log('Income', 'FAIL', `Income test failed: ${error.message}`, error)
+    } finally {
+      if (depositId) {
+        await this.apiCall('DELETE', `/income-deposits/${depositId}`).catch(() => {})
+      }
+      if (sourceId) {
+        await this.apiCall('DELETE', `/income-sources/${sourceId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testForecastAPI() {
+    console.log('\n🔮 Testing Forecast API')
+
+    if (!this.testData.memberId) {
+      this.log('Forecast', 'SKIP', 'Skipping forecast test - no test member available')
+      return
+    }
+
+    let sourceId: string | undefined
+    try {
+      const source = await this.apiCall('POST', '/income-sources', {
+        memberId: this.testData.memberId,
+        name: 'Forecast Payroll',
+        amountCents: 100000,
+        frequency: 'semimonthly'
+      })
+      sourceId = source.id
+
+      const forecast = await this.apiCall('GET', '/forecast?startingBalanceCents=500000')
+      const netTotal = forecast.months.reduce((sum, month) => sum + month.netCents, 0)
+      const memberIncome = forecast.months.reduce((sum, month) =>
+        sum + (month.members.find(m => m.memberId === this.testData.memberId)?.inflowCents ?? 0), 0)
+      const incomeDays = forecast.days.filter(day => day.entries.some(entry => entry.id === source.id)).length
+      const hasMortgage = !this.testData.mortgageId ||
+        forecast.days.some(day => day.entries.some(entry => entry.type === 'mortgage' && entry.id === this.testData.mortgageId))
+      if (forecast.months.length === 12 && forecast.months[11].endingBalanceCents === 500000 + netTotal &&
+          incomeDays >= 22 && memberIncome >= incomeDays * 100000 && hasMortgage) {
+        this.log('Forecast', 'PASS', `12 months, ending balance ${forecast.months[11].endingBalanceCents} cents, tightest ${forecast.tightestMonth}`)
+      } else {
+        this.log('Forecast', 'FAIL', 'Forecast totals are wrong', { incomeDays, memberIncome, hasMortgage, months: forecast.months })
+      }
+
+      const running = forecast.days.every((day, i) => {
+        const previous = i === 0 ? forecast.startingBalanceCents : forecast.days[i - 1].balanceCents
+        return day.balanceCents === previous + day.inflowCents - day.outflowCents
+      })
+      this.log('Forecast Daily Balance', running ? 'PASS' : 'FAIL', `${forecast.days.length} days with entries`)
+
+      try {
+        await this.apiCall('GET', '/forecast?months=0')
+        this.log('Forecast Validation', 'FAIL', 'months=0 was accepted')
+      } catch (error) {
+        this.log('Forecast Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'months=0 rejected')
+      }
+    } catch (error) {
+      this.log('Forecast', 'FAIL', `Forecast test failed: ${error.message}`, error)
+    } finally {
+      if (sourceId) {
+        await this.apiCall('DELETE', `/income-sources/${sourceId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testSavingsGoalsAPI() {
+    console.log('\n🐷 Testing Savings Goals API')
+
+    if (!this.testData.memberId) {
+      this.log('Savings Goals', 'SKIP', 'Skipping savings goals test - no test member available')
+      return
+    }
+
+    let goalId: string | undefined
+    try {
+      const targetDate = `${new Date().getFullYear() + 1}-12-31`
+      const goal = await this.apiCall('POST', '/savings-goals', {
+        name: 'Test Vacation',
+        targetCents: 120000,
+        targetDate,
+        splitMode: 'shares',
+        splits: [{ memberId: this.testData.memberId, value: 1 }]
+      })
+      goalId = goal.id
+      const monthsLeft = goal.progress.monthsLeft
+      if (goal.progress.savedCents === 0 && monthsLeft > 12 && goal.progress.requiredMonthlyCents === Math.ceil(120000 / monthsLeft)) {
+        this.log('Savings Goal CREATE', 'PASS', `Needs ${goal.progress.requiredMonthlyCents} cents/month over ${monthsLeft} months`)
+      } else {
+        this.log('Savings Goal CREATE', 'FAIL', 'New goal progress is wrong', goal)
+      }
+
+      const updated = await this.apiCall('POST', `/savings-goals/${goal.id}/contributions`, {
+        memberId: this.testData.memberId,
+        amountCents: 20000,
+        method: 'zelle'
+      })
+      const progress = updated.progress
+      if (progress.savedCents === 20000 && progress.remainingCents === 100000 && progress.actualMonthlyCents === 20000 &&
+          progress.requiredMonthlyCents === Math.ceil(100000 / monthsLeft) && progress.status === 'on-track' &&
+          progress.projectedCompletionDate && updated.recentContributions[0].method === 'zelle') {
+        this.log('Savings Contribution', 'PASS', `On pace for ${progress.projectedCompletionDate}`)
+      } else {
+        this.log('Savings Contribution', 'FAIL', 'Progress after a contribution is wrong', updated)
+      }
+
+      try {
+        await this.apiCall('POST', `/savings-goals/${goal.id}/contributions`, { memberId: this.testData.memberId, amountCents: 100, method: 'bitcoin' })
+        this.log('Savings Contribution Validation', 'FAIL', 'Unknown payment method was accepted')
+      } catch (error) {
+        this.log('Savings Contribution Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Unknown payment method rejected')
+      }
+
+      try {
+        await this.apiCall('POST', '/savings-goals', { name: 'Bad', targetCents: 1000, targetDate, splitMode: 'amount', splits: [{ memberId: this.testData.memberId, value: 1000 }] })
+        this.log('Savings Goal Validation', 'FAIL', 'Amount splits were accepted')
+      } catch (error) {
+        this.log('Savings Goal Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Amount splits rejected')
+      }
+
+      await this.apiCall('DELETE', `/savings-goals/${goal.id}`)
+      goalId = undefined
+      const goals = await this.apiCall('GET', '/savings-goals')
+      this.log('Savings Goal DELETE', goals.some(g => g.id === goal.id) ? 'FAIL' : 'PASS', 'Deleted savings goal')
+    } catch (error) {
+      this.log('Savings Goals', 'FAIL', `Savings goals test failed: ${error.message}`, error)
+    } finally {
+      if (goalId) {
+        await this.apiCall('DELETE', `/savings-goals/${goalId}`).catch(() => {})
+      }
+    }
+  }
+
+  async testNetWorthAPI() {
+    console.log('\n📈 Testing Net Worth API')
+
+    const accountIds: string[] = []
+    try {
+      const checking = await this.apiCall('POST', '/financial-accounts', { name: 'Test Checking', kind: 'checking', institution: 'Test Bank' })
+      accountIds.push(checking.id)
+      const card = await this.apiCall('POST', '/financial-accounts', { name: 'Test Card', kind: 'credit-card' })
+      accountIds.push(card.id)
+      this.log('Financial Account CREATE', checking.kind === 'checking' && checking.balances.length === 0 ? 'PASS' : 'FAIL', 'Created checking and credit card accounts')
+
+      const lastYear = `${new Date().getFullYear() - 1}-01-15`
+      await this.apiCall('POST', `/financial-accounts/${checking.id}/balances`, { balanceCents: 300000, asOfDate: lastYear })
+      await this.apiCall('POST', `/financial-accounts/${checking.id}/balances`, { balanceCents: 500000 })
+      const withCard = await this.apiCall('POST', `/financial-accounts/${card.id}/balances`, { balanceCents: 20000 })
+      const replaced = await this.apiCall('POST', `/financial-accounts/${card.id}/balances`, { balanceCents: 25000 })
+      if (withCard.balances.length === 1 && replaced.balances.length === 1 && replaced.balances[0].balanceCents === 25000) {
+        this.log('Account Balance', 'PASS', 'A second balance on the same date replaces the first')
+      } else {
+        this.log('Account Balance', 'FAIL', 'Same-day balances were not replaced', replaced)
+      }
+
+      const netWorth = await this.apiCall('GET', '/net-worth')
+      const { current, history } = netWorth
+      const checkingItem = current.assets.find(item => item.id === checking.id)
+      const cardItem = current.liabilities.find(item => item.id === card.id)
+      const mortgageItem = current.liabilities.find(item => item.id === this.testData.mortgageId)
+      if (checkingItem?.balanceCents === 500000 && cardItem?.balanceCents === 25000 &&
+          current.netWorthCents === current.assetsCents - current.liabilitiesCents &&
+          (!this.testData.mortgageId || mortgageItem?.source === 'mortgage')) {
+        this.log('Net Worth', 'PASS', `Net worth ${current.netWorthCents} cents`)
+      } else {
+        this.log('Net Worth', 'FAIL', 'Net worth breakdown is wrong', current)
+      }
+
+      if (history.length === 12 && history[11].netWorthCents === current.netWorthCents && history[0].date < history[11].date) {
+        this.log('Net Worth History', 'PASS', `From ${history[0].date} to ${history[11].date}`)
+      } else {
+        this.log('Net Worth History', 'FAIL', 'History should end with today', history)
+      }
+
+      try {
+        await this.apiCall('POST', '/financial-accounts', { name: 'Piggy bank', kind: 'piggy-bank' })
+        this.log('Financial Account Validation', 'FAIL', 'Unknown account kind was accepted')
+      } catch (error) {
+        this.log('Financial Account Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Unknown account kind rejected')
+      }
+
+      for (const id of accountIds.splice(0)) {
+        await this.apiCall('DELETE', `/financial-accounts/${id}`)
+      }
+      const accounts = await this.apiCall('GET', '/financial-accounts')
+      this.log('Financial Account DELETE', accounts.some(a => a.id === checking.id) ? 'FAIL' : 'PASS', 'Deleted accounts')
+    } catch (error) {
+      this.log('Net Worth', 'FAIL', `Net worth test failed: ${error.message}`, error)
+    } finally {
+      for (const id of accountIds) {
+        await this.apiCall('DELETE', `/financial-accounts/${id}`).catch(() => {})
+      }
+    }
+  }
+
+  async testAutopayAPI() {
+    console.log('\n💳 Testing Autopay API')
+
+    let accountId: string | null = null
+    let billId: string | null = null
+    try {
+      const account = await this.apiCall('POST', '/financial-accounts', { name: 'Autopay Checking', kind: 'checking' })
+      accountId = account.id
+      await this.apiCall('POST', `/financial-accounts/${account.id}/balances`, { balanceCents: 1000 })
+
+      const now = new Date()
+      const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+      const bill = await this.apiCall('POST', '/bills', {
+        name: 'Test Autopay Bill',
+        amountCents: 2500,
+        dueDate: today,
+        autopayAccountId: account.id,
+        splitMode: 'shares',
+        splits: [{ memberId: this.testData.memberId, value: 1 }]
+      })
+      billId = bill.id
+      this.log('Autopay Bill CREATE', bill.autopayAccountId === account.id ? 'PASS' : 'FAIL', 'Bill set to autopay from checking')
+
+      const upcoming = await this.apiCall('GET', '/autopay/upcoming')
+      const upcomingAccount = upcoming.accounts.find(a => a.accountId === account.id)
+      if (upcomingAccount?.debits.some(d => d.itemId === bill.id) && upcomingAccount.shortfallCents === 1500) {
+        this.log('Upcoming Debits', 'PASS', `${upcomingAccount.debits.length} debit(s), ${upcomingAccount.shortfallCents} cents short`)
+      } else {
+        this.log('Upcoming Debits', 'FAIL', 'Autopay bill missing from upcoming debits', upcoming)
+      }
+
+      const dryRun = await this.apiCall('POST', '/autopay/run?dryRun=true')
+      const pending = dryRun.payments.find(p => p.itemId === bill.id)
+      this.log('Autopay Dry Run', pending?.status === 'pending' ? 'PASS' : 'FAIL', 'Dry run lists the bill without paying it', dryRun)
+
+      const run = await this.apiCall('POST', '/autopay/run')
+      const again = await this.apiCall('POST', '/autopay/run')
+      const bills = await this.apiCall('GET', '/bills')
+      const paid = bills.find(b => b.id === bill.id)
+      if (run.payments.find(p => p.itemId === bill.id)?.status === 'paid' && !again.payments.some(p => p.itemId === bill.id) &&
+          paid?.payments.length === 1 && paid.payments[0].accountId === account.id && paid.payments[0].amountCents === 2500) {
+        this.log('Autopay Run', 'PASS', 'Bill paid once from its autopay account')
+      } else {
+        this.log('Autopay Run', 'FAIL', 'Autopay did not pay the bill exactly once', { run, again, paid })
+      }
+
+      try {
+        await this.apiCall('POST', '/payments', {
+          billId: bill.id, paidDate: today, amountCents: 100, method: 'ach', accountId: 'not-an-account', allocations: []
+        })
+        this.log('Payment Account Validation', 'FAIL', 'Unknown account was accepted')
+      } catch (error) {
+        this.log('Payment Account Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Unknown payment account rejected')
+      }
+    } catch (error) {
+      this.log('Autopay', 'FAIL', `Autopay test failed: ${error.message}`, error)
+    } finally {
+      if (billId) await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+      if (accountId) await this.apiCall('DELETE', `/financial-accounts/${accountId}`).catch(() => {})
+    }
+  }
+
+  async testSettingsAPI() {
+    console.log('\n⚙️ Testing Settings API')
+
+    try {
+      // GET all settings
+      const settings = await this.apiCall('GET', '/settings')
+      this.log('Settings GET', 'PASS', `Retrieved ${Object.keys(settings).length} settings`)
+
+      // PUT update setting
+      const updatedSettings = await this.apiCall('PUT', '/settings', {
+        testKey: 'testValue',
+        anotherKey: 'anotherValue'
+      })
+
+      if (updatedSettings.testKey === 'testValue') {
+        this.log('Settings PUT', 'PASS', 'Settings updated successfully')
+      } else {
+        this.log('Settings PUT', 'FAIL', 'Settings update failed', updatedSettings)
+      }
+
+    } catch (error) {
+      this.log('Settings API', 'FAIL', `Settings API test failed: ${error.message}`, error)
+    }
+  }
+
+  async testBackupAPI() {
+    console.log('\n💾 Testing Backup Export and Import')
+
+    let restoreToken: string | undefined
+    try {
+      const archive = await this.apiCall('GET', '/export')
+      if (archive.format === 'family-growth-tracker-backup' && archive.data.members.length > 0 &&
+          archive.data.settings.some(s => s.key === 'testKey')) {
+        this.log('Backup Export', 'PASS', `Exported ${archive.data.members.length} members and ${archive.data.bills.length} bills`)
+      } else {
+        this.log('Backup Export', 'FAIL', 'Export is missing data', archive)
+      }
+
+      const dryRun = await this.apiCall('POST', '/import?dryRun=true', archive)
+      if (dryRun.dryRun && dryRun.conflicts.length > 0 && dryRun.conflicts.every(c => c.existsIn === 'household')) {
+        this.log('Backup Dry Run', 'PASS', `Dry run reported ${dryRun.conflicts.length} conflicts by id`)
+      } else {
+        this.log('Backup Dry Run', 'FAIL', 'Dry run did not report the existing rows', dryRun)
+      }
+
+      try {
+        await this.apiCall('POST', '/import', archive)
+        this.log('Backup Conflicts', 'FAIL', 'Import over existing rows was accepted')
+      } catch (error) {
+        if (error.message.includes('HTTP 409')) {
+          this.log('Backup Conflicts', 'PASS', 'Import over existing rows rejected with 409')
+        } else {
+          this.log('Backup Conflicts', 'FAIL', `Unexpected error: ${error.message}`)
+        }
+      }
+
+      // Restore a small archive into a new, empty household
+      const { token } = await this.apiCall('POST', '/auth/login', {
+        username: TEST_MANAGER_USERNAME,
+        password: TEST_MANAGER_PASSWORD
+      })
+      restoreToken = token
+      const household = await this.apiCall('POST', '/households', { name: 'Test Restore Household' }, restoreToken)
+      await this.apiCall('POST', '/auth/switch-household', { householdId: household.id }, restoreToken)
+
+      const suffix = Date.now()
+      const smallArchive = {
+        format: 'family-growth-tracker-backup',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        household: { name: 'Test Restore Household' },
+        data: {
+          members: [{ id: `test-restore-member-${suffix}`, name: 'Restored Member', color: 'bg-teal-500' }],
+          bills: [{ id: `test-restore-bill-${suffix}`, name: 'Restored Bill', amount_cents: 4200, due_date: '2025-03-01', split_mode: 'amount' }],
+          billSplits: [{ id: `test-restore-split-${suffix}`, bill_id: `test-restore-bill-${suffix}`, member_id: `test-restore-member-${suffix}`, value: 4200 }]
+        }
+      }
+
+      // A split pointing at a member of another household must roll the whole restore back
+      const members = await this.apiCall('GET', '/members')
+      try {
+        await this.apiCall('POST', '/import', {
+          ...smallArchive,
+          data: { ...smallArchive.data, billSplits: [{ ...smallArchive.data.billSplits[0], member_id: members[0].id }] }
+        }, restoreToken)
+        this.log('Backup Transactional', 'FAIL', 'Archive referencing another household was restored')
+      } catch (error) {
+        const bills = await this.apiCall('GET', '/bills', undefined, restoreToken)
+        if (error.message.includes('HTTP 400') && bills.length === 0) {
+          this.log('Backup Transactional', 'PASS', 'Invalid archive rejected without writing anything')
+        } else {
+          this.log('Backup Transactional', 'FAIL', `Unexpected result: ${error.message}`, bills)
+        }
+      }
+
+      const report = await this.apiCall('POST', '/import', smallArchive, restoreToken)
+      const restoredBills = await this.apiCall('GET', '/bills', undefined, restoreToken)
+      if (report.sections.billSplits.imported === 1 && restoredBills.length === 1 && restoredBills[0].splits.length === 1) {
+        this.log('Backup Restore', 'PASS', 'Archive restored into an empty household')
+      } else {
+        this.log('Backup Restore', 'FAIL', 'Restored data is wrong', { report, restoredBills })
+      }
+    } catch (error) {
+      this.log('Backup API', 'FAIL', `Backup test failed: ${error.message}`, error)
+    } finally {
+      if (restoreToken) {
+        await this.apiCall('DELETE', '/households/current', undefined, restoreToken).catch(() => {})
+        await this.apiCall('POST', '/auth/logout', undefined, restoreToken).catch(() => {})
+      }
+    }
+  }
+
+  async testBankImportAPI() {
+    console.log('\n🏦 Testing Bank Statement Import')
+
+    let profileId: string | undefined
+    const billIds: string[] = []
+    const mortgagePaymentIds: string[] = []
+    try {
+      const profile = await this.apiCall('POST', '/bank-profiles', {
+        name: `Test Bank ${Date.now()}`,
+        dateColumn: 'Posted',
+        descriptionColumn: 'Payee',
+        amountColumn: 'Amount',
+        dateFormat: 'MM/DD/YYYY'
+      })
+      profileId = profile.id
+      this.log('Bank Profile Create', 'PASS', `Created profile ${profile.name}`)
+
+      // Rows stay remembered after the test's bills are deleted, so each run uses its own payee
+      const csv = `Posted,Payee,Amount\n03/14/2025,"TEST WATER CO ${profile.id}, AUTOPAY",-45.10\n03/15/2025,Paycheck ${profile.id},1200.00\nnot a date,Broken,-1\n`
+      const preview = await this.apiCall('POST', '/bank-imports/preview', { content: csv, profileId })
+      if (preview.transactions.length === 2 && preview.errors.length === 1 &&
+          preview.transactions[0].amountCents === -4510 && !preview.transactions[0].duplicate) {
+        this.log('Bank Import Preview', 'PASS', 'Parsed 2 rows and reported 1 unreadable row')
+      } else {
+        this.log('Bank Import Preview', 'FAIL', 'Preview is wrong', preview)
+      }
+
+      const rows = preview.transactions.map(({ date, description, amountCents }, index) => ({
+        date, description, amountCents, action: index === 0 ? { type: 'new-bill' } : { type: 'skip' }
+      }))
+      const result = await this.apiCall('POST', '/bank-imports', { profileId, transactions: rows })
+      billIds.push(result.transactions[0]?.billId)
+      const bills = await this.apiCall('GET', '/bills')
+      const bill = bills.find(b => b.id === billIds[0])
+      if (result.imported === 1 && result.skipped === 1 && bill?.payments?.some(p => p.amountCents === 4510)) {
+        this.log('Bank Import Commit', 'PASS', 'Recorded a new paid bill from the statement')
+      } else {
+        this.log('Bank Import Commit', 'FAIL', 'Import did not record the bill and payment', { result, bill })
+      }
+
+      // Importing the same statement again must not record anything twice
+      const again = await this.apiCall('POST', '/bank-imports', { profileId, transactions: rows })
+      const repreview = await this.apiCall('POST', '/bank-imports/preview', { content: csv, profileId })
+      if (again.imported === 0 && again.duplicates === 1 && repreview.transactions[0].duplicate && !repreview.transactions[1].duplicate) {
+        this.log('Bank Import Duplicates', 'PASS', 'Re-imported rows detected as duplicates')
+      } else {
+        this.log('Bank Import Duplicates', 'FAIL', 'Duplicate rows were not detected', { again, repreview })
+      }
+
+      // OFX rows are recognised by FITID, even when the bank later changes the description
+      const ofx = (name: string) => `OFXHEADER:100\nDATA:OFXSGML\n\n<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><ACCTID>TEST-${profileId}</BANKACCTFROM><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250320<TRNAMT>-19.99<FITID>TEST0320<NAME>${name}</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`
+      const ofxPreview = await this.apiCall('POST', '/bank-imports/preview', { content: ofx('STREAMING SVC') })
+      const ofxRows = ofxPreview.transactions.map(transaction => ({ ...transaction, action: { type: 'new-bill' } }))
+      const ofxResult = await this.apiCall('POST', '/bank-imports', { transactions: ofxRows })
+      billIds.push(ofxResult.transactions[0]?.billId)
+      const renamedPreview = await this.apiCall('POST', '/bank-imports/preview', { content: ofx('STREAMING SERVICE INC') })
+      if (ofxResult.imported === 1 && ofxRows[0].amountCents === -1999 && renamedPreview.transactions[0]?.duplicate) {
+        this.log('Bank Import OFX', 'PASS', 'Imported an OFX row and recognised it again by FITID')
+      } else {
+        this.log('Bank Import OFX', 'FAIL', 'OFX import or FITID de-duplication failed', { ofxResult, renamedPreview })
+      }
+
+      // A statement row older than a recorded mortgage payment works out that payment's breakdown again
+      if (this.testData.mortgageId) {
+        const [mortgageBefore] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+        const recorded = await this.apiCall('POST', '/mortgage-payments', {
+          mortgageId: this.testData.mortgageId,
+          paidDate: '2025-03-01',
+          amountCents: 200000,
+          method: 'ach',
+          payerMemberId: null
+        })
+        mortgagePaymentIds.push(recorded.id)
+        const mortgageImport = await this.apiCall('POST', '/bank-imports', {
+          transactions: [{
+            date: '2025-02-01', description: `TEST MORTGAGE ${Date.now()}`, amountCents: -5000000,
+            action: { type: 'mortgage', id: this.testData.mortgageId }
+          }]
+        })
+        mortgagePaymentIds.push(mortgageImport.transactions[0]?.mortgagePaymentId)
+        const [mortgageAfter] = (await this.apiCall('GET', '/mortgages')).filter(m => m.id === this.testData.mortgageId)
+        const payments = mortgageAfter.payments.filter(p => mortgagePaymentIds.includes(p.id))
+        const recordedAfter = payments.find(p => p.id === recorded.id)
+        const paidDownCents = payments.reduce((sum, p) => sum + p.breakdown.principalCents, 0)
+        if (payments.length === 2 && recordedAfter.breakdown.interestCents < recorded.breakdown.interestCents &&
+            mortgageAfter.currentPrincipalCents === mortgageBefore.currentPrincipalCents - paidDownCents) {
+          this.log('Bank Import Mortgage', 'PASS', 'Later payment charged interest on the balance the imported row left')
+        } else {
+          this.log('Bank Import Mortgage', 'FAIL', 'Later breakdown or principal not recalculated', mortgageAfter)
+        }
+      }
+    } catch (error) {
+      this.log('Bank Import API', 'FAIL', `Bank import test failed: ${error.message}`, error)
+    } finally {
+      for (const billId of billIds.filter(Boolean)) {
+        await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+      }
+      for (const paymentId of mortgagePaymentIds.filter(Boolean)) {
+        await this.apiCall('DELETE', `/mortgage-payments/${paymentId}`).catch(() => {})
+        await this.apiCall('DELETE', `/trash/mortgage-payment/${paymentId}`).catch(() => {})
+      }
+      if (profileId) await this.apiCall('DELETE', `/bank-profiles/${profileId}`).catch(() => {})
+    }
+  }
+
+  async testCalendarFeedAPI() {
+    console.log('\n📅 Testing Calendar Feeds')
+
+    const feedIds: string[] = []
+    let billId: string | undefined
+    let memberId: string | undefined
+    try {
+      const [payer] = await this.apiCall('GET', '/members')
+      const member = await this.apiCall('POST', '/members', { name: 'Test Calendar Member', color: 'bg-teal-500' })
+      memberId = member.id
+      const bill = await this.apiCall('POST', '/bills', {
+        name: 'Test Calendar Bill',
+        amountCents: 12345,
+        dueDate: '2030-01-15',
+        splitMode: 'shares',
+        splits: [{ memberId: payer.id, value: 1 }]
+      })
+      billId = bill.id
+
+      const householdFeed = await this.apiCall('POST', '/calendar-feeds', {})
+      const memberFeed = await this.apiCall('POST', '/calendar-feeds', { memberId: member.id })
+      feedIds.push(householdFeed.id, memberFeed.id)
+
+      // Calendar apps fetch feeds without a session
+      const fetchFeed = async (path: string) => {
+        const response = await fetch(`${API_BASE}${path}`)
+        return { status: response.status, type: response.headers.get('content-type') || '', body: await response.text() }
+      }
+      const household = await fetchFeed(householdFeed.path)
+      const eventUid = `UID:bill-${bill.id}@family-growth-tracker`
+      if (household.status === 200 && household.type.startsWith('text/calendar') && household.body.startsWith('BEGIN:VCALENDAR') &&
+          household.body.includes(eventUid) && household.body.includes(`${payer.name}: $123.45`)) {
+        this.log('Calendar Household Feed', 'PASS', 'Feed lists the unpaid bill with its split')
+      } else {
+        this.log('Calendar Household Feed', 'FAIL', 'Bill missing from the household feed', household)
+      }
+
+      const memberCalendar = await fetchFeed(memberFeed.path)
+      if (memberCalendar.status === 200 && !memberCalendar.body.includes(eventUid)) {
+        this.log('Calendar Member Feed', 'PASS', 'Member feed leaves out bills the member has no share of')
+      } else {
+        this.log('Calendar Member Feed', 'FAIL', 'Member feed lists a bill the member does not owe', memberCalendar)
+      }
+
+      await this.apiCall('DELETE', `/calendar-feeds/${householdFeed.id}`)
+      const revoked = await fetchFeed(householdFeed.path)
+      if (revoked.status === 404) {
+        this.log('Calendar Feed Revoke', 'PASS', 'Revoked feed returns 404')
+      } else {
+        this.log('Calendar Feed Revoke', 'FAIL', `Revoked feed returned HTTP ${revoked.status}`)
+      }
+    } catch (error) {
+      this.log('Calendar Feeds API', 'FAIL', `Calendar feed test failed: ${error.message}`, error)
+    } finally {
+      for (const id of feedIds) {
+        await this.apiCall('DELETE', `/calendar-feeds/${id}`).catch(() => {})
+      }
+      if (billId) await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+      if (memberId) await this.apiCall('DELETE', `/members/${memberId}`).catch(() => {})
+    }
+  }
+
+  async testNotificationsAPI() {
+    console.log('\n🔔 Testing Due Date Notifications')
+
+    const billIds: string[] = []
+    let member: any
+    let originalPreferences: any
+    try {
+      const { availableChannels, members } = await this.apiCall('GET', '/notification-preferences')
+      ;[member] = await this.apiCall('GET', '/members')
+      originalPreferences = members.find(m => m.memberId === member.id)?.preferences
+
+      try {
+        await this.apiCall('PUT', `/notification-preferences/${member.id}`, {
+          enabled: true, channels: ['email'], email: 'not-an-email', reminderDaysBefore: 3, notifyOverdue: true
+        })
+        this.log('Notification Preferences', 'FAIL', 'Invalid email address was accepted')
+      } catch (error) {
+        if (error.message.includes('HTTP 400')) {
+          this.log('Notification Preferences', 'PASS', 'Invalid email address rejected')
+        } else {
+          this.log('Notification Preferences', 'FAIL', `Unexpected error: ${error.message}`)
+        }
+      }
+
+      // Preferences hold an email address, so the general settings must not hand them out
+      await this.apiCall('PUT', `/notification-preferences/${member.id}`, {
+        enabled: false, channels: [], email: 'test-member@example.com', reminderDaysBefore: 3, notifyOverdue: true
+      })
+      const settings = await this.apiCall('GET', '/settings')
+      if (Object.keys(settings).some(key => key.startsWith('notifications:'))) {
+        this.log('Notification Preferences Private', 'FAIL', 'Settings include notification preferences', settings)
+      } else {
+        this.log('Notification Preferences Private', 'PASS', 'Settings leave out notification preferences')
+      }
+
+      if (!availableChannels.includes('email')) {
+        this.log('Notification Delivery', 'SKIP', 'Email is not configured; start the server with SMTP_HOST pointing at a local SMTP sink')
+        return
+      }
+
+      await this.apiCall('PUT', `/notification-preferences/${member.id}`, {
+        enabled: true, channels: ['email'], email: 'test-member@example.com', reminderDaysBefore: 3, notifyOverdue: true
+      })
+      const inTwoDays = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      for (const [name, dueDate] of [['Test Overdue Bill', '2020-01-15'], ['Test Upcoming Bill', inTwoDays]]) {
+        const bill = await this.apiCall('POST', '/bills', {
+          name, amountCents: 5000, dueDate, splitMode: 'shares', splits: [{ memberId: member.id, value: 1 }]
+        })
+        billIds.push(bill.id)
+      }
+
+      const ours = (notifications: any[]) => notifications.filter(n => billIds.includes(n.itemId) && n.memberId === member.id)
+      const dryRun = ours((await this.apiCall('POST', '/notifications/run?dryRun=true')).notifications)
+      const kinds = dryRun.map(n => `${n.itemName}:${n.kind}`).sort()
+      if (kinds.join(',') === 'Test Overdue Bill:overdue,Test Upcoming Bill:reminder' && dryRun.every(n => n.status === 'pending')) {
+        this.log('Notification Dry Run', 'PASS', 'Overdue and upcoming bills are pending for the member')
+      } else {
+        this.log('Notification Dry Run', 'FAIL', 'Pending notifications are wrong', dryRun)
+      }
+
+      const sent = ours((await this.apiCall('POST', '/notifications/run')).notifications)
+      const again = ours((await this.apiCall('POST', '/notifications/run')).notifications)
+      if (sent.length === 2 && sent.every(n => n.status === 'sent') && again.length === 0) {
+        this.log('Notification Delivery', 'PASS', 'Notifications sent once and not repeated')
+      } else {
+        this.log('Notification Delivery', 'FAIL', 'Notifications were not sent exactly once', { sent, again })
+      }
+    } catch (error) {
+      this.log('Notifications API', 'FAIL', `Notifications test failed: ${error.message}`, error)
+    } finally {
+      for (const billId of billIds) {
+        await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+      }
+      if (member && originalPreferences) {
+        await this.apiCall('PUT', `/notification-preferences/${member.id}`, originalPreferences).catch(() => {})
+      }
+    }
+  }
+
+  async testBalancesAPI() {
+    console.log('\n🤝 Testing Settle-Up Balances')
+
+    const memberIds: string[] = []
+    let billId: string | undefined
+    let settlementId: string | undefined
+    try {
+      const payer = await this.apiCall('POST', '/members', { name: 'Test Settle Payer', color: 'bg-lime-500' })
+      const other = await this.apiCall('POST', '/members', { name: 'Test Settle Other', color: 'bg-amber-500' })
+      memberIds.push(payer.id, other.id)
+      const bill = await this.apiCall('POST', '/bills', {
+        name: 'Test Settle Bill',
+        amountCents: 10000,
+        dueDate: '2030-02-01',
+        splitMode: 'shares',
+        splits: [{ memberId: payer.id, value: 1 }, { memberId: other.id, value: 1 }]
+      })
+      billId = bill.id
+      // No allocations, so the payment is shared out by the bill's splits
+      await this.apiCall('POST', '/payments', { billId: bill.id, paidDate: '2030-02-01', amountCents: 10000, method: 'card', payerMemberId: payer.id })
+
+      const netOf = (balances: any[], memberId: string) => balances.find(balance => balance.memberId === memberId)?.netCents
+      const before = await this.apiCall('GET', '/balances')
+      const owedByOther = before.transfers
+        .filter(transfer => transfer.fromMemberId === other.id)
+        .reduce((sum, transfer) => sum + transfer.amountCents, 0)
+      if (netOf(before.balances, payer.id) === 5000 && netOf(before.balances, other.id) === -5000 && owedByOther === 5000) {
+        this.log('Balances GET', 'PASS', 'Payer is owed the other member\'s half of the bill')
+      } else {
+        this.log('Balances GET', 'FAIL', 'Unexpected balances after a shared payment', before)
+      }
+
+      const settlement = await this.apiCall('POST', '/settlements', { fromMemberId: other.id, toMemberId: payer.id, amountCents: 5000 })
+      settlementId = settlement.id
+      const after = await this.apiCall('GET', '/balances')
+      if (netOf(after.balances, payer.id) === 0 && netOf(after.balances, other.id) === 0 &&
+          !after.transfers.some(transfer => memberIds.includes(transfer.fromMemberId) || memberIds.includes(transfer.toMemberId))) {
+        this.log('Settlement POST', 'PASS', 'Recording the settlement zeroes both balances')
+      } else {
+        this.log('Settlement POST', 'FAIL', 'Balances not zeroed by the settlement', after)
+      }
+
+      try {
+        await this.apiCall('POST', '/settlements', { fromMemberId: payer.id, toMemberId: payer.id, amountCents: 100 })
+        this.log('Settlement Validation', 'FAIL', 'A settlement with the same member on both sides was accepted')
+      } catch (error) {
+        this.log('Settlement Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Same-member settlement rejected')
+      }
+
+      try {
+        await this.apiCall('POST', '/settlements', { fromMemberId: other.id, toMemberId: payer.id, amountCents: 100, settledDate: '2026-02-31' })
+        this.log('Settlement Date Validation', 'FAIL', 'A settlement on an impossible date was accepted')
+      } catch (error) {
+        this.log('Settlement Date Validation', error.message.includes('400') ? 'PASS' : 'FAIL', 'Impossible settledDate rejected')
+      }
+    } catch (error) {
+      this.log('Balances API', 'FAIL', `Balances test failed: ${error.message}`, error)
+    } finally {
+      if (settlementId) await this.apiCall('DELETE', `/settlements/${settlementId}`).catch(() => {})
+      if (billId) await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+      for (const id of memberIds) {
+        await this.apiCall('DELETE', `/members/${id}`).catch(() => {})
+      }
+    }
+  }
+
+  async testSoftDelete() {
+    console.log('\n🗑️ Testing Soft Delete and Trash')
+
+    let billId: string | undefined
+    try {
+      const bill = await this.apiCall('POST', '/bills', {
+        name: 'Test Trash Bill',
+        amountCents: 3000,
+        dueDate: '2025-02-10',
+        splitMode: 'shares',
+        splits: [{ memberId: this.testData.memberId, value: 1 }]
+      })
+      billId = bill.id
+      const payment = await this.apiCall('POST', '/payments', {
+        billId, paidDate: '2025-02-10', amountCents: 3000, method: 'cash', payerMemberId: this.testData.memberId, allocations: []
+      })
+
+      await this.apiCall('DELETE', `/bills/${billId}`)
+      const billsAfterDelete = await this.apiCall('GET', '/bills')
+      const trash = await this.apiCall('GET', '/trash')
+      if (!billsAfterDelete.some(b => b.id === billId) && trash.some(item => item.kind === 'bill' && item.id === billId)) {
+        this.log('Soft Delete Bill', 'PASS', 'Deleted bill moved to the trash')
+      } else {
+        this.log('Soft Delete Bill', 'FAIL', 'Expected the bill in the trash and not in the bill list', trash)
+      }
+
+      // The payment stays with its bill, so it comes back on restore
+      await this.apiCall('POST', `/trash/bill/${billId}/restore`)
+      const restored = (await this.apiCall('GET', '/bills')).find(b => b.id === billId)
+      if (restored?.payments?.some(p => p.id === payment.id)) {
+        this.log('Restore Bill', 'PASS', 'Bill restored along with its payment')
+      } else {
+        this.log('Restore Bill', 'FAIL', 'Expected the bill and its payment back', restored)
+      }
+
+      await this.apiCall('DELETE', `/payments/${payment.id}`)
+      await this.apiCall('DELETE', `/bills/${billId}`)
+      try {
+        await this.apiCall('POST', `/trash/payment/${payment.id}/restore`)
+        this.log('Restore Payment Of Deleted Bill', 'FAIL', 'Payment restored onto a deleted bill')
+      } catch (error) {
+        this.log('Restore Payment Of Deleted Bill', error.message.includes('409') ? 'PASS' : 'FAIL', 'Bill must be restored first')
+      }
+
+      await this.apiCall('DELETE', `/trash/bill/${billId}`)
+      const trashAfterPurge = await this.apiCall('GET', '/trash')
+      if (!trashAfterPurge.some(item => item.id === billId || item.id === payment.id)) {
+        this.log('Purge Bill', 'PASS', 'Purged bill and its payment are gone for good')
+        billId = undefined
+      } else {
+        this.log('Purge Bill', 'FAIL', 'Purged items are still in the trash', trashAfterPurge)
+      }
+
+      try {
+        await this.apiCall('POST', '/trash/invoice/1/restore')
+        this.log('Trash Kind Validation', 'FAIL', 'Unknown kind was accepted')
+      } catch (error) {
+        this.log('Trash Kind Validation', error.message.includes('404') ? 'PASS' : 'FAIL', 'Unknown kind rejected')
+      }
+    } catch (error) {
+      this.log('Soft Delete', 'FAIL', `Soft delete test failed: ${error.message}`, error)
+    } finally {
+      if (billId) {
+        await this.apiCall('DELETE', `/bills/${billId}`).catch(() => {})
+        await this.apiCall('DELETE', `/trash/bill/${billId}`).catch(() => {})
+      }
     }
   }
 
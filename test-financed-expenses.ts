@@ -10,6 +10,8 @@ import dotenv from 'dotenv'
 dotenv.config()
 
 const API_BASE = process.env.API_URL || 'http://localhost:8080'
+const TEST_MANAGER_USERNAME = process.env.TEST_MANAGER_USERNAME || 'test-manager'
+const TEST_MANAGER_PASSWORD = process.env.TEST_MANAGER_PASSWORD || 'test-manager-password'
 
 interface TestResult {
   test: string
@@ -28,6 +30,7 @@ interface FinancedExpenseTestData {
 class FinancedExpenseIntegrationTester {
   private results: TestResult[] = []
   private testData: FinancedExpenseTestData = {}
+  private sessionToken?: string
 
   private log(test: string, status: 'PASS' | 'FAIL' | 'SKIP', message: string, data?: any) {
     this.results.push({ test, status, message, data })
@@ -38,12 +41,13 @@ class FinancedExpenseIntegrationTester {
     }
   }
 
-  private async apiCall(method: string, endpoint: string, body?: any): Promise<any> {
+  private async apiCall(method: string, endpoint: string, body?: any, token = this.sessionToken): Promise<any> {
     const url = `${API_BASE}/api${endpoint}`
     const config: RequestInit = {
       method,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
     }
 
@@ -61,10 +65,21 @@ class FinancedExpenseIntegrationTester {
     return await response.json()
   }
 
+  // Signs in as the test manager, creating it as the first account on a fresh database
+  async authenticate() {
+    const status = await this.apiCall('GET', '/auth/status')
+    const credentials = { username: TEST_MANAGER_USERNAME, password: TEST_MANAGER_PASSWORD }
+    const { token } = status.needsSetup
+      ? await this.apiCall('POST', '/auth/setup', { ...credentials, memberId: status.members[0].id })
+      : await this.apiCall('POST', '/auth/login', credentials)
+    this.sessionToken = token
+  }
+
   async runAllTests() {
     console.log('🧪 Starting Comprehensive Financed Expense Integration Test Suite\n')
 
     try {
+      await this.authenticate()
       await this.setupTestData()
       await this.testFinancedExpenseAPI()
       await this.testFinancedExpensePayments()
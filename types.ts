@@ -5,6 +5,32 @@ export interface Person {
   color: string;
 }
 
+// Manager can change everything, adult can record their own payments, child is read-only
+export type MemberRole = 'manager' | 'adult' | 'child';
+
+export interface AuthSession {
+  accountId: string;
+  householdId: string;
+  householdName: string;
+  memberId: string;
+  memberName: string;
+  username: string;
+  role: MemberRole;
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  role: MemberRole;
+}
+
+export interface MemberAccount {
+  id: string;
+  memberId: string;
+  username: string;
+  role: MemberRole;
+}
+
 export type SplitMode = 'amount' | 'percent' | 'shares';
 
 export interface Split {
@@ -13,7 +39,31 @@ export interface Split {
   value: number;
 }
 
-export type RecurrenceFrequency = 'monthly' | 'bi-monthly' | 'quarterly' | 'semi-annually' | 'yearly';
+// 'custom' recurring bills follow their recurrenceRule instead of a day of the month
+export type RecurrenceFrequency = 'monthly' | 'bi-monthly' | 'quarterly' | 'semi-annually' | 'yearly' | 'custom';
+
+export type RecurrenceRuleFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// A subset of iCalendar RRULE. Dates are 'YYYY-MM-DD'.
+export interface RecurrenceRule {
+  freq: RecurrenceRuleFrequency;
+  interval: number; // Every n days/weeks/months/years
+  startDate: string; // First possible occurrence; intervals count from here
+  byWeekday?: Weekday[];
+  byMonthDay?: number[]; // 1-31, or -1 for the last day of the month
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[]; // Picks from each period's matching days, e.g. [2] second or [-1] last
+  until?: string; // Last possible occurrence
+  count?: number; // Number of occurrences, counted before excluded dates are removed
+  exDates?: string[]; // Occurrences to skip
+}
+
+// Variable recurring bills generate their bills at an estimate until the statement amount is entered
+export type RecurringAmountMode = 'fixed' | 'variable';
+
+export type EstimateMethod = 'last' | 'average' | 'last-year';
 
 // Interface for any object that can have its splits calculated
 export interface Splittable {
@@ -28,6 +78,8 @@ export interface Bill extends Splittable {
   dueDate: string; // ISO date string "YYYY-MM-DD"
   recurringBillId?: string;
   period?: string; // e.g., '2024-07'
+  autopayAccountId?: string; // Financial account the bill is paid from automatically on its due date
+  isEstimated?: boolean; // Generated from a variable recurring bill and not confirmed yet
 }
 
 export interface RecurringBill extends Splittable {
@@ -35,7 +87,16 @@ export interface RecurringBill extends Splittable {
   name: string;
   dayOfMonth: number;
   frequency: RecurrenceFrequency;
+  recurrenceRule?: RecurrenceRule; // Only for 'custom' frequency
+  amountMode?: RecurringAmountMode; // 'fixed' by default; for 'variable' bills, amount is the estimate until there is history
+  estimateMethod?: EstimateMethod; // How variable bills are estimated
   lastGeneratedPeriod: string; // e.g., '2024-06'
+  autopayAccountId?: string; // Copied to the bills it generates
+  pausedFrom?: string; // First day of a pause; no bills are generated for occurrences due while paused
+  pausedUntil?: string; // Last day of the pause, inclusive; the pause is open-ended without it
+  endDate?: string; // Last day an occurrence can fall on
+  skippedPeriods?: string[]; // Periods of single occurrences that get no bill
+  archivedAt?: string; // Archived bills stop generating but keep the bills they produced
 }
 
 // --- New Payment System Types ---
@@ -54,6 +115,7 @@ export interface Payment {
   amount: number;
   method: PaymentMethod;
   payerPersonId?: string; // Optional: ID of the person who made the payment
+  accountId?: string; // Optional: financial account the payment came out of
   note?: string;
   receipt?: {
     fileName: string;
@@ -93,6 +155,25 @@ export interface Mortgage extends Omit<Splittable, 'amount'> {
   // Extra Config
   notes?: string;
   active: boolean;
+  autopayAccountId?: string;
+
+  // Refinances and rate resets; the fields above describe the loan as it was taken out
+  rateEvents?: MortgageRateEvent[];
+}
+
+export type MortgageRateEventKind = 'refinance' | 'rate-reset';
+
+export interface MortgageRateEvent {
+  id: string;
+  mortgageId: string;
+  kind: MortgageRateEventKind;
+  effectiveDate: string; // "YYYY-MM-DD"
+  interestRateApy: number;
+  termMonths?: number; // Refinances only: a new term starting on the effective date
+  principal?: number; // Refinances only: the new loan amount
+  closingCosts: number;
+  scheduledPayment?: number; // New full PITI payment, when it changes
+  note?: string;
 }
 
 export interface MortgagePayment {
@@ -102,6 +183,7 @@ export interface MortgagePayment {
   amount: number;
   method: PaymentMethod;
   payerPersonId?: string;
+  accountId?: string;
   note?: string;
   receipt?: {
     fileName: string;
@@ -165,6 +247,7 @@ export interface FinancedExpense extends Splittable {
   purchaseDate: string; // ISO date string "YYYY-MM-DD"
   firstPaymentDate: string; // ISO date string "YYYY-MM-DD"
   isActive: boolean;
+  autopayAccountId?: string; // Installments are marked paid from this account on their due dates
 }
 
 export interface FinancedExpensePayment {
@@ -0,0 +1,211 @@
+import { addMonthsToPeriod, getRecurringDueDate, parsePeriod } from './recurrence';
+
+// Mortgage amortization schedules and payoff what-ifs. Amounts are in cents and every row is one
+// monthly due date; interest is charged monthly at a twelfth of the annual rate.
+
+export interface AmortizationInput {
+  // Balance before the first row
+  principalCents: number;
+  interestRateApy: number;
+  // Scheduled payments left on the loan, the first of them in `firstPeriod`
+  remainingMonths: number;
+  // Monthly escrow on top of principal and interest
+  escrowCents: number;
+  // 'YYYY-MM' of the first row
+  firstPeriod: string;
+  paymentDay: number;
+  // Refinances and rate resets taking effect after the first row
+  rateChanges?: AmortizationRateChange[];
+}
+
+export interface AmortizationRateChange {
+  // 'YYYY-MM' of the first row at the new rate
+  period: string;
+  interestRateApy: number;
+  // A refinance starts a new term of this many payments, on `principalCents` when given
+  termMonths?: number;
+  principalCents?: number;
+}
+
+export interface PayoffScenario {
+  // Added to principal every month
+  extraMonthlyCents?: number;
+  // Paid once against principal in `lumpSumPeriod` (the first row by default)
+  lumpSumCents?: number;
+  lumpSumPeriod?: string;
+  // Half the monthly payment every two weeks: 26 half payments a year, i.e. one extra monthly
+  // payment a year, modelled as a twelfth of the monthly payment added to principal every month
+  biweekly?: boolean;
+}
+
+export interface AmortizationRow {
+  number: number;
+  period: string;
+  // 'YYYY-MM-DD'
+  dueDate: string;
+  // Principal, interest, escrow and extra principal together
+  paymentCents: number;
+  principalCents: number;
+  interestCents: number;
+  escrowCents: number;
+  // Part of principalCents paid on top of the scheduled payment
+  extraPrincipalCents: number;
+  balanceCents: number;
+}
+
+export interface AmortizationSummary {
+  months: number;
+  payoffDate: string | null;
+  totalInterestCents: number;
+  totalPaidCents: number;
+}
+
+export interface AmortizationSchedule {
+  monthlyPrincipalAndInterestCents: number;
+  rows: AmortizationRow[];
+  summary: AmortizationSummary;
+}
+
+/**
+ * Whole months from one 'YYYY-MM' period to another (negative when `to` is earlier).
+ */
+export function monthsBetweenPeriods(from: string, to: string): number {
+  const a = parsePeriod(from);
+  const b = parsePeriod(to);
+  return (b.year - a.year) * 12 + (b.month - a.month);
+}
+
+/**
+ * Level monthly principal and interest payment that pays off `principalCents` in `months` payments.
+ */
+export function calculateMonthlyPaymentCents(principalCents: number, interestRateApy: number, months: number): number {
+  if (principalCents <= 0) return 0;
+  const payments = Math.max(1, months);
+  const monthlyRate = interestRateApy / 100 / 12;
+  if (monthlyRate <= 0) return Math.ceil(principalCents / payments);
+  return Math.ceil((principalCents * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -payments)));
+}
+
+/**
+ * Builds the month-by-month schedule from the current balance. The scheduled payment stays level
+ * until a rate change, which re-amortizes what is left over the remaining (or new) term; extra
+ * principal from the scenario only shortens the loan. The last row pays whatever is left, so
+ * rounding never leaves a few cents outstanding.
+ */
+export function buildAmortizationSchedule(input: AmortizationInput, scenario: PayoffScenario = {}): AmortizationSchedule {
+  let interestRateApy = input.interestRateApy;
+  // Row number of the last scheduled payment
+  let lastNumber = Math.max(1, input.remainingMonths);
+  let scheduledCents = calculateMonthlyPaymentCents(input.principalCents, interestRateApy, lastNumber);
+  const initialScheduledCents = scheduledCents;
+  const lumpSumPeriod = scenario.lumpSumPeriod ?? input.firstPeriod;
+  const rateChanges = new Map((input.rateChanges ?? []).map(change => [change.period, change]));
+
+  const rows: AmortizationRow[] = [];
+  let balanceCents = input.principalCents;
+  let totalInterestCents = 0;
+  let totalPaidCents = 0;
+
+  for (let number = 1; balanceCents > 0 && number <= lastNumber; number++) {
+    const period = addMonthsToPeriod(input.firstPeriod, number - 1);
+    const change = number > 1 ? rateChanges.get(period) : undefined;
+    if (change) {
+      interestRateApy = change.interestRateApy;
+      if (change.termMonths) lastNumber = number - 1 + change.termMonths;
+      if (change.principalCents !== undefined) balanceCents = change.principalCents;
+      scheduledCents = calculateMonthlyPaymentCents(balanceCents, interestRateApy, lastNumber - number + 1);
+    }
+
+    const interestCents = Math.round(balanceCents * (interestRateApy / 100 / 12));
+    const recurringExtraCents = (scenario.extraMonthlyCents ?? 0) + (scenario.biweekly ? Math.round(scheduledCents / 12) : 0);
+
+    let scheduledPrincipalCents = Math.max(0, scheduledCents - interestCents);
+    let extraPrincipalCents = recurringExtraCents + (period === lumpSumPeriod ? scenario.lumpSumCents ?? 0 : 0);
+    if (number === lastNumber) {
+      scheduledPrincipalCents = balanceCents;
+    }
+    scheduledPrincipalCents = Math.min(scheduledPrincipalCents, balanceCents);
+    extraPrincipalCents = Math.min(extraPrincipalCents, balanceCents - scheduledPrincipalCents);
+
+    const principalCents = scheduledPrincipalCents + extraPrincipalCents;
+    const paymentCents = interestCents + principalCents + input.escrowCents;
+    balanceCents -= principalCents;
+    totalInterestCents += interestCents;
+    totalPaidCents += paymentCents;
+
+    rows.push({
+      number,
+      period,
+      dueDate: getRecurringDueDate(period, input.paymentDay),
+      paymentCents,
+      principalCents,
+      interestCents,
+      escrowCents: input.escrowCents,
+      extraPrincipalCents,
+      balanceCents,
+    });
+  }
+
+  return {
+    monthlyPrincipalAndInterestCents: initialScheduledCents,
+    rows,
+    summary: {
+      months: rows.length,
+      payoffDate: rows.length > 0 ? rows[rows.length - 1].dueDate : null,
+      totalInterestCents,
+      totalPaidCents,
+    },
+  };
+}
+
+export interface RefinanceProposal {
+  interestRateApy: number;
+  termMonths: number;
+  closingCostsCents: number;
+  // New loan amount; the current balance by default
+  principalCents?: number;
+}
+
+export interface RefinanceBreakEven {
+  currentMonthlyCents: number;
+  proposedMonthlyCents: number;
+  monthlySavingsCents: number;
+  // Payments until the monthly savings cover the closing costs; null when the payment does not drop
+  breakEvenMonths: number | null;
+  breakEvenDate: string | null;
+  currentRemainingInterestCents: number;
+  proposedInterestCents: number;
+  // Interest saved over the life of both loans, less closing costs
+  lifetimeSavingsCents: number;
+}
+
+/**
+ * Compares keeping the current loan with refinancing from the first row of `current`.
+ */
+export function calculateRefinanceBreakEven(current: AmortizationInput, proposal: RefinanceProposal): RefinanceBreakEven {
+  const currentSchedule = buildAmortizationSchedule(current);
+  const proposedSchedule = buildAmortizationSchedule({
+    ...current,
+    principalCents: proposal.principalCents ?? current.principalCents,
+    interestRateApy: proposal.interestRateApy,
+    remainingMonths: proposal.termMonths,
+    rateChanges: [],
+  });
+
+  const monthlySavingsCents = currentSchedule.monthlyPrincipalAndInterestCents - proposedSchedule.monthlyPrincipalAndInterestCents;
+  const breakEvenMonths = monthlySavingsCents > 0 ? Math.max(1, Math.ceil(proposal.closingCostsCents / monthlySavingsCents)) : null;
+  const breakEvenDate = breakEvenMonths !== null
+    ? getRecurringDueDate(addMonthsToPeriod(current.firstPeriod, breakEvenMonths - 1), current.paymentDay)
+    : null;
+
+  return {
+    currentMonthlyCents: currentSchedule.monthlyPrincipalAndInterestCents,
+    proposedMonthlyCents: proposedSchedule.monthlyPrincipalAndInterestCents,
+    monthlySavingsCents,
+    breakEvenMonths,
+    breakEvenDate,
+    currentRemainingInterestCents: currentSchedule.summary.totalInterestCents,
+    proposedInterestCents: proposedSchedule.summary.totalInterestCents,
+    lifetimeSavingsCents: currentSchedule.summary.totalInterestCents - proposedSchedule.summary.totalInterestCents - proposal.closingCostsCents,
+  };
+}
@@ -1,8 +1,98 @@
+import { AmortizationRow, AmortizationSummary, PayoffScenario } from './amortization'
+import { EscrowAnalysis, EscrowCategory } from './escrow'
+import { TaxSummary } from './taxSummary'
+import { BudgetMonthAmount, BudgetStatus } from './budgets'
+import { CashFlowSummary, IncomeKind, PayFrequency } from './income'
+import { Forecast } from './forecast'
+import { SavingsGoalProgress } from './savingsGoals'
+import { BalanceSnapshot, FinancialAccountKind, NetWorthBreakdown } from './netWorth'
+import { PaymentMethod, RecurrenceRule, SplitMode } from '../types'
+
 // In browser context, we need to detect environment differently
 const API_BASE = typeof window !== 'undefined' && window.location.hostname !== 'localhost'
   ? 'https://family-growth-tracker-production.up.railway.app'
   : 'http://localhost:8080'
 
+const SESSION_TOKEN_KEY = 'fgt.sessionToken'
+
+const sessionExpiredListeners = new Set<() => void>()
+
+export function getSessionToken(): string | null {
+  return typeof localStorage !== 'undefined' ? localStorage.getItem(SESSION_TOKEN_KEY) : null
+}
+
+export function setSessionToken(token: string | null) {
+  if (typeof localStorage === 'undefined') return
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token)
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY)
+  }
+}
+
+// Headers for requests made outside ApiClient (e.g. the analytics fetches)
+export function getAuthHeaders(): Record<string, string> {
+  const token = getSessionToken()
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+// Called whenever the server rejects the stored session token
+export function onSessionExpired(listener: () => void): () => void {
+  sessionExpiredListeners.add(listener)
+  return () => {
+    sessionExpiredListeners.delete(listener)
+  }
+}
+
+export interface ApiAuthSession {
+  accountId: string
+  householdId: string
+  householdName: string
+  memberId: string
+  memberName: string
+  username: string
+  role: string
+}
+
+export interface ApiAuthStatus {
+  needsSetup: boolean
+  // Only populated while setup is pending, so the first manager can be picked
+  members: Pick<ApiMember, 'id' | 'name' | 'color'>[]
+}
+
+export interface ApiAccount {
+  id: string
+  memberId: string
+  memberName: string
+  username: string
+  role: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ApiHousehold {
+  id: string
+  name: string
+  memberId: string
+  role: string
+  createdAt: string
+}
+
+export interface ApiHouseholdInvite {
+  id: string
+  // Only returned when the invite is created; share it as part of the invite link
+  token: string
+  role: string
+  expiresAt: string
+  createdAt: string
+}
+
+export interface ApiInvitePreview {
+  householdName: string
+  role: string
+  expiresAt: string
+}
+
 export interface ApiMember {
   id: string
   name: string
@@ -18,6 +108,8 @@ export interface ApiBill {
   dueDate: string
   recurringBillId?: string
   period?: string
+  autopayAccountId?: string | null
+  isEstimated?: boolean
   splitMode: string
   createdAt: string
   updatedAt: string
@@ -39,6 +131,7 @@ export interface ApiPayment {
   paidDate: string
   amountCents: number
   method: string
+  accountId?: string | null
   payerMemberId?: string
   note?: string
   receiptFilename?: string
@@ -62,7 +155,16 @@ export interface ApiRecurringBill {
   amountCents: number
   dayOfMonth: number
   frequency: string
+  recurrenceRule?: RecurrenceRule | null
   lastGeneratedPeriod: string
+  autopayAccountId?: string | null
+  pausedFrom?: string | null
+  pausedUntil?: string | null
+  endDate?: string | null
+  skippedPeriods?: string[]
+  archivedAt?: string | null
+  amountMode?: string
+  estimateMethod?: string
   splitMode: string
   createdAt: string
   updatedAt: string
@@ -96,11 +198,86 @@ export interface ApiMortgage {
   escrowHoaCents?: number
   notes?: string
   active: boolean
+  autopayAccountId?: string | null
   splitMode: string
   createdAt: string
   updatedAt: string
   splits: ApiMortgageSplit[]
   payments?: ApiMortgagePayment[]
+  rateEvents?: ApiMortgageRateEvent[]
+}
+
+export interface ApiMortgageRateEvent {
+  id: string
+  mortgageId: string
+  kind: 'refinance' | 'rate-reset'
+  effectiveDate: string
+  interestRateApy: number
+  termMonths: number | null
+  principalCents: number | null
+  closingCostsCents: number
+  scheduledPaymentCents: number | null
+  note: string | null
+  createdAt: string
+  // Mortgage balance after a past refinance replaced it (write responses only)
+  mortgageCurrentPrincipalCents?: number
+}
+
+export interface ApiRefinanceBreakEven {
+  currentMonthlyCents: number
+  proposedMonthlyCents: number
+  monthlySavingsCents: number
+  breakEvenMonths: number | null
+  breakEvenDate: string | null
+  currentRemainingInterestCents: number
+  proposedInterestCents: number
+  lifetimeSavingsCents: number
+}
+
+export interface ApiEscrowDeposit {
+  paymentId: string
+  paidDate: string
+  amountCents: number
+}
+
+export interface ApiEscrowDisbursement {
+  id: string
+  mortgageId: string
+  category: EscrowCategory
+  amountCents: number
+  disbursedDate: string
+  note?: string
+  createdAt?: string
+}
+
+export interface ApiEscrowAdjustment {
+  id: string
+  mortgageId: string
+  effectiveDate: string
+  escrowTaxesCents: number
+  escrowInsuranceCents: number
+  escrowMipCents: number
+  escrowHoaCents: number
+  scheduledPaymentCents: number
+  previousEscrowCents: number
+  previousScheduledPaymentCents: number
+  shortageCents: number
+  surplusCents: number
+  note?: string
+  createdAt?: string
+}
+
+export interface ApiEscrowAccount {
+  mortgageId: string
+  openingBalanceCents: number
+  balanceCents: number
+  monthlyEscrowCents: number
+  nextAnalysisDate: string
+  deposits: ApiEscrowDeposit[]
+  disbursements: ApiEscrowDisbursement[]
+  // Newest first
+  adjustments: ApiEscrowAdjustment[]
+  analysis: EscrowAnalysis
 }
 
 export interface ApiMortgageSplit {
@@ -117,6 +294,7 @@ export interface ApiMortgagePayment {
   paidDate: string
   amountCents: number
   method: string
+  accountId?: string | null
   payerMemberId?: string
   note?: string
   receiptFilename?: string
@@ -125,6 +303,8 @@ export interface ApiMortgagePayment {
   allocations: ApiMortgagePaymentAllocation[]
   payerMember?: ApiMember
   breakdown?: ApiMortgagePaymentBreakdown
+  // Mortgage balance after the server applied this payment's principal (write responses only)
+  mortgageCurrentPrincipalCents?: number
 }
 
 export interface ApiMortgagePaymentAllocation {
@@ -145,6 +325,20 @@ export interface ApiMortgagePaymentBreakdown {
   createdAt: string
 }
 
+export interface ApiAmortizationSchedule {
+  summary: AmortizationSummary
+  schedule: AmortizationRow[]
+}
+
+export interface ApiAmortization {
+  mortgageId: string
+  monthlyPrincipalAndInterestCents: number
+  escrowCents: number
+  baseline: ApiAmortizationSchedule
+  // Only when a payoff scenario was requested
+  whatIf: (ApiAmortizationSchedule & { scenario: PayoffScenario; interestSavedCents: number; monthsSaved: number }) | null
+}
+
 // Financed Expenses API Types
 export interface ApiFinancedExpense {
   id: string
@@ -157,6 +351,7 @@ export interface ApiFinancedExpense {
   purchaseDate: string
   firstPaymentDate: string
   isActive: boolean
+  autopayAccountId?: string | null
   splitMode: string
   createdAt: string
   updatedAt: string
@@ -183,6 +378,7 @@ export interface ApiFinancedExpensePayment {
   isPaid: boolean
   paidDate?: string
   billId?: string
+  accountId?: string | null
   createdAt: string
 }
 
@@ -199,6 +395,7 @@ export interface ApiFinancedExpenseComplete {
   purchaseDate: string
   firstPaymentDate: string
   isActive: boolean
+  autopayAccountId?: string | null
   splitMode: string
   createdAt: string
   updatedAt: string
@@ -231,18 +428,338 @@ export interface ApiFinancedExpenseComplete {
   }
 }
 
+export interface ApiCategory {
+  id: string
+  name: string
+  icon?: string
+  color?: string
+  isDefault: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Column mapping for one bank's CSV export
+export interface ApiBankProfile {
+  id: string
+  name: string
+  dateColumn: string
+  descriptionColumn: string
+  amountColumn?: string | null
+  debitColumn?: string | null
+  creditColumn?: string | null
+  dateFormat: string
+  negateAmounts: boolean
+  paymentMethod: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type ApiBankProfileInput = Omit<ApiBankProfile, 'id' | 'createdAt' | 'updatedAt'>
+
+export interface ApiImportMatchCandidate {
+  type: 'bill' | 'mortgage' | 'financed-expense-payment'
+  id: string
+  name: string
+  dueDate: string
+  amountCents: number
+}
+
+export interface ApiStatementTransaction {
+  date: string
+  description: string
+  // Negative for money leaving the account
+  amountCents: number
+  // OFX FITID with the account id, when the statement has one
+  externalId?: string
+}
+
+export interface ApiImportPreviewTransaction extends ApiStatementTransaction {
+  // Already imported from an earlier statement
+  duplicate: boolean
+  candidates: ApiImportMatchCandidate[]
+  suggestedMatch: ApiImportMatchCandidate | null
+}
+
+export type ApiImportAction =
+  | { type: ApiImportMatchCandidate['type']; id: string }
+  | { type: 'new-bill'; name?: string; categoryId?: string }
+  | { type: 'skip' }
+
+export interface ApiImportResult {
+  imported: number
+  duplicates: number
+  skipped: number
+  transactions: { status: 'imported' | 'duplicate' | 'skipped'; billId?: string; paymentId?: string; mortgagePaymentId?: string; financedExpensePaymentId?: string }[]
+}
+
+// Household backup archive from GET /api/export; rows use the database column names
+export interface ApiBackupArchive {
+  format: string
+  version: number
+  exportedAt: string
+  household: { name: string }
+  data: Record<string, Record<string, unknown>[]>
+}
+
+export interface ApiBackupImportReport {
+  dryRun: boolean
+  conflicts: { section: string; id: string; existsIn: 'household' | 'other-household' }[]
+  sections: Record<string, { total: number; imported: number; skipped: number }>
+}
+
+export interface ApiCalendarFeed {
+  id: string
+  // Null for a feed of the whole household
+  memberId: string | null
+  memberName: string | null
+  lastAccessedAt: string | null
+  createdAt: string
+}
+
+export interface ApiCreatedCalendarFeed extends ApiCalendarFeed {
+  // Only returned when the feed is created; the feed URL is the only way to read it
+  token: string
+  path: string
+}
+
+export interface ApiNotificationPreferences {
+  enabled: boolean
+  channels: string[]
+  email: string
+  reminderDaysBefore: number
+  notifyOverdue: boolean
+}
+
+export interface ApiMemberNotificationPreferences {
+  memberId: string
+  memberName: string
+  preferences: ApiNotificationPreferences
+}
+
+export interface ApiMemberBalance {
+  memberId: string
+  memberName: string
+  paidCents: number
+  owedCents: number
+  settlementsSentCents: number
+  settlementsReceivedCents: number
+  // Positive when the member is owed money, negative when they owe it
+  netCents: number
+}
+
+export interface ApiSettleUpTransfer {
+  fromMemberId: string
+  fromMemberName: string
+  toMemberId: string
+  toMemberName: string
+  amountCents: number
+}
+
+export interface ApiSettlement {
+  id: string
+  fromMemberId: string
+  fromMemberName: string
+  toMemberId: string
+  toMemberName: string
+  amountCents: number
+  settledDate: string
+  note: string | null
+  createdAt: string
+}
+
+export interface ApiBudget {
+  id: string
+  categoryId: string | null
+  categoryName: string | null
+  memberId: string | null
+  memberName: string | null
+  amountCents: number
+  rollover: boolean
+  startMonth: string
+  monthAmounts: BudgetMonthAmount[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ApiBudgetInput {
+  categoryId?: string | null
+  memberId?: string | null
+  amountCents: number
+  rollover?: boolean
+  startMonth?: string
+  monthAmounts?: BudgetMonthAmount[]
+}
+
+export interface ApiBudgetStatus extends BudgetStatus {
+  categoryId: string | null
+  categoryName: string | null
+  memberId: string | null
+  memberName: string | null
+  rollover: boolean
+}
+
+export interface ApiBudgetStatusReport {
+  month: string
+  budgets: ApiBudgetStatus[]
+  overBudgetCount: number
+}
+
+export interface ApiIncomeSource {
+  id: string
+  memberId: string
+  memberName: string
+  name: string
+  kind: IncomeKind
+  // One paycheck
+  amountCents: number
+  frequency: PayFrequency
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type ApiIncomeSourceInput = Pick<ApiIncomeSource, 'memberId' | 'name' | 'kind' | 'amountCents' | 'frequency' | 'active'>
+
+export interface ApiIncomeDeposit {
+  id: string
+  incomeSourceId: string | null
+  incomeSourceName: string | null
+  memberId: string
+  memberName: string
+  amountCents: number
+  depositedDate: string
+  note: string | null
+  createdAt: string
+}
+
+export interface ApiCashFlow extends CashFlowSummary {
+  startDate: string
+  endDate: string
+}
+
+export interface ApiForecast extends Forecast {
+  members: { id: string; name: string; color: string }[]
+}
+
+export interface ApiSavingsContribution {
+  id: string
+  savingsGoalId: string
+  memberId: string
+  memberName: string
+  amountCents: number
+  contributedDate: string
+  method: PaymentMethod
+  note: string | null
+  createdAt: string
+}
+
+export interface ApiSavingsGoal {
+  id: string
+  name: string
+  targetCents: number
+  targetDate: string
+  splitMode: Extract<SplitMode, 'percent' | 'shares'>
+  splits: { personId: string; value: number }[]
+  recentContributions: ApiSavingsContribution[]
+  progress: SavingsGoalProgress
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ApiSavingsGoalInput {
+  name: string
+  targetCents: number
+  targetDate: string
+  splitMode: ApiSavingsGoal['splitMode']
+  splits: { memberId: string; value: number }[]
+}
+
+export interface ApiFinancialAccount {
+  id: string
+  name: string
+  kind: FinancialAccountKind
+  institution: string | null
+  memberId: string | null
+  memberName: string | null
+  closed: boolean
+  // Newest first
+  balances: (BalanceSnapshot & { id: string })[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ApiFinancialAccountInput {
+  name: string
+  kind: FinancialAccountKind
+  institution?: string | null
+  memberId?: string | null
+  closed?: boolean
+}
+
+export interface ApiNetWorth {
+  current: NetWorthBreakdown
+  // Month ends, oldest first; the last point is today
+  history: Pick<NetWorthBreakdown, 'date' | 'assetsCents' | 'liabilitiesCents' | 'netWorthCents'>[]
+}
+
+export type ApiAutopayItemType = 'bill' | 'mortgage' | 'financed-expense-payment' | 'recurring-bill'
+
+export interface ApiAutopayPayment {
+  itemType: ApiAutopayItemType
+  itemId: string
+  itemName: string
+  dueDate: string
+  accountId: string
+  accountName: string
+  amountCents: number
+  // 'pending' on dry runs; 'skipped' when the account is closed
+  status: 'pending' | 'paid' | 'skipped' | 'failed'
+}
+
+export interface ApiUpcomingDebits {
+  from: string
+  through: string
+  accounts: {
+    accountId: string
+    accountName: string
+    kind: FinancialAccountKind
+    closed: boolean
+    balanceCents: number | null
+    balanceDate: string | null
+    debits: { itemType: ApiAutopayItemType; itemId: string; itemName: string; dueDate: string; amountCents: number }[]
+    totalCents: number
+    // How much more the debits take than the latest balance; null for credit accounts or without a balance
+    shortfallCents: number | null
+  }[]
+}
+
+export type ApiTrashItemKind = 'payment' | 'mortgage-payment' | 'bill' | 'recurring-bill' | 'mortgage' | 'financed-expense' | 'member'
+
+export interface ApiTrashItem {
+  kind: ApiTrashItemKind
+  id: string
+  name: string
+  deletedAt: string
+}
+
 class ApiClient {
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const url = `${API_BASE}/api${endpoint}`
 
     const response = await fetch(url, {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
         ...options.headers,
       },
-      ...options,
     })
 
+    if (response.status === 401 && getSessionToken()) {
+      setSessionToken(null)
+      sessionExpiredListeners.forEach(listener => listener())
+    }
+
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ error: 'Network error' }))
       throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`)
@@ -251,6 +768,105 @@ class ApiClient {
     return response.json()
   }
 
+  // Auth API
+  async getAuthStatus(): Promise<ApiAuthStatus> {
+    return this.request('/auth/status')
+  }
+
+  async setupManager(data: { memberId: string; username: string; password: string }): Promise<{ token: string; session: ApiAuthSession }> {
+    return this.request('/auth/setup', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async login(data: { username: string; password: string }): Promise<{ token: string; session: ApiAuthSession }> {
+    return this.request('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async logout(): Promise<{ success: boolean }> {
+    return this.request('/auth/logout', {
+      method: 'POST',
+    })
+  }
+
+  async getSession(): Promise<ApiAuthSession> {
+    return this.request('/auth/session')
+  }
+
+  async switchHousehold(householdId: string): Promise<ApiAuthSession> {
+    return this.request('/auth/switch-household', {
+      method: 'POST',
+      body: JSON.stringify({ householdId }),
+    })
+  }
+
+  // Households API
+  async getHouseholds(): Promise<ApiHousehold[]> {
+    return this.request('/households')
+  }
+
+  async createHousehold(data: { name: string }): Promise<ApiHousehold> {
+    return this.request('/households', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async renameHousehold(data: { name: string }): Promise<ApiHousehold> {
+    return this.request('/households/current', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async createInvite(data: { role: string }): Promise<ApiHouseholdInvite> {
+    return this.request('/households/current/invites', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async getInvite(token: string): Promise<ApiInvitePreview> {
+    return this.request(`/invites/${encodeURIComponent(token)}`)
+  }
+
+  // Without a session `data` creates a new login; with one, the signed-in account joins
+  async acceptInvite(token: string, data: { name?: string; username?: string; password?: string } = {}): Promise<{ token: string; session: ApiAuthSession }> {
+    return this.request(`/invites/${encodeURIComponent(token)}/accept`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Accounts API
+  async getAccounts(): Promise<ApiAccount[]> {
+    return this.request('/accounts')
+  }
+
+  async createAccount(data: { memberId: string; username: string; password: string; role: string }): Promise<ApiAccount> {
+    return this.request('/accounts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateAccount(id: string, data: { role?: string; password?: string }): Promise<ApiAccount> {
+    return this.request(`/accounts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteAccount(id: string): Promise<{ success: boolean }> {
+    return this.request(`/accounts/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
   // Members API
   async getMembers(): Promise<ApiMember[]> {
     return this.request('/members')
@@ -294,6 +910,13 @@ class ApiClient {
     })
   }
 
+  async confirmBillAmount(id: string, amountCents: number): Promise<ApiBill> {
+    return this.request(`/bills/${id}/confirm-amount`, {
+      method: 'POST',
+      body: JSON.stringify({ amountCents }),
+    })
+  }
+
   // Payments API
   async createPayment(data: any): Promise<ApiPayment> {
     return this.request('/payments', {
@@ -340,6 +963,13 @@ class ApiClient {
     })
   }
 
+  async generateRecurringBills(throughPeriod?: string): Promise<{ throughPeriod: string; bills: ApiBill[] }> {
+    return this.request('/recurring-bills/generate', {
+      method: 'POST',
+      body: JSON.stringify({ throughPeriod }),
+    })
+  }
+
   // Mortgages API
   async getMortgages(): Promise<ApiMortgage[]> {
     return this.request('/mortgages')
@@ -365,6 +995,78 @@ class ApiClient {
     })
   }
 
+  async getMortgageAmortization(id: string, scenario: PayoffScenario = {}): Promise<ApiAmortization> {
+    const params = new URLSearchParams()
+    if (scenario.extraMonthlyCents) params.set('extraMonthlyCents', String(scenario.extraMonthlyCents))
+    if (scenario.lumpSumCents) params.set('lumpSumCents', String(scenario.lumpSumCents))
+    if (scenario.lumpSumPeriod) params.set('lumpSumPeriod', scenario.lumpSumPeriod)
+    if (scenario.biweekly) params.set('biweekly', 'true')
+    const search = params.toString()
+    return this.request(`/mortgages/${id}/amortization${search ? `?${search}` : ''}`)
+  }
+
+  async createMortgageRateEvent(mortgageId: string, data: any): Promise<ApiMortgageRateEvent> {
+    return this.request(`/mortgages/${mortgageId}/rate-events`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteMortgageRateEvent(mortgageId: string, id: string): Promise<{ success: boolean }> {
+    return this.request(`/mortgages/${mortgageId}/rate-events/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getRefinanceBreakEven(
+    mortgageId: string,
+    proposal: { interestRateApy: number; termMonths: number; closingCostsCents: number; principalCents?: number }
+  ): Promise<ApiRefinanceBreakEven> {
+    const params = new URLSearchParams({
+      interestRateApy: String(proposal.interestRateApy),
+      termMonths: String(proposal.termMonths),
+      closingCostsCents: String(proposal.closingCostsCents),
+    })
+    if (proposal.principalCents !== undefined) params.set('principalCents', String(proposal.principalCents))
+    return this.request(`/mortgages/${mortgageId}/refinance-break-even?${params}`)
+  }
+
+  async getEscrowAccount(mortgageId: string): Promise<ApiEscrowAccount> {
+    return this.request(`/mortgages/${mortgageId}/escrow`)
+  }
+
+  async updateEscrowOpeningBalance(mortgageId: string, openingBalanceCents: number): Promise<ApiEscrowAccount> {
+    return this.request(`/mortgages/${mortgageId}/escrow`, {
+      method: 'PUT',
+      body: JSON.stringify({ openingBalanceCents }),
+    })
+  }
+
+  async createEscrowDisbursement(mortgageId: string, data: any): Promise<ApiEscrowDisbursement> {
+    return this.request(`/mortgages/${mortgageId}/escrow/disbursements`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteEscrowDisbursement(mortgageId: string, id: string): Promise<{ success: boolean }> {
+    return this.request(`/mortgages/${mortgageId}/escrow/disbursements/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async applyEscrowAdjustment(mortgageId: string, data: any): Promise<ApiEscrowAdjustment> {
+    return this.request(`/mortgages/${mortgageId}/escrow/adjustments`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Reports API
+  async getTaxSummary(year: number): Promise<TaxSummary> {
+    return this.request(`/reports/tax-summary?year=${year}`)
+  }
+
   // Mortgage Payments API
   async createMortgagePayment(data: any): Promise<ApiMortgagePayment> {
     return this.request('/mortgage-payments', {
@@ -380,7 +1082,7 @@ class ApiClient {
     })
   }
 
-  async deleteMortgagePayment(id: string): Promise<{ success: boolean }> {
+  async deleteMortgagePayment(id: string): Promise<{ success: boolean; mortgageId: string; mortgageCurrentPrincipalCents: number }> {
     return this.request(`/mortgage-payments/${id}`, {
       method: 'DELETE',
     })
@@ -435,6 +1137,316 @@ class ApiClient {
       method: 'POST',
     })
   }
+
+  // Categories API
+  async getCategories(): Promise<ApiCategory[]> {
+    return this.request('/categories')
+  }
+
+  // Bank Imports API
+  async getBankProfiles(): Promise<ApiBankProfile[]> {
+    return this.request('/bank-profiles')
+  }
+
+  async createBankProfile(data: ApiBankProfileInput): Promise<ApiBankProfile> {
+    return this.request('/bank-profiles', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateBankProfile(id: string, data: ApiBankProfileInput): Promise<ApiBankProfile> {
+    return this.request(`/bank-profiles/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteBankProfile(id: string): Promise<{ success: boolean }> {
+    return this.request(`/bank-profiles/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async previewBankImport(data: { content: string; format: 'csv' | 'ofx' | 'qif'; profileId?: string; dateFormat?: string }): Promise<{ transactions: ApiImportPreviewTransaction[]; errors: { line: number; message: string }[] }> {
+    return this.request('/bank-imports/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Send every previewed row, skipped ones included; rows are told apart by their position in the statement
+  async importBankTransactions(data: { profileId?: string; payerMemberId?: string; transactions: (ApiStatementTransaction & { action: ApiImportAction })[] }): Promise<ApiImportResult> {
+    return this.request('/bank-imports', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Calendar Feeds API
+  async getCalendarFeeds(): Promise<ApiCalendarFeed[]> {
+    return this.request('/calendar-feeds')
+  }
+
+  async createCalendarFeed(data: { memberId: string | null }): Promise<ApiCreatedCalendarFeed> {
+    return this.request('/calendar-feeds', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteCalendarFeed(id: string): Promise<{ success: boolean }> {
+    return this.request(`/calendar-feeds/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Calendar apps fetch the feed directly from the API server
+  getCalendarFeedUrl(path: string): string {
+    return `${API_BASE}${path}`
+  }
+
+  // Notifications API
+  async getNotificationPreferences(): Promise<{ availableChannels: string[]; members: ApiMemberNotificationPreferences[] }> {
+    return this.request('/notification-preferences')
+  }
+
+  async updateNotificationPreferences(memberId: string, preferences: ApiNotificationPreferences): Promise<{ memberId: string; preferences: ApiNotificationPreferences }> {
+    return this.request(`/notification-preferences/${memberId}`, {
+      method: 'PUT',
+      body: JSON.stringify(preferences),
+    })
+  }
+
+  // Settle-up API
+  async getBalances(): Promise<{ balances: ApiMemberBalance[]; transfers: ApiSettleUpTransfer[] }> {
+    return this.request('/balances')
+  }
+
+  async getSettlements(): Promise<ApiSettlement[]> {
+    return this.request('/settlements')
+  }
+
+  async createSettlement(data: { fromMemberId: string; toMemberId: string; amountCents: number; settledDate?: string; note?: string }): Promise<ApiSettlement> {
+    return this.request('/settlements', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteSettlement(id: string): Promise<{ success: boolean }> {
+    return this.request(`/settlements/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Forecast API
+  async getForecast(options: { months?: number; startingBalanceCents?: number } = {}): Promise<ApiForecast> {
+    const params = new URLSearchParams()
+    if (options.months !== undefined) params.set('months', String(options.months))
+    if (options.startingBalanceCents !== undefined) params.set('startingBalanceCents', String(options.startingBalanceCents))
+    return this.request(`/forecast?${params}`)
+  }
+
+  // Budgets API
+  async getBudgets(): Promise<ApiBudget[]> {
+    return this.request('/budgets')
+  }
+
+  async getBudgetStatus(month?: string): Promise<ApiBudgetStatusReport> {
+    return this.request(month ? `/budgets/status?month=${month}` : '/budgets/status')
+  }
+
+  async createBudget(data: ApiBudgetInput): Promise<ApiBudget> {
+    return this.request('/budgets', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateBudget(id: string, data: ApiBudgetInput): Promise<ApiBudget> {
+    return this.request(`/budgets/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteBudget(id: string): Promise<{ success: boolean }> {
+    return this.request(`/budgets/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Income API
+  async getIncomeSources(): Promise<ApiIncomeSource[]> {
+    return this.request('/income-sources')
+  }
+
+  async createIncomeSource(data: ApiIncomeSourceInput): Promise<ApiIncomeSource> {
+    return this.request('/income-sources', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateIncomeSource(id: string, data: ApiIncomeSourceInput): Promise<ApiIncomeSource> {
+    return this.request(`/income-sources/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteIncomeSource(id: string): Promise<{ success: boolean }> {
+    return this.request(`/income-sources/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getIncomeDeposits(): Promise<ApiIncomeDeposit[]> {
+    return this.request('/income-deposits')
+  }
+
+  // With an incomeSourceId, memberId and amountCents default to the source's
+  async createIncomeDeposit(data: { incomeSourceId?: string; memberId?: string; amountCents?: number; depositedDate?: string; note?: string }): Promise<ApiIncomeDeposit> {
+    return this.request('/income-deposits', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteIncomeDeposit(id: string): Promise<{ success: boolean }> {
+    return this.request(`/income-deposits/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Savings Goals API
+  async getSavingsGoals(): Promise<ApiSavingsGoal[]> {
+    return this.request('/savings-goals')
+  }
+
+  async createSavingsGoal(data: ApiSavingsGoalInput): Promise<ApiSavingsGoal> {
+    return this.request('/savings-goals', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateSavingsGoal(id: string, data: ApiSavingsGoalInput): Promise<ApiSavingsGoal> {
+    return this.request(`/savings-goals/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteSavingsGoal(id: string): Promise<{ success: boolean }> {
+    return this.request(`/savings-goals/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async createSavingsContribution(goalId: string, data: { memberId: string; amountCents: number; contributedDate?: string; method: PaymentMethod; note?: string }): Promise<ApiSavingsGoal> {
+    return this.request(`/savings-goals/${goalId}/contributions`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteSavingsContribution(id: string): Promise<{ success: boolean }> {
+    return this.request(`/savings-contributions/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Net Worth API
+  async getFinancialAccounts(): Promise<ApiFinancialAccount[]> {
+    return this.request('/financial-accounts')
+  }
+
+  async createFinancialAccount(data: ApiFinancialAccountInput): Promise<ApiFinancialAccount> {
+    return this.request('/financial-accounts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateFinancialAccount(id: string, data: ApiFinancialAccountInput): Promise<ApiFinancialAccount> {
+    return this.request(`/financial-accounts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteFinancialAccount(id: string): Promise<{ success: boolean }> {
+    return this.request(`/financial-accounts/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async recordAccountBalance(accountId: string, data: { balanceCents: number; asOfDate?: string }): Promise<ApiFinancialAccount> {
+    return this.request(`/financial-accounts/${accountId}/balances`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteAccountBalance(id: string): Promise<{ success: boolean }> {
+    return this.request(`/financial-account-balances/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getNetWorth(months?: number): Promise<ApiNetWorth> {
+    return this.request(`/net-worth${months ? `?months=${months}` : ''}`)
+  }
+
+  // Autopay API
+  async runAutopay(dryRun = false): Promise<{ payments: ApiAutopayPayment[] }> {
+    return this.request(`/autopay/run?dryRun=${dryRun}`, {
+      method: 'POST',
+    })
+  }
+
+  async getUpcomingDebits(days?: number): Promise<ApiUpcomingDebits> {
+    return this.request(`/autopay/upcoming${days ? `?days=${days}` : ''}`)
+  }
+
+  // Trash API: deleted items can be restored until they are purged
+  async getTrash(): Promise<ApiTrashItem[]> {
+    return this.request('/trash')
+  }
+
+  async restoreTrashItem(kind: ApiTrashItemKind, id: string): Promise<{ success: boolean }> {
+    return this.request(`/trash/${kind}/${id}/restore`, {
+      method: 'POST',
+    })
+  }
+
+  async purgeTrashItem(kind: ApiTrashItemKind, id: string): Promise<{ success: boolean }> {
+    return this.request(`/trash/${kind}/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async emptyTrash(): Promise<{ purged: number }> {
+    return this.request('/trash', {
+      method: 'DELETE',
+    })
+  }
+
+  // Backup API
+  async exportBackup(): Promise<ApiBackupArchive> {
+    return this.request('/export')
+  }
+
+  // A dry run reports what would be restored without writing anything; 'skip' keeps rows that already exist
+  async importBackup(archive: ApiBackupArchive, options: { dryRun?: boolean; onConflict?: 'abort' | 'skip' } = {}): Promise<ApiBackupImportReport> {
+    const params = new URLSearchParams({ dryRun: String(!!options.dryRun), onConflict: options.onConflict ?? 'abort' })
+    return this.request(`/import?${params}`, {
+      method: 'POST',
+      body: JSON.stringify(archive),
+    })
+  }
 }
 
 export const apiClient = new ApiClient()
\ No newline at end of file
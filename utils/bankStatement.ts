@@ -0,0 +1,329 @@
+// Parsing of bank statement exports into transactions. Shared by the import screen (to read the
+// CSV header for column mapping) and the server (which parses, matches and records the rows).
+
+export type StatementFileFormat = 'csv' | 'ofx' | 'qif';
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+/**
+ * How a bank's CSV export maps onto transactions. Columns are named by their header text.
+ * A statement has either one signed `amountColumn` or a `debitColumn` (money out) with an
+ * optional `creditColumn` (money in).
+ */
+export interface BankColumnMapping {
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn?: string | null;
+  debitColumn?: string | null;
+  creditColumn?: string | null;
+  dateFormat: StatementDateFormat;
+  // Set for banks that show money going out as a positive amount
+  negateAmounts?: boolean;
+}
+
+export interface StatementTransaction {
+  // 'YYYY-MM-DD'
+  date: string;
+  description: string;
+  // Negative for money leaving the account
+  amountCents: number;
+  // The bank's own id for the row (the OFX FITID, prefixed with the account id), when the format has one
+  externalId?: string;
+}
+
+export interface StatementParseResult {
+  transactions: StatementTransaction[];
+  // Rows that could not be read, by 1-based line number
+  errors: { line: number; message: string }[];
+}
+
+/**
+ * Splits CSV text into rows of fields. Handles quoted fields (with "" escapes and embedded
+ * newlines), CRLF line endings and a leading byte order mark. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Converts a statement date to 'YYYY-MM-DD', or returns null if it does not match the format.
+ * Single-digit days and months are accepted (e.g. 3/7/2025).
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): string | null {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  if (format === 'YYYY-MM-DD') {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(trimmed);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})$/.exec(trimmed);
+    if (!match) return null;
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+    year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  }
+
+  // Reject dates that roll over, e.g. 02/31
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Converts a statement amount such as "-1,234.56", "$12.00" or "(12.00)" to cents.
+ * Returns null for blank or unreadable values.
+ */
+export function parseStatementAmountCents(value: string): number | null {
+  let cleaned = value.trim().replace(/[$€£,\s]/g, '');
+  if (!cleaned) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(cleaned)) {
+    sign = -1;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (!/^[-+]?\d*\.?\d+$/.test(cleaned)) return null;
+
+  return sign * Math.round(parseFloat(cleaned) * 100);
+}
+
+/**
+ * Parses a CSV statement with a header row using the given column mapping.
+ */
+export function parseStatementCsv(text: string, mapping: BankColumnMapping): StatementParseResult {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return { transactions: [], errors: [{ line: 1, message: 'The file is empty' }] };
+  }
+
+  const headerNames = header.map(name => name.trim());
+  const columnIndex = (name?: string | null) => (name ? headerNames.indexOf(name.trim()) : -1);
+  const dateIndex = columnIndex(mapping.dateColumn);
+  const descriptionIndex = columnIndex(mapping.descriptionColumn);
+  const amountIndex = columnIndex(mapping.amountColumn);
+  const debitIndex = columnIndex(mapping.debitColumn);
+  const creditIndex = columnIndex(mapping.creditColumn);
+
+  const missing = [
+    dateIndex === -1 && mapping.dateColumn,
+    descriptionIndex === -1 && mapping.descriptionColumn,
+    mapping.amountColumn && amountIndex === -1 && mapping.amountColumn,
+    mapping.debitColumn && debitIndex === -1 && mapping.debitColumn,
+    mapping.creditColumn && creditIndex === -1 && mapping.creditColumn,
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { transactions: [], errors: [{ line: 1, message: `Missing column(s): ${missing.join(', ')}` }] };
+  }
+  if (amountIndex === -1 && debitIndex === -1) {
+    return { transactions: [], errors: [{ line: 1, message: 'Map either an amount column or a debit column' }] };
+  }
+
+  const transactions: StatementTransaction[] = [];
+  const errors: StatementParseResult['errors'] = [];
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const date = parseStatementDate(row[dateIndex] ?? '', mapping.dateFormat);
+    if (!date) {
+      errors.push({ line, message: `Unreadable date "${row[dateIndex] ?? ''}"` });
+      return;
+    }
+
+    let amountCents: number | null;
+    if (amountIndex !== -1) {
+      amountCents = parseStatementAmountCents(row[amountIndex] ?? '');
+      if (amountCents !== null && mapping.negateAmounts) amountCents = -amountCents;
+    } else {
+      // Debit and credit columns hold unsigned amounts; only one of them is filled in per row
+      const debit = parseStatementAmountCents(row[debitIndex] ?? '');
+      const credit = creditIndex !== -1 ? parseStatementAmountCents(row[creditIndex] ?? '') : null;
+      amountCents = debit ? -Math.abs(debit) : credit !== null ? Math.abs(credit) : null;
+    }
+    if (amountCents === null) {
+      errors.push({ line, message: 'Unreadable amount' });
+      return;
+    }
+
+    transactions.push({
+      date,
+      description: (row[descriptionIndex] ?? '').trim().replace(/\s+/g, ' '),
+      amountCents,
+    });
+  });
+
+  return { transactions, errors };
+}
+
+/**
+ * Guesses the format of a statement file from its content. OFX and QFX (Quicken's name for OFX)
+ * start with an OFX header or tag, QIF with a !Type line; anything else is treated as CSV.
+ */
+export function detectStatementFormat(text: string): StatementFileFormat {
+  const start = text.replace(/^\uFEFF/, '').trimStart().slice(0, 500);
+  if (/^(OFXHEADER:|<OFX>)/i.test(start) || (/^<\?xml/i.test(start) && /<\?OFX|<OFX>/i.test(start))) {
+    return 'ofx';
+  }
+  if (/^!(Type|Account|Option)/i.test(start)) {
+    return 'qif';
+  }
+  return 'csv';
+}
+
+const decodeOfxText = (value: string) => value
+  .replace(/&lt;/gi, '<')
+  .replace(/&gt;/gi, '>')
+  .replace(/&quot;/gi, '"')
+  .replace(/&apos;/gi, "'")
+  .replace(/&nbsp;/gi, ' ')
+  .replace(/&amp;/gi, '&')
+  .trim();
+
+const lineNumberAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+/**
+ * Parses an OFX or QFX file, either the SGML flavour (OFX 1.x, where value tags are not closed)
+ * or XML (OFX 2.x). Each STMTTRN becomes a transaction; its FITID is only unique within one
+ * account, so the external id is the account id and the FITID together.
+ */
+export function parseOfx(text: string): StatementParseResult {
+  const transactions: StatementTransaction[] = [];
+  const errors: StatementParseResult['errors'] = [];
+  const readTag = (block: string, tag: string) => {
+    const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+    return match ? decodeOfxText(match[1]) : '';
+  };
+
+  const accounts = [...text.matchAll(/<ACCTID>([^<\r\n]*)/gi)].map(match => ({ index: match.index ?? 0, id: decodeOfxText(match[1]) }));
+  const blocks = [...text.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)];
+  if (blocks.length === 0 && !/<OFX>/i.test(text)) {
+    return { transactions, errors: [{ line: 1, message: 'This is not an OFX file' }] };
+  }
+
+  for (const block of blocks) {
+    const line = lineNumberAt(text, block.index ?? 0);
+    const body = block[1];
+    // DTPOSTED is YYYYMMDD optionally followed by a time and time zone
+    const posted = /^(\d{4})(\d{2})(\d{2})/.exec(readTag(body, 'DTPOSTED'));
+    const date = posted ? parseStatementDate(`${posted[1]}-${posted[2]}-${posted[3]}`, 'YYYY-MM-DD') : null;
+    if (!date) {
+      errors.push({ line, message: `Unreadable date "${readTag(body, 'DTPOSTED')}"` });
+      continue;
+    }
+    const amountCents = parseStatementAmountCents(readTag(body, 'TRNAMT'));
+    if (amountCents === null) {
+      errors.push({ line, message: 'Unreadable amount' });
+      continue;
+    }
+
+    // The account the transaction belongs to is the last one named before its statement's transaction list
+    const account = accounts.filter(a => a.index < (block.index ?? 0)).pop();
+    const fitId = readTag(body, 'FITID');
+    transactions.push({
+      date,
+      description: (readTag(body, 'NAME') || readTag(body, 'MEMO') || readTag(body, 'CHECKNUM')).replace(/\s+/g, ' '),
+      amountCents,
+      ...(fitId && { externalId: `${account?.id ?? ''}:${fitId}` }),
+    });
+  }
+
+  return { transactions, errors };
+}
+
+/**
+ * Parses a QIF file. Records are lists of one-letter fields ended by a ^ line: D date, T (or U)
+ * amount, P payee and M memo. QIF dates follow the exporting program's locale, so the day/month
+ * order comes from `dateFormat`; Quicken's 2-digit year form (3/14'25) is accepted.
+ * Account and option sections are ignored.
+ */
+export function parseQif(text: string, dateFormat: StatementDateFormat = 'MM/DD/YYYY'): StatementParseResult {
+  const transactions: StatementTransaction[] = [];
+  const errors: StatementParseResult['errors'] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n|\r/);
+
+  let isTransactionSection = true;
+  let record: Record<string, string> = {};
+  let recordLine = 1;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      isTransactionSection = /^!Type:(?!(Cat|Class|Memorized|Prices|Security))/i.test(line);
+      record = {};
+      return;
+    }
+    if (line !== '^') {
+      if (Object.keys(record).length === 0) recordLine = index + 1;
+      // Split lines (S, E, $) repeat per split; only the first value of each field is kept
+      record[line[0]] ??= line.slice(1).trim();
+      return;
+    }
+
+    const fields = record;
+    record = {};
+    if (!isTransactionSection) return;
+
+    const rawDate = fields.D ?? '';
+    const compactDate = rawDate.replace(/\s+/g, '');
+    const date = parseStatementDate(dateFormat === 'YYYY-MM-DD' ? compactDate : compactDate.replace(/['-]/g, '/'), dateFormat);
+    if (!date) {
+      errors.push({ line: recordLine, message: `Unreadable date "${rawDate}"` });
+      return;
+    }
+    const amountCents = parseStatementAmountCents(fields.T ?? fields.U ?? '');
+    if (amountCents === null) {
+      errors.push({ line: recordLine, message: 'Unreadable amount' });
+      return;
+    }
+
+    transactions.push({
+      date,
+      description: (fields.P || fields.M || fields.N || '').replace(/\s+/g, ' '),
+      amountCents,
+    });
+  });
+
+  return { transactions, errors };
+}
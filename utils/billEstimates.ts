@@ -0,0 +1,48 @@
+// Estimates for bills of variable recurring bills (utilities, phone), worked out from the amounts of
+// earlier bills that were confirmed against a statement. Dates are 'YYYY-MM-DD' and amounts are in
+// cents, except on Splittables, which are in dollars like the bills.
+
+import { EstimateMethod, Splittable } from '../types';
+
+export const ESTIMATE_METHODS: EstimateMethod[] = ['last', 'average', 'last-year'];
+
+// How many confirmed bills the rolling average covers
+export const ESTIMATE_AVERAGE_BILLS = 3;
+
+export interface ConfirmedAmount {
+  dueDate: string;
+  amountCents: number;
+}
+
+/**
+ * The estimate for a bill due on `dueDate`, from confirmed amounts due before it: the latest one,
+ * the average of the latest three, or the one due in the same month a year earlier (the latest
+ * amount when there is none). Without any history the recurring bill's own amount is used.
+ */
+export function estimateBillAmount(method: EstimateMethod, history: ConfirmedAmount[], dueDate: string, fallbackCents: number): number {
+  const earlier = history
+    .filter(entry => entry.dueDate < dueDate)
+    .sort((a, b) => b.dueDate.localeCompare(a.dueDate));
+  if (earlier.length === 0) return fallbackCents;
+
+  if (method === 'average') {
+    const recent = earlier.slice(0, ESTIMATE_AVERAGE_BILLS);
+    return Math.round(recent.reduce((sum, entry) => sum + entry.amountCents, 0) / recent.length);
+  }
+  if (method === 'last-year') {
+    const lastYearMonth = `${Number(dueDate.slice(0, 4)) - 1}${dueDate.slice(4, 7)}`;
+    const sameMonth = earlier.find(entry => entry.dueDate.slice(0, 7) === lastYearMonth);
+    if (sameMonth) return sameMonth.amountCents;
+  }
+  return earlier[0].amountCents;
+}
+
+/**
+ * A bill at a new amount, for estimates and confirmed statement amounts. Share and percent splits
+ * already follow the amount through calculateSplitAmounts; fixed-amount splits become shares in the
+ * same proportions, as financed expense installments are split.
+ */
+export function splitForAmount(bill: Splittable, amount: number): Splittable {
+  if (bill.splitMode !== 'amount' || Math.abs(amount - bill.amount) < 0.005) return { ...bill, amount };
+  return { amount, splitMode: 'shares', splits: bill.splits };
+}
@@ -0,0 +1,114 @@
+import { addMonthsToPeriod } from './recurrence';
+
+// Monthly budgets compared with split-aware spending (each member's share of bills, financed expense
+// installments and mortgage payments, by category). Months are 'YYYY-MM' and amounts are in cents.
+
+export interface BudgetMonthAmount {
+  month: string;
+  amountCents: number;
+}
+
+export interface BudgetDefinition {
+  id: string;
+  // A budget covers one category, one member, or one member within one category
+  categoryId: string | null;
+  memberId: string | null;
+  amountCents: number;
+  rollover: boolean;
+  startMonth: string;
+  monthAmounts: BudgetMonthAmount[];
+}
+
+export interface SpendingShare {
+  memberId: string;
+  categoryId: string;
+  totalCents: number;
+}
+
+export type BudgetHealth = 'under' | 'near' | 'over';
+
+export interface BudgetStatus {
+  budgetId: string;
+  month: string;
+  limitCents: number;
+  // Unused amounts carried over from earlier months
+  rolloverCents: number;
+  availableCents: number;
+  spentCents: number;
+  remainingCents: number;
+  percentUsed: number;
+  status: BudgetHealth;
+}
+
+// Share of the available amount spent before a budget counts as nearly used up
+export const BUDGET_WARNING_PERCENT = 90;
+
+// How many earlier months unused amounts are carried over from
+export const BUDGET_ROLLOVER_MONTHS = 12;
+
+/**
+ * The budget's limit for a month: its override for that month, otherwise the usual amount, and
+ * nothing before the budget starts.
+ */
+export function getBudgetAmountForMonth(budget: BudgetDefinition, month: string): number {
+  if (month < budget.startMonth) return 0;
+  return budget.monthAmounts.find(override => override.month === month)?.amountCents ?? budget.amountCents;
+}
+
+/**
+ * Spending that counts against the budget.
+ */
+export function sumBudgetSpending(budget: BudgetDefinition, spending: SpendingShare[]): number {
+  return spending
+    .filter(share => (budget.categoryId === null || share.categoryId === budget.categoryId) &&
+      (budget.memberId === null || share.memberId === budget.memberId))
+    .reduce((sum, share) => sum + share.totalCents, 0);
+}
+
+/**
+ * Months whose spending a status for `month` needs: the month itself, plus the months unused
+ * amounts can roll over from.
+ */
+export function getBudgetMonthsNeeded(budget: BudgetDefinition, month: string): string[] {
+  const months = [month];
+  if (!budget.rollover) return months;
+  for (let i = 1; i <= BUDGET_ROLLOVER_MONTHS; i++) {
+    const earlier = addMonthsToPeriod(month, -i);
+    if (earlier < budget.startMonth) break;
+    months.unshift(earlier);
+  }
+  return months;
+}
+
+/**
+ * Budget against actual for a month. With rollover, whatever was left of each earlier month is
+ * added to the next; overspending a month does not reduce the following ones.
+ */
+export function computeBudgetStatus(
+  budget: BudgetDefinition,
+  month: string,
+  spendingByMonth: Map<string, SpendingShare[]>
+): BudgetStatus {
+  let rolloverCents = 0;
+  for (const earlier of getBudgetMonthsNeeded(budget, month).slice(0, -1)) {
+    const available = getBudgetAmountForMonth(budget, earlier) + rolloverCents;
+    rolloverCents = Math.max(0, available - sumBudgetSpending(budget, spendingByMonth.get(earlier) ?? []));
+  }
+
+  const limitCents = getBudgetAmountForMonth(budget, month);
+  const availableCents = limitCents + rolloverCents;
+  const spentCents = sumBudgetSpending(budget, spendingByMonth.get(month) ?? []);
+  const percentUsed = availableCents > 0 ? Math.round((spentCents / availableCents) * 100) : spentCents > 0 ? 100 : 0;
+
+  return {
+    budgetId: budget.id,
+    month,
+    limitCents,
+    rolloverCents,
+    availableCents,
+    spentCents,
+    remainingCents: availableCents - spentCents,
+    percentUsed,
+    status: spentCents > availableCents ? 'over' : percentUsed >= BUDGET_WARNING_PERCENT ? 'near' : 'under',
+  };
+}
@@ -341,6 +341,46 @@ export function resolveItemCycle(
 
 // --- Mortgage Snapshot Calculation Functions ---
 
+export interface MortgageTerms {
+    interest_rate_apy: number;
+    term_months: number;
+    // Start of the current term: the loan's start date, or the latest refinance
+    start_date: string;
+    scheduled_payment: number;
+}
+
+/**
+ * The rate, term and payment in effect on a date, after every refinance and rate reset effective on
+ * or before it. Dates are compared as "YYYY-MM-DD" strings, so a Date is taken in local time.
+ */
+export function getMortgageTermsOn(
+    mortgage: Pick<Mortgage, 'interest_rate_apy' | 'term_months' | 'start_date' | 'scheduled_payment' | 'rateEvents'>,
+    date: Date | string
+): MortgageTerms {
+    const day = typeof date === 'string'
+        ? date.slice(0, 10)
+        : `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const terms: MortgageTerms = {
+        interest_rate_apy: mortgage.interest_rate_apy,
+        term_months: mortgage.term_months,
+        start_date: mortgage.start_date,
+        scheduled_payment: mortgage.scheduled_payment,
+    };
+
+    const events = (mortgage.rateEvents ?? [])
+        .filter(event => event.effectiveDate <= day)
+        .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+    for (const event of events) {
+        terms.interest_rate_apy = event.interestRateApy;
+        if (event.kind === 'refinance' && event.termMonths) {
+            terms.term_months = event.termMonths;
+            terms.start_date = event.effectiveDate;
+        }
+        if (event.scheduledPayment) terms.scheduled_payment = event.scheduledPayment;
+    }
+    return terms;
+}
+
 const monthsRemainingFormula = (principal: number, monthlyPayment: number, monthlyRate: number): number | null => {
     if (monthlyRate <= 0) return principal / monthlyPayment;
     if (monthlyPayment <= principal * monthlyRate) return null; // Payment doesn't cover interest
@@ -364,9 +404,11 @@ export function computeMortgageStats(mortgage: Mortgage, payments: MortgagePayme
 
     // Last 3 months average extra principal
     const last3Months: { [key: string]: number } = {};
-    const monthlyRate = (mortgage.interest_rate_apy / 100) / 12;
+    // Projections follow the rate and payment in effect today
+    const terms = getMortgageTermsOn(mortgage, today);
+    const monthlyRate = (terms.interest_rate_apy / 100) / 12;
     const escrowMonthly = mortgage.escrow_enabled ? (mortgage.escrow_taxes || 0) + (mortgage.escrow_insurance || 0) + (mortgage.escrow_hoa || 0) + (mortgage.escrow_mip || 0) : 0;
-    const scheduledPI = mortgage.scheduled_payment - escrowMonthly;
+    const scheduledPI = terms.scheduled_payment - escrowMonthly;
 
     breakdowns.forEach(bd => {
         const p = payments.find(p => p.id === bd.id);
@@ -392,7 +434,7 @@ export function computeMortgageStats(mortgage: Mortgage, payments: MortgagePayme
     const per_member_lifetime = people.map(p => ({ personId: p.id, name: p.name, total: 0 }));
 
     const processContributions = (payment: MortgagePayment, list: typeof per_member_ytd) => {
-        const allocations = payment.allocations ?? allocatePaymentProportionally(payment.amount, {...mortgage, amount: mortgage.scheduled_payment}, people);
+        const allocations = payment.allocations ?? allocatePaymentProportionally(payment.amount, {...mortgage, amount: terms.scheduled_payment}, people);
         allocations.forEach(alloc => {
             const member = list.find(m => m.personId === alloc.personId);
             if (member) member.total += alloc.amount;
@@ -413,11 +455,11 @@ export function computeMortgageStats(mortgage: Mortgage, payments: MortgagePayme
         mortgage: {
             id: mortgage.id,
             name: mortgage.name,
-            interest_rate_apy: mortgage.interest_rate_apy,
-            term_months: mortgage.term_months,
+            interest_rate_apy: terms.interest_rate_apy,
+            term_months: terms.term_months,
             original_principal: mortgage.original_principal,
             current_principal: mortgage.current_principal,
-            scheduled_payment: mortgage.scheduled_payment,
+            scheduled_payment: terms.scheduled_payment,
             escrow_monthly: escrowMonthly,
             next_due_date: nextDueDate,
         },
@@ -450,7 +492,8 @@ export function calculatePaymentBreakdown(payment: MortgagePayment, mortgage: Mo
         .filter(p => new Date(p.paidDate) > new Date(payment.paidDate) && p.mortgageId === mortgage.id)
         .reduce((sum, p) => sum + p.amount, 0); // Crude approximation
 
-    const monthlyRate = (mortgage.interest_rate_apy / 100) / 12;
+    // Interest at the rate in effect when the payment was made
+    const monthlyRate = (getMortgageTermsOn(mortgage, payment.paidDate).interest_rate_apy / 100) / 12;
     const interestForCycle = Math.floor(principalAtTimeOfPayment * monthlyRate);
     
     const escrowTotal = mortgage.escrow_enabled 
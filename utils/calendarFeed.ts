@@ -0,0 +1,107 @@
+import { Person } from '../types';
+import { CalculatedSplit } from './calculations';
+
+// iCalendar (RFC 5545) output for the subscribable due date feeds. Every event is an all-day
+// event on its due date.
+
+export interface CalendarEvent {
+  // Stable across feed refreshes so calendar apps update events instead of duplicating them
+  uid: string;
+  // 'YYYY-MM-DD'
+  date: string;
+  summary: string;
+  description: string;
+}
+
+const formatDollars = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * Escapes TEXT values: backslashes, semicolons, commas and newlines.
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so no line is longer than 75 octets; continuation lines start with a space.
+ * Characters are never split, so multi-byte text stays valid UTF-8.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = new TextEncoder().encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const toICalDate = (date: string) => date.replace(/-/g, '');
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Describes an amount and who owes what of it, one member per line, e.g.
+ * "Amount: $120.00\nAlex: $60.00\nSam: $60.00". Members owing nothing are left out.
+ */
+export function describeSplits(amount: number, splits: CalculatedSplit[], people: Person[]): string {
+  const lines = [`Amount: ${formatDollars(amount)}`];
+  for (const split of splits) {
+    const person = people.find(p => p.id === split.personId);
+    if (person && split.amount > 0) {
+      lines.push(`${person.name}: ${formatDollars(split.amount)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds a VCALENDAR document with one all-day VEVENT per event, sorted by date.
+ */
+export function buildICalendar(calendarName: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Family Growth Tracker//Due Dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  const sorted = [...events].sort((a, b) => a.date.localeCompare(b.date) || a.summary.localeCompare(b.summary));
+  for (const event of sorted) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toICalDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
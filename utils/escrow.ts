@@ -0,0 +1,147 @@
+import { addMonthsToPeriod, getRecurringDueDate } from './recurrence';
+
+// Escrow account analysis. The account is funded by the escrow part of every mortgage payment and
+// drawn down by the property tax, insurance, mortgage insurance and HOA bills the lender pays from it.
+// Like a lender's annual analysis, the coming year's bills are assumed to repeat the past year's.
+// Amounts are in cents.
+
+export type EscrowCategory = 'taxes' | 'insurance' | 'mip' | 'hoa';
+
+export const ESCROW_CATEGORIES: EscrowCategory[] = ['taxes', 'insurance', 'mip', 'hoa'];
+
+export interface EscrowDisbursementEntry {
+  category: EscrowCategory;
+  amountCents: number;
+  // 'YYYY-MM-DD'
+  date: string;
+}
+
+export interface EscrowProjectionInput {
+  // Balance on `asOfDate`, after everything recorded up to then
+  balanceCents: number;
+  asOfDate: string;
+  monthlyDepositCents: number;
+  // 'YYYY-MM' of the first deposit to project
+  firstPeriod: string;
+  paymentDay: number;
+  // Disbursements already made; those from the year before `asOfDate` are expected again a year later
+  disbursements: EscrowDisbursementEntry[];
+  months?: number;
+}
+
+export interface EscrowProjectionRow {
+  period: string;
+  depositCents: number;
+  disbursementCents: number;
+  balanceCents: number;
+}
+
+export type EscrowStatus = 'shortage' | 'surplus' | 'ok';
+
+export interface EscrowAnalysis {
+  rows: EscrowProjectionRow[];
+  expectedDisbursements: EscrowDisbursementEntry[];
+  annualDisbursementCents: number;
+  // Lowest projected balance and the date it is reached
+  lowPointCents: number;
+  lowPointDate: string;
+  // Reserve lenders may hold on top of the bills: two months of disbursements
+  cushionCents: number;
+  shortageCents: number;
+  surplusCents: number;
+  status: EscrowStatus;
+  // Monthly escrow per category that covers the coming year's bills
+  suggestedCategoryCents: Record<EscrowCategory, number>;
+  // Suggested total monthly escrow, with any shortage spread over the next twelve payments
+  suggestedMonthlyCents: number;
+}
+
+// Lenders refund a surplus from this amount up and may keep a smaller one
+export const ESCROW_SURPLUS_REFUND_CENTS = 5000;
+
+const PROJECTION_MONTHS = 12;
+
+/**
+ * Adds whole years to a 'YYYY-MM-DD' date, moving Feb 29 to Feb 28 in other years.
+ */
+export function addYearsToDate(date: string, years: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const targetYear = year + years;
+  const lastDay = new Date(targetYear, month, 0).getDate();
+  return `${targetYear}-${String(month).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+}
+
+/**
+ * Projects the escrow balance over the coming year and works out the shortage or surplus the
+ * lender's analysis would find. Disbursements are taken before a deposit on the same day.
+ */
+export function analyzeEscrowAccount(input: EscrowProjectionInput): EscrowAnalysis {
+  const months = input.months ?? PROJECTION_MONTHS;
+  const windowStart = addYearsToDate(input.asOfDate, -1);
+  const expectedDisbursements = input.disbursements
+    .filter(entry => entry.date > windowStart && entry.date <= input.asOfDate)
+    .map(entry => ({ ...entry, date: addYearsToDate(entry.date, 1) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const rows: EscrowProjectionRow[] = [];
+  let balanceCents = input.balanceCents;
+  let lowPointCents = balanceCents;
+  let lowPointDate = input.asOfDate;
+  let nextDisbursement = 0;
+
+  const takeDisbursementsThrough = (date: string) => {
+    let takenCents = 0;
+    while (nextDisbursement < expectedDisbursements.length && expectedDisbursements[nextDisbursement].date <= date) {
+      const entry = expectedDisbursements[nextDisbursement++];
+      balanceCents -= entry.amountCents;
+      takenCents += entry.amountCents;
+      if (balanceCents < lowPointCents) {
+        lowPointCents = balanceCents;
+        lowPointDate = entry.date;
+      }
+    }
+    return takenCents;
+  };
+
+  for (let i = 0; i < months; i++) {
+    const period = addMonthsToPeriod(input.firstPeriod, i);
+    const dueDate = getRecurringDueDate(period, input.paymentDay);
+    const disbursementCents = takeDisbursementsThrough(dueDate);
+    balanceCents += input.monthlyDepositCents;
+    rows.push({ period, depositCents: input.monthlyDepositCents, disbursementCents, balanceCents });
+  }
+  // Bills due after the last projected deposit still come out of the year
+  if (rows.length > 0) {
+    const lastRow = rows[rows.length - 1];
+    lastRow.disbursementCents += takeDisbursementsThrough('9999-12-31');
+    lastRow.balanceCents = balanceCents;
+  }
+
+  const annualDisbursementCents = expectedDisbursements.reduce((sum, entry) => sum + entry.amountCents, 0);
+  const cushionCents = Math.floor(annualDisbursementCents / 6);
+  const shortageCents = Math.max(0, cushionCents - lowPointCents);
+  const surplusCents = Math.max(0, lowPointCents - cushionCents);
+
+  const suggestedCategoryCents = Object.fromEntries(ESCROW_CATEGORIES.map(category => [
+    category,
+    Math.ceil(expectedDisbursements
+      .filter(entry => entry.category === category)
+      .reduce((sum, entry) => sum + entry.amountCents, 0) / PROJECTION_MONTHS),
+  ])) as Record<EscrowCategory, number>;
+  const suggestedMonthlyCents = ESCROW_CATEGORIES.reduce((sum, category) => sum + suggestedCategoryCents[category], 0) +
+    Math.ceil(shortageCents / PROJECTION_MONTHS);
+
+  return {
+    rows,
+    expectedDisbursements,
+    annualDisbursementCents,
+    lowPointCents,
+    lowPointDate,
+    cushionCents,
+    shortageCents,
+    surplusCents,
+    status: shortageCents > 0 ? 'shortage' : surplusCents >= ESCROW_SURPLUS_REFUND_CENTS ? 'surplus' : 'ok',
+    suggestedCategoryCents,
+    suggestedMonthlyCents,
+  };
+}
@@ -0,0 +1,148 @@
+// Cash flow forecast: every expected inflow and outflow by date (bills still unpaid, recurring bill
+// occurrences, mortgage payments, financed expense installments and projected income), rolled into a
+// day-by-day running balance and monthly totals with each member's share. Amounts are in cents.
+
+export type ForecastEntryType = 'bill' | 'recurring-bill' | 'mortgage' | 'financed-expense-payment' | 'income';
+
+export interface ForecastShare {
+  memberId: string;
+  amountCents: number;
+}
+
+export interface ForecastEntry {
+  type: ForecastEntryType;
+  id: string;
+  name: string;
+  // 'YYYY-MM-DD'
+  date: string;
+  // Positive for income, negative for money going out
+  amountCents: number;
+  // Whose money it is: split shares of an outflow, the earner of income
+  shares: ForecastShare[];
+  // Bills of variable recurring bills whose statement amount is not in yet
+  isEstimated?: boolean;
+}
+
+export interface ForecastDay {
+  date: string;
+  inflowCents: number;
+  outflowCents: number;
+  balanceCents: number;
+  entries: ForecastEntry[];
+}
+
+export interface ForecastMemberMonth {
+  memberId: string;
+  inflowCents: number;
+  outflowCents: number;
+  // Part of outflowCents that is estimated
+  estimatedOutflowCents: number;
+  netCents: number;
+}
+
+export interface ForecastMonth {
+  // 'YYYY-MM'
+  month: string;
+  inflowCents: number;
+  outflowCents: number;
+  // Part of outflowCents that is estimated
+  estimatedOutflowCents: number;
+  netCents: number;
+  endingBalanceCents: number;
+  // Lowest running balance at the end of any day in the month
+  lowestBalanceCents: number;
+  members: ForecastMemberMonth[];
+}
+
+export interface Forecast {
+  startDate: string;
+  startingBalanceCents: number;
+  months: ForecastMonth[];
+  // Only days with at least one entry
+  days: ForecastDay[];
+  // The month whose outflows exceed its inflows by the most; null when every month comes out ahead
+  tightestMonth: string | null;
+}
+
+/**
+ * Rolls entries into a running balance. Entries dated before `startDate` (overdue bills) are
+ * counted on `startDate`; `months` lists every month from `startDate`'s, including quiet ones.
+ */
+export function buildForecast(entries: ForecastEntry[], startDate: string, months: string[], startingBalanceCents = 0): Forecast {
+  const lastMonth = months[months.length - 1];
+  const dated = entries
+    .map(entry => (entry.date < startDate ? { ...entry, date: startDate } : entry))
+    .filter(entry => entry.date.slice(0, 7) <= lastMonth)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const days: ForecastDay[] = [];
+  let balanceCents = startingBalanceCents;
+  for (const entry of dated) {
+    let day = days[days.length - 1];
+    if (!day || day.date !== entry.date) {
+      day = { date: entry.date, inflowCents: 0, outflowCents: 0, balanceCents, entries: [] };
+      days.push(day);
+    }
+    if (entry.amountCents >= 0) {
+      day.inflowCents += entry.amountCents;
+    } else {
+      day.outflowCents -= entry.amountCents;
+    }
+    balanceCents += entry.amountCents;
+    day.balanceCents = balanceCents;
+    day.entries.push(entry);
+  }
+
+  let openingBalanceCents = startingBalanceCents;
+  const forecastMonths = months.map(month => {
+    const monthDays = days.filter(day => day.date.slice(0, 7) === month);
+    const memberTotals = new Map<string, ForecastMemberMonth>();
+    for (const entry of monthDays.flatMap(day => day.entries)) {
+      for (const share of entry.shares) {
+        const totals = memberTotals.get(share.memberId) ??
+          { memberId: share.memberId, inflowCents: 0, outflowCents: 0, estimatedOutflowCents: 0, netCents: 0 };
+        if (entry.amountCents >= 0) {
+          totals.inflowCents += share.amountCents;
+        } else {
+          totals.outflowCents += share.amountCents;
+          if (entry.isEstimated) totals.estimatedOutflowCents += share.amountCents;
+        }
+        totals.netCents = totals.inflowCents - totals.outflowCents;
+        memberTotals.set(share.memberId, totals);
+      }
+    }
+
+    const inflowCents = monthDays.reduce((sum, day) => sum + day.inflowCents, 0);
+    const outflowCents = monthDays.reduce((sum, day) => sum + day.outflowCents, 0);
+    const estimatedOutflowCents = monthDays
+      .flatMap(day => day.entries)
+      .reduce((sum, entry) => sum + (entry.isEstimated && entry.amountCents < 0 ? -entry.amountCents : 0), 0);
+    const endingBalanceCents = openingBalanceCents + inflowCents - outflowCents;
+    const lowestBalanceCents = Math.min(openingBalanceCents, ...monthDays.map(day => day.balanceCents));
+    openingBalanceCents = endingBalanceCents;
+
+    return {
+      month,
+      inflowCents,
+      outflowCents,
+      estimatedOutflowCents,
+      netCents: inflowCents - outflowCents,
+      endingBalanceCents,
+      lowestBalanceCents,
+      members: [...memberTotals.values()],
+    };
+  });
+
+  const tightest = forecastMonths.reduce<ForecastMonth | null>(
+    (worst, month) => (month.netCents < 0 && (!worst || month.netCents < worst.netCents) ? month : worst),
+    null
+  );
+
+  return {
+    startDate,
+    startingBalanceCents,
+    months: forecastMonths,
+    days,
+    tightestMonth: tightest?.month ?? null,
+  };
+}
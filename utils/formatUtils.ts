@@ -1,3 +1,6 @@
+import { RecurrenceRule, RecurrenceRuleFrequency, RecurringBill, Weekday } from '../types';
+import { WEEKDAYS } from './recurrence';
+
 /**
  * Utility functions for formatting text and numbers in user-friendly ways
  */
@@ -50,12 +53,107 @@ export function formatFrequency(frequency: string): string {
 
 /**
  * Formats recurring bill display text in a user-friendly way
- * Example: "Due on the 19th each month"
+ * Example: "Due on the 19th each month", or for a custom rule "Due every 2 weeks on Friday"
  */
-export function formatRecurrenceText(dayOfMonth: number, frequency: string): string {
+export function formatRecurrenceText(dayOfMonth: number, frequency: string, recurrenceRule?: RecurrenceRule | null): string {
+  if (frequency === 'custom' && recurrenceRule) {
+    return `Due ${formatRecurrenceRule(recurrenceRule)}`;
+  }
   return `Due on the ${formatOrdinal(dayOfMonth)} ${formatFrequency(frequency)}`;
 }
 
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday',
+};
+
+const POSITION_NAMES: Record<string, string> = {
+  '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last', '-2': 'second to last',
+};
+
+const RULE_UNITS: Record<RecurrenceRuleFrequency, string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+
+const joinWithAnd = (parts: string[]) =>
+  parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+
+const formatRuleDate = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', options);
+
+function formatWeekdays(weekdays: Weekday[]): string {
+  const days = new Set(weekdays);
+  if (days.size === 5 && ['MO', 'TU', 'WE', 'TH', 'FR'].every(day => days.has(day as Weekday))) return 'weekday';
+  if (days.size === 2 && days.has('SA') && days.has('SU')) return 'weekend day';
+  return joinWithAnd((Object.keys(WEEKDAY_NAMES) as Weekday[]).filter(day => days.has(day)).map(day => WEEKDAY_NAMES[day]));
+}
+
+const formatMonthDay = (day: number) =>
+  day === -1 ? 'last day' : day < 0 ? `${formatOrdinal(-day)} to last day` : formatOrdinal(day);
+
+/**
+ * Describes a custom recurrence rule, e.g. "every month on the last weekday, until Dec 31, 2026"
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = RULE_UNITS[rule.freq];
+  let text = rule.interval > 1 ? `every ${rule.interval} ${unit}s` : `every ${unit}`;
+
+  const startDay = Number(rule.startDate.slice(8, 10));
+  const positions = rule.bySetPos?.map(position => POSITION_NAMES[String(position)] ?? formatOrdinal(position));
+  let days = '';
+  if (rule.byWeekday?.length) {
+    days = positions?.length ? `the ${joinWithAnd(positions)} ${formatWeekdays(rule.byWeekday)}` : formatWeekdays(rule.byWeekday);
+  } else if (rule.byMonthDay?.length) {
+    days = `the ${joinWithAnd(rule.byMonthDay.map(formatMonthDay))}`;
+  } else if (rule.freq === 'weekly') {
+    days = WEEKDAY_NAMES[WEEKDAYS[new Date(`${rule.startDate}T00:00:00`).getDay()]];
+  } else if (rule.freq === 'monthly') {
+    days = `the ${formatOrdinal(startDay)}`;
+  }
+
+  if (rule.freq === 'yearly') {
+    const months = rule.byMonth?.length ? rule.byMonth : [Number(rule.startDate.slice(5, 7))];
+    const monthNames = joinWithAnd(months.map(month => new Date(2000, month - 1, 1).toLocaleDateString('en-US', { month: 'long' })));
+    text += days ? ` on ${days} of ${monthNames}` : ` on ${monthNames} ${startDay}`;
+  } else if (days) {
+    text += ` on ${days}`;
+  }
+
+  if (rule.until) {
+    text += `, until ${formatRuleDate(rule.until, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+  if (rule.exDates?.length) {
+    text += ` (skipping ${rule.exDates.length} date${rule.exDates.length === 1 ? '' : 's'})`;
+  }
+  return text;
+}
+
+/**
+ * Describes where a recurring bill's schedule stands on `today`, e.g. "Paused until Aug 31, 2026",
+ * "Ends Dec 31, 2026" or "Skipping 2 occurrences"; null for a bill running as usual
+ */
+export function formatRecurringBillStatus(
+  bill: Pick<RecurringBill, 'pausedFrom' | 'pausedUntil' | 'endDate' | 'skippedPeriods' | 'archivedAt'>,
+  today: string
+): string | null {
+  const formatDate = (date: string) => formatRuleDate(date, { month: 'short', day: 'numeric', year: 'numeric' });
+  // Only skips still ahead count; periods are months or due dates
+  const skipped = (bill.skippedPeriods ?? []).filter(period => period >= today.slice(0, period.length)).length;
+
+  if (bill.archivedAt) return 'Archived';
+  if (bill.endDate && bill.endDate < today) return `Ended ${formatDate(bill.endDate)}`;
+  if (bill.pausedFrom && bill.pausedFrom <= today && (!bill.pausedUntil || bill.pausedUntil >= today)) {
+    return bill.pausedUntil ? `Paused until ${formatDate(bill.pausedUntil)}` : 'Paused';
+  }
+
+  const parts: string[] = [];
+  if (bill.pausedFrom && bill.pausedFrom > today) {
+    parts.push(`Pausing ${formatDate(bill.pausedFrom)}${bill.pausedUntil ? ` to ${formatDate(bill.pausedUntil)}` : ''}`);
+  }
+  if (bill.endDate) parts.push(`Ends ${formatDate(bill.endDate)}`);
+  if (skipped > 0) parts.push(`Skipping ${skipped} occurrence${skipped === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
 /**
  * Safely formats a date string with proper validation and error handling
  * Handles various input formats and provides fallback for invalid dates
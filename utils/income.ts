@@ -0,0 +1,123 @@
+import { addMonthsToPeriod, getRecurringDueDate } from './recurrence';
+
+// Household income: each member's income sources (a paycheck amount and how often it comes) and the
+// deposits actually received, compared with each member's split-aware share of spending. Amounts are
+// in cents.
+
+export type IncomeKind = 'salary' | 'side-gig' | 'child-support' | 'other';
+
+export const INCOME_KINDS: IncomeKind[] = ['salary', 'side-gig', 'child-support', 'other'];
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
+
+export const PAYCHECKS_PER_YEAR: Record<PayFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+};
+
+export const PAY_FREQUENCIES = Object.keys(PAYCHECKS_PER_YEAR) as PayFrequency[];
+
+export interface MemberCashFlow {
+  memberId: string;
+  memberName: string;
+  incomeCents: number;
+  spendingCents: number;
+  // Their share of spending as a percentage of their income; null without income
+  contributionPercent: number | null;
+}
+
+export interface CashFlowSummary {
+  incomeCents: number;
+  spendingCents: number;
+  netCents: number;
+  // Net cash flow as a percentage of income; null without income
+  savingsRatePercent: number | null;
+  members: MemberCashFlow[];
+}
+
+/**
+ * Average monthly amount of a paycheck paid at the given frequency (a biweekly paycheck comes 26
+ * times a year, so some months have three).
+ */
+export function getMonthlyIncomeCents(amountCents: number, frequency: PayFrequency): number {
+  return Math.round((amountCents * PAYCHECKS_PER_YEAR[frequency]) / 12);
+}
+
+const DAYS_BETWEEN_PAYCHECKS: Partial<Record<PayFrequency, number>> = { weekly: 7, biweekly: 14 };
+
+const addDaysToDate = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * Expected paydays ('YYYY-MM-DD') from `fromDate` through `throughDate`. Weekly, biweekly and
+ * monthly pay repeats from `anchorDate` (a known payday); semi-monthly pay falls on the 15th and
+ * the last day of each month.
+ */
+export function getIncomePayDates(frequency: PayFrequency, anchorDate: string, fromDate: string, throughDate: string): string[] {
+  const dates: string[] = [];
+  const stepDays = DAYS_BETWEEN_PAYCHECKS[frequency];
+  if (stepDays) {
+    const [anchorYear, anchorMonth, anchorDay] = anchorDate.split('-').map(Number);
+    const [fromYear, fromMonth, fromDay] = fromDate.split('-').map(Number);
+    const daysAfterAnchor = (Date.UTC(fromYear, fromMonth - 1, fromDay) - Date.UTC(anchorYear, anchorMonth - 1, anchorDay)) / 86400000;
+    let date = addDaysToDate(anchorDate, Math.max(0, Math.ceil(daysAfterAnchor / stepDays)) * stepDays);
+    for (; date <= throughDate; date = addDaysToDate(date, stepDays)) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  const anchorDay = Number(anchorDate.slice(8, 10));
+  const paydays = frequency === 'semimonthly' ? [15, 31] : [anchorDay];
+  for (let period = fromDate.slice(0, 7); period <= throughDate.slice(0, 7); period = addMonthsToPeriod(period, 1)) {
+    for (const day of paydays) {
+      const date = getRecurringDueDate(period, day);
+      if (date >= fromDate && date >= anchorDate && date <= throughDate) dates.push(date);
+    }
+  }
+  return dates;
+}
+
+const percentOf = (partCents: number, wholeCents: number) =>
+  wholeCents > 0 ? Math.round((partCents / wholeCents) * 1000) / 10 : null;
+
+/**
+ * Net cash flow, savings rate and each member's spending as a share of their income. Members with
+ * neither income nor spending are left out.
+ */
+export function summarizeCashFlow(
+  members: { id: string; name: string }[],
+  incomeByMember: Map<string, number>,
+  spendingByMember: Map<string, number>
+): CashFlowSummary {
+  const memberFlows = members
+    .map(member => {
+      const incomeCents = incomeByMember.get(member.id) ?? 0;
+      const spendingCents = spendingByMember.get(member.id) ?? 0;
+      return {
+        memberId: member.id,
+        memberName: member.name,
+        incomeCents,
+        spendingCents,
+        contributionPercent: percentOf(spendingCents, incomeCents),
+      };
+    })
+    .filter(flow => flow.incomeCents > 0 || flow.spendingCents > 0);
+
+  const sum = (values: Iterable<number>) => [...values].reduce((total, value) => total + value, 0);
+  const incomeCents = sum(incomeByMember.values());
+  const spendingCents = sum(spendingByMember.values());
+  const netCents = incomeCents - spendingCents;
+
+  return {
+    incomeCents,
+    spendingCents,
+    netCents,
+    savingsRatePercent: percentOf(netCents, incomeCents),
+    members: memberFlows,
+  };
+}
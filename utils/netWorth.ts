@@ -0,0 +1,139 @@
+// Net worth: account balances (assets, and credit cards or other debts as liabilities) minus what is
+// still owed on mortgages and financed expenses. Account values come from the latest balance
+// snapshot on or before a date; loan balances are worked back from their payments. Dates are
+// 'YYYY-MM-DD' and amounts are in cents.
+
+export type FinancialAccountKind =
+  | 'checking'
+  | 'savings'
+  | 'brokerage'
+  | 'retirement'
+  | 'credit-card'
+  | 'other-asset'
+  | 'other-liability';
+
+export const FINANCIAL_ACCOUNT_KINDS: FinancialAccountKind[] = [
+  'checking', 'savings', 'brokerage', 'retirement', 'credit-card', 'other-asset', 'other-liability',
+];
+
+// Balances of these kinds are amounts owed
+export const LIABILITY_ACCOUNT_KINDS: FinancialAccountKind[] = ['credit-card', 'other-liability'];
+
+export interface BalanceSnapshot {
+  balanceCents: number;
+  asOfDate: string;
+}
+
+export interface NetWorthAccount {
+  id: string;
+  name: string;
+  kind: FinancialAccountKind;
+  balances: BalanceSnapshot[];
+}
+
+export interface NetWorthMortgage {
+  id: string;
+  name: string;
+  startDate: string;
+  currentPrincipalCents: number;
+  // Principal part of each recorded payment
+  principalPayments: { paidDate: string; principalCents: number }[];
+}
+
+export interface NetWorthFinancedExpense {
+  id: string;
+  title: string;
+  purchaseDate: string;
+  totalAmountCents: number;
+  paidPayments: { paidDate: string; amountCents: number }[];
+}
+
+export interface NetWorthInput {
+  accounts: NetWorthAccount[];
+  mortgages: NetWorthMortgage[];
+  financedExpenses: NetWorthFinancedExpense[];
+}
+
+export type NetWorthItemSource = 'account' | 'mortgage' | 'financed-expense';
+
+export interface NetWorthItem {
+  source: NetWorthItemSource;
+  id: string;
+  name: string;
+  kind: FinancialAccountKind | null;
+  balanceCents: number;
+  // Date of the snapshot used, for accounts
+  asOfDate: string | null;
+}
+
+export interface NetWorthBreakdown {
+  date: string;
+  assets: NetWorthItem[];
+  liabilities: NetWorthItem[];
+  assetsCents: number;
+  liabilitiesCents: number;
+  netWorthCents: number;
+}
+
+/**
+ * The latest snapshot on or before `date`, or null when the account had none yet.
+ */
+export function getBalanceOn(balances: BalanceSnapshot[], date: string): BalanceSnapshot | null {
+  return balances
+    .filter(balance => balance.asOfDate <= date)
+    .reduce<BalanceSnapshot | null>((latest, balance) => (!latest || balance.asOfDate > latest.asOfDate ? balance : latest), null);
+}
+
+/**
+ * A mortgage's principal at the end of `date`: the current balance plus the principal of every
+ * payment made after it. Nothing is owed before the loan starts.
+ */
+export function getMortgagePrincipalOn(mortgage: NetWorthMortgage, date: string): number {
+  if (date < mortgage.startDate) return 0;
+  return mortgage.principalPayments
+    .filter(payment => payment.paidDate > date)
+    .reduce((balance, payment) => balance + payment.principalCents, mortgage.currentPrincipalCents);
+}
+
+/**
+ * What is left of a financed expense at the end of `date`: the total less installments paid by then,
+ * as in the financed expense summary.
+ */
+export function getFinancedExpenseRemainingOn(expense: NetWorthFinancedExpense, date: string): number {
+  if (date < expense.purchaseDate) return 0;
+  const paidCents = expense.paidPayments
+    .filter(payment => payment.paidDate <= date)
+    .reduce((sum, payment) => sum + payment.amountCents, 0);
+  return Math.max(0, expense.totalAmountCents - paidCents);
+}
+
+/**
+ * Assets, liabilities and net worth at the end of `date`.
+ */
+export function computeNetWorthOn(input: NetWorthInput, date: string): NetWorthBreakdown {
+  const assets: NetWorthItem[] = [];
+  const liabilities: NetWorthItem[] = [];
+
+  for (const account of input.accounts) {
+    const balance = getBalanceOn(account.balances, date);
+    if (!balance) continue;
+    const item = { source: 'account' as const, id: account.id, name: account.name, kind: account.kind, balanceCents: balance.balanceCents, asOfDate: balance.asOfDate };
+    (LIABILITY_ACCOUNT_KINDS.includes(account.kind) ? liabilities : assets).push(item);
+  }
+  for (const mortgage of input.mortgages) {
+    const balanceCents = getMortgagePrincipalOn(mortgage, date);
+    if (balanceCents > 0) {
+      liabilities.push({ source: 'mortgage', id: mortgage.id, name: mortgage.name, kind: null, balanceCents, asOfDate: null });
+    }
+  }
+  for (const expense of input.financedExpenses) {
+    const balanceCents = getFinancedExpenseRemainingOn(expense, date);
+    if (balanceCents > 0) {
+      liabilities.push({ source: 'financed-expense', id: expense.id, name: expense.title, kind: null, balanceCents, asOfDate: null });
+    }
+  }
+
+  const assetsCents = assets.reduce((sum, item) => sum + item.balanceCents, 0);
+  const liabilitiesCents = liabilities.reduce((sum, item) => sum + item.balanceCents, 0);
+  return { date, assets, liabilities, assetsCents, liabilitiesCents, netWorthCents: assetsCents - liabilitiesCents };
+}
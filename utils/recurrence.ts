@@ -0,0 +1,305 @@
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceRuleFrequency, Weekday } from '../types';
+import { normalizeDueDate } from './dateUtils';
+
+// Periods are calendar months in the 'YYYY-MM' form stored on bills.period
+// and recurring_bills.last_generated_period. Bills of 'custom' recurring bills can fall several
+// times a month, so they use their due date ('YYYY-MM-DD') as the period instead, and the
+// recurring bill's last_generated_period becomes the last due date generated.
+
+/**
+ * Number of months between two occurrences of a recurring bill.
+ */
+export function getFrequencyIntervalMonths(frequency: RecurrenceFrequency | string): number {
+  switch (frequency) {
+    case 'monthly':
+      return 1;
+    case 'bi-monthly':
+      return 2;
+    case 'quarterly':
+      return 3;
+    case 'semi-annually':
+      return 6;
+    case 'yearly':
+      return 12;
+    default:
+      throw new Error(`Unsupported recurrence frequency: ${frequency}`);
+  }
+}
+
+/**
+ * Formats a date as its 'YYYY-MM' period.
+ */
+export function formatPeriod(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Parses a 'YYYY-MM' period into its year and 1-based month.
+ */
+export function parsePeriod(period: string): { year: number; month: number } {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  if (!match) {
+    throw new Error(`Invalid period: ${period}`);
+  }
+  return { year: Number(match[1]), month: Number(match[2]) };
+}
+
+/**
+ * Shifts a period by a number of months, e.g. addMonthsToPeriod('2024-11', 3) -> '2025-02'.
+ */
+export function addMonthsToPeriod(period: string, months: number): string {
+  const { year, month } = parsePeriod(period);
+  return formatPeriod(new Date(year, month - 1 + months, 1));
+}
+
+/**
+ * Due date ('YYYY-MM-DD') of a recurring bill in a given period, clamped to the end of short months.
+ */
+export function getRecurringDueDate(period: string, dayOfMonth: number): string {
+  const { year, month } = parsePeriod(period);
+  const dueDate = normalizeDueDate(year, month, dayOfMonth);
+  return `${formatPeriod(dueDate)}-${String(dueDate.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Lists the periods a recurring bill still needs bills for, up to and including `throughPeriod`.
+ *
+ * A new recurring bill stores the month before its first due date as `lastGeneratedPeriod`, so the
+ * first occurrence is the following month. Once a bill has been generated, occurrences continue
+ * every `frequency` months from the last generated period.
+ */
+export function getPendingRecurringPeriods(
+  lastGeneratedPeriod: string,
+  frequency: RecurrenceFrequency | string,
+  throughPeriod: string,
+  hasGeneratedBills: boolean
+): string[] {
+  const interval = getFrequencyIntervalMonths(frequency);
+  const periods: string[] = [];
+
+  let period = addMonthsToPeriod(lastGeneratedPeriod, hasGeneratedBills ? interval : 1);
+  while (period <= throughPeriod) {
+    periods.push(period);
+    period = addMonthsToPeriod(period, interval);
+  }
+
+  return periods;
+}
+
+export const RECURRENCE_RULE_FREQUENCIES: RecurrenceRuleFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// In getUTCDay() order
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const fromDayNumber = (dayNumber: number) => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Whether `day` of a month with `monthLength` days is month day `n`; days past the end of a short
+// month fall on its last day, as with dayOfMonth, and negative days count back from the end
+const isMonthDay = (day: number, monthLength: number, n: number) =>
+  n > 0 ? day === Math.min(n, monthLength) : day === monthLength + n + 1;
+
+// Days of one month matching the rule's month days and weekdays; the start date's day by default
+function getMonthCandidates(rule: RecurrenceRule, year: number, month: number, startDay: number): number[] {
+  const monthLength = daysInMonth(year, month);
+  const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : rule.byWeekday?.length ? null : [startDay];
+  const candidates: number[] = [];
+  for (let day = 1; day <= monthLength; day++) {
+    const dayNumber = Date.UTC(year, month - 1, day) / DAY_MS;
+    if (monthDays && !monthDays.some(n => isMonthDay(day, monthLength, n))) continue;
+    if (rule.byWeekday?.length && !rule.byWeekday.includes(WEEKDAYS[new Date(dayNumber * DAY_MS).getUTCDay()])) continue;
+    candidates.push(dayNumber);
+  }
+  return candidates;
+}
+
+// Candidate days of the index-th period (day, week, month or year) counted from the start date's
+function getPeriodCandidates(rule: RecurrenceRule, index: number): { periodStart: number; candidates: number[] } {
+  const start = toDayNumber(rule.startDate);
+  const startDate = new Date(start * DAY_MS);
+  const startYear = startDate.getUTCFullYear();
+  const startMonth = startDate.getUTCMonth() + 1;
+  const startDay = startDate.getUTCDate();
+  const inMonths = (dayNumber: number) =>
+    !rule.byMonth?.length || rule.byMonth.includes(new Date(dayNumber * DAY_MS).getUTCMonth() + 1);
+
+  switch (rule.freq) {
+    case 'daily': {
+      const day = start + index;
+      const matches = (!rule.byWeekday?.length || rule.byWeekday.includes(WEEKDAYS[new Date(day * DAY_MS).getUTCDay()])) &&
+        (!rule.byMonthDay?.length || rule.byMonthDay.some(n => {
+          const date = new Date(day * DAY_MS);
+          return isMonthDay(date.getUTCDate(), daysInMonth(date.getUTCFullYear(), date.getUTCMonth() + 1), n);
+        }));
+      return { periodStart: day, candidates: matches && inMonths(day) ? [day] : [] };
+    }
+    case 'weekly': {
+      // Weeks start on Monday
+      const monday = start - ((startDate.getUTCDay() + 6) % 7) + index * 7;
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [WEEKDAYS[startDate.getUTCDay()]];
+      const candidates = [0, 1, 2, 3, 4, 5, 6]
+        .map(offset => monday + offset)
+        .filter(day => weekdays.includes(WEEKDAYS[new Date(day * DAY_MS).getUTCDay()]) && inMonths(day));
+      return { periodStart: monday, candidates };
+    }
+    case 'monthly': {
+      const monthIndex = startMonth - 1 + index;
+      const year = startYear + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const periodStart = Date.UTC(year, month - 1, 1) / DAY_MS;
+      return { periodStart, candidates: inMonths(periodStart) ? getMonthCandidates(rule, year, month, startDay) : [] };
+    }
+    case 'yearly': {
+      const year = startYear + index;
+      const months = rule.byMonth?.length ? [...rule.byMonth].sort((a, b) => a - b) : [startMonth];
+      return {
+        periodStart: Date.UTC(year, 0, 1) / DAY_MS,
+        candidates: months.flatMap(month => getMonthCandidates(rule, year, month, startDay)),
+      };
+    }
+  }
+}
+
+// Positions are 1-based; negative positions count back from the last candidate
+function selectSetPositions(candidates: number[], positions: number[] | undefined): number[] {
+  if (!positions?.length) return candidates;
+  const selected = positions
+    .map(position => candidates[position > 0 ? position - 1 : candidates.length + position])
+    .filter(day => day !== undefined);
+  return [...new Set(selected)].sort((a, b) => a - b);
+}
+
+/**
+ * Due dates ('YYYY-MM-DD') of a recurrence rule from its start date through `throughDate`.
+ *
+ * Follows iCalendar RRULE expansion: each period of `freq`, every `interval` periods from the start
+ * date's, contributes the days matching its BY* parts, narrowed by `bySetPos`. `count` stops the
+ * series after that many occurrences and excluded dates are removed afterwards. Unlike RRULE,
+ * yearly rules only repeat in the start date's month unless `byMonth` is given.
+ */
+export function getRecurrenceRuleOccurrences(rule: RecurrenceRule, throughDate: string): string[] {
+  const start = toDayNumber(rule.startDate);
+  const last = toDayNumber(rule.until && rule.until < throughDate ? rule.until : throughDate);
+  const interval = Math.max(1, rule.interval || 1);
+  const occurrences: string[] = [];
+
+  let counted = 0;
+  for (let index = 0; ; index += interval) {
+    const { periodStart, candidates } = getPeriodCandidates(rule, index);
+    if (periodStart > last || (rule.count && counted >= rule.count)) break;
+
+    for (const day of selectSetPositions(candidates, rule.bySetPos)) {
+      if (day < start) continue;
+      if (day > last || (rule.count && counted >= rule.count)) break;
+      counted++;
+      occurrences.push(fromDayNumber(day));
+    }
+  }
+
+  const excluded = new Set(rule.exDates ?? []);
+  return occurrences.filter(date => !excluded.has(date));
+}
+
+// Pauses and end dates are inclusive 'YYYY-MM-DD' dates; a pause without pausedUntil lasts until it
+// is lifted. Skipped periods are bill periods, so months for monthly-style bills and due dates for
+// custom ones.
+export interface RecurringBillSchedule {
+  pausedFrom?: string | null;
+  pausedUntil?: string | null;
+  endDate?: string | null;
+  skippedPeriods?: string[] | null;
+}
+
+/**
+ * Whether an occurrence of a recurring bill should become a bill: it is not skipped, not due while
+ * the bill is paused and not due after its end date.
+ */
+export function isRecurringOccurrenceScheduled(schedule: RecurringBillSchedule, occurrence: { period: string; dueDate: string }): boolean {
+  const { pausedFrom, pausedUntil, endDate, skippedPeriods } = schedule;
+  if (skippedPeriods?.includes(occurrence.period)) return false;
+  if (endDate && occurrence.dueDate > endDate) return false;
+  if (pausedFrom && occurrence.dueDate >= pausedFrom && (!pausedUntil || occurrence.dueDate <= pausedUntil)) return false;
+  return true;
+}
+
+/**
+ * Whether a monthly-style recurring bill has a bill due in `period`, for monthly totals. Archived
+ * bills never do.
+ */
+export function isRecurringBillDueIn(
+  recurringBill: RecurringBillSchedule & { dayOfMonth: number; archivedAt?: string | null },
+  period: string
+): boolean {
+  if (recurringBill.archivedAt) return false;
+  return isRecurringOccurrenceScheduled(recurringBill, { period, dueDate: getRecurringDueDate(period, recurringBill.dayOfMonth) });
+}
+
+type PendingRecurringBill = RecurringBillSchedule & {
+  lastGeneratedPeriod: string;
+  frequency: RecurrenceFrequency | string;
+  dayOfMonth: number;
+  recurrenceRule?: RecurrenceRule | null;
+};
+
+// Every occurrence after the last generated one, whether or not the schedule leaves it out
+function listRecurringOccurrences(
+  recurringBill: PendingRecurringBill,
+  throughPeriod: string,
+  hasGeneratedBills: boolean
+): { period: string; dueDate: string }[] {
+  const { lastGeneratedPeriod, frequency, dayOfMonth, recurrenceRule } = recurringBill;
+
+  if (frequency === 'custom') {
+    if (!recurrenceRule) {
+      throw new Error('Custom recurrence is missing its rule');
+    }
+    const after = lastGeneratedPeriod.length === 7 ? getRecurringDueDate(lastGeneratedPeriod, 31) : lastGeneratedPeriod;
+    return getRecurrenceRuleOccurrences(recurrenceRule, getRecurringDueDate(throughPeriod, 31))
+      .filter(date => date > after)
+      .map(date => ({ period: date, dueDate: date }));
+  }
+  // A bill switched from a custom rule keeps its last due date until the next bill is generated
+  return getPendingRecurringPeriods(lastGeneratedPeriod.slice(0, 7), frequency, throughPeriod, hasGeneratedBills)
+    .map(period => ({ period, dueDate: getRecurringDueDate(period, dayOfMonth) }));
+}
+
+/**
+ * Bills a recurring bill still needs, up to and including `throughPeriod`, as their period and due
+ * date. Monthly-style bills follow getPendingRecurringPeriods; 'custom' bills get every occurrence
+ * of their rule after the last generated due date (or after the month stored before their first).
+ * Occurrences the schedule leaves out are dropped.
+ */
+export function getPendingRecurringOccurrences(
+  recurringBill: PendingRecurringBill,
+  throughPeriod: string,
+  hasGeneratedBills: boolean
+): { period: string; dueDate: string }[] {
+  return listRecurringOccurrences(recurringBill, throughPeriod, hasGeneratedBills)
+    .filter(occurrence => isRecurringOccurrenceScheduled(recurringBill, occurrence));
+}
+
+/**
+ * The last occurrence up to `throughPeriod` that was left out, by the schedule or because the bill
+ * is archived, and fell due before `today`; null if there is none. Generation counts it as
+ * generated, so lifting a pause or a skip, or restoring the bill, does not bring back bills for
+ * dates that have already passed. Left-out occurrences still to come are not counted.
+ */
+export function getLastPassedOverOccurrence(
+  recurringBill: PendingRecurringBill & { archivedAt?: string | null },
+  throughPeriod: string,
+  hasGeneratedBills: boolean,
+  today: string
+): { period: string; dueDate: string } | null {
+  const passedOver = listRecurringOccurrences(recurringBill, throughPeriod, hasGeneratedBills)
+    .filter(occurrence => occurrence.dueDate < today)
+    .filter(occurrence => recurringBill.archivedAt || !isRecurringOccurrenceScheduled(recurringBill, occurrence));
+  return passedOver[passedOver.length - 1] ?? null;
+}
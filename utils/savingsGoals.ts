@@ -0,0 +1,101 @@
+// Savings goals: progress towards a target amount by a target date. The required pace spreads what
+// is left over the months until the target date; the actual pace is the recent monthly average of
+// contributions. Dates are 'YYYY-MM-DD' and amounts are in cents.
+
+export interface SavingsContributionEntry {
+  amountCents: number;
+  contributedDate: string;
+}
+
+export type SavingsGoalStatus = 'complete' | 'on-track' | 'behind';
+
+export interface SavingsGoalProgress {
+  savedCents: number;
+  remainingCents: number;
+  percentComplete: number;
+  // Monthly contributions left before the target date, counting the current month
+  monthsLeft: number;
+  requiredMonthlyCents: number;
+  actualMonthlyCents: number;
+  // When the goal is reached at the actual pace; null when nothing has been saved lately
+  projectedCompletionDate: string | null;
+  status: SavingsGoalStatus;
+}
+
+// How far back contributions count towards the actual pace
+export const SAVINGS_PACE_MONTHS = 3;
+
+const AVERAGE_DAYS_PER_MONTH = 365.25 / 12;
+
+const toUtc = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const addMonthsToDate = (date: string, months: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+/**
+ * Monthly contributions left from `today` to `targetDate`: this month's, then one for each month
+ * whose day has not passed the target date's. Zero once the target date has passed.
+ */
+export function getMonthsLeft(today: string, targetDate: string): number {
+  if (targetDate < today) return 0;
+  const [year, month, day] = today.split('-').map(Number);
+  const [targetYear, targetMonth, targetDay] = targetDate.split('-').map(Number);
+  return (targetYear - year) * 12 + (targetMonth - month) + (targetDay >= day ? 1 : 0);
+}
+
+/**
+ * Progress, paces and projected completion of a goal as of `today`.
+ */
+export function computeSavingsGoalProgress(
+  goal: { targetCents: number; targetDate: string },
+  contributions: SavingsContributionEntry[],
+  today: string
+): SavingsGoalProgress {
+  const savedCents = contributions.reduce((sum, contribution) => sum + contribution.amountCents, 0);
+  const remainingCents = Math.max(0, goal.targetCents - savedCents);
+  const monthsLeft = getMonthsLeft(today, goal.targetDate);
+  const requiredMonthlyCents = remainingCents === 0 ? 0 : Math.ceil(remainingCents / Math.max(1, monthsLeft));
+
+  // Averaged from the first contribution when the goal is younger than the pace window
+  const firstDate = contributions.reduce<string | null>(
+    (first, contribution) => (!first || contribution.contributedDate < first ? contribution.contributedDate : first),
+    null
+  );
+  const windowStart = [addMonthsToDate(today, -SAVINGS_PACE_MONTHS), firstDate ?? today].sort()[1];
+  const recentCents = contributions
+    .filter(contribution => contribution.contributedDate >= windowStart && contribution.contributedDate <= today)
+    .reduce((sum, contribution) => sum + contribution.amountCents, 0);
+  const windowMonths = Math.max(1, (toUtc(today) - toUtc(windowStart)) / 86400000 / AVERAGE_DAYS_PER_MONTH);
+  const actualMonthlyCents = Math.round(recentCents / windowMonths);
+
+  let projectedCompletionDate: string | null = null;
+  if (remainingCents === 0) {
+    projectedCompletionDate = today;
+  } else if (actualMonthlyCents > 0) {
+    projectedCompletionDate = addMonthsToDate(today, Math.ceil(remainingCents / actualMonthlyCents));
+  }
+
+  let status: SavingsGoalStatus = 'behind';
+  if (remainingCents === 0) {
+    status = 'complete';
+  } else if (monthsLeft > 0 && actualMonthlyCents >= requiredMonthlyCents) {
+    status = 'on-track';
+  }
+
+  return {
+    savedCents,
+    remainingCents,
+    percentComplete: Math.min(100, Math.round((savedCents / goal.targetCents) * 100)),
+    monthsLeft,
+    requiredMonthlyCents,
+    actualMonthlyCents,
+    projectedCompletionDate,
+    status,
+  };
+}
@@ -0,0 +1,133 @@
+import { Person, Splittable } from '../types';
+import { allocatePaymentProportionally } from './calculations';
+
+// Settle-up balances. Every payment someone made counts as money they paid, and each member's share
+// of it (their split of the bill, mortgage or financed expense) as money they owe. Settlements
+// between members move the difference back. All amounts are in cents.
+
+export interface LedgerShare {
+  personId: string;
+  amountCents: number;
+}
+
+export interface LedgerPayment {
+  payerId: string;
+  // Who the payment was for; the payer is credited with their total
+  shares: LedgerShare[];
+}
+
+export interface LedgerSettlement {
+  fromPersonId: string;
+  toPersonId: string;
+  amountCents: number;
+}
+
+export interface MemberBalance {
+  personId: string;
+  paidCents: number;
+  owedCents: number;
+  settlementsSentCents: number;
+  settlementsReceivedCents: number;
+  // Positive when the household owes this member money, negative when they owe it
+  netCents: number;
+}
+
+export interface SettleUpTransfer {
+  fromPersonId: string;
+  toPersonId: string;
+  amountCents: number;
+}
+
+/**
+ * Each member's share of a payment: its recorded allocations when there are any, otherwise the
+ * payment spread over the item's splits the same way the bill status screens do.
+ */
+export function getPaymentShares(
+  amountCents: number,
+  splittable: Splittable,
+  people: Person[],
+  allocations?: LedgerShare[] | null
+): LedgerShare[] {
+  if (allocations && allocations.length > 0) {
+    return allocations.filter(allocation => allocation.amountCents !== 0);
+  }
+  return allocatePaymentProportionally(amountCents / 100, splittable, people)
+    .map(allocation => ({ personId: allocation.personId, amountCents: Math.round(allocation.amount * 100) }))
+    .filter(share => share.amountCents !== 0);
+}
+
+/**
+ * Nets what each member paid against their shares and the settlements they sent or received.
+ * People who no longer belong to `personIds` are left out.
+ */
+export function computeMemberBalances(
+  personIds: string[],
+  payments: LedgerPayment[],
+  settlements: LedgerSettlement[]
+): MemberBalance[] {
+  const balances = new Map<string, MemberBalance>(personIds.map(personId => [personId, {
+    personId,
+    paidCents: 0,
+    owedCents: 0,
+    settlementsSentCents: 0,
+    settlementsReceivedCents: 0,
+    netCents: 0,
+  }]));
+
+  for (const payment of payments) {
+    const payer = balances.get(payment.payerId);
+    if (!payer) continue;
+    for (const share of payment.shares) {
+      const member = balances.get(share.personId);
+      if (!member) continue;
+      // Credit the payer per share so a share owed by someone outside the household is not counted
+      payer.paidCents += share.amountCents;
+      member.owedCents += share.amountCents;
+    }
+  }
+
+  for (const settlement of settlements) {
+    const from = balances.get(settlement.fromPersonId);
+    const to = balances.get(settlement.toPersonId);
+    if (!from || !to) continue;
+    from.settlementsSentCents += settlement.amountCents;
+    to.settlementsReceivedCents += settlement.amountCents;
+  }
+
+  return [...balances.values()].map(balance => ({
+    ...balance,
+    netCents: balance.paidCents - balance.owedCents + balance.settlementsSentCents - balance.settlementsReceivedCents,
+  }));
+}
+
+/**
+ * Turns balances into transfers that zero them. The member who owes the most pays the member who is
+ * owed the most until one of them is even, which needs at most one transfer fewer than the number of
+ * members with a balance.
+ */
+export function computeSettleUpTransfers(balances: MemberBalance[]): SettleUpTransfer[] {
+  const byAmount = (a: { personId: string; cents: number }, b: { personId: string; cents: number }) =>
+    b.cents - a.cents || a.personId.localeCompare(b.personId);
+  const creditors = balances
+    .filter(balance => balance.netCents > 0)
+    .map(balance => ({ personId: balance.personId, cents: balance.netCents }));
+  const debtors = balances
+    .filter(balance => balance.netCents < 0)
+    .map(balance => ({ personId: balance.personId, cents: -balance.netCents }));
+
+  const transfers: SettleUpTransfer[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort(byAmount);
+    debtors.sort(byAmount);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amountCents = Math.min(creditor.cents, debtor.cents);
+
+    transfers.push({ fromPersonId: debtor.personId, toPersonId: creditor.personId, amountCents });
+    creditor.cents -= amountCents;
+    debtor.cents -= amountCents;
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+  return transfers;
+}
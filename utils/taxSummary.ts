@@ -0,0 +1,129 @@
+import { EscrowCategory } from './escrow';
+
+// Year-end tax summary: what each loan charged in interest, what was paid out of escrow for property
+// tax and mortgage insurance, each member's share of those through the item's splits, and bill
+// payments by category. Payments count in the year of their paid date. Amounts are in cents.
+
+export interface TaxSummaryMortgage {
+  mortgageId: string;
+  name: string;
+  lender: string | null;
+  paymentCount: number;
+  paidCents: number;
+  principalCents: number;
+  interestCents: number;
+  escrowCents: number;
+  // Paid by the lender out of escrow during the year
+  escrowDisbursementCents: Record<EscrowCategory, number>;
+}
+
+export interface TaxSummaryFinancedExpense {
+  financedExpenseId: string;
+  title: string;
+  categoryName: string;
+  paymentCount: number;
+  principalCents: number;
+  interestCents: number;
+}
+
+export interface TaxSummaryMember {
+  memberId: string;
+  memberName: string;
+  mortgageInterestCents: number;
+  propertyTaxCents: number;
+  mortgageInsuranceCents: number;
+  financedInterestCents: number;
+}
+
+export interface TaxSummaryBillCategory {
+  categoryId: string;
+  categoryName: string;
+  paymentCount: number;
+  paidCents: number;
+}
+
+export interface TaxSummaryTotals {
+  mortgageInterestCents: number;
+  propertyTaxCents: number;
+  mortgageInsuranceCents: number;
+  financedInterestCents: number;
+  billsPaidCents: number;
+}
+
+export interface TaxSummary {
+  year: number;
+  mortgages: TaxSummaryMortgage[];
+  financedExpenses: TaxSummaryFinancedExpense[];
+  members: TaxSummaryMember[];
+  billCategories: TaxSummaryBillCategory[];
+  totals: TaxSummaryTotals;
+}
+
+/**
+ * Adds up the per-item figures into the report totals.
+ */
+export function sumTaxSummaryTotals(
+  mortgages: TaxSummaryMortgage[],
+  financedExpenses: TaxSummaryFinancedExpense[],
+  billCategories: TaxSummaryBillCategory[]
+): TaxSummaryTotals {
+  const sum = <T>(items: T[], pick: (item: T) => number) => items.reduce((total, item) => total + pick(item), 0);
+  return {
+    mortgageInterestCents: sum(mortgages, m => m.interestCents),
+    propertyTaxCents: sum(mortgages, m => m.escrowDisbursementCents.taxes),
+    mortgageInsuranceCents: sum(mortgages, m => m.escrowDisbursementCents.mip),
+    financedInterestCents: sum(financedExpenses, fe => fe.interestCents),
+    billsPaidCents: sum(billCategories, c => c.paidCents),
+  };
+}
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * One row per figure, as section, item, detail and amount in dollars, for a spreadsheet or an accountant.
+ */
+export function buildTaxSummaryCsv(summary: TaxSummary): string {
+  const rows: (string | number)[][] = [['Section', 'Item', 'Detail', 'Amount']];
+
+  for (const mortgage of summary.mortgages) {
+    const item = mortgage.lender ? `${mortgage.name} (${mortgage.lender})` : mortgage.name;
+    rows.push(
+      ['Mortgage', item, 'Interest paid', formatAmount(mortgage.interestCents)],
+      ['Mortgage', item, 'Principal paid', formatAmount(mortgage.principalCents)],
+      ['Mortgage', item, 'Escrow deposits', formatAmount(mortgage.escrowCents)],
+      ['Mortgage', item, 'Property tax paid from escrow', formatAmount(mortgage.escrowDisbursementCents.taxes)],
+      ['Mortgage', item, 'Homeowners insurance paid from escrow', formatAmount(mortgage.escrowDisbursementCents.insurance)],
+      ['Mortgage', item, 'Mortgage insurance paid from escrow', formatAmount(mortgage.escrowDisbursementCents.mip)],
+      ['Mortgage', item, 'HOA paid from escrow', formatAmount(mortgage.escrowDisbursementCents.hoa)],
+      ['Mortgage', item, 'Total payments', formatAmount(mortgage.paidCents)],
+    );
+  }
+  for (const expense of summary.financedExpenses) {
+    rows.push(['Financed expense', expense.title, `Interest paid (${expense.categoryName})`, formatAmount(expense.interestCents)]);
+  }
+  for (const member of summary.members) {
+    rows.push(
+      ['Member share', member.memberName, 'Mortgage interest', formatAmount(member.mortgageInterestCents)],
+      ['Member share', member.memberName, 'Property tax', formatAmount(member.propertyTaxCents)],
+      ['Member share', member.memberName, 'Mortgage insurance', formatAmount(member.mortgageInsuranceCents)],
+      ['Member share', member.memberName, 'Financed expense interest', formatAmount(member.financedInterestCents)],
+    );
+  }
+  for (const category of summary.billCategories) {
+    rows.push(['Bills', category.categoryName, `${category.paymentCount} payments`, formatAmount(category.paidCents)]);
+  }
+  rows.push(
+    ['Total', summary.year, 'Mortgage interest', formatAmount(summary.totals.mortgageInterestCents)],
+    ['Total', summary.year, 'Property tax', formatAmount(summary.totals.propertyTaxCents)],
+    ['Total', summary.year, 'Mortgage insurance', formatAmount(summary.totals.mortgageInsuranceCents)],
+    ['Total', summary.year, 'Financed expense interest', formatAmount(summary.totals.financedInterestCents)],
+    ['Total', summary.year, 'Bills paid', formatAmount(summary.totals.billsPaidCents)],
+  );
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}